@@ -0,0 +1,86 @@
+/**
+ * Analysis Job Events API Route Handler
+ *
+ * Streams a background analysis job's updates over Server-Sent Events, so
+ * the analyze page can render each section as it completes instead of
+ * polling GET /api/analyze/[id].
+ *
+ * @route GET /api/analyze/[id]/events
+ */
+
+import { NextRequest } from 'next/server';
+import { createLogger } from '@/lib/logger';
+import { errorResponse } from '@/lib/api-utils';
+import { getAnalysisJob, subscribeAnalysisJob } from '@/lib/analysis-jobs';
+import { createSseResponse } from '@/lib/sse';
+
+const log = createLogger('Analysis');
+
+/**
+ * GET /api/analyze/[id]/events
+ *
+ * Path Parameters:
+ * - id: Job ID returned by POST /api/analyze
+ *
+ * Response:
+ * - Success (200): text/event-stream
+ *   - `job` (AnalysisJob): the current state straight away, then after every
+ *     checkpoint. The partial results grow as sections complete. The stream
+ *     closes after the job completes or fails.
+ *   - `gone` ({ id }): the job was discarded; the stream closes
+ * - Not Found (404): the job was collected, expired, or ran on another
+ *   server instance
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: jobId } = await params;
+
+  const job = getAnalysisJob(jobId);
+  if (!job) {
+    log.debug('Job not found', { jobId });
+    return errorResponse('Analysis job not found', 404, {
+      type: 'job_not_found',
+      jobId,
+      message:
+        'The job has finished and been collected, expired, or was started on another server instance.',
+    });
+  }
+
+  return createSseResponse(
+    (send, signal) =>
+      new Promise<void>((resolve) => {
+        send('job', job);
+        if (job.status !== 'running') {
+          resolve();
+          return;
+        }
+
+        const finish = () => {
+          unsubscribe?.();
+          resolve();
+        };
+        const unsubscribe = subscribeAnalysisJob(jobId, (update) => {
+          if (!update) {
+            send('gone', { id: jobId });
+            finish();
+            return;
+          }
+          send('job', update);
+          if (update.status !== 'running') {
+            finish();
+          }
+        });
+        if (!unsubscribe) {
+          // Pruned since it was looked up
+          send('gone', { id: jobId });
+          resolve();
+          return;
+        }
+
+        // The client went away; the job keeps running for a reconnect
+        signal.addEventListener('abort', finish, { once: true });
+      })
+  );
+}
@@ -1,148 +1,79 @@
 /**
- * Analysis Retrieval API Route Handler
+ * Analysis Job API Route Handler
  *
- * GET endpoint that retrieves saved analyses by transcript ID.
- * Note: Since analyses are stored client-side in IndexedDB, this endpoint
- * primarily serves as documentation and could be used if implementing
- * server-side storage in the future.
+ * Follows background analysis jobs started by POST /api/analyze.
  *
- * Current Implementation:
- * - Returns analysis data structure documentation
- * - Can be extended to support server-side analysis storage
- * - Useful for API documentation and future server-side features
+ * Jobs live in server memory only (lib/analysis-jobs.ts) and never hold the
+ * transcript. Saved analyses stay client-side in IndexedDB; use
+ * getAnalysisByTranscript(transcriptId) from @/lib/db to read them.
+ *
+ * Live updates are streamed by GET /api/analyze/[id]/events.
  *
  * @route GET /api/analyze/[id]
+ * @route DELETE /api/analyze/[id]
  */
 
 import { NextRequest } from 'next/server';
 import { createLogger } from '@/lib/logger';
-import { errorResponse } from '@/lib/api-utils';
+import { errorResponse, successResponse } from '@/lib/api-utils';
+import { deleteAnalysisJob, getAnalysisJob } from '@/lib/analysis-jobs';
 
 const log = createLogger('Analysis');
 
-
 /**
  * GET /api/analyze/[id]
  *
- * Retrieves saved analysis for a transcript.
+ * Returns the status of an analysis job.
  *
  * Path Parameters:
- * - id: Transcript ID
+ * - id: Job ID returned by POST /api/analyze
  *
  * Response:
- * - Success (200): { success: true, data: Analysis[] }
- * - Not Implemented (501): Information about client-side storage
- *
- * Note: Analyses are currently stored client-side in IndexedDB.
- * To retrieve analyses, use the client-side database functions:
- * - getAnalysisByTranscript(transcriptId) from @/lib/db
- *
- * This endpoint is reserved for future server-side storage implementation.
+ * - Success (200): { success: true, data: AnalysisJob }
+ *   - status 'running': progress, current phase, completed phases and the
+ *     partial results checkpointed so far
+ *   - status 'completed': the finished analysis
+ *   - status 'failed': the error message
+ * - Not Found (404): the job was collected, expired, or ran on another
+ *   server instance
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const { id: transcriptId } = await params;
+  const { id: jobId } = await params;
 
-  log.debug('Retrieval request', { transcriptId });
+  const job = getAnalysisJob(jobId);
+  if (!job) {
+    log.debug('Job not found', { jobId });
+    return errorResponse('Analysis job not found', 404, {
+      type: 'job_not_found',
+      jobId,
+      message:
+        'The job has finished and been collected, expired, or was started on another server instance.',
+    });
+  }
 
-  return errorResponse('Server-side analysis storage not implemented', 501, {
-    type: 'not_implemented',
-    transcriptId,
-    message:
-      'Analyses are currently stored client-side in IndexedDB. Use client-side database functions to retrieve analyses.',
-    clientSideAccess: {
-      library: '@/lib/db',
-      function: 'getAnalysisByTranscript',
-      usage: `import { getAnalysisByTranscript } from '@/lib/db';
-const analyses = await getAnalysisByTranscript('${transcriptId}');`,
-    },
-    futureImplementation: {
-      description: 'This endpoint is reserved for server-side analysis storage when implemented.',
-      roadmap: [
-        'Add server-side database (PostgreSQL, MongoDB, etc.)',
-        'Implement analysis persistence in server database',
-        'Update this endpoint to query server database',
-        'Add authentication and authorization',
-      ],
-    },
-    dataStructure: {
-      Analysis: {
-        id: 'string',
-        transcriptId: 'string',
-        templateId: 'string',
-        results: {
-          summary: 'string (optional)',
-          sections: [
-            {
-              name: 'string',
-              content: 'string',
-              evidence: [
-                {
-                  text: 'string',
-                  start: 'number (seconds)',
-                  end: 'number (seconds)',
-                  relevance: 'number (0-1)',
-                },
-              ],
-            },
-          ],
-          actionItems: [
-            {
-              task: 'string',
-              owner: 'string (optional)',
-              deadline: 'string (optional)',
-              timestamp: 'number (optional, seconds)',
-            },
-          ],
-          decisions: [
-            {
-              decision: 'string',
-              timestamp: 'number (seconds)',
-              context: 'string (optional)',
-            },
-          ],
-          quotes: [
-            {
-              text: 'string',
-              speaker: 'string (optional)',
-              timestamp: 'number (seconds)',
-            },
-          ],
-        },
-        createdAt: 'Date',
-      },
-    },
-  });
+  return successResponse(job, 200, { 'Cache-Control': 'no-store' });
 }
 
 /**
  * DELETE /api/analyze/[id]
  *
- * Deletes an analysis by ID.
+ * Discards an analysis job: cancels a running one (aborting its model
+ * calls) or releases a finished one once the client has saved it.
  *
- * Currently not implemented for client-side storage.
- * Use client-side database functions: deleteAnalysis(id) from @/lib/db
+ * Response:
+ * - Success (200): { success: true, data: { id, deleted } }
  */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const { id: analysisId } = await params;
+  const { id: jobId } = await params;
 
-  log.debug('Delete request', { analysisId });
+  const deleted = deleteAnalysisJob(jobId);
+  log.debug('Job discarded', { jobId, deleted });
 
-  return errorResponse('Server-side analysis deletion not implemented', 501, {
-    type: 'not_implemented',
-    analysisId,
-    message:
-      'Analyses are currently stored client-side in IndexedDB. Use client-side database functions to delete analyses.',
-    clientSideAccess: {
-      library: '@/lib/db',
-      function: 'deleteAnalysis',
-      usage: `import { deleteAnalysis } from '@/lib/db';
-await deleteAnalysis('${analysisId}');`,
-    },
-  });
+  return successResponse({ id: jobId, deleted });
 }
@@ -1,36 +1,36 @@
 /**
  * Analysis API Route Handler
  *
- * POST endpoint that accepts transcript and template IDs and returns AI-powered analysis.
- * Uses Azure OpenAI GPT-5 (or GPT-41 for extended context) to analyze transcripts
- * based on template sections.
+ * POST endpoint that accepts transcript and template IDs and starts an AI-powered analysis job.
+ * Uses the analysis model from the LLM provider registry (or its extended-context
+ * model for long transcripts) to analyze transcripts based on template sections.
  *
  * Features:
  * - Multi-strategy analysis system (basic, hybrid, advanced)
  * - Automatic strategy selection based on transcript length
  * - Optional self-evaluation pass for quality improvement
  * - Template-based analysis configuration
- * - GPT-5 powered content analysis with automatic extended-context fallback
+ * - Per-task model routing (cloud or local) with automatic extended-context fallback
  * - Structured output (agenda items, action items, decisions, quotes)
  * - Relationship mapping between agenda, decisions, and action items
  * - Comprehensive error handling
- * - Progress tracking
+ * - Background jobs with per-phase progress checkpoints (lib/analysis-jobs.ts),
+ *   so long analyses survive proxy timeouts and page reloads
+ * - Section-by-section results streamed over SSE (GET /api/analyze/[id]/events)
  *
  * @route POST /api/analyze
  */
 
 import { NextRequest } from "next/server";
 import { z } from "zod";
-import { getOpenAIClient, OpenAIConfigError } from "@/lib/openai";
+import { OpenAIConfigError } from "@/lib/openai";
+import { getLlmProvider, type LlmProvider } from "@/lib/llm-providers";
 import {
   executeAnalysis,
   formatTranscriptWithTimestamps,
 } from "@/lib/analysis-strategies";
-import {
-  estimateTokens,
-  selectDeploymentByTokens,
-  getDeploymentInfo,
-} from "@/lib/token-utils";
+import { estimateTokens, getDeploymentInfo } from "@/lib/token-utils";
+import { startAnalysisJob } from "@/lib/analysis-jobs";
 import { errorResponse, successResponse } from "@/lib/api-utils";
 import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
 import { createLogger } from "@/lib/logger";
@@ -117,10 +117,39 @@ const analyzeRequestSchema = z.object({
 
 type AnalyzeRequest = z.infer<typeof analyzeRequestSchema>;
 
+/**
+ * Extract an error message from the various error structures the OpenAI SDK
+ * and strategies throw (errors may have a nested error.error.message)
+ */
+function extractErrorMessage(err: unknown): string {
+  if (err instanceof Error) {
+    // Check for OpenAI API error structure (error.error.message)
+    const apiError = err as Error & { error?: { message?: string } };
+    if (apiError.error?.message) {
+      return apiError.error.message;
+    }
+    if (err.message) {
+      return err.message;
+    }
+  }
+  if (err && typeof err === "object") {
+    const obj = err as Record<string, unknown>;
+    // Handle plain objects with error or message properties
+    if (typeof obj.error === "string") return obj.error;
+    if (typeof obj.message === "string") return obj.message;
+    if (obj.error && typeof obj.error === "object") {
+      const nested = obj.error as Record<string, unknown>;
+      if (typeof nested.message === "string") return nested.message;
+    }
+  }
+  const str = String(err);
+  return str === "[object Object]" ? "Unknown analysis error" : str;
+}
+
 /**
  * POST /api/analyze
  *
- * Analyzes a transcript using a specified template and GPT-5/GPT-41
+ * Analyzes a transcript using a specified template and the configured analysis model
  * with the new multi-strategy analysis system.
  *
  * Request Body:
@@ -141,8 +170,9 @@ type AnalyzeRequest = z.infer<typeof analyzeRequestSchema>;
  * }
  *
  * Response:
- * - Success (200): { success: true, data: Analysis }
- *   Analysis includes:
+ * - Accepted (202): { success: true, data: AnalysisJob }
+ *   The analysis runs in the background. Poll GET /api/analyze/[jobId] for
+ *   progress; once the job is 'completed' it carries the Analysis, which includes:
  *   - analysisStrategy: The strategy used ('basic', 'hybrid', or 'advanced')
  *   - results: Final analysis results (post-evaluation if runEvaluation=true)
  *   - draftResults: Pre-evaluation results (if runEvaluation=true)
@@ -223,9 +253,31 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Resolve the model backend before sizing the request against its models
+    let provider: LlmProvider;
+    try {
+      provider = getLlmProvider();
+    } catch (error) {
+      if (error instanceof OpenAIConfigError) {
+        log.error("Configuration error", { message: error.message });
+        return errorResponse(
+          "Server configuration error. GPT API is not properly configured.",
+          500,
+          {
+            type: "configuration_error",
+            message: error.message,
+          },
+        );
+      }
+      throw error;
+    }
+
     // Estimate tokens and select appropriate deployment
     const estimatedTokens = estimateTokens(transcript.text);
-    const deploymentInfo = getDeploymentInfo(estimatedTokens);
+    const deploymentInfo = getDeploymentInfo(
+      estimatedTokens,
+      provider.routes.analysis,
+    );
 
     log.info("Processing analysis request", {
       transcriptId,
@@ -260,14 +312,15 @@ export async function POST(request: NextRequest) {
     let deployment: string;
     let openaiClient;
     try {
-      // Use user-specified model if provided, otherwise use token-based selection
-      if (modelOverride) {
+      // Use user-specified model if provided, otherwise use token-based selection.
+      // The override names cloud models, so a local server ignores it.
+      if (modelOverride && provider.provider !== "local") {
         deployment = modelOverride;
         log.debug("Using user-specified model override", { modelOverride });
       } else {
-        deployment = selectDeploymentByTokens(estimatedTokens);
+        deployment = deploymentInfo.deployment;
       }
-      openaiClient = getOpenAIClient();
+      openaiClient = provider.getClient("analysis");
     } catch (error) {
       if (error instanceof OpenAIConfigError) {
         log.error("Configuration error", { message: error.message });
@@ -295,106 +348,91 @@ export async function POST(request: NextRequest) {
       segmentCount: transcript.segments.length,
     });
 
-    // Execute the unified analysis
-    let result;
-    try {
-      result = await executeAnalysis(
-        effectiveTemplate as Template,
-        timestampedTranscript,
-        openaiClient,
-        deployment,
-        {
-          strategy: strategy || "auto",
-          runEvaluation: runEvaluation !== false, // Default to true
-          progressCallback: (current, total, message) => {
-            log.debug(`Progress: ${current}/${total} - ${message}`);
-          },
-          segments: transcript.segments as TranscriptSegment[],
-          // Supplemental material from uploaded docs (Word, PDF, PPT) or pasted text
-          // This is passed separately to prompts to preserve transcript timestamp citation logic
-          supplementalMaterial,
-          // Trainer annotations: timestamped notes from training officers
-          // These are observations of face-to-face interactions not captured in the audio
-          annotations,
-          // User-specified reasoning effort (low/medium/high)
-          reasoningEffort,
-        },
-      );
-    } catch (error) {
-      // Extract error message from various error structures
-      // OpenAI SDK errors may have nested error.error.message
-      const extractErrorMessage = (err: unknown): string => {
-        if (err instanceof Error) {
-          // Check for OpenAI API error structure (error.error.message)
-          const apiError = err as Error & { error?: { message?: string } };
-          if (apiError.error?.message) {
-            return apiError.error.message;
-          }
-          if (err.message) {
-            return err.message;
-          }
-        }
-        if (err && typeof err === "object") {
-          const obj = err as Record<string, unknown>;
-          // Handle plain objects with error or message properties
-          if (typeof obj.error === "string") return obj.error;
-          if (typeof obj.message === "string") return obj.message;
-          if (obj.error && typeof obj.error === "object") {
-            const nested = obj.error as Record<string, unknown>;
-            if (typeof nested.message === "string") return nested.message;
+    // Run the analysis as a background job and hand back its ID; the client
+    // follows progress through GET /api/analyze/[id]
+    const job = startAnalysisJob(
+      {
+        transcriptId,
+        templateId,
+        template: effectiveTemplate as Template,
+        runEvaluation: runEvaluation !== false,
+      },
+      async (reporter, signal) => {
+        let result;
+        try {
+          result = await executeAnalysis(
+            effectiveTemplate as Template,
+            timestampedTranscript,
+            openaiClient,
+            deployment,
+            {
+              strategy: strategy || "auto",
+              runEvaluation: runEvaluation !== false, // Default to true
+              progressCallback: (current, total, message, partialResults) => {
+                log.debug(`Progress: ${current}/${total} - ${message}`);
+                reporter.checkpoint(current, total, partialResults);
+              },
+              strategyCallback: (attemptStrategy) =>
+                reporter.startStrategy(attemptStrategy),
+              evaluationCallback: (draftResults) =>
+                reporter.startEvaluation(draftResults),
+              segments: transcript.segments as TranscriptSegment[],
+              // Supplemental material from uploaded docs (Word, PDF, PPT) or pasted text
+              // This is passed separately to prompts to preserve transcript timestamp citation logic
+              supplementalMaterial,
+              // Trainer annotations: timestamped notes from training officers
+              // These are observations of face-to-face interactions not captured in the audio
+              annotations,
+              // User-specified reasoning effort (low/medium/high)
+              reasoningEffort,
+              // Discarding the job cancels the model calls
+              signal,
+            },
+          );
+        } catch (error) {
+          if (signal.aborted) {
+            log.info("Analysis cancelled", { transcriptId });
+            throw error;
           }
+          const errorMsg = extractErrorMessage(error);
+          log.error("Analysis execution failed", { message: errorMsg });
+          throw new Error(errorMsg || "Analysis execution failed");
         }
-        const str = String(err);
-        return str === "[object Object]" ? "Unknown analysis error" : str;
-      };
 
-      const errorMsg = extractErrorMessage(error);
-      log.error("Analysis execution failed", { message: errorMsg });
+        // Create analysis record with new fields
+        const analysis: Analysis = {
+          id: crypto.randomUUID(),
+          transcriptId,
+          templateId,
+          analysisStrategy: result.strategy,
+          draftResults: result.draftResults,
+          evaluation: result.evaluation,
+          results: result.results,
+          metadata: result.metadata,
+          createdAt: new Date(),
+        };
 
-      // Build error details - only include stack trace in development
-      const errorDetails: Record<string, unknown> = {
-        type: "analysis_error",
-      };
-
-      if (process.env.NODE_ENV === "development" && error instanceof Error) {
-        errorDetails.details = error.stack;
-      }
-
-      return errorResponse(
-        errorMsg || "Analysis execution failed",
-        500,
-        errorDetails,
-      );
-    }
+        log.info("Analysis completed successfully", {
+          id: analysis.id,
+          strategy: result.strategy,
+          wasAutoSelected: result.metadata.wasAutoSelected,
+          sectionsAnalyzed: result.results.sections.length,
+          hasSummary: !!result.results.summary,
+          agendaItemCount: result.results.agendaItems?.length || 0,
+          actionItemCount: result.results.actionItems?.length || 0,
+          decisionCount: result.results.decisions?.length || 0,
+          quoteCount: result.results.quotes?.length || 0,
+          hadEvaluation: !!result.evaluation,
+          qualityScore: result.evaluation?.qualityScore,
+        });
 
-    // Create analysis record with new fields
-    const analysis: Analysis = {
-      id: crypto.randomUUID(),
-      transcriptId,
-      templateId,
-      analysisStrategy: result.strategy,
-      draftResults: result.draftResults,
-      evaluation: result.evaluation,
-      results: result.results,
-      metadata: result.metadata,
-      createdAt: new Date(),
-    };
+        return analysis;
+      },
+    );
 
-    log.info("Analysis completed successfully", {
-      id: analysis.id,
-      strategy: result.strategy,
-      wasAutoSelected: result.metadata.wasAutoSelected,
-      sectionsAnalyzed: result.results.sections.length,
-      hasSummary: !!result.results.summary,
-      agendaItemCount: result.results.agendaItems?.length || 0,
-      actionItemCount: result.results.actionItems?.length || 0,
-      decisionCount: result.results.decisions?.length || 0,
-      quoteCount: result.results.quotes?.length || 0,
-      hadEvaluation: !!result.evaluation,
-      qualityScore: result.evaluation?.qualityScore,
-    });
+    log.info("Analysis job started", { jobId: job.id, transcriptId });
 
-    return successResponse(analysis);
+    return successResponse(job, 202);
   } catch (error) {
     // Catch-all for unexpected errors
     log.error("Unexpected error", {
@@ -442,6 +480,8 @@ export async function GET() {
         'string (optional, default: "auto", values: "basic" | "hybrid" | "advanced" | "auto")',
       runEvaluation: "boolean (optional, default: true)",
     },
+    response:
+      "202 with an AnalysisJob; poll GET /api/analyze/[jobId] until status is 'completed' or 'failed', then DELETE it",
     strategies: {
       basic: {
         description: "Fast single-pass analysis (2-4 min)",
@@ -475,7 +515,7 @@ export async function GET() {
       "Decision extraction linked to agenda items",
       "Notable quote extraction",
       "Comprehensive error handling",
-      "Progress tracking",
+      "Background jobs with resumable progress (GET /api/analyze/[jobId])",
     ],
     usage: {
       description: "Send transcript and template for AI analysis",
@@ -0,0 +1,54 @@
+// @vitest-environment node
+import { NextRequest } from 'next/server';
+import type OpenAI from 'openai';
+import { POST } from '@/app/api/chat/route';
+import { resetLlmProvider } from '@/lib/llm-providers';
+
+const create = vi.fn();
+
+vi.mock('@/lib/llm-providers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/llm-providers')>();
+  return {
+    ...actual,
+    getLlmProvider: () => ({
+      ...actual.getLlmProvider(),
+      getClient: () => ({ chat: { completions: { create } } }) as unknown as OpenAI,
+    }),
+  };
+});
+
+function chatRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /api/chat', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetLlmProvider();
+    create.mockReset();
+  });
+
+  it('answers a short chat on the default local model profile', async () => {
+    vi.stubEnv('LOCAL_LLM_BASE_URL', 'http://localhost:11434/v1');
+    vi.stubEnv('LOCAL_LLM_MODEL', 'llama3.1:8b');
+    create.mockResolvedValue({ choices: [{ message: { content: 'Engine 5 took command.' } }] });
+
+    const response = await POST(
+      chatRequest({
+        transcriptId: 'transcript',
+        transcriptText: 'Engine 5 on scene, establishing Main Street Command.',
+        question: 'Who took command?',
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      success: true,
+      data: { answer: 'Engine 5 took command.', model: 'llama3.1:8b' },
+    });
+  });
+});
@@ -7,16 +7,27 @@
  * All conversation data is managed client-side in browser IndexedDB.
  *
  * Privacy Model:
- * - Receives transcript text + question in each request
+ * - Receives transcript segments (or text) + question in each request
  * - Calls OpenAI API with context
  * - Returns answer immediately
  * - NO server-side storage or logging of conversations
  * - All persistence handled by client
  *
  * Features:
- * - GPT-5/GPT-41 powered Q&A
+ * - Q&A on the chat model from the LLM provider registry (cloud or local)
  * - Automatic deployment selection based on transcript size
  * - Conversation history support for multi-turn context
+ * - Timestamp-grounded answers: segments are sent with ids and times, the
+ *   model cites them ("[S12]"), and citations are checked against the
+ *   segments sent (lib/chat-citations.ts)
+ * - Library chat: questions across many transcripts (`corpus`), answered
+ *   from segments the browser retrieved from its own index
+ *   (lib/corpus-search.ts); citations name the transcript too
+ * - Reference material: analyses, scorecards, trainer annotations and
+ *   supplemental documents attached to the question (lib/chat-context.ts)
+ * - Streaming: with `Accept: text/event-stream` the answer arrives as
+ *   `delta` events ({ text }) followed by a `done` event with the checked
+ *   answer and citations; closing the connection stops generation
  * - Token limit validation
  * - Comprehensive error handling
  *
@@ -25,18 +36,21 @@
 
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
+import { OpenAIConfigError } from '@/lib/openai';
 import {
-  getOpenAIClient,
-  OpenAIConfigError,
-} from '@/lib/openai';
+  completionTokenLimit,
+  getLlmProvider,
+  withAbortSignal,
+  type LlmProvider,
+} from '@/lib/llm-providers';
+import { createSseResponse } from '@/lib/sse';
 import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
-import {
-  estimateTokens,
-  selectDeploymentByTokens,
-  getDeploymentInfo,
-} from '@/lib/token-utils';
+import { estimateTokens, getDeploymentInfo } from '@/lib/token-utils';
 import { createLogger } from '@/lib/logger';
 import { errorResponse, successResponse } from '@/lib/api-utils';
+import { formatSegmentsForChat, validateChatCitations } from '@/lib/chat-citations';
+import { formatContextSourcesForChat } from '@/lib/chat-context';
+import type { ChatCitation, ChatCorpus } from '@/types/chat';
 
 const log = createLogger('Chat');
 /**
@@ -51,10 +65,16 @@ interface ApiChatMessage {
 }
 
 /**
- * Maximum tokens to reserve for system prompt, question, and response overhead.
- * This ensures we don't exceed the model's context window.
+ * Share of the model's context window reserved for prompt formatting and the
+ * response, up to MAX_OVERHEAD_TOKEN_RESERVE. A fraction rather than a fixed
+ * reserve keeps small local models usable.
  */
-const OVERHEAD_TOKEN_RESERVE = 10000;
+const OVERHEAD_TOKEN_RESERVE_FRACTION = 0.25;
+
+/**
+ * Most tokens reserved for prompt formatting and response overhead.
+ */
+const MAX_OVERHEAD_TOKEN_RESERVE = 10000;
 
 /**
  * Maximum tokens allowed in conversation history.
@@ -66,10 +86,39 @@ const MAX_HISTORY_TOKENS = 20000;
  * Request body validation schema
  */
 const chatRequestSchema = z.object({
-  transcriptId: z.string().min(1, 'Transcript ID is required'),
+  transcriptId: z.string().min(1, 'Transcript ID is required').optional(),
+  corpus: z.object({
+    label: z.string().min(1).max(200),
+    transcripts: z.array(z.string().max(300)).max(5000, 'Too many transcripts (max 5,000)'),
+  }).optional(),
   transcriptText: z.string()
     .min(1, 'Transcript text is required')
-    .max(4000000, 'Transcript text is too large (max 4M characters)'),
+    .max(4000000, 'Transcript text is too large (max 4M characters)')
+    .optional(),
+  segments: z.array(
+    z.object({
+      id: z.number().int().nonnegative(),
+      start: z.number().nonnegative(),
+      end: z.number().nonnegative(),
+      speaker: z.string().optional(),
+      text: z.string().max(20000),
+      transcriptId: z.string().optional(),
+      segmentIndex: z.number().int().nonnegative().optional(),
+      source: z.string().max(300).optional(),
+    })
+  )
+    .max(50000, 'Transcript has too many segments (max 50,000)')
+    .optional(),
+  context: z.array(
+    z.object({
+      id: z.string().max(200),
+      kind: z.enum(['analysis', 'scorecard', 'annotations', 'document']),
+      title: z.string().max(300),
+      text: z.string().max(1000000),
+    })
+  )
+    .max(20, 'Too many context sources (max 20)')
+    .optional(),
   question: z.string()
     .min(1, 'Question is required')
     .max(2000, 'Question is too long (max 2000 characters)'),
@@ -81,7 +130,17 @@ const chatRequestSchema = z.object({
       timestamp: z.string().datetime(), // ISO 8601 datetime string from JSON.stringify
     })
   ).optional(),
-});
+}).refine((body) => body.transcriptId || body.corpus, {
+  message: 'Transcript ID is required',
+  path: ['transcriptId'],
+}).refine(
+  // Library chat may retrieve nothing; the model then answers from the transcript list
+  (body) => (body.corpus ? body.segments : body.segments?.length || body.transcriptText),
+  {
+    message: 'Transcript segments or text are required',
+    path: ['segments'],
+  }
+);
 
 type ChatRequest = z.infer<typeof chatRequestSchema>;
 
@@ -98,8 +157,56 @@ function chatErrorResponse(
 /**
  * Success response helper with custom structure for chat endpoint
  */
-function chatSuccessResponse(answer: string, model: string) {
-  return successResponse({ answer, model }, 200);
+function chatSuccessResponse(answer: string, model: string, citations?: ChatCitation[]) {
+  return successResponse({ answer, model, citations }, 200);
+}
+
+/**
+ * Build the system prompt for segments with ids ("S12 [03:41] ..."), which
+ * the answer must cite
+ */
+function buildCitingSystemPrompt(segmentLines: string): string {
+  return `You are answering questions about a recorded transcript, usually fireground radio traffic. Answer based ONLY on the transcript content provided. If the answer is not in the transcript, say "I don't have that information in this transcript."
+
+Each transcript line starts with a segment id and the time it was said, e.g. "S12 [03:41] Engine 5: ...".
+
+Transcript:
+${segmentLines}
+
+Instructions:
+- Cite the segments that support each statement by putting their ids in square brackets right after it, e.g. "Command was established [S12]." or "[S12, S15]"
+- Only cite segment ids that appear in the transcript above; never invent ids
+- Mention times (e.g. 03:41) when the user asks when something happened
+- Answer concisely and accurately
+- Maintain conversation context from previous questions
+- If asked about something not in the transcript, be honest about it
+- Format your responses in a clear, readable manner`;
+}
+
+/**
+ * Build the system prompt for library chat: segments retrieved from many
+ * transcripts, headed by the transcript they come from
+ */
+function buildCorpusSystemPrompt(corpus: ChatCorpus, segmentLines: string): string {
+  return `You are answering questions across a library of recorded transcripts, usually fireground radio traffic, for training officers reviewing many incidents. Answer based ONLY on the excerpts provided.
+
+Searched: ${corpus.label}
+Transcripts searched (${corpus.transcripts.length}):
+${corpus.transcripts.map((label) => `- ${label}`).join('\n')}
+
+Only the excerpts most relevant to the question were retrieved from these transcripts. Excerpts are grouped under a "Transcript:" heading, and each line starts with a segment id and the time it was said in that recording, e.g. "S12 [03:41] Engine 5: ...".
+
+Excerpts:
+${segmentLines || '(No excerpts matched the question.)'}
+
+Instructions:
+- Cite the segments that support each statement by putting their ids in square brackets right after it, e.g. "Command was established [S12]." or "[S12, S15]"
+- Only cite segment ids that appear in the excerpts above; never invent ids
+- Name the transcript (incident or channel) each finding comes from
+- A transcript with no excerpts had nothing matching the search. When a question asks which transcripts lack something, say this is based on keyword retrieval and may miss differently worded traffic
+- Answer concisely and accurately
+- Maintain conversation context from previous questions
+- Format your responses in a clear, readable manner`;
 }
 
 /**
@@ -119,13 +226,21 @@ Instructions:
 - Format your responses in a clear, readable manner`;
 }
 
+/**
+ * Tokens reserved for prompt formatting and the response in a context window
+ */
+function overheadTokenReserve(contextWindow: number): number {
+  return Math.min(MAX_OVERHEAD_TOKEN_RESERVE, Math.floor(contextWindow * OVERHEAD_TOKEN_RESERVE_FRACTION));
+}
+
 /**
  * Estimate total tokens for the request
  */
 function estimateTotalTokens(
   transcriptText: string,
   question: string,
-  conversationHistory: ApiChatMessage[] = []
+  conversationHistory: ApiChatMessage[],
+  contextWindow: number
 ): {
   transcriptTokens: number;
   questionTokens: number;
@@ -144,7 +259,8 @@ function estimateTotalTokens(
   // System prompt overhead (base + transcript)
   const systemPromptTokens = 200 + transcriptTokens;
 
-  const totalTokens = systemPromptTokens + historyTokens + questionTokens + OVERHEAD_TOKEN_RESERVE;
+  const totalTokens =
+    systemPromptTokens + historyTokens + questionTokens + overheadTokenReserve(contextWindow);
 
   return {
     transcriptTokens,
@@ -196,19 +312,25 @@ function truncateHistory(
 /**
  * POST /api/chat
  *
- * Answers questions about a transcript using GPT-5/GPT-41.
+ * Answers questions about a transcript using the configured chat model.
  * This endpoint is STATELESS - all context is provided in each request.
  *
  * Request Body:
  * {
- *   transcriptId: string (UUID),
- *   transcriptText: string,
+ *   transcriptId?: string (UUID), // required without corpus
+ *   corpus?: { label, transcripts: string[] }, // library chat
+ *   segments?: ChatSegment[],   // { id, start, end, speaker?, text, transcriptId?, segmentIndex?, source? }
+ *   context?: ChatContextSource[], // { id, kind, title, text } reference material
+ *   transcriptText?: string,    // when segments are not sent
  *   question: string,
  *   conversationHistory?: ChatMessage[]
  * }
  *
  * Response:
- * - Success (200): { success: true, data: { answer: string } }
+ * - Success (200): { success: true, data: { answer, model, citations? } }
+ *   With segments, `citations` lists the cited segments and the answer
+ *   keeps only markers ("[S12]") that cite one of them. In library chat
+ *   the citations carry each segment's transcript.
  * - Error (4xx/5xx): { success: false, error: string, details?: object }
  */
 export async function POST(request: NextRequest) {
@@ -248,16 +370,50 @@ export async function POST(request: NextRequest) {
       return chatErrorResponse('validation', 'Failed to parse request body', 400);
     }
 
-    const { transcriptId, transcriptText, question, conversationHistory = [] } = body;
+    const { transcriptId, corpus, segments, context = [], question, conversationHistory = [] } = body;
+    const citing = !!corpus || !!segments?.length;
+    const transcriptText = citing ? formatSegmentsForChat(segments ?? []) : body.transcriptText ?? '';
+    const contextSection = formatContextSourcesForChat(context);
+    // Library chat also sends the label of every transcript searched
+    const contextText = [corpus?.transcripts.join('\n'), transcriptText, contextSection]
+      .filter(Boolean)
+      .join('\n');
+
+    // Resolve the model backend; its chat route decides the token limit
+    let provider: LlmProvider;
+    try {
+      provider = getLlmProvider();
+    } catch (error) {
+      if (error instanceof OpenAIConfigError) {
+        log.error('Configuration error', { message: error.message });
+        return chatErrorResponse(
+          'api_failure',
+          'Server configuration error. Chat API is not properly configured.',
+          500,
+          {
+            message: error.message,
+          }
+        );
+      }
+      throw error;
+    }
 
-    // Estimate tokens
-    const tokenEstimate = estimateTotalTokens(transcriptText, question, conversationHistory);
-    const deploymentInfo = getDeploymentInfo(tokenEstimate.transcriptTokens);
+    // Estimate tokens against the context window of the model the chat route picks
+    const deploymentInfo = getDeploymentInfo(estimateTokens(contextText), provider.routes.chat);
+    const tokenEstimate = estimateTotalTokens(
+      contextText,
+      question,
+      conversationHistory,
+      deploymentInfo.tokenLimit
+    );
 
     log.debug('Processing chat request', {
       transcriptId,
+      corpusTranscriptCount: corpus?.transcripts.length,
+      contextSources: context.map((source) => source.kind),
       questionLength: question.length,
       transcriptLength: transcriptText.length,
+      segmentCount: segments?.length,
       historyMessageCount: conversationHistory.length,
       tokenEstimate: {
         transcript: tokenEstimate.transcriptTokens,
@@ -280,7 +436,9 @@ export async function POST(request: NextRequest) {
 
       return chatErrorResponse(
         'token_limit',
-        'Transcript and conversation history are too large for Q&A. Consider clearing the conversation history or using a shorter transcript.',
+        context.length > 0
+          ? 'Transcript, attached context and conversation history are too large for Q&A. Consider detaching some context or clearing the conversation history.'
+          : 'Transcript and conversation history are too large for Q&A. Consider clearing the conversation history or using a shorter transcript.',
         400,
         {
           totalTokens: tokenEstimate.totalTokens,
@@ -298,11 +456,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Get OpenAI client and deployment
-    let deployment: string;
+    const deployment = deploymentInfo.deployment;
     let openaiClient;
     try {
-      deployment = selectDeploymentByTokens(tokenEstimate.transcriptTokens);
-      openaiClient = getOpenAIClient();
+      openaiClient = provider.getClient('chat');
     } catch (error) {
       if (error instanceof OpenAIConfigError) {
         log.error('Configuration error', { message: error.message });
@@ -319,7 +476,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Build messages array for OpenAI
-    const systemPrompt = buildSystemPrompt(transcriptText);
+    const basePrompt = corpus
+      ? buildCorpusSystemPrompt(corpus, transcriptText)
+      : citing
+        ? buildCitingSystemPrompt(transcriptText)
+        : buildSystemPrompt(transcriptText);
+    const systemPrompt = contextSection ? `${basePrompt}\n\n${contextSection}` : basePrompt;
     const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
       {
         role: 'system',
@@ -347,16 +509,20 @@ export async function POST(request: NextRequest) {
       model: deployment,
     });
 
-    // Call OpenAI API
-    let completion;
-    try {
-      completion = await openaiClient.chat.completions.create({
-        model: deployment,
-        messages,
-        max_completion_tokens: 32000, // GPT-5 is a reasoning model - needs tokens for reasoning + response
-        // Note: GPT-5 does not support custom temperature values (only default 1.0)
-      });
-    } catch (error) {
+    const completionParams = {
+      model: deployment,
+      messages,
+      ...completionTokenLimit(provider.provider, 32000), // GPT-5 is a reasoning model - needs tokens for reasoning + response
+      // Note: GPT-5 does not support custom temperature values (only default 1.0)
+    };
+
+    // Keep only citations of segments that were sent
+    const finishAnswer = (rawAnswer: string) =>
+      citing
+        ? validateChatCitations(rawAnswer, segments ?? [])
+        : { answer: rawAnswer, citations: undefined };
+
+    const completionErrorResponse = (error: unknown) => {
       log.error('OpenAI API call failed', {
         message: error instanceof Error ? error.message : String(error),
       });
@@ -402,12 +568,65 @@ export async function POST(request: NextRequest) {
           error: error instanceof Error ? error.message : String(error),
         }
       );
+    };
+
+    // Stream the answer when the client accepts Server-Sent Events. The
+    // completion is started first so that errors such as an oversized
+    // conversation still come back as JSON error responses.
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+      const abortController = new AbortController();
+      let stream;
+      try {
+        stream = await withAbortSignal(openaiClient, abortController.signal).chat.completions.create({
+          ...completionParams,
+          stream: true,
+        });
+      } catch (error) {
+        return completionErrorResponse(error);
+      }
+
+      return createSseResponse(async (send, signal) => {
+        // Stop generating when the client stops reading
+        signal.addEventListener('abort', () => abortController.abort(), { once: true });
+
+        let rawAnswer = '';
+        for await (const chunk of stream) {
+          const text = chunk.choices[0]?.delta?.content;
+          if (text) {
+            rawAnswer += text;
+            send('delta', { text });
+          }
+        }
+
+        if (!rawAnswer) {
+          throw new Error('Received empty response from AI. Please try again.');
+        }
+
+        const { answer, citations } = finishAnswer(rawAnswer);
+
+        log.debug('Chat streamed successfully', {
+          transcriptId,
+          answerLength: answer.length,
+          citationCount: citations?.length,
+          model: deployment,
+        });
+
+        send('done', { answer, model: deployment, citations });
+      });
+    }
+
+    // Call OpenAI API
+    let completion;
+    try {
+      completion = await openaiClient.chat.completions.create(completionParams);
+    } catch (error) {
+      return completionErrorResponse(error);
     }
 
     // Extract answer from completion
-    const answer = completion.choices[0]?.message?.content;
+    const rawAnswer = completion.choices[0]?.message?.content;
 
-    if (!answer) {
+    if (!rawAnswer) {
       log.error('No answer in OpenAI response');
       return chatErrorResponse(
         'api_failure',
@@ -416,14 +635,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { answer, citations } = finishAnswer(rawAnswer);
+
     log.debug('Chat completed successfully', {
       transcriptId,
       answerLength: answer.length,
+      citationCount: citations?.length,
       tokensUsed: completion.usage?.total_tokens,
       model: deployment,
     });
 
-    return chatSuccessResponse(answer, deployment);
+    return chatSuccessResponse(answer, deployment, citations);
   } catch (error) {
     // Catch-all for unexpected errors
     log.error('Unexpected error', {
@@ -465,19 +687,25 @@ export async function GET() {
       dataRetention: 'No conversation data stored on server',
     },
     requestBody: {
-      transcriptId: 'string (UUID, required)',
-      transcriptText: 'string (required, max 4M chars)',
+      transcriptId: 'string (UUID, required without corpus)',
+      corpus: '{ label: string, transcripts: string[] } (optional; library chat across the listed transcripts)',
+      segments: 'ChatSegment[] ({ id, start, end, speaker?, text, transcriptId?, segmentIndex?, source? }; answers cite them as [S<id>])',
+      transcriptText: 'string (required without segments, max 4M chars)',
+      context: 'ChatContextSource[] (optional; { id, kind: analysis|scorecard|annotations|document, title, text } added to the prompt as reference material)',
       question: 'string (required, max 2000 chars)',
       conversationHistory: 'ChatMessage[] (optional, for context)',
     },
     responseFormat: {
-      success: '{ success: true, data: { answer: string } }',
+      success: '{ success: true, data: { answer: string, model: string, citations?: ChatCitation[] } }',
       error: '{ success: false, error: string, details?: object }',
     },
     features: [
-      'GPT-5/GPT-41 powered Q&A',
+      'Q&A on the configured chat model (cloud or local)',
       'Automatic deployment selection based on transcript size',
       'Multi-turn conversation support',
+      'Answers cite transcript segments, validated server-side',
+      'Library chat across many transcripts from segments retrieved in the browser',
+      'Analyses, scorecards, annotations and documents attachable as reference material',
       'Token limit validation and truncation',
       'Completely stateless (no server-side storage)',
       'Privacy-first design (all data stored client-side)',
@@ -4,7 +4,7 @@
  * POST endpoint that selects higher-quality supporting evidence for analysis sections.
  *
  * Strategy:
- * - Use a small model (e.g. Azure gpt-4.1-mini) to propose grounded segment ranges (chunked)
+ * - Use the citations model (e.g. Azure gpt-4.1-mini, or a local model) to propose grounded segment ranges (chunked)
  * - Build excerpts from those ranges and select the best citations per section
  *
  * This endpoint is intentionally separate from `/api/analyze` to avoid increasing
@@ -17,11 +17,8 @@ import { NextRequest } from 'next/server';
 import { z } from 'zod';
 import { errorResponse, successResponse } from '@/lib/api-utils';
 import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
-import {
-  getCitationsClient,
-  getCitationsDeployment,
-  OpenAIConfigError,
-} from '@/lib/openai';
+import { OpenAIConfigError } from '@/lib/openai';
+import { getLlmProvider } from '@/lib/llm-providers';
 import { generateEvidenceCitationsWithLLM } from '@/lib/citations';
 import type { Evidence, TemplateSection, TranscriptSegment } from '@/types';
 
@@ -110,9 +107,10 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    const provider = getLlmProvider();
     const openaiClient = (() => {
       try {
-        return getCitationsClient();
+        return provider.getClient('citations');
       } catch (error) {
         if (error instanceof OpenAIConfigError) {
           throw error;
@@ -121,7 +119,7 @@ export async function POST(request: NextRequest) {
       }
     })();
 
-    const deployment = getCitationsDeployment();
+    const deployment = provider.routes.citations.model.model;
 
     const templateSections: TemplateSection[] = body.templateSections.map((s, idx) => ({
       id: s.id ?? `section-${idx + 1}`,
@@ -184,6 +182,9 @@ export async function GET() {
         deploymentEnv: 'AZURE_OPENAI_CITATIONS_DEPLOYMENT (defaults to "gpt-4.1-mini")',
         apiVersionEnv: 'AZURE_OPENAI_CITATIONS_API_VERSION (defaults to "2024-12-01-preview")',
       },
+      any: {
+        modelEnv: 'LLM_CITATIONS_MODEL (routes citations to another model on any provider)',
+      },
     },
   });
 }
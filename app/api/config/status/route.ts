@@ -8,6 +8,8 @@
  * - Configuration status (configured/not configured)
  * - Provider type (Azure/OpenAI)
  * - Deployment names (non-sensitive)
+ * - Transcription provider and its capabilities
+ * - LLM provider and the model each task is routed to
  * - NEVER returns API keys or full endpoints
  */
 
@@ -18,19 +20,57 @@ import {
   getGPT4Deployment,
 } from '@/lib/openai';
 import { errorResponse, successResponse } from '@/lib/api-utils';
+import {
+  getTranscriptionProvider,
+  toTranscriptionProviderStatus,
+} from '@/lib/transcription-providers';
+import { getLlmProvider, toLlmProviderStatus } from '@/lib/llm-providers';
+import type { LlmProviderStatus } from '@/types/llm';
+import type { TranscriptionProviderStatus } from '@/types/transcript';
 
 /**
  * Configuration status response type
  */
 export interface ConfigStatusResponse {
   configured: boolean;
-  provider: 'azure' | 'openai' | 'none';
+  /** Cloud provider, or 'local' when only local model servers are configured */
+  provider: 'azure' | 'openai' | 'local' | 'none';
   whisperDeployment?: string;
   analysisDeployment?: string;
   endpointHost?: string; // Masked endpoint (hostname only, no full URL)
+  /** Transcription backend; omitted when it is not configured */
+  transcription?: TranscriptionProviderStatus;
+  /** LLM backend and task routing; omitted when it is not configured */
+  llm?: LlmProviderStatus;
   error?: string;
 }
 
+/**
+ * Transcription backend status. A local server can be configured without
+ * the cloud API, so this is reported separately.
+ */
+function getTranscriptionStatus(): TranscriptionProviderStatus | undefined {
+  try {
+    return toTranscriptionProviderStatus(getTranscriptionProvider());
+  } catch (error) {
+    console.warn('Transcription provider not configured:', error);
+    return undefined;
+  }
+}
+
+/**
+ * LLM backend status. Like transcription, it can run on a local server
+ * without the cloud API.
+ */
+function getLlmStatus(): LlmProviderStatus | undefined {
+  try {
+    return toLlmProviderStatus(getLlmProvider());
+  } catch (error) {
+    console.warn('LLM provider not configured:', error);
+    return undefined;
+  }
+}
+
 /**
  * GET /api/config/status
  *
@@ -40,6 +80,8 @@ export interface ConfigStatusResponse {
  * @returns {ConfigStatusResponse} Configuration status information
  */
 export async function GET() {
+  const llm = getLlmStatus();
+
   try {
     // Attempt to get configuration from environment variables
     const config = getConfiguration();
@@ -48,6 +90,8 @@ export async function GET() {
     const response: ConfigStatusResponse = {
       configured: true,
       provider: config.provider,
+      transcription: getTranscriptionStatus(),
+      llm,
     };
 
     // Add provider-specific information
@@ -61,7 +105,7 @@ export async function GET() {
       }
 
       try {
-        response.analysisDeployment = getGPT4Deployment();
+        response.analysisDeployment = llm?.routes.analysis.model.model ?? getGPT4Deployment();
       } catch (error) {
         // Deployment not configured, but don't fail the request
         console.warn('Analysis deployment not configured:', error);
@@ -79,7 +123,7 @@ export async function GET() {
     } else {
       // For standard OpenAI, we use fixed model names
       response.whisperDeployment = 'whisper-1';
-      response.analysisDeployment = 'gpt-5';
+      response.analysisDeployment = llm?.routes.analysis.model.model ?? 'gpt-5';
     }
 
     return successResponse(response, 200, {
@@ -88,11 +132,33 @@ export async function GET() {
   } catch (error) {
     // Configuration is not valid or missing
     if (error instanceof OpenAIConfigError) {
+      // An air-gapped station needs no cloud configuration when both
+      // transcription and the LLM run on local servers
+      const transcription = getTranscriptionStatus();
+      if (llm?.provider === 'local' && transcription?.provider === 'local') {
+        return successResponse(
+          {
+            configured: true,
+            provider: 'local' as const,
+            whisperDeployment: transcription.defaultModel,
+            analysisDeployment: llm.routes.analysis.model.model,
+            transcription,
+            llm,
+          },
+          200,
+          {
+            'Cache-Control': 'private, max-age=60',
+          }
+        );
+      }
+
       // Return a safe error message without exposing details
       return successResponse(
         {
           configured: false,
           provider: 'none' as const,
+          transcription,
+          llm,
           error: 'AI API not configured. Please set up environment variables.',
         },
         200, // Not a server error, just not configured
@@ -0,0 +1,194 @@
+/**
+ * Redaction Detection API Route Handler
+ *
+ * POST endpoint that finds personal details (patient and caller names,
+ * addresses, dates of birth, callback numbers) in transcript segments with the
+ * citations model. It complements the pattern pass in lib/redaction.ts, which
+ * only catches details with a recognizable shape or introduction.
+ *
+ * Findings are suggestions: the client marks them as pending spans for a
+ * reviewer to approve or reject. Nothing is stored on the server.
+ *
+ * @route POST /api/redactions
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { errorResponse, successResponse } from '@/lib/api-utils';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { OpenAIConfigError } from '@/lib/openai';
+import {
+  completionTokenLimit,
+  extractJsonText,
+  getLlmProvider,
+  jsonResponseFormat,
+  type LlmProvider,
+} from '@/lib/llm-providers';
+import { REDACTION_CATEGORIES, type RedactionCategory } from '@/types/redaction';
+
+/**
+ * Request validation schema with size limits to prevent DoS attacks.
+ */
+const redactionsRequestSchema = z.object({
+  segments: z.array(
+    z.object({
+      index: z.number().int().nonnegative(),
+      text: z.string().max(5000, 'Segment text exceeds 5000 character limit'),
+    })
+  ).min(1).max(10000, 'Too many segments (max 10,000)'),
+});
+
+type RedactionsRequest = z.infer<typeof redactionsRequestSchema>;
+
+const findingSchema = z.object({
+  segment: z.number().int(),
+  text: z.string().min(2).max(200),
+  category: z.enum(REDACTION_CATEGORIES),
+});
+
+interface RedactionFinding {
+  segmentIndex: number;
+  text: string;
+  category: RedactionCategory;
+}
+
+/** Characters of transcript sent per model call */
+const CHUNK_CHARS = 12000;
+
+const SYSTEM_PROMPT =
+  'You find personal details of members of the public in emergency radio traffic so they can be redacted. ' +
+  'Flag names of patients, callers, victims and other civilians; residential addresses; dates of birth; ' +
+  'phone numbers; ID numbers such as SSNs, driver license or medical record numbers; and email addresses. ' +
+  'Do not flag unit call signs (Engine 14, Medic 7), radio channels, responder ranks or roles, ' +
+  'incident times, ages, or street names used only to describe a response location. ' +
+  'Quote text exactly as it appears in the segment. You always return valid JSON.';
+
+function chunkSegments(segments: RedactionsRequest['segments']) {
+  const chunks: RedactionsRequest['segments'][] = [];
+  let current: RedactionsRequest['segments'] = [];
+  let size = 0;
+  for (const segment of segments) {
+    if (current.length > 0 && size + segment.text.length > CHUNK_CHARS) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(segment);
+    size += segment.text.length;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+async function detectInChunk(
+  provider: LlmProvider,
+  segments: RedactionsRequest['segments']
+): Promise<RedactionFinding[]> {
+  const deployment = provider.routes.citations.model.model;
+  const lines = segments.map((s) => `[${s.index}] ${s.text}`).join('\n');
+  const response = await provider.getClient('citations').chat.completions.create({
+    model: deployment,
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content:
+          `Categories: ${REDACTION_CATEGORIES.join(', ')}.\n` +
+          'Return {"findings": [{"segment": <segment number>, "text": "<exact quote>", "category": "<category>"}]}, ' +
+          'or {"findings": []} when there are none.\n\n' +
+          `Segments:\n${lines}`,
+      },
+    ],
+    temperature: 0,
+    ...completionTokenLimit(provider.provider, 2000),
+    ...jsonResponseFormat(deployment),
+  });
+
+  const content = response.choices[0]?.message.content;
+  if (!content) return [];
+
+  let findings: unknown;
+  try {
+    findings = (JSON.parse(extractJsonText(content)) as { findings?: unknown }).findings;
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(findings)) return [];
+
+  const textByIndex = new Map(segments.map((s) => [s.index, s.text.toLowerCase()]));
+  return findings.flatMap((item) => {
+    const parsed = findingSchema.safeParse(item);
+    if (!parsed.success) return [];
+    const { segment, text, category } = parsed.data;
+    // Keep only quotes that are really in the segment
+    if (!textByIndex.get(segment)?.includes(text.toLowerCase())) return [];
+    return [{ segmentIndex: segment, text, category }];
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === 'production') {
+      const decision = checkRateLimit(request, {
+        key: 'redactions',
+        windowMs: 10 * 60 * 1000,
+        max: 30,
+      });
+      if (!decision.allowed) {
+        return rateLimitResponse(decision);
+      }
+    }
+
+    let body: RedactionsRequest;
+    try {
+      body = redactionsRequestSchema.parse(await request.json());
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return errorResponse('Invalid request body', 400, {
+          type: 'validation_error',
+          errors: error.issues,
+        });
+      }
+      return errorResponse('Failed to parse request body', 400);
+    }
+
+    const provider = getLlmProvider();
+
+    const findings: RedactionFinding[] = [];
+    for (const chunk of chunkSegments(body.segments)) {
+      findings.push(...(await detectInChunk(provider, chunk)));
+    }
+
+    return successResponse({ findings });
+  } catch (error) {
+    if (error instanceof OpenAIConfigError) {
+      return errorResponse(
+        'Server configuration error. Redaction model is not properly configured.',
+        500,
+        { type: 'configuration_error', message: error.message }
+      );
+    }
+
+    return errorResponse(
+      error instanceof Error ? error.message : 'Failed to detect personal details',
+      500,
+      { type: 'redaction_error' }
+    );
+  }
+}
+
+export async function GET() {
+  return successResponse({
+    endpoint: '/api/redactions',
+    method: 'POST',
+    description: 'Finds personal details in transcript segments for redaction review using a small LLM.',
+    requiredConfig: {
+      azure: {
+        deploymentEnv: 'AZURE_OPENAI_CITATIONS_DEPLOYMENT (defaults to "gpt-4.1-mini")',
+      },
+      any: {
+        modelEnv: 'LLM_CITATIONS_MODEL (routes citations to another model on any provider)',
+      },
+    },
+  });
+}
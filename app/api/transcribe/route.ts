@@ -2,13 +2,16 @@
  * Transcription API Route Handler
  *
  * POST endpoint that accepts audio files and returns transcripts.
- * Uses Azure OpenAI Whisper API for speech-to-text transcription.
+ * Uses the configured transcription provider for speech-to-text: Azure
+ * OpenAI, OpenAI, or a local OpenAI-compatible Whisper server (see
+ * lib/transcription-providers.ts).
  *
  * Features:
  * - FormData file upload handling
  * - File validation (type, size, format)
- * - Azure OpenAI Whisper integration
- * - Structured response with segments and metadata
+ * - Cloud or local transcription backends with capability flags
+ * - Optional vocabulary prompt from the department glossary
+ * - Structured response with segments (and word timings, when returned) and metadata
  * - Comprehensive error handling
  * - Rate limiting consideration
  *
@@ -22,14 +25,13 @@ import type {
   TranscriptionDiarized,
   TranscriptionVerbose,
 } from 'openai/resources/audio/transcriptions';
+import { OpenAIConfigError, getAzureCredentials } from '@/lib/openai';
+import { generateTranscriptSummary } from '@/lib/llm-providers';
 import {
-  getTranscriptionClient,
-  getWhisperDeployment,
-  OpenAIConfigError,
-  generateTranscriptSummary,
-  getAzureCredentials,
-  isAzureOpenAI,
-} from '@/lib/openai';
+  getTranscriptionProvider,
+  resolveTranscriptionModel,
+  type TranscriptionProvider,
+} from '@/lib/transcription-providers';
 import {
   getSupportedAudioTypes,
   getSupportedAudioExtensions,
@@ -50,6 +52,7 @@ import {
 import { errorResponse, successResponse } from '@/lib/api-utils';
 import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
 import { createLogger } from '@/lib/logger';
+import { TRANSCRIPTION_PROMPT_MAX_LENGTH } from '@/lib/glossary';
 import type { Transcript } from '@/types';
 
 const log = createLogger('Transcribe');
@@ -340,6 +343,7 @@ function normalizeTranscriptionResponse(
         compression_ratio: segment.compression_ratio,
         no_speech_prob: segment.no_speech_prob,
       })),
+      words: response.words?.map(({ word, start, end }) => ({ word, start, end })),
     };
   }
 
@@ -442,14 +446,16 @@ async function validateFile(formData: FormData): Promise<{
 }
 
 /**
- * Call OpenAI Whisper API with retry logic
+ * Call the transcription provider with retry logic
  */
 async function transcribeWithRetry(
   file: Blob,
   filename: string,
   options: {
+    provider: TranscriptionProvider;
     model: string;
     language?: string | null;
+    prompt?: string;
     responseFormat: AudioResponseFormat;
   },
   retries = MAX_RETRIES
@@ -465,7 +471,7 @@ async function transcribeWithRetry(
 
   // Check if this is a diarize model that needs direct REST API call
   const isDiarizeModel = options.model.toLowerCase().includes('diarize');
-  const shouldUseDiarizeDirectAPI = isDiarizeModel && isAzureOpenAI();
+  const shouldUseDiarizeDirectAPI = isDiarizeModel && options.provider.provider === 'azure';
 
   for (let attempt = 0; attempt < retries; attempt++) {
     try {
@@ -474,6 +480,9 @@ async function transcribeWithRetry(
 
       // Use direct REST API for diarize models (SDK doesn't support diarized_json)
       if (shouldUseDiarizeDirectAPI) {
+        if (options.prompt) {
+          log.debug('Diarize models do not accept a prompt; glossary prompt skipped', { fileHash });
+        }
         const response = await transcribeDiarizeDirectAPI(
           file,
           filename,
@@ -484,7 +493,7 @@ async function transcribeWithRetry(
       }
 
       // For non-diarize models, use the SDK
-      const client = getTranscriptionClient();
+      const client = options.provider.getClient();
 
       // Create a File object for OpenAI API
       // The OpenAI SDK requires a File object with a name property
@@ -503,11 +512,20 @@ async function transcribeWithRetry(
         requestParams.language = options.language;
       }
 
+      // Glossary vocabulary primes the model toward department jargon
+      if (options.prompt) {
+        requestParams.prompt = options.prompt;
+      }
+
       if (currentFormat) {
         requestParams.response_format = currentFormat;
 
-        if (currentFormat === 'verbose_json') {
-          requestParams.timestamp_granularities = ['segment'];
+        if (
+          currentFormat === 'verbose_json' &&
+          (options.provider.provider !== 'local' || options.provider.capabilities.wordTimestamps)
+        ) {
+          // Word timings drive karaoke highlighting and word-accurate seeking
+          requestParams.timestamp_granularities = ['word', 'segment'];
         }
       }
 
@@ -723,14 +741,14 @@ export async function POST(request: NextRequest) {
 
   try {
     // Validate environment configuration first
-    let model: string;
+    let provider: TranscriptionProvider;
     try {
-      model = getWhisperDeployment();
+      provider = getTranscriptionProvider();
     } catch (error) {
       if (error instanceof OpenAIConfigError) {
         log.error('Configuration error', { message: error.message });
         return errorResponse(
-          'Server configuration error. OpenAI API is not properly configured.',
+          'Server configuration error. Transcription is not properly configured.',
           500,
           {
             type: 'configuration_error',
@@ -773,8 +791,16 @@ export async function POST(request: NextRequest) {
 
     // Get optional parameters from formData
     const enableSpeakerDetection = formData.get('enableSpeakerDetection') === 'true';
-    const languageParam = formData.get('language') as string | null;
+    // Servers that cannot detect the language are given English by default
+    const languageParam =
+      (formData.get('language') as string | null) ||
+      (provider.capabilities.languageDetection ? null : 'en');
     const modelParam = formData.get('model') as string | null;
+    const promptParam = formData.get('prompt');
+    const prompt =
+      typeof promptParam === 'string' && promptParam.trim()
+        ? promptParam.trim().slice(0, TRANSCRIPTION_PROMPT_MAX_LENGTH)
+        : undefined;
 
     const partIndexParam = formData.get('partIndex');
     const totalPartsParam = formData.get('totalParts');
@@ -788,16 +814,21 @@ export async function POST(request: NextRequest) {
       type: file.type,
       enableSpeakerDetection,
       language: languageParam,
-      model: modelParam || model,
+      provider: provider.provider,
+      model: modelParam || provider.defaultModel,
+      hasPrompt: Boolean(prompt),
       partIndex,
       totalParts,
     });
 
-    // Use model parameter from request or default
-    const transcriptionModel = modelParam || model;
-    const responseFormat = determineResponseFormat(
-      transcriptionModel
-    );
+    // Use model parameter from request or the provider's default.
+    // Local OpenAI-compatible servers return segments with verbose_json
+    // (and speaker labels on the segments when they diarize).
+    const transcriptionModel = resolveTranscriptionModel(provider, modelParam);
+    const responseFormat =
+      provider.provider === 'local'
+        ? 'verbose_json'
+        : determineResponseFormat(transcriptionModel);
 
     // Transcribe with OpenAI Whisper API (with retry logic)
     let transcriptionResult:
@@ -811,13 +842,15 @@ export async function POST(request: NextRequest) {
         file,
         filename,
         {
+          provider,
           model: transcriptionModel,
           language: languageParam,
+          prompt,
           responseFormat,
         }
       );
     } catch (error) {
-      log.error('OpenAI API error', {
+      log.error('Transcription API error', {
         message: error instanceof Error ? error.message : String(error),
       });
       const { message, status, details } = parseOpenAIError(error);
@@ -948,8 +981,9 @@ export async function GET() {
     maxFileSize: maxSize,
     maxFileSizeMB: maxSizeMB,
     features: [
-      'Audio transcription using Azure OpenAI Whisper',
+      'Audio transcription using Azure OpenAI, OpenAI or a local Whisper-compatible server',
       'Timestamp segments for each phrase',
+      'Word-level timestamps (Whisper models)',
       'Language detection and specification',
       'Automatic retry on transient failures',
       'MP4 video to MP3 audio conversion (client-side)',
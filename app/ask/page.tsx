@@ -0,0 +1,90 @@
+'use client';
+
+import * as React from 'react';
+import { Container, Group, Paper, SegmentedControl, Select, Stack, Text, Title } from '@mantine/core';
+import { CorpusChatInterface } from '@/components/chat/corpus-chat-interface';
+import { useIncidents } from '@/hooks/use-incidents';
+import {
+  CORPUS_PERIOD_LABELS,
+  corpusConversationKey,
+  type CorpusPeriod,
+  type CorpusScope,
+} from '@/hooks/use-corpus-chat';
+
+const LIBRARY_SCOPE = 'library';
+
+const PERIOD_OPTIONS = (Object.keys(CORPUS_PERIOD_LABELS) as CorpusPeriod[]).map((period) => ({
+  value: period,
+  label: CORPUS_PERIOD_LABELS[period],
+}));
+
+/**
+ * Ask Library Page
+ *
+ * Chat across every transcript (over a period) or across one incident's
+ * channels, so training officers can ask questions that span incidents.
+ */
+export default function AskLibraryPage() {
+  const { incidents } = useIncidents();
+  const [scopeValue, setScopeValue] = React.useState<string>(LIBRARY_SCOPE);
+  const [period, setPeriod] = React.useState<CorpusPeriod>('all');
+
+  const scopeOptions = React.useMemo(
+    () => [
+      { value: LIBRARY_SCOPE, label: 'All transcripts' },
+      ...incidents.map((incident) => ({
+        value: incident.id,
+        label: incident.incidentNumber
+          ? `${incident.name} (${incident.incidentNumber})`
+          : incident.name,
+      })),
+    ],
+    [incidents]
+  );
+
+  const scope: CorpusScope =
+    scopeValue === LIBRARY_SCOPE
+      ? { type: 'library', period }
+      : { type: 'incident', incidentId: scopeValue };
+
+  return (
+    <Container size="lg" py="xl">
+      <Stack gap="xl">
+        <Stack gap="xs">
+          <Title order={1}>Ask Library</Title>
+          <Text c="dimmed" size="lg">
+            Questions across many transcripts, answered with cited radio traffic
+          </Text>
+        </Stack>
+
+        <Paper p="md" radius="md" withBorder>
+          <Group align="flex-end" gap="md" wrap="wrap">
+            <Select
+              label="Search"
+              data={scopeOptions}
+              value={scopeValue}
+              onChange={(value) => setScopeValue(value ?? LIBRARY_SCOPE)}
+              allowDeselect={false}
+              searchable
+              w={320}
+            />
+            {scope.type === 'library' && (
+              <Stack gap={4}>
+                <Text size="sm" fw={500}>
+                  Period
+                </Text>
+                <SegmentedControl
+                  data={PERIOD_OPTIONS}
+                  value={period}
+                  onChange={(value) => setPeriod(value as CorpusPeriod)}
+                />
+              </Stack>
+            )}
+          </Group>
+        </Paper>
+
+        <CorpusChatInterface key={corpusConversationKey(scope)} scope={scope} />
+      </Stack>
+    </Container>
+  );
+}
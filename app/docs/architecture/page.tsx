@@ -149,7 +149,7 @@ export default function ArchitecturePage() {
                 </Text>
                 <ArrowRight size={14} color="gray" />
                 <Text size="sm" c="dimmed">
-                  AI analysis via Azure OpenAI GPT
+                  Starts a background AI analysis job (follow /api/analyze/[id]/events)
                 </Text>
               </Group>
             </Paper>
@@ -163,7 +163,7 @@ export default function ArchitecturePage() {
                 </Text>
                 <ArrowRight size={14} color="gray" />
                 <Text size="sm" c="dimmed">
-                  Q&A conversations about transcripts
+                  Q&A about a transcript or across many, with answers citing segments
                 </Text>
               </Group>
             </Paper>
@@ -0,0 +1,316 @@
+'use client';
+
+import * as React from 'react';
+import { useMemo, useState } from 'react';
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Container,
+  Group,
+  Loader,
+  Paper,
+  SegmentedControl,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+  ThemeIcon,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { modals } from '@mantine/modals';
+import { notifications } from '@mantine/notifications';
+import { BookA, Pencil, Plus, Search, Sparkles, Trash2 } from 'lucide-react';
+import { GlossaryTermModal } from '@/components/glossary/glossary-term-modal';
+import { useGlossary } from '@/hooks/use-glossary';
+import { AUSTIN_DEPARTMENTS, getDepartmentById } from '@/lib/departments';
+import { STARTER_GLOSSARY } from '@/lib/glossary';
+import {
+  GLOSSARY_ALL_DEPARTMENTS,
+  type GlossaryTerm,
+  type GlossaryTermInput,
+} from '@/types/glossary';
+
+const FILTER_OPTIONS = [
+  { value: '', label: 'All' },
+  { value: GLOSSARY_ALL_DEPARTMENTS, label: 'Shared' },
+  ...AUSTIN_DEPARTMENTS.map((d) => ({ value: d.id, label: d.abbreviation })),
+];
+
+function departmentLabel(department: string): string {
+  if (department === GLOSSARY_ALL_DEPARTMENTS) return 'All departments';
+  return getDepartmentById(department)?.abbreviation ?? department;
+}
+
+/**
+ * Glossary Page
+ *
+ * Department vocabulary sent to the transcription model as a prompt and used
+ * to correct misheard terms in new transcripts.
+ */
+export default function GlossaryPage() {
+  const { terms, isLoading, isDeleting, createTerms, updateTerm, deleteTerm } =
+    useGlossary();
+  const [filter, setFilter] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editing, setEditing] = useState<GlossaryTerm | null>(null);
+  const [modalOpened, setModalOpened] = useState(false);
+  const [isAddingStarter, setIsAddingStarter] = useState(false);
+
+  const filteredTerms = useMemo(() => {
+    const query = searchTerm.trim().toLowerCase();
+    return terms.filter(
+      (t) =>
+        (!filter || t.department === filter) &&
+        (!query ||
+          t.term.toLowerCase().includes(query) ||
+          t.variants.some((v) => v.toLowerCase().includes(query)))
+    );
+  }, [terms, filter, searchTerm]);
+
+  const openModal = (term: GlossaryTerm | null) => {
+    setEditing(term);
+    setModalOpened(true);
+  };
+
+  const handleSave = async (input: GlossaryTermInput) => {
+    try {
+      if (editing) {
+        await updateTerm(editing.id, input);
+      } else {
+        await createTerms([input]);
+      }
+      notifications.show({
+        title: 'Saved',
+        message: `"${input.term.trim()}" saved to the glossary`,
+        color: 'green',
+      });
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to save term',
+        color: 'red',
+      });
+      throw error;
+    }
+  };
+
+  const handleAddStarter = async () => {
+    const existing = new Set(terms.map((t) => t.term.toLowerCase()));
+    const missing = STARTER_GLOSSARY.filter((t) => !existing.has(t.term.toLowerCase()));
+    if (missing.length === 0) {
+      notifications.show({
+        title: 'Nothing to add',
+        message: 'All starter terms are already in the glossary.',
+        color: 'blue',
+      });
+      return;
+    }
+    setIsAddingStarter(true);
+    try {
+      await createTerms(missing);
+      notifications.show({
+        title: 'Starter terms added',
+        message: `${missing.length} terms added. Review the misheard forms before your next upload.`,
+        color: 'green',
+      });
+    } catch (error) {
+      notifications.show({
+        title: 'Error',
+        message: error instanceof Error ? error.message : 'Failed to add starter terms',
+        color: 'red',
+      });
+    } finally {
+      setIsAddingStarter(false);
+    }
+  };
+
+  const handleDelete = (term: GlossaryTerm) => {
+    modals.openConfirmModal({
+      title: 'Delete Term',
+      children: (
+        <Text size="sm">
+          Delete &quot;{term.term}&quot;? Transcripts already corrected are not
+          changed.
+        </Text>
+      ),
+      labels: { confirm: 'Delete', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: async () => {
+        try {
+          await deleteTerm(term.id);
+        } catch (error) {
+          notifications.show({
+            title: 'Error',
+            message: error instanceof Error ? error.message : 'Failed to delete term',
+            color: 'red',
+          });
+        }
+      },
+    });
+  };
+
+  return (
+    <Container size="lg" py="xl">
+      <Stack gap="xl">
+        <Group justify="space-between" align="flex-start">
+          <Stack gap="xs">
+            <Title order={1}>Glossary</Title>
+            <Text c="dimmed" size="lg">
+              Radio jargon, unit names and streets the transcription model
+              should get right
+            </Text>
+          </Stack>
+          <Group gap="sm">
+            {terms.length > 0 && (
+              <Button
+                variant="default"
+                leftSection={<Sparkles size={16} />}
+                loading={isAddingStarter}
+                onClick={handleAddStarter}
+              >
+                Add starter terms
+              </Button>
+            )}
+            <Button leftSection={<Plus size={16} />} onClick={() => openModal(null)}>
+              Add term
+            </Button>
+          </Group>
+        </Group>
+
+        {isLoading ? (
+          <Group justify="center" py="xl">
+            <Loader />
+          </Group>
+        ) : terms.length === 0 ? (
+          <Paper p="xl" radius="lg" withBorder>
+            <Stack align="center" gap="lg" py="xl">
+              <ThemeIcon size={80} radius="xl" color="gray" variant="light">
+                <BookA size={40} />
+              </ThemeIcon>
+              <Stack align="center" gap="xs">
+                <Title order={2} ta="center">
+                  No glossary terms yet
+                </Title>
+                <Text c="dimmed" ta="center" maw={520}>
+                  Terms for the department selected at upload are sent with
+                  the audio, and their misheard forms are corrected in the
+                  transcript. Each correction can be reviewed on the
+                  transcript page.
+                </Text>
+              </Stack>
+              <Button
+                leftSection={<Sparkles size={16} />}
+                loading={isAddingStarter}
+                onClick={handleAddStarter}
+              >
+                Start with common Austin terms
+              </Button>
+            </Stack>
+          </Paper>
+        ) : (
+          <Stack gap="md">
+            <Group justify="space-between">
+              <SegmentedControl data={FILTER_OPTIONS} value={filter} onChange={setFilter} />
+              <TextInput
+                placeholder="Search terms..."
+                leftSection={<Search size={16} />}
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.currentTarget.value)}
+                w={260}
+              />
+            </Group>
+
+            <Table.ScrollContainer minWidth={720}>
+              <Table withTableBorder striped>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Term</Table.Th>
+                    <Table.Th>Department</Table.Th>
+                    <Table.Th>Misheard as</Table.Th>
+                    <Table.Th>Notes</Table.Th>
+                    <Table.Th />
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {filteredTerms.map((term) => (
+                    <Table.Tr key={term.id}>
+                      <Table.Td>
+                        <Text fw={600} size="sm">
+                          {term.term}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Badge variant="light" color="gray">
+                          {departmentLabel(term.department)}
+                        </Badge>
+                      </Table.Td>
+                      <Table.Td>
+                        {term.variants.length > 0 ? (
+                          <Group gap={4}>
+                            {term.variants.map((variant) => (
+                              <Badge key={variant} variant="outline" color="orange" tt="none">
+                                {variant}
+                              </Badge>
+                            ))}
+                          </Group>
+                        ) : (
+                          <Text size="xs" c="dimmed">
+                            Prompt only
+                          </Text>
+                        )}
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c={term.notes ? undefined : 'dimmed'} lineClamp={2}>
+                          {term.notes ?? '—'}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Group gap={4} justify="flex-end" wrap="nowrap">
+                          <Tooltip label="Edit">
+                            <ActionIcon
+                              variant="subtle"
+                              aria-label={`Edit ${term.term}`}
+                              onClick={() => openModal(term)}
+                            >
+                              <Pencil size={16} />
+                            </ActionIcon>
+                          </Tooltip>
+                          <Tooltip label="Delete">
+                            <ActionIcon
+                              variant="subtle"
+                              color="red"
+                              aria-label={`Delete ${term.term}`}
+                              loading={isDeleting === term.id}
+                              onClick={() => handleDelete(term)}
+                            >
+                              <Trash2 size={16} />
+                            </ActionIcon>
+                          </Tooltip>
+                        </Group>
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </Table.ScrollContainer>
+
+            {filteredTerms.length === 0 && (
+              <Text c="dimmed" ta="center" py="md">
+                No terms match the current filter.
+              </Text>
+            )}
+          </Stack>
+        )}
+      </Stack>
+
+      <GlossaryTermModal
+        opened={modalOpened}
+        onClose={() => setModalOpened(false)}
+        term={editing ?? undefined}
+        onSave={handleSave}
+      />
+    </Container>
+  );
+}
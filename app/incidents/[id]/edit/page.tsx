@@ -0,0 +1,102 @@
+"use client";
+
+import * as React from "react";
+import { useRouter, useParams } from "next/navigation";
+import Link from "next/link";
+import {
+  Alert,
+  Button,
+  Container,
+  Group,
+  Loader,
+  Stack,
+  Text,
+  Title,
+} from "@mantine/core";
+import { AlertCircle, ArrowLeft } from "lucide-react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { IncidentForm } from "@/components/incident/incident-form";
+import { getIncident, updateIncident } from "@/lib/db";
+import type { Incident, IncidentInput } from "@/types/incident";
+
+/**
+ * Edit Incident Page
+ *
+ * Form for editing incident details and channels
+ */
+export default function EditIncidentPage() {
+  const router = useRouter();
+  const params = useParams();
+  const incidentId = params.id as string;
+
+  const incident = useLiveQuery<Incident | null>(async () => {
+    try {
+      return (await getIncident(incidentId)) ?? null;
+    } catch (error) {
+      console.error("Error loading incident:", error);
+      return null;
+    }
+  }, [incidentId]);
+
+  const handleSave = async (input: IncidentInput) => {
+    await updateIncident(incidentId, input);
+    router.push(`/incidents/${incidentId}`);
+  };
+
+  const handleCancel = () => {
+    router.push(`/incidents/${incidentId}`);
+  };
+
+  return (
+    <Container size="lg" py={{ base: "md", md: "xl" }}>
+      <Stack gap="xl">
+        {/* Header */}
+        <Group justify="space-between" align="center">
+          <Link href={`/incidents/${incidentId}`}>
+            <Button variant="subtle" leftSection={<ArrowLeft size={16} />}>
+              Back to Incident
+            </Button>
+          </Link>
+        </Group>
+
+        {/* Loading State */}
+        {incident === undefined && (
+          <Group justify="center" py="xl">
+            <Loader />
+          </Group>
+        )}
+
+        {/* Not Found */}
+        {incident === null && (
+          <Alert
+            icon={<AlertCircle size={16} />}
+            title="Incident not found"
+            color="red"
+            variant="light"
+          >
+            The incident you&apos;re looking for doesn&apos;t exist or may have
+            been deleted.
+          </Alert>
+        )}
+
+        {incident && (
+          <>
+            <div>
+              <Title order={1}>Edit Incident</Title>
+              <Text c="dimmed" size="sm" mt="xs">
+                {incident.name}
+              </Text>
+            </div>
+
+            <IncidentForm
+              key={incident.id}
+              incident={incident}
+              onSave={handleSave}
+              onCancel={handleCancel}
+            />
+          </>
+        )}
+      </Stack>
+    </Container>
+  );
+}
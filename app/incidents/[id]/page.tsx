@@ -0,0 +1,449 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import {
+  Alert,
+  Badge,
+  Button,
+  Container,
+  Group,
+  Loader,
+  Paper,
+  Stack,
+  Table,
+  Tabs,
+  Text,
+  Title,
+} from "@mantine/core";
+import { modals } from "@mantine/modals";
+import { notifications } from "@mantine/notifications";
+import {
+  AlertCircle,
+  ArrowLeft,
+  ClipboardCheck,
+  FileText,
+  History,
+  MessageCircle,
+  Pencil,
+  Radio,
+  Trash2,
+  Wand2,
+} from "lucide-react";
+import { useIncidentDetails, useIncidents } from "@/hooks/use-incidents";
+import { extractVisinetEvents } from "@/lib/visinet-parser";
+import { formatDateTime } from "@/lib/utils/format";
+import { getDepartmentName } from "@/lib/departments";
+import { getCategoryLabel } from "@/types/supplemental";
+import { IncidentTimeline } from "@/components/incident/incident-timeline";
+import { ChannelAlignment } from "@/components/incident/channel-alignment";
+import { CorpusChatInterface } from "@/components/chat/corpus-chat-interface";
+import type {
+  Incident,
+  IncidentChannel,
+  IncidentInput,
+} from "@/types/incident";
+
+const STATUS_COLORS: Record<string, string> = {
+  pass: "green",
+  needs_improvement: "yellow",
+  fail: "red",
+};
+
+/**
+ * Editable fields of an incident, for partial updates
+ */
+function toIncidentInput(incident: Incident): IncidentInput {
+  return {
+    name: incident.name,
+    incidentNumber: incident.incidentNumber,
+    location: incident.location,
+    occurredAt: incident.occurredAt,
+    department: incident.department,
+    notes: incident.notes,
+    channels: incident.channels,
+  };
+}
+
+/**
+ * Incident Detail Page
+ *
+ * Shows an incident's channels, combined timeline, attached documents
+ * (including Visinet CAD reports) and scorecards, and answers questions
+ * across its channels.
+ */
+export default function IncidentDetailPage() {
+  const router = useRouter();
+  const params = useParams();
+  const incidentId = params.id as string;
+
+  const { details, isLoading, notFound } = useIncidentDetails(incidentId);
+  const { deleteIncident, updateIncident } = useIncidents();
+  const [isApplyingCad, setIsApplyingCad] = React.useState(false);
+
+  const channelLabelById = React.useMemo(
+    () =>
+      new Map(
+        (details?.incident.channels ?? []).map((c) => [c.transcriptId, c.label]),
+      ),
+    [details],
+  );
+
+  const visinetDoc = React.useMemo(
+    () =>
+      details?.documents.find(
+        (d) => d.category === "visinet" && d.visinetData != null,
+      ),
+    [details],
+  );
+
+  const cadEvents = React.useMemo(
+    () =>
+      visinetDoc?.visinetData
+        ? extractVisinetEvents(visinetDoc.visinetData)
+        : [],
+    [visinetDoc],
+  );
+
+  // Offset 0 on the incident's wall-clock axis
+  const incidentStart = details?.incident.occurredAt ?? cadEvents[0]?.at;
+
+  const handleDelete = () => {
+    if (!details) return;
+    modals.openConfirmModal({
+      title: "Delete Incident",
+      children: (
+        <Text size="sm">
+          Delete &quot;{details.incident.name}&quot;? Its transcripts, analyses
+          and scorecards are kept and become standalone transcripts again.
+        </Text>
+      ),
+      labels: { confirm: "Delete", cancel: "Cancel" },
+      confirmProps: { color: "red" },
+      onConfirm: async () => {
+        try {
+          await deleteIncident(incidentId);
+          router.push("/incidents");
+        } catch (error) {
+          notifications.show({
+            title: "Error",
+            message:
+              error instanceof Error ? error.message : "Failed to delete incident",
+            color: "red",
+          });
+        }
+      },
+    });
+  };
+
+  // Fill incident number, location and time from the attached CAD report
+  const handleApplyCad = async () => {
+    const report = visinetDoc?.visinetData;
+    if (!details || !report) return;
+
+    const { incident } = details;
+    const address = [report.location.address, report.location.city]
+      .filter(Boolean)
+      .join(", ");
+
+    const input: IncidentInput = {
+      ...toIncidentInput(incident),
+      incidentNumber: incident.incidentNumber || report.header.incidentNumber || undefined,
+      location: incident.location || address || undefined,
+      occurredAt:
+        incident.occurredAt ??
+        report.timeStamps.phonePickup ??
+        report.header.incidentDate ??
+        undefined,
+    };
+
+    setIsApplyingCad(true);
+    try {
+      await updateIncident(incident.id, input);
+      notifications.show({
+        title: "Incident updated",
+        message: "Details filled from the CAD report.",
+        color: "green",
+      });
+    } catch (error) {
+      notifications.show({
+        title: "Update failed",
+        message: error instanceof Error ? error.message : String(error),
+        color: "red",
+      });
+    } finally {
+      setIsApplyingCad(false);
+    }
+  };
+
+  const handleSaveAlignment = async (channels: IncidentChannel[]) => {
+    if (!details) return;
+    try {
+      await updateIncident(details.incident.id, {
+        ...toIncidentInput(details.incident),
+        channels,
+      });
+      notifications.show({
+        title: "Alignment saved",
+        message: "Channel offsets updated.",
+        color: "green",
+      });
+    } catch (error) {
+      notifications.show({
+        title: "Update failed",
+        message: error instanceof Error ? error.message : String(error),
+        color: "red",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Container size="lg" py="xl">
+        <Group justify="center" py="xl">
+          <Loader />
+        </Group>
+      </Container>
+    );
+  }
+
+  if (notFound || !details) {
+    return (
+      <Container size="lg" py="xl">
+        <Stack gap="xl">
+          <Link href="/incidents">
+            <Button variant="subtle" leftSection={<ArrowLeft size={16} />}>
+              Back to Incidents
+            </Button>
+          </Link>
+          <Alert
+            icon={<AlertCircle size={16} />}
+            title="Incident not found"
+            color="red"
+            variant="light"
+          >
+            The incident you&apos;re looking for doesn&apos;t exist or may have
+            been deleted.
+          </Alert>
+        </Stack>
+      </Container>
+    );
+  }
+
+  const { incident, transcripts, annotations, documents, scorecards } =
+    details;
+  const canApplyCad =
+    !!visinetDoc &&
+    (!incident.incidentNumber || !incident.location || !incident.occurredAt);
+
+  return (
+    <Container size="xl" py={{ base: "md", md: "xl" }}>
+      <Stack gap="xl">
+        {/* Header */}
+        <Group justify="space-between" align="center">
+          <Link href="/incidents">
+            <Button variant="subtle" leftSection={<ArrowLeft size={16} />}>
+              Back to Incidents
+            </Button>
+          </Link>
+          <Group gap="sm">
+            {canApplyCad && (
+              <Button
+                variant="light"
+                leftSection={<Wand2 size={16} />}
+                onClick={handleApplyCad}
+                loading={isApplyingCad}
+              >
+                Fill from CAD Report
+              </Button>
+            )}
+            <Button
+              component={Link}
+              href={`/incidents/${incident.id}/edit`}
+              variant="default"
+              leftSection={<Pencil size={16} />}
+            >
+              Edit
+            </Button>
+            <Button
+              color="red"
+              variant="light"
+              leftSection={<Trash2 size={16} />}
+              onClick={handleDelete}
+            >
+              Delete
+            </Button>
+          </Group>
+        </Group>
+
+        <Stack gap="xs">
+          <Title order={1}>{incident.name}</Title>
+          <Group gap="sm">
+            {incident.incidentNumber && (
+              <Badge variant="light" color="gray">
+                #{incident.incidentNumber}
+              </Badge>
+            )}
+            {incident.department && (
+              <Badge variant="light">{getDepartmentName(incident.department)}</Badge>
+            )}
+            <Badge variant="light" color="blue" leftSection={<Radio size={12} />}>
+              {incident.channels.length} channel
+              {incident.channels.length === 1 ? "" : "s"}
+            </Badge>
+          </Group>
+          {(incident.location || incident.occurredAt) && (
+            <Text c="dimmed">
+              {[incident.location, incident.occurredAt && formatDateTime(incident.occurredAt)]
+                .filter(Boolean)
+                .join(" • ")}
+            </Text>
+          )}
+          {incident.notes && <Text size="sm">{incident.notes}</Text>}
+        </Stack>
+
+        <Tabs defaultValue="timeline" keepMounted={false}>
+          <Tabs.List mb="md">
+            <Tabs.Tab value="timeline" leftSection={<History size={14} />}>
+              Timeline
+            </Tabs.Tab>
+            <Tabs.Tab value="channels" leftSection={<Radio size={14} />}>
+              Channels
+            </Tabs.Tab>
+            <Tabs.Tab value="documents" leftSection={<FileText size={14} />}>
+              Documents ({documents.length})
+            </Tabs.Tab>
+            <Tabs.Tab value="scorecards" leftSection={<ClipboardCheck size={14} />}>
+              Scorecards ({scorecards.length})
+            </Tabs.Tab>
+            <Tabs.Tab value="ask" leftSection={<MessageCircle size={14} />}>
+              Ask
+            </Tabs.Tab>
+          </Tabs.List>
+
+          {/* Combined Timeline */}
+          <Tabs.Panel value="timeline">
+            <Paper p="lg" radius="md" withBorder>
+              <IncidentTimeline
+                incident={incident}
+                transcripts={transcripts}
+                annotations={annotations}
+                incidentStart={incidentStart}
+              />
+            </Paper>
+          </Tabs.Panel>
+
+          {/* Channels */}
+          <Tabs.Panel value="channels">
+            <Paper p="lg" radius="md" withBorder>
+              <ChannelAlignment
+                key={incident.updatedAt.getTime()}
+                channels={incident.channels}
+                transcripts={transcripts}
+                events={cadEvents}
+                incidentStart={incidentStart}
+                onSave={handleSaveAlignment}
+              />
+            </Paper>
+          </Tabs.Panel>
+
+          {/* Documents from every channel */}
+          <Tabs.Panel value="documents">
+            <Paper p="lg" radius="md" withBorder>
+              {documents.length === 0 ? (
+                <Text size="sm" c="dimmed">
+                  No documents attached. Attach Visinet CAD reports, SOPs or
+                  notes from a channel&apos;s transcript page.
+                </Text>
+              ) : (
+                <Table>
+                  <Table.Thead>
+                    <Table.Tr>
+                      <Table.Th>Document</Table.Th>
+                      <Table.Th>Category</Table.Th>
+                      <Table.Th>Attached to</Table.Th>
+                      <Table.Th>Added</Table.Th>
+                    </Table.Tr>
+                  </Table.Thead>
+                  <Table.Tbody>
+                    {documents.map((doc) => (
+                      <Table.Tr key={doc.id}>
+                        <Table.Td>{doc.filename}</Table.Td>
+                        <Table.Td>
+                          <Badge
+                            variant="light"
+                            color={doc.category === "visinet" ? "cyan" : "gray"}
+                          >
+                            {getCategoryLabel(doc.category ?? "other")}
+                          </Badge>
+                        </Table.Td>
+                        <Table.Td>
+                          <Link href={`/transcripts/${doc.transcriptId}`}>
+                            {channelLabelById.get(doc.transcriptId) ?? "Transcript"}
+                          </Link>
+                        </Table.Td>
+                        <Table.Td>{formatDateTime(doc.addedAt)}</Table.Td>
+                      </Table.Tr>
+                    ))}
+                  </Table.Tbody>
+                </Table>
+              )}
+            </Paper>
+          </Tabs.Panel>
+
+          {/* Scorecards for every channel */}
+          <Tabs.Panel value="scorecards">
+            <Paper p="lg" radius="md" withBorder>
+              {scorecards.length === 0 ? (
+                <Text size="sm" c="dimmed">
+                  No scorecards yet. Generate one from a channel&apos;s
+                  Scorecard tab.
+                </Text>
+              ) : (
+                <Table>
+                  <Table.Thead>
+                    <Table.Tr>
+                      <Table.Th>Created</Table.Th>
+                      <Table.Th>Rubric</Table.Th>
+                      <Table.Th>Channel</Table.Th>
+                      <Table.Th>Score</Table.Th>
+                      <Table.Th>Status</Table.Th>
+                    </Table.Tr>
+                  </Table.Thead>
+                  <Table.Tbody>
+                    {scorecards.map((scorecard) => (
+                      <Table.Tr key={scorecard.id}>
+                        <Table.Td>{formatDateTime(scorecard.createdAt)}</Table.Td>
+                        <Table.Td>{scorecard.rubricTemplateId}</Table.Td>
+                        <Table.Td>
+                          <Link href={`/transcripts/${scorecard.transcriptId}`}>
+                            {channelLabelById.get(scorecard.transcriptId) ?? "Transcript"}
+                          </Link>
+                        </Table.Td>
+                        <Table.Td>{Math.round(scorecard.overall.score * 100)}%</Table.Td>
+                        <Table.Td>
+                          <Badge
+                            variant="light"
+                            color={STATUS_COLORS[scorecard.overall.status]}
+                          >
+                            {scorecard.overall.status.replace("_", " ")}
+                          </Badge>
+                        </Table.Td>
+                      </Table.Tr>
+                    ))}
+                  </Table.Tbody>
+                </Table>
+              )}
+            </Paper>
+          </Tabs.Panel>
+
+          {/* Q&A across every channel */}
+          <Tabs.Panel value="ask">
+            <CorpusChatInterface scope={{ type: "incident", incidentId: incident.id }} />
+          </Tabs.Panel>
+        </Tabs>
+      </Stack>
+    </Container>
+  );
+}
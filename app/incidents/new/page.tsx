@@ -0,0 +1,75 @@
+"use client";
+
+import * as React from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Button, Container, Group, Stack, Text, Title } from "@mantine/core";
+import { ArrowLeft } from "lucide-react";
+import { IncidentForm } from "@/components/incident/incident-form";
+import { createIncident } from "@/lib/db";
+import type { IncidentInput } from "@/types/incident";
+
+/**
+ * New Incident Page
+ *
+ * Form for creating an incident. Accepts `?transcripts=id1,id2` to
+ * preselect recordings (e.g. when started from a transcript page).
+ */
+function NewIncidentContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const initialTranscriptIds = React.useMemo(
+    () =>
+      (searchParams.get("transcripts") ?? "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean),
+    [searchParams],
+  );
+
+  const handleSave = async (input: IncidentInput) => {
+    const incident = await createIncident(input);
+    router.push(`/incidents/${incident.id}`);
+  };
+
+  const handleCancel = () => {
+    router.push("/incidents");
+  };
+
+  return (
+    <Container size="lg" py={{ base: "md", md: "xl" }}>
+      <Stack gap="xl">
+        {/* Header */}
+        <Group justify="space-between" align="center">
+          <Link href="/incidents">
+            <Button variant="subtle" leftSection={<ArrowLeft size={16} />}>
+              Back to Incidents
+            </Button>
+          </Link>
+        </Group>
+
+        {/* Page Title */}
+        <div>
+          <Title order={1}>Create New Incident</Title>
+          <Text c="dimmed" size="sm" mt="xs">
+            Group the radio recordings of one call for review and scoring
+          </Text>
+        </div>
+
+        <IncidentForm
+          initialTranscriptIds={initialTranscriptIds}
+          onSave={handleSave}
+          onCancel={handleCancel}
+        />
+      </Stack>
+    </Container>
+  );
+}
+
+export default function NewIncidentPage() {
+  return (
+    <React.Suspense fallback={null}>
+      <NewIncidentContent />
+    </React.Suspense>
+  );
+}
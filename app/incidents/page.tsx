@@ -2,27 +2,94 @@
 
 import * as React from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import {
-  Container,
-  Title,
-  Text,
-  Card,
-  Stack,
-  Group,
+  ActionIcon,
   Badge,
   Button,
+  Card,
+  Container,
+  Group,
+  Loader,
+  Menu,
   Paper,
+  SimpleGrid,
+  Stack,
+  Text,
+  TextInput,
   ThemeIcon,
+  Title,
 } from '@mantine/core';
-import { AlertTriangle, FileAudio, Plus, ArrowLeft } from 'lucide-react';
+import { modals } from '@mantine/modals';
+import { notifications } from '@mantine/notifications';
+import {
+  Edit,
+  FileAudio,
+  FolderOpen,
+  MapPin,
+  MoreVertical,
+  Plus,
+  Radio,
+  Search,
+  Trash2,
+} from 'lucide-react';
+import { useIncidents } from '@/hooks/use-incidents';
+import { formatDateTime } from '@/lib/utils/format';
+import type { Incident } from '@/types/incident';
 
 /**
  * Incidents Page
  *
- * Placeholder for incident management feature.
- * Incidents group related radio traffic transcripts for a single call/event.
+ * Lists incidents. Incidents group related radio traffic transcripts
+ * (dispatch, TAC, command channels) for a single call/event.
  */
 export default function IncidentsPage() {
+  const router = useRouter();
+  const [searchTerm, setSearchTerm] = React.useState('');
+  const { incidents, isLoading, deleteIncident, isDeleting } = useIncidents();
+
+  const filtered = React.useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return incidents;
+    return incidents.filter(
+      (i) =>
+        i.name.toLowerCase().includes(term) ||
+        i.incidentNumber?.toLowerCase().includes(term) ||
+        i.location?.toLowerCase().includes(term)
+    );
+  }, [incidents, searchTerm]);
+
+  const handleDelete = (incident: Incident) => {
+    modals.openConfirmModal({
+      title: 'Delete Incident',
+      children: (
+        <Text size="sm">
+          Delete &quot;{incident.name}&quot;? Its transcripts, analyses and
+          scorecards are kept and become standalone transcripts again.
+        </Text>
+      ),
+      labels: { confirm: 'Delete', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: async () => {
+        try {
+          await deleteIncident(incident.id);
+          notifications.show({
+            title: 'Deleted',
+            message: 'Incident deleted successfully',
+            color: 'green',
+          });
+        } catch (error) {
+          notifications.show({
+            title: 'Error',
+            message:
+              error instanceof Error ? error.message : 'Failed to delete incident',
+            color: 'red',
+          });
+        }
+      },
+    });
+  };
+
   return (
     <Container size="lg" py="xl">
       <Stack gap="xl">
@@ -36,74 +103,140 @@ export default function IncidentsPage() {
           </Stack>
           <Button
             component={Link}
-            href="/"
-            variant="subtle"
-            leftSection={<ArrowLeft size={18} />}
+            href="/incidents/new"
+            leftSection={<Plus size={18} />}
+            color="aphRed"
           >
-            Back to Home
+            New Incident
           </Button>
         </Group>
 
-        {/* Coming Soon Notice */}
-        <Paper p="xl" radius="lg" withBorder>
-          <Stack align="center" gap="lg" py="xl">
-            <ThemeIcon size={80} radius="xl" color="yellow" variant="light">
-              <AlertTriangle size={40} />
-            </ThemeIcon>
-            <Stack align="center" gap="xs">
-              <Title order={2} ta="center">
-                Incident Management Coming Soon
-              </Title>
-              <Text c="dimmed" ta="center" maw={500}>
-                This feature will allow you to group multiple radio traffic recordings
-                into a single incident for comprehensive analysis and scoring.
-              </Text>
-            </Stack>
+        <TextInput
+          placeholder="Search by name, incident number or location..."
+          leftSection={<Search size={16} />}
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.currentTarget.value)}
+        />
 
-            <Card withBorder p="lg" radius="md" w="100%" maw={600}>
-              <Stack gap="md">
-                <Text fw={600}>Planned Features:</Text>
-                <Stack gap="xs">
-                  <Group gap="sm">
-                    <Badge color="blue" variant="light">Grouping</Badge>
-                    <Text size="sm">Link multiple transcripts to one incident</Text>
-                  </Group>
-                  <Group gap="sm">
-                    <Badge color="green" variant="light">Timeline</Badge>
-                    <Text size="sm">View radio traffic in chronological order</Text>
-                  </Group>
-                  <Group gap="sm">
-                    <Badge color="orange" variant="light">Scoring</Badge>
-                    <Text size="sm">Apply RTASS rubrics to entire incidents</Text>
+        {isLoading ? (
+          <Group justify="center" py="xl">
+            <Loader />
+          </Group>
+        ) : filtered.length === 0 ? (
+          <Paper p="xl" radius="lg" withBorder>
+            <Stack align="center" gap="lg" py="xl">
+              <ThemeIcon size={80} radius="xl" color="gray" variant="light">
+                <FolderOpen size={40} />
+              </ThemeIcon>
+              <Stack align="center" gap="xs">
+                <Title order={2} ta="center">
+                  {searchTerm ? 'No incidents found' : 'No incidents yet'}
+                </Title>
+                <Text c="dimmed" ta="center" maw={500}>
+                  {searchTerm
+                    ? 'Try adjusting your search terms.'
+                    : 'Create an incident to group the dispatch, TAC and command recordings of one call for review and scoring.'}
+                </Text>
+              </Stack>
+              {!searchTerm && (
+                <Group gap="md">
+                  <Button
+                    component={Link}
+                    href="/incidents/new"
+                    leftSection={<Plus size={18} />}
+                    color="aphRed"
+                  >
+                    New Incident
+                  </Button>
+                  <Button
+                    component={Link}
+                    href="/transcripts"
+                    variant="outline"
+                    leftSection={<FileAudio size={18} />}
+                  >
+                    View Transcripts
+                  </Button>
+                </Group>
+              )}
+            </Stack>
+          </Paper>
+        ) : (
+          <SimpleGrid cols={{ base: 1, sm: 2, lg: 3 }} spacing="md">
+            {filtered.map((incident) => (
+              <Card
+                key={incident.id}
+                withBorder
+                radius="md"
+                padding="lg"
+                style={{ cursor: 'pointer' }}
+                onClick={() => router.push(`/incidents/${incident.id}`)}
+              >
+                <Stack gap="sm">
+                  <Group justify="space-between" wrap="nowrap" align="flex-start">
+                    <Text fw={600} lineClamp={2}>
+                      {incident.name}
+                    </Text>
+                    <Menu position="bottom-end" withinPortal>
+                      <Menu.Target>
+                        <ActionIcon
+                          variant="subtle"
+                          aria-label="Incident actions"
+                          onClick={(e) => e.stopPropagation()}
+                          loading={isDeleting === incident.id}
+                        >
+                          <MoreVertical size={16} />
+                        </ActionIcon>
+                      </Menu.Target>
+                      <Menu.Dropdown onClick={(e) => e.stopPropagation()}>
+                        <Menu.Item
+                          leftSection={<Edit size={14} />}
+                          onClick={() => router.push(`/incidents/${incident.id}/edit`)}
+                        >
+                          Edit
+                        </Menu.Item>
+                        <Menu.Item
+                          color="red"
+                          leftSection={<Trash2 size={14} />}
+                          onClick={() => handleDelete(incident)}
+                        >
+                          Delete
+                        </Menu.Item>
+                      </Menu.Dropdown>
+                    </Menu>
                   </Group>
-                  <Group gap="sm">
-                    <Badge color="purple" variant="light">Reports</Badge>
-                    <Text size="sm">Generate comprehensive incident reports</Text>
+
+                  {incident.incidentNumber && (
+                    <Badge variant="light" color="gray" w="fit-content">
+                      #{incident.incidentNumber}
+                    </Badge>
+                  )}
+
+                  {incident.location && (
+                    <Group gap={6} wrap="nowrap">
+                      <MapPin size={14} style={{ flexShrink: 0 }} />
+                      <Text size="sm" c="dimmed" truncate>
+                        {incident.location}
+                      </Text>
+                    </Group>
+                  )}
+
+                  <Group justify="space-between">
+                    <Group gap={6}>
+                      <Radio size={14} />
+                      <Text size="sm">
+                        {incident.channels.length} channel
+                        {incident.channels.length === 1 ? '' : 's'}
+                      </Text>
+                    </Group>
+                    <Text size="xs" c="dimmed">
+                      {formatDateTime(incident.occurredAt ?? incident.createdAt)}
+                    </Text>
                   </Group>
                 </Stack>
-              </Stack>
-            </Card>
-
-            <Group gap="md" mt="md">
-              <Button
-                component={Link}
-                href="/upload"
-                leftSection={<Plus size={18} />}
-                color="aphRed"
-              >
-                Upload Recording
-              </Button>
-              <Button
-                component={Link}
-                href="/transcripts"
-                variant="outline"
-                leftSection={<FileAudio size={18} />}
-              >
-                View Transcripts
-              </Button>
-            </Group>
-          </Stack>
-        </Paper>
+              </Card>
+            ))}
+          </SimpleGrid>
+        )}
       </Stack>
     </Container>
   );
@@ -6,6 +6,7 @@ import type { PropsWithChildren } from 'react';
 import { ThemeProvider } from '@/components/theme-provider';
 import { IntlProvider } from '@/components/providers/intl-provider';
 import { TemplateSeeder } from '@/components/providers/template-seeder';
+import { EncryptionGate } from '@/components/providers/encryption-gate';
 import { mantineTheme } from '@/lib/mantine-theme';
 import { TourProvider, TourHighlight, TourModal } from '@/components/docs/tour';
 import { allTours } from '@/lib/tours';
@@ -18,7 +19,7 @@ export function Providers({ children }: PropsWithChildren) {
           <ThemeProvider>
             <TourProvider tours={allTours}>
               <TemplateSeeder />
-              {children}
+              <EncryptionGate>{children}</EncryptionGate>
               <TourHighlight />
               <TourModal />
             </TourProvider>
@@ -67,6 +67,11 @@ import {
   getEffectiveCategory,
   type UserCategorySettings,
 } from "@/lib/user-categories";
+import { applySpeakerMap } from "@/lib/speaker-map";
+import {
+  clearPendingAnalysisJob,
+  getPendingAnalysisJob,
+} from "@/lib/storage";
 import { AnalysisViewer } from "@/components/analysis/analysis-viewer";
 import { TemplateDetail } from "@/components/templates/template-detail";
 import { StrategySelector } from "@/components/analysis/strategy-selector";
@@ -79,6 +84,8 @@ import { SupplementalUpload } from "@/components/analysis/supplemental-upload";
 import type { Transcript } from "@/types/transcript";
 import type { Template } from "@/types/template";
 import type { Analysis } from "@/types/analysis";
+import type { LlmTaskRoute } from "@/types/llm";
+import type { ConfigStatusResponse } from "@/app/api/config/status/route";
 import type { AnalysisStrategy } from "@/lib/analysis-strategy";
 
 /**
@@ -143,8 +150,14 @@ function CompactTemplateCard({
  */
 export default function AnalyzePage() {
   const params = useParams();
-  const { state, analyzeTranscript, cancelAnalysis, clearAnalysis, reset } =
-    useAnalysis();
+  const {
+    state,
+    analyzeTranscript,
+    resumeAnalysis,
+    cancelAnalysis,
+    clearAnalysis,
+    reset,
+  } = useAnalysis();
 
   const transcriptId = params.id as string;
   const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(
@@ -186,11 +199,35 @@ export default function AnalyzePage() {
     setUserSettings(getUserCategorySettings());
   }, []);
 
-  // Load transcript from IndexedDB
+  // Analysis model and context window from the server's LLM routing
+  const [analysisRoute, setAnalysisRoute] = useState<LlmTaskRoute | null>(
+    null,
+  );
+  React.useEffect(() => {
+    let cancelled = false;
+    fetch("/api/config/status")
+      .then((response) => response.json())
+      .then((payload) => {
+        const status: ConfigStatusResponse | undefined =
+          payload?.data ?? payload;
+        if (!cancelled && status?.llm) {
+          setAnalysisRoute(status.llm.routes.analysis);
+        }
+      })
+      .catch((statusError) => {
+        console.error("Failed to load analysis model routing:", statusError);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Load transcript from IndexedDB, with the reviewer's speaker names applied
   const transcript = useLiveQuery<Transcript | undefined>(async () => {
     if (!transcriptId) return undefined;
     try {
-      return await getTranscript(transcriptId);
+      const stored = await getTranscript(transcriptId);
+      return stored && applySpeakerMap(stored);
     } catch (error) {
       console.error("Error loading transcript:", error);
       return undefined;
@@ -284,6 +321,36 @@ export default function AnalyzePage() {
   const isLoading = transcript === undefined || templates === undefined;
   const selectedTemplate = templates?.find((t) => t.id === selectedTemplateId);
 
+  // Reconnect to an analysis still running on the server from before a reload
+  const resumeChecked = React.useRef(false);
+  React.useEffect(() => {
+    if (resumeChecked.current || !transcript || !templates) return;
+    resumeChecked.current = true;
+
+    const pending = getPendingAnalysisJob(transcript.id);
+    const template =
+      pending && templates.find((t) => t.id === pending.templateId);
+    if (!pending) return;
+    if (!template) {
+      clearPendingAnalysisJob(transcript.id);
+      return;
+    }
+
+    resumeAnalysis(transcript, template, pending).then((analysis) => {
+      if (analysis) {
+        notifications.show({
+          title: "Analysis Complete",
+          message: "The analysis that was running has finished and been saved.",
+          color: "green",
+        });
+      }
+    });
+    // Restore the settings the job was started with
+    setSelectedTemplateId(template.id);
+    setSelectedStrategy(pending.strategy);
+    setRunEvaluation(pending.runEvaluation);
+  }, [transcript, templates, resumeAnalysis]);
+
   // Handle analyze button click
   const handleAnalyze = useCallback(async () => {
     if (!transcript || !selectedTemplate) {
@@ -510,6 +577,7 @@ export default function AnalyzePage() {
 
         {/* Token count and deployment info */}
         {transcript &&
+          analysisRoute &&
           (() => {
             const transcriptTokens = estimateTokens(transcript.text);
             // Combine tokens from persistent docs + any temporary session uploads
@@ -520,7 +588,10 @@ export default function AnalyzePage() {
             const supplementalTokens =
               persistentDocsTokens + sessionUploadTokens;
             const totalTokens = transcriptTokens + supplementalTokens;
-            const deploymentInfo = getDeploymentInfo(totalTokens);
+            const deploymentInfo = getDeploymentInfo(
+              totalTokens,
+              analysisRoute,
+            );
             const { isExtended, isHighUtilization } = deploymentInfo;
             const isCritical = deploymentInfo.isCriticalUtilization;
 
@@ -538,7 +609,7 @@ export default function AnalyzePage() {
                       color={isExtended ? "cyan" : "blue"}
                       size="sm"
                     >
-                      {isExtended ? "GPT-41" : "GPT-5"}
+                      {deploymentInfo.deployment}
                     </Badge>
                   </Group>
                 }
@@ -637,8 +708,8 @@ export default function AnalyzePage() {
 
                   {isExtended && !isHighUtilization && (
                     <Text size="sm" c="dimmed">
-                      ✓ Extended context deployment can handle up to 1 million
-                      tokens.
+                      ✓ Extended context deployment can handle up to{" "}
+                      {deploymentInfo.tokenLimit.toLocaleString()} tokens.
                     </Text>
                   )}
                 </Stack>
@@ -827,6 +898,22 @@ export default function AnalyzePage() {
           />
         )}
 
+        {/* Sections completed so far, streamed from the running job */}
+        {state.loading && state.partialAnalysis && selectedTemplate && (
+          <AnalysisViewer
+            analysis={state.partialAnalysis}
+            template={selectedTemplate}
+            pendingSections={selectedTemplate.sections
+              .map((section) => section.name)
+              .filter(
+                (name) =>
+                  !state.partialAnalysis?.results.sections.some(
+                    (section) => section.name === name,
+                  ),
+              )}
+          />
+        )}
+
         {/* Error State - Improved with Recovery Options */}
         {state.error && !state.loading && (
           <Card
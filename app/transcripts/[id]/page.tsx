@@ -14,7 +14,7 @@ import React, {
   useMemo,
   useRef,
 } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import dynamic from "next/dynamic";
 import { useLiveQuery } from "dexie-react-hooks";
@@ -37,6 +37,10 @@ import {
   Sparkles,
   MessageCircle,
   ClipboardCheck,
+  FolderPlus,
+  FolderOpen,
+  SpellCheck,
+  EyeOff,
 } from "lucide-react";
 import { notifications } from "@mantine/notifications";
 import {
@@ -48,6 +52,7 @@ import {
   saveAnalysis,
   getRtassScorecardsByTranscript,
   getRtassRubricTemplate,
+  reviseTranscript,
 } from "@/lib/db";
 import {
   exportTranscriptAsText,
@@ -58,19 +63,36 @@ import {
 import { getAudioFile, revokeAudioUrl } from "@/lib/audio-storage";
 import { findSegmentByTimestamp } from "@/lib/timestamp-utils";
 import { normalizeEvidence } from "@/lib/analysis-utils";
+import { applySpeakerMap } from "@/lib/speaker-map";
+import { applyRedactions, transcriptForAiRequest } from "@/lib/redaction";
+import { getRedactExportsPreference } from "@/lib/storage";
+import { isStaleForTranscript } from "@/lib/transcript-editing";
+import {
+  analysisContextSource,
+  annotationsContextSource,
+  documentContextSource,
+  scorecardContextSource,
+} from "@/lib/chat-context";
 import { TranscriptHeader } from "@/components/transcript/transcript-header";
 import { TranscriptViewer } from "@/components/transcript/transcript-viewer";
+import { SpeakerMapModal } from "@/components/transcript/speaker-map-modal";
+import { GlossaryCorrectionsModal } from "@/components/transcript/glossary-corrections-modal";
+import { RedactionReviewModal } from "@/components/transcript/redaction-review-modal";
+import { RedactedAudioModal } from "@/components/audio/redacted-audio-modal";
+import type { TranscriptRevisionSubmission } from "@/components/transcript/transcript-editor";
 import { AnalysisViewer } from "@/components/analysis/analysis-viewer";
 import { AnalysisExportMenu } from "@/components/analysis/analysis-export-menu";
 import { EvaluationDisplay } from "@/components/analysis/evaluation-display";
 import { ChatInterface } from "@/components/chat/chat-interface";
 import { ScorecardRunner } from "@/components/rtass/scorecard-runner";
 import type { Transcript, TranscriptSegment } from "@/types/transcript";
+import type { ChatContextSource } from "@/types/chat";
 import type { Analysis } from "@/types/analysis";
 import type { AudioPlayerControls } from "@/types/audio";
 import type { Template } from "@/types/template";
 import type { RtassScorecard, RtassRubricTemplate } from "@/types/rtass";
 import { useAnnotations } from "@/hooks/use-annotations";
+import { useTranscriptIncident } from "@/hooks/use-incidents";
 import { useSupplementalDocsPersistent } from "@/hooks/use-supplemental-docs-persistent";
 import { SupplementalDocsModal } from "@/components/analysis/supplemental-docs-modal";
 import { AnnotationEditor } from "@/components/transcript/annotation-editor";
@@ -146,12 +168,14 @@ function formatAnalysisTabLabel(analysis: Analysis): string {
 export default function TranscriptDetailPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [isDeleting, setIsDeleting] = useState(false);
   const [deletingAnalysisId, setDeletingAnalysisId] = useState<string | null>(
     null,
   );
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [activeSegmentIndex, setActiveSegmentIndex] = useState<number>(-1);
+  const [activeWordIndex, setActiveWordIndex] = useState<number>(-1);
   const [isScrolled, setIsScrolled] = useState(false);
   const [activeTab, setActiveTab] = useState<string | null>("transcript");
   const [generatingEvidenceFor, setGeneratingEvidenceFor] = useState<
@@ -164,9 +188,15 @@ export default function TranscriptDetailPage() {
   const [annotationEditorOpen, setAnnotationEditorOpen] = useState(false);
   const [annotationEditorTimestamp, setAnnotationEditorTimestamp] = useState(0);
   const [docsModalOpen, setDocsModalOpen] = useState(false);
+  const [speakersModalOpen, setSpeakersModalOpen] = useState(false);
+  const [glossaryModalOpen, setGlossaryModalOpen] = useState(false);
+  const [redactionsModalOpen, setRedactionsModalOpen] = useState(false);
+  const [redactedAudioModalOpen, setRedactedAudioModalOpen] = useState(false);
   const hasSetInitialTab = useRef(false);
 
   const audioControlsRef = useRef<AudioPlayerControls | null>(null);
+  const [audioControlsReady, setAudioControlsReady] = useState(false);
+  const hasJumpedToLinkedTime = useRef(false);
   const tabsRef = useRef<HTMLDivElement>(null);
   const citationsAbortRef = useRef<AbortController | null>(null);
 
@@ -174,7 +204,7 @@ export default function TranscriptDetailPage() {
   const transcriptId = params.id as string;
 
   // Load transcript from IndexedDB with live updates
-  const transcript = useLiveQuery<Transcript | undefined>(async () => {
+  const storedTranscript = useLiveQuery<Transcript | undefined>(async () => {
     if (!transcriptId) return undefined;
     try {
       return await getTranscript(transcriptId);
@@ -184,6 +214,12 @@ export default function TranscriptDetailPage() {
     }
   }, [transcriptId]);
 
+  // Everything below reads speaker names from the reviewer's speaker map
+  const transcript = useMemo(
+    () => storedTranscript && applySpeakerMap(storedTranscript),
+    [storedTranscript],
+  );
+
   // Load analyses for this transcript with live updates (Reactive)
   const analyses =
     useLiveQuery<Analysis[]>(async () => {
@@ -228,15 +264,26 @@ export default function TranscriptDetailPage() {
 
   // Annotations management
   const {
+    annotations,
     annotationsBySegment,
     addAnnotation,
     isProcessing: annotationsProcessing,
   } = useAnnotations(transcriptId, transcript?.segments ?? []);
 
+  // Incident this transcript belongs to (if any)
+  const { incident } = useTranscriptIncident(transcriptId);
+
   // Supplemental documents
   const { documents: supplementalDocs } =
     useSupplementalDocsPersistent(transcriptId);
 
+  const visinetReport = useMemo(
+    () =>
+      supplementalDocs.find((d) => d.category === "visinet" && d.visinetData)
+        ?.visinetData,
+    [supplementalDocs],
+  );
+
   function normalizeRubricDates(
     rubric: RtassRubricTemplate,
   ): RtassRubricTemplate {
@@ -348,7 +395,7 @@ export default function TranscriptDetailPage() {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            transcript: { segments: transcript.segments },
+            transcript: { segments: transcriptForAiRequest(transcript).segments },
             templateSections: template.sections,
             sections: analysis.results.sections.map((s) => ({
               name: s.name,
@@ -456,31 +503,34 @@ export default function TranscriptDetailPage() {
         let content: string;
         let filename: string;
         let mimeType: string;
+        const source = getRedactExportsPreference()
+          ? applyRedactions(transcript)
+          : transcript;
 
         switch (format) {
           case "txt": {
-            content = exportTranscriptAsText(transcript);
+            content = exportTranscriptAsText(source);
             filename = `${transcript.filename.replace(/\.[^/.]+$/, "")}.txt`;
             mimeType = "text/plain";
             break;
           }
 
           case "srt": {
-            content = exportTranscriptAsSRT(transcript.segments);
+            content = exportTranscriptAsSRT(source.segments);
             filename = `${transcript.filename.replace(/\.[^/.]+$/, "")}.srt`;
             mimeType = "text/plain";
             break;
           }
 
           case "vtt": {
-            content = exportTranscriptAsVTT(transcript.segments);
+            content = exportTranscriptAsVTT(source.segments);
             filename = `${transcript.filename.replace(/\.[^/.]+$/, "")}.vtt`;
             mimeType = "text/vtt";
             break;
           }
 
           case "json": {
-            content = JSON.stringify(transcript, null, 2);
+            content = JSON.stringify(source, null, 2);
             filename = `${transcript.filename.replace(/\.[^/.]+$/, "")}.json`;
             mimeType = "application/json";
             break;
@@ -512,6 +562,32 @@ export default function TranscriptDetailPage() {
     [transcript],
   );
 
+  // Save corrected segments as a new transcript revision
+  const handleSaveRevision = useCallback(
+    async (submission: TranscriptRevisionSubmission) => {
+      try {
+        const revised = await reviseTranscript(transcriptId, submission);
+        notifications.show({
+          title: "Transcript Corrected",
+          message: `Saved revision ${revised.revision}. Analyses and scorecards from earlier revisions are marked as out of date.`,
+          color: "green",
+        });
+      } catch (error) {
+        console.error("Revision error:", error);
+        notifications.show({
+          title: "Save Failed",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to save transcript corrections",
+          color: "red",
+        });
+        throw error;
+      }
+    },
+    [transcriptId],
+  );
+
   // Handle delete functionality
   const handleDelete = useCallback(async () => {
     if (!transcript) return;
@@ -652,9 +728,58 @@ export default function TranscriptDetailPage() {
     [],
   );
 
+  // Material the chat can attach to questions: the latest analysis, the
+  // scorecards, trainer annotations and ready supplemental documents
+  const chatContextSources = useMemo(() => {
+    const sources: ChatContextSource[] = [];
+    const latestAnalysis = analyses[0];
+    if (latestAnalysis) {
+      sources.push(
+        analysisContextSource(
+          latestAnalysis,
+          templateById.get(latestAnalysis.templateId)?.name,
+        ),
+      );
+    }
+    for (const scorecard of scorecards ?? []) {
+      sources.push(
+        scorecardContextSource(
+          scorecard,
+          latestRubric?.id === scorecard.rubricTemplateId
+            ? latestRubric.name
+            : undefined,
+        ),
+      );
+    }
+    const notes = annotationsContextSource(annotations);
+    if (notes) sources.push(notes);
+    for (const document of supplementalDocs) {
+      if (document.status === "ready") {
+        sources.push(documentContextSource(document));
+      }
+    }
+    return sources;
+  }, [analyses, templateById, scorecards, latestRubric, annotations, supplementalDocs]);
+
+  // Analyses a chat answer can be pinned to, labelled like their tabs
+  const chatPinAnalyses = useMemo(
+    () =>
+      analyses.map((analysis) => ({
+        analysis,
+        label: formatAnalysisTabLabel(analysis),
+      })),
+    [analyses],
+  );
+
+  // Seek to a word clicked in the transcript
+  const handleWordClick = useCallback((seconds: number) => {
+    audioControlsRef.current?.seek(seconds);
+  }, []);
+
   // Handle controls ready from audio player
   const handleControlsReady = useCallback((controls: AudioPlayerControls) => {
     audioControlsRef.current = controls;
+    setAudioControlsReady(true);
   }, []);
 
   // Handle segment click from transcript viewer (to seek audio)
@@ -701,6 +826,16 @@ export default function TranscriptDetailPage() {
     [transcript],
   );
 
+  // Jump to the time in the link, e.g. "?t=221.5" from a library chat citation
+  const linkedTime = Number(searchParams.get("t") ?? NaN);
+  useEffect(() => {
+    if (hasJumpedToLinkedTime.current || !audioControlsReady || !Number.isFinite(linkedTime)) {
+      return;
+    }
+    hasJumpedToLinkedTime.current = true;
+    handleTimestampClick(linkedTime);
+  }, [audioControlsReady, linkedTime, handleTimestampClick]);
+
   // Handle adding annotation from segment list
   const handleAddAnnotationFromSegment = useCallback(
     (_segmentIndex: number, timestamp: number) => {
@@ -808,26 +943,51 @@ export default function TranscriptDetailPage() {
     );
   }
 
+  const pendingRedactions =
+    transcript.redactions?.filter((s) => s.status === "pending").length ?? 0;
+
   // Main content
   return (
     <div className="content-max-width">
       <Container size="xl" py="xl">
         <Stack gap="xl">
-          {/* Back Button */}
-          <Button
-            component={Link}
-            href="/transcripts"
-            variant="subtle"
-            leftSection={<ArrowLeft size={16} />}
-            styles={{ root: { minHeight: 44, width: "fit-content" } }}
-          >
-            Back to Incidents
-          </Button>
+          {/* Back Button + Incident Link */}
+          <Group justify="space-between" wrap="wrap">
+            <Button
+              component={Link}
+              href="/transcripts"
+              variant="subtle"
+              leftSection={<ArrowLeft size={16} />}
+              styles={{ root: { minHeight: 44, width: "fit-content" } }}
+            >
+              Back to Incidents
+            </Button>
+            {incident ? (
+              <Button
+                component={Link}
+                href={`/incidents/${incident.id}`}
+                variant="light"
+                leftSection={<FolderOpen size={16} />}
+                styles={{ root: { minHeight: 44 } }}
+              >
+                Incident: {incident.name}
+              </Button>
+            ) : (
+              <Button
+                component={Link}
+                href={`/incidents/new?transcripts=${encodeURIComponent(transcript.id)}`}
+                variant="default"
+                leftSection={<FolderPlus size={16} />}
+                styles={{ root: { minHeight: 44 } }}
+              >
+                Create Incident
+              </Button>
+            )}
+          </Group>
 
           {/* Transcript Header Components */}
           <TranscriptHeader
             transcript={transcript}
-            analyses={analyses}
             onExport={handleExport}
             onDelete={handleDelete}
             onAnalyze={handleAnalyze}
@@ -835,10 +995,65 @@ export default function TranscriptDetailPage() {
             documentCount={
               supplementalDocs.filter((d) => d.status === "ready").length
             }
+            onSpeakers={
+              transcript.segments.some((s) => s.speaker)
+                ? () => setSpeakersModalOpen(true)
+                : undefined
+            }
+            onRedactions={
+              transcript.segments.length > 0
+                ? () => setRedactionsModalOpen(true)
+                : undefined
+            }
             isDeleting={isDeleting}
             hasExistingAnalyses={analyses.length > 0}
           />
 
+          {transcript.glossaryCorrections &&
+            transcript.glossaryCorrections.length > 0 && (
+              <Alert
+                variant="light"
+                color="blue"
+                icon={<SpellCheck size={16} />}
+              >
+                <Group justify="space-between" gap="sm">
+                  <span>
+                    The glossary corrected {transcript.glossaryCorrections.length}{" "}
+                    misheard term
+                    {transcript.glossaryCorrections.length === 1 ? "" : "s"}{" "}
+                    after transcription.
+                  </span>
+                  <Button
+                    size="compact-sm"
+                    variant="light"
+                    onClick={() => setGlossaryModalOpen(true)}
+                  >
+                    Review
+                  </Button>
+                </Group>
+              </Alert>
+            )}
+
+          {pendingRedactions > 0 && (
+            <Alert variant="light" color="yellow" icon={<EyeOff size={16} />}>
+              <Group justify="space-between" gap="sm">
+                <span>
+                  {pendingRedactions} possible personal detail
+                  {pendingRedactions === 1 ? "" : "s"} marked for redaction
+                  {pendingRedactions === 1 ? " awaits" : " await"} review.
+                </span>
+                <Button
+                  size="compact-sm"
+                  variant="light"
+                  color="yellow"
+                  onClick={() => setRedactionsModalOpen(true)}
+                >
+                  Review
+                </Button>
+              </Group>
+            </Alert>
+          )}
+
           {/* Radio Playback Interface (if audio is available) */}
           {audioUrl && transcript.segments.length > 0 && (
             <Paper
@@ -857,6 +1072,7 @@ export default function TranscriptDetailPage() {
                 wordCount={transcript.text.split(/\s+/).filter(Boolean).length}
                 fileSize={transcript.metadata.fileSize}
                 onSegmentChange={handleSegmentChange}
+                onWordChange={setActiveWordIndex}
                 onControlsReady={handleControlsReady}
                 onReviewModeClick={() => setShowReviewMode(true)}
                 annotationsBySegment={annotationsBySegment}
@@ -942,12 +1158,16 @@ export default function TranscriptDetailPage() {
                     transcript={transcript}
                     defaultView="segments"
                     activeSegmentIndex={activeSegmentIndex}
+                    activeWordIndex={activeWordIndex}
                     onSegmentClick={
                       audioUrl ? handleTranscriptSegmentClick : undefined
                     }
+                    onWordClick={audioUrl ? handleWordClick : undefined}
                     annotationsBySegment={annotationsBySegment}
                     onAddAnnotation={handleAddAnnotationFromSegment}
                     showAnnotations
+                    editableTranscript={storedTranscript}
+                    onSaveRevision={handleSaveRevision}
                   />
                 </Paper>
               </Tabs.Panel>
@@ -964,6 +1184,21 @@ export default function TranscriptDetailPage() {
                       evaluationViewMode[analysis.id] || "final";
                     return (
                       <Stack gap="md">
+                        {isStaleForTranscript(analysis, transcript) && (
+                          <Alert
+                            variant="light"
+                            color="yellow"
+                            title="Transcript corrected since this analysis"
+                            icon={<AlertCircle size={16} />}
+                          >
+                            This analysis was generated from revision{" "}
+                            {analysis.transcriptRevision ?? 0} of the
+                            transcript; it is now at revision{" "}
+                            {transcript.revision}. Re-analyze to include the
+                            corrections.
+                          </Alert>
+                        )}
+
                         {/* Export Header */}
                         <Group justify="flex-end">
                           {template && (
@@ -1051,6 +1286,11 @@ export default function TranscriptDetailPage() {
                   <ChatInterface
                     transcriptId={transcript.id}
                     transcript={transcript}
+                    onTimestampClick={
+                      audioUrl ? handleTimestampClick : undefined
+                    }
+                    contextSources={chatContextSources}
+                    pinAnalyses={chatPinAnalyses}
                   />
                 </Paper>
               </Tabs.Panel>
@@ -1089,6 +1329,51 @@ export default function TranscriptDetailPage() {
         onClose={() => setDocsModalOpen(false)}
         transcriptId={transcriptId}
       />
+
+      {/* Speaker Map Modal */}
+      {storedTranscript && (
+        <SpeakerMapModal
+          opened={speakersModalOpen}
+          onClose={() => setSpeakersModalOpen(false)}
+          transcript={storedTranscript}
+          visinetReport={visinetReport}
+        />
+      )}
+
+      {/* Redaction Review Modal */}
+      {storedTranscript && (
+        <RedactionReviewModal
+          opened={redactionsModalOpen}
+          onClose={() => setRedactionsModalOpen(false)}
+          transcript={storedTranscript}
+          onRedactedAudio={
+            audioUrl
+              ? () => {
+                  setRedactionsModalOpen(false);
+                  setRedactedAudioModalOpen(true);
+                }
+              : undefined
+          }
+        />
+      )}
+
+      {/* Redacted Audio Modal */}
+      {storedTranscript && audioUrl && (
+        <RedactedAudioModal
+          opened={redactedAudioModalOpen}
+          onClose={() => setRedactedAudioModalOpen(false)}
+          transcript={storedTranscript}
+        />
+      )}
+
+      {/* Glossary Corrections Modal */}
+      {storedTranscript && (
+        <GlossaryCorrectionsModal
+          opened={glossaryModalOpen}
+          onClose={() => setGlossaryModalOpen(false)}
+          transcript={storedTranscript}
+        />
+      )}
     </div>
   );
 }
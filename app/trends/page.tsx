@@ -0,0 +1,81 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import {
+  Button,
+  Container,
+  Group,
+  Loader,
+  Paper,
+  Stack,
+  Text,
+  ThemeIcon,
+  Title,
+} from '@mantine/core';
+import { BarChart3, FolderOpen } from 'lucide-react';
+import { ScorecardTrends } from '@/components/rtass/scorecard-trends';
+import { useAllRtassRubrics } from '@/hooks/use-rtass-rubrics';
+import { useRtassTrendRecords } from '@/hooks/use-rtass-trends';
+
+/**
+ * Trends Page
+ *
+ * Aggregates RTASS scorecards across incidents so training officers can see
+ * how crews perform over time and which benchmarks are missed most often.
+ */
+export default function TrendsPage() {
+  const { records, isLoading } = useRtassTrendRecords();
+  const { rubrics } = useAllRtassRubrics();
+
+  const rubricNames = React.useMemo(
+    () => new Map(rubrics.map((r) => [r.id, r.name])),
+    [rubrics]
+  );
+
+  return (
+    <Container size="xl" py="xl">
+      <Stack gap="xl">
+        <Stack gap="xs">
+          <Title order={1}>Scorecard Trends</Title>
+          <Text c="dimmed" size="lg">
+            RTASS results across all scored incidents
+          </Text>
+        </Stack>
+
+        {isLoading ? (
+          <Group justify="center" py="xl">
+            <Loader />
+          </Group>
+        ) : records.length === 0 ? (
+          <Paper p="xl" radius="lg" withBorder>
+            <Stack align="center" gap="lg" py="xl">
+              <ThemeIcon size={80} radius="xl" color="gray" variant="light">
+                <BarChart3 size={40} />
+              </ThemeIcon>
+              <Stack align="center" gap="xs">
+                <Title order={2} ta="center">
+                  No scorecards yet
+                </Title>
+                <Text c="dimmed" ta="center" maw={500}>
+                  Score transcripts against an RTASS rubric to see pass rates
+                  and frequently missed benchmarks here.
+                </Text>
+              </Stack>
+              <Button
+                component={Link}
+                href="/incidents"
+                leftSection={<FolderOpen size={18} />}
+                variant="light"
+              >
+                Go to Incidents
+              </Button>
+            </Stack>
+          </Paper>
+        ) : (
+          <ScorecardTrends records={records} rubricNames={rubricNames} />
+        )}
+      </Stack>
+    </Container>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Container,
+  Group,
+  Loader,
+  Paper,
+  Stack,
+  Text,
+  ThemeIcon,
+  Title,
+} from '@mantine/core';
+import { Users } from 'lucide-react';
+import { UnitPerformance } from '@/components/rtass/unit-performance';
+import { useUnitActivity } from '@/hooks/use-unit-performance';
+
+/**
+ * Units Page
+ *
+ * Per-unit breakdown of scorecard outcomes and radio reports across
+ * incidents, so company officers can review their own crew's history.
+ */
+export default function UnitsPage() {
+  const { activities, isLoading } = useUnitActivity();
+
+  return (
+    <Container size="xl" py="xl">
+      <Stack gap="xl">
+        <Stack gap="xs">
+          <Title order={1}>Unit Performance</Title>
+          <Text c="dimmed" size="lg">
+            Scorecard outcomes and radio reports attributed to each unit
+          </Text>
+        </Stack>
+
+        {isLoading ? (
+          <Group justify="center" py="xl">
+            <Loader />
+          </Group>
+        ) : activities.length === 0 ? (
+          <Paper p="xl" radius="lg" withBorder>
+            <Stack align="center" gap="lg" py="xl">
+              <ThemeIcon size={80} radius="xl" color="gray" variant="light">
+                <Users size={40} />
+              </ThemeIcon>
+              <Stack align="center" gap="xs">
+                <Title order={2} ta="center">
+                  No units identified yet
+                </Title>
+                <Text c="dimmed" ta="center" maw={520}>
+                  Units appear here once scorecard evidence has a speaker or
+                  an analysis attributes benchmarks, radio reports or safety
+                  events to a unit.
+                </Text>
+              </Stack>
+            </Stack>
+          </Paper>
+        ) : (
+          <UnitPerformance activities={activities} />
+        )}
+      </Stack>
+    </Container>
+  );
+}
@@ -47,10 +47,17 @@ import {
   getRecording,
   updateRecordingStatus,
   saveSupplementalDocumentsBatch,
+  getGlossaryTermsForDepartment,
 } from "@/lib/db";
+import {
+  applyGlossaryCorrections,
+  buildTranscriptionPrompt,
+} from "@/lib/glossary";
 import { loadAndStoreAudioFile } from "@/lib/audio-storage";
 import { computeTranscriptFingerprint } from "@/lib/transcript-fingerprint";
-import type { Transcript } from "@/types/transcript";
+import { TranscriptionBackendSummary } from "@/components/upload/transcription-backend-summary";
+import type { ConfigStatusResponse } from "@/app/api/config/status/route";
+import type { Transcript, TranscriptionProviderStatus } from "@/types/transcript";
 import type { PersistedSupplementalDocument } from "@/types/supplemental";
 
 // Code-split heavy upload components for better performance
@@ -177,7 +184,33 @@ export default function UploadPage() {
   const [department, setDepartment] = React.useState<string>("");
   const [isUploading, setIsUploading] = React.useState(false);
 
-  const enableSpeakerDetection = model === "gpt-4o-transcribe-diarize";
+  // Transcription backend from /api/config/status. A local server offers its
+  // own models and labels speakers only if it diarizes.
+  const [transcriptionBackend, setTranscriptionBackend] =
+    React.useState<TranscriptionProviderStatus | null>(null);
+  const isLocalBackend = transcriptionBackend?.provider === "local";
+  const languageDetection =
+    transcriptionBackend?.capabilities.languageDetection ?? true;
+
+  const enableSpeakerDetection = isLocalBackend
+    ? transcriptionBackend.capabilities.diarization
+    : model === "gpt-4o-transcribe-diarize";
+
+  const languageOptions = React.useMemo(
+    () =>
+      languageDetection
+        ? [...SUPPORTED_LANGUAGES]
+        : SUPPORTED_LANGUAGES.filter((lang) => lang.value !== "auto"),
+    [languageDetection],
+  );
+
+  const modelOptions = React.useMemo(
+    () =>
+      isLocalBackend
+        ? transcriptionBackend.models.map((m) => ({ value: m, label: m }))
+        : [...TRANSCRIPTION_MODELS],
+    [isLocalBackend, transcriptionBackend],
+  );
 
   // Source recording ID (when coming from recordings page)
   const [sourceRecordingId, setSourceRecordingId] = React.useState<
@@ -203,6 +236,35 @@ export default function UploadPage() {
     setPastedText: setSupplementalPastedText,
   } = useSupplementalUpload();
 
+  /**
+   * Load the transcription backend and adapt the settings to it
+   */
+  React.useEffect(() => {
+    let cancelled = false;
+    fetch("/api/config/status")
+      .then((response) => response.json())
+      .then((payload) => {
+        const status: ConfigStatusResponse | undefined =
+          payload?.data ?? payload;
+        const backend = status?.transcription;
+        if (cancelled || !backend) return;
+
+        setTranscriptionBackend(backend);
+        if (backend.provider === "local") {
+          setModel(backend.defaultModel);
+        }
+        if (!backend.capabilities.languageDetection) {
+          setLanguage((current) => (current === "auto" ? "en" : current));
+        }
+      })
+      .catch((statusError) => {
+        console.error("Failed to load transcription backend:", statusError);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   /**
    * Check if coming from recordings page with a recording to transcribe
    */
@@ -344,27 +406,50 @@ export default function UploadPage() {
         duration: audioMetadata?.duration,
       });
 
+      // Department glossary: prompt for the model and post-correction
+      const glossaryTerms = await getGlossaryTermsForDepartment(
+        department || undefined,
+      ).catch((glossaryError) => {
+        console.error("Failed to load glossary:", glossaryError);
+        return [];
+      });
+
       // Upload file and start transcription
       const result = await uploadFile({
         language: language !== "auto" ? language : undefined,
         model,
         enableSpeakerDetection,
+        prompt: buildTranscriptionPrompt(glossaryTerms, department || undefined),
       });
 
       if (!result.success || !result.transcript) {
         throw new Error(result.error || "Upload failed");
       }
 
+      const { transcript: corrected, corrections } = applyGlossaryCorrections(
+        result.transcript,
+        glossaryTerms,
+      );
+
       // Parse transcript response
       const transcript: Transcript = {
-        ...result.transcript,
+        ...corrected,
         // Ensure createdAt is a Date object
         createdAt: new Date(result.transcript.createdAt),
         // Add department if selected
         department: department || undefined,
         fingerprint,
+        glossaryCorrections: corrections.length > 0 ? corrections : undefined,
       };
 
+      if (corrections.length > 0) {
+        notifications.show({
+          title: "Glossary corrections applied",
+          message: `${corrections.length} term${corrections.length === 1 ? "" : "s"} corrected. Review them on the transcript page.`,
+          color: "blue",
+        });
+      }
+
       // Store audio file locally (IndexedDB)
       try {
         // Use the original file for storage
@@ -677,33 +762,42 @@ export default function UploadPage() {
                   disabled={isUploading}
                 />
 
+                {transcriptionBackend && (
+                  <>
+                    <Divider />
+                    <TranscriptionBackendSummary status={transcriptionBackend} />
+                  </>
+                )}
+
                 <Divider />
 
                 {/* Speaker Detection Toggle */}
-                <Box>
-                  <Switch
-                    label="Enable Speaker Detection"
-                    description={
-                      isUploading
-                        ? `Speaker detection is ${
-                            enableSpeakerDetection ? "enabled" : "disabled"
-                          }`
-                        : "Uses the diarization model to label speakers (beta)"
-                    }
-                    checked={enableSpeakerDetection}
-                    onChange={(event) =>
-                      setModel(
-                        event.currentTarget.checked
-                          ? "gpt-4o-transcribe-diarize"
-                          : "gpt-4o-transcribe",
-                      )
-                    }
-                    disabled={isUploading}
-                    size="md"
-                  />
-                </Box>
-
-                <Divider />
+                {!isLocalBackend && (
+                  <Box>
+                    <Switch
+                      label="Enable Speaker Detection"
+                      description={
+                        isUploading
+                          ? `Speaker detection is ${
+                              enableSpeakerDetection ? "enabled" : "disabled"
+                            }`
+                          : "Uses the diarization model to label speakers (beta)"
+                      }
+                      checked={enableSpeakerDetection}
+                      onChange={(event) =>
+                        setModel(
+                          event.currentTarget.checked
+                            ? "gpt-4o-transcribe-diarize"
+                            : "gpt-4o-transcribe",
+                        )
+                      }
+                      disabled={isUploading}
+                      size="md"
+                    />
+                  </Box>
+                )}
+
+                {!isLocalBackend && <Divider />}
 
                 {/* Language Selection */}
                 <Box>
@@ -716,9 +810,11 @@ export default function UploadPage() {
                               (lang) => lang.value === language,
                             )?.label
                           }`
-                        : 'Leave on "Auto-detect" to let AI determine the language'
+                        : languageDetection
+                          ? 'Leave on "Auto-detect" to let AI determine the language'
+                          : "The transcription server cannot detect the language; choose the one spoken"
                     }
-                    data={SUPPORTED_LANGUAGES}
+                    data={languageOptions}
                     value={language}
                     onChange={(value) => value && setLanguage(value)}
                     disabled={isUploading}
@@ -735,12 +831,13 @@ export default function UploadPage() {
                     description={
                       isUploading
                         ? `Using: ${
-                            TRANSCRIPTION_MODELS.find((m) => m.value === model)
-                              ?.label
+                            modelOptions.find((m) => m.value === model)?.label
                           }`
-                        : "Select transcription model - GPT-4o provides high-quality results with timestamps"
+                        : isLocalBackend
+                          ? "Models available on the local transcription server"
+                          : "Select transcription model - GPT-4o provides high-quality results with timestamps"
                     }
-                    data={TRANSCRIPTION_MODELS}
+                    data={modelOptions}
                     value={model}
                     onChange={(value) => value && setModel(value)}
                     disabled={isUploading}
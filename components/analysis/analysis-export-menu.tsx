@@ -35,6 +35,8 @@ import {
   type ExportFormat,
 } from "@/lib/export/analysis-exporter";
 import { exportAndDownloadAnalysis } from "@/lib/package/export";
+import { applyRedactions, redactValue } from "@/lib/redaction";
+import { getRedactExportsPreference } from "@/lib/storage";
 
 /**
  * Props for AnalysisExportMenu
@@ -101,7 +103,15 @@ export function AnalysisExportMenu({
     setIsExportingPackage(true);
 
     try {
-      await exportAndDownloadAnalysis(analysis, transcript, template);
+      if (getRedactExportsPreference()) {
+        await exportAndDownloadAnalysis(
+          redactValue(analysis, transcript.redactions ?? []),
+          applyRedactions(transcript),
+          template
+        );
+      } else {
+        await exportAndDownloadAnalysis(analysis, transcript, template);
+      }
       notifications.show({
         title: "Package Created",
         message: "Analysis and transcript exported as shareable package.",
@@ -135,7 +145,8 @@ export function AnalysisExportMenu({
           analysis,
           transcript,
           template,
-          format
+          format,
+          { redact: getRedactExportsPreference() }
         );
 
         downloadExport(result);
@@ -38,6 +38,7 @@ import {
   Title,
   Table,
   List,
+  Loader,
 } from "@mantine/core";
 import { modals } from "@mantine/modals";
 import { SectionDisplay } from "./section-display";
@@ -166,6 +167,12 @@ export interface AnalysisViewerProps {
 
   /** Whether to show draft results instead of final results */
   showDraftResults?: boolean;
+
+  /**
+   * Sections still being analyzed, shown as placeholders after the completed
+   * ones while results stream in
+   */
+  pendingSections?: string[];
 }
 
 /**
@@ -183,6 +190,7 @@ export function AnalysisViewer({
   onDelete,
   isDeleting = false,
   showDraftResults = false,
+  pendingSections = [],
 }: AnalysisViewerProps) {
   const [copied, setCopied] = useState(false);
 
@@ -275,6 +283,11 @@ export function AnalysisViewer({
                   <Badge variant="light" size="sm" radius="sm">
                     {totalSections} {totalSections === 1 ? "section" : "sections"}
                   </Badge>
+                  {pendingSections.length > 0 && (
+                    <Badge variant="light" size="sm" radius="sm" color="yellow">
+                      {pendingSections.length} in progress
+                    </Badge>
+                  )}
                   {analysis.analysisStrategy === "advanced" && (
                     <Tooltip
                       label={
@@ -505,6 +518,15 @@ export function AnalysisViewer({
                 showEvidence={analysis.analysisStrategy === 'advanced'}
               />
             ))}
+            {pendingSections.map((name) => (
+              <Paper key={`pending-${name}`} p="lg" radius="md" withBorder>
+                <Group gap="sm">
+                  <Loader size="xs" />
+                  <Text fw={500}>{name}</Text>
+                  <Text size="sm" c="dimmed">Analyzing...</Text>
+                </Group>
+              </Paper>
+            ))}
           </Stack>
         </Tabs.Panel>
 
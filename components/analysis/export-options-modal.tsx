@@ -39,6 +39,7 @@ import {
   type ExportOptions,
   DEFAULT_EXPORT_OPTIONS,
 } from "@/lib/export/analysis-exporter";
+import { getRedactExportsPreference } from "@/lib/storage";
 
 /**
  * Props for ExportOptionsModal
@@ -190,7 +191,7 @@ export function ExportOptionsModal({
         transcript,
         template,
         format,
-        options
+        { ...options, redact: getRedactExportsPreference() }
       );
 
       // Download
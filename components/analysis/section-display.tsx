@@ -123,6 +123,11 @@ export function SectionDisplay({
               <Title order={3} size="lg">
                 {section.name}
               </Title>
+              {section.pinnedFrom && (
+                <Badge variant="light" size="sm" color="grape">
+                  From chat
+                </Badge>
+              )}
               {hasEvidence && showEvidence && (
                 <Badge variant="light" size="sm">
                   {evidenceCount} {evidenceCount === 1 ? 'citation' : 'citations'}
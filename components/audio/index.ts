@@ -6,3 +6,4 @@
 
 export { AudioPlayer } from './audio-player';
 export { WaveformPlayer } from './waveform-player';
+export { RedactedAudioModal } from './redacted-audio-modal';
@@ -5,7 +5,8 @@
  * fireteam training reviews. Features:
  * - Large incident clock display
  * - Simplified, touch-friendly audio controls
- * - Auto-scrolling transcript with prominent highlighting
+ * - Auto-scrolling transcript with prominent highlighting, word by word when
+ *   the transcript has word timestamps (click a word to seek to it)
  * - Scorecard benchmark overlays with timing indicators
  *
  * Design: Industrial/Command Center aesthetic with fire department colors
@@ -47,8 +48,10 @@ import { useAudioSync } from "@/hooks/use-audio-sync";
 import {
   mapEvidenceToSegments,
   getEvidenceForSegment,
+  locateEvidenceQuote,
   type EvidenceMarker,
 } from "@/lib/scorecard-evidence-utils";
+import { alignWordsToText } from "@/lib/word-timing";
 import type { TranscriptSegment } from "@/types/transcript";
 import type { TranscriptAnnotation } from "@/types/annotation";
 import type { PlaybackSpeed } from "@/types/audio";
@@ -222,6 +225,58 @@ function getBenchmarkIcon(status: TimingBenchmark["status"]) {
   }
 }
 
+/**
+ * Segment text rendered word by word from its word timestamps. The word
+ * being played is highlighted, evidence quotes are underlined in their
+ * verdict color, and clicking a word seeks to it.
+ */
+function ReviewSegmentWords({
+  segment,
+  activeWordIndex,
+  quotes,
+  onWordClick,
+}: {
+  segment: TranscriptSegment;
+  activeWordIndex: number;
+  quotes: Array<{ firstWord: number; lastWord: number; color: string }>;
+  onWordClick: (seconds: number) => void;
+}) {
+  const tokens = useMemo(
+    () => alignWordsToText(segment.text, segment.words ?? []),
+    [segment.text, segment.words],
+  );
+
+  return (
+    <>
+      {tokens.map((token, i) => {
+        if (token.start === undefined) return token.text;
+        const seconds = token.start;
+        const first = token.firstWord ?? 0;
+        const last = token.lastWord ?? first;
+        const quote = quotes.find((q) => first <= q.lastWord && last >= q.firstWord);
+        const isCurrent = activeWordIndex >= first && activeWordIndex <= last;
+        return (
+          <span
+            key={i}
+            className={`segment-word ${isCurrent ? "current" : ""}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onWordClick(seconds);
+            }}
+            style={
+              quote
+                ? { textDecoration: `underline ${quote.color} 2px`, textUnderlineOffset: 6 }
+                : undefined
+            }
+          >
+            {token.text}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
 /**
  * Interactive Review Mode Component
  *
@@ -285,6 +340,7 @@ export function InteractiveReviewMode({
     volume,
     muted,
     activeSegmentIndex,
+    activeWordIndex,
   } = syncState;
 
   const isPlaying = state === "playing";
@@ -297,14 +353,16 @@ export function InteractiveReviewMode({
     [rubric, selectedScorecard, currentTime],
   );
 
-  // Handler for criterion clicks - jump to evidence timestamp
+  // Handler for criterion clicks - jump to evidence timestamp, or to the
+  // quoted words when they can be found in the word timestamps
   const handleCriterionClick = useCallback(
     (criterion: RtassScorecardCriterion, evidenceIndex?: number) => {
       if (criterion.evidence && criterion.evidence.length > 0) {
         const idx = evidenceIndex ?? 0;
         const evidence = criterion.evidence[idx];
         if (evidence?.start !== undefined) {
-          controls.seek(evidence.start);
+          const located = locateEvidenceQuote(evidence.quote, evidence.start, segments);
+          controls.seek(located?.quoteTiming?.start ?? evidence.start);
         }
       } else if (
         criterion.observedEvents &&
@@ -314,7 +372,7 @@ export function InteractiveReviewMode({
         controls.seek(criterion.observedEvents[0].at);
       }
     },
-    [controls],
+    [controls, segments],
   );
 
   // Get verdict color for evidence markers
@@ -600,6 +658,20 @@ export function InteractiveReviewMode({
           border-radius: 4px;
         }
 
+        .segment-word {
+          border-radius: 4px;
+          transition: background-color 0.1s ease;
+        }
+
+        .segment-word:hover {
+          background: var(--review-surface-elevated);
+        }
+
+        .segment-word.current {
+          background: var(--review-amber-glow);
+          color: var(--review-amber);
+        }
+
         .segment-text {
           font-size: clamp(22px, 3vw, 27px);
           line-height: 1.6;
@@ -1057,7 +1129,30 @@ export function InteractiveReviewMode({
                       </div>
                     )}
                   </div>
-                  <div className="segment-text">{segment.text}</div>
+                  <div className="segment-text">
+                    {segment.words && segment.words.length > 0 ? (
+                      <ReviewSegmentWords
+                        segment={segment}
+                        activeWordIndex={
+                          index === activeSegmentIndex ? activeWordIndex : -1
+                        }
+                        quotes={segmentEvidence.flatMap((marker) =>
+                          marker.quoteTiming
+                            ? [
+                                {
+                                  firstWord: marker.quoteTiming.firstWord,
+                                  lastWord: marker.quoteTiming.lastWord,
+                                  color: getVerdictColor(marker.verdict),
+                                },
+                              ]
+                            : [],
+                        )}
+                        onWordClick={controls.seek}
+                      />
+                    ) : (
+                      segment.text
+                    )}
+                  </div>
                   {/* Annotation text display */}
                   {hasAnnotations && (
                     <div
@@ -7,6 +7,7 @@
  * - Virtualized transcript mini-view for performance
  * - Speed buttons for quick access
  * - Inline metadata display
+ * - Merged multi-channel (incident) transcripts with channel badges
  */
 
 "use client";
@@ -49,6 +50,7 @@ import {
   Tooltip,
   SegmentedControl,
   Button,
+  Badge,
 } from "@mantine/core";
 import { WaveformPlayer } from "./waveform-player";
 import { AudioControlsModal } from "./audio-controls-modal";
@@ -58,8 +60,10 @@ import {
   formatDuration,
   formatFileSize,
 } from "@/lib/transcript-utils";
+import { shiftWords } from "@/lib/word-timing";
 import type { TranscriptSegment } from "@/types/transcript";
 import type { TranscriptAnnotation } from "@/types/annotation";
+import type { SegmentChannelBadge } from "@/types/incident";
 import type {
   PlaybackSpeed,
   PlaybackState,
@@ -93,12 +97,14 @@ function VirtualizedTranscriptView({
   isPlaying,
   onSegmentClick,
   annotationsBySegment,
+  channelBadges,
 }: {
   segments: TranscriptSegment[];
   currentSegmentIndex: number;
   isPlaying: boolean;
   onSegmentClick: (index: number) => void;
   annotationsBySegment?: Map<number, TranscriptAnnotation[]>;
+  channelBadges?: Map<number, SegmentChannelBadge>;
 }) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [scrollTop, setScrollTop] = useState(0);
@@ -221,6 +227,7 @@ function VirtualizedTranscriptView({
               const isActive = idx === currentSegmentIndex;
               const annotations = annotationsBySegment?.get(idx) ?? [];
               const hasAnnotations = annotations.length > 0;
+              const channel = channelBadges?.get(segment.index);
               return (
                 <Box
                   key={segment.index}
@@ -255,6 +262,16 @@ function VirtualizedTranscriptView({
                   >
                     [{formatSegmentTimestamp(segment.start)}]
                   </Text>
+                  {channel && (
+                    <Badge
+                      size="xs"
+                      variant="light"
+                      color={channel.color}
+                      style={{ flexShrink: 0 }}
+                    >
+                      {channel.label}
+                    </Badge>
+                  )}
                   {hasAnnotations && (
                     <Tooltip label={annotations[0].text} withArrow>
                       <Box style={{ flexShrink: 0 }}>
@@ -313,6 +330,9 @@ interface RadioPlaybackInterfaceProps {
   /** Callback when active segment changes */
   onSegmentChange?: (segment: TranscriptSegment | null, index: number) => void;
 
+  /** Callback when the word being played changes (index into the segment's words) */
+  onWordChange?: (wordIndex: number) => void;
+
   /** Callback to receive audio controls */
   onControlsReady?: (controls: AudioPlayerControls) => void;
 
@@ -327,6 +347,26 @@ interface RadioPlaybackInterfaceProps {
 
   /** Map of segment index to annotations */
   annotationsBySegment?: Map<number, TranscriptAnnotation[]>;
+
+  /** Map of segment index to its channel (merged incident timelines) */
+  channelBadges?: Map<number, SegmentChannelBadge>;
+
+  /**
+   * Timeline position of this recording's start, in seconds.
+   * Set when `segments` are on a merged incident timeline rather than this
+   * recording's own clock; playback time + offset = segment time.
+   */
+  timeOffset?: number;
+
+  /**
+   * Called instead of seeking when a segment is selected (click or
+   * previous/next transmission). Merged timelines use this to switch to the
+   * recording the segment belongs to.
+   */
+  onSegmentSelect?: (index: number) => void;
+
+  /** Position (seconds, recording clock) to seek to once the audio loads */
+  initialTime?: number;
 }
 
 /**
@@ -353,11 +393,16 @@ export function RadioPlaybackInterface({
   wordCount = 0,
   fileSize = 0,
   onSegmentChange,
+  onWordChange,
   onControlsReady,
   config,
   className = "",
   onReviewModeClick,
   annotationsBySegment,
+  channelBadges,
+  timeOffset = 0,
+  onSegmentSelect,
+  initialTime,
 }: RadioPlaybackInterfaceProps) {
   // Track retry state (used only for the error recovery UI)
   const [isRetrying, setIsRetrying] = useState(false);
@@ -373,11 +418,26 @@ export function RadioPlaybackInterface({
     setIsRetrying(false);
   }, []);
 
+  // Segments on this recording's own clock (identical unless merged)
+  const syncSegments = useMemo(
+    () =>
+      timeOffset
+        ? segments.map((s) => ({
+            ...s,
+            start: s.start - timeOffset,
+            end: s.end - timeOffset,
+            words: shiftWords(s.words, -timeOffset),
+          }))
+        : segments,
+    [segments, timeOffset],
+  );
+
   // Use audio sync hook with enhancement support
   const { syncState, controls, registerWaveSurfer, enhancement } = useAudioSync(
     {
-      segments,
+      segments: syncSegments,
       onSegmentChange,
+      onWordChange,
       onPlaybackStateChange: handlePlaybackStateChange,
     },
   );
@@ -408,14 +468,24 @@ export function RadioPlaybackInterface({
 
   // Find current segment index based on playback time
   const currentSegmentIndex = useMemo(() => {
-    if (!segments.length) return -1;
-    for (let i = segments.length - 1; i >= 0; i--) {
-      if (segments[i].start <= currentTime) {
+    if (!syncSegments.length) return -1;
+    for (let i = syncSegments.length - 1; i >= 0; i--) {
+      if (syncSegments[i].start <= currentTime) {
         return i;
       }
     }
     return 0;
-  }, [segments, currentTime]);
+  }, [syncSegments, currentTime]);
+
+  // Seek to the requested start position once the audio is ready
+  // (seeking before WaveSurfer knows the duration is a no-op)
+  const initialSeekDoneRef = useRef(false);
+  useEffect(() => {
+    if (initialTime === undefined || initialSeekDoneRef.current) return;
+    if (state !== "ready") return;
+    initialSeekDoneRef.current = true;
+    controls.seek(initialTime);
+  }, [initialTime, state, controls]);
 
   // Expose controls to parent component
   useEffect(() => {
@@ -469,50 +539,61 @@ export function RadioPlaybackInterface({
   // Handle segment click in mini transcript
   const handleSegmentClick = useCallback(
     (index: number) => {
-      const segment = segments[index];
+      if (onSegmentSelect) {
+        onSegmentSelect(index);
+        return;
+      }
+      const segment = syncSegments[index];
       if (segment) {
         controls.seek(segment.start);
         controls.jumpToSegment(index);
       }
     },
-    [segments, controls],
+    [syncSegments, controls, onSegmentSelect],
   );
 
   // Skip to next transmission (1 second before next segment starts)
   const skipToNextTransmission = useCallback(() => {
-    if (!segments.length) return;
+    if (!syncSegments.length) return;
 
     // Find the next segment that starts after current time
-    const nextSegment = segments.find((s) => s.start > currentTime + 0.5);
-    if (nextSegment) {
+    const nextIndex = syncSegments.findIndex(
+      (s) => s.start > currentTime + 0.5,
+    );
+    const nextSegment = syncSegments[nextIndex];
+    if (nextSegment && onSegmentSelect) {
+      onSegmentSelect(nextIndex);
+    } else if (nextSegment) {
       // Jump to 1 second before the transmission, or to the start if < 1s
       const targetTime = Math.max(0, nextSegment.start - 1);
       controls.seek(targetTime);
     }
-  }, [segments, currentTime, controls]);
+  }, [syncSegments, currentTime, controls, onSegmentSelect]);
 
   // Skip to previous transmission (1 second before that segment)
   const skipToPrevTransmission = useCallback(() => {
-    if (!segments.length) return;
+    if (!syncSegments.length) return;
 
     // Find the segment we're currently in or just passed
     let targetIndex = -1;
-    for (let i = segments.length - 1; i >= 0; i--) {
-      if (segments[i].start < currentTime - 1) {
+    for (let i = syncSegments.length - 1; i >= 0; i--) {
+      if (syncSegments[i].start < currentTime - 1) {
         // Go to the one before this if we're past the start
         targetIndex = Math.max(0, i - 1);
         break;
       }
     }
 
-    if (targetIndex >= 0) {
-      const targetTime = Math.max(0, segments[targetIndex].start - 1);
+    if (onSegmentSelect) {
+      onSegmentSelect(Math.max(0, targetIndex));
+    } else if (targetIndex >= 0) {
+      const targetTime = Math.max(0, syncSegments[targetIndex].start - 1);
       controls.seek(targetTime);
-    } else if (segments[0]) {
+    } else if (syncSegments[0]) {
       // Go to first segment
-      controls.seek(Math.max(0, segments[0].start - 1));
+      controls.seek(Math.max(0, syncSegments[0].start - 1));
     }
-  }, [segments, currentTime, controls]);
+  }, [syncSegments, currentTime, controls, onSegmentSelect]);
 
   // Waveform config with larger height
   const waveformConfig = useMemo(
@@ -772,6 +853,7 @@ export function RadioPlaybackInterface({
           isPlaying={isPlaying}
           onSegmentClick={handleSegmentClick}
           annotationsBySegment={annotationsBySegment}
+          channelBadges={channelBadges}
         />
       )}
 
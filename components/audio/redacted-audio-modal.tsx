@@ -0,0 +1,265 @@
+/**
+ * Redacted Audio Modal
+ *
+ * Makes a copy of a transcript's recording with the redacted personal
+ * details silenced or toned over, and previews it with the removed
+ * stretches highlighted on the waveform. The copy is stored alongside the
+ * original and used in redacted incident packages.
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type WaveSurfer from 'wavesurfer.js';
+import {
+  Alert,
+  Button,
+  Group,
+  Modal,
+  Progress,
+  SegmentedControl,
+  Stack,
+  Text,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { AlertTriangle, AudioLines, Download, Pause, Play, Trash2 } from 'lucide-react';
+import { WaveformPlayer } from './waveform-player';
+import {
+  createRedactedAudioFile,
+  deleteRedactedAudioFile,
+  getRedactedAudioFile,
+} from '@/lib/audio-storage';
+import { triggerDownload } from '@/lib/export/download-helper';
+import { isRedactedAudioCurrent, redactionTimeRanges } from '@/lib/redaction';
+import type { RedactedAudioStorageResult } from '@/types/audio';
+import type { AudioRedactionMode, AudioRedactionPrecision } from '@/types/redaction';
+import type { Transcript } from '@/types/transcript';
+
+interface RedactedAudioModalProps {
+  /** Whether the modal is open */
+  opened: boolean;
+  /** Callback to close the modal */
+  onClose: () => void;
+  /** The stored transcript */
+  transcript: Transcript;
+}
+
+const MODE_OPTIONS = [
+  { label: 'Tone', value: 'tone' },
+  { label: 'Silence', value: 'silence' },
+];
+
+// Stable reference: a new config object would reload the waveform
+const WAVEFORM_CONFIG = { waveformHeight: 96 };
+
+const PRECISION_OPTIONS = [
+  { label: 'Whole segment', value: 'segment' },
+  { label: 'Marked words', value: 'span' },
+];
+
+function RedactedAudioForm({ transcript }: { transcript: Transcript }) {
+  const [stored, setStored] = useState<RedactedAudioStorageResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [mode, setMode] = useState<AudioRedactionMode>('tone');
+  const [precision, setPrecision] = useState<AudioRedactionPrecision>('segment');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const wavesurferRef = useRef<WaveSurfer | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getRedactedAudioFile(transcript.id)
+      .then((result) => {
+        if (cancelled) {
+          if (result) URL.revokeObjectURL(result.audioUrl);
+          return;
+        }
+        setStored(result);
+        if (result) {
+          setMode(result.info.mode);
+          setPrecision(result.info.precision);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load redacted audio:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [transcript.id]);
+
+  // Free the previous copy's ObjectURL when it is replaced or on unmount
+  useEffect(() => {
+    if (!stored) return;
+    return () => URL.revokeObjectURL(stored.audioUrl);
+  }, [stored]);
+
+  const ranges = useMemo(
+    () => redactionTimeRanges(transcript, precision),
+    [transcript, precision]
+  );
+  const removedSeconds = ranges.reduce((total, r) => total + r.end - r.start, 0);
+  const isCurrent = stored !== null && isRedactedAudioCurrent(transcript, stored.info);
+
+  const handleWaveformReady = useCallback((wavesurfer: WaveSurfer) => {
+    wavesurferRef.current = wavesurfer;
+    setIsPlaying(false);
+    wavesurfer.on('play', () => setIsPlaying(true));
+    wavesurfer.on('pause', () => setIsPlaying(false));
+    wavesurfer.on('finish', () => setIsPlaying(false));
+  }, []);
+
+  const handleGenerate = async () => {
+    setProgress(0);
+    try {
+      const result = await createRedactedAudioFile(
+        transcript.id,
+        ranges,
+        { mode, precision },
+        setProgress
+      );
+      setStored(result);
+      notifications.show({
+        title: 'Redacted Audio Ready',
+        message: 'Redacted packages will include this copy instead of the original recording.',
+        color: 'green',
+      });
+    } catch (error) {
+      notifications.show({
+        title: 'Redaction Failed',
+        message: error instanceof Error ? error.message : 'Failed to redact audio',
+        color: 'red',
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!stored) return;
+    const base = transcript.filename.replace(/\.[^.]+$/, '');
+    triggerDownload(stored.blob, `${base}_redacted.mp3`);
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteRedactedAudioFile(transcript.id);
+      setStored(null);
+    } catch (error) {
+      notifications.show({
+        title: 'Delete Failed',
+        message: error instanceof Error ? error.message : 'Failed to delete redacted audio',
+        color: 'red',
+      });
+    }
+  };
+
+  return (
+    <Stack gap="md">
+      <Text size="sm" c="dimmed">
+        Approved and pending redactions are removed from a copy of the recording. The
+        original recording is kept for in-department review.
+      </Text>
+
+      <Group gap="xl" align="flex-end">
+        <Stack gap={4}>
+          <Text size="sm" fw={500}>Replace with</Text>
+          <SegmentedControl
+            value={mode}
+            onChange={(value) => setMode(value as AudioRedactionMode)}
+            data={MODE_OPTIONS}
+            size="xs"
+          />
+        </Stack>
+        <Stack gap={4}>
+          <Text size="sm" fw={500}>Remove</Text>
+          <SegmentedControl
+            value={precision}
+            onChange={(value) => setPrecision(value as AudioRedactionPrecision)}
+            data={PRECISION_OPTIONS}
+            size="xs"
+          />
+        </Stack>
+      </Group>
+
+      {precision === 'span' && (
+        <Text size="xs" c="dimmed">
+          Words are placed from their timestamps when the transcript has them, and
+          otherwise estimated from the segment timing and padded. Listen to the preview
+          before sharing; use whole segments if any detail is still audible.
+        </Text>
+      )}
+
+      <Text size="sm">
+        {ranges.length === 0
+          ? 'Nothing is marked for redaction.'
+          : `${ranges.length} stretch${ranges.length === 1 ? '' : 'es'}, ${removedSeconds.toFixed(1)}s in total, will be removed.`}
+      </Text>
+
+      {progress !== null && <Progress value={progress} animated />}
+
+      {stored && !isCurrent && (
+        <Alert variant="light" color="yellow" icon={<AlertTriangle size={16} />}>
+          Redactions changed since this copy was made. Generate it again; until then
+          redacted packages leave out the audio.
+        </Alert>
+      )}
+
+      {stored && (
+        <Stack gap="xs">
+          <WaveformPlayer
+            audioUrl={stored.audioUrl}
+            regions={stored.info.ranges}
+            onReady={handleWaveformReady}
+            config={WAVEFORM_CONFIG}
+          />
+          <Group gap="sm">
+            <Button
+              variant="light"
+              leftSection={isPlaying ? <Pause size={16} /> : <Play size={16} />}
+              onClick={() => wavesurferRef.current?.playPause()}
+            >
+              {isPlaying ? 'Pause' : 'Play'}
+            </Button>
+            <Button variant="default" leftSection={<Download size={16} />} onClick={handleDownload}>
+              Download
+            </Button>
+            <Button
+              variant="subtle"
+              color="red"
+              leftSection={<Trash2 size={16} />}
+              onClick={handleDelete}
+            >
+              Delete copy
+            </Button>
+          </Group>
+        </Stack>
+      )}
+
+      <Group justify="flex-end">
+        <Button
+          leftSection={<AudioLines size={16} />}
+          loading={progress !== null}
+          disabled={isLoading || ranges.length === 0}
+          onClick={handleGenerate}
+        >
+          {stored ? 'Generate again' : 'Generate redacted audio'}
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
+
+/**
+ * Modal for making and previewing the redacted copy of a recording.
+ */
+export function RedactedAudioModal({ opened, onClose, transcript }: RedactedAudioModalProps) {
+  return (
+    <Modal opened={opened} onClose={onClose} title="Redacted Audio" size="xl">
+      {opened && <RedactedAudioForm key={transcript.id} transcript={transcript} />}
+    </Modal>
+  );
+}
@@ -6,12 +6,14 @@
  * - Zoom controls (30s, 1m, 5m, full)
  * - Visible scrollbar for manual navigation
  * - Click to seek anywhere on the waveform
+ * - Optional highlighted regions (e.g. redacted stretches)
  */
 
 'use client';
 
 import React, { useEffect, useRef, useCallback, useState, useMemo } from 'react';
 import WaveSurfer from 'wavesurfer.js';
+import RegionsPlugin from 'wavesurfer.js/dist/plugins/regions.esm.js';
 import { Loader2, AlertCircle, ZoomIn, ZoomOut } from 'lucide-react';
 import { Alert, Box, Flex, useMantineColorScheme, Group, SegmentedControl, Text } from '@mantine/core';
 import { DEFAULT_AUDIO_CONFIG } from '@/types/audio';
@@ -60,6 +62,22 @@ function calculatePxPerSec(zoomLevel: ZoomLevel, containerWidth: number, duratio
   }
 }
 
+/**
+ * Stretch of audio highlighted on the waveform
+ */
+export interface WaveformRegion {
+  /** Start time in seconds */
+  start: number;
+
+  /** End time in seconds */
+  end: number;
+
+  /** Fill color (CSS color, should be translucent) */
+  color?: string;
+}
+
+const DEFAULT_REGION_COLOR = 'rgba(239, 68, 68, 0.25)';
+
 /**
  * Props for WaveformPlayer component
  */
@@ -82,6 +100,9 @@ interface WaveformPlayerProps {
   /** Enable zoom controls */
   showZoomControls?: boolean;
 
+  /** Stretches to highlight; they cannot be dragged or resized */
+  regions?: WaveformRegion[];
+
   /** Additional CSS classes */
   className?: string;
 }
@@ -226,10 +247,13 @@ export function WaveformPlayer({
   onReady,
   onError,
   showZoomControls = true,
+  regions,
   className = '',
 }: WaveformPlayerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
+  const regionsPluginRef = useRef<RegionsPlugin | null>(null);
+  const regionsRef = useRef(regions);
   const destroyPromiseRef = useRef<Promise<void> | null>(null);
   const cachedPeaksRef = useRef<Float32Array[] | null>(null);
 
@@ -286,6 +310,24 @@ export function WaveformPlayer({
     }
   }, [duration]);
 
+  /**
+   * Draw the highlighted regions, replacing any drawn before
+   */
+  const renderRegions = useCallback(() => {
+    const plugin = regionsPluginRef.current;
+    if (!plugin) return;
+    plugin.clearRegions();
+    for (const region of regionsRef.current ?? []) {
+      plugin.addRegion({
+        start: region.start,
+        end: region.end,
+        color: region.color ?? DEFAULT_REGION_COLOR,
+        drag: false,
+        resize: false,
+      });
+    }
+  }, []);
+
   /**
    * Handle zoom level change
    */
@@ -353,6 +395,8 @@ export function WaveformPlayer({
           ...(hasCachedPeaks ? { peaks: cachedPeaksRef.current! } : {}),
         });
 
+        regionsPluginRef.current = wavesurfer.registerPlugin(RegionsPlugin.create());
+
         if (cancelledRef?.current) {
           await safelyDestroy(wavesurfer);
           return;
@@ -375,6 +419,7 @@ export function WaveformPlayer({
           // Apply initial zoom after duration is known
           const pxPerSec = calculatePxPerSec(zoomLevel, containerWidth, audioDuration);
           wavesurfer.zoom(pxPerSec);
+          renderRegions();
 
           // Cache peaks for future instant loading (only if we didn't use cached peaks)
           if (cacheKey && !hasCachedPeaks) {
@@ -437,7 +482,7 @@ export function WaveformPlayer({
         }
       }
     },
-    [audioUrl, cacheKey, mergedConfig, onReady, onError, zoomLevel]
+    [audioUrl, cacheKey, mergedConfig, onReady, onError, zoomLevel, renderRegions]
   );
 
   // Initialize on mount
@@ -449,12 +494,21 @@ export function WaveformPlayer({
       cancelledRef.current = true;
       const instance = wavesurferRef.current;
       wavesurferRef.current = null;
+      regionsPluginRef.current = null;
       if (instance) {
         destroyPromiseRef.current = Promise.resolve().then(() => safelyDestroy(instance));
       }
     };
   }, [initializeWaveSurfer]);
 
+  // Redraw regions when they change, without reloading the audio
+  useEffect(() => {
+    regionsRef.current = regions;
+    if (duration > 0) {
+      renderRegions();
+    }
+  }, [regions, duration, renderRegions]);
+
   // Re-apply zoom when zoom level changes (after duration is known)
   useEffect(() => {
     if (duration > 0) {
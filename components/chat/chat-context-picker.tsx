@@ -0,0 +1,112 @@
+/**
+ * Chat Context Picker Component
+ *
+ * Lets the user attach analyses, scorecards, trainer annotations and
+ * supplemental documents to their chat questions, with a meter showing how
+ * much of the chat model's context window the transcript, conversation and
+ * attached material use.
+ */
+
+'use client';
+
+import React from 'react';
+import { Chip, Group, Progress, Stack, Text, Tooltip } from '@mantine/core';
+import { ClipboardCheck, FileText, Paperclip, StickyNote, Sparkles } from 'lucide-react';
+import { estimateTokens, formatUtilization } from '@/lib/token-utils';
+import type { ChatContextKind, ChatContextSource } from '@/types/chat';
+
+export interface ChatContextPickerProps {
+  /** Material that can be attached */
+  sources: ChatContextSource[];
+
+  /** IDs of the attached sources */
+  selectedIds: string[];
+
+  onChange: (selectedIds: string[]) => void;
+
+  /** Tokens used by the transcript and conversation history */
+  conversationTokens: number;
+
+  /** Context window of the chat model, once known */
+  tokenLimit?: number;
+}
+
+const KIND_ICONS: Record<ChatContextKind, React.ReactNode> = {
+  analysis: <Sparkles size={12} />,
+  scorecard: <ClipboardCheck size={12} />,
+  annotations: <StickyNote size={12} />,
+  document: <FileText size={12} />,
+};
+
+const SEVERITY_COLORS = {
+  low: 'blue',
+  medium: 'blue',
+  high: 'yellow',
+  critical: 'red',
+} as const;
+
+/** Token count as "12k" */
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens);
+}
+
+/**
+ * Context source chips and token budget meter
+ */
+export function ChatContextPicker({
+  sources,
+  selectedIds,
+  onChange,
+  conversationTokens,
+  tokenLimit,
+}: ChatContextPickerProps) {
+  const tokensById = React.useMemo(
+    () => new Map(sources.map((source) => [source.id, estimateTokens(source.text)])),
+    [sources]
+  );
+
+  const contextTokens = selectedIds.reduce((sum, id) => sum + (tokensById.get(id) ?? 0), 0);
+  const totalTokens = conversationTokens + contextTokens;
+  const utilization = tokenLimit ? Math.round((totalTokens / tokenLimit) * 100) : undefined;
+  const severity = utilization !== undefined ? formatUtilization(utilization).severity : 'low';
+
+  return (
+    <Stack gap={6}>
+      <Group gap="xs" wrap="wrap">
+        <Group gap={4} wrap="nowrap">
+          <Paperclip size={14} style={{ color: 'var(--mantine-color-dimmed)' }} />
+          <Text size="sm" fw={500}>
+            Context
+          </Text>
+        </Group>
+        <Chip.Group multiple value={selectedIds} onChange={onChange}>
+          {sources.map((source) => (
+            <Chip key={source.id} value={source.id} size="xs" variant="light" icon={KIND_ICONS[source.kind]}>
+              {source.title} · {formatTokens(tokensById.get(source.id) ?? 0)}
+            </Chip>
+          ))}
+        </Chip.Group>
+      </Group>
+
+      {tokenLimit && (
+        <Tooltip
+          label={`Transcript and conversation ${formatTokens(conversationTokens)}, attached context ${formatTokens(contextTokens)} tokens`}
+          withArrow
+        >
+          <Group gap="xs" wrap="nowrap">
+            <Progress.Root size="sm" style={{ flex: 1 }}>
+              <Progress.Section value={Math.min(100, (conversationTokens / tokenLimit) * 100)} color="gray" />
+              <Progress.Section
+                value={Math.min(100, (contextTokens / tokenLimit) * 100)}
+                color={SEVERITY_COLORS[severity]}
+              />
+            </Progress.Root>
+            <Text size="xs" c={severity === 'critical' ? 'red' : 'dimmed'} style={{ whiteSpace: 'nowrap' }}>
+              ~{formatTokens(totalTokens)} of {formatTokens(tokenLimit)} tokens
+            </Text>
+          </Group>
+        </Tooltip>
+      )}
+    </Stack>
+  );
+}
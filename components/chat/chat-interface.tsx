@@ -3,6 +3,7 @@
  *
  * Complete chat UI for Q&A conversations about transcripts.
  * Features message list, input area, loading states, and error handling.
+ * ChatPanel is shared with library chat (corpus-chat-interface.tsx).
  */
 
 'use client';
@@ -21,6 +22,9 @@ import {
   ActionIcon,
   Tooltip,
   Modal,
+  Badge,
+  UnstyledButton,
+  Menu,
 } from '@mantine/core';
 import {
   Send,
@@ -30,14 +34,44 @@ import {
   Copy,
   Check,
   AlertCircle,
-  Loader2,
+  Clock,
+  Square,
+  RotateCcw,
+  Pencil,
+  Plus,
+  Pin,
+  FileJson,
+  FileText,
+  File,
 } from 'lucide-react';
 import { useDisclosure } from '@mantine/hooks';
 import { notifications } from '@mantine/notifications';
-import { useChat } from '@/hooks/use-chat';
+import { useChat, type UseChatReturn } from '@/hooks/use-chat';
+import { textForAiRequest, transcriptForAiRequest } from '@/lib/redaction';
+import {
+  citationMarkersToTimestamps,
+  formatSegmentsForChat,
+  pinnedAnswerSection,
+  splitCitationMarkers,
+  stripCitationMarkers,
+} from '@/lib/chat-citations';
+import {
+  exportConversation,
+  getConversationExportFormats,
+  type ConversationExportFormat,
+} from '@/lib/export/conversation-exporter';
+import { downloadExport } from '@/lib/export/analysis-exporter';
+import { addAnalysisSection } from '@/lib/db';
+import { getRedactExportsPreference } from '@/lib/storage';
+import { estimateTokens } from '@/lib/token-utils';
+import { ChatContextPicker } from '@/components/chat/chat-context-picker';
+import { ConversationList } from '@/components/chat/conversation-list';
 import { formatMessageTimestamp } from '@/types/chat';
+import type { ConfigStatusResponse } from '@/app/api/config/status/route';
 import type { Transcript } from '@/types/transcript';
-import type { ChatMessage } from '@/types/chat';
+import type { Analysis } from '@/types/analysis';
+import type { RedactionSpan } from '@/types/redaction';
+import type { ChatCitation, ChatContextSource, ChatMessage, ChatSegment } from '@/types/chat';
 
 export interface ChatInterfaceProps {
   /** ID of the transcript to chat about */
@@ -45,8 +79,41 @@ export interface ChatInterfaceProps {
 
   /** The transcript object for context */
   transcript: Transcript;
+
+  /** Seek the audio player to a cited segment and highlight it */
+  onTimestampClick?: (seconds: number) => void;
+
+  /**
+   * Analyses, scorecards, annotations and documents the user can attach to
+   * questions (see lib/chat-context.ts)
+   */
+  contextSources?: ChatContextSource[];
+
+  /** Analyses chat answers can be pinned to as custom sections */
+  pinAnalyses?: ChatPinAnalysis[];
+}
+
+/** An analysis chat answers can be pinned to */
+export interface ChatPinAnalysis {
+  analysis: Analysis;
+
+  /** Name shown in the pin menu, e.g. the template name and date */
+  label: string;
 }
 
+/** Messages the chat API is sent from the history (see use-chat.ts) */
+const HISTORY_MESSAGES_SENT = 20;
+
+const NO_CONTEXT_SOURCES: ChatContextSource[] = [];
+
+const NO_PIN_ANALYSES: ChatPinAnalysis[] = [];
+
+const EXPORT_FORMAT_ICONS: Record<ConversationExportFormat, React.ReactNode> = {
+  markdown: <FileText size={16} />,
+  docx: <FileText size={16} />,
+  pdf: <File size={16} />,
+};
+
 /**
  * Format seconds as MM:SS timestamp
  */
@@ -79,36 +146,280 @@ function formatTranscriptWithTimestamps(transcript: Transcript): string {
  * Features:
  * - Message list with auto-scroll
  * - User and AI message bubbles
- * - Typing indicator during loading
+ * - Answers stream in, with Stop and Regenerate
+ * - Editing a question forks the conversation
+ * - Sidebar of the transcript's conversations
+ * - Typing indicator until the answer starts
  * - Empty state with suggestions
  * - Error handling with retry
  * - Clear conversation with confirmation
  * - Export chat history
  * - Character counter
  * - Enter to send, Shift+Enter for new line
+ * - Citation chips that jump to the cited radio traffic
+ * - Answers pinned to an analysis as custom sections
  */
-export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps) {
-  const [input, setInput] = useState('');
-  const [
-    clearModalOpened,
-    { open: openClearModal, close: closeClearModal },
-  ] = useDisclosure(false);
+export function ChatInterface({
+  transcriptId,
+  transcript,
+  onTimestampClick,
+  contextSources = NO_CONTEXT_SOURCES,
+  pinAnalyses = NO_PIN_ANALYSES,
+}: ChatInterfaceProps) {
+  // Personal details are replaced when the redaction preference is on
+  const requestTranscript = useMemo(() => transcriptForAiRequest(transcript), [transcript]);
 
   // Format transcript with timestamps for chat context
   // This is critical for firefighters to reference specific times in radio traffic
   const transcriptTextWithTimestamps = useMemo(
-    () => formatTranscriptWithTimestamps(transcript),
-    [transcript]
+    () => formatTranscriptWithTimestamps(requestTranscript),
+    [requestTranscript]
+  );
+
+  // Segments with ids, so answers can cite where in the traffic they come from
+  const chatSegments = useMemo<ChatSegment[]>(
+    () =>
+      (requestTranscript.segments ?? []).map((segment) => ({
+        id: segment.index,
+        start: segment.start,
+        end: segment.end,
+        speaker: segment.speaker,
+        text: segment.text,
+      })),
+    [requestTranscript]
+  );
+
+  // Reference material attached to questions, redacted like the transcript
+  const [selectedContextIds, setSelectedContextIds] = useState<string[]>([]);
+  const attachedContext = useMemo(
+    () =>
+      contextSources
+        .filter((source) => selectedContextIds.includes(source.id))
+        .map((source) => ({ ...source, text: textForAiRequest(source.text, transcript) })),
+    [contextSources, selectedContextIds, transcript]
   );
 
   // Use chat hook with timestamped transcript
+  const chat = useChat(transcriptId, transcriptTextWithTimestamps, chatSegments, {
+    context: attachedContext,
+  });
+
+  // Context window of the chat model, for the token meter
+  const [chatTokenLimit, setChatTokenLimit] = useState<number | undefined>(undefined);
+  useEffect(() => {
+    if (contextSources.length === 0) return;
+    let cancelled = false;
+    fetch('/api/config/status')
+      .then((response) => response.json())
+      .then((payload) => {
+        const status: ConfigStatusResponse | undefined = payload?.data ?? payload;
+        const route = status?.llm?.routes.chat;
+        if (!cancelled && route) {
+          setChatTokenLimit((route.extended ?? route.model).contextWindow);
+        }
+      })
+      .catch((statusError) => {
+        console.error('[ChatInterface] Failed to load chat model routing:', statusError);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [contextSources.length]);
+
+  const transcriptTokens = useMemo(
+    () =>
+      estimateTokens(
+        chatSegments.length > 0 ? formatSegmentsForChat(chatSegments) : transcriptTextWithTimestamps
+      ),
+    [chatSegments, transcriptTextWithTimestamps]
+  );
+  const historyTokens = chat.messages
+    .slice(-HISTORY_MESSAGES_SENT)
+    .reduce((sum, message) => sum + estimateTokens(message.content), 0);
+
+  const exportDetails = useMemo(
+    () => ({ transcriptId: transcript.id, transcriptFilename: transcript.filename }),
+    [transcript.id, transcript.filename]
+  );
+
+  const handleCitationClick = useMemo(
+    () => (onTimestampClick ? (citation: ChatCitation) => onTimestampClick(citation.start) : undefined),
+    [onTimestampClick]
+  );
+
+  const pinTargets = useMemo(
+    () => pinAnalyses.map(({ analysis, label }) => ({ id: analysis.id, label })),
+    [pinAnalyses]
+  );
+  const pinnedAnswerIds = useMemo(
+    () =>
+      new Set(
+        pinAnalyses.flatMap(({ analysis }) =>
+          analysis.results.sections.flatMap((section) =>
+            section.pinnedFrom ? [section.pinnedFrom.messageId] : []
+          )
+        )
+      ),
+    [pinAnalyses]
+  );
+
+  const { messages, conversationId } = chat;
+  const handlePinAnswer = useCallback(
+    async (answer: ChatMessage, analysisId: string) => {
+      const index = messages.findIndex((message) => message.id === answer.id);
+      const question = messages
+        .slice(0, index)
+        .reverse()
+        .find((message) => message.role === 'user');
+      if (!conversationId || !question) return;
+
+      try {
+        await addAnalysisSection(
+          analysisId,
+          pinnedAnswerSection(question.content, answer, conversationId)
+        );
+        notifications.show({
+          title: 'Pinned to Analysis',
+          message: `The answer was added to ${pinTargets.find((target) => target.id === analysisId)?.label ?? 'the analysis'} as a section.`,
+          color: 'green',
+        });
+      } catch (err) {
+        notifications.show({
+          title: 'Pin Failed',
+          message: err instanceof Error ? err.message : 'Failed to pin the answer',
+          color: 'red',
+        });
+      }
+    },
+    [messages, conversationId, pinTargets]
+  );
+
+  return (
+    <ChatPanel
+      chat={chat}
+      exportName={transcript.filename.replace(/\.[^/.]+$/, '')}
+      exportDetails={exportDetails}
+      exportSubject={transcript.filename}
+      exportRedactions={transcript.redactions}
+      pinTargets={pinTargets.length > 0 ? pinTargets : undefined}
+      pinnedAnswerIds={pinnedAnswerIds}
+      onPinAnswer={handlePinAnswer}
+      placeholder="Ask a question about this transcript..."
+      emptyState={TRANSCRIPT_EMPTY_STATE}
+      onCitationClick={handleCitationClick}
+      toolbar={
+        contextSources.length > 0 && (
+          <ChatContextPicker
+            sources={contextSources}
+            selectedIds={selectedContextIds}
+            onChange={setSelectedContextIds}
+            conversationTokens={transcriptTokens + historyTokens}
+            tokenLimit={chatTokenLimit}
+          />
+        )
+      }
+    />
+  );
+}
+
+/** Empty state text for a chat */
+export interface ChatEmptyStateContent {
+  title: string;
+  description: string;
+  suggestions: string[];
+}
+
+const TRANSCRIPT_EMPTY_STATE: ChatEmptyStateContent = {
+  title: 'Ask me anything about this transcript',
+  description:
+    'I can help you understand the content, find specific information, or summarize key points.',
+  suggestions: [
+    'What are the key takeaways from this transcript?',
+    'Summarize the main discussion points',
+    'What action items were mentioned?',
+    'Who were the main speakers?',
+  ],
+};
+
+export interface ChatPanelProps {
+  /** The conversation, from useChat() */
+  chat: UseChatReturn;
+
+  /** Base of the export filename, e.g. the transcript filename */
+  exportName: string;
+
+  /** Fields added to the exported JSON to say what was discussed */
+  exportDetails: Record<string, unknown>;
+
+  /** What was discussed, for Markdown, Word and PDF exports */
+  exportSubject: string;
+
+  /** Transcript redactions, applied to exports when redacted exports are on */
+  exportRedactions?: RedactionSpan[];
+
+  /** Analyses answers can be pinned to */
+  pinTargets?: ChatPinTarget[];
+
+  /** Answers already pinned to an analysis */
+  pinnedAnswerIds?: ReadonlySet<string>;
+
+  /** Pin an answer to an analysis as a custom section */
+  onPinAnswer?: (answer: ChatMessage, analysisId: string) => void;
+
+  /** Input placeholder */
+  placeholder: string;
+
+  emptyState: ChatEmptyStateContent;
+
+  /** Open the radio traffic a citation chip points to */
+  onCitationClick?: (citation: ChatCitation) => void;
+
+  /** Controls shown between the header and the messages */
+  toolbar?: React.ReactNode;
+}
+
+/** An analysis an answer can be pinned to */
+export interface ChatPinTarget {
+  id: string;
+  label: string;
+}
+
+/**
+ * Messages, input and conversation actions for a chat
+ */
+export function ChatPanel({
+  chat,
+  exportName,
+  exportDetails,
+  exportSubject,
+  exportRedactions,
+  pinTargets,
+  pinnedAnswerIds,
+  onPinAnswer,
+  placeholder,
+  emptyState,
+  onCitationClick,
+  toolbar,
+}: ChatPanelProps) {
+  const [input, setInput] = useState('');
+  const [
+    clearModalOpened,
+    { open: openClearModal, close: closeClearModal },
+  ] = useDisclosure(false);
+
   const {
     messages,
     loading,
+    streamingAnswer,
     error,
     sendMessage,
+    stop,
+    regenerate,
+    editMessage,
     clearConversation,
-  } = useChat(transcriptId, transcriptTextWithTimestamps);
+    conversations,
+    conversationId,
+  } = chat;
 
   // Refs
   const scrollAreaRef = useRef<HTMLDivElement>(null);
@@ -123,7 +434,7 @@ export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps)
     }, 100);
 
     return () => clearTimeout(timeoutId);
-  }, [messages, loading]);
+  }, [messages, loading, streamingAnswer]);
 
   // Handle send message
   const handleSend = useCallback(async () => {
@@ -179,14 +490,14 @@ export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps)
   const handleExportConversation = useCallback(() => {
     try {
       const exportData = {
-        transcriptId: transcript.id,
-        transcriptFilename: transcript.filename,
+        ...exportDetails,
         exportedAt: new Date().toISOString(),
         messageCount: messages.length,
         messages: messages.map((msg) => ({
           role: msg.role,
-          content: msg.content,
+          content: citationMarkersToTimestamps(msg.content, msg.citations),
           timestamp: msg.timestamp.toISOString(),
+          ...(msg.citations?.length ? { citations: msg.citations } : {}),
         })),
       };
 
@@ -195,7 +506,7 @@ export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps)
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `chat-${transcript.filename.replace(/\.[^/.]+$/, '')}-${
+      link.download = `chat-${exportName}-${
         new Date().toISOString().split('T')[0]
       }.json`;
       document.body.appendChild(link);
@@ -215,7 +526,40 @@ export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps)
         color: 'red',
       });
     }
-  }, [transcript, messages]);
+  }, [exportDetails, exportName, messages]);
+
+  // Handle export as Markdown, Word or PDF
+  const handleExportAs = useCallback(
+    async (format: ConversationExportFormat) => {
+      const conversation = conversations.find((c) => c.id === conversationId);
+      if (!conversation) return;
+
+      try {
+        const result = await exportConversation(
+          conversation,
+          {
+            subject: exportSubject,
+            filename: exportName,
+            redactions: getRedactExportsPreference() ? exportRedactions : undefined,
+          },
+          format
+        );
+        downloadExport(result);
+        notifications.show({
+          title: 'Export Successful',
+          message: `Conversation exported as ${result.filename}`,
+          color: 'green',
+        });
+      } catch (err) {
+        notifications.show({
+          title: 'Export Failed',
+          message: err instanceof Error ? err.message : 'Failed to export conversation',
+          color: 'red',
+        });
+      }
+    },
+    [conversations, conversationId, exportSubject, exportName, exportRedactions]
+  );
 
   // Character count and warning
   const characterCount = input.length;
@@ -223,7 +567,12 @@ export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps)
   const showCharacterWarning = characterCount > maxCharacters;
 
   // Check if input is empty or too long
-  const isSendDisabled = !input.trim() || loading || showCharacterWarning;
+  const isSendDisabled = !input.trim() || showCharacterWarning;
+
+  // Only the last answer can be regenerated
+  const lastMessage = messages[messages.length - 1];
+  const regenerateMessageId =
+    !loading && lastMessage?.role === 'assistant' ? lastMessage.id : undefined;
 
   return (
     <Stack gap="md">
@@ -243,16 +592,57 @@ export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps)
 
         {messages.length > 0 && (
           <Group gap="xs">
-            <Tooltip label="Export chat history">
+            <Tooltip label="New conversation">
               <ActionIcon
                 variant="subtle"
                 color="gray"
-                onClick={handleExportConversation}
-                aria-label="Export chat history"
+                onClick={chat.newConversation}
+                disabled={loading}
+                aria-label="New conversation"
               >
-                <Download size={18} />
+                <Plus size={18} />
               </ActionIcon>
             </Tooltip>
+            <Menu position="bottom-end" width={224} disabled={loading}>
+              <Menu.Target>
+                <Tooltip label="Export conversation">
+                  <ActionIcon
+                    variant="subtle"
+                    color="gray"
+                    disabled={loading}
+                    aria-label="Export conversation"
+                  >
+                    <Download size={18} />
+                  </ActionIcon>
+                </Tooltip>
+              </Menu.Target>
+              <Menu.Dropdown>
+                <Menu.Label>Export Conversation</Menu.Label>
+                {getConversationExportFormats().map(({ format, label, description }) => (
+                  <Menu.Item
+                    key={format}
+                    onClick={() => handleExportAs(format)}
+                    disabled={!conversationId}
+                    leftSection={EXPORT_FORMAT_ICONS[format]}
+                  >
+                    <Text fw={500} size="sm">
+                      {label}
+                    </Text>
+                    <Text size="xs" c="dimmed">
+                      {description}
+                    </Text>
+                  </Menu.Item>
+                ))}
+                <Menu.Item onClick={handleExportConversation} leftSection={<FileJson size={16} />}>
+                  <Text fw={500} size="sm">
+                    JSON Data
+                  </Text>
+                  <Text size="xs" c="dimmed">
+                    Messages and citations as data
+                  </Text>
+                </Menu.Item>
+              </Menu.Dropdown>
+            </Menu>
             <Tooltip label="Clear conversation">
               <ActionIcon
                 variant="subtle"
@@ -267,6 +657,8 @@ export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps)
         )}
       </Group>
 
+      {toolbar}
+
       {/* Chat messages container */}
       <Paper
         withBorder
@@ -274,140 +666,188 @@ export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps)
         style={{
           height: '500px',
           display: 'flex',
-          flexDirection: 'column',
           overflow: 'hidden',
         }}
       >
-        {/* Messages */}
-        <ScrollArea
-          ref={scrollAreaRef}
-          style={{ flex: 1 }}
-          p="md"
-          type="auto"
-          role="log"
-          aria-label="Chat messages"
-          aria-live="polite"
-        >
-          {messages.length === 0 && !loading ? (
-            <EmptyState />
-          ) : (
-            <Stack gap="md">
-              {messages.map((message) => (
-                <MessageBubble key={message.id} message={message} />
-              ))}
-              {loading && <TypingIndicator />}
-              <div ref={scrollSentinelRef} style={{ height: 1 }} />
-            </Stack>
-          )}
-        </ScrollArea>
-
-        {/* Error alert */}
-        {error && (
-          <Box px="md" pb="md">
-            <Alert
-              color="red"
-              variant="light"
-              icon={<AlertCircle size={16} />}
-              title="Error"
-              withCloseButton
-              onClose={() => {
-                // Error clearing is handled by the hook
-              }}
-            >
-              <Text size="sm">{error}</Text>
-              <Button
-                size="xs"
-                variant="light"
-                color="red"
-                mt="xs"
-                onClick={() => {
-                  if (input.trim()) {
-                    handleSend();
-                  }
-                }}
-                disabled={!input.trim()}
-              >
-                Retry
-              </Button>
-            </Alert>
+        {/* Conversations */}
+        {chat.conversations.length > 0 && (
+          <Box
+            visibleFrom="sm"
+            w={220}
+            p="xs"
+            style={{ borderRight: '1px solid var(--mantine-color-default-border)', flexShrink: 0 }}
+          >
+            <ConversationList
+              conversations={chat.conversations}
+              activeId={chat.conversationId}
+              onSelect={chat.selectConversation}
+              onNew={chat.newConversation}
+              onRename={chat.renameConversation}
+              onDelete={chat.deleteConversation}
+              disabled={loading}
+            />
           </Box>
         )}
 
-        {/* Input area */}
-        <Box
-          p="md"
-          style={{
-            borderTop: '1px solid var(--mantine-color-default-border)',
-            backgroundColor: 'var(--mantine-color-default)',
-          }}
-        >
-          <Stack gap="xs">
-            <Textarea
-              ref={textareaRef}
-              value={input}
-              onChange={(e) => setInput(e.currentTarget.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Ask a question about this transcript..."
-              minRows={2}
-              maxRows={5}
-              autosize
-              disabled={loading}
-              styles={{
-                input: {
-                  fontSize: '14px',
-                  lineHeight: 1.5,
-                },
-              }}
-              aria-label="Message input"
-            />
+        <Box style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+          {/* Messages */}
+          <ScrollArea
+            ref={scrollAreaRef}
+            style={{ flex: 1 }}
+            p="md"
+            type="auto"
+            role="log"
+            aria-label="Chat messages"
+            aria-live="polite"
+          >
+            {messages.length === 0 && !loading ? (
+              <EmptyState {...emptyState} />
+            ) : (
+              <Stack gap="md">
+                {messages.map((message) => (
+                  <MessageBubble
+                    key={message.id}
+                    message={message}
+                    onCitationClick={onCitationClick}
+                    onRegenerate={message.id === regenerateMessageId ? regenerate : undefined}
+                    onEdit={message.role === 'user' && !loading ? editMessage : undefined}
+                    pinTargets={message.role === 'assistant' && !loading ? pinTargets : undefined}
+                    pinned={pinnedAnswerIds?.has(message.id)}
+                    onPin={onPinAnswer}
+                  />
+                ))}
+                {loading &&
+                  (streamingAnswer ? (
+                    <StreamingMessage content={streamingAnswer} />
+                  ) : (
+                    <TypingIndicator />
+                  ))}
+                <div ref={scrollSentinelRef} style={{ height: 1 }} />
+              </Stack>
+            )}
+          </ScrollArea>
 
-            <Group justify="space-between" align="center">
-              <Group gap="xs">
-                <Text
+          {/* Error alert */}
+          {error && (
+            <Box px="md" pb="md">
+              <Alert
+                color="red"
+                variant="light"
+                icon={<AlertCircle size={16} />}
+                title="Error"
+                withCloseButton
+                onClose={() => {
+                  // Error clearing is handled by the hook
+                }}
+              >
+                <Text size="sm">{error}</Text>
+                <Button
                   size="xs"
-                  c={showCharacterWarning ? 'red' : 'dimmed'}
-                  fw={showCharacterWarning ? 600 : 400}
+                  variant="light"
+                  color="red"
+                  mt="xs"
+                  onClick={() => {
+                    if (input.trim()) {
+                      handleSend();
+                    }
+                  }}
+                  disabled={!input.trim()}
                 >
-                  {characterCount} / {maxCharacters}
-                </Text>
-                {showCharacterWarning && (
-                  <Text size="xs" c="red">
-                    Message too long
+                  Retry
+                </Button>
+              </Alert>
+            </Box>
+          )}
+
+          {/* Input area */}
+          <Box
+            p="md"
+            style={{
+              borderTop: '1px solid var(--mantine-color-default-border)',
+              backgroundColor: 'var(--mantine-color-default)',
+            }}
+          >
+            <Stack gap="xs">
+              <Textarea
+                ref={textareaRef}
+                value={input}
+                onChange={(e) => setInput(e.currentTarget.value)}
+                onKeyDown={handleKeyDown}
+                placeholder={placeholder}
+                minRows={2}
+                maxRows={5}
+                autosize
+                disabled={loading}
+                styles={{
+                  input: {
+                    fontSize: '14px',
+                    lineHeight: 1.5,
+                  },
+                }}
+                aria-label="Message input"
+              />
+
+              <Group justify="space-between" align="center">
+                <Group gap="xs">
+                  <Text
+                    size="xs"
+                    c={showCharacterWarning ? 'red' : 'dimmed'}
+                    fw={showCharacterWarning ? 600 : 400}
+                  >
+                    {characterCount} / {maxCharacters}
                   </Text>
-                )}
-              </Group>
+                  {showCharacterWarning && (
+                    <Text size="xs" c="red">
+                      Message too long
+                    </Text>
+                  )}
+                </Group>
 
-              <Group gap="xs" wrap="nowrap">
-                {/* Short hint for small screens */}
-                <Text
-                  size="xs"
-                  c="dimmed"
-                  style={{ whiteSpace: 'nowrap' }}
-                  hiddenFrom="sm"
-                >
-                  Enter to send
-                </Text>
-                {/* Full hint for larger screens */}
-                <Text
-                  size="xs"
-                  c="dimmed"
-                  style={{ whiteSpace: 'nowrap' }}
-                  visibleFrom="sm"
-                >
-                  Press Enter to send, Shift+Enter for new line
-                </Text>
-                <Button
-                  size="sm"
-                  leftSection={loading ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
-                  onClick={handleSend}
-                  disabled={isSendDisabled}
-                  aria-label="Send message"
-                >
-                  {loading ? 'Sending...' : 'Send'}
-                </Button>
+                <Group gap="xs" wrap="nowrap">
+                  {/* Short hint for small screens */}
+                  <Text
+                    size="xs"
+                    c="dimmed"
+                    style={{ whiteSpace: 'nowrap' }}
+                    hiddenFrom="sm"
+                  >
+                    Enter to send
+                  </Text>
+                  {/* Full hint for larger screens */}
+                  <Text
+                    size="xs"
+                    c="dimmed"
+                    style={{ whiteSpace: 'nowrap' }}
+                    visibleFrom="sm"
+                  >
+                    Press Enter to send, Shift+Enter for new line
+                  </Text>
+                  {loading ? (
+                    <Button
+                      size="sm"
+                      variant="light"
+                      color="red"
+                      leftSection={<Square size={14} />}
+                      onClick={stop}
+                      aria-label="Stop generating"
+                    >
+                      Stop
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      leftSection={<Send size={16} />}
+                      onClick={handleSend}
+                      disabled={isSendDisabled}
+                      aria-label="Send message"
+                    >
+                      Send
+                    </Button>
+                  )}
+                </Group>
               </Group>
-            </Group>
-          </Stack>
+            </Stack>
+          </Box>
         </Box>
       </Paper>
 
@@ -439,17 +879,56 @@ export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps)
 
 /**
  * Message bubble component
- * Displays a single message with timestamp and copy functionality
+ * Displays a single message with timestamp and copy functionality; the
+ * user's questions can be edited, and the last answer regenerated
  */
 interface MessageBubbleProps {
   message: ChatMessage;
+  onCitationClick?: (citation: ChatCitation) => void;
+
+  /** Ask the question again (the last answer only) */
+  onRegenerate?: () => void;
+
+  /** Ask an edited question in a forked conversation (user messages only) */
+  onEdit?: (messageId: string, question: string) => void;
+
+  /** Analyses the answer can be pinned to (assistant messages only) */
+  pinTargets?: ChatPinTarget[];
+
+  /** The answer is already pinned to an analysis */
+  pinned?: boolean;
+
+  onPin?: (answer: ChatMessage, analysisId: string) => void;
 }
 
-const MessageBubble = memo(function MessageBubble({ message }: MessageBubbleProps) {
+const MessageBubble = memo(function MessageBubble({
+  message,
+  onCitationClick,
+  onRegenerate,
+  onEdit,
+  pinTargets,
+  pinned,
+  onPin,
+}: MessageBubbleProps) {
   const [copied, setCopied] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
   const copyTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isUser = message.role === 'user';
 
+  const startEditing = useCallback(() => {
+    setDraft(message.content);
+    setEditing(true);
+  }, [message.content]);
+
+  const submitEdit = useCallback(() => {
+    const question = draft.trim();
+    setEditing(false);
+    if (question && question !== message.content) {
+      onEdit?.(message.id, question);
+    }
+  }, [draft, message.content, message.id, onEdit]);
+
   // Cleanup copy feedback timeout on unmount
   useEffect(() => {
     return () => {
@@ -461,7 +940,9 @@ const MessageBubble = memo(function MessageBubble({ message }: MessageBubbleProp
 
   const handleCopy = useCallback(async () => {
     try {
-      await navigator.clipboard.writeText(message.content);
+      await navigator.clipboard.writeText(
+        citationMarkersToTimestamps(message.content, message.citations)
+      );
       setCopied(true);
       if (copyTimeoutRef.current) {
         clearTimeout(copyTimeoutRef.current);
@@ -470,7 +951,7 @@ const MessageBubble = memo(function MessageBubble({ message }: MessageBubbleProp
     } catch (err) {
       console.error('[MessageBubble] Copy failed:', err);
     }
-  }, [message.content]);
+  }, [message.content, message.citations]);
 
   return (
     <Box
@@ -493,28 +974,67 @@ const MessageBubble = memo(function MessageBubble({ message }: MessageBubbleProp
             {message.model}
           </Text>
         )}
-        <Paper
-          p="md"
-          radius="md"
-          style={{
-            backgroundColor: isUser
-              ? 'var(--logo-blue)'
-              : 'var(--mantine-color-gray-1)',
-            color: isUser ? 'white' : 'var(--mantine-color-text)',
-            wordBreak: 'break-word',
-          }}
-        >
-          <Text
-            size="sm"
+        {editing ? (
+          <Stack gap="xs">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.currentTarget.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                } else if (e.key === 'Escape') {
+                  setEditing(false);
+                }
+              }}
+              minRows={2}
+              maxRows={5}
+              autosize
+              autoFocus
+              aria-label="Edit question"
+            />
+            <Group justify="flex-end" gap="xs">
+              <Button size="xs" variant="default" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+              <Button size="xs" onClick={submitEdit} disabled={!draft.trim()}>
+                Ask in new conversation
+              </Button>
+            </Group>
+          </Stack>
+        ) : (
+          <Paper
+            p="md"
+            radius="md"
             style={{
-              whiteSpace: 'pre-wrap',
-              lineHeight: 1.6,
-              color: isUser ? 'white' : 'inherit',
+              backgroundColor: isUser
+                ? 'var(--logo-blue)'
+                : 'var(--mantine-color-gray-1)',
+              color: isUser ? 'white' : 'var(--mantine-color-text)',
+              wordBreak: 'break-word',
             }}
           >
-            {message.content}
-          </Text>
-        </Paper>
+            <Text
+              size="sm"
+              component="div"
+              style={{
+                whiteSpace: 'pre-wrap',
+                lineHeight: 1.6,
+                color: isUser ? 'white' : 'inherit',
+              }}
+            >
+              {message.citations?.length ? (
+                <MessageContentWithCitations
+                  content={message.content}
+                  citations={message.citations}
+                  onCitationClick={onCitationClick}
+                />
+              ) : (
+                message.content
+              )}
+            </Text>
+          </Paper>
+        )}
 
         <Group
           justify={isUser ? 'flex-end' : 'space-between'}
@@ -522,26 +1042,85 @@ const MessageBubble = memo(function MessageBubble({ message }: MessageBubbleProp
           px="xs"
           gap="xs"
         >
-          <Text size="xs" c="dimmed">
-            {formatMessageTimestamp(message.timestamp)}
-          </Text>
+          <Group gap="xs">
+            <Text size="xs" c="dimmed">
+              {formatMessageTimestamp(message.timestamp)}
+            </Text>
+            {message.stopped && (
+              <Text size="xs" c="dimmed" fs="italic">
+                Stopped
+              </Text>
+            )}
+            {isUser && onEdit && !editing && (
+              <Tooltip label="Edit and ask in a new conversation">
+                <ActionIcon
+                  size="sm"
+                  variant="subtle"
+                  color="gray"
+                  onClick={startEditing}
+                  aria-label="Edit question"
+                >
+                  <Pencil size={14} />
+                </ActionIcon>
+              </Tooltip>
+            )}
+          </Group>
 
           {!isUser && (
-            <Tooltip label={copied ? 'Copied!' : 'Copy message'}>
-              <ActionIcon
-                size="sm"
-                variant="subtle"
-                color="gray"
-                onClick={handleCopy}
-                aria-label="Copy message"
-              >
-                {copied ? (
-                  <Check size={14} style={{ color: 'var(--compliant-green)' }} />
-                ) : (
-                  <Copy size={14} />
-                )}
-              </ActionIcon>
-            </Tooltip>
+            <Group gap={4}>
+              {pinTargets && onPin && (
+                <Menu position="bottom-end" withinPortal>
+                  <Menu.Target>
+                    <Tooltip label={pinned ? 'Pinned to an analysis' : 'Pin to analysis'}>
+                      <ActionIcon
+                        size="sm"
+                        variant="subtle"
+                        color={pinned ? 'blue' : 'gray'}
+                        aria-label="Pin to analysis"
+                      >
+                        <Pin size={14} fill={pinned ? 'currentColor' : 'none'} />
+                      </ActionIcon>
+                    </Tooltip>
+                  </Menu.Target>
+                  <Menu.Dropdown>
+                    <Menu.Label>Add as a section of</Menu.Label>
+                    {pinTargets.map((target) => (
+                      <Menu.Item key={target.id} onClick={() => onPin(message, target.id)}>
+                        {target.label}
+                      </Menu.Item>
+                    ))}
+                  </Menu.Dropdown>
+                </Menu>
+              )}
+              {onRegenerate && (
+                <Tooltip label="Regenerate answer">
+                  <ActionIcon
+                    size="sm"
+                    variant="subtle"
+                    color="gray"
+                    onClick={onRegenerate}
+                    aria-label="Regenerate answer"
+                  >
+                    <RotateCcw size={14} />
+                  </ActionIcon>
+                </Tooltip>
+              )}
+              <Tooltip label={copied ? 'Copied!' : 'Copy message'}>
+                <ActionIcon
+                  size="sm"
+                  variant="subtle"
+                  color="gray"
+                  onClick={handleCopy}
+                  aria-label="Copy message"
+                >
+                  {copied ? (
+                    <Check size={14} style={{ color: 'var(--compliant-green)' }} />
+                  ) : (
+                    <Copy size={14} />
+                  )}
+                </ActionIcon>
+              </Tooltip>
+            </Group>
           )}
         </Group>
       </Box>
@@ -549,6 +1128,128 @@ const MessageBubble = memo(function MessageBubble({ message }: MessageBubbleProp
   );
 });
 
+/**
+ * Message text with its citation markers ("[S12]") shown as chips
+ */
+function MessageContentWithCitations({
+  content,
+  citations,
+  onCitationClick,
+}: {
+  content: string;
+  citations: ChatCitation[];
+  onCitationClick?: (citation: ChatCitation) => void;
+}) {
+  const citationsById = useMemo(
+    () => new Map(citations.map((citation) => [citation.segmentId, citation])),
+    [citations]
+  );
+
+  return (
+    <>
+      {splitCitationMarkers(content).map((part, idx) => {
+        if (part.type === 'text') {
+          return <React.Fragment key={idx}>{part.text}</React.Fragment>;
+        }
+        return part.segmentIds.map((segmentId) => {
+          const citation = citationsById.get(segmentId);
+          return citation ? (
+            <CitationChip
+              key={`${idx}-${segmentId}`}
+              citation={citation}
+              onClick={onCitationClick}
+            />
+          ) : null;
+        });
+      })}
+    </>
+  );
+}
+
+/** Longest transcript label shown on a library chat citation chip */
+const MAX_CHIP_SOURCE_CHARS = 28;
+
+/**
+ * A cited segment's time (and transcript, in library chat); clicking it
+ * plays the segment
+ */
+function CitationChip({
+  citation,
+  onClick,
+}: {
+  citation: ChatCitation;
+  onClick?: (citation: ChatCitation) => void;
+}) {
+  const time = formatTimestamp(citation.start);
+  const source = citation.source && citation.source.length > MAX_CHIP_SOURCE_CHARS
+    ? `${citation.source.slice(0, MAX_CHIP_SOURCE_CHARS - 1)}…`
+    : citation.source;
+  const quote = citation.speaker ? `${citation.speaker}: ${citation.quote}` : citation.quote;
+  const chip = (
+    <Badge
+      component="span"
+      size="sm"
+      variant="light"
+      radius="sm"
+      leftSection={<Clock size={10} />}
+      style={{ textTransform: 'none', verticalAlign: 'baseline', cursor: onClick ? 'pointer' : 'default' }}
+    >
+      {source ? `${source} · ${time}` : time}
+    </Badge>
+  );
+
+  return (
+    <Tooltip
+      label={citation.source ? `${citation.source} — ${quote}` : quote}
+      multiline
+      w={320}
+      withArrow
+    >
+      {onClick ? (
+        <UnstyledButton
+          mx={2}
+          onClick={() => onClick(citation)}
+          aria-label={
+            citation.source ? `Open ${citation.source} at ${time}` : `Play transcript at ${time}`
+          }
+          style={{ display: 'inline-block' }}
+        >
+          {chip}
+        </UnstyledButton>
+      ) : (
+        <Box component="span" mx={2} style={{ display: 'inline-block' }}>
+          {chip}
+        </Box>
+      )}
+    </Tooltip>
+  );
+}
+
+/**
+ * An answer as it streams in. Its citation markers are left out until it
+ * is complete and they have been checked.
+ */
+function StreamingMessage({ content }: { content: string }) {
+  return (
+    <Box style={{ display: 'flex', justifyContent: 'flex-start', width: '100%' }}>
+      <Box style={{ maxWidth: '75%', minWidth: '200px' }}>
+        <Paper
+          p="md"
+          radius="md"
+          style={{
+            backgroundColor: 'var(--mantine-color-gray-1)',
+            wordBreak: 'break-word',
+          }}
+        >
+          <Text size="sm" component="div" style={{ whiteSpace: 'pre-wrap', lineHeight: 1.6 }}>
+            {stripCitationMarkers(content)}
+          </Text>
+        </Paper>
+      </Box>
+    </Box>
+  );
+}
+
 /**
  * Typing indicator component
  * Shows skeleton lines and animated dots while AI is generating response
@@ -667,14 +1368,7 @@ function TypingIndicator() {
  * Empty state component
  * Shows when there are no messages yet
  */
-function EmptyState() {
-  const suggestions = [
-    'What are the key takeaways from this transcript?',
-    'Summarize the main discussion points',
-    'What action items were mentioned?',
-    'Who were the main speakers?',
-  ];
-
+function EmptyState({ title, description, suggestions }: ChatEmptyStateContent) {
   return (
     <Box
       style={{
@@ -703,11 +1397,10 @@ function EmptyState() {
 
         <Stack align="center" gap="xs">
           <Text size="xl" fw={600} ta="center">
-            Ask me anything about this transcript
+            {title}
           </Text>
           <Text size="sm" c="dimmed" ta="center">
-            I can help you understand the content, find specific information, or summarize
-            key points.
+            {description}
           </Text>
         </Stack>
 
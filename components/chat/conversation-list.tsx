@@ -0,0 +1,200 @@
+/**
+ * Conversation List Component
+ *
+ * Sidebar of a transcript's chat conversations, most recent first, for
+ * switching between them, starting a new one, and renaming or deleting
+ * them. Conversations forked by editing a question are marked as edits.
+ */
+
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import {
+  ActionIcon,
+  Button,
+  Group,
+  Menu,
+  Modal,
+  ScrollArea,
+  Stack,
+  Text,
+  TextInput,
+  Tooltip,
+  UnstyledButton,
+} from '@mantine/core';
+import { modals } from '@mantine/modals';
+import { GitBranch, MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+import { formatMessageTimestamp, getConversationTitle, type Conversation } from '@/types/chat';
+
+export interface ConversationListProps {
+  /** Conversations, most recently updated first */
+  conversations: Conversation[];
+
+  /** ID of the conversation shown (null for a new one not yet saved) */
+  activeId: string | null;
+
+  onSelect: (conversationId: string) => void;
+
+  onNew: () => void;
+
+  onRename: (conversationId: string, title: string) => void;
+
+  onDelete: (conversationId: string) => void;
+
+  /** Switching is turned off while an answer is being generated */
+  disabled?: boolean;
+}
+
+/**
+ * List of conversations with new, rename and delete actions
+ */
+export function ConversationList({
+  conversations,
+  activeId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  disabled,
+}: ConversationListProps) {
+  const [renaming, setRenaming] = useState<Conversation | null>(null);
+  const [title, setTitle] = useState('');
+
+  const openRename = useCallback((conversation: Conversation) => {
+    setRenaming(conversation);
+    setTitle(getConversationTitle(conversation));
+  }, []);
+
+  const handleRename = useCallback(() => {
+    if (renaming && title.trim()) {
+      onRename(renaming.id, title.trim());
+    }
+    setRenaming(null);
+  }, [renaming, title, onRename]);
+
+  const confirmDelete = useCallback(
+    (conversation: Conversation) => {
+      modals.openConfirmModal({
+        title: 'Delete Conversation',
+        children: (
+          <Text size="sm">
+            Are you sure you want to delete &quot;{getConversationTitle(conversation)}&quot;? This
+            action cannot be undone.
+          </Text>
+        ),
+        labels: { confirm: 'Delete', cancel: 'Cancel' },
+        confirmProps: { color: 'red' },
+        onConfirm: () => onDelete(conversation.id),
+      });
+    },
+    [onDelete]
+  );
+
+  return (
+    <Stack gap="xs" h="100%">
+      <Button
+        size="xs"
+        variant="light"
+        leftSection={<Plus size={14} />}
+        onClick={onNew}
+        disabled={disabled || activeId === null}
+      >
+        New conversation
+      </Button>
+
+      <ScrollArea style={{ flex: 1 }} type="auto">
+        <Stack gap={2}>
+          {conversations.map((conversation) => {
+            const active = conversation.id === activeId;
+            return (
+              <Group
+                key={conversation.id}
+                gap={4}
+                wrap="nowrap"
+                px="xs"
+                py={6}
+                style={{
+                  borderRadius: 'var(--mantine-radius-sm)',
+                  backgroundColor: active ? 'var(--mantine-color-aphBlue-light)' : undefined,
+                }}
+              >
+                <UnstyledButton
+                  style={{ flex: 1, minWidth: 0 }}
+                  onClick={() => onSelect(conversation.id)}
+                  disabled={disabled}
+                  aria-current={active ? 'true' : undefined}
+                >
+                  <Group gap={4} wrap="nowrap">
+                    {conversation.forkedFrom && (
+                      <Tooltip label="Forked by editing a question">
+                        <GitBranch size={12} style={{ flexShrink: 0 }} />
+                      </Tooltip>
+                    )}
+                    <Text size="sm" fw={active ? 600 : 400} truncate>
+                      {getConversationTitle(conversation)}
+                    </Text>
+                  </Group>
+                  <Text size="xs" c="dimmed">
+                    {formatMessageTimestamp(conversation.updatedAt)}
+                  </Text>
+                </UnstyledButton>
+
+                <Menu position="bottom-end" withinPortal>
+                  <Menu.Target>
+                    <ActionIcon
+                      size="sm"
+                      variant="subtle"
+                      color="gray"
+                      disabled={disabled}
+                      aria-label="Conversation actions"
+                    >
+                      <MoreHorizontal size={14} />
+                    </ActionIcon>
+                  </Menu.Target>
+                  <Menu.Dropdown>
+                    <Menu.Item
+                      leftSection={<Pencil size={14} />}
+                      onClick={() => openRename(conversation)}
+                    >
+                      Rename
+                    </Menu.Item>
+                    <Menu.Item
+                      color="red"
+                      leftSection={<Trash2 size={14} />}
+                      onClick={() => confirmDelete(conversation)}
+                    >
+                      Delete
+                    </Menu.Item>
+                  </Menu.Dropdown>
+                </Menu>
+              </Group>
+            );
+          })}
+        </Stack>
+      </ScrollArea>
+
+      <Modal opened={renaming !== null} onClose={() => setRenaming(null)} title="Rename Conversation" centered>
+        <Stack gap="md">
+          <TextInput
+            value={title}
+            onChange={(event) => setTitle(event.currentTarget.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') handleRename();
+            }}
+            maxLength={100}
+            data-autofocus
+            aria-label="Conversation name"
+          />
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRename} disabled={!title.trim()}>
+              Rename
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+    </Stack>
+  );
+}
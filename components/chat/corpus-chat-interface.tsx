@@ -0,0 +1,89 @@
+/**
+ * Library Chat Interface Component
+ *
+ * Q&A across many transcripts: the whole library over a period, or one
+ * incident's channels. Each question is answered from the segments the
+ * browser retrieves from its own index, and citation chips open the cited
+ * transcript at the cited time.
+ */
+
+'use client';
+
+import React, { useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Alert, Group, Loader, Stack, Text } from '@mantine/core';
+import { Library } from 'lucide-react';
+import { useChat } from '@/hooks/use-chat';
+import { corpusConversationKey, useCorpusChat, type CorpusScope } from '@/hooks/use-corpus-chat';
+import { ChatPanel, type ChatEmptyStateContent } from '@/components/chat/chat-interface';
+import type { ChatCitation } from '@/types/chat';
+
+export interface CorpusChatInterfaceProps {
+  /** The transcripts to search */
+  scope: CorpusScope;
+}
+
+const CORPUS_EMPTY_STATE: ChatEmptyStateContent = {
+  title: 'Ask across your transcripts',
+  description:
+    'Questions are answered from the radio traffic that best matches them, with citations that open each transcript at the right moment.',
+  suggestions: [
+    'Which incidents had no PAR after a strategy change?',
+    'Where was a mayday declared, and how was it handled?',
+    'Which incidents mention a second alarm?',
+    'How was command transferred in these incidents?',
+  ],
+};
+
+/**
+ * Chat across the transcripts in a scope
+ */
+export function CorpusChatInterface({ scope }: CorpusChatInterfaceProps) {
+  const router = useRouter();
+  const { source, transcriptCount, label, isLoading } = useCorpusChat(scope);
+  const conversationKey = corpusConversationKey(scope);
+  const chat = useChat(conversationKey, '', undefined, { corpus: source });
+
+  const handleCitationClick = useCallback(
+    (citation: ChatCitation) => {
+      if (citation.transcriptId) {
+        router.push(`/transcripts/${citation.transcriptId}?t=${citation.start}`);
+      }
+    },
+    [router]
+  );
+
+  if (isLoading) {
+    return (
+      <Group justify="center" py="xl">
+        <Loader />
+      </Group>
+    );
+  }
+
+  if (transcriptCount === 0) {
+    return (
+      <Alert color="gray" variant="light" icon={<Library size={16} />} title="No transcripts to search">
+        <Text size="sm">There are no transcripts in {label.toLowerCase()}.</Text>
+      </Alert>
+    );
+  }
+
+  return (
+    <Stack gap="xs">
+      <Text size="sm" c="dimmed">
+        Searching {transcriptCount} {transcriptCount === 1 ? 'transcript' : 'transcripts'}. Only the
+        radio traffic most relevant to each question is sent to the AI.
+      </Text>
+      <ChatPanel
+        chat={chat}
+        exportName={conversationKey.replace(/[^a-z0-9]+/gi, '-')}
+        exportDetails={{ scope: label, transcriptCount }}
+        exportSubject={label}
+        placeholder="Ask a question across these transcripts..."
+        emptyState={CORPUS_EMPTY_STATE}
+        onCitationClick={handleCitationClick}
+      />
+    </Stack>
+  );
+}
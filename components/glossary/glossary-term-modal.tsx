@@ -0,0 +1,145 @@
+/**
+ * Glossary Term Modal
+ *
+ * Create/edit form for a glossary term: the correct spelling, the
+ * department it applies to, and the misheard forms to replace.
+ */
+
+"use client";
+
+import { useState } from "react";
+import {
+  Button,
+  Group,
+  Modal,
+  Select,
+  Stack,
+  TagsInput,
+  Text,
+  TextInput,
+  Textarea,
+} from "@mantine/core";
+import { BookA, Save } from "lucide-react";
+import { getDepartmentsForSelect } from "@/lib/departments";
+import {
+  GLOSSARY_ALL_DEPARTMENTS,
+  type GlossaryTerm,
+  type GlossaryTermInput,
+} from "@/types/glossary";
+
+const DEPARTMENT_OPTIONS = [
+  { value: GLOSSARY_ALL_DEPARTMENTS, label: "All departments" },
+  ...getDepartmentsForSelect().map((d) => ({ value: d.value, label: d.label })),
+];
+
+export interface GlossaryTermModalProps {
+  /** Whether the modal is open */
+  opened: boolean;
+  /** Callback when modal is closed */
+  onClose: () => void;
+  /** Existing term when editing */
+  term?: GlossaryTerm;
+  /** Persist the term */
+  onSave: (input: GlossaryTermInput) => Promise<void>;
+}
+
+function GlossaryTermForm({
+  term,
+  onSave,
+  onClose,
+}: Pick<GlossaryTermModalProps, "term" | "onSave" | "onClose">) {
+  const [value, setValue] = useState(term?.term ?? "");
+  const [department, setDepartment] = useState(
+    term?.department ?? GLOSSARY_ALL_DEPARTMENTS,
+  );
+  const [variants, setVariants] = useState<string[]>(term?.variants ?? []);
+  const [notes, setNotes] = useState(term?.notes ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!value.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave({ term: value, department, variants, notes });
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Stack gap="md">
+      <TextInput
+        label="Term"
+        description="Spelled the way it should appear in transcripts"
+        placeholder="e.g. Quint 22"
+        required
+        value={value}
+        onChange={(e) => setValue(e.currentTarget.value)}
+      />
+      <Select
+        label="Department"
+        data={DEPARTMENT_OPTIONS}
+        value={department}
+        onChange={(v) => setDepartment(v ?? GLOSSARY_ALL_DEPARTMENTS)}
+        allowDeselect={false}
+      />
+      <TagsInput
+        label="Misheard as"
+        description="Replaced with the term after transcription, ignoring case. Press Enter after each."
+        placeholder="e.g. Clint 22"
+        value={variants}
+        onChange={setVariants}
+        clearable
+      />
+      <Textarea
+        label="Notes"
+        placeholder="What the term means or when it is used"
+        autosize
+        minRows={2}
+        value={notes}
+        onChange={(e) => setNotes(e.currentTarget.value)}
+      />
+      <Group justify="flex-end">
+        <Button variant="default" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          leftSection={<Save size={16} />}
+          disabled={!value.trim()}
+          loading={isSaving}
+          onClick={handleSave}
+        >
+          Save term
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
+
+/**
+ * Modal for adding or editing a glossary term.
+ */
+export function GlossaryTermModal({
+  opened,
+  onClose,
+  term,
+  onSave,
+}: GlossaryTermModalProps) {
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={
+        <Text fw={600} component="span">
+          <BookA size={16} style={{ verticalAlign: "middle", marginRight: 8 }} />
+          {term ? "Edit term" : "Add term"}
+        </Text>
+      }
+    >
+      {opened && (
+        <GlossaryTermForm key={term?.id ?? "new"} term={term} onSave={onSave} onClose={onClose} />
+      )}
+    </Modal>
+  );
+}
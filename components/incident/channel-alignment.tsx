@@ -0,0 +1,241 @@
+"use client";
+
+import * as React from "react";
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  Badge,
+  Button,
+  Group,
+  NumberInput,
+  Popover,
+  Select,
+  Stack,
+  Table,
+  Text,
+} from "@mantine/core";
+import { Clock, Save } from "lucide-react";
+import { deriveChannelOffset } from "@/lib/incident-timeline";
+import { formatDuration } from "@/lib/utils/format";
+import { getChannelColor } from "@/components/incident/incident-timeline";
+import type { VisinetEvent } from "@/lib/visinet-parser";
+import type { IncidentChannel } from "@/types/incident";
+import type { Transcript } from "@/types/transcript";
+
+interface AlignToCadProps {
+  events: VisinetEvent[];
+  incidentStart: Date;
+  onApply: (offsetSeconds: number) => void;
+}
+
+/**
+ * Popover that derives a channel offset from a CAD event heard on the
+ * recording (e.g. "ENG14 arrived" is heard 45s into the TAC recording).
+ */
+function AlignToCad({ events, incidentStart, onApply }: AlignToCadProps) {
+  const [opened, setOpened] = useState(false);
+  const [eventId, setEventId] = useState<string | null>(null);
+  const [heardAt, setHeardAt] = useState<number | string>(0);
+
+  const event = events.find((e) => e.id === eventId);
+
+  const handleApply = () => {
+    if (!event) return;
+    onApply(deriveChannelOffset(event.at, incidentStart, Number(heardAt) || 0));
+    setOpened(false);
+  };
+
+  return (
+    <Popover opened={opened} onChange={setOpened} width={320} withArrow>
+      <Popover.Target>
+        <Button
+          size="xs"
+          variant="light"
+          leftSection={<Clock size={14} />}
+          onClick={() => setOpened((o) => !o)}
+        >
+          Align to CAD
+        </Button>
+      </Popover.Target>
+      <Popover.Dropdown>
+        <Stack gap="sm">
+          <Select
+            label="CAD event"
+            placeholder="Select an event"
+            data={events.map((e) => ({
+              value: e.id,
+              label: `${e.at.toLocaleTimeString()} – ${e.label}`,
+            }))}
+            value={eventId}
+            onChange={setEventId}
+            searchable
+            comboboxProps={{ withinPortal: false }}
+          />
+          <NumberInput
+            label="Heard at (seconds into recording)"
+            min={0}
+            decimalScale={1}
+            value={heardAt}
+            onChange={setHeardAt}
+          />
+          <Button size="xs" onClick={handleApply} disabled={!event}>
+            Apply
+          </Button>
+        </Stack>
+      </Popover.Dropdown>
+    </Popover>
+  );
+}
+
+interface ChannelAlignmentProps {
+  /** Incident channels in display order */
+  channels: IncidentChannel[];
+  /** Member transcripts */
+  transcripts: Transcript[];
+  /** Events from an attached Visinet CAD report */
+  events: VisinetEvent[];
+  /** Wall-clock start of the incident (offset 0), if known */
+  incidentStart?: Date;
+  /** Persist updated channel offsets */
+  onSave: (channels: IncidentChannel[]) => Promise<void>;
+}
+
+/**
+ * Channel Alignment
+ *
+ * Lists an incident's channels and lets the user place each recording on
+ * the incident's wall-clock axis, either by entering its start offset or by
+ * aligning it to a CAD event from the Visinet report.
+ */
+export function ChannelAlignment({
+  channels,
+  transcripts,
+  events,
+  incidentStart,
+  onSave,
+}: ChannelAlignmentProps) {
+  const [offsets, setOffsets] = useState<Array<number | string>>(() =>
+    channels.map((c) => c.offsetSeconds ?? 0),
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const transcriptById = useMemo(
+    () => new Map(transcripts.map((t) => [t.id, t])),
+    [transcripts],
+  );
+
+  const isDirty = channels.some(
+    (c, idx) => (Number(offsets[idx]) || 0) !== (c.offsetSeconds ?? 0),
+  );
+
+  const setOffset = (index: number, value: number | string) => {
+    setOffsets((prev) => prev.map((o, idx) => (idx === index ? value : o)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(
+        channels.map((c, idx) => ({
+          ...c,
+          offsetSeconds: Number(offsets[idx]) || 0,
+        })),
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (channels.length === 0) {
+    return (
+      <Text size="sm" c="dimmed">
+        No transcripts yet. Edit the incident to add recordings.
+      </Text>
+    );
+  }
+
+  return (
+    <Stack gap="md">
+      <Text size="sm" c="dimmed">
+        Start offset is how many seconds after the start of the incident each
+        recording begins. It places every channel on one timeline.
+        {events.length > 0 && incidentStart
+          ? " Use Align to CAD to derive it from a Visinet time stamp heard on the recording."
+          : " Attach a Visinet CAD report to align channels to CAD time stamps."}
+      </Text>
+
+      <Table>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th>Channel</Table.Th>
+            <Table.Th>Recording</Table.Th>
+            <Table.Th>Duration</Table.Th>
+            <Table.Th>Segments</Table.Th>
+            <Table.Th>Start offset (s)</Table.Th>
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody>
+          {channels.map((channel, idx) => {
+            const transcript = transcriptById.get(channel.transcriptId);
+            return (
+              <Table.Tr key={channel.transcriptId}>
+                <Table.Td>
+                  <Badge variant="light" color={getChannelColor(idx)}>
+                    {channel.label}
+                  </Badge>
+                </Table.Td>
+                <Table.Td>
+                  {transcript ? (
+                    <Link href={`/transcripts/${transcript.id}`}>
+                      {transcript.filename}
+                    </Link>
+                  ) : (
+                    <Text size="sm" c="dimmed">
+                      Missing transcript
+                    </Text>
+                  )}
+                </Table.Td>
+                <Table.Td>
+                  {transcript
+                    ? formatDuration(transcript.metadata.duration)
+                    : "—"}
+                </Table.Td>
+                <Table.Td>{transcript?.segments.length ?? "—"}</Table.Td>
+                <Table.Td>
+                  <Group gap="xs" wrap="nowrap">
+                    <NumberInput
+                      aria-label={`Start offset for ${channel.label}`}
+                      value={offsets[idx]}
+                      onChange={(value) => setOffset(idx, value)}
+                      decimalScale={1}
+                      w={110}
+                      size="xs"
+                    />
+                    {events.length > 0 && incidentStart && (
+                      <AlignToCad
+                        events={events}
+                        incidentStart={incidentStart}
+                        onApply={(offset) => setOffset(idx, offset)}
+                      />
+                    )}
+                  </Group>
+                </Table.Td>
+              </Table.Tr>
+            );
+          })}
+        </Table.Tbody>
+      </Table>
+
+      <Group justify="flex-end">
+        <Button
+          leftSection={<Save size={16} />}
+          onClick={handleSave}
+          disabled={!isDirty}
+          loading={isSaving}
+        >
+          Save Alignment
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
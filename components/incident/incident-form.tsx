@@ -0,0 +1,308 @@
+"use client";
+
+import * as React from "react";
+import { useMemo, useState } from "react";
+import {
+  ActionIcon,
+  Button,
+  Group,
+  MultiSelect,
+  Paper,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+  Textarea,
+  Title,
+} from "@mantine/core";
+import { notifications } from "@mantine/notifications";
+import { ArrowDown, ArrowUp, Radio, Save } from "lucide-react";
+import { useTranscripts } from "@/hooks/use-transcripts";
+import { getDepartmentsForSelect } from "@/lib/departments";
+import type { Incident, IncidentChannel, IncidentInput } from "@/types/incident";
+
+/**
+ * Format a Date for a datetime-local input (local time, minute precision)
+ */
+function toDateTimeLocalValue(date?: Date): string {
+  if (!date) return "";
+  const d = date instanceof Date ? date : new Date(date);
+  if (Number.isNaN(d.getTime())) return "";
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/**
+ * Guess a channel label from a recording filename
+ */
+function guessChannelLabel(filename: string, position: number): string {
+  const lower = filename.toLowerCase();
+  if (lower.includes("dispatch")) return "Dispatch";
+  if (lower.includes("command")) return "Command";
+  const tac = lower.match(/tac[\s_-]*(\d+)/);
+  if (tac) return `TAC ${tac[1]}`;
+  if (lower.includes("tac")) return "TAC";
+  return `Channel ${position + 1}`;
+}
+
+interface IncidentFormProps {
+  /** Existing incident when editing */
+  incident?: Incident;
+  /** Transcript IDs to preselect when creating */
+  initialTranscriptIds?: string[];
+  /** Persist the incident */
+  onSave: (input: IncidentInput) => Promise<void>;
+  /** Cancel editing */
+  onCancel: () => void;
+}
+
+/**
+ * Incident Form
+ *
+ * Create/edit form for incidents: details plus the radio channels
+ * (transcripts) that belong to the incident.
+ */
+export function IncidentForm({
+  incident,
+  initialTranscriptIds,
+  onSave,
+  onCancel,
+}: IncidentFormProps) {
+  const { transcripts, isLoading: transcriptsLoading } = useTranscripts();
+
+  const [name, setName] = useState(incident?.name ?? "");
+  const [incidentNumber, setIncidentNumber] = useState(
+    incident?.incidentNumber ?? "",
+  );
+  const [location, setLocation] = useState(incident?.location ?? "");
+  const [occurredAt, setOccurredAt] = useState(
+    toDateTimeLocalValue(incident?.occurredAt),
+  );
+  const [department, setDepartment] = useState<string | null>(
+    incident?.department ?? null,
+  );
+  const [notes, setNotes] = useState(incident?.notes ?? "");
+  const [channels, setChannels] = useState<IncidentChannel[]>(
+    () =>
+      incident?.channels ??
+      (initialTranscriptIds ?? []).map((id, idx) => ({
+        transcriptId: id,
+        label: `Channel ${idx + 1}`,
+      })),
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const transcriptById = useMemo(
+    () => new Map(transcripts.map((t) => [t.id, t])),
+    [transcripts],
+  );
+
+  const handleTranscriptSelection = (ids: string[]) => {
+    setChannels((prev) => {
+      const existing = new Map(prev.map((c) => [c.transcriptId, c]));
+      return ids.map(
+        (id, idx) =>
+          existing.get(id) ?? {
+            transcriptId: id,
+            label: guessChannelLabel(
+              transcriptById.get(id)?.filename ?? "",
+              idx,
+            ),
+          },
+      );
+    });
+  };
+
+  const moveChannel = (index: number, direction: -1 | 1) => {
+    setChannels((prev) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const setChannelLabel = (index: number, label: string) => {
+    setChannels((prev) =>
+      prev.map((c, idx) => (idx === index ? { ...c, label } : c)),
+    );
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      notifications.show({
+        title: "Name required",
+        message: "Give the incident a name before saving.",
+        color: "red",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        name: name.trim(),
+        incidentNumber: incidentNumber.trim() || undefined,
+        location: location.trim() || undefined,
+        occurredAt: occurredAt ? new Date(occurredAt) : undefined,
+        department: department ?? undefined,
+        notes: notes.trim() || undefined,
+        channels,
+      });
+    } catch (error) {
+      notifications.show({
+        title: "Save failed",
+        message:
+          error instanceof Error ? error.message : "Failed to save incident",
+        color: "red",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Stack gap="lg">
+        <Paper p="lg" radius="md" withBorder>
+          <Stack gap="md">
+            <Title order={3} size="h4">
+              Incident Details
+            </Title>
+            <TextInput
+              label="Name"
+              placeholder="e.g. Structure fire - 2000 E 51st St"
+              value={name}
+              onChange={(e) => setName(e.currentTarget.value)}
+              required
+            />
+            <Group grow align="flex-start">
+              <TextInput
+                label="Incident number"
+                placeholder="CAD incident number"
+                value={incidentNumber}
+                onChange={(e) => setIncidentNumber(e.currentTarget.value)}
+              />
+              <TextInput
+                label="Date & time"
+                type="datetime-local"
+                value={occurredAt}
+                onChange={(e) => setOccurredAt(e.currentTarget.value)}
+              />
+            </Group>
+            <Group grow align="flex-start">
+              <TextInput
+                label="Location"
+                placeholder="Address or location"
+                value={location}
+                onChange={(e) => setLocation(e.currentTarget.value)}
+              />
+              <Select
+                label="Department"
+                placeholder="Optional"
+                data={getDepartmentsForSelect().map((d) => ({
+                  value: d.value,
+                  label: d.label,
+                }))}
+                value={department}
+                onChange={setDepartment}
+                clearable
+              />
+            </Group>
+            <Textarea
+              label="Notes"
+              autosize
+              minRows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.currentTarget.value)}
+            />
+          </Stack>
+        </Paper>
+
+        <Paper p="lg" radius="md" withBorder>
+          <Stack gap="md">
+            <Stack gap={4}>
+              <Title order={3} size="h4">
+                Radio Channels
+              </Title>
+              <Text size="sm" c="dimmed">
+                Select every recording of this incident. A transcript can only
+                belong to one incident; selecting it here moves it from any
+                other incident.
+              </Text>
+            </Stack>
+
+            <MultiSelect
+              label="Transcripts"
+              placeholder={
+                transcriptsLoading ? "Loading transcripts…" : "Select recordings"
+              }
+              data={transcripts.map((t) => ({
+                value: t.id,
+                label: t.filename,
+              }))}
+              value={channels.map((c) => c.transcriptId)}
+              onChange={handleTranscriptSelection}
+              searchable
+              clearable
+              disabled={transcriptsLoading}
+            />
+
+            {channels.length > 0 && (
+              <Stack gap="xs">
+                {channels.map((channel, idx) => (
+                  <Group key={channel.transcriptId} gap="sm" wrap="nowrap">
+                    <Radio size={16} style={{ flexShrink: 0 }} />
+                    <TextInput
+                      aria-label="Channel label"
+                      value={channel.label}
+                      onChange={(e) =>
+                        setChannelLabel(idx, e.currentTarget.value)
+                      }
+                      w={160}
+                    />
+                    <Text size="sm" style={{ flex: 1 }} truncate>
+                      {transcriptById.get(channel.transcriptId)?.filename ??
+                        "Missing transcript"}
+                    </Text>
+                    <ActionIcon
+                      variant="subtle"
+                      aria-label="Move up"
+                      onClick={() => moveChannel(idx, -1)}
+                      disabled={idx === 0}
+                    >
+                      <ArrowUp size={16} />
+                    </ActionIcon>
+                    <ActionIcon
+                      variant="subtle"
+                      aria-label="Move down"
+                      onClick={() => moveChannel(idx, 1)}
+                      disabled={idx === channels.length - 1}
+                    >
+                      <ArrowDown size={16} />
+                    </ActionIcon>
+                  </Group>
+                ))}
+              </Stack>
+            )}
+          </Stack>
+        </Paper>
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            leftSection={<Save size={16} />}
+            loading={isSaving}
+          >
+            Save Incident
+          </Button>
+        </Group>
+      </Stack>
+    </form>
+  );
+}
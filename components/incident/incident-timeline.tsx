@@ -0,0 +1,338 @@
+"use client";
+
+import * as React from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import {
+  Box,
+  Chip,
+  Group,
+  Loader,
+  Paper,
+  SegmentedControl,
+  Stack,
+  Text,
+} from "@mantine/core";
+import { SegmentList } from "@/components/transcript/segment-list";
+import { getAudioFile, revokeAudioUrl } from "@/lib/audio-storage";
+import {
+  buildIncidentTimeline,
+  getTimelineOrigin,
+  mergeIncidentSegments,
+} from "@/lib/incident-timeline";
+import { findSegmentForTimestamp } from "@/lib/scorecard-evidence-utils";
+import type { AudioPlayerControls } from "@/types/audio";
+import type { TranscriptAnnotation } from "@/types/annotation";
+import type { Incident, SegmentChannelBadge } from "@/types/incident";
+import type { Transcript, TranscriptSegment } from "@/types/transcript";
+
+// Dynamic import for RadioPlaybackInterface (contains heavy WaveSurfer dependency)
+const RadioPlaybackInterface = dynamic(
+  () =>
+    import("@/components/audio/radio-playback-interface").then(
+      (mod) => mod.RadioPlaybackInterface,
+    ),
+  {
+    ssr: false,
+    loading: () => (
+      <Group justify="center" h={200}>
+        <Loader size="sm" />
+      </Group>
+    ),
+  },
+);
+
+/** Badge colors assigned to channels in display order */
+const CHANNEL_COLORS = ["blue", "orange", "grape", "teal", "pink", "lime"];
+
+/**
+ * Get the badge color for a channel position
+ */
+export function getChannelColor(position: number): string {
+  return CHANNEL_COLORS[position % CHANNEL_COLORS.length];
+}
+
+interface IncidentTimelineProps {
+  /** Incident whose channels (labels, order, offsets) define the timeline */
+  incident: Pick<Incident, "channels">;
+  /** Member transcripts */
+  transcripts: Transcript[];
+  /** Annotations for any of the member transcripts */
+  annotations?: TranscriptAnnotation[];
+  /** Wall-clock time the incident started (offset 0), if known */
+  incidentStart?: Date;
+}
+
+/**
+ * Incident Timeline
+ *
+ * Interleaves the radio traffic of every channel of an incident on one
+ * wall-clock axis. Selecting a segment plays it from the recording it
+ * belongs to, switching channels when needed.
+ */
+export function IncidentTimeline({
+  incident,
+  transcripts,
+  annotations,
+  incidentStart,
+}: IncidentTimelineProps) {
+  const { channels } = incident;
+
+  const [visibleChannels, setVisibleChannels] = useState<string[]>(() =>
+    channels.map((c) => c.transcriptId),
+  );
+  const [activeTranscriptId, setActiveTranscriptId] = useState<string | null>(
+    () => channels[0]?.transcriptId ?? null,
+  );
+  const [activeSegmentIndex, setActiveSegmentIndex] = useState<number>();
+  const [pendingSeek, setPendingSeek] = useState<number>();
+  const [audio, setAudio] = useState<{
+    transcriptId: string;
+    url: string | null;
+  } | null>(null);
+  const controlsRef = useRef<AudioPlayerControls | null>(null);
+
+  const { segments, sources } = useMemo(
+    () =>
+      mergeIncidentSegments(
+        buildIncidentTimeline({ incident, transcripts }),
+      ),
+    [incident, transcripts],
+  );
+
+  const colorByTranscript = useMemo(
+    () =>
+      new Map(channels.map((c, idx) => [c.transcriptId, getChannelColor(idx)])),
+    [channels],
+  );
+
+  const channelBadges = useMemo(() => {
+    const badges = new Map<number, SegmentChannelBadge>();
+    sources.forEach((source, idx) => {
+      badges.set(idx, {
+        label: source.channelLabel,
+        color: colorByTranscript.get(source.transcriptId) ?? "gray",
+      });
+    });
+    return badges;
+  }, [sources, colorByTranscript]);
+
+  // Attach each annotation to the merged segment it was written against
+  const annotationsBySegment = useMemo(() => {
+    const map = new Map<number, TranscriptAnnotation[]>();
+    if (!annotations?.length) return map;
+
+    const mergedIndexByKey = new Map(
+      sources.map((s, idx) => [`${s.transcriptId}:${s.segmentIndex}`, idx]),
+    );
+    const transcriptById = new Map(transcripts.map((t) => [t.id, t]));
+
+    for (const annotation of annotations) {
+      const transcript = transcriptById.get(annotation.transcriptId);
+      if (!transcript) continue;
+      const segmentIndex = findSegmentForTimestamp(
+        annotation.timestamp,
+        transcript.segments,
+      );
+      if (segmentIndex === null) continue;
+      const mergedIndex = mergedIndexByKey.get(
+        `${annotation.transcriptId}:${segmentIndex}`,
+      );
+      if (mergedIndex === undefined) continue;
+      map.set(mergedIndex, [...(map.get(mergedIndex) ?? []), annotation]);
+    }
+    return map;
+  }, [annotations, sources, transcripts]);
+
+  const visibleSegments = useMemo(() => {
+    const visible = new Set(visibleChannels);
+    return segments.filter((s) => visible.has(sources[s.index].transcriptId));
+  }, [segments, sources, visibleChannels]);
+
+  const activeChannel = channels.find(
+    (c) => c.transcriptId === activeTranscriptId,
+  );
+  const activeTranscript = transcripts.find(
+    (t) => t.id === activeTranscriptId,
+  );
+  const activeShift = activeChannel
+    ? (activeChannel.offsetSeconds ?? 0) - getTimelineOrigin(channels)
+    : 0;
+
+  // Load the active channel's recording from IndexedDB
+  useEffect(() => {
+    if (!activeTranscriptId) return;
+
+    let mounted = true;
+    let currentAudioUrl: string | null = null;
+
+    getAudioFile(activeTranscriptId)
+      .then((result) => {
+        if (!mounted) {
+          if (result) revokeAudioUrl(result.audioUrl);
+          return;
+        }
+        currentAudioUrl = result?.audioUrl ?? null;
+        setAudio({ transcriptId: activeTranscriptId, url: currentAudioUrl });
+      })
+      .catch((error) => {
+        if (mounted) {
+          console.error("Failed to load audio:", error);
+          setAudio({ transcriptId: activeTranscriptId, url: null });
+        }
+      });
+
+    return () => {
+      mounted = false;
+      if (currentAudioUrl) {
+        revokeAudioUrl(currentAudioUrl);
+      }
+    };
+  }, [activeTranscriptId]);
+
+  const handleControlsReady = useCallback((controls: AudioPlayerControls) => {
+    controlsRef.current = controls;
+  }, []);
+
+  const handleSegmentChange = useCallback(
+    (_segment: TranscriptSegment | null, index: number) => {
+      setActiveSegmentIndex(index);
+    },
+    [],
+  );
+
+  // Play a merged segment from the recording it belongs to
+  const handleSegmentSelect = useCallback(
+    (index: number) => {
+      const source = sources[index];
+      if (!source) return;
+
+      setActiveSegmentIndex(index);
+      if (source.transcriptId === activeTranscriptId && controlsRef.current) {
+        controlsRef.current.seek(source.localStart);
+        return;
+      }
+      controlsRef.current = null;
+      setPendingSeek(source.localStart);
+      setActiveTranscriptId(source.transcriptId);
+    },
+    [sources, activeTranscriptId],
+  );
+
+  const handleChannelChange = (transcriptId: string) => {
+    controlsRef.current = null;
+    setPendingSeek(undefined);
+    setActiveTranscriptId(transcriptId);
+  };
+
+  if (segments.length === 0) {
+    return (
+      <Text size="sm" c="dimmed">
+        No radio traffic yet. Add transcripts to this incident to build its
+        timeline.
+      </Text>
+    );
+  }
+
+  const audioLoaded = audio?.transcriptId === activeTranscriptId;
+  const audioUrl = audioLoaded ? audio.url : null;
+  const timelineZero = incidentStart
+    ? new Date(
+        incidentStart.getTime() + getTimelineOrigin(channels) * 1000,
+      )
+    : null;
+
+  return (
+    <Stack gap="md">
+      {channels.length > 1 && (
+        <Group gap="sm">
+          <Text size="sm" fw={500}>
+            Playing
+          </Text>
+          <SegmentedControl
+            size="xs"
+            value={activeTranscriptId ?? ""}
+            onChange={handleChannelChange}
+            data={channels.map((c) => ({
+              value: c.transcriptId,
+              label: c.label,
+            }))}
+          />
+        </Group>
+      )}
+
+      {activeTranscript && (
+        <Paper p="md" radius="md" withBorder>
+          {!audioLoaded ? (
+            <Group justify="center" h={120}>
+              <Loader size="sm" />
+            </Group>
+          ) : audioUrl ? (
+            <RadioPlaybackInterface
+              key={activeTranscript.id}
+              audioUrl={audioUrl}
+              cacheKey={activeTranscript.id}
+              segments={segments}
+              duration={activeTranscript.metadata.duration}
+              wordCount={
+                activeTranscript.text.split(/\s+/).filter(Boolean).length
+              }
+              fileSize={activeTranscript.metadata.fileSize}
+              onSegmentChange={handleSegmentChange}
+              onControlsReady={handleControlsReady}
+              annotationsBySegment={annotationsBySegment}
+              channelBadges={channelBadges}
+              timeOffset={activeShift}
+              onSegmentSelect={handleSegmentSelect}
+              initialTime={pendingSeek}
+            />
+          ) : (
+            <Text size="sm" c="dimmed">
+              No audio stored for {activeChannel?.label ?? "this channel"}.
+              The transcript can still be reviewed below.
+            </Text>
+          )}
+        </Paper>
+      )}
+
+      <Group justify="space-between" align="center">
+        {channels.length > 1 ? (
+          <Chip.Group
+            multiple
+            value={visibleChannels}
+            onChange={setVisibleChannels}
+          >
+            <Group gap="xs">
+              {channels.map((channel) => (
+                <Chip
+                  key={channel.transcriptId}
+                  value={channel.transcriptId}
+                  color={colorByTranscript.get(channel.transcriptId)}
+                  size="sm"
+                >
+                  {channel.label}
+                </Chip>
+              ))}
+            </Group>
+          </Chip.Group>
+        ) : (
+          <Box />
+        )}
+        {timelineZero && (
+          <Text size="xs" c="dimmed">
+            0:00 = {timelineZero.toLocaleTimeString()}
+          </Text>
+        )}
+      </Group>
+
+      <SegmentList
+        segments={visibleSegments}
+        activeSegmentIndex={activeSegmentIndex}
+        onSegmentClick={handleSegmentSelect}
+        annotationsBySegment={annotationsBySegment}
+        showAnnotations
+        channelBadges={channelBadges}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import * as React from "react";
+import { Lock, ShieldCheck, KeyRound, LockOpen } from "lucide-react";
+import { Alert, Badge, Button, Card, Group, Select, Stack, Text } from "@mantine/core";
+import { notifications } from "@mantine/notifications";
+import {
+  changeEncryptionPassphrase,
+  disableEncryption,
+  enableEncryption,
+  lockEncryption,
+  unlockEncryption,
+  type EncryptionMigrationProgress,
+} from "@/lib/db";
+import {
+  AUTO_LOCK_OPTIONS,
+  getAutoLockMinutesPreference,
+  setAutoLockMinutesPreference,
+} from "@/lib/storage";
+import { useEncryptionStatus } from "@/hooks/use-encryption";
+import { PassphraseModal } from "@/components/package/passphrase-modal";
+
+type EncryptionDialog = "enable" | "change-current" | "change-new" | "disable";
+
+const DIALOG_TITLES: Record<EncryptionDialog, string> = {
+  enable: "Turn On Encryption",
+  "change-current": "Change Passphrase",
+  "change-new": "Change Passphrase",
+  disable: "Turn Off Encryption",
+};
+
+const SUBMIT_LABELS: Record<EncryptionDialog, string> = {
+  enable: "Encrypt",
+  "change-current": "Next",
+  "change-new": "Save",
+  disable: "Turn Off",
+};
+
+function formatProgress({ table, done, total }: EncryptionMigrationProgress): string {
+  return `Updating ${table} (${done}/${total})...`;
+}
+
+/**
+ * Settings card for encryption at rest: turn it on or off, change the
+ * passphrase, lock now and choose the auto-lock timeout
+ */
+export function EncryptionSettings() {
+  const status = useEncryptionStatus();
+  const [dialog, setDialog] = React.useState<EncryptionDialog | null>(null);
+  const [dialogError, setDialogError] = React.useState<string | null>(null);
+  const [isWorking, setIsWorking] = React.useState(false);
+  const [progress, setProgress] = React.useState<string | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = React.useState(getAutoLockMinutesPreference);
+  const currentPassphraseRef = React.useRef("");
+
+  const openDialog = (next: EncryptionDialog | null) => {
+    setDialogError(null);
+    setDialog(next);
+  };
+
+  const handleAutoLockChange = (value: string | null) => {
+    if (value === null) return;
+    const minutes = Number(value);
+    setAutoLockMinutes(minutes);
+    setAutoLockMinutesPreference(minutes);
+  };
+
+  const handleSubmit = async (passphrase: string) => {
+    setIsWorking(true);
+    setDialogError(null);
+    try {
+      switch (dialog) {
+        case "enable":
+          await enableEncryption(passphrase, (p) => setProgress(formatProgress(p)));
+          notifications.show({
+            title: "Encryption On",
+            message: "Local data is now encrypted. Keep your passphrase somewhere safe.",
+            color: "green",
+          });
+          openDialog(null);
+          break;
+        case "change-current":
+          // Confirms the current passphrase before asking for the new one
+          await unlockEncryption(passphrase);
+          currentPassphraseRef.current = passphrase;
+          openDialog("change-new");
+          break;
+        case "change-new":
+          await changeEncryptionPassphrase(currentPassphraseRef.current, passphrase);
+          currentPassphraseRef.current = "";
+          notifications.show({
+            title: "Passphrase Changed",
+            message: "Use the new passphrase to unlock from now on.",
+            color: "green",
+          });
+          openDialog(null);
+          break;
+        case "disable":
+          await disableEncryption(passphrase, (p) => setProgress(formatProgress(p)));
+          notifications.show({
+            title: "Encryption Off",
+            message: "Local data is no longer encrypted.",
+            color: "yellow",
+          });
+          openDialog(null);
+          break;
+      }
+    } catch (error) {
+      setDialogError(error instanceof Error ? error.message : "Something went wrong");
+    } finally {
+      setIsWorking(false);
+      setProgress(null);
+    }
+  };
+
+  const enabled = status === "unlocked" || status === "locked";
+
+  return (
+    <Card withBorder shadow="sm" padding="lg">
+      <Stack gap="md">
+        <Group justify="space-between" align="center">
+          <Group gap="xs">
+            <ShieldCheck size={16} />
+            <Text size="lg" fw={600}>Encryption</Text>
+          </Group>
+          <Badge variant="light" color={enabled ? "green" : "gray"}>
+            {enabled ? "On" : "Off"}
+          </Badge>
+        </Group>
+
+        <Text size="sm" c="dimmed">
+          Encrypt transcripts, audio, analyses, scorecards, annotations, documents and
+          conversations stored in this browser with a passphrase. The app locks after a period
+          of inactivity and the passphrase is needed to unlock it.
+        </Text>
+
+        {enabled ? (
+          <>
+            <Select
+              label="Auto-lock"
+              description="Lock after this long without activity"
+              value={String(autoLockMinutes)}
+              onChange={handleAutoLockChange}
+              data={AUTO_LOCK_OPTIONS.map((minutes) => ({
+                value: String(minutes),
+                label: minutes === 0 ? "Never" : `${minutes} minutes`,
+              }))}
+              allowDeselect={false}
+            />
+            <Group wrap="wrap">
+              <Button leftSection={<Lock size={16} />} onClick={lockEncryption}>
+                Lock Now
+              </Button>
+              <Button
+                variant="light"
+                leftSection={<KeyRound size={16} />}
+                onClick={() => openDialog("change-current")}
+              >
+                Change Passphrase
+              </Button>
+              <Button
+                variant="subtle"
+                color="red"
+                leftSection={<LockOpen size={16} />}
+                onClick={() => openDialog("disable")}
+              >
+                Turn Off
+              </Button>
+            </Group>
+          </>
+        ) : (
+          <Group>
+            <Button
+              leftSection={<ShieldCheck size={16} />}
+              onClick={() => openDialog("enable")}
+              disabled={status === null}
+            >
+              Turn On Encryption
+            </Button>
+          </Group>
+        )}
+      </Stack>
+
+      {dialog && (
+        <PassphraseModal
+          key={dialog}
+          opened
+          onClose={() => openDialog(null)}
+          onSubmit={handleSubmit}
+          title={DIALOG_TITLES[dialog]}
+          mode={dialog === "enable" || dialog === "change-new" ? "create" : "enter"}
+          description={
+            progress ??
+            (dialog === "enable" ? (
+              <Alert color="yellow" variant="light" p="xs">
+                If you forget the passphrase, encrypted data cannot be recovered. Back up first
+                if in doubt.
+              </Alert>
+            ) : dialog === "change-current" ? (
+              "Enter the current passphrase."
+            ) : dialog === "change-new" ? (
+              "Enter the new passphrase."
+            ) : (
+              "Enter the passphrase to decrypt local data and turn encryption off."
+            ))
+          }
+          submitLabel={SUBMIT_LABELS[dialog]}
+          error={dialogError}
+          loading={isWorking}
+        />
+      )}
+    </Card>
+  );
+}
@@ -4,7 +4,7 @@ import * as React from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { usePathname } from "next/navigation";
-import { Moon, Sun, Settings } from "lucide-react";
+import { Moon, Sun, Settings, Lock } from "lucide-react";
 import {
   Burger,
   Group,
@@ -20,6 +20,8 @@ import {
 } from "@mantine/core";
 import { useDisclosure } from "@mantine/hooks";
 import { SettingsDialog } from "./settings-dialog";
+import { lockEncryption } from "@/lib/db";
+import { useEncryptionStatus } from "@/hooks/use-encryption";
 
 /**
  * Navigation link item
@@ -34,9 +36,14 @@ const navItems: NavItem[] = [
   { href: "/upload", label: "Upload Audio" },
   { href: "/record", label: "Record" },
   { href: "/recordings", label: "Recordings" },
-  { href: "/transcripts", label: "Incidents" },
+  { href: "/transcripts", label: "Transcripts" },
+  { href: "/incidents", label: "Incidents" },
+  { href: "/ask", label: "Ask Library" },
   { href: "/templates", label: "Templates" },
   { href: "/rubrics", label: "Rubrics" },
+  { href: "/glossary", label: "Glossary" },
+  { href: "/trends", label: "Trends" },
+  { href: "/units", label: "Units" },
   { href: "/docs", label: "Docs" },
 ];
 
@@ -52,6 +59,7 @@ export default function Header() {
   const [isSettingsOpen, setIsSettingsOpen] = React.useState(false);
   const [mobileMenuOpened, { toggle: toggleMobileMenu, close: closeMobileMenu }] = useDisclosure(false);
   const [mounted, setMounted] = React.useState(false);
+  const encryptionStatus = useEncryptionStatus();
 
   React.useEffect(() => {
     setMounted(true);
@@ -135,6 +143,18 @@ export default function Header() {
                   <Moon size={20} />
                 ))}
               </ActionIcon>
+              {encryptionStatus === "unlocked" && (
+                <ActionIcon
+                  variant="default"
+                  onClick={lockEncryption}
+                  aria-label="Lock workspace"
+                  title="Lock workspace"
+                  size="lg"
+                  className="touch-target-sm header-action-icon"
+                >
+                  <Lock size={20} />
+                </ActionIcon>
+              )}
               <ActionIcon
                 variant="default"
                 onClick={() => setIsSettingsOpen(true)}
@@ -161,6 +181,18 @@ export default function Header() {
                   <Moon size={20} />
                 ))}
               </ActionIcon>
+              {encryptionStatus === "unlocked" && (
+                <ActionIcon
+                  variant="default"
+                  onClick={lockEncryption}
+                  aria-label="Lock workspace"
+                  title="Lock workspace"
+                  size="lg"
+                  className="touch-target header-action-icon"
+                >
+                  <Lock size={20} />
+                </ActionIcon>
+              )}
               <Burger
                 opened={mobileMenuOpened}
                 onClick={toggleMobileMenu}
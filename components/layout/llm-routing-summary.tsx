@@ -0,0 +1,75 @@
+"use client";
+
+import * as React from "react";
+import { Bot } from "lucide-react";
+import { Badge, Group, Stack, Table, Text } from "@mantine/core";
+import type { LlmProviderStatus, LlmTask } from "@/types/llm";
+
+const TASK_LABELS: Record<LlmTask, string> = {
+  analysis: "Analysis",
+  chat: "Chat",
+  scoring: "RTASS scoring",
+  citations: "Citations",
+  summary: "Summaries",
+};
+
+/** Context window as "128k" or "1M" tokens */
+function formatContextWindow(tokens: number): string {
+  return tokens >= 1_000_000
+    ? `${Math.round(tokens / 100_000) / 10}M`
+    : `${Math.round(tokens / 1000)}k`;
+}
+
+/**
+ * Language model backend and the model each task is routed to, from the
+ * `llm` field of /api/config/status
+ */
+export function LlmRoutingSummary({ status }: { status: LlmProviderStatus }) {
+  return (
+    <Stack gap={6}>
+      <Group gap="xs" wrap="nowrap">
+        <Bot size={16} style={{ color: "var(--mantine-color-dimmed)", flexShrink: 0 }} />
+        <Text size="sm" fw={500}>
+          {status.label}
+        </Text>
+      </Group>
+      <Table withRowBorders={false} verticalSpacing={2} horizontalSpacing="xs" fz="sm">
+        <Table.Tbody>
+          {(Object.keys(TASK_LABELS) as LlmTask[]).map((task) => {
+            const route = status.routes[task];
+            return (
+              <Table.Tr key={task}>
+                <Table.Td c="dimmed">{TASK_LABELS[task]}</Table.Td>
+                <Table.Td ff="monospace">
+                  {route.model.model}
+                  {route.extended && (
+                    <Text span size="xs" c="dimmed" ff="monospace">
+                      {" "}
+                      (long: {route.extended.model})
+                    </Text>
+                  )}
+                </Table.Td>
+                <Table.Td c="dimmed" ta="right">
+                  {formatContextWindow(route.model.contextWindow)}
+                </Table.Td>
+                <Table.Td>
+                  {!route.model.jsonMode && (
+                    <Badge size="xs" variant="light" color="gray" tt="none">
+                      No JSON mode
+                    </Badge>
+                  )}
+                </Table.Td>
+              </Table.Tr>
+            );
+          })}
+        </Table.Tbody>
+      </Table>
+      {status.provider === "local" && (
+        <Text size="xs" c="dimmed">
+          Transcripts are analyzed on your department&apos;s own model server and are not sent to
+          a cloud service.
+        </Text>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import * as React from "react";
+import { EyeOff } from "lucide-react";
+import { Card, Group, Stack, Switch, Text } from "@mantine/core";
+import {
+  getRedactAiRequestsPreference,
+  getRedactExportsPreference,
+  setRedactAiRequestsPreference,
+  setRedactExportsPreference,
+} from "@/lib/storage";
+
+/**
+ * Settings card for where personal details marked for redaction are left out
+ */
+export function RedactionSettings() {
+  const [redactExports, setRedactExports] = React.useState(getRedactExportsPreference);
+  const [redactAiRequests, setRedactAiRequests] = React.useState(getRedactAiRequestsPreference);
+
+  return (
+    <Card withBorder shadow="sm" padding="lg">
+      <Stack gap="md">
+        <Group gap="xs">
+          <EyeOff size={16} />
+          <Text size="lg" fw={600}>Redaction</Text>
+        </Group>
+
+        <Text size="sm" c="dimmed">
+          Names, addresses, dates of birth and callback numbers marked with Redact on a
+          transcript are replaced with placeholders such as [NAME]. Stored transcripts keep
+          the original text.
+        </Text>
+
+        <Switch
+          label="Redact exports and shared packages"
+          description="Text, subtitle, PDF and Word exports, analysis and scorecard exports, and packages. Redacted packages carry the redacted audio when it is up to date, and no audio otherwise."
+          checked={redactExports}
+          onChange={(event) => {
+            const enabled = event.currentTarget.checked;
+            setRedactExports(enabled);
+            setRedactExportsPreference(enabled);
+          }}
+        />
+        <Switch
+          label="Redact transcripts sent to AI"
+          description="Analysis, chat, supporting evidence and scorecard requests"
+          checked={redactAiRequests}
+          onChange={(event) => {
+            const enabled = event.currentTarget.checked;
+            setRedactAiRequests(enabled);
+            setRedactAiRequestsPreference(enabled);
+          }}
+        />
+      </Stack>
+    </Card>
+  );
+}
@@ -1,8 +1,8 @@
 "use client";
 
 import * as React from "react";
-import { Trash2, HardDrive, CheckCircle2, XCircle, AlertCircle, ExternalLink, Cpu } from "lucide-react";
-import { Modal, Button, Text, Badge, Card, Alert, Stack, Group, Loader, Select, SegmentedControl } from "@mantine/core";
+import { Trash2, HardDrive, CheckCircle2, XCircle, AlertCircle, ExternalLink, Cpu, DatabaseBackup, Download, Upload } from "lucide-react";
+import { Modal, Button, Text, Badge, Card, Alert, Stack, Group, Loader, Select, SegmentedControl, FileButton } from "@mantine/core";
 import { modals } from "@mantine/modals";
 import { notifications } from "@mantine/notifications";
 import {
@@ -23,6 +23,16 @@ import {
   getStorageStatus,
   type TranscriptStorageBreakdownItem,
 } from "@/lib/db";
+import { exportAndDownloadWorkspaceBackup } from "@/lib/package/export";
+import { parseWorkspaceBackupFile } from "@/lib/package/import";
+import type { WorkspaceBackup } from "@/lib/package/backup";
+import { PROTECTED_FILE_EXTENSION } from "@/lib/encryption";
+import { RestoreBackupModal } from "@/components/package/restore-backup-modal";
+import { PassphraseModal } from "@/components/package/passphrase-modal";
+import { EncryptionSettings } from "./encryption-settings";
+import { RedactionSettings } from "./redaction-settings";
+import { TranscriptionBackendSummary } from "@/components/upload/transcription-backend-summary";
+import { LlmRoutingSummary } from "./llm-routing-summary";
 import type { ConfigStatusResponse } from "@/app/api/config/status/route";
 
 interface SettingsDialogProps {
@@ -48,6 +58,13 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
   const [isClearingData, setIsClearingData] = React.useState(false);
   const [analysisModel, setAnalysisModel] = React.useState<AnalysisModel>('gpt-5');
   const [reasoningEffort, setReasoningEffort] = React.useState<ReasoningEffort>('medium');
+  const [backupProgress, setBackupProgress] = React.useState<string | null>(null);
+  const [isReadingBackup, setIsReadingBackup] = React.useState(false);
+  const [backupToRestore, setBackupToRestore] = React.useState<WorkspaceBackup | null>(null);
+  const [isBackupPassphraseOpen, setIsBackupPassphraseOpen] = React.useState(false);
+  const [protectedBackupFile, setProtectedBackupFile] = React.useState<File | null>(null);
+  const [restorePassphraseError, setRestorePassphraseError] = React.useState<string | null>(null);
+  const resetRestoreInputRef = React.useRef<() => void>(null);
 
   const formatBytes = (bytes: number): string => {
     if (!bytes || bytes <= 0) return "0 Bytes";
@@ -215,6 +232,54 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
     }
   };
 
+  const handleBackup = async (passphrase: string) => {
+    setIsBackupPassphraseOpen(false);
+    setBackupProgress("Preparing backup...");
+    try {
+      await exportAndDownloadWorkspaceBackup(({ table, records }) => {
+        setBackupProgress(`Backing up ${table} (${records})...`);
+      }, passphrase || undefined);
+      notifications.show({
+        title: "Backup Created",
+        message: "All local data was saved to a backup file. Keep it somewhere safe.",
+        color: "green",
+      });
+    } catch (error) {
+      console.error("Error creating backup:", error);
+      notifications.show({
+        title: "Backup Failed",
+        message: error instanceof Error ? error.message : "Failed to create backup",
+        color: "red",
+      });
+    } finally {
+      setBackupProgress(null);
+    }
+  };
+
+  const handleRestoreFile = async (file: File | null, passphrase?: string) => {
+    if (!file) return;
+    setIsReadingBackup(true);
+    try {
+      const parsed = await parseWorkspaceBackupFile(file, passphrase);
+      if (parsed.needsPassphrase) {
+        setProtectedBackupFile(file);
+        setRestorePassphraseError(passphrase ? parsed.error ?? null : null);
+      } else if (parsed.success && parsed.data) {
+        setProtectedBackupFile(null);
+        setBackupToRestore(parsed.data);
+      } else {
+        notifications.show({
+          title: "Invalid Backup",
+          message: parsed.error || "The file could not be read as a backup",
+          color: "red",
+        });
+      }
+    } finally {
+      setIsReadingBackup(false);
+      resetRestoreInputRef.current?.();
+    }
+  };
+
   const openClearDataConfirmation = () => {
     modals.openConfirmModal({
       title: 'Are you absolutely sure?',
@@ -246,6 +311,7 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
     if (!configStatus) return 'Unknown';
     if (configStatus.provider === 'azure') return 'Azure OpenAI';
     if (configStatus.provider === 'openai') return 'OpenAI';
+    if (configStatus.provider === 'local') return 'Local model servers';
     return 'Not Configured';
   };
 
@@ -345,6 +411,20 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
               </Alert>
             )}
 
+            {!isLoadingConfig && configStatus?.transcription && (
+              <Stack gap="xs">
+                <Text size="sm" fw={500}>Transcription</Text>
+                <TranscriptionBackendSummary status={configStatus.transcription} />
+              </Stack>
+            )}
+
+            {!isLoadingConfig && configStatus?.llm && (
+              <Stack gap="xs">
+                <Text size="sm" fw={500}>Language Models</Text>
+                <LlmRoutingSummary status={configStatus.llm} />
+              </Stack>
+            )}
+
             {/* Configuration Instructions */}
             <Alert icon={<AlertCircle size={16} />} title="How to Configure API Credentials" color="blue" mt="md">
               <Stack gap="md">
@@ -436,9 +516,14 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
             <Stack gap="md">
               <Select
                 label="Analysis Model"
-                description="GPT-5.2 is faster with lower reasoning overhead"
+                description={
+                  configStatus?.llm?.provider === 'local'
+                    ? 'Analysis runs on the local model server configured for the station'
+                    : 'GPT-5.2 is faster with lower reasoning overhead'
+                }
                 value={analysisModel}
                 onChange={handleModelChange}
+                disabled={configStatus?.llm?.provider === 'local'}
                 data={[
                   { value: 'gpt-5', label: 'GPT-5 (Standard)' },
                   { value: 'gpt-5.2', label: 'GPT-5.2 (Faster)' },
@@ -564,6 +649,94 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
           </Stack>
         </Card>
 
+        <EncryptionSettings />
+
+        <RedactionSettings />
+
+        {/* Backup & Restore Section */}
+        <Card withBorder shadow="sm" padding="lg">
+          <Stack gap="md">
+            <Group gap="xs">
+              <DatabaseBackup size={16} />
+              <Text size="lg" fw={600}>Backup &amp; Restore</Text>
+            </Group>
+
+            <Text size="sm" c="dimmed">
+              Save every transcript, recording, analysis, scorecard, rubric, annotation, document and
+              conversation to one file, and restore it in this or another browser. Clearing browser
+              data deletes everything that is not backed up.
+            </Text>
+
+            <Group wrap="wrap">
+              <Button
+                leftSection={<Download size={16} />}
+                onClick={() => setIsBackupPassphraseOpen(true)}
+                loading={backupProgress !== null}
+              >
+                Backup Everything
+              </Button>
+              <FileButton
+                onChange={(file) => handleRestoreFile(file)}
+                accept={`.zip,application/zip,${PROTECTED_FILE_EXTENSION}`}
+                resetRef={resetRestoreInputRef}
+              >
+                {(props) => (
+                  <Button
+                    {...props}
+                    variant="light"
+                    leftSection={<Upload size={16} />}
+                    loading={isReadingBackup}
+                    disabled={backupProgress !== null}
+                  >
+                    Restore from Backup
+                  </Button>
+                )}
+              </FileButton>
+            </Group>
+
+            {backupProgress && (
+              <Text size="xs" c="dimmed">{backupProgress}</Text>
+            )}
+          </Stack>
+        </Card>
+
+        {isBackupPassphraseOpen && (
+          <PassphraseModal
+            opened
+            onClose={() => setIsBackupPassphraseOpen(false)}
+            onSubmit={handleBackup}
+            title="Backup Everything"
+            description="The backup holds every transcript and recording in plain form. Protect it with a passphrase unless it stays on an encrypted drive."
+            mode="create"
+            optional
+            submitLabel="Create Backup"
+          />
+        )}
+
+        {protectedBackupFile && (
+          <PassphraseModal
+            key={protectedBackupFile.name}
+            opened
+            onClose={() => setProtectedBackupFile(null)}
+            onSubmit={(passphrase) => handleRestoreFile(protectedBackupFile, passphrase)}
+            title="Protected Backup"
+            description={`${protectedBackupFile.name} is passphrase-protected.`}
+            mode="enter"
+            submitLabel="Open Backup"
+            error={restorePassphraseError}
+            loading={isReadingBackup}
+          />
+        )}
+
+        {backupToRestore && (
+          <RestoreBackupModal
+            key={backupToRestore.manifest.exportedAt}
+            opened
+            onClose={() => setBackupToRestore(null)}
+            backup={backupToRestore}
+          />
+        )}
+
         {/* Clear All Data Section */}
         <Stack gap="xs">
           <Button
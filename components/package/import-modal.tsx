@@ -20,6 +20,7 @@ import {
   Alert,
   TextInput,
   Badge,
+  PasswordInput,
   rem,
 } from "@mantine/core";
 import {
@@ -31,6 +32,7 @@ import {
   ArrowRight,
   X,
   RefreshCw,
+  KeyRound,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { notifications } from "@mantine/notifications";
@@ -40,9 +42,11 @@ import {
   importPackageToDatabase,
   type ConflictInfo,
   type ImportResult,
+  type SharedPackage,
 } from "@/lib/package/import";
-import type { MeetingTranscriberPackage } from "@/lib/package/validation";
 import { MAX_PACKAGE_SIZE } from "@/lib/package/validation";
+import { MAX_ARCHIVE_SIZE } from "@/lib/package/archive";
+import { PROTECTED_FILE_EXTENSION } from "@/lib/encryption";
 
 // ============================================================================
 // Types
@@ -66,6 +70,7 @@ export interface ImportModalProps {
 type ModalState =
   | "idle"
   | "validating"
+  | "passphrase"
   | "conflict"
   | "importing"
   | "success"
@@ -76,6 +81,7 @@ type ModalState =
 // ============================================================================
 
 const MAX_SIZE_MB = MAX_PACKAGE_SIZE / (1024 * 1024);
+const MAX_ARCHIVE_SIZE_MB = MAX_ARCHIVE_SIZE / (1024 * 1024);
 
 // ============================================================================
 // Utility Functions
@@ -131,13 +137,17 @@ export function ImportModal({
   const [isDragging, setIsDragging] = React.useState(false);
   const [selectedFile, setSelectedFile] = React.useState<File | null>(null);
   const [parsedPackage, setParsedPackage] =
-    React.useState<MeetingTranscriberPackage | null>(null);
+    React.useState<SharedPackage | null>(null);
   const [conflict, setConflict] = React.useState<ConflictInfo | null>(null);
   const [customFilename, setCustomFilename] = React.useState("");
   const [importResult, setImportResult] = React.useState<ImportResult | null>(
     null
   );
   const [errorMessage, setErrorMessage] = React.useState<string | null>(null);
+  const [passphrase, setPassphrase] = React.useState("");
+  const [passphraseError, setPassphraseError] = React.useState<string | null>(
+    null
+  );
 
   // Drag counter for proper drag state tracking
   const dragCounter = React.useRef(0);
@@ -154,6 +164,8 @@ export function ImportModal({
     setCustomFilename("");
     setImportResult(null);
     setErrorMessage(null);
+    setPassphrase("");
+    setPassphraseError(null);
     dragCounter.current = 0;
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
@@ -173,7 +185,7 @@ export function ImportModal({
    */
   const performImport = React.useCallback(
     async (
-      pkg: MeetingTranscriberPackage,
+      pkg: SharedPackage,
       filename?: string
     ): Promise<void> => {
       setState("importing");
@@ -217,14 +229,21 @@ export function ImportModal({
   /**
    * Process selected file
    */
-  const processFile = React.useCallback(async (file: File) => {
+  const processFile = React.useCallback(async (file: File, filePassphrase?: string) => {
     setSelectedFile(file);
     setState("validating");
     setErrorMessage(null);
 
     try {
       // Parse and validate the package
-      const parseResult = await parsePackageFile(file);
+      const parseResult = await parsePackageFile(file, filePassphrase);
+
+      if (parseResult.needsPassphrase) {
+        // Ask again, explaining why unless this is the first prompt
+        setPassphraseError(filePassphrase ? parseResult.error ?? null : null);
+        setState("passphrase");
+        return;
+      }
 
       if (!parseResult.success || !parseResult.data) {
         setState("error");
@@ -327,11 +346,17 @@ export function ImportModal({
       const files = e.dataTransfer.files;
       if (files && files.length > 0) {
         const file = files[0];
-        if (file.type === "application/json" || file.name.endsWith(".json")) {
+        const name = file.name.toLowerCase();
+        if (
+          file.type === "application/json" ||
+          name.endsWith(".json") ||
+          name.endsWith(".zip") ||
+          name.endsWith(PROTECTED_FILE_EXTENSION)
+        ) {
           processFile(file);
         } else {
           setState("error");
-          setErrorMessage("Please select a JSON file (.json)");
+          setErrorMessage("Please select a package file (.json, .zip or .enc)");
         }
       }
     },
@@ -442,7 +467,8 @@ export function ImportModal({
         </Text>
 
         <Text size="sm" c="dimmed" ta="center" maw={rem(300)}>
-          Drag and drop a .json package file, or click to browse
+          Drag and drop a .json package, .zip incident archive or protected
+          .enc file, or click to browse
         </Text>
 
         <Group gap="xs" justify="center">
@@ -452,6 +478,12 @@ export function ImportModal({
           <Text size="xs" c="dimmed">
             Max {MAX_SIZE_MB}MB
           </Text>
+          <Badge variant="outline" color="aphBlue" size="sm">
+            ZIP
+          </Badge>
+          <Text size="xs" c="dimmed">
+            Max {MAX_ARCHIVE_SIZE_MB}MB
+          </Text>
         </Group>
 
         <Button variant="outline" color="aphBlue" size="md" mt="sm">
@@ -463,7 +495,7 @@ export function ImportModal({
         ref={fileInputRef}
         type="file"
         style={{ display: "none" }}
-        accept=".json,application/json"
+        accept={`.json,application/json,.zip,application/zip,${PROTECTED_FILE_EXTENSION}`}
         onChange={handleFileInputChange}
         aria-label="File input"
       />
@@ -616,6 +648,31 @@ export function ImportModal({
               Analysis included
             </Badge>
           )}
+          {importResult?.restored && (
+            <Group gap={4}>
+              {importResult.restored.audio && (
+                <Badge size="sm" variant="light" color="aphCyan">
+                  Audio
+                </Badge>
+              )}
+              {(
+                [
+                  ["analyses", "Analyses"],
+                  ["scorecards", "Scorecards"],
+                  ["rubrics", "Rubrics"],
+                  ["annotations", "Annotations"],
+                  ["supplementalDocuments", "Documents"],
+                  ["conversations", "Conversations"],
+                ] as const
+              )
+                .filter(([key]) => importResult.restored![key] > 0)
+                .map(([key, label]) => (
+                  <Badge key={key} size="sm" variant="light" color="aphCyan">
+                    {label}: {importResult.restored![key]}
+                  </Badge>
+                ))}
+            </Group>
+          )}
         </Stack>
       </Card>
 
@@ -681,6 +738,57 @@ export function ImportModal({
     </Stack>
   );
 
+  /**
+   * Render passphrase state - protected file
+   */
+  const renderPassphraseState = () => (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (selectedFile && passphrase) processFile(selectedFile, passphrase);
+      }}
+    >
+      <Stack gap="md">
+        <Group gap="xs">
+          <KeyRound style={{ width: rem(20), height: rem(20) }} />
+          <Text fw={600}>This package is passphrase-protected</Text>
+        </Group>
+        {selectedFile && (
+          <Text size="sm" c="dimmed">
+            {selectedFile.name} ({formatFileSize(selectedFile.size)})
+          </Text>
+        )}
+
+        {passphraseError && (
+          <Alert
+            icon={<AlertCircle style={{ width: rem(16), height: rem(16) }} />}
+            color="red"
+            variant="light"
+          >
+            {passphraseError}
+          </Alert>
+        )}
+
+        <PasswordInput
+          label="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.currentTarget.value)}
+          autoComplete="off"
+          autoFocus
+        />
+
+        <Group justify="flex-end" gap="sm">
+          <Button variant="subtle" onClick={resetState}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={!passphrase}>
+            Open Package
+          </Button>
+        </Group>
+      </Stack>
+    </form>
+  );
+
   /**
    * Render content based on state
    */
@@ -690,6 +798,8 @@ export function ImportModal({
         return renderIdleState();
       case "validating":
         return renderValidatingState();
+      case "passphrase":
+        return renderPassphraseState();
       case "conflict":
         return renderConflictState();
       case "importing":
@@ -721,8 +831,8 @@ export function ImportModal({
       }
       size="md"
       centered
-      closeOnClickOutside={state === "idle" || state === "error"}
-      closeOnEscape={state === "idle" || state === "error"}
+      closeOnClickOutside={state === "idle" || state === "error" || state === "passphrase"}
+      closeOnEscape={state === "idle" || state === "error" || state === "passphrase"}
     >
       {renderContent()}
     </Modal>
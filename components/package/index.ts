@@ -6,3 +6,7 @@
 
 export { ImportModal } from './import-modal';
 export type { ImportModalProps } from './import-modal';
+export { RestoreBackupModal } from './restore-backup-modal';
+export type { RestoreBackupModalProps } from './restore-backup-modal';
+export { PassphraseModal } from './passphrase-modal';
+export type { PassphraseModalProps } from './passphrase-modal';
@@ -0,0 +1,153 @@
+/**
+ * Passphrase Modal Component
+ *
+ * Asks for a passphrase: a new one (entered twice) to protect an export, or
+ * an existing one to open a protected file.
+ */
+
+"use client";
+
+import * as React from "react";
+import { Modal, Stack, Group, Button, Text, PasswordInput, Alert } from "@mantine/core";
+import { AlertCircle, KeyRound } from "lucide-react";
+import { MIN_PASSPHRASE_LENGTH } from "@/lib/encryption";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Props for PassphraseModal component
+ */
+export interface PassphraseModalProps {
+  /** Whether the modal is open */
+  opened: boolean;
+  /** Callback when modal is closed */
+  onClose: () => void;
+  /** Called with the passphrase; an empty string when `optional` and left blank */
+  onSubmit: (passphrase: string) => void;
+  /** Modal title */
+  title: string;
+  /** Explanation shown above the inputs */
+  description?: React.ReactNode;
+  /** "create" asks for a new passphrase twice; "enter" asks once */
+  mode: "create" | "enter";
+  /** Whether the passphrase may be left blank ("create" only) */
+  optional?: boolean;
+  /** Label of the submit button */
+  submitLabel?: string;
+  /** Error to show, e.g. an incorrect passphrase */
+  error?: string | null;
+  /** Whether the submit action is running */
+  loading?: boolean;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Passphrase Modal Component
+ *
+ * Remount (via `key`) to clear the inputs between uses.
+ */
+export function PassphraseModal({
+  opened,
+  onClose,
+  onSubmit,
+  title,
+  description,
+  mode,
+  optional = false,
+  submitLabel = "Continue",
+  error,
+  loading = false,
+}: PassphraseModalProps) {
+  const [passphrase, setPassphrase] = React.useState("");
+  const [confirmation, setConfirmation] = React.useState("");
+
+  const isBlank = passphrase.length === 0;
+  let validationError: string | null = null;
+  if (mode === "create" && !(optional && isBlank)) {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      validationError = `Use at least ${MIN_PASSPHRASE_LENGTH} characters`;
+    } else if (confirmation !== passphrase) {
+      validationError = "Passphrases do not match";
+    }
+  }
+  const canSubmit = mode === "enter" ? !isBlank : validationError === null;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (canSubmit) onSubmit(passphrase);
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={
+        <Group gap="xs">
+          <KeyRound size={18} />
+          <Text fw={600}>{title}</Text>
+        </Group>
+      }
+      closeOnClickOutside={!loading}
+      closeOnEscape={!loading}
+      withCloseButton={!loading}
+    >
+      <form onSubmit={handleSubmit}>
+        <Stack gap="md">
+          {description && (
+            <Text size="sm" c="dimmed" component="div">
+              {description}
+            </Text>
+          )}
+
+          {error && (
+            <Alert icon={<AlertCircle size={16} />} color="red" variant="light">
+              {error}
+            </Alert>
+          )}
+
+          <PasswordInput
+            label="Passphrase"
+            description={
+              mode === "create" && optional
+                ? "Leave blank to continue without a passphrase"
+                : undefined
+            }
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.currentTarget.value)}
+            autoComplete={mode === "create" ? "new-password" : "current-password"}
+            data-autofocus
+          />
+          {mode === "create" && !(optional && isBlank) && (
+            <PasswordInput
+              label="Confirm passphrase"
+              value={confirmation}
+              onChange={(event) => setConfirmation(event.currentTarget.value)}
+              autoComplete="new-password"
+              error={confirmation.length > 0 ? validationError : undefined}
+            />
+          )}
+
+          {mode === "create" && optional && !isBlank && (
+            <Text size="xs" c="dimmed">
+              Share the passphrase separately from the file. It cannot be recovered if lost.
+            </Text>
+          )}
+
+          <Group justify="flex-end">
+            <Button variant="default" onClick={onClose} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" loading={loading} disabled={!canSubmit}>
+              {submitLabel}
+            </Button>
+          </Group>
+        </Stack>
+      </form>
+    </Modal>
+  );
+}
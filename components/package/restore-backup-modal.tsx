@@ -0,0 +1,244 @@
+/**
+ * Restore Backup Modal Component
+ *
+ * Restores a workspace backup: choose merge or replace, review a dry-run
+ * summary of what will change, then restore.
+ */
+
+"use client";
+
+import * as React from "react";
+import {
+  Modal,
+  Stack,
+  Group,
+  Button,
+  Text,
+  Alert,
+  Table,
+  SegmentedControl,
+  Loader,
+} from "@mantine/core";
+import { AlertTriangle, CheckCircle2, AlertCircle, DatabaseBackup } from "lucide-react";
+import { notifications } from "@mantine/notifications";
+import {
+  planWorkspaceRestore,
+  restoreWorkspaceBackup,
+  type RestoreMode,
+  type RestorePlan,
+} from "@/lib/package/import";
+import type { BackupTableName, WorkspaceBackup } from "@/lib/package/backup";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Props for RestoreBackupModal component
+ */
+export interface RestoreBackupModalProps {
+  /** Whether the modal is open */
+  opened: boolean;
+  /** Callback when modal is closed */
+  onClose: () => void;
+  /** The parsed backup to restore */
+  backup: WorkspaceBackup;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TABLE_LABELS: Record<BackupTableName, string> = {
+  templates: "Templates",
+  rtassRubricTemplates: "Rubrics",
+  glossaryTerms: "Glossary terms",
+  transcripts: "Transcripts",
+  audioFiles: "Audio files",
+  analyses: "Analyses",
+  rtassScorecards: "Scorecards",
+  annotations: "Annotations",
+  supplementalDocuments: "Supplemental documents",
+  conversations: "Conversations",
+  incidents: "Incidents",
+  recordings: "Recordings",
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Restore Backup Modal Component
+ *
+ * Remount (via `key`) for each new backup file.
+ */
+export function RestoreBackupModal({ opened, onClose, backup }: RestoreBackupModalProps) {
+  const [mode, setMode] = React.useState<RestoreMode>("merge");
+  const [plan, setPlan] = React.useState<RestorePlan | null>(null);
+  const [isRestoring, setIsRestoring] = React.useState(false);
+  const [result, setResult] = React.useState<RestorePlan | null>(null);
+  const [errorMessage, setErrorMessage] = React.useState<string | null>(null);
+
+  // Dry run for the selected mode; a plan for another mode counts as loading
+  React.useEffect(() => {
+    if (!opened) return;
+    let cancelled = false;
+    planWorkspaceRestore(backup, mode)
+      .then((next) => {
+        if (!cancelled) setPlan(next);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setErrorMessage(error instanceof Error ? error.message : "Failed to read local data");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [opened, backup, mode]);
+
+  const currentPlan = plan?.mode === mode ? plan : null;
+  const shown = result ?? currentPlan;
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    setErrorMessage(null);
+    try {
+      const restore = await restoreWorkspaceBackup(backup, mode);
+      if (restore.success && restore.plan) {
+        setResult(restore.plan);
+        notifications.show({
+          title: "Backup Restored",
+          message:
+            mode === "replace"
+              ? "Local data was replaced with the backup."
+              : "The backup was merged into local data.",
+          color: "green",
+        });
+      } else {
+        setErrorMessage(restore.error || "Failed to restore backup");
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const exportedAt = new Date(backup.manifest.exportedAt);
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={
+        <Group gap="xs">
+          <DatabaseBackup size={18} />
+          <Text fw={600}>Restore Backup</Text>
+        </Group>
+      }
+      size="lg"
+      closeOnClickOutside={!isRestoring}
+      closeOnEscape={!isRestoring}
+      withCloseButton={!isRestoring}
+    >
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          Backup from {exportedAt.toLocaleString()} (app {backup.manifest.appVersion}, database
+          schema v{backup.manifest.schemaVersion}).
+        </Text>
+
+        {!result && (
+          <SegmentedControl
+            value={mode}
+            onChange={(value) => setMode(value as RestoreMode)}
+            disabled={isRestoring}
+            data={[
+              { value: "merge", label: "Merge" },
+              { value: "replace", label: "Replace" },
+            ]}
+            fullWidth
+          />
+        )}
+
+        {!result &&
+          (mode === "merge" ? (
+            <Text size="sm">
+              Records from the backup are added. Local records with the same ID are overwritten
+              with the backup version; everything else is kept.
+            </Text>
+          ) : (
+            <Alert icon={<AlertTriangle size={16} />} color="red" variant="light">
+              Replace deletes all local data first. Records not in the backup will be lost.
+            </Alert>
+          ))}
+
+        {result && (
+          <Alert icon={<CheckCircle2 size={16} />} color="green" title="Restore complete">
+            The changes below were applied.
+          </Alert>
+        )}
+
+        {errorMessage && (
+          <Alert icon={<AlertCircle size={16} />} color="red" title="Restore failed">
+            {errorMessage}
+          </Alert>
+        )}
+
+        {shown ? (
+          <Table withTableBorder striped>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Data</Table.Th>
+                <Table.Th ta="right">{result ? "Added" : "To add"}</Table.Th>
+                <Table.Th ta="right">{result ? "Overwritten" : "To overwrite"}</Table.Th>
+                {shown.mode === "replace" && (
+                  <Table.Th ta="right">{result ? "Removed" : "To remove"}</Table.Th>
+                )}
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {shown.tables.map((row) => (
+                <Table.Tr key={row.table}>
+                  <Table.Td>{TABLE_LABELS[row.table]}</Table.Td>
+                  <Table.Td ta="right">{row.added}</Table.Td>
+                  <Table.Td ta="right">{row.overwritten}</Table.Td>
+                  {shown.mode === "replace" && (
+                    <Table.Td ta="right" c={row.removed > 0 ? "red" : undefined}>
+                      {row.removed}
+                    </Table.Td>
+                  )}
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        ) : (
+          !errorMessage && (
+            <Group justify="center" py="md">
+              <Loader size="sm" />
+            </Group>
+          )
+        )}
+
+        <Group justify="flex-end">
+          {result ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="default" onClick={onClose} disabled={isRestoring}>
+                Cancel
+              </Button>
+              <Button
+                color={mode === "replace" ? "red" : undefined}
+                onClick={handleRestore}
+                loading={isRestoring}
+                disabled={!currentPlan}
+              >
+                {mode === "replace" ? "Replace Local Data" : "Merge Backup"}
+              </Button>
+            </>
+          )}
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
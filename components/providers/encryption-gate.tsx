@@ -0,0 +1,108 @@
+"use client";
+
+/**
+ * Encryption Gate Component
+ *
+ * Shows a lock screen instead of the app while an encrypted workspace is
+ * locked, and locks it again after the auto-lock timeout.
+ */
+
+import { useState, type FormEvent, type PropsWithChildren } from 'react';
+import {
+  Alert,
+  Button,
+  Center,
+  Loader,
+  Paper,
+  PasswordInput,
+  Stack,
+  Text,
+  ThemeIcon,
+  Title,
+} from '@mantine/core';
+import { AlertCircle, Lock } from 'lucide-react';
+import { unlockEncryption } from '@/lib/db';
+import { useAutoLock, useEncryptionStatus } from '@/hooks/use-encryption';
+
+/**
+ * Renders children only when the workspace is unencrypted or unlocked.
+ */
+export function EncryptionGate({ children }: PropsWithChildren) {
+  const status = useEncryptionStatus();
+  useAutoLock(status);
+
+  if (status === null) {
+    return (
+      <Center mih="60vh">
+        <Loader size="sm" />
+      </Center>
+    );
+  }
+
+  if (status === 'locked') {
+    return <LockScreen />;
+  }
+
+  return <>{children}</>;
+}
+
+function LockScreen() {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockEncryption(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <Center mih="70vh" p="md">
+      <Paper withBorder shadow="sm" p="xl" radius="md" w="100%" maw={420}>
+        <form onSubmit={handleSubmit}>
+          <Stack gap="md" align="stretch">
+            <Center>
+              <ThemeIcon size={48} radius="xl" variant="light">
+                <Lock size={24} />
+              </ThemeIcon>
+            </Center>
+            <Title order={3} ta="center">
+              Workspace Locked
+            </Title>
+            <Text size="sm" c="dimmed" ta="center">
+              Transcripts, audio and analyses on this computer are encrypted. Enter the
+              passphrase to continue.
+            </Text>
+
+            {error && (
+              <Alert icon={<AlertCircle size={16} />} color="red" variant="light">
+                {error}
+              </Alert>
+            )}
+
+            <PasswordInput
+              label="Passphrase"
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.currentTarget.value)}
+              autoFocus
+              autoComplete="current-password"
+            />
+            <Button type="submit" loading={isUnlocking} disabled={!passphrase}>
+              Unlock
+            </Button>
+            <Text size="xs" c="dimmed" ta="center">
+              A forgotten passphrase cannot be recovered.
+            </Text>
+          </Stack>
+        </form>
+      </Paper>
+    </Center>
+  );
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import * as React from "react";
+import { useState } from "react";
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Group,
+  Modal,
+  NumberInput,
+  Paper,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+  Textarea,
+  Tooltip,
+} from "@mantine/core";
+import { Plus, Save, Trash2 } from "lucide-react";
+import {
+  getReviewerNamePreference,
+  setReviewerNamePreference,
+} from "@/lib/storage";
+import { formatTimestamp } from "@/lib/transcript-utils";
+import type {
+  RtassCriterionAssessment,
+  RtassEvidence,
+  RtassScorecardCriterion,
+  RtassVerdict,
+} from "@/types/rtass";
+
+const VERDICT_OPTIONS: Array<{ value: RtassVerdict; label: string }> = [
+  { value: "met", label: "Met" },
+  { value: "partial", label: "Partial" },
+  { value: "missed", label: "Missed" },
+  { value: "not_observed", label: "Not observed" },
+  { value: "not_applicable", label: "Not applicable" },
+];
+
+export interface CriterionEditSubmission {
+  assessment: RtassCriterionAssessment;
+  reason: string;
+  editedBy: string;
+}
+
+interface CriterionEditFormProps {
+  criterion: RtassScorecardCriterion;
+  onCancel: () => void;
+  onSave: (submission: CriterionEditSubmission) => Promise<void>;
+}
+
+function CriterionEditForm({ criterion, onCancel, onSave }: CriterionEditFormProps) {
+  const [verdict, setVerdict] = useState<RtassVerdict>(criterion.verdict);
+  const [partialScore, setPartialScore] = useState<number | string>(
+    Math.round((criterion.verdict === "partial" ? criterion.score ?? 0.5 : 0.5) * 100),
+  );
+  const [evidence, setEvidence] = useState<RtassEvidence[]>(criterion.evidence);
+  const [newQuote, setNewQuote] = useState("");
+  const [newStart, setNewStart] = useState<number | string>(0);
+  const [newSpeaker, setNewSpeaker] = useState("");
+  const [editedBy, setEditedBy] = useState(getReviewerNamePreference);
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const score = verdict === "partial" ? (Number(partialScore) || 0) / 100 : undefined;
+  const isChanged =
+    verdict !== criterion.verdict ||
+    (verdict === "partial" && score !== criterion.score) ||
+    evidence !== criterion.evidence;
+  const canSave = isChanged && reason.trim().length > 0 && editedBy.trim().length > 0;
+
+  const handleAddEvidence = () => {
+    const quote = newQuote.trim();
+    if (!quote) return;
+    const entry: RtassEvidence = {
+      quote,
+      start: Math.max(0, Number(newStart) || 0),
+      speaker: newSpeaker.trim() || undefined,
+    };
+    setEvidence((prev) => [...prev, entry].sort((a, b) => a.start - b.start));
+    setNewQuote("");
+    setNewSpeaker("");
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      setReviewerNamePreference(editedBy.trim());
+      await onSave({
+        assessment: { verdict, score, evidence },
+        reason: reason.trim(),
+        editedBy: editedBy.trim(),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Stack gap="md">
+      <Text size="sm" c="dimmed">
+        {criterion.rationale}
+      </Text>
+
+      <Group grow align="flex-start">
+        <Select
+          label="Verdict"
+          data={VERDICT_OPTIONS}
+          value={verdict}
+          onChange={(value) => value && setVerdict(value as RtassVerdict)}
+          allowDeselect={false}
+          comboboxProps={{ withinPortal: false }}
+        />
+        <NumberInput
+          label="Score (%)"
+          description={verdict === "partial" ? undefined : "Set by the verdict"}
+          min={0}
+          max={100}
+          step={5}
+          value={verdict === "partial" ? partialScore : verdict === "met" ? 100 : verdict === "missed" ? 0 : ""}
+          onChange={setPartialScore}
+          disabled={verdict !== "partial"}
+        />
+      </Group>
+
+      <Stack gap="xs">
+        <Text size="sm" fw={500}>
+          Evidence
+        </Text>
+        {evidence.length === 0 && (
+          <Text size="xs" c="dimmed">
+            No evidence quotes.
+          </Text>
+        )}
+        {evidence.map((e, idx) => (
+          <Paper key={`${e.start}-${idx}`} p="xs" withBorder>
+            <Group justify="space-between" wrap="nowrap" align="flex-start">
+              <Stack gap={2}>
+                <Text size="xs">“{e.quote}”</Text>
+                <Group gap="xs">
+                  <Badge size="xs" variant="outline">
+                    {formatTimestamp(e.start)}
+                  </Badge>
+                  {e.speaker && (
+                    <Badge size="xs" variant="outline" color="gray">
+                      {e.speaker}
+                    </Badge>
+                  )}
+                </Group>
+              </Stack>
+              <Tooltip label="Remove quote">
+                <ActionIcon
+                  variant="subtle"
+                  color="red"
+                  aria-label="Remove quote"
+                  onClick={() => setEvidence((prev) => prev.filter((_, i) => i !== idx))}
+                >
+                  <Trash2 size={14} />
+                </ActionIcon>
+              </Tooltip>
+            </Group>
+          </Paper>
+        ))}
+
+        <Paper p="xs" withBorder>
+          <Stack gap="xs">
+            <Textarea
+              placeholder="Verbatim quote from the transcript"
+              value={newQuote}
+              onChange={(e) => setNewQuote(e.currentTarget.value)}
+              autosize
+              minRows={1}
+            />
+            <Group gap="xs" align="flex-end">
+              <NumberInput
+                label="Start (seconds)"
+                min={0}
+                decimalScale={1}
+                value={newStart}
+                onChange={setNewStart}
+                w={130}
+                size="xs"
+              />
+              <TextInput
+                label="Speaker"
+                placeholder="Optional"
+                value={newSpeaker}
+                onChange={(e) => setNewSpeaker(e.currentTarget.value)}
+                size="xs"
+                style={{ flex: 1 }}
+              />
+              <Button
+                size="xs"
+                variant="light"
+                leftSection={<Plus size={14} />}
+                onClick={handleAddEvidence}
+                disabled={!newQuote.trim()}
+              >
+                Add quote
+              </Button>
+            </Group>
+          </Stack>
+        </Paper>
+      </Stack>
+
+      <TextInput
+        label="Your name"
+        required
+        value={editedBy}
+        onChange={(e) => setEditedBy(e.currentTarget.value)}
+      />
+      <Textarea
+        label="Reason for change"
+        required
+        placeholder="e.g. Size-up was given at 02:14 on TAC 2, missed by the model"
+        value={reason}
+        onChange={(e) => setReason(e.currentTarget.value)}
+        autosize
+        minRows={2}
+      />
+
+      <Group justify="flex-end">
+        <Button variant="subtle" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button
+          leftSection={<Save size={16} />}
+          onClick={handleSave}
+          disabled={!canSave}
+          loading={isSaving}
+        >
+          Save Override
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
+
+interface CriterionEditModalProps {
+  /** Criterion being edited, or null when closed */
+  criterion: RtassScorecardCriterion | null;
+  onClose: () => void;
+  onSave: (submission: CriterionEditSubmission) => Promise<void>;
+}
+
+/**
+ * Criterion Edit Modal
+ *
+ * Lets a trainer override a criterion's verdict and score and add or remove
+ * evidence quotes. A name and a reason are required for the audit trail.
+ */
+export function CriterionEditModal({ criterion, onClose, onSave }: CriterionEditModalProps) {
+  return (
+    <Modal
+      opened={criterion !== null}
+      onClose={onClose}
+      title={criterion ? `Override: ${criterion.title}` : "Override"}
+      size="lg"
+    >
+      {criterion && (
+        <CriterionEditForm
+          key={criterion.criterionId}
+          criterion={criterion}
+          onCancel={onClose}
+          onSave={onSave}
+        />
+      )}
+    </Modal>
+  );
+}
@@ -20,13 +20,22 @@ import { notifications } from "@mantine/notifications";
 import {
   deleteRtassScorecard,
   getRtassScorecardsByTranscript,
+  getSupplementalDocumentsByTranscript,
   saveRtassScorecard,
 } from "@/lib/db";
+import { computeOverallScore, statusFromScore } from "@/lib/rtass-scoring";
+import { applySpeakerMapToScorecard } from "@/lib/speaker-map";
+import { isStaleForTranscript } from "@/lib/transcript-editing";
+import { transcriptForAiRequest } from "@/lib/redaction";
+import { readSseEvents } from "@/lib/sse";
+import { extractVisinetEvents, type VisinetEvent } from "@/lib/visinet-parser";
 import {
   useAllRtassRubrics,
   type RubricWithSource,
 } from "@/hooks/use-rtass-rubrics";
 import { useSupplementalDocsPersistent } from "@/hooks/use-supplemental-docs-persistent";
+import { useTranscriptIncident } from "@/hooks/use-incidents";
+import type { Incident } from "@/types/incident";
 import type { Transcript } from "@/types/transcript";
 import type {
   RtassRubricTemplate,
@@ -36,10 +45,11 @@ import type {
 import { ScorecardViewer } from "./scorecard-viewer";
 import { ScorecardCompare } from "./scorecard-compare";
 
-type SectionScoreResponse = {
+type ScoredSectionEvent = {
   section: RtassScorecardSection;
-  warnings?: string[];
-  modelInfo: RtassScorecard["modelInfo"];
+  warnings: string[];
+  /** Position of the section in the rubric */
+  index: number;
 };
 
 function normalizeRubricDates(
@@ -78,52 +88,126 @@ function normalizeScorecardDates(scorecard: RtassScorecard): RtassScorecard {
     humanReview: scorecard.humanReview
       ? { ...scorecard.humanReview, reviewedAt }
       : scorecard.humanReview,
+    edits: scorecard.edits?.map((edit) => ({
+      ...edit,
+      editedAt:
+        edit.editedAt instanceof Date ? edit.editedAt : new Date(edit.editedAt),
+    })),
   };
 }
 
-function clamp01(value: number): number {
-  return Math.max(0, Math.min(1, value));
-}
-
-function statusFromScore(
-  score: number,
-  rubric: RtassRubricTemplate,
-): RtassScorecard["overall"]["status"] {
-  if (score >= rubric.scoring.thresholds.pass) return "pass";
-  if (score >= rubric.scoring.thresholds.needsImprovement)
-    return "needs_improvement";
-  return "fail";
+/**
+ * Collect CAD events from the Visinet report attached to the transcript, or
+ * to another channel of its incident. Used as ground truth for timing
+ * criteria.
+ */
+async function loadCadEvents(
+  transcriptId: string,
+  incident: Incident | null,
+): Promise<VisinetEvent[]> {
+  const transcriptIds = [
+    transcriptId,
+    ...(incident?.transcriptIds ?? []).filter((id) => id !== transcriptId),
+  ];
+
+  for (const id of transcriptIds) {
+    const docs = await getSupplementalDocumentsByTranscript(id);
+    const report = docs.find(
+      (d) => d.category === "visinet" && d.visinetData,
+    )?.visinetData;
+    if (report) return extractVisinetEvents(report);
+  }
+  return [];
 }
 
-async function scoreSection(params: {
+/**
+ * Score every section of a rubric with POST /api/rtass/score, which streams
+ * each section as it is scored. Aborting `signal` closes the stream, which
+ * cancels the model calls still running on the server.
+ */
+async function scoreRubric(params: {
   transcript: Transcript;
   rubric: RtassRubricTemplate;
-  sectionId: string;
   signal: AbortSignal;
   supplementalMaterial?: string;
-}): Promise<SectionScoreResponse> {
-  const { transcript, rubric, sectionId, signal, supplementalMaterial } =
-    params;
+  cadEvents?: VisinetEvent[];
+  onSection: (event: ScoredSectionEvent) => void;
+}): Promise<RtassScorecard> {
+  const {
+    transcript,
+    rubric,
+    signal,
+    supplementalMaterial,
+    cadEvents,
+    onSection,
+  } = params;
+  const requestTranscript = transcriptForAiRequest(transcript);
 
-  const res = await fetch("/api/rtass/score/section", {
+  const res = await fetch("/api/rtass/score", {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    },
     signal,
     body: JSON.stringify({
       transcriptId: transcript.id,
-      transcript: { text: transcript.text, segments: transcript.segments },
+      transcript: { text: requestTranscript.text, segments: requestTranscript.segments },
       rubric,
-      sectionId,
       supplementalMaterial,
+      cadEvents,
     }),
   });
 
-  const payload = await res.json();
   if (!res.ok) {
-    throw new Error(payload?.error || "Failed to score rubric section");
+    const payload = await res.json().catch(() => null);
+    throw new Error(payload?.error || "Failed to generate RTASS scorecard");
   }
 
-  return payload.data as SectionScoreResponse;
+  const outcome: { scorecard?: RtassScorecard } = {};
+  await readSseEvents(res, ({ event, data }) => {
+    if (event === "section") {
+      onSection(data as ScoredSectionEvent);
+    } else if (event === "scorecard") {
+      outcome.scorecard = data as RtassScorecard;
+    } else if (event === "error") {
+      throw new Error(
+        (data as { message?: string }).message || "Failed to score rubric section",
+      );
+    }
+  });
+
+  if (!outcome.scorecard) {
+    throw new Error("Scoring stopped before the scorecard was complete");
+  }
+  return normalizeScorecardDates(outcome.scorecard);
+}
+
+/**
+ * The sections scored so far, as a scorecard the viewer can show while the
+ * rest are scored
+ */
+function buildLiveScorecard(
+  transcript: Transcript,
+  rubric: RtassRubricTemplate,
+  sections: RtassScorecardSection[],
+): RtassScorecard {
+  const overallScore = computeOverallScore(sections);
+
+  return {
+    id: `live-${rubric.id}`,
+    incidentId: transcript.id,
+    transcriptId: transcript.id,
+    rubricTemplateId: rubric.id,
+    createdAt: new Date(),
+    modelInfo: { provider: "openai", model: "unknown" },
+    overall: {
+      score: overallScore,
+      status: statusFromScore(overallScore, rubric),
+    },
+    sections,
+    humanReview: { reviewed: false },
+  };
 }
 
 export function ScorecardRunner({
@@ -140,6 +224,7 @@ export function ScorecardRunner({
     error: rubricsError,
   } = useAllRtassRubrics();
   const persistentDocs = useSupplementalDocsPersistent(transcript.id);
+  const { incident } = useTranscriptIncident(transcript.id);
   const [selectedRubricIds, setSelectedRubricIds] = React.useState<string[]>(
     [],
   );
@@ -160,11 +245,18 @@ export function ScorecardRunner({
     completedSections: number;
     label?: string;
   } | null>(null);
+  const [liveScorecard, setLiveScorecard] =
+    React.useState<RtassScorecard | null>(null);
 
   const scorecards = useLiveQuery<RtassScorecard[]>(async () => {
     const stored = await getRtassScorecardsByTranscript(transcript.id);
-    return stored.map(normalizeScorecardDates);
-  }, [transcript.id]);
+    return stored.map((scorecard) =>
+      applySpeakerMapToScorecard(
+        normalizeScorecardDates(scorecard),
+        transcript.speakerMap,
+      ),
+    );
+  }, [transcript.id, transcript.speakerMap]);
 
   const activeScorecard = React.useMemo(() => {
     if (!scorecards || scorecards.length === 0) return null;
@@ -228,6 +320,7 @@ export function ScorecardRunner({
     abortRef.current = null;
     setIsRunning(false);
     setRunProgress(null);
+    setLiveScorecard(null);
     notifications.show({
       title: "Cancelled",
       message: "Stopped scorecard generation.",
@@ -267,6 +360,7 @@ export function ScorecardRunner({
     try {
       // Get supplemental material from persistent docs
       const supplementalMaterial = await persistentDocs.getFormattedContent();
+      const cadEvents = await loadCadEvents(transcript.id, incident);
 
       const rubricTemplates = await Promise.all(
         selectedRubrics.map(resolveRubricTemplate),
@@ -283,84 +377,39 @@ export function ScorecardRunner({
       let lastScorecardId: string | null = null;
 
       for (const rubric of rubricTemplates) {
-        const concurrency = Math.max(1, Math.min(10, rubric.llm.concurrency));
-        const sectionOrder = new Map(
-          rubric.sections.map((s, idx) => [s.id, idx]),
+        const scored: RtassScorecardSection[] = [];
+        setRunProgress((prev) =>
+          prev ? { ...prev, label: `Scoring ${rubric.name}` } : prev,
         );
 
-        const sectionResults: RtassScorecardSection[] = [];
-        const warnings: string[] = [];
-        let modelInfo: RtassScorecard["modelInfo"] | undefined;
-
-        for (let i = 0; i < rubric.sections.length; i += concurrency) {
-          const batch = rubric.sections.slice(i, i + concurrency);
-          const results = await Promise.all(
-            batch.map(async (section) => {
-              const label = `${rubric.name}: ${section.title}`;
-              setRunProgress((prev) => (prev ? { ...prev, label } : prev));
-              const result = await scoreSection({
-                transcript,
-                rubric,
-                sectionId: section.id,
-                signal: controller.signal,
-                supplementalMaterial: supplementalMaterial || undefined,
-              });
-
-              modelInfo = modelInfo ?? result.modelInfo;
-              if (result.warnings) warnings.push(...result.warnings);
-              sectionResults.push(result.section);
-
-              setRunProgress((prev) =>
-                prev
-                  ? { ...prev, completedSections: prev.completedSections + 1 }
-                  : prev,
-              );
-              return result.section;
-            }),
-          );
-
-          // Preserve section ordering regardless of concurrency completion order
-          results.sort(
-            (a, b) =>
-              (sectionOrder.get(a.sectionId) ?? 0) -
-              (sectionOrder.get(b.sectionId) ?? 0),
-          );
-        }
-
-        sectionResults.sort(
-          (a, b) =>
-            (sectionOrder.get(a.sectionId) ?? 0) -
-            (sectionOrder.get(b.sectionId) ?? 0),
-        );
-
-        const overallNumerator = sectionResults.reduce(
-          (sum, s) => sum + s.weight * s.score,
-          0,
-        );
-        const overallDenominator = sectionResults.reduce(
-          (sum, s) => sum + s.weight,
-          0,
-        );
-        const overallScore =
-          overallDenominator > 0
-            ? clamp01(overallNumerator / overallDenominator)
-            : 0;
+        const result = await scoreRubric({
+          transcript,
+          rubric,
+          signal: controller.signal,
+          supplementalMaterial: supplementalMaterial || undefined,
+          cadEvents: cadEvents.length > 0 ? cadEvents : undefined,
+          onSection: ({ section, index }) => {
+            // Keep rubric order regardless of completion order
+            scored[index] = section;
+            setLiveScorecard(
+              buildLiveScorecard(transcript, rubric, scored.filter(Boolean)),
+            );
+            setRunProgress((prev) =>
+              prev
+                ? {
+                    ...prev,
+                    completedSections: prev.completedSections + 1,
+                    label: `${rubric.name}: ${section.title} scored`,
+                  }
+                : prev,
+            );
+          },
+        });
 
         const scorecard: RtassScorecard = {
-          id: crypto.randomUUID(),
-          incidentId: transcript.id,
-          transcriptId: transcript.id,
-          rubricTemplateId: rubric.id,
-          createdAt: new Date(),
-          modelInfo: modelInfo ?? { provider: "openai", model: "unknown" },
-          overall: {
-            score: overallScore,
-            status: statusFromScore(overallScore, rubric),
-          },
-          sections: sectionResults,
-          warnings:
-            warnings.length > 0 ? Array.from(new Set(warnings)) : undefined,
-          humanReview: { reviewed: false },
+          ...result,
+          incidentId: incident?.id ?? transcript.id,
+          transcriptRevision: transcript.revision ?? 0,
         };
 
         await saveRtassScorecard(scorecard);
@@ -387,6 +436,7 @@ export function ScorecardRunner({
       abortRef.current = null;
       setIsRunning(false);
       setRunProgress(null);
+      setLiveScorecard(null);
     }
   };
 
@@ -518,6 +568,21 @@ export function ScorecardRunner({
         </Stack>
       </Paper>
 
+      {isRunning && liveScorecard && (
+        <Stack gap="xs">
+          <Text size="sm" c="dimmed">
+            Scores so far. Sections appear here as they are scored; the
+            scorecard is saved once every section is done.
+          </Text>
+          <ScorecardViewer
+            scorecard={liveScorecard}
+            transcriptFilename={transcript.filename}
+            redactions={transcript.redactions}
+            onTimestampClick={onTimestampClick}
+          />
+        </Stack>
+      )}
+
       {scorecards && scorecards.length > 0 && (
         <Paper p="lg" radius="md" withBorder>
           <Group justify="space-between" align="flex-end" wrap="wrap">
@@ -587,10 +652,24 @@ export function ScorecardRunner({
               rubricNameById={rubricNameById}
             />
           )}
+          {isStaleForTranscript(activeScorecard, transcript) && (
+            <Alert
+              icon={<AlertCircle size={16} />}
+              title="Transcript corrected since this scorecard"
+              color="yellow"
+              variant="light"
+            >
+              This scorecard was generated from revision{" "}
+              {activeScorecard.transcriptRevision ?? 0} of the transcript; it
+              is now at revision {transcript.revision}. Generate a new
+              scorecard to score the corrected transcript.
+            </Alert>
+          )}
           <ScorecardViewer
             scorecard={activeScorecard}
             rubric={activeRubric}
             transcriptFilename={transcript.filename}
+            redactions={transcript.redactions}
             onTimestampClick={onTimestampClick}
           />
         </Stack>
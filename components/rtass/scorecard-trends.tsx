@@ -0,0 +1,436 @@
+"use client";
+
+import * as React from "react";
+import { useMemo, useState } from "react";
+import {
+  Badge,
+  Button,
+  Group,
+  Paper,
+  Progress,
+  Select,
+  SimpleGrid,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+  Title,
+  Tooltip,
+} from "@mantine/core";
+import { FilterX } from "lucide-react";
+import {
+  buildCriterionTrends,
+  buildRubricTrends,
+  buildSectionTrends,
+  filterTrendRecords,
+  mostMissedCriteria,
+  statusRate,
+  trendPeriod,
+  type RtassStatusCounts,
+  type RtassStatusTrend,
+  type RtassTrendRecord,
+} from "@/lib/rtass-trends";
+
+/** Number of most recent months shown as columns */
+const VISIBLE_PERIODS = 6;
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function passRateColor(rate: number): string {
+  if (rate >= 0.8) return "green";
+  if (rate >= 0.6) return "yellow";
+  return "red";
+}
+
+/**
+ * Parse a native date input value ("2026-01-31") as local midnight.
+ */
+function parseDateInput(value: string): Date | null {
+  if (!value) return null;
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function distinct(values: Array<string | undefined>): string[] {
+  return Array.from(new Set(values.filter((v): v is string => !!v))).sort();
+}
+
+function StatusBar({ counts }: { counts: RtassStatusCounts }) {
+  const pass = statusRate(counts, "pass") * 100;
+  const needsImprovement = statusRate(counts, "needsImprovement") * 100;
+  const fail = statusRate(counts, "fail") * 100;
+
+  return (
+    <Tooltip
+      label={`${counts.pass} pass · ${counts.needsImprovement} needs improvement · ${counts.fail} fail`}
+    >
+      <Progress.Root size="lg" w={160}>
+        <Progress.Section value={pass} color="green" />
+        <Progress.Section value={needsImprovement} color="yellow" />
+        <Progress.Section value={fail} color="red" />
+      </Progress.Root>
+    </Tooltip>
+  );
+}
+
+function StatusTrendTable({
+  trends,
+  periods,
+  emptyMessage,
+}: {
+  trends: RtassStatusTrend[];
+  periods: string[];
+  emptyMessage: string;
+}) {
+  if (trends.length === 0) {
+    return (
+      <Text size="sm" c="dimmed">
+        {emptyMessage}
+      </Text>
+    );
+  }
+
+  return (
+    <Table.ScrollContainer minWidth={720}>
+      <Table withTableBorder highlightOnHover>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th>Name</Table.Th>
+            <Table.Th>Scored</Table.Th>
+            <Table.Th>Pass / needs improvement / fail</Table.Th>
+            {periods.map((period) => (
+              <Table.Th key={period} ta="center">
+                {period}
+              </Table.Th>
+            ))}
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody>
+          {trends.map((trend) => {
+            const byPeriod = new Map(trend.points.map((p) => [p.period, p.counts]));
+            return (
+              <Table.Tr key={trend.id}>
+                <Table.Td>
+                  <Text size="sm" fw={500}>
+                    {trend.title}
+                  </Text>
+                </Table.Td>
+                <Table.Td>
+                  <Text size="sm">{trend.counts.total}</Text>
+                </Table.Td>
+                <Table.Td>
+                  <StatusBar counts={trend.counts} />
+                </Table.Td>
+                {periods.map((period) => {
+                  const counts = byPeriod.get(period);
+                  if (!counts) {
+                    return (
+                      <Table.Td key={period} ta="center">
+                        <Text size="xs" c="dimmed">
+                          —
+                        </Text>
+                      </Table.Td>
+                    );
+                  }
+                  const passRate = statusRate(counts, "pass");
+                  return (
+                    <Table.Td key={period} ta="center">
+                      <Tooltip
+                        label={`${counts.pass} pass · ${counts.needsImprovement} needs improvement · ${counts.fail} fail`}
+                      >
+                        <Badge size="sm" variant="light" color={passRateColor(passRate)}>
+                          {formatPercent(passRate)}
+                        </Badge>
+                      </Tooltip>
+                    </Table.Td>
+                  );
+                })}
+              </Table.Tr>
+            );
+          })}
+        </Table.Tbody>
+      </Table>
+    </Table.ScrollContainer>
+  );
+}
+
+interface ScorecardTrendsProps {
+  /** Latest scorecards with incident context (see useRtassTrendRecords) */
+  records: RtassTrendRecord[];
+  /** Rubric display names by template ID */
+  rubricNames: Map<string, string>;
+}
+
+/**
+ * Scorecard Trends
+ *
+ * Training-officer view across all scored incidents: pass / needs
+ * improvement / fail rates by rubric, section and criterion per month, and
+ * the most frequently missed criteria. Filterable by department, battalion
+ * and date range.
+ */
+export function ScorecardTrends({ records, rubricNames }: ScorecardTrendsProps) {
+  const [rubricId, setRubricId] = useState<string | null>(null);
+  const [department, setDepartment] = useState<string | null>(null);
+  const [battalion, setBattalion] = useState<string | null>(null);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const departments = useMemo(() => distinct(records.map((r) => r.department)), [records]);
+  const battalions = useMemo(() => distinct(records.map((r) => r.battalion)), [records]);
+
+  // Department, battalion and date filters apply to every view
+  const contextRecords = useMemo(() => {
+    const toDate = parseDateInput(to);
+    return filterTrendRecords(records, {
+      department,
+      battalion,
+      from: parseDateInput(from),
+      // Include the whole end day
+      to: toDate ? new Date(toDate.getTime() + 24 * 60 * 60 * 1000 - 1) : null,
+    });
+  }, [records, department, battalion, from, to]);
+
+  const rubricTrends = useMemo(
+    () =>
+      buildRubricTrends(contextRecords, rubricNames).sort(
+        (a, b) => b.counts.total - a.counts.total,
+      ),
+    [contextRecords, rubricNames],
+  );
+
+  // Sections and criteria are only comparable within one rubric; default to
+  // the rubric with the most scorecards
+  const activeRubricId = rubricId ?? rubricTrends[0]?.id ?? null;
+
+  const rubricRecords = useMemo(
+    () =>
+      activeRubricId
+        ? filterTrendRecords(contextRecords, { rubricTemplateId: activeRubricId })
+        : [],
+    [contextRecords, activeRubricId],
+  );
+  const sectionTrends = useMemo(() => buildSectionTrends(rubricRecords), [rubricRecords]);
+  const criterionTrends = useMemo(() => buildCriterionTrends(rubricRecords), [rubricRecords]);
+  const mostMissed = useMemo(() => mostMissedCriteria(criterionTrends), [criterionTrends]);
+
+  const periods = useMemo(
+    () =>
+      Array.from(new Set(contextRecords.map((r) => trendPeriod(r.occurredAt))))
+        .sort()
+        .slice(-VISIBLE_PERIODS),
+    [contextRecords],
+  );
+
+  const overall = rubricTrends.reduce<RtassStatusCounts>(
+    (sum, t) => ({
+      pass: sum.pass + t.counts.pass,
+      needsImprovement: sum.needsImprovement + t.counts.needsImprovement,
+      fail: sum.fail + t.counts.fail,
+      total: sum.total + t.counts.total,
+    }),
+    { pass: 0, needsImprovement: 0, fail: 0, total: 0 },
+  );
+
+  const hasFilters = !!(rubricId || department || battalion || from || to);
+  const clearFilters = () => {
+    setRubricId(null);
+    setDepartment(null);
+    setBattalion(null);
+    setFrom("");
+    setTo("");
+  };
+
+  const rubricOptions = rubricTrends.map((t) => ({ value: t.id, label: t.title }));
+  const activeRubricName = activeRubricId
+    ? rubricNames.get(activeRubricId) ?? activeRubricId
+    : null;
+
+  return (
+    <Stack gap="lg">
+      <Paper p="md" radius="md" withBorder>
+        <Group align="flex-end" gap="md" wrap="wrap">
+          <Select
+            label="Rubric"
+            placeholder={activeRubricName ?? "All rubrics"}
+            data={rubricOptions}
+            value={rubricId}
+            onChange={setRubricId}
+            clearable
+            w={240}
+          />
+          <Select
+            label="Department"
+            placeholder="All departments"
+            data={departments}
+            value={department}
+            onChange={setDepartment}
+            clearable
+            disabled={departments.length === 0}
+            w={200}
+          />
+          <Select
+            label="Battalion"
+            placeholder="All battalions"
+            data={battalions}
+            value={battalion}
+            onChange={setBattalion}
+            clearable
+            disabled={battalions.length === 0}
+            w={160}
+          />
+          <TextInput
+            label="From"
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.currentTarget.value)}
+          />
+          <TextInput
+            label="To"
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.currentTarget.value)}
+          />
+          <Button
+            variant="subtle"
+            leftSection={<FilterX size={16} />}
+            onClick={clearFilters}
+            disabled={!hasFilters}
+          >
+            Clear
+          </Button>
+        </Group>
+      </Paper>
+
+      <SimpleGrid cols={{ base: 2, sm: 4 }}>
+        <Paper p="md" radius="md" withBorder>
+          <Text size="xs" c="dimmed" tt="uppercase" fw={600}>
+            Scorecards
+          </Text>
+          <Text size="xl" fw={700}>
+            {overall.total}
+          </Text>
+        </Paper>
+        <Paper p="md" radius="md" withBorder>
+          <Text size="xs" c="dimmed" tt="uppercase" fw={600}>
+            Pass
+          </Text>
+          <Text size="xl" fw={700} c="green">
+            {formatPercent(statusRate(overall, "pass"))}
+          </Text>
+        </Paper>
+        <Paper p="md" radius="md" withBorder>
+          <Text size="xs" c="dimmed" tt="uppercase" fw={600}>
+            Needs improvement
+          </Text>
+          <Text size="xl" fw={700} c="yellow">
+            {formatPercent(statusRate(overall, "needsImprovement"))}
+          </Text>
+        </Paper>
+        <Paper p="md" radius="md" withBorder>
+          <Text size="xs" c="dimmed" tt="uppercase" fw={600}>
+            Fail
+          </Text>
+          <Text size="xl" fw={700} c="red">
+            {formatPercent(statusRate(overall, "fail"))}
+          </Text>
+        </Paper>
+      </SimpleGrid>
+
+      <Paper p="lg" radius="md" withBorder>
+        <Stack gap="md">
+          <Title order={2} size="h4">
+            By Rubric
+          </Title>
+          <StatusTrendTable
+            trends={rubricTrends}
+            periods={periods}
+            emptyMessage="No scorecards match these filters."
+          />
+        </Stack>
+      </Paper>
+
+      {activeRubricName && (
+        <>
+          <Paper p="lg" radius="md" withBorder>
+            <Stack gap="md">
+              <Title order={2} size="h4">
+                Most Missed Criteria · {activeRubricName}
+              </Title>
+              {mostMissed.length === 0 ? (
+                <Text size="sm" c="dimmed">
+                  No missed criteria in these scorecards.
+                </Text>
+              ) : (
+                <Table withTableBorder highlightOnHover>
+                  <Table.Thead>
+                    <Table.Tr>
+                      <Table.Th>Criterion</Table.Th>
+                      <Table.Th>Missed</Table.Th>
+                      <Table.Th>Not observed</Table.Th>
+                      <Table.Th>Miss rate</Table.Th>
+                    </Table.Tr>
+                  </Table.Thead>
+                  <Table.Tbody>
+                    {mostMissed.map((trend) => (
+                      <Table.Tr key={trend.id}>
+                        <Table.Td>
+                          <Text size="sm" fw={500}>
+                            {trend.title}
+                          </Text>
+                          <Text size="xs" c="dimmed">
+                            {sectionTrends.find((s) => s.sectionId === trend.sectionId)?.title ??
+                              trend.sectionId}
+                          </Text>
+                        </Table.Td>
+                        <Table.Td>{trend.missed}</Table.Td>
+                        <Table.Td>{trend.notObserved}</Table.Td>
+                        <Table.Td>
+                          <Badge variant="light" color={passRateColor(1 - trend.missRate)}>
+                            {formatPercent(trend.missRate)} of {trend.counts.total}
+                          </Badge>
+                        </Table.Td>
+                      </Table.Tr>
+                    ))}
+                  </Table.Tbody>
+                </Table>
+              )}
+            </Stack>
+          </Paper>
+
+          <Paper p="lg" radius="md" withBorder>
+            <Stack gap="md">
+              <Title order={2} size="h4">
+                By Section · {activeRubricName}
+              </Title>
+              <StatusTrendTable
+                trends={sectionTrends}
+                periods={periods}
+                emptyMessage="No sections scored."
+              />
+            </Stack>
+          </Paper>
+
+          <Paper p="lg" radius="md" withBorder>
+            <Stack gap="md">
+              <Title order={2} size="h4">
+                By Criterion · {activeRubricName}
+              </Title>
+              <Text size="xs" c="dimmed">
+                Met counts as pass, partial as needs improvement, and missed or
+                not observed as fail. Not applicable verdicts are excluded.
+              </Text>
+              <StatusTrendTable
+                trends={criterionTrends}
+                periods={periods}
+                emptyMessage="No criteria scored."
+              />
+            </Stack>
+          </Paper>
+        </>
+      )}
+    </Stack>
+  );
+}
@@ -3,6 +3,7 @@
 import * as React from "react";
 import { useState } from "react";
 import {
+  ActionIcon,
   Alert,
   Badge,
   Box,
@@ -14,11 +15,35 @@ import {
   Table,
   Text,
   Title,
+  Tooltip,
 } from "@mantine/core";
 import { notifications } from "@mantine/notifications";
-import { AlertCircle, CheckCircle2, Clock, Download, XCircle } from "lucide-react";
-import type { RtassScorecard, RtassRubricTemplate } from "@/types/rtass";
+import {
+  AlertCircle,
+  CheckCircle2,
+  Clock,
+  Download,
+  FileClock,
+  History,
+  Pencil,
+  XCircle,
+} from "lucide-react";
+import type {
+  RtassCriterionAssessment,
+  RtassRubricTemplate,
+  RtassScorecard,
+  RtassScorecardCriterion,
+  RtassVerdict,
+} from "@/types/rtass";
+import type { RedactionSpan } from "@/types/redaction";
+import { updateRtassScorecardCriterion } from "@/lib/db";
+import { redactValue } from "@/lib/redaction";
+import { getRedactExportsPreference } from "@/lib/storage";
 import { formatTimestamp } from "@/lib/transcript-utils";
+import {
+  CriterionEditModal,
+  type CriterionEditSubmission,
+} from "./criterion-edit-modal";
 
 function formatPercent(score: number): string {
   return `${Math.round(score * 100)}%`;
@@ -46,6 +71,35 @@ function statusIcon(status: RtassScorecard["overall"]["status"]) {
   }
 }
 
+function verdictColor(verdict: RtassVerdict): string {
+  switch (verdict) {
+    case "met":
+      return "green";
+    case "missed":
+      return "red";
+    case "partial":
+      return "yellow";
+    default:
+      return "gray";
+  }
+}
+
+function formatVerdict(verdict: RtassVerdict): string {
+  return verdict.replace("_", " ");
+}
+
+/**
+ * Summarize an assessment for the edit history ("partial 50%, 2 quotes").
+ */
+function describeAssessment(assessment: RtassCriterionAssessment): string {
+  const score =
+    assessment.verdict === "partial" && typeof assessment.score === "number"
+      ? ` ${formatPercent(assessment.score)}`
+      : "";
+  const quotes = assessment.evidence.length;
+  return `${formatVerdict(assessment.verdict)}${score}, ${quotes} quote${quotes === 1 ? "" : "s"}`;
+}
+
 function escapeCsvCell(value: unknown): string {
   const str = value === null || value === undefined ? "" : String(value);
   const escaped = str.replace(/"/g, "\"\"");
@@ -78,6 +132,8 @@ function buildScorecardCsv(scorecard: RtassScorecard): string {
     "evidenceQuotes",
     "evidenceStarts",
     "evidenceSpeakers",
+    "cadEvidence",
+    "aiVerdict",
   ]);
 
   for (const section of scorecard.sections) {
@@ -85,6 +141,9 @@ function buildScorecardCsv(scorecard: RtassScorecard): string {
       const evidenceQuotes = criterion.evidence.map((e) => e.quote).join(" | ");
       const evidenceStarts = criterion.evidence.map((e) => e.start).join(" | ");
       const evidenceSpeakers = criterion.evidence.map((e) => e.speaker ?? "").join(" | ");
+      const cadEvidence = (criterion.cadEvidence ?? [])
+        .map((e) => `${e.label} @ ${e.at}`)
+        .join(" | ");
 
       rows.push([
         scorecard.id,
@@ -106,6 +165,8 @@ function buildScorecardCsv(scorecard: RtassScorecard): string {
         evidenceQuotes,
         evidenceStarts,
         evidenceSpeakers,
+        cadEvidence,
+        criterion.aiAssessment?.verdict ?? "",
       ].map(escapeCsvCell));
     }
   }
@@ -117,12 +178,15 @@ export function ScorecardViewer({
   scorecard,
   rubric,
   transcriptFilename,
+  redactions,
   incidentInfo,
   onTimestampClick,
 }: {
   scorecard: RtassScorecard;
   rubric?: RtassRubricTemplate;
   transcriptFilename?: string;
+  /** Redactions of the scored transcript, applied to exports */
+  redactions?: RedactionSpan[];
   incidentInfo?: {
     incidentNumber?: string;
     incidentDate?: Date;
@@ -131,10 +195,46 @@ export function ScorecardViewer({
   onTimestampClick?: (seconds: number) => void;
 }) {
   const [isExporting, setIsExporting] = useState(false);
+  const [editing, setEditing] = useState<{
+    sectionId: string;
+    criterion: RtassScorecardCriterion;
+  } | null>(null);
+
+  const criterionTitleById = new Map(
+    scorecard.sections.flatMap((s) => s.criteria.map((c) => [c.criterionId, c.title])),
+  );
+
+  const handleSaveEdit = async (submission: CriterionEditSubmission) => {
+    if (!editing || !rubric) return;
+    try {
+      await updateRtassScorecardCriterion(scorecard.id, rubric, {
+        sectionId: editing.sectionId,
+        criterionId: editing.criterion.criterionId,
+        ...submission,
+      });
+      setEditing(null);
+      notifications.show({
+        title: "Override saved",
+        message: "Section and overall scores have been recomputed",
+        color: "green",
+      });
+    } catch (error) {
+      console.error("Scorecard override error:", error);
+      notifications.show({
+        title: "Override Failed",
+        message: error instanceof Error ? error.message : "Failed to save override",
+        color: "red",
+      });
+    }
+  };
+
+  // Exports leave out redacted personal details quoted in the evidence
+  const exportRedactions = () => (getRedactExportsPreference() ? redactions ?? [] : []);
 
   const handleExportJSON = () => {
     try {
-      const blob = new Blob([JSON.stringify(scorecard, null, 2)], {
+      const exported = redactValue(scorecard, exportRedactions());
+      const blob = new Blob([JSON.stringify(exported, null, 2)], {
         type: "application/json",
       });
       const url = URL.createObjectURL(blob);
@@ -166,7 +266,7 @@ export function ScorecardViewer({
 
   const handleExportCSV = () => {
     try {
-      const csv = buildScorecardCsv(scorecard);
+      const csv = buildScorecardCsv(redactValue(scorecard, exportRedactions()));
       const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
@@ -208,6 +308,7 @@ export function ScorecardViewer({
         rubric,
         transcriptFilename,
         incidentInfo,
+        redactions: exportRedactions(),
       });
 
       if (!result.success) {
@@ -345,6 +446,7 @@ export function ScorecardViewer({
                   <Table.Th>Verdict</Table.Th>
                   <Table.Th>Confidence</Table.Th>
                   <Table.Th>Evidence</Table.Th>
+                  {rubric && <Table.Th w={48} />}
                 </Table.Tr>
               </Table.Thead>
               <Table.Tbody>
@@ -359,28 +461,44 @@ export function ScorecardViewer({
                       </Text>
                     </Table.Td>
                     <Table.Td>
-                      <Badge
-                        size="sm"
-                        variant="light"
-                        color={
-                          criterion.verdict === "met"
-                            ? "green"
-                            : criterion.verdict === "missed"
-                              ? "red"
-                              : criterion.verdict === "partial"
-                                ? "yellow"
-                                : "gray"
-                        }
-                        styles={{ root: { textTransform: "uppercase" } }}
-                      >
-                        {criterion.verdict.replace("_", " ")}
-                      </Badge>
+                      <Stack gap={4} align="flex-start">
+                        <Badge
+                          size="sm"
+                          variant="light"
+                          color={verdictColor(criterion.verdict)}
+                          styles={{ root: { textTransform: "uppercase" } }}
+                        >
+                          {formatVerdict(criterion.verdict)}
+                        </Badge>
+                        {criterion.aiAssessment && (
+                          <Tooltip label={`AI: ${describeAssessment(criterion.aiAssessment)}`}>
+                            <Badge size="xs" variant="outline" color="grape">
+                              Edited
+                            </Badge>
+                          </Tooltip>
+                        )}
+                      </Stack>
                     </Table.Td>
                     <Table.Td>
                       <Text size="sm">{Math.round(criterion.confidence * 100)}%</Text>
                     </Table.Td>
                     <Table.Td>
                       <Stack gap={6}>
+                        {criterion.cadEvidence?.map((e) => (
+                          <Group key={`${criterion.criterionId}-cad-${e.event}`} gap="xs">
+                            <Badge
+                              size="xs"
+                              variant="light"
+                              color="cyan"
+                              leftSection={<FileClock size={10} />}
+                            >
+                              CAD {new Date(e.at).toLocaleTimeString()}
+                            </Badge>
+                            <Text size="xs" c="dimmed">
+                              {e.label}
+                            </Text>
+                          </Group>
+                        ))}
                         {criterion.evidence.slice(0, 2).map((e, idx) => (
                           <Box key={`${criterion.criterionId}-${idx}`}>
                             <Text size="xs" c="dimmed" lineClamp={2}>
@@ -404,7 +522,7 @@ export function ScorecardViewer({
                             </Group>
                           </Box>
                         ))}
-                        {criterion.evidence.length === 0 && (
+                        {criterion.evidence.length === 0 && !criterion.cadEvidence?.length && (
                           <Group gap="xs" c="dimmed">
                             <AlertCircle size={14} />
                             <Text size="xs">No evidence provided</Text>
@@ -412,6 +530,19 @@ export function ScorecardViewer({
                         )}
                       </Stack>
                     </Table.Td>
+                    {rubric && (
+                      <Table.Td>
+                        <Tooltip label="Override">
+                          <ActionIcon
+                            variant="subtle"
+                            aria-label={`Override ${criterion.title}`}
+                            onClick={() => setEditing({ sectionId: section.sectionId, criterion })}
+                          >
+                            <Pencil size={14} />
+                          </ActionIcon>
+                        </Tooltip>
+                      </Table.Td>
+                    )}
                   </Table.Tr>
                 ))}
               </Table.Tbody>
@@ -419,6 +550,61 @@ export function ScorecardViewer({
           </Paper>
         ))}
       </Stack>
+
+      {scorecard.edits && scorecard.edits.length > 0 && (
+        <Paper p="lg" radius="md" withBorder>
+          <Group gap="xs" mb="md">
+            <History size={18} />
+            <Title order={3} size="h4">
+              Change History
+            </Title>
+          </Group>
+          <Table withTableBorder>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>When</Table.Th>
+                <Table.Th>Who</Table.Th>
+                <Table.Th>Criterion</Table.Th>
+                <Table.Th>Change</Table.Th>
+                <Table.Th>Reason</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {[...scorecard.edits].reverse().map((edit) => (
+                <Table.Tr key={edit.id}>
+                  <Table.Td>
+                    <Text size="xs">{new Date(edit.editedAt).toLocaleString()}</Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="xs">{edit.editedBy}</Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="xs">
+                      {criterionTitleById.get(edit.criterionId) ?? edit.criterionId}
+                    </Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="xs">
+                      {describeAssessment(edit.before)} → {describeAssessment(edit.after)}
+                    </Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="xs" c="dimmed">
+                      {edit.reason}
+                    </Text>
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </Paper>
+      )}
+
+      <CriterionEditModal
+        criterion={editing?.criterion ?? null}
+        onClose={() => setEditing(null)}
+        onSave={handleSaveEdit}
+      />
     </Stack>
   );
 }
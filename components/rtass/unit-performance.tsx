@@ -0,0 +1,268 @@
+"use client";
+
+import * as React from "react";
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  Anchor,
+  Badge,
+  Group,
+  Paper,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+  Title,
+  Tooltip,
+} from "@mantine/core";
+import { Search } from "lucide-react";
+import { formatTimestamp } from "@/lib/transcript-utils";
+import {
+  summarizeUnits,
+  type UnitActivity,
+  type UnitActivityKind,
+  type UnitSummary,
+} from "@/lib/unit-attribution";
+
+const KIND_LABELS: Record<UnitActivityKind, string> = {
+  criterion: "Scorecard",
+  benchmark: "Benchmark",
+  radio_report: "Radio report",
+  safety_event: "Safety",
+};
+
+const KIND_COLORS: Record<UnitActivityKind, string> = {
+  criterion: "blue",
+  benchmark: "grape",
+  radio_report: "teal",
+  safety_event: "orange",
+};
+
+function outcomeColor(outcome: string): string {
+  switch (outcome) {
+    case "met":
+    case "complete":
+    case "info":
+      return "green";
+    case "partial":
+    case "incomplete":
+    case "warning":
+      return "yellow";
+    case "missed":
+    case "critical":
+      return "red";
+    default:
+      return "gray";
+  }
+}
+
+function UnitHistory({ summary }: { summary: UnitSummary }) {
+  return (
+    <Paper p="lg" radius="md" withBorder>
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Title order={2} size="h4">
+            {summary.unit}
+          </Title>
+          <Text size="sm" c="dimmed">
+            {summary.incidents} incident{summary.incidents === 1 ? "" : "s"} ·{" "}
+            {summary.activities.length} attributed item
+            {summary.activities.length === 1 ? "" : "s"}
+          </Text>
+        </Group>
+
+        <Table.ScrollContainer minWidth={760}>
+          <Table withTableBorder highlightOnHover>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Date</Table.Th>
+                <Table.Th>Incident</Table.Th>
+                <Table.Th>Source</Table.Th>
+                <Table.Th>Item</Table.Th>
+                <Table.Th>Outcome</Table.Th>
+                <Table.Th>Evidence</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {summary.activities.map((activity, idx) => (
+                <ActivityRow key={`${activity.transcriptId}-${activity.kind}-${idx}`} activity={activity} />
+              ))}
+            </Table.Tbody>
+          </Table>
+        </Table.ScrollContainer>
+      </Stack>
+    </Paper>
+  );
+}
+
+function ActivityRow({ activity }: { activity: UnitActivity }) {
+  const href = activity.incidentId
+    ? `/incidents/${activity.incidentId}`
+    : `/transcripts/${activity.transcriptId}`;
+
+  return (
+    <Table.Tr>
+      <Table.Td>
+        <Text size="xs">{activity.occurredAt.toLocaleDateString()}</Text>
+      </Table.Td>
+      <Table.Td>
+        <Anchor component={Link} href={href} size="xs">
+          {activity.incidentName ?? "View transcript"}
+        </Anchor>
+      </Table.Td>
+      <Table.Td>
+        <Badge size="xs" variant="light" color={KIND_COLORS[activity.kind]}>
+          {KIND_LABELS[activity.kind]}
+        </Badge>
+      </Table.Td>
+      <Table.Td>
+        <Text size="sm">{activity.label}</Text>
+      </Table.Td>
+      <Table.Td>
+        <Badge
+          size="sm"
+          variant="light"
+          color={outcomeColor(activity.outcome)}
+          styles={{ root: { textTransform: "uppercase" } }}
+        >
+          {activity.outcome.replace("_", " ")}
+        </Badge>
+      </Table.Td>
+      <Table.Td>
+        {activity.quote && (
+          <Text size="xs" c="dimmed" lineClamp={2}>
+            {activity.timestamp !== undefined && `[${formatTimestamp(activity.timestamp)}] `}
+            “{activity.quote}”
+          </Text>
+        )}
+      </Table.Td>
+    </Table.Tr>
+  );
+}
+
+interface UnitPerformanceProps {
+  /** Outcomes attributed to units (see useUnitActivity) */
+  activities: UnitActivity[];
+}
+
+/**
+ * Unit Performance
+ *
+ * Lists every unit heard in scorecard evidence and analysis observations,
+ * with its criteria outcomes and radio reports across incidents. Selecting
+ * a unit shows its full history.
+ */
+export function UnitPerformance({ activities }: UnitPerformanceProps) {
+  const [search, setSearch] = useState("");
+  const [selectedUnit, setSelectedUnit] = useState<string | null>(null);
+
+  const summaries = useMemo(() => summarizeUnits(activities), [activities]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return summaries;
+    return summaries.filter((s) => s.unit.toLowerCase().includes(term));
+  }, [summaries, search]);
+
+  const selected = summaries.find((s) => s.unit === selectedUnit);
+
+  return (
+    <Stack gap="lg">
+      <Paper p="lg" radius="md" withBorder>
+        <Stack gap="md">
+          <TextInput
+            placeholder="Find a unit (e.g. Engine 14, Battalion 2)..."
+            leftSection={<Search size={16} />}
+            value={search}
+            onChange={(e) => setSearch(e.currentTarget.value)}
+          />
+
+          {filtered.length === 0 ? (
+            <Text size="sm" c="dimmed">
+              No units match “{search}”.
+            </Text>
+          ) : (
+            <Table.ScrollContainer minWidth={720}>
+              <Table withTableBorder highlightOnHover>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Unit</Table.Th>
+                    <Table.Th>Incidents</Table.Th>
+                    <Table.Th>Criteria & benchmarks</Table.Th>
+                    <Table.Th>Radio reports</Table.Th>
+                    <Table.Th>Safety events</Table.Th>
+                    <Table.Th>Last active</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {filtered.map((summary) => (
+                    <Table.Tr
+                      key={summary.unit}
+                      onClick={() => setSelectedUnit(summary.unit)}
+                      bg={summary.unit === selectedUnit ? "var(--mantine-color-blue-light)" : undefined}
+                      style={{ cursor: "pointer" }}
+                    >
+                      <Table.Td>
+                        <Text size="sm" fw={600}>
+                          {summary.unit}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>{summary.incidents}</Table.Td>
+                      <Table.Td>
+                        <Group gap={4}>
+                          <Tooltip label="Met">
+                            <Badge size="sm" variant="light" color="green">
+                              {summary.met}
+                            </Badge>
+                          </Tooltip>
+                          <Tooltip label="Partial">
+                            <Badge size="sm" variant="light" color="yellow">
+                              {summary.partial}
+                            </Badge>
+                          </Tooltip>
+                          <Tooltip label="Missed">
+                            <Badge size="sm" variant="light" color="red">
+                              {summary.missed}
+                            </Badge>
+                          </Tooltip>
+                          <Tooltip label="Not observed">
+                            <Badge size="sm" variant="light" color="gray">
+                              {summary.notObserved}
+                            </Badge>
+                          </Tooltip>
+                        </Group>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm">
+                          {summary.radioReports}
+                          {summary.incompleteReports > 0 && (
+                            <Text span size="xs" c="yellow.7">
+                              {" "}
+                              ({summary.incompleteReports} incomplete)
+                            </Text>
+                          )}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>{summary.safetyEvents}</Table.Td>
+                      <Table.Td>
+                        <Text size="sm">{summary.lastActive.toLocaleDateString()}</Text>
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </Table.ScrollContainer>
+          )}
+        </Stack>
+      </Paper>
+
+      {selected ? (
+        <UnitHistory summary={selected} />
+      ) : (
+        <Text size="sm" c="dimmed" ta="center">
+          Select a unit to see its history across incidents.
+        </Text>
+      )}
+    </Stack>
+  );
+}
@@ -20,6 +20,8 @@ import {
 } from "@/lib/export/transcript-exporter";
 import type { ExportFormat } from "@/lib/export/download-helper";
 import { exportAndDownloadTranscript as exportAndDownloadPackage } from "@/lib/package/export";
+import { applyRedactions } from "@/lib/redaction";
+import { getRedactExportsPreference } from "@/lib/storage";
 // PDF exporter is imported dynamically to avoid loading the 4MB @react-pdf/renderer on every page
 // import { exportAndDownloadTranscript, isPDFExportSupported } from "@/lib/pdf/pdf-exporter";
 
@@ -134,7 +136,9 @@ export function ExportMenu({
           }
 
           // Generate and download PDF
-          const result = await exportAndDownloadTranscript(transcript);
+          const result = await exportAndDownloadTranscript(transcript, {
+            redact: getRedactExportsPreference(),
+          });
 
           if (result.success) {
             notifications.show({
@@ -157,7 +161,9 @@ export function ExportMenu({
           await new Promise((resolve) => setTimeout(resolve, 100));
 
           // Perform export
-          const result = exportTranscript(transcript, format);
+          const result = exportTranscript(transcript, format, {
+            redact: getRedactExportsPreference(),
+          });
 
           if (result.success) {
             // Success feedback
@@ -214,7 +220,9 @@ export function ExportMenu({
     setIsExportingPackage(true);
 
     try {
-      await exportAndDownloadPackage(transcript);
+      await exportAndDownloadPackage(
+        getRedactExportsPreference() ? applyRedactions(transcript) : transcript
+      );
       notifications.show({
         title: "Package Created",
         message: "Transcript exported as shareable package. Share this file with others to import.",
@@ -0,0 +1,123 @@
+/**
+ * Glossary Corrections Modal
+ *
+ * Review of the substitutions the glossary correction pass made after
+ * transcription: what was heard, what it was replaced with, and where.
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import { Badge, Group, Modal, Stack, Table, Text } from "@mantine/core";
+import { SpellCheck } from "lucide-react";
+import { formatTimestamp } from "@/lib/transcript-utils";
+import type { Transcript } from "@/types/transcript";
+
+export interface GlossaryCorrectionsModalProps {
+  /** Whether the modal is open */
+  opened: boolean;
+  /** Callback when modal is closed */
+  onClose: () => void;
+  /** The transcript the corrections were applied to */
+  transcript: Transcript;
+}
+
+/**
+ * Modal listing a transcript's glossary corrections.
+ */
+export function GlossaryCorrectionsModal({
+  opened,
+  onClose,
+  transcript,
+}: GlossaryCorrectionsModalProps) {
+  const corrections = useMemo(() => transcript.glossaryCorrections ?? [], [transcript.glossaryCorrections]);
+
+  // Corrections index the machine transcript, which later revisions renumber
+  const segmentsByIndex = useMemo(
+    () =>
+      new Map(
+        (transcript.original?.segments ?? transcript.segments).map((s) => [s.index, s]),
+      ),
+    [transcript.original, transcript.segments],
+  );
+
+  const totals = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const c of corrections) {
+      counts.set(c.replacement, (counts.get(c.replacement) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  }, [corrections]);
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={
+        <Text fw={600} component="span">
+          <SpellCheck size={16} style={{ verticalAlign: "middle", marginRight: 8 }} />
+          Glossary corrections
+        </Text>
+      }
+      size="xl"
+    >
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          These terms were replaced automatically after transcription. To undo
+          one, edit the transcript; the machine text shown here is kept in the
+          revision history.
+        </Text>
+
+        <Group gap="xs">
+          {totals.map(([term, count]) => (
+            <Badge key={term} variant="light" tt="none">
+              {term} × {count}
+            </Badge>
+          ))}
+        </Group>
+
+        <Table.ScrollContainer minWidth={640}>
+          <Table withTableBorder>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Time</Table.Th>
+                <Table.Th>Heard</Table.Th>
+                <Table.Th>Replaced with</Table.Th>
+                <Table.Th>Segment</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {corrections.map((correction, i) => {
+                const segment = segmentsByIndex.get(correction.segmentIndex);
+                return (
+                  <Table.Tr key={`${correction.segmentIndex}-${i}`}>
+                    <Table.Td>
+                      <Text size="xs" ff="monospace">
+                        {segment ? formatTimestamp(segment.start) : "—"}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c="red" td="line-through">
+                        {correction.original}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c="green" fw={600}>
+                        {correction.replacement}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" lineClamp={2}>
+                        {segment?.text ?? "Segment no longer available"}
+                      </Text>
+                    </Table.Td>
+                  </Table.Tr>
+                );
+              })}
+            </Table.Tbody>
+          </Table>
+        </Table.ScrollContainer>
+      </Stack>
+    </Modal>
+  );
+}
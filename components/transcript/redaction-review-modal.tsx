@@ -0,0 +1,419 @@
+/**
+ * Redaction Review Modal
+ *
+ * Lets a reviewer find personal details in a transcript (with the built-in
+ * patterns, the optional AI pass, or by typing them in) and approve or
+ * reject each marked span. Approved and pending spans are left out of
+ * exports, shared packages and, when enabled, AI requests.
+ */
+
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Group,
+  Mark,
+  Modal,
+  ScrollArea,
+  Select,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+  Tooltip,
+} from "@mantine/core";
+import { notifications } from "@mantine/notifications";
+import { AudioLines, Check, CheckCheck, Plus, Save, ScanSearch, Sparkles, X } from "lucide-react";
+import { updateTranscriptRedactions } from "@/lib/db";
+import {
+  detectPiiSpans,
+  findTextSpans,
+  mergeRedactionSpans,
+  REDACTION_CATEGORY_LABELS,
+  reviewRedactionSpan,
+} from "@/lib/redaction";
+import { getReviewerNamePreference } from "@/lib/storage";
+import { formatTimestamp } from "@/lib/transcript-utils";
+import {
+  REDACTION_CATEGORIES,
+  type RedactionCategory,
+  type RedactionSpan,
+  type RedactionStatus,
+} from "@/types/redaction";
+import type { Transcript, TranscriptSegment } from "@/types/transcript";
+
+export interface RedactionReviewModalProps {
+  /** Whether the modal is open */
+  opened: boolean;
+  /** Callback when modal is closed */
+  onClose: () => void;
+  /** The stored transcript */
+  transcript: Transcript;
+  /** Opens the redacted audio modal; omitted when there is no recording */
+  onRedactedAudio?: () => void;
+}
+
+const STATUS_COLORS: Record<RedactionStatus, string> = {
+  pending: "yellow",
+  approved: "green",
+  rejected: "gray",
+};
+
+const SOURCE_LABELS: Record<RedactionSpan["source"], string> = {
+  pattern: "Pattern",
+  llm: "AI",
+  manual: "Manual",
+};
+
+const CATEGORY_OPTIONS = REDACTION_CATEGORIES.map((category) => ({
+  value: category,
+  label: REDACTION_CATEGORY_LABELS[category],
+}));
+
+/**
+ * Segment text with the span highlighted. Falls back to the plain text when
+ * the segment was edited and the span can no longer be found.
+ */
+function SpanContext({ segment, span }: { segment?: TranscriptSegment; span: RedactionSpan }) {
+  if (!segment) {
+    return (
+      <Text size="sm" c="dimmed">
+        Segment no longer available
+      </Text>
+    );
+  }
+
+  let start = span.start;
+  if (segment.text.slice(span.start, span.end) !== span.text) {
+    start = segment.text.indexOf(span.text);
+  }
+  if (start === -1) {
+    return (
+      <Text size="sm" lineClamp={2}>
+        {segment.text}
+      </Text>
+    );
+  }
+
+  const end = start + span.text.length;
+  return (
+    <Text size="sm" lineClamp={2}>
+      {segment.text.slice(0, start)}
+      <Mark color={span.status === "rejected" ? "gray" : "red"}>
+        {segment.text.slice(start, end)}
+      </Mark>
+      {segment.text.slice(end)}
+    </Text>
+  );
+}
+
+interface RedactionReviewFormProps {
+  transcript: Transcript;
+  onClose: () => void;
+  onRedactedAudio?: () => void;
+}
+
+function RedactionReviewForm({ transcript, onClose, onRedactedAudio }: RedactionReviewFormProps) {
+  const [savedSpans] = useState<RedactionSpan[]>(() => transcript.redactions ?? []);
+  const [spans, setSpans] = useState<RedactionSpan[]>(savedSpans);
+  const [manualText, setManualText] = useState("");
+  const [manualCategory, setManualCategory] = useState<RedactionCategory>("name");
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [reviewer] = useState(getReviewerNamePreference);
+
+  const segmentsByIndex = useMemo(
+    () => new Map(transcript.segments.map((s) => [s.index, s])),
+    [transcript.segments],
+  );
+
+  const pendingCount = spans.filter((s) => s.status === "pending").length;
+
+  const addSpans = (detected: RedactionSpan[], source: string) => {
+    const merged = mergeRedactionSpans(spans, detected);
+    const added = merged.length - spans.length;
+    setSpans(merged);
+    notifications.show({
+      title: added > 0 ? "Personal Details Found" : "Nothing New Found",
+      message:
+        added > 0
+          ? `${source} marked ${added} span${added === 1 ? "" : "s"} for review.`
+          : `${source} found nothing that is not already marked.`,
+      color: added > 0 ? "blue" : "gray",
+    });
+  };
+
+  const handleDetectPatterns = () => {
+    addSpans(detectPiiSpans(transcript.segments), "The pattern pass");
+  };
+
+  const handleDetectWithAi = async () => {
+    setIsDetecting(true);
+    try {
+      const response = await fetch("/api/redactions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          segments: transcript.segments.map(({ index, text }) => ({ index, text })),
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || `Detection failed with status ${response.status}`);
+      }
+
+      const findings: Array<{ segmentIndex: number; text: string; category: RedactionCategory }> =
+        payload?.data?.findings ?? [];
+      const detected = findings.flatMap((finding) => {
+        const segment = segmentsByIndex.get(finding.segmentIndex);
+        return segment ? findTextSpans([segment], finding.text, finding.category, "llm") : [];
+      });
+      addSpans(detected, "The AI pass");
+    } catch (error) {
+      notifications.show({
+        title: "AI Detection Failed",
+        message: error instanceof Error ? error.message : "Failed to detect personal details",
+        color: "red",
+      });
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handleAddManual = () => {
+    const detected = findTextSpans(transcript.segments, manualText, manualCategory, "manual");
+    if (detected.length === 0) {
+      notifications.show({
+        title: "Not Found",
+        message: `"${manualText.trim()}" does not appear in the transcript.`,
+        color: "yellow",
+      });
+      return;
+    }
+    setSpans(mergeRedactionSpans(spans, detected));
+    setManualText("");
+  };
+
+  const setStatus = (id: string, status: RedactionStatus) => {
+    setSpans((current) =>
+      current.map((span) =>
+        span.id === id
+          ? reviewRedactionSpan(span, span.status === status ? "pending" : status, reviewer)
+          : span,
+      ),
+    );
+  };
+
+  const approveAllPending = () => {
+    setSpans((current) =>
+      current.map((span) =>
+        span.status === "pending" ? reviewRedactionSpan(span, "approved", reviewer) : span,
+      ),
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateTranscriptRedactions(transcript.id, spans);
+      notifications.show({
+        title: "Redactions Saved",
+        message: "Marked details are left out of exports and shared packages.",
+        color: "green",
+      });
+      onClose();
+    } catch (error) {
+      notifications.show({
+        title: "Save Failed",
+        message: error instanceof Error ? error.message : "Failed to save redactions",
+        color: "red",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Stack gap="md">
+      <Text size="sm" c="dimmed">
+        Marked text is replaced with a placeholder such as [NAME] in exports and shared
+        packages, and in AI requests when that is turned on in Settings. Pending spans are
+        redacted until rejected. The stored transcript is not changed.
+      </Text>
+
+      <Group gap="sm">
+        <Button variant="light" leftSection={<ScanSearch size={16} />} onClick={handleDetectPatterns}>
+          Detect with patterns
+        </Button>
+        <Button
+          variant="light"
+          leftSection={<Sparkles size={16} />}
+          loading={isDetecting}
+          onClick={handleDetectWithAi}
+        >
+          Detect with AI
+        </Button>
+        <Button
+          variant="subtle"
+          leftSection={<CheckCheck size={16} />}
+          disabled={pendingCount === 0}
+          onClick={approveAllPending}
+        >
+          Approve {pendingCount || ""} pending
+        </Button>
+      </Group>
+
+      <Group gap="sm" align="flex-end">
+        <TextInput
+          label="Mark text"
+          placeholder="e.g. a name the detectors missed"
+          value={manualText}
+          onChange={(e) => setManualText(e.currentTarget.value)}
+          style={{ flex: 1 }}
+        />
+        <Select
+          label="Category"
+          data={CATEGORY_OPTIONS}
+          value={manualCategory}
+          onChange={(value) => value && setManualCategory(value as RedactionCategory)}
+          allowDeselect={false}
+          w={160}
+        />
+        <Button
+          variant="default"
+          leftSection={<Plus size={16} />}
+          disabled={manualText.trim().length < 2}
+          onClick={handleAddManual}
+        >
+          Add
+        </Button>
+      </Group>
+
+      {spans.length === 0 ? (
+        <Text size="sm" c="dimmed" ta="center" py="md">
+          Nothing is marked for redaction yet.
+        </Text>
+      ) : (
+        <ScrollArea.Autosize mah={420} type="auto">
+          <Table withTableBorder>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Time</Table.Th>
+                <Table.Th>Category</Table.Th>
+                <Table.Th>Segment</Table.Th>
+                <Table.Th>Source</Table.Th>
+                <Table.Th>Decision</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {spans.map((span) => {
+                const segment = segmentsByIndex.get(span.segmentIndex);
+                return (
+                  <Table.Tr key={span.id} opacity={span.status === "rejected" ? 0.6 : 1}>
+                    <Table.Td>
+                      <Text size="xs" ff="monospace">
+                        {segment ? formatTimestamp(segment.start) : "—"}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Badge variant="light" tt="none">
+                        {REDACTION_CATEGORY_LABELS[span.category]}
+                      </Badge>
+                    </Table.Td>
+                    <Table.Td>
+                      <SpanContext segment={segment} span={span} />
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="xs" c="dimmed">
+                        {SOURCE_LABELS[span.source]}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Group gap={4} wrap="nowrap">
+                        <Badge size="sm" variant="dot" color={STATUS_COLORS[span.status]} tt="none">
+                          {span.status}
+                        </Badge>
+                        <Tooltip label="Redact" withArrow>
+                          <ActionIcon
+                            variant={span.status === "approved" ? "filled" : "subtle"}
+                            color="green"
+                            aria-label="Approve redaction"
+                            onClick={() => setStatus(span.id, "approved")}
+                          >
+                            <Check size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                        <Tooltip label="Keep text" withArrow>
+                          <ActionIcon
+                            variant={span.status === "rejected" ? "filled" : "subtle"}
+                            color="gray"
+                            aria-label="Reject redaction"
+                            onClick={() => setStatus(span.id, "rejected")}
+                          >
+                            <X size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                      </Group>
+                    </Table.Td>
+                  </Table.Tr>
+                );
+              })}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea.Autosize>
+      )}
+
+      <Group justify="flex-end" gap="sm">
+        {onRedactedAudio && (
+          <Tooltip
+            label="Save redactions first"
+            disabled={spans === savedSpans}
+            withArrow
+          >
+            <Button
+              variant="subtle"
+              leftSection={<AudioLines size={16} />}
+              disabled={spans !== savedSpans}
+              onClick={onRedactedAudio}
+              mr="auto"
+            >
+              Redacted audio
+            </Button>
+          </Tooltip>
+        )}
+        <Button variant="default" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button leftSection={<Save size={16} />} loading={isSaving} onClick={handleSave}>
+          Save redactions
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
+
+/**
+ * Modal for reviewing a transcript's redactions.
+ */
+export function RedactionReviewModal({
+  opened,
+  onClose,
+  transcript,
+  onRedactedAudio,
+}: RedactionReviewModalProps) {
+  return (
+    <Modal opened={opened} onClose={onClose} title="Redact Personal Details" size="xl">
+      {opened && (
+        <RedactionReviewForm
+          key={transcript.id}
+          transcript={transcript}
+          onClose={onClose}
+          onRedactedAudio={onRedactedAudio}
+        />
+      )}
+    </Modal>
+  );
+}
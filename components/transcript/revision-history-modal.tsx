@@ -0,0 +1,162 @@
+/**
+ * Revision History Modal
+ *
+ * Lists the machine transcript and every reviewer correction, and restores
+ * an earlier version as a new revision.
+ */
+
+"use client";
+
+import { useState } from "react";
+import {
+  Badge,
+  Button,
+  Modal,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import { History } from "lucide-react";
+import { getReviewerNamePreference } from "@/lib/storage";
+import { formatDateTime } from "@/lib/transcript-utils";
+import type { TranscriptRevisionSubmission } from "./transcript-editor";
+import type { Transcript } from "@/types/transcript";
+
+export interface RevisionHistoryModalProps {
+  /** Whether the modal is open */
+  opened: boolean;
+  /** Callback when modal is closed */
+  onClose: () => void;
+  /** The stored transcript */
+  transcript: Transcript;
+  /** Save a restored version as a new revision */
+  onRestore: (submission: TranscriptRevisionSubmission) => Promise<void>;
+}
+
+function RevisionHistory({
+  transcript,
+  onRestore,
+}: Pick<RevisionHistoryModalProps, "transcript" | "onRestore">) {
+  const [editedBy, setEditedBy] = useState(getReviewerNamePreference);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const current = transcript.revision ?? 0;
+
+  const versions = [
+    {
+      revision: 0,
+      editedAt: transcript.createdAt,
+      editedBy: transcript.metadata.model,
+      note: "Machine transcript",
+      segments: transcript.original?.segments ?? transcript.segments,
+    },
+    ...(transcript.revisions ?? []),
+  ].reverse();
+
+  const handleRestore = async (revision: number) => {
+    const version = versions.find((v) => v.revision === revision);
+    if (!version) return;
+    setRestoring(revision);
+    try {
+      await onRestore({
+        draft: version.segments,
+        editedBy: editedBy.trim(),
+        note:
+          revision === 0
+            ? "Restored the machine transcript"
+            : `Restored revision ${revision}`,
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <Stack gap="md">
+      <TextInput
+        label="Your name"
+        description="Recorded on the revision created when you restore a version"
+        value={editedBy}
+        onChange={(e) => setEditedBy(e.currentTarget.value)}
+      />
+
+      <Table.ScrollContainer minWidth={560}>
+        <Table withTableBorder>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Revision</Table.Th>
+              <Table.Th>Saved</Table.Th>
+              <Table.Th>By</Table.Th>
+              <Table.Th>Note</Table.Th>
+              <Table.Th />
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {versions.map((version) => (
+              <Table.Tr key={version.revision}>
+                <Table.Td>
+                  <Badge
+                    variant={version.revision === current ? "filled" : "light"}
+                    color={version.revision === 0 ? "gray" : "blue"}
+                  >
+                    {version.revision === 0 ? "Original" : `Rev ${version.revision}`}
+                  </Badge>
+                </Table.Td>
+                <Table.Td>
+                  <Text size="xs">{formatDateTime(new Date(version.editedAt))}</Text>
+                </Table.Td>
+                <Table.Td>
+                  <Text size="sm">{version.editedBy}</Text>
+                </Table.Td>
+                <Table.Td>
+                  <Text size="sm" c={version.note ? undefined : "dimmed"}>
+                    {version.note ?? "—"}
+                  </Text>
+                </Table.Td>
+                <Table.Td>
+                  {version.revision !== current && (
+                    <Button
+                      size="compact-sm"
+                      variant="light"
+                      disabled={!editedBy.trim() || restoring !== null}
+                      loading={restoring === version.revision}
+                      onClick={() => handleRestore(version.revision)}
+                    >
+                      Restore
+                    </Button>
+                  )}
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </Table.ScrollContainer>
+    </Stack>
+  );
+}
+
+/**
+ * Modal showing a transcript's revision history.
+ */
+export function RevisionHistoryModal({
+  opened,
+  onClose,
+  transcript,
+  onRestore,
+}: RevisionHistoryModalProps) {
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={
+        <Text fw={600} component="span">
+          <History size={16} style={{ verticalAlign: "middle", marginRight: 8 }} />
+          Revision history
+        </Text>
+      }
+      size="lg"
+    >
+      {opened && <RevisionHistory transcript={transcript} onRestore={onRestore} />}
+    </Modal>
+  );
+}
@@ -3,13 +3,16 @@
  *
  * Displays transcript segments with timestamps in a virtualized,
  * scrollable list with search highlighting and navigation support.
- * Supports annotation badges and "Add Note" functionality.
+ * Supports annotation badges and "Add Note" functionality, and channel
+ * badges for merged multi-channel (incident) segment lists. Segments with
+ * word timestamps are rendered word by word: the word being played is
+ * highlighted and clicking a word seeks to it.
  */
 
 "use no memo";
 "use client";
 
-import React, { useRef, useEffect, useState, useCallback, memo } from "react";
+import React, { useRef, useEffect, useState, useCallback, useMemo, memo } from "react";
 import {
   Box,
   Text,
@@ -25,8 +28,10 @@ import { notifications } from "@mantine/notifications";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { Plus, StickyNote } from "lucide-react";
 import { formatTimestamp, highlightText } from "@/lib/transcript-utils";
+import { alignWordsToText } from "@/lib/word-timing";
 import type { TranscriptSegment } from "@/types/transcript";
 import type { TranscriptAnnotation } from "@/types/annotation";
+import type { SegmentChannelBadge } from "@/types/incident";
 
 // Fixed notification ID to prevent stacking when rapidly clicking segments
 const SEEK_NOTIFICATION_ID = "segment-seek";
@@ -52,6 +57,66 @@ export interface SegmentListProps {
   onAnnotationClick?: (segmentIndex: number) => void;
   /** Whether to show annotation UI (add button, indicators) */
   showAnnotations?: boolean;
+  /** Map of segment index to its channel (merged incident timelines) */
+  channelBadges?: Map<number, SegmentChannelBadge>;
+  /** Index of the word being played in the active segment's `words` */
+  activeWordIndex?: number;
+  /** Callback when a timed word is clicked, with its start in seconds */
+  onWordClick?: (seconds: number) => void;
+}
+
+/**
+ * Segment text split into its timed words. The word being played is
+ * highlighted; timed words seek to their start when clicked.
+ */
+function SegmentWords({
+  segment,
+  activeWordIndex = -1,
+  onWordClick,
+}: {
+  segment: TranscriptSegment;
+  activeWordIndex?: number;
+  onWordClick?: (seconds: number) => void;
+}) {
+  const tokens = useMemo(
+    () => alignWordsToText(segment.text, segment.words ?? []),
+    [segment.text, segment.words],
+  );
+
+  return (
+    <>
+      {tokens.map((token, i) => {
+        if (token.start === undefined) return token.text;
+        const seconds = token.start;
+        const isCurrent =
+          activeWordIndex >= (token.firstWord ?? 0) &&
+          activeWordIndex <= (token.lastWord ?? -1);
+        return (
+          <span
+            key={i}
+            onClick={
+              onWordClick
+                ? (e) => {
+                    e.stopPropagation();
+                    onWordClick(seconds);
+                  }
+                : undefined
+            }
+            style={{
+              cursor: onWordClick ? "pointer" : undefined,
+              borderRadius: 2,
+              backgroundColor: isCurrent
+                ? "var(--mantine-color-yellow-light)"
+                : undefined,
+              transition: "background-color 100ms ease",
+            }}
+          >
+            {token.text}
+          </span>
+        );
+      })}
+    </>
+  );
 }
 
 /**
@@ -71,6 +136,12 @@ interface SegmentItemProps {
   onAddAnnotation?: () => void;
   /** Callback when annotation indicator is clicked */
   onAnnotationClick?: () => void;
+  /** Channel the segment came from (merged incident timelines) */
+  channel?: SegmentChannelBadge;
+  /** Index of the word being played, when this is the active segment */
+  activeWordIndex?: number;
+  /** Callback when a timed word is clicked, with its start in seconds */
+  onWordClick?: (seconds: number) => void;
 }
 
 const SegmentItem = memo(
@@ -84,6 +155,9 @@ const SegmentItem = memo(
     showAnnotations = false,
     onAddAnnotation,
     onAnnotationClick,
+    channel,
+    activeWordIndex,
+    onWordClick,
   }: SegmentItemProps) {
     const itemRef = useRef<HTMLDivElement>(null);
     const [isClicked, setIsClicked] = useState(false);
@@ -140,7 +214,7 @@ const SegmentItem = memo(
         onMouseLeave={() => setIsHovered(false)}
         role="listitem"
         tabIndex={0}
-        aria-label={`${segment.speaker ? `${segment.speaker}, ` : ""}Jump to ${timestamp}${isActive ? ", currently playing" : ""}${hasAnnotations ? ", has notes" : ""}`}
+        aria-label={`${channel ? `${channel.label}, ` : ""}${segment.speaker ? `${segment.speaker}, ` : ""}Jump to ${timestamp}${isActive ? ", currently playing" : ""}${hasAnnotations ? ", has notes" : ""}`}
         aria-current={isActive ? "true" : undefined}
         p="md"
         className="segment-item"
@@ -204,6 +278,18 @@ const SegmentItem = memo(
           >
             {timestamp}
           </Text>
+          {channel && (
+            <Badge
+              variant="light"
+              color={channel.color}
+              size="xs"
+              mt={4}
+              display="block"
+              aria-label={`Channel: ${channel.label}`}
+            >
+              {channel.label}
+            </Badge>
+          )}
         </Box>
 
         {/* Text Content */}
@@ -216,9 +302,17 @@ const SegmentItem = memo(
               fontWeight: isActive ? 500 : 400,
             }}
           >
-            {hasSearchQuery
-              ? highlightText(segment.text, searchQuery, currentMatchIndex)
-              : segment.text}
+            {hasSearchQuery ? (
+              highlightText(segment.text, searchQuery, currentMatchIndex)
+            ) : segment.words && segment.words.length > 0 ? (
+              <SegmentWords
+                segment={segment}
+                activeWordIndex={activeWordIndex}
+                onWordClick={onWordClick}
+              />
+            ) : (
+              segment.text
+            )}
           </Text>
 
           {/* Speaker Info (if available) */}
@@ -305,14 +399,18 @@ const SegmentItem = memo(
       prevProps.segment.index === nextProps.segment.index &&
       prevProps.segment.text === nextProps.segment.text &&
       prevProps.segment.start === nextProps.segment.start &&
+      prevProps.segment.words === nextProps.segment.words &&
       prevProps.isActive === nextProps.isActive &&
+      prevProps.activeWordIndex === nextProps.activeWordIndex &&
+      prevProps.onWordClick === nextProps.onWordClick &&
       prevProps.searchQuery === nextProps.searchQuery &&
       prevProps.currentMatchIndex === nextProps.currentMatchIndex &&
       prevProps.onClick === nextProps.onClick &&
       prevProps.annotations === nextProps.annotations &&
       prevProps.showAnnotations === nextProps.showAnnotations &&
       prevProps.onAddAnnotation === nextProps.onAddAnnotation &&
-      prevProps.onAnnotationClick === nextProps.onAnnotationClick
+      prevProps.onAnnotationClick === nextProps.onAnnotationClick &&
+      prevProps.channel === nextProps.channel
     );
   },
 );
@@ -333,6 +431,9 @@ const VirtualizedSegmentList = memo(
     onAddAnnotation,
     onAnnotationClick,
     showAnnotations = false,
+    channelBadges,
+    activeWordIndex,
+    onWordClick,
   }: SegmentListProps) {
     const parentRef = useRef<HTMLDivElement>(null);
 
@@ -482,6 +583,13 @@ const VirtualizedSegmentList = memo(
                       ? () => onAnnotationClick(segment.index)
                       : undefined
                   }
+                  channel={channelBadges?.get(segment.index)}
+                  activeWordIndex={
+                    activeSegmentIndex === segment.index
+                      ? activeWordIndex
+                      : undefined
+                  }
+                  onWordClick={onWordClick}
                 />
               </div>
             );
@@ -500,7 +608,10 @@ const VirtualizedSegmentList = memo(
       prevProps.annotationsBySegment === nextProps.annotationsBySegment &&
       prevProps.showAnnotations === nextProps.showAnnotations &&
       prevProps.onAddAnnotation === nextProps.onAddAnnotation &&
-      prevProps.onAnnotationClick === nextProps.onAnnotationClick
+      prevProps.onAnnotationClick === nextProps.onAnnotationClick &&
+      prevProps.channelBadges === nextProps.channelBadges &&
+      prevProps.activeWordIndex === nextProps.activeWordIndex &&
+      prevProps.onWordClick === nextProps.onWordClick
     );
   },
 );
@@ -538,6 +649,9 @@ export const SegmentList = memo(
     onAddAnnotation,
     onAnnotationClick,
     showAnnotations = false,
+    channelBadges,
+    activeWordIndex,
+    onWordClick,
   }: SegmentListProps) {
     const handleSegmentClick = useCallback(
       (index: number) => {
@@ -621,6 +735,9 @@ export const SegmentList = memo(
           onAddAnnotation={onAddAnnotation}
           onAnnotationClick={onAnnotationClick}
           showAnnotations={showAnnotations}
+          channelBadges={channelBadges}
+          activeWordIndex={activeWordIndex}
+          onWordClick={onWordClick}
         />
       );
     }
@@ -659,6 +776,13 @@ export const SegmentList = memo(
                   ? () => onAnnotationClick(segment.index)
                   : undefined
               }
+              channel={channelBadges?.get(segment.index)}
+              activeWordIndex={
+                activeSegmentIndex === segment.index
+                  ? activeWordIndex
+                  : undefined
+              }
+              onWordClick={onWordClick}
             />
           ))}
         </Stack>
@@ -676,7 +800,10 @@ export const SegmentList = memo(
       prevProps.annotationsBySegment === nextProps.annotationsBySegment &&
       prevProps.showAnnotations === nextProps.showAnnotations &&
       prevProps.onAddAnnotation === nextProps.onAddAnnotation &&
-      prevProps.onAnnotationClick === nextProps.onAnnotationClick
+      prevProps.onAnnotationClick === nextProps.onAnnotationClick &&
+      prevProps.channelBadges === nextProps.channelBadges &&
+      prevProps.activeWordIndex === nextProps.activeWordIndex &&
+      prevProps.onWordClick === nextProps.onWordClick
     );
   },
 );
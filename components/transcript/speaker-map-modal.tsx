@@ -0,0 +1,333 @@
+/**
+ * Speaker Map Modal
+ *
+ * Lets a reviewer rename diarized speakers ("A", "speaker_0") to units and
+ * roles, merge speakers that are really the same radio, and split segments
+ * off into a new speaker. Names can be picked from the units and crew in the
+ * Visinet CAD report, or from call signs heard in the transcript.
+ */
+
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  ActionIcon,
+  Autocomplete,
+  Badge,
+  Button,
+  Checkbox,
+  Divider,
+  Group,
+  Modal,
+  ScrollArea,
+  Select,
+  Stack,
+  Table,
+  Text,
+  Tooltip,
+} from "@mantine/core";
+import { notifications } from "@mantine/notifications";
+import { Save, Scissors, Sparkles, Undo2 } from "lucide-react";
+import { updateTranscriptSpeakerMap } from "@/lib/db";
+import {
+  createSpeakerMap,
+  listSpeakers,
+  mergeSpeakers,
+  nextSpeakerLabel,
+  renameSpeaker,
+  resolveSegmentLabel,
+  speakerNameOptions,
+  splitSpeaker,
+  suggestSpeakerNames,
+  trimSpeakerNames,
+  unmergeSpeaker,
+} from "@/lib/speaker-map";
+import { formatTimestamp } from "@/lib/transcript-utils";
+import type { VisinetReport } from "@/lib/visinet-parser";
+import type { Transcript, TranscriptSpeakerMap } from "@/types/transcript";
+
+export interface SpeakerMapModalProps {
+  /** Whether the modal is open */
+  opened: boolean;
+  /** Callback when modal is closed */
+  onClose: () => void;
+  /** The stored transcript (with diarized labels, not mapped names) */
+  transcript: Transcript;
+  /** Visinet CAD report attached to the transcript, for name suggestions */
+  visinetReport?: VisinetReport;
+}
+
+interface SpeakerMapFormProps {
+  transcript: Transcript;
+  visinetReport?: VisinetReport;
+  onClose: () => void;
+}
+
+function SpeakerMapForm({ transcript, visinetReport, onClose }: SpeakerMapFormProps) {
+  const [map, setMap] = useState<TranscriptSpeakerMap>(
+    () => transcript.speakerMap ?? createSpeakerMap(),
+  );
+  const [splitFrom, setSplitFrom] = useState<string | null>(null);
+  const [selectedSegments, setSelectedSegments] = useState<number[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const preview = useMemo(() => ({ ...transcript, speakerMap: map }), [transcript, map]);
+  const speakers = useMemo(() => listSpeakers(preview), [preview]);
+  const suggestions = useMemo(
+    () => new Map(suggestSpeakerNames(preview, visinetReport).map((s) => [s.label, s])),
+    [preview, visinetReport],
+  );
+  const nameOptions = useMemo(() => speakerNameOptions(visinetReport), [visinetReport]);
+
+  const splitSegments = useMemo(() => {
+    if (!splitFrom) return [];
+    return transcript.segments.filter((s) => resolveSegmentLabel(s, map) === splitFrom);
+  }, [transcript.segments, map, splitFrom]);
+
+  const handleSplit = () => {
+    if (selectedSegments.length === 0) return;
+    setMap(splitSpeaker(map, selectedSegments, nextSpeakerLabel(preview)));
+    setSelectedSegments([]);
+  };
+
+  const toggleSegment = (index: number, checked: boolean) => {
+    setSelectedSegments((current) =>
+      checked ? [...current, index] : current.filter((i) => i !== index),
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateTranscriptSpeakerMap(transcript.id, trimSpeakerNames(map));
+      notifications.show({
+        title: "Speakers Updated",
+        message: "Speaker names now apply to the transcript, exports, chat and scoring.",
+        color: "green",
+      });
+      onClose();
+    } catch (error) {
+      notifications.show({
+        title: "Save Failed",
+        message: error instanceof Error ? error.message : "Failed to save speaker names",
+        color: "red",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (speakers.length === 0) {
+    return (
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          This transcript has no speaker labels. Speakers are only available
+          when the transcription used diarization.
+        </Text>
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>
+            Close
+          </Button>
+        </Group>
+      </Stack>
+    );
+  }
+
+  return (
+    <Stack gap="md">
+      <Table.ScrollContainer minWidth={640}>
+        <Table withTableBorder verticalSpacing="sm">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Speaker</Table.Th>
+              <Table.Th>Segments</Table.Th>
+              <Table.Th>Name</Table.Th>
+              <Table.Th>Merge into</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {speakers.map((speaker) => {
+              const suggestion = suggestions.get(speaker.label);
+              return (
+                <Table.Tr key={speaker.label}>
+                  <Table.Td>
+                    <Stack gap={4}>
+                      <Badge variant="light" color="gray">
+                        {speaker.label}
+                      </Badge>
+                      {speaker.mergedLabels.map((merged) => (
+                        <Group key={merged} gap={4} wrap="nowrap">
+                          <Text size="xs" c="dimmed">
+                            + {merged}
+                          </Text>
+                          <Tooltip label={`Separate ${merged} again`}>
+                            <ActionIcon
+                              size="xs"
+                              variant="subtle"
+                              aria-label={`Separate ${merged}`}
+                              onClick={() => setMap(unmergeSpeaker(map, merged))}
+                            >
+                              <Undo2 size={12} />
+                            </ActionIcon>
+                          </Tooltip>
+                        </Group>
+                      ))}
+                    </Stack>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="sm">{speaker.segmentCount}</Text>
+                    <Text size="xs" c="dimmed">
+                      from {formatTimestamp(speaker.firstStart)}
+                    </Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Stack gap={4}>
+                      <Autocomplete
+                        size="sm"
+                        placeholder={speaker.label}
+                        data={nameOptions}
+                        value={map.names[speaker.label] ?? ""}
+                        onChange={(value) => setMap(renameSpeaker(map, speaker.label, value))}
+                        aria-label={`Name for ${speaker.label}`}
+                      />
+                      {suggestion && (
+                        <Group gap={6}>
+                          <Button
+                            size="compact-xs"
+                            variant="light"
+                            leftSection={<Sparkles size={12} />}
+                            onClick={() =>
+                              setMap(renameSpeaker(map, speaker.label, suggestion.name))
+                            }
+                          >
+                            {suggestion.name}
+                          </Button>
+                          <Text size="xs" c="dimmed">
+                            heard {suggestion.count}×
+                          </Text>
+                          {suggestion.onCad && (
+                            <Tooltip
+                              label={
+                                suggestion.crew.length > 0
+                                  ? `Crew: ${suggestion.crew.join(", ")}`
+                                  : "Assigned in CAD"
+                              }
+                            >
+                              <Badge size="xs" variant="light" color="teal">
+                                On CAD
+                              </Badge>
+                            </Tooltip>
+                          )}
+                        </Group>
+                      )}
+                    </Stack>
+                  </Table.Td>
+                  <Table.Td>
+                    <Select
+                      size="sm"
+                      placeholder="Keep separate"
+                      data={speakers
+                        .filter((s) => s.label !== speaker.label)
+                        .map((s) => ({ value: s.label, label: s.name }))}
+                      value={null}
+                      onChange={(into) => into && setMap(mergeSpeakers(map, speaker.label, into))}
+                      aria-label={`Merge ${speaker.label} into another speaker`}
+                    />
+                  </Table.Td>
+                </Table.Tr>
+              );
+            })}
+          </Table.Tbody>
+        </Table>
+      </Table.ScrollContainer>
+
+      <Divider label="Split a speaker" labelPosition="left" />
+
+      <Group align="flex-end" gap="sm">
+        <Select
+          label="Segments from"
+          placeholder="Choose a speaker"
+          data={speakers.map((s) => ({ value: s.label, label: s.name }))}
+          value={splitFrom}
+          onChange={(value) => {
+            setSplitFrom(value);
+            setSelectedSegments([]);
+          }}
+          style={{ flex: 1 }}
+        />
+        <Button
+          variant="light"
+          leftSection={<Scissors size={16} />}
+          disabled={selectedSegments.length === 0}
+          onClick={handleSplit}
+        >
+          Move {selectedSegments.length || ""} to new speaker
+        </Button>
+      </Group>
+
+      {splitFrom && (
+        <ScrollArea.Autosize mah={220} type="auto">
+          <Stack gap={6}>
+            {splitSegments.map((segment) => (
+              <Checkbox
+                key={segment.index}
+                checked={selectedSegments.includes(segment.index)}
+                onChange={(e) => toggleSegment(segment.index, e.currentTarget.checked)}
+                label={
+                  <Text size="sm" lineClamp={2}>
+                    <Text span size="xs" c="dimmed" ff="monospace">
+                      [{formatTimestamp(segment.start)}]
+                    </Text>{" "}
+                    {segment.text}
+                  </Text>
+                }
+              />
+            ))}
+          </Stack>
+        </ScrollArea.Autosize>
+      )}
+
+      <Group justify="space-between">
+        <Button
+          variant="subtle"
+          color="gray"
+          leftSection={<Undo2 size={16} />}
+          onClick={() => setMap(createSpeakerMap())}
+        >
+          Reset to diarized labels
+        </Button>
+        <Group gap="sm">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button leftSection={<Save size={16} />} loading={isSaving} onClick={handleSave}>
+            Save speakers
+          </Button>
+        </Group>
+      </Group>
+    </Stack>
+  );
+}
+
+/**
+ * Modal for managing a transcript's speaker names.
+ */
+export function SpeakerMapModal({
+  opened,
+  onClose,
+  transcript,
+  visinetReport,
+}: SpeakerMapModalProps) {
+  return (
+    <Modal opened={opened} onClose={onClose} title="Speakers" size="xl">
+      {opened && (
+        <SpeakerMapForm
+          key={transcript.id}
+          transcript={transcript}
+          visinetReport={visinetReport}
+          onClose={onClose}
+        />
+      )}
+    </Modal>
+  );
+}
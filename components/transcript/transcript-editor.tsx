@@ -0,0 +1,330 @@
+/**
+ * Transcript Editor Component
+ *
+ * Inline correction of a transcript's segments: text, start/end times and
+ * speaker, plus splitting a segment at the cursor and merging it with the
+ * next one. Saving creates a new revision; the machine transcript is kept.
+ */
+
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import {
+  ActionIcon,
+  Alert,
+  Badge,
+  Button,
+  Group,
+  List,
+  NumberInput,
+  Pagination,
+  Paper,
+  Stack,
+  Text,
+  TextInput,
+  Textarea,
+  Tooltip,
+} from "@mantine/core";
+import { AlertCircle, Combine, Save, Scissors } from "lucide-react";
+import {
+  getReviewerNamePreference,
+  setReviewerNamePreference,
+} from "@/lib/storage";
+import { resolveSegmentSpeaker } from "@/lib/speaker-map";
+import {
+  hasSegmentChanges,
+  mergeWithNext,
+  splitSegment,
+  updateSegment,
+  validateSegments,
+  type SegmentPatch,
+} from "@/lib/transcript-editing";
+import type { Transcript, TranscriptSegment } from "@/types/transcript";
+
+const PAGE_SIZE = 25;
+
+export interface TranscriptRevisionSubmission {
+  /** Corrected segments (see finalizeRevision) */
+  draft: TranscriptSegment[];
+  editedBy: string;
+  note?: string;
+}
+
+export interface TranscriptEditorProps {
+  /** The stored transcript (with diarized labels, not mapped names) */
+  transcript: Transcript;
+  /** Save the draft as a new revision */
+  onSave: (submission: TranscriptRevisionSubmission) => Promise<void>;
+  /** Leave edit mode without saving */
+  onCancel: () => void;
+  /** Page to open on, e.g. the page of the active segment */
+  initialPage?: number;
+}
+
+interface SegmentRowProps {
+  segment: TranscriptSegment;
+  position: number;
+  isLast: boolean;
+  isChanged: boolean;
+  mappedSpeaker?: string;
+  onChange: (position: number, patch: SegmentPatch) => void;
+  onSplit: (position: number) => void;
+  onMerge: (position: number) => void;
+  onCursor: (position: number, offset: number) => void;
+}
+
+function SegmentRow({
+  segment,
+  position,
+  isLast,
+  isChanged,
+  mappedSpeaker,
+  onChange,
+  onSplit,
+  onMerge,
+  onCursor,
+}: SegmentRowProps) {
+  return (
+    <Paper
+      p="sm"
+      radius="sm"
+      withBorder
+      style={
+        isChanged
+          ? { borderColor: "var(--mantine-color-yellow-5)" }
+          : undefined
+      }
+    >
+      <Group align="flex-start" gap="sm" wrap="nowrap">
+        <Stack gap={6} w={140} style={{ flexShrink: 0 }}>
+          <NumberInput
+            size="xs"
+            label="Start (s)"
+            min={0}
+            step={0.1}
+            decimalScale={2}
+            value={segment.start}
+            onChange={(value) => onChange(position, { start: Number(value) || 0 })}
+          />
+          <NumberInput
+            size="xs"
+            label="End (s)"
+            min={0}
+            step={0.1}
+            decimalScale={2}
+            value={segment.end}
+            onChange={(value) => onChange(position, { end: Number(value) || 0 })}
+          />
+          <TextInput
+            size="xs"
+            label="Speaker"
+            value={segment.speaker ?? ""}
+            description={
+              mappedSpeaker && mappedSpeaker !== segment.speaker
+                ? `Shown as ${mappedSpeaker}`
+                : undefined
+            }
+            onChange={(e) => onChange(position, { speaker: e.currentTarget.value })}
+          />
+        </Stack>
+
+        <Textarea
+          style={{ flex: 1 }}
+          label={`Segment ${position + 1}`}
+          autosize
+          minRows={3}
+          value={segment.text}
+          onChange={(e) => onChange(position, { text: e.currentTarget.value })}
+          onSelect={(e) => onCursor(position, e.currentTarget.selectionStart)}
+        />
+
+        <Stack gap={6} pt={24}>
+          <Tooltip label="Split at cursor">
+            <ActionIcon
+              variant="light"
+              aria-label={`Split segment ${position + 1} at cursor`}
+              onClick={() => onSplit(position)}
+            >
+              <Scissors size={16} />
+            </ActionIcon>
+          </Tooltip>
+          <Tooltip label="Merge with next segment">
+            <ActionIcon
+              variant="light"
+              aria-label={`Merge segment ${position + 1} with the next one`}
+              disabled={isLast}
+              onClick={() => onMerge(position)}
+            >
+              <Combine size={16} />
+            </ActionIcon>
+          </Tooltip>
+        </Stack>
+      </Group>
+    </Paper>
+  );
+}
+
+/**
+ * Transcript editor
+ *
+ * Edits a draft copy of the segments; nothing is stored until the reviewer
+ * saves a revision with their name and an optional note.
+ */
+export function TranscriptEditor({
+  transcript,
+  onSave,
+  onCancel,
+  initialPage = 1,
+}: TranscriptEditorProps) {
+  const [draft, setDraft] = useState<TranscriptSegment[]>(transcript.segments);
+  const [page, setPage] = useState(initialPage);
+  const [editedBy, setEditedBy] = useState(getReviewerNamePreference);
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const cursorRef = useRef<Map<number, number>>(new Map());
+
+  const storedByIndex = useMemo(
+    () => new Map(transcript.segments.map((s) => [s.index, s])),
+    [transcript.segments],
+  );
+  const problems = useMemo(() => validateSegments(draft), [draft]);
+  const isChanged = useMemo(
+    () => hasSegmentChanges(draft, transcript.segments),
+    [draft, transcript.segments],
+  );
+
+  const totalPages = Math.max(1, Math.ceil(draft.length / PAGE_SIZE));
+  const currentPage = Math.min(page, totalPages);
+  const pageStart = (currentPage - 1) * PAGE_SIZE;
+  const pageSegments = draft.slice(pageStart, pageStart + PAGE_SIZE);
+
+  const handleChange = (position: number, patch: SegmentPatch) => {
+    setDraft((current) => updateSegment(current, position, patch));
+  };
+
+  const handleSplit = (position: number) => {
+    const offset = cursorRef.current.get(position);
+    if (offset === undefined) return;
+    cursorRef.current.clear();
+    setDraft((current) => splitSegment(current, position, offset));
+  };
+
+  const handleMerge = (position: number) => {
+    cursorRef.current.clear();
+    setDraft((current) => mergeWithNext(current, position));
+  };
+
+  const handleCursor = (position: number, offset: number) => {
+    cursorRef.current.set(position, offset);
+  };
+
+  const canSave = isChanged && problems.length === 0 && editedBy.trim().length > 0;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      setReviewerNamePreference(editedBy.trim());
+      await onSave({ draft, editedBy: editedBy.trim(), note: note.trim() || undefined });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Stack gap="md" p="md">
+      <Group justify="space-between">
+        <Group gap="xs">
+          <Text fw={600}>Editing transcript</Text>
+          <Badge variant="light" color="gray">
+            Revision {transcript.revision ?? 0}
+          </Badge>
+        </Group>
+        <Text size="sm" c="dimmed">
+          Place the cursor in a segment&apos;s text to split it there.
+        </Text>
+      </Group>
+
+      <Stack gap="sm">
+        {pageSegments.map((segment, i) => {
+          const position = pageStart + i;
+          const stored = storedByIndex.get(segment.index);
+          return (
+            <SegmentRow
+              key={`${segment.index}-${position}`}
+              segment={segment}
+              position={position}
+              isLast={position === draft.length - 1}
+              isChanged={
+                !stored ||
+                stored.text !== segment.text ||
+                stored.start !== segment.start ||
+                stored.end !== segment.end ||
+                stored.speaker !== segment.speaker
+              }
+              mappedSpeaker={resolveSegmentSpeaker(segment, transcript.speakerMap)}
+              onChange={handleChange}
+              onSplit={handleSplit}
+              onMerge={handleMerge}
+              onCursor={handleCursor}
+            />
+          );
+        })}
+      </Stack>
+
+      {totalPages > 1 && (
+        <Group justify="center">
+          <Pagination total={totalPages} value={currentPage} onChange={setPage} size="sm" />
+        </Group>
+      )}
+
+      {problems.length > 0 && (
+        <Alert
+          variant="light"
+          color="red"
+          title="Fix these before saving"
+          icon={<AlertCircle size={16} />}
+        >
+          <List size="sm">
+            {problems.slice(0, 5).map((problem) => (
+              <List.Item key={problem}>{problem}</List.Item>
+            ))}
+          </List>
+          {problems.length > 5 && (
+            <Text size="xs" c="dimmed" mt="xs">
+              and {problems.length - 5} more
+            </Text>
+          )}
+        </Alert>
+      )}
+
+      <Group align="flex-end" gap="sm">
+        <TextInput
+          label="Your name"
+          required
+          value={editedBy}
+          onChange={(e) => setEditedBy(e.currentTarget.value)}
+          w={200}
+        />
+        <TextInput
+          label="What was corrected"
+          placeholder="e.g. Fixed unit number and street name"
+          value={note}
+          onChange={(e) => setNote(e.currentTarget.value)}
+          style={{ flex: 1 }}
+        />
+        <Button variant="default" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          leftSection={<Save size={16} />}
+          disabled={!canSave}
+          loading={isSaving}
+          onClick={handleSave}
+        >
+          Save revision
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
@@ -18,6 +18,8 @@ import {
   FileType,
   Share2,
   File,
+  Users,
+  EyeOff,
 } from "lucide-react";
 import {
   Button,
@@ -39,20 +41,17 @@ import {
   formatDuration,
   calculateWordCount,
 } from "@/lib/transcript-utils";
-import {
-  exportAndDownloadTranscript,
-  exportMultipleAnalysesPackage,
-  downloadPackage,
-  generatePackageFilename,
-} from "@/lib/package/export";
+import { exportAndDownloadIncidentArchive } from "@/lib/package/export";
+import { getRedactExportsPreference } from "@/lib/storage";
+import { PassphraseModal } from "@/components/package/passphrase-modal";
 import type { Transcript } from "@/types/transcript";
-import type { Analysis } from "@/types/analysis";
+
+const SHARE_PASSPHRASE_DESCRIPTION =
+  "Packages include the audio and full transcript. Protect this one with a passphrase if it will be emailed or copied to shared drives.";
 
 export interface TranscriptHeaderProps {
   /** The transcript data */
   transcript: Transcript;
-  /** Analyses associated with this transcript (for package export) */
-  analyses?: Analysis[];
   /** Callback when export is requested */
   onExport?: (format: "txt" | "srt" | "vtt" | "json") => void;
   /** Callback when delete is confirmed */
@@ -63,6 +62,10 @@ export interface TranscriptHeaderProps {
   onDocuments?: () => void;
   /** Number of attached documents */
   documentCount?: number;
+  /** Callback when speakers button is clicked */
+  onSpeakers?: () => void;
+  /** Callback when redact button is clicked */
+  onRedactions?: () => void;
   /** Whether delete action is loading */
   isDeleting?: boolean;
   /** Whether there are existing analyses for this transcript */
@@ -83,17 +86,19 @@ export interface TranscriptHeaderProps {
 export const TranscriptHeader = memo(
   function TranscriptHeader({
     transcript,
-    analyses = [],
     onExport,
     onDelete,
     onAnalyze,
     onDocuments,
     documentCount = 0,
+    onSpeakers,
+    onRedactions,
     isDeleting = false,
     hasExistingAnalyses = false,
     className,
   }: TranscriptHeaderProps) {
     const [isExportingPackage, setIsExportingPackage] = useState(false);
+    const [isPassphraseOpen, setIsPassphraseOpen] = useState(false);
     const wordCount = calculateWordCount(transcript.text);
     const formattedDate = formatDateTime(transcript.createdAt);
     const duration = formatDuration(transcript.metadata.duration);
@@ -114,29 +119,19 @@ export const TranscriptHeader = memo(
       });
     };
 
-    const handleExportPackage = useCallback(async () => {
+    const handleExportPackage = useCallback(async (passphrase: string) => {
+      setIsPassphraseOpen(false);
       setIsExportingPackage(true);
       try {
-        // If there are analyses, export them with the transcript
-        if (analyses.length > 0) {
-          const pkg = await exportMultipleAnalysesPackage(transcript, analyses);
-          const filename = generatePackageFilename(transcript, "analysis");
-          downloadPackage(pkg, filename);
-          notifications.show({
-            title: "Package Created",
-            message: `Transcript and ${analyses.length} ${analyses.length === 1 ? "analysis" : "analyses"} exported as shareable package.`,
-            color: "green",
-          });
-        } else {
-          // No analyses, just export transcript
-          await exportAndDownloadTranscript(transcript);
-          notifications.show({
-            title: "Package Created",
-            message:
-              "Transcript exported as shareable package. Share this file with others to import.",
-            color: "green",
-          });
-        }
+        await exportAndDownloadIncidentArchive(transcript, passphrase || undefined, {
+          redact: getRedactExportsPreference(),
+        });
+        notifications.show({
+          title: "Package Created",
+          message:
+            "Transcript, audio, analyses, scorecards, annotations and documents exported as a shareable package. Share this file with others to import.",
+          color: "green",
+        });
       } catch (error) {
         notifications.show({
           title: "Export Failed",
@@ -147,7 +142,7 @@ export const TranscriptHeader = memo(
       } finally {
         setIsExportingPackage(false);
       }
-    }, [transcript, analyses]);
+    }, [transcript]);
 
     return (
       <Stack gap="xl" className={className}>
@@ -214,6 +209,30 @@ export const TranscriptHeader = memo(
               </Button>
             )}
 
+            {onSpeakers && (
+              <Button
+                onClick={onSpeakers}
+                variant="light"
+                leftSection={<Users size={18} />}
+                size="lg"
+                style={{ minHeight: 44 }}
+              >
+                Speakers
+              </Button>
+            )}
+
+            {onRedactions && (
+              <Button
+                onClick={onRedactions}
+                variant="light"
+                leftSection={<EyeOff size={18} />}
+                size="lg"
+                style={{ minHeight: 44 }}
+              >
+                Redact
+              </Button>
+            )}
+
             {onExport && (
               <Menu position="bottom-end" shadow="md" width={200}>
                 <Menu.Target>
@@ -255,7 +274,7 @@ export const TranscriptHeader = memo(
                   <Menu.Label>Share</Menu.Label>
                   <Menu.Item
                     leftSection={<Share2 size={14} />}
-                    onClick={handleExportPackage}
+                    onClick={() => setIsPassphraseOpen(true)}
                     disabled={isExportingPackage}
                   >
                     {isExportingPackage ? "Creating..." : "Share as Package"}
@@ -292,6 +311,18 @@ export const TranscriptHeader = memo(
             <Text size="sm">{wordCount.toLocaleString()} words</Text>
           </Group>
         </Group>
+        {isPassphraseOpen && (
+          <PassphraseModal
+            opened
+            onClose={() => setIsPassphraseOpen(false)}
+            onSubmit={handleExportPackage}
+            title="Share as Package"
+            description={SHARE_PASSPHRASE_DESCRIPTION}
+            mode="create"
+            optional
+            submitLabel="Create Package"
+          />
+        )}
       </Stack>
     );
   },
@@ -303,14 +334,16 @@ export const TranscriptHeader = memo(
       prevProps.transcript.text === nextProps.transcript.text &&
       prevProps.transcript.createdAt === nextProps.transcript.createdAt &&
       prevProps.transcript.metadata === nextProps.transcript.metadata &&
-      prevProps.analyses?.length === nextProps.analyses?.length &&
+      prevProps.transcript.segments === nextProps.transcript.segments &&
       prevProps.isDeleting === nextProps.isDeleting &&
       prevProps.hasExistingAnalyses === nextProps.hasExistingAnalyses &&
       prevProps.documentCount === nextProps.documentCount &&
       prevProps.onExport === nextProps.onExport &&
       prevProps.onDelete === nextProps.onDelete &&
       prevProps.onAnalyze === nextProps.onAnalyze &&
-      prevProps.onDocuments === nextProps.onDocuments
+      prevProps.onDocuments === nextProps.onDocuments &&
+      prevProps.onSpeakers === nextProps.onSpeakers &&
+      prevProps.onRedactions === nextProps.onRedactions
     );
   },
 );
@@ -321,7 +354,6 @@ export const TranscriptHeader = memo(
 export const CompactTranscriptHeader = memo(
   function CompactTranscriptHeader({
     transcript,
-    analyses = [],
     onExport,
     onDelete,
     onAnalyze,
@@ -329,6 +361,7 @@ export const CompactTranscriptHeader = memo(
     className,
   }: TranscriptHeaderProps) {
     const [isExportingPackage, setIsExportingPackage] = useState(false);
+    const [isPassphraseOpen, setIsPassphraseOpen] = useState(false);
     const wordCount = calculateWordCount(transcript.text);
     const duration = formatDuration(transcript.metadata.duration);
 
@@ -342,26 +375,19 @@ export const CompactTranscriptHeader = memo(
       });
     };
 
-    const handleExportPackage = useCallback(async () => {
+    const handleExportPackage = useCallback(async (passphrase: string) => {
+      setIsPassphraseOpen(false);
       setIsExportingPackage(true);
       try {
-        if (analyses.length > 0) {
-          const pkg = await exportMultipleAnalysesPackage(transcript, analyses);
-          const filename = generatePackageFilename(transcript, "analysis");
-          downloadPackage(pkg, filename);
-          notifications.show({
-            title: "Package Created",
-            message: `Transcript and ${analyses.length} ${analyses.length === 1 ? "analysis" : "analyses"} exported.`,
-            color: "green",
-          });
-        } else {
-          await exportAndDownloadTranscript(transcript);
-          notifications.show({
-            title: "Package Created",
-            message: "Transcript exported as shareable package.",
-            color: "green",
-          });
-        }
+        await exportAndDownloadIncidentArchive(transcript, passphrase || undefined, {
+          redact: getRedactExportsPreference(),
+        });
+        notifications.show({
+          title: "Package Created",
+          message:
+            "Transcript and attached records exported as shareable package.",
+          color: "green",
+        });
       } catch (error) {
         notifications.show({
           title: "Export Failed",
@@ -372,7 +398,7 @@ export const CompactTranscriptHeader = memo(
       } finally {
         setIsExportingPackage(false);
       }
-    }, [transcript, analyses]);
+    }, [transcript]);
 
     return (
       <Stack gap="sm" className={className}>
@@ -427,7 +453,7 @@ export const CompactTranscriptHeader = memo(
                   <Menu.Item onClick={() => onExport("vtt")}>VTT</Menu.Item>
                   <Menu.Divider />
                   <Menu.Item
-                    onClick={handleExportPackage}
+                    onClick={() => setIsPassphraseOpen(true)}
                     disabled={isExportingPackage}
                     leftSection={<Share2 size={14} />}
                   >
@@ -459,6 +485,18 @@ export const CompactTranscriptHeader = memo(
             {transcript.metadata.model}
           </Badge>
         </Group>
+        {isPassphraseOpen && (
+          <PassphraseModal
+            opened
+            onClose={() => setIsPassphraseOpen(false)}
+            onSubmit={handleExportPackage}
+            title="Share as Package"
+            description={SHARE_PASSPHRASE_DESCRIPTION}
+            mode="create"
+            optional
+            submitLabel="Create Package"
+          />
+        )}
       </Stack>
     );
   },
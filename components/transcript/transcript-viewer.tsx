@@ -8,8 +8,9 @@
 "use client";
 
 import React, { useState, useCallback, memo } from "react";
-import { Copy, Check, FileText, List } from "lucide-react";
+import { Copy, Check, FileText, List, Pencil, History } from "lucide-react";
 import {
+  Badge,
   Button,
   Tabs,
   Stack,
@@ -27,6 +28,11 @@ import {
 } from "@/lib/transcript-utils";
 import { SearchBar } from "./search-bar";
 import { SegmentList } from "./segment-list";
+import {
+  TranscriptEditor,
+  type TranscriptRevisionSubmission,
+} from "./transcript-editor";
+import { RevisionHistoryModal } from "./revision-history-modal";
 import type { Transcript } from "@/types/transcript";
 import type { TranscriptAnnotation } from "@/types/annotation";
 
@@ -39,14 +45,22 @@ export interface TranscriptViewerProps {
   className?: string;
   /** Active segment index from audio player */
   activeSegmentIndex?: number;
+  /** Index of the word being played in the active segment, from the audio player */
+  activeWordIndex?: number;
   /** Callback when user clicks on a segment timestamp */
   onSegmentClick?: (index: number) => void;
+  /** Callback when user clicks a timed word, with its start in seconds */
+  onWordClick?: (seconds: number) => void;
   /** Map of segment index to annotations at that segment */
   annotationsBySegment?: Map<number, TranscriptAnnotation[]>;
   /** Callback when user wants to add an annotation at a segment */
   onAddAnnotation?: (segmentIndex: number, timestamp: number) => void;
   /** Whether to show annotation UI */
   showAnnotations?: boolean;
+  /** Stored transcript to correct, before speaker names are applied (defaults to transcript) */
+  editableTranscript?: Transcript;
+  /** Save corrected segments as a new revision; enables editing when provided */
+  onSaveRevision?: (submission: TranscriptRevisionSubmission) => Promise<void>;
 }
 
 /**
@@ -73,12 +87,18 @@ export const TranscriptViewer = memo(
     defaultView = "segments",
     className,
     activeSegmentIndex: externalActiveSegmentIndex,
+    activeWordIndex,
     onSegmentClick: externalOnSegmentClick,
+    onWordClick,
     annotationsBySegment,
     onAddAnnotation,
     showAnnotations = false,
+    editableTranscript = transcript,
+    onSaveRevision,
   }: TranscriptViewerProps) {
     const [viewMode, setViewMode] = useState<"full" | "segments">(defaultView);
+    const [isEditing, setIsEditing] = useState(false);
+    const [historyOpen, setHistoryOpen] = useState(false);
     const [copiedToClipboard, setCopiedToClipboard] = useState(false);
     const [internalActiveSegmentIndex, setInternalActiveSegmentIndex] =
       useState<number | undefined>();
@@ -117,7 +137,23 @@ export const TranscriptViewer = memo(
       [externalOnSegmentClick],
     );
 
+    // Save a revision; the caller reports failures, so stay in edit mode
+    const handleSaveRevision = useCallback(
+      async (submission: TranscriptRevisionSubmission) => {
+        if (!onSaveRevision) return;
+        try {
+          await onSaveRevision(submission);
+          setIsEditing(false);
+          setHistoryOpen(false);
+        } catch {
+          // Reported by onSaveRevision
+        }
+      },
+      [onSaveRevision],
+    );
+
     const wordCount = calculateWordCount(transcript.text);
+    const revision = transcript.revision ?? 0;
 
     return (
       <Stack gap="md" className={className}>
@@ -157,6 +193,35 @@ export const TranscriptViewer = memo(
           </Tabs>
 
           <Group gap="sm">
+            {revision > 0 && (
+              <Badge variant="light" color="blue">
+                Corrected · Rev {revision}
+              </Badge>
+            )}
+            {onSaveRevision && (
+              <>
+                <Button
+                  variant={isEditing ? "filled" : "outline"}
+                  size="sm"
+                  onClick={() => setIsEditing((editing) => !editing)}
+                  leftSection={<Pencil size={16} />}
+                  styles={{ root: { minHeight: 44 } }}
+                >
+                  {isEditing ? "Stop Editing" : "Edit"}
+                </Button>
+                {revision > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setHistoryOpen(true)}
+                    leftSection={<History size={16} />}
+                    styles={{ root: { minHeight: 44 } }}
+                  >
+                    History
+                  </Button>
+                )}
+              </>
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -184,8 +249,25 @@ export const TranscriptViewer = memo(
           />
         )}
 
+        {/* Segment Editor */}
+        {isEditing && onSaveRevision && (
+          <Box
+            style={{
+              border: "1px solid var(--mantine-color-default-border)",
+              borderRadius: "var(--mantine-radius-md)",
+            }}
+          >
+            <TranscriptEditor
+              key={`${editableTranscript.id}-${revision}`}
+              transcript={editableTranscript}
+              onSave={handleSaveRevision}
+              onCancel={() => setIsEditing(false)}
+            />
+          </Box>
+        )}
+
         {/* Content Views */}
-        {transcript.text && (
+        {transcript.text && !isEditing && (
           <Box style={{ flex: 1, minHeight: 0 }}>
             {viewMode === "full" ? (
               <FullTextView
@@ -200,7 +282,9 @@ export const TranscriptViewer = memo(
                 searchQuery={search.debouncedQuery}
                 currentMatchIndex={search.currentMatchIndex}
                 activeSegmentIndex={activeSegmentIndex}
+                activeWordIndex={activeWordIndex}
                 onSegmentClick={handleSegmentClick}
+                onWordClick={onWordClick}
                 annotationsBySegment={annotationsBySegment}
                 onAddAnnotation={onAddAnnotation}
                 showAnnotations={showAnnotations}
@@ -208,6 +292,15 @@ export const TranscriptViewer = memo(
             )}
           </Box>
         )}
+
+        {onSaveRevision && (
+          <RevisionHistoryModal
+            opened={historyOpen}
+            onClose={() => setHistoryOpen(false)}
+            transcript={editableTranscript}
+            onRestore={handleSaveRevision}
+          />
+        )}
       </Stack>
     );
   },
@@ -216,11 +309,16 @@ export const TranscriptViewer = memo(
     return (
       prevProps.transcript.id === nextProps.transcript.id &&
       prevProps.transcript.text === nextProps.transcript.text &&
+      prevProps.transcript.segments === nextProps.transcript.segments &&
       prevProps.activeSegmentIndex === nextProps.activeSegmentIndex &&
+      prevProps.activeWordIndex === nextProps.activeWordIndex &&
       prevProps.onSegmentClick === nextProps.onSegmentClick &&
+      prevProps.onWordClick === nextProps.onWordClick &&
       prevProps.annotationsBySegment === nextProps.annotationsBySegment &&
       prevProps.onAddAnnotation === nextProps.onAddAnnotation &&
-      prevProps.showAnnotations === nextProps.showAnnotations
+      prevProps.showAnnotations === nextProps.showAnnotations &&
+      prevProps.editableTranscript === nextProps.editableTranscript &&
+      prevProps.onSaveRevision === nextProps.onSaveRevision
     );
   },
 );
@@ -326,7 +424,9 @@ interface SegmentViewProps {
   searchQuery: string;
   currentMatchIndex: number;
   activeSegmentIndex?: number;
+  activeWordIndex?: number;
   onSegmentClick: (index: number) => void;
+  onWordClick?: (seconds: number) => void;
   annotationsBySegment?: Map<number, TranscriptAnnotation[]>;
   onAddAnnotation?: (segmentIndex: number, timestamp: number) => void;
   showAnnotations?: boolean;
@@ -338,7 +438,9 @@ const SegmentView = memo(
     searchQuery,
     currentMatchIndex,
     activeSegmentIndex,
+    activeWordIndex,
     onSegmentClick,
+    onWordClick,
     annotationsBySegment,
     onAddAnnotation,
     showAnnotations = false,
@@ -358,7 +460,9 @@ const SegmentView = memo(
           searchQuery={searchQuery}
           currentMatchIndex={currentMatchIndex}
           activeSegmentIndex={activeSegmentIndex}
+          activeWordIndex={activeWordIndex}
           onSegmentClick={onSegmentClick}
+          onWordClick={onWordClick}
           annotationsBySegment={annotationsBySegment}
           onAddAnnotation={onAddAnnotation}
           showAnnotations={showAnnotations}
@@ -373,7 +477,9 @@ const SegmentView = memo(
       prevProps.searchQuery === nextProps.searchQuery &&
       prevProps.currentMatchIndex === nextProps.currentMatchIndex &&
       prevProps.activeSegmentIndex === nextProps.activeSegmentIndex &&
+      prevProps.activeWordIndex === nextProps.activeWordIndex &&
       prevProps.onSegmentClick === nextProps.onSegmentClick &&
+      prevProps.onWordClick === nextProps.onWordClick &&
       prevProps.annotationsBySegment === nextProps.annotationsBySegment &&
       prevProps.onAddAnnotation === nextProps.onAddAnnotation &&
       prevProps.showAnnotations === nextProps.showAnnotations
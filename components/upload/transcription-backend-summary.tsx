@@ -0,0 +1,70 @@
+/**
+ * Transcription Backend Summary Component
+ *
+ * Shows which transcription backend the server uses and what it can return
+ * (speaker labels, word timing, language detection), from the
+ * `transcription` field of /api/config/status.
+ */
+
+"use client";
+
+import * as React from "react";
+import { ServerCog } from "lucide-react";
+import { Badge, Group, Stack, Text } from "@mantine/core";
+import type {
+  TranscriptionCapabilities,
+  TranscriptionProviderStatus,
+} from "@/types/transcript";
+
+/**
+ * Props for TranscriptionBackendSummary component
+ */
+export interface TranscriptionBackendSummaryProps {
+  /** Backend status from /api/config/status */
+  status: TranscriptionProviderStatus;
+}
+
+const CAPABILITY_LABELS: Record<keyof TranscriptionCapabilities, string> = {
+  diarization: "Speaker labels",
+  wordTimestamps: "Word timing",
+  languageDetection: "Language detection",
+};
+
+/**
+ * Backend name, default model and capability badges
+ */
+export function TranscriptionBackendSummary({ status }: TranscriptionBackendSummaryProps) {
+  return (
+    <Stack gap={6}>
+      <Group gap="xs" wrap="nowrap">
+        <ServerCog size={16} style={{ color: "var(--mantine-color-dimmed)", flexShrink: 0 }} />
+        <Text size="sm" fw={500}>
+          {status.label}
+        </Text>
+        <Text size="sm" c="dimmed" ff="monospace" truncate>
+          {status.defaultModel}
+        </Text>
+      </Group>
+      <Group gap={6}>
+        {(Object.keys(CAPABILITY_LABELS) as Array<keyof TranscriptionCapabilities>).map((key) => (
+          <Badge
+            key={key}
+            size="sm"
+            variant="light"
+            color={status.capabilities[key] ? "green" : "gray"}
+            tt="none"
+          >
+            {CAPABILITY_LABELS[key]}
+            {status.capabilities[key] ? "" : " (not available)"}
+          </Badge>
+        ))}
+      </Group>
+      {status.provider === "local" && (
+        <Text size="xs" c="dimmed">
+          Audio is transcribed on your department&apos;s own server and is not sent to a cloud
+          service.
+        </Text>
+      )}
+    </Stack>
+  );
+}
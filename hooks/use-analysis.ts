@@ -4,12 +4,18 @@
  * Custom React hook for creating and managing transcript analyses.
  * Provides state management, API calls, and IndexedDB persistence.
  *
+ * Analyses run as server-side jobs (POST /api/analyze), which this hook
+ * follows over Server-Sent Events (falling back to polling) for phase
+ * checkpoints and the sections completed so far. The job ID is kept in
+ * localStorage until the result is saved, so the analyze page can reconnect
+ * after a reload.
+ *
  * STRATEGY ALIGNMENT NOTE:
  * Strategy selection is handled EXCLUSIVELY by the API endpoint (lib/analysis-strategies/index.ts).
  * The API uses token-based thresholds via recommendStrategy() to determine the optimal strategy.
  * This hook does NOT attempt to pre-determine the strategy - instead, it:
  * 1. Shows "Determining optimal strategy..." during initial progress
- * 2. Updates resolvedStrategy once the API responds with the actual strategy used
+ * 2. Updates resolvedStrategy once the job reports the strategy it is running
  * 3. Adjusts progress display based on the confirmed strategy
  *
  * This ensures the UI accurately reflects what the API is actually doing.
@@ -19,13 +25,18 @@
 
 import { useState, useCallback } from "react";
 import React from "react";
-import { v4 as uuidv4 } from "uuid";
-import type { Analysis, AnalysisProgress } from "@/types/analysis";
+import type {
+  Analysis,
+  AnalysisJob,
+  AnalysisProgress,
+} from "@/types/analysis";
 import type { Transcript } from "@/types/transcript";
 import type { Template } from "@/types/template";
 import type { AnalysisStrategy } from "@/lib/analysis-strategy";
 import { normalizeEvidence } from "@/lib/analysis-utils";
+import { transcriptForAiRequest } from "@/lib/redaction";
 import { createLogger } from "@/lib/logger";
+import { readSseEvents } from "@/lib/sse";
 import {
   saveAnalysis,
   getAnalysisByTranscript,
@@ -35,16 +46,262 @@ import {
 } from "@/lib/db";
 import {
   calculateEstimatedTime,
-  getStrategyPhases,
-  calculatePhaseProgress,
+  estimatePhaseProgress,
 } from "@/lib/analysis-progress-metadata";
 import {
   getAnalysisModelPreference,
   getReasoningEffortPreference,
+  setPendingAnalysisJob,
+  clearPendingAnalysisJob,
+  type PendingAnalysisJob,
 } from "@/lib/storage";
 
 const log = createLogger("useAnalysis");
 
+/** How often a running analysis job is polled */
+const JOB_POLL_INTERVAL_MS = 2000;
+
+/** Consecutive failed polls (network or 5xx) tolerated before giving up */
+const MAX_POLL_FAILURES = 5;
+
+/** How often progress is eased forward between job updates */
+const PROGRESS_TICK_MS = 1000;
+
+/**
+ * The server no longer has the job (collected, expired, or restarted)
+ */
+class AnalysisJobGoneError extends Error {
+  constructor() {
+    super(
+      "The analysis is no longer running on the server. Please run it again.",
+    );
+    this.name = "AnalysisJobGoneError";
+  }
+}
+
+/**
+ * Wait between polls; rejects with an AbortError when cancelled
+ */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Poll GET /api/analyze/[id] until the job finishes, reporting each update.
+ * Brief network or gateway failures are retried; a missing job is not.
+ */
+async function pollAnalysisJob(
+  jobId: string,
+  signal: AbortSignal,
+  onUpdate: (job: AnalysisJob) => void,
+): Promise<AnalysisJob> {
+  let failures = 0;
+
+  for (;;) {
+    let job: AnalysisJob | null = null;
+    try {
+      const response = await fetch(`/api/analyze/${jobId}`, {
+        cache: "no-store",
+        signal,
+      });
+      if (response.status === 404) {
+        throw new AnalysisJobGoneError();
+      }
+      if (response.ok) {
+        job = (await response.json()).data as AnalysisJob;
+      } else {
+        log.warn("Analysis job poll failed", { status: response.status });
+      }
+    } catch (error) {
+      if (
+        signal.aborted ||
+        error instanceof AnalysisJobGoneError ||
+        failures + 1 >= MAX_POLL_FAILURES
+      ) {
+        throw error;
+      }
+      log.warn("Analysis job poll failed", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (job) {
+      failures = 0;
+      onUpdate(job);
+      if (job.status !== "running") {
+        return job;
+      }
+    } else if (++failures >= MAX_POLL_FAILURES) {
+      throw new Error("Lost contact with the analysis server");
+    }
+
+    await wait(JOB_POLL_INTERVAL_MS, signal);
+  }
+}
+
+/**
+ * Follow GET /api/analyze/[id]/events until the job finishes, reporting each
+ * update. Falls back to polling if the stream cannot be opened or drops.
+ */
+async function followAnalysisJob(
+  jobId: string,
+  signal: AbortSignal,
+  onUpdate: (job: AnalysisJob) => void,
+): Promise<AnalysisJob> {
+  try {
+    const response = await fetch(`/api/analyze/${jobId}/events`, {
+      cache: "no-store",
+      headers: { Accept: "text/event-stream" },
+      signal,
+    });
+    if (response.status === 404) {
+      throw new AnalysisJobGoneError();
+    }
+
+    if (response.ok) {
+      const outcome: { finished?: AnalysisJob; gone?: boolean } = {};
+      await readSseEvents(response, ({ event, data }) => {
+        if (event === "gone") {
+          outcome.gone = true;
+        } else if (event === "job") {
+          const job = data as AnalysisJob;
+          onUpdate(job);
+          if (job.status !== "running") {
+            outcome.finished = job;
+          }
+        }
+      });
+
+      if (outcome.gone) {
+        throw new AnalysisJobGoneError();
+      }
+      if (outcome.finished) {
+        return outcome.finished;
+      }
+    } else {
+      log.warn("Analysis job stream unavailable", { status: response.status });
+    }
+  } catch (error) {
+    if (signal.aborted || error instanceof AnalysisJobGoneError) {
+      throw error;
+    }
+    log.warn("Analysis job stream failed, polling instead", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return pollAnalysisJob(jobId, signal, onUpdate);
+}
+
+/**
+ * The sections a running job has completed so far, as an Analysis the
+ * viewer can render
+ */
+function previewFromJob(job: AnalysisJob): Analysis | null {
+  const partial = job.partialResults;
+  if (!partial?.sections?.length) {
+    return null;
+  }
+
+  return {
+    id: job.id,
+    transcriptId: job.transcriptId,
+    templateId: job.templateId,
+    analysisStrategy: job.strategy ?? "basic",
+    results: { ...partial, sections: partial.sections },
+    createdAt: new Date(job.startedAt),
+  };
+}
+
+/**
+ * Progress display for a running job: its checkpointed phase, eased forward
+ * while the phase runs
+ */
+function progressFromJob(
+  job: AnalysisJob,
+  sectionCount: number,
+  runEvaluation: boolean,
+): AnalysisProgress {
+  if (!job.strategy || !job.currentPhase) {
+    return {
+      progress: Math.max(5, job.progress),
+      message: job.message,
+      complete: false,
+      currentSection: "Initializing",
+    };
+  }
+
+  const estimated = estimatePhaseProgress(
+    job.currentPhase.range,
+    (Date.now() - job.phaseStartedAt) / 1000,
+    calculateEstimatedTime(job.strategy, sectionCount, runEvaluation),
+  );
+
+  return {
+    progress: Math.max(job.progress, estimated),
+    message: job.message,
+    complete: false,
+    currentSection: job.currentPhase.name,
+  };
+}
+
+/**
+ * Release a job on the server and forget it locally
+ */
+function discardAnalysisJob(job: PendingAnalysisJob): void {
+  clearPendingAnalysisJob(job.transcriptId);
+  fetch(`/api/analyze/${job.jobId}`, { method: "DELETE", keepalive: true }).catch(
+    (error) => {
+      log.warn("Failed to release analysis job", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+    },
+  );
+}
+
+/**
+ * Extract error message from various error structures.
+ * OpenAI SDK errors may have nested error.error.message
+ */
+function extractErrorMessage(err: unknown): string {
+  if (err instanceof Error) {
+    // Check for OpenAI API error structure (error.error.message)
+    const apiError = err as Error & { error?: { message?: string } };
+    if (apiError.error?.message) {
+      return apiError.error.message;
+    }
+    if (err.message) {
+      return err.message;
+    }
+  }
+  if (err && typeof err === "object") {
+    const obj = err as Record<string, unknown>;
+    // Handle plain objects with error or message properties
+    if (typeof obj.error === "string") return obj.error;
+    if (typeof obj.message === "string") return obj.message;
+    if (obj.error && typeof obj.error === "object") {
+      const nested = obj.error as Record<string, unknown>;
+      if (typeof nested.message === "string") return nested.message;
+    }
+  }
+  const str = String(err);
+  return str === "[object Object]" ? "Unknown analysis error" : str;
+}
+
 /**
  * Analysis state interface
  */
@@ -69,6 +326,12 @@ export interface AnalysisState {
 
   /** Resolved strategy being used (after 'auto' resolution) */
   resolvedStrategy: AnalysisStrategy | null;
+
+  /** Server-side job being followed */
+  job: PendingAnalysisJob | null;
+
+  /** Sections completed so far while an analysis runs */
+  partialAnalysis: Analysis | null;
 }
 
 /**
@@ -87,6 +350,13 @@ export interface UseAnalysisReturn {
     supplementalMaterial?: string,
   ) => Promise<Analysis | null>;
 
+  /** Reconnect to an analysis job started before a page reload */
+  resumeAnalysis: (
+    transcript: Transcript,
+    template: Template,
+    pending: PendingAnalysisJob,
+  ) => Promise<Analysis | null>;
+
   /** Fetch all analyses for a transcript */
   fetchAnalyses: (
     transcriptId: string,
@@ -114,6 +384,8 @@ const initialState: AnalysisState = {
   progress: null,
   abortController: null,
   resolvedStrategy: null,
+  job: null,
+  partialAnalysis: null,
 };
 
 /**
@@ -196,378 +468,91 @@ export function useAnalysis(): UseAnalysisReturn {
   );
 
   /**
-   * Analyze a transcript using the specified template
+   * Follow a server-side analysis job to completion.
    *
    * This function:
-   * 1. Calls the analysis API endpoint
-   * 2. Tracks progress during analysis with simulated updates
-   * 3. Saves the completed analysis to IndexedDB
-   * 4. Returns the analysis object
+   * 1. Starts or reconnects to the job (via `start`, which returns its ID)
+   * 2. Follows the job's events (or polls GET /api/analyze/[id]), showing
+   *    its phase checkpoints and the sections completed so far
+   * 3. Saves the completed analysis to IndexedDB and releases the job
+   * 4. Runs the citations pass (Advanced only)
    * 5. Supports cancellation via AbortController
-   *
-   * @param transcript - The transcript to analyze
-   * @param template - The analysis template to use
-   * @param strategy - Analysis strategy ('basic' | 'hybrid' | 'advanced' | 'auto'). Defaults to 'auto'
-   * @param runEvaluation - Whether to run evaluation on the analysis. Defaults to true
-   * @param supplementalMaterial - Optional extracted text from uploaded documents (Word, PDF, etc.)
    */
-  const analyzeTranscript = useCallback(
+  const runAnalysisJob = useCallback(
     async (
       transcript: Transcript,
       template: Template,
-      strategy?: AnalysisStrategy | "auto",
-      runEvaluation?: boolean,
-      supplementalMaterial?: string,
+      pending: Omit<PendingAnalysisJob, "jobId">,
+      abortController: AbortController,
+      start: () => Promise<string>,
     ): Promise<Analysis | null> => {
-      // Guard against concurrent analyses
-      if (state.loading) {
-        log.warn("Analysis already in progress");
-        return null;
-      }
-
-      // Create abort controller for cancellation
-      const abortController = new AbortController();
-      let progressInterval: NodeJS.Timeout | null = null;
+      let job: PendingAnalysisJob | null = null;
+      let progressTicker: ReturnType<typeof setInterval> | undefined;
 
       try {
-        // STRATEGY ALIGNMENT FIX:
-        // Do NOT pre-determine strategy here. The API uses token-based thresholds
-        // (via recommendStrategy in lib/analysis-strategy.ts) which may differ from
-        // section-count based heuristics. Let the API be the single source of truth.
-        //
-        // If user explicitly specified a strategy (not 'auto'), we know what they want.
-        // Otherwise, show "determining..." until API confirms the actual strategy.
-        const userSpecifiedStrategy: AnalysisStrategy | null =
-          strategy && strategy !== "auto" ? strategy : null;
-
-        setState((prev) => ({
-          ...prev,
-          loading: true,
-          error: null,
-          abortController, // Store controller in state for cancel button
-          // Only set resolvedStrategy if user explicitly chose one; otherwise null until API confirms
-          resolvedStrategy: userSpecifiedStrategy,
-          progress: {
-            progress: 0,
-            message: userSpecifiedStrategy
-              ? `Preparing ${userSpecifiedStrategy} analysis...`
-              : "Determining optimal analysis strategy...",
-            complete: false,
-            currentSection: "Initializing",
-          },
-        }));
+        job = { ...pending, jobId: await start() };
+        setPendingAnalysisJob(job);
+        setState((prev) => ({ ...prev, job }));
 
-        // Get strategy-specific phases and time estimate
         const sectionCount = Math.max(1, template.sections.length);
-        const runEval = runEvaluation !== false;
-
-        // If user specified a strategy, we can show strategy-specific progress.
-        // Otherwise, show generic progress until API responds with the actual strategy.
-        if (userSpecifiedStrategy && userSpecifiedStrategy !== "basic") {
-          // User explicitly chose hybrid/advanced - show their expected progress
-          const phases = getStrategyPhases(
-            userSpecifiedStrategy,
-            template,
-            runEval,
-          );
-          const totalEstimatedTime = calculateEstimatedTime(
-            userSpecifiedStrategy,
-            sectionCount,
-            runEval,
-          );
-
-          // Track elapsed time and current phase
-          const startTime = Date.now();
-
-          // Start strategy-aware progress updates
-          progressInterval = setInterval(() => {
-            const elapsedSeconds = (Date.now() - startTime) / 1000;
-
-            // Calculate progress and current phase
-            const { progress: baseProgress, phase } = calculatePhaseProgress(
-              elapsedSeconds,
-              totalEstimatedTime,
-              phases,
-            );
-
-            // Asymptotic progress:
-            // - Use calculated progress up to 75%
-            // - After 75%, continue slowly toward 88% (never reaches 90% until API responds)
-            let progress: number;
-            let isOvertime = false;
-
-            if (baseProgress < 75) {
-              progress = baseProgress;
-            } else {
-              isOvertime = elapsedSeconds > totalEstimatedTime;
-              if (isOvertime) {
-                // Overtime: asymptotically approach 88%
-                const overtime = elapsedSeconds - totalEstimatedTime;
-                const additionalProgress = 13 * (1 - Math.exp(-overtime / 60));
-                progress = 75 + additionalProgress;
-              } else {
-                progress = 75;
-              }
-            }
-
-            // Determine message
-            let message = phase?.message || "Processing...";
-            let currentSection = phase?.name || "Processing";
-
-            if (isOvertime) {
-              const minutes = Math.floor(elapsedSeconds / 60);
-              const seconds = Math.floor(elapsedSeconds % 60);
-              const timeStr =
-                minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
-              message = `Still processing... (${timeStr} elapsed)`;
-              currentSection = "Processing";
-            }
-
-            updateProgress({
-              progress: Math.floor(progress),
-              message,
-              complete: false,
-              currentSection,
-            });
-          }, 2000); // Update every 2 seconds
-
-          // Initial progress update for user-specified hybrid/advanced
-          const initialPhase = phases[0];
-          updateProgress({
-            progress: 5,
-            message:
-              initialPhase?.message ||
-              `Starting ${userSpecifiedStrategy} analysis...`,
-            complete: false,
-            currentSection: initialPhase?.name || "Initializing",
-          });
-        } else if (userSpecifiedStrategy === "basic") {
-          // User explicitly chose basic - add progress updates for extraction + enrichment
-          // GPT-5.2 update: Basic now takes 2-4 min (~180s avg)
-          const startTime = Date.now();
-          const estimatedTimeSeconds = 180; // Basic + enrichment with GPT-5.2
-
-          progressInterval = setInterval(() => {
-            const elapsedSeconds = (Date.now() - startTime) / 1000;
-
-            // Asymptotic progress formula:
-            // - Linear from 5% to 75% during estimated time
-            // - Continues slowly from 75% toward 88% after estimate (never reaches 90% until API responds)
-            let progress: number;
-            let isOvertime = false;
-
-            if (elapsedSeconds <= estimatedTimeSeconds) {
-              // Normal linear progression
-              progress = 5 + (70 * elapsedSeconds) / estimatedTimeSeconds;
-            } else {
-              // Overtime: asymptotically approach 88%
-              // Formula: 75 + 13 * (1 - e^(-overtime/120))
-              // Slower asymptote for longer processing times
-              isOvertime = true;
-              const overtime = elapsedSeconds - estimatedTimeSeconds;
-              const additionalProgress = 13 * (1 - Math.exp(-overtime / 120));
-              progress = 75 + additionalProgress;
-            }
-
-            let message = "Processing with basic analysis...";
-            let currentSection = "Extraction";
-
-            // Adjusted breakpoints for GPT-5.2 timing (60s, 120s instead of 15s, 30s)
-            if (elapsedSeconds > 60) {
-              message = "Running enrichment pass...";
-              currentSection = "Enrichment";
-            }
-            if (elapsedSeconds > 120) {
-              message = "Finalizing results...";
-              currentSection = "Finalizing";
-            }
-
-            // When over estimated time, show elapsed time to indicate it's still working
-            if (isOvertime) {
-              const minutes = Math.floor(elapsedSeconds / 60);
-              const seconds = Math.floor(elapsedSeconds % 60);
-              const timeStr =
-                minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
-              message = `Still processing... (${timeStr} elapsed)`;
-              currentSection = "Processing";
-            }
+        let latest: AnalysisJob | null = null;
 
-            updateProgress({
-              progress: Math.floor(progress),
-              message,
-              complete: false,
-              currentSection,
-            });
-          }, 2000);
-
-          updateProgress({
-            progress: 5,
-            message: "Processing with basic analysis...",
-            complete: false,
-            currentSection: "Extraction",
-          });
-        } else {
-          // Auto mode: Show generic progress with periodic updates until API responds
-          // The API will determine the actual strategy based on token count
-          // GPT-5.2 update: Strategy selection phase extended
-          const startTime = Date.now();
-          const estimatedStrategySelectionTime = 30; // ~30 seconds for strategy determination
-
-          progressInterval = setInterval(() => {
-            const elapsedSeconds = (Date.now() - startTime) / 1000;
-
-            // Asymptotic progress for auto mode:
-            // - Linear to 40% during strategy selection phase (~30s)
-            // - Then asymptotically approach 75% as we wait for API
-            let progress: number;
-            let isOvertime = false;
-
-            if (elapsedSeconds <= estimatedStrategySelectionTime) {
-              // Strategy selection phase: 5% to 40%
-              progress =
-                5 + (35 * elapsedSeconds) / estimatedStrategySelectionTime;
-            } else {
-              // Waiting for API: asymptotically approach 75%
-              isOvertime = true;
-              const overtime = elapsedSeconds - estimatedStrategySelectionTime;
-              // 40 + 35 * (1 - e^(-overtime/120)) approaches 75% (slower for GPT-5.2)
-              const additionalProgress = 35 * (1 - Math.exp(-overtime / 120));
-              progress = 40 + additionalProgress;
+        // Events only arrive at checkpoints, so ease progress in between
+        progressTicker = setInterval(() => {
+          if (latest?.status === "running") {
+            updateProgress(
+              progressFromJob(latest, sectionCount, pending.runEvaluation),
+            );
+          }
+        }, PROGRESS_TICK_MS);
+
+        const finished = await followAnalysisJob(
+          job.jobId,
+          abortController.signal,
+          (update) => {
+            latest = update;
+            if (update.strategy) {
+              setState((prev) => ({
+                ...prev,
+                resolvedStrategy: update.strategy ?? prev.resolvedStrategy,
+              }));
             }
-
-            let message: string;
-            let currentSection: string;
-
-            if (isOvertime) {
-              const minutes = Math.floor(elapsedSeconds / 60);
-              const seconds = Math.floor(elapsedSeconds % 60);
-              const timeStr =
-                minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
-              message = `Processing analysis... (${timeStr} elapsed)`;
-              currentSection = "Processing";
-            } else if (progress < 20) {
-              message = "Analyzing transcript complexity...";
-              currentSection = "Strategy Selection";
-            } else {
-              message = "Selecting optimal analysis strategy...";
-              currentSection = "Strategy Selection";
+            if (update.status === "running") {
+              const partialAnalysis = previewFromJob(update);
+              setState((prev) => ({
+                ...prev,
+                partialAnalysis: partialAnalysis ?? prev.partialAnalysis,
+              }));
+              updateProgress(
+                progressFromJob(update, sectionCount, pending.runEvaluation),
+              );
             }
-
-            updateProgress({
-              progress: Math.floor(progress),
-              message,
-              complete: false,
-              currentSection,
-            });
-          }, 2000);
-
-          updateProgress({
-            progress: 5,
-            message: "Analyzing transcript complexity...",
-            complete: false,
-            currentSection: "Strategy Selection",
-          });
-        }
-
-        // Get user preferences for model and reasoning effort
-        const modelOverride = getAnalysisModelPreference();
-        const reasoningEffort = getReasoningEffortPreference();
-
-        log.debug("Using analysis settings", {
-          modelOverride,
-          reasoningEffort,
-        });
-
-        // Call the analysis API endpoint with abort signal
-        const response = await fetch("/api/analyze", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
           },
-          body: JSON.stringify({
-            transcriptId: transcript.id,
-            templateId: template.id,
-            transcript: {
-              text: transcript.text,
-              segments: transcript.segments,
-            },
-            template: template,
-            strategy: strategy || "auto",
-            runEvaluation: runEvaluation !== false,
-            // Include supplemental material if provided (from uploaded Word, PDF, PPT, or pasted text)
-            ...(supplementalMaterial && { supplementalMaterial }),
-            // User-configurable model and reasoning settings from Settings
-            modelOverride,
-            reasoningEffort,
-          }),
-          signal: abortController.signal,
-        });
-
-        // Clear progress interval once API responds
-        if (progressInterval) {
-          clearInterval(progressInterval);
-          progressInterval = null;
-        }
+        );
+        clearInterval(progressTicker);
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(
-            errorData.error || `Analysis failed with status ${response.status}`,
-          );
+        if (finished.status !== "completed" || !finished.analysis) {
+          discardAnalysisJob(job);
+          throw new Error(finished.error || "Analysis failed");
         }
 
-        const responseData = await response.json();
-
-        // STRATEGY ALIGNMENT: Extract the actual strategy used by the API
-        // The API returns analysisStrategy in the response data
+        // STRATEGY ALIGNMENT: The strategy the API actually used is the single
+        // source of truth once the job completes
         const actualStrategy: AnalysisStrategy =
-          responseData.data?.analysisStrategy ||
-          responseData.analysisStrategy ||
-          userSpecifiedStrategy ||
-          "basic";
-
-        // Update resolvedStrategy state to reflect what the API actually used
-        // This is the single source of truth for strategy after API responds
+          finished.analysis.analysisStrategy || "basic";
         setState((prev) => ({
           ...prev,
           resolvedStrategy: actualStrategy,
         }));
 
-        // Show evaluation phase if enabled, using ACTUAL strategy from API
-        if (runEval) {
-          updateProgress({
-            progress: 78,
-            message: "Running quality review and self-evaluation...",
-            complete: false,
-            currentSection: "Quality Review",
-          });
-        } else {
-          updateProgress({
-            progress: 80,
-            message: "Processing analysis results...",
-            complete: false,
-            currentSection: "Finalizing",
-          });
-        }
-
-        // The API returns the full Analysis object in responseData.data
-        const analysis: Analysis = responseData.data
-          ? {
-              ...responseData.data,
-              // Ensure createdAt is a Date object
-              createdAt: responseData.data.createdAt
-                ? new Date(responseData.data.createdAt)
-                : new Date(),
-            }
-          : {
-              id: responseData.id || uuidv4(),
-              transcriptId: transcript.id,
-              templateId: template.id,
-              results: responseData.results || responseData,
-              createdAt: responseData.createdAt
-                ? new Date(responseData.createdAt)
-                : new Date(),
-            };
+        const analysis: Analysis = {
+          ...finished.analysis,
+          // Ensure createdAt is a Date object
+          createdAt: finished.analysis.createdAt
+            ? new Date(finished.analysis.createdAt)
+            : new Date(),
+          transcriptRevision: transcript.revision ?? 0,
+        };
 
         updateProgress({
           progress: 90,
@@ -576,8 +561,13 @@ export function useAnalysis(): UseAnalysisReturn {
           currentSection: "Saving",
         });
 
-        // Save to IndexedDB
+        // Save to IndexedDB, then let the server drop its copy
         await saveAnalysis(analysis);
+        discardAnalysisJob(job);
+        setState((prev) => ({ ...prev, job: null, partialAnalysis: null }));
+
+        // Personal details are replaced when the redaction preference is on
+        const requestTranscript = transcriptForAiRequest(transcript);
 
         // LLM-powered citations pass (Advanced only).
         // This generates "View Supporting Evidence" using a small model (e.g. gpt-4.1-mini).
@@ -599,7 +589,7 @@ export function useAnalysis(): UseAnalysisReturn {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
-                  transcript: { segments: transcript.segments },
+                  transcript: { segments: requestTranscript.segments },
                   templateSections: template.sections,
                   sections: analysis.results.sections.map((s) => ({
                     name: s.name,
@@ -689,6 +679,8 @@ export function useAnalysis(): UseAnalysisReturn {
 
         return finalAnalysis;
       } catch (error) {
+        clearInterval(progressTicker);
+
         // Check if error was due to cancellation
         if (error instanceof Error && error.name === "AbortError") {
           log.info("Analysis cancelled by user");
@@ -697,6 +689,8 @@ export function useAnalysis(): UseAnalysisReturn {
             loading: false,
             error: "Analysis cancelled",
             abortController: null,
+            job: null,
+            partialAnalysis: null,
             progress: {
               progress: 0,
               message: "Analysis cancelled",
@@ -707,32 +701,9 @@ export function useAnalysis(): UseAnalysisReturn {
           return null;
         }
 
-        // Extract error message from various error structures
-        // OpenAI SDK errors may have nested error.error.message
-        const extractErrorMessage = (err: unknown): string => {
-          if (err instanceof Error) {
-            // Check for OpenAI API error structure (error.error.message)
-            const apiError = err as Error & { error?: { message?: string } };
-            if (apiError.error?.message) {
-              return apiError.error.message;
-            }
-            if (err.message) {
-              return err.message;
-            }
-          }
-          if (err && typeof err === "object") {
-            const obj = err as Record<string, unknown>;
-            // Handle plain objects with error or message properties
-            if (typeof obj.error === "string") return obj.error;
-            if (typeof obj.message === "string") return obj.message;
-            if (obj.error && typeof obj.error === "object") {
-              const nested = obj.error as Record<string, unknown>;
-              if (typeof nested.message === "string") return nested.message;
-            }
-          }
-          const str = String(err);
-          return str === "[object Object]" ? "Unknown analysis error" : str;
-        };
+        if (error instanceof AnalysisJobGoneError) {
+          clearPendingAnalysisJob(pending.transcriptId);
+        }
 
         const errorMsg = extractErrorMessage(error);
         log.error("Analysis error", { message: errorMsg });
@@ -744,6 +715,8 @@ export function useAnalysis(): UseAnalysisReturn {
           loading: false,
           error: errorMessage,
           abortController: null,
+          job: null,
+          partialAnalysis: null,
           progress: {
             progress: 0,
             message: errorMessage,
@@ -753,17 +726,180 @@ export function useAnalysis(): UseAnalysisReturn {
         }));
 
         return null;
-      } finally {
-        // CRITICAL: Always clear interval in finally block to prevent memory leaks
-        if (progressInterval) {
-          clearInterval(progressInterval);
-        }
       }
     },
-    // eslint-disable-next-line react-hooks/exhaustive-deps -- Intentionally omitting state.loading to prevent callback recreation during analysis
     [updateProgress],
   );
 
+  /**
+   * Analyze a transcript using the specified template
+   *
+   * Starts a background analysis job on the server and follows it. The job
+   * is remembered per transcript, so resumeAnalysis() can pick it up again
+   * after a page reload.
+   *
+   * @param transcript - The transcript to analyze
+   * @param template - The analysis template to use
+   * @param strategy - Analysis strategy ('basic' | 'hybrid' | 'advanced' | 'auto'). Defaults to 'auto'
+   * @param runEvaluation - Whether to run evaluation on the analysis. Defaults to true
+   * @param supplementalMaterial - Optional extracted text from uploaded documents (Word, PDF, etc.)
+   */
+  const analyzeTranscript = useCallback(
+    async (
+      transcript: Transcript,
+      template: Template,
+      strategy?: AnalysisStrategy | "auto",
+      runEvaluation?: boolean,
+      supplementalMaterial?: string,
+    ): Promise<Analysis | null> => {
+      // Guard against concurrent analyses
+      if (state.loading) {
+        log.warn("Analysis already in progress");
+        return null;
+      }
+
+      // Create abort controller for cancellation
+      const abortController = new AbortController();
+
+      // STRATEGY ALIGNMENT FIX:
+      // Do NOT pre-determine strategy here. The API uses token-based thresholds
+      // (via recommendStrategy in lib/analysis-strategy.ts) which may differ from
+      // section-count based heuristics. The job reports the strategy it runs.
+      const userSpecifiedStrategy: AnalysisStrategy | null =
+        strategy && strategy !== "auto" ? strategy : null;
+
+      setState((prev) => ({
+        ...prev,
+        loading: true,
+        error: null,
+        partialAnalysis: null,
+        abortController, // Store controller in state for cancel button
+        // Only set resolvedStrategy if user explicitly chose one; otherwise null until the job reports it
+        resolvedStrategy: userSpecifiedStrategy,
+        progress: {
+          progress: 0,
+          message: userSpecifiedStrategy
+            ? `Preparing ${userSpecifiedStrategy} analysis...`
+            : "Determining optimal analysis strategy...",
+          complete: false,
+          currentSection: "Initializing",
+        },
+      }));
+
+      return runAnalysisJob(
+        transcript,
+        template,
+        {
+          transcriptId: transcript.id,
+          templateId: template.id,
+          strategy: strategy || "auto",
+          runEvaluation: runEvaluation !== false,
+        },
+        abortController,
+        async () => {
+          // Get user preferences for model and reasoning effort
+          const modelOverride = getAnalysisModelPreference();
+          const reasoningEffort = getReasoningEffortPreference();
+
+          log.debug("Using analysis settings", {
+            modelOverride,
+            reasoningEffort,
+          });
+
+          // Personal details are replaced when the redaction preference is on
+          const requestTranscript = transcriptForAiRequest(transcript);
+
+          // Start the analysis job with abort signal
+          const response = await fetch("/api/analyze", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              transcriptId: transcript.id,
+              templateId: template.id,
+              transcript: {
+                text: requestTranscript.text,
+                segments: requestTranscript.segments,
+              },
+              template: template,
+              strategy: strategy || "auto",
+              runEvaluation: runEvaluation !== false,
+              // Include supplemental material if provided (from uploaded Word, PDF, PPT, or pasted text)
+              ...(supplementalMaterial && { supplementalMaterial }),
+              // User-configurable model and reasoning settings from Settings
+              modelOverride,
+              reasoningEffort,
+            }),
+            signal: abortController.signal,
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(
+              errorData.error ||
+                `Analysis failed with status ${response.status}`,
+            );
+          }
+
+          const responseData = await response.json();
+          return (responseData.data as AnalysisJob).id;
+        },
+      );
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- Intentionally omitting state.loading to prevent callback recreation during analysis
+    [runAnalysisJob],
+  );
+
+  /**
+   * Reconnect to an analysis job started before the page was reloaded
+   *
+   * @param transcript - The transcript being analyzed
+   * @param template - The template the job was started with
+   * @param pending - The job remembered by getPendingAnalysisJob()
+   */
+  const resumeAnalysis = useCallback(
+    async (
+      transcript: Transcript,
+      template: Template,
+      pending: PendingAnalysisJob,
+    ): Promise<Analysis | null> => {
+      if (state.loading) {
+        log.warn("Analysis already in progress");
+        return null;
+      }
+
+      const abortController = new AbortController();
+
+      setState((prev) => ({
+        ...prev,
+        loading: true,
+        error: null,
+        partialAnalysis: null,
+        abortController,
+        resolvedStrategy:
+          pending.strategy !== "auto" ? pending.strategy : null,
+        progress: {
+          progress: 0,
+          message: "Reconnecting to the running analysis...",
+          complete: false,
+          currentSection: "Initializing",
+        },
+      }));
+
+      const { jobId, ...settings } = pending;
+      return runAnalysisJob(
+        transcript,
+        template,
+        settings,
+        abortController,
+        async () => jobId,
+      );
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- Intentionally omitting state.loading to prevent callback recreation during analysis
+    [runAnalysisJob],
+  );
+
   /**
    * Cancel an in-progress analysis
    * Uses setState callback to avoid stale closure issues
@@ -793,10 +929,17 @@ export function useAnalysis(): UseAnalysisReturn {
         };
       }
 
+      // Stop the server-side job too
+      if (prev.job) {
+        discardAnalysisJob(prev.job);
+      }
+
       return {
         ...prev,
         loading: false,
         abortController: null,
+        job: null,
+        partialAnalysis: null,
         error: "Analysis cancelled by user",
         progress: {
           progress: 0,
@@ -819,6 +962,7 @@ export function useAnalysis(): UseAnalysisReturn {
       progress: null,
       abortController: null,
       resolvedStrategy: null,
+      partialAnalysis: null,
     }));
   }, []);
 
@@ -838,6 +982,7 @@ export function useAnalysis(): UseAnalysisReturn {
   return {
     state,
     analyzeTranscript,
+    resumeAnalysis,
     fetchAnalyses,
     cancelAnalysis,
     clearAnalysis,
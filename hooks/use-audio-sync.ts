@@ -2,7 +2,8 @@
  * Audio-Transcript Synchronization Hook
  *
  * Custom hook that manages synchronization between audio playback and transcript segments.
- * Tracks current playback position, determines active segment, and provides controls.
+ * Tracks current playback position, determines active segment (and active word when the
+ * segment has word timestamps), and provides controls.
  *
  * Browser Compatibility Notes:
  * - iOS Safari: Volume control via media element is disabled; uses Web Audio gain instead
@@ -22,6 +23,7 @@ import type {
   PlaybackSpeed,
 } from '@/types/audio';
 import type { TranscriptSegment } from '@/types/transcript';
+import { findActiveWordIndex } from '@/lib/word-timing';
 
 /**
  * Detect if running on iOS Safari where volume control is restricted
@@ -68,6 +70,9 @@ interface UseAudioSyncProps {
   /** Callback when active segment changes */
   onSegmentChange?: (segment: TranscriptSegment | null, index: number) => void;
 
+  /** Callback when the active word within the active segment changes */
+  onWordChange?: (wordIndex: number) => void;
+
   /** Callback when playback state changes */
   onPlaybackStateChange?: (state: PlaybackState) => void;
 
@@ -162,6 +167,7 @@ function findActiveSegment(
 export function useAudioSync({
   segments,
   onSegmentChange,
+  onWordChange,
   onPlaybackStateChange,
   initialSpeed = 1,
   initialVolume = 0.8,
@@ -181,6 +187,7 @@ export function useAudioSync({
 
   // Track last active segment to avoid redundant callbacks
   const lastActiveSegmentIndex = useRef<number>(-1);
+  const lastActiveWordIndex = useRef<number>(-1);
 
   // Use ref for volume boost to avoid stale closures
   const volumeBoostRef = useRef<number>(DEFAULT_ENHANCEMENT.volumeBoost);
@@ -201,6 +208,7 @@ export function useAudioSync({
     muted: false,
     activeSegment: null,
     activeSegmentIndex: -1,
+    activeWordIndex: -1,
   });
 
   /**
@@ -348,12 +356,14 @@ export function useAudioSync({
   const updateCurrentTime = useCallback(
     (time: number) => {
       const [activeSegment, activeSegmentIndex] = findActiveSegment(segments, time);
+      const activeWordIndex = findActiveWordIndex(activeSegment?.words, time);
 
       setSyncState((prev) => ({
         ...prev,
         currentTime: time,
         activeSegment,
         activeSegmentIndex,
+        activeWordIndex,
       }));
 
       // Call segment change callback if segment changed
@@ -361,8 +371,13 @@ export function useAudioSync({
         lastActiveSegmentIndex.current = activeSegmentIndex;
         onSegmentChange?.(activeSegment, activeSegmentIndex);
       }
+
+      if (activeWordIndex !== lastActiveWordIndex.current) {
+        lastActiveWordIndex.current = activeWordIndex;
+        onWordChange?.(activeWordIndex);
+      }
     },
-    [segments, onSegmentChange]
+    [segments, onSegmentChange, onWordChange]
   );
 
   /**
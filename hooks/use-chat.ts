@@ -12,21 +12,41 @@
  *
  * Features:
  * - Live reactive updates via useLiveQuery
- * - Automatic conversation creation on first message
+ * - Several named conversations per transcript; a new one is saved with
+ *   its first message
+ * - Answers stream in as they are generated, and can be stopped or
+ *   regenerated
+ * - Editing a question forks the conversation at that question
  * - Message persistence in IndexedDB
  * - Error handling and loading states
- * - Clear and delete conversation functions
+ * - Clear, rename and delete conversation functions
+ * - Answers cite transcript segments when segments are provided
+ * - Library chat: segments retrieved per question from many transcripts
+ * - Analyses, scorecards, annotations and documents attached as context
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import {
   getConversationByTranscript,
+  getConversationsByTranscript,
   saveConversation,
   updateConversation,
+  renameConversation as dbRenameConversation,
   deleteConversation as dbDeleteConversation,
 } from '@/lib/db';
-import type { ChatMessage, Conversation, ChatError } from '@/types/chat';
+import { getConversationTitle } from '@/types/chat';
+import type {
+  ChatContextSource,
+  ChatCorpus,
+  ChatMessage,
+  ChatResponse,
+  ChatSegment,
+  Conversation,
+  ChatError,
+} from '@/types/chat';
+import { validateChatCitations } from '@/lib/chat-citations';
+import { readSseEvents } from '@/lib/sse';
 import { createLogger } from '@/lib/logger';
 
 const log = createLogger('useChat');
@@ -95,6 +115,27 @@ function normalizeChatError(payload: unknown): ChatError {
   return { type: "unknown", message: "API request failed" };
 }
 
+/**
+ * Library chat context: the transcripts searched, and how to retrieve the
+ * segments for a question (see hooks/use-corpus-chat.ts). The retrieved
+ * segments are sent in place of a transcript.
+ */
+export interface ChatCorpusSource {
+  corpus: ChatCorpus;
+  retrieve: (query: string) => ChatSegment[];
+}
+
+/**
+ * Options for the useChat hook
+ */
+export interface UseChatOptions {
+  /** Library chat across many transcripts, in place of one */
+  corpus?: ChatCorpusSource;
+
+  /** Reference material sent with each question (see lib/chat-context.ts) */
+  context?: ChatContextSource[];
+}
+
 /**
  * Return type for the useChat hook
  */
@@ -105,6 +146,12 @@ export interface UseChatReturn {
   /** Whether a message is currently being sent/received */
   loading: boolean;
 
+  /**
+   * The answer received so far while it streams in, with its citation
+   * markers; empty until the first text arrives
+   */
+  streamingAnswer: string;
+
   /** Error message if the last operation failed */
   error: string | null;
 
@@ -114,31 +161,80 @@ export interface UseChatReturn {
   /** ID of the conversation (null if no conversation exists yet) */
   conversationId: string | null;
 
+  /** Every conversation about the transcript, most recently updated first */
+  conversations: Conversation[];
+
   /** Send a question and receive an answer */
   sendMessage: (question: string) => Promise<void>;
 
+  /** Stop the answer being generated; what has arrived is kept */
+  stop: () => void;
+
+  /** Ask the last question again, replacing its answer */
+  regenerate: () => Promise<void>;
+
+  /**
+   * Ask an edited version of one of the user's questions. The answer goes
+   * into a new conversation forked at that question; the original is kept.
+   */
+  editMessage: (messageId: string, question: string) => Promise<void>;
+
+  /** Show a conversation */
+  selectConversation: (conversationId: string) => void;
+
+  /** Start a new conversation; it is saved with its first question */
+  newConversation: () => void;
+
+  /** Rename a conversation */
+  renameConversation: (conversationId: string, title: string) => Promise<void>;
+
   /** Clear all messages in the conversation (soft reset) */
   clearConversation: () => Promise<void>;
 
-  /** Delete the conversation permanently */
-  deleteConversation: () => Promise<void>;
+  /** Delete a conversation permanently (the current one by default) */
+  deleteConversation: (conversationId?: string) => Promise<void>;
 
   /** Whether the conversation exists */
   hasConversation: boolean;
 }
 
 /**
- * Hook to manage chat conversation for a transcript
+ * A question being answered: the messages before it, shown until the
+ * conversation is saved
+ */
+interface PendingTurn {
+  base: ChatMessage[];
+  userMessage: ChatMessage;
+}
+
+/**
+ * Which conversation is shown: the most recent (undefined), a new one not
+ * yet saved (null), or a chosen one. Kept with the transcript it belongs
+ * to, so that another transcript starts from its most recent conversation.
+ */
+interface ConversationSelection {
+  transcriptId: string;
+  conversationId: string | null | undefined;
+}
+
+/**
+ * Hook to manage chat conversations for a transcript
  *
  * Handles:
- * - Loading existing conversation from IndexedDB
- * - Sending messages to stateless API endpoint
+ * - Loading the transcript's conversations from IndexedDB
+ * - Sending messages to stateless API endpoint, streaming the answer
+ * - Stopping, regenerating and editing (forking) answers
  * - Saving responses to IndexedDB
- * - Reactive updates when conversation changes
+ * - Reactive updates when conversations change
  * - Error handling and loading states
  *
- * @param transcriptId - ID of the transcript to chat about
- * @param transcriptText - Full text of the transcript (sent with each API call)
+ * @param transcriptId - ID of the transcript to chat about; with `corpus`,
+ *   the key its conversations are stored under
+ * @param transcriptText - Full text of the transcript (sent with each API call
+ *   when there are no segments)
+ * @param segments - Transcript segments; when given they are sent instead of
+ *   the text and answers cite them by id
+ * @param options - Library chat corpus, and context sent with questions
  * @returns Chat interface with messages, loading state, and actions
  *
  * @example
@@ -147,9 +243,10 @@ export interface UseChatReturn {
  *   const {
  *     messages,
  *     loading,
+ *     streamingAnswer,
  *     error,
  *     sendMessage,
- *     clearConversation,
+ *     stop,
  *   } = useChat(transcript.id, transcript.text);
  *
  *   return (
@@ -157,10 +254,10 @@ export interface UseChatReturn {
  *       {messages.map(msg => (
  *         <Message key={msg.id} message={msg} />
  *       ))}
- *       {loading && <Spinner />}
+ *       {loading && <Streaming text={streamingAnswer} />}
  *       {error && <ErrorAlert message={error} />}
  *       <ChatInput onSend={sendMessage} disabled={loading} />
- *       <Button onClick={clearConversation}>Clear History</Button>
+ *       {loading && <Button onClick={stop}>Stop</Button>}
  *     </div>
  *   );
  * }
@@ -168,21 +265,26 @@ export interface UseChatReturn {
  */
 export function useChat(
   transcriptId: string,
-  transcriptText: string
+  transcriptText: string,
+  segments?: ChatSegment[],
+  options: UseChatOptions = {}
 ): UseChatReturn {
+  const { corpus, context } = options;
+
   // Local state for loading, errors, and database errors
   const [loading, setLoading] = useState(false);
+  const [streamingAnswer, setStreamingAnswer] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [dbError, setDbError] = useState<Error | null>(null);
 
-  // Load conversation from IndexedDB with reactive updates and explicit error tracking
-  const conversation = useLiveQuery(
+  // Load conversations from IndexedDB with reactive updates and explicit error tracking
+  const conversations = useLiveQuery(
     async () => {
       try {
         setDbError(null);
-        return await getConversationByTranscript(transcriptId);
+        return await getConversationsByTranscript(transcriptId);
       } catch (error) {
-        log.error('Error loading conversation', {
+        log.error('Error loading conversations', {
           message: error instanceof Error ? error.message : String(error),
         });
         setDbError(error instanceof Error ? error : new Error(String(error)));
@@ -193,12 +295,24 @@ export function useChat(
     undefined // Default value while loading
   );
 
-  // Optimistic UI: store pending user message to show immediately
-  const [pendingUserMessage, setPendingUserMessage] = useState<ChatMessage | null>(null);
+  const [selection, setSelection] = useState<ConversationSelection>({
+    transcriptId,
+    conversationId: undefined,
+  });
+  const selectedId = selection.transcriptId === transcriptId ? selection.conversationId : undefined;
+  const conversation = selectedId === undefined
+    ? conversations?.[0]
+    : conversations?.find((c) => c.id === selectedId);
+
+  // Optimistic UI: the question being answered, shown immediately
+  const [pendingTurn, setPendingTurn] = useState<PendingTurn | null>(null);
 
   // Ref to track if we're currently processing a message (prevents duplicate sends)
   const processingRef = useRef(false);
 
+  // Aborts the request being answered when the user stops it
+  const abortRef = useRef<AbortController | null>(null);
+
   // Clear error when conversation changes (e.g., after successful send)
   useEffect(() => {
     if (conversation && error) {
@@ -207,15 +321,20 @@ export function useChat(
   }, [conversation, error]);
 
   /**
-   * Send a message and receive a response
+   * Ask a question after `base` and save the answer
    *
    * Flow:
-   * 1. Add user message to local state
-   * 2. Call stateless API endpoint
-   * 3. Add assistant response to messages
-   * 4. Save updated conversation to IndexedDB
+   * 1. Show the question with the messages before it
+   * 2. Call stateless API endpoint, streaming the answer
+   * 3. Save base, question and answer to IndexedDB: into the current
+   *    conversation, or a new one (forked from the current one when
+   *    `forkedFrom` is given)
    */
-  const sendMessage = useCallback(async (question: string) => {
+  const ask = useCallback(async (
+    question: string,
+    base: ChatMessage[],
+    forkedFrom?: Conversation['forkedFrom']
+  ) => {
     // Prevent duplicate sends
     if (processingRef.current) {
       log.warn('Already processing a message, ignoring duplicate send');
@@ -230,6 +349,7 @@ export function useChat(
 
     processingRef.current = true;
     setLoading(true);
+    setStreamingAnswer('');
     setError(null);
 
     // Create user message
@@ -241,34 +361,84 @@ export function useChat(
     };
 
     // Show user message immediately (optimistic UI)
-    setPendingUserMessage(userMessage);
+    setPendingTurn({ base, userMessage });
+
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+
+    // Saves the finished (or stopped) turn
+    const saveTurn = async (assistantMessage: ChatMessage) => {
+      const updatedMessages = [...base, userMessage, assistantMessage];
+
+      log.debug('Saving conversation to IndexedDB', {
+        messageCount: updatedMessages.length,
+        hasExistingConversation: !!conversation,
+        forked: !!forkedFrom,
+      });
+
+      if (conversation && !forkedFrom) {
+        await updateConversation(conversation.id, updatedMessages);
+      } else {
+        const newConversation: Conversation = {
+          id: crypto.randomUUID(),
+          transcriptId,
+          ...(conversation && forkedFrom
+            ? { title: `${getConversationTitle(conversation)} (edit)`, forkedFrom }
+            : {}),
+          messages: updatedMessages,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+        await saveConversation(newConversation);
+        setSelection({ transcriptId, conversationId: newConversation.id });
+      }
+    };
+
+    let sentSegments: ChatSegment[] | undefined;
+    let answerSoFar = '';
 
     try {
       // Truncate conversation history for API payload to prevent token limit errors
       // Full history remains in IndexedDB for display; only API payload is truncated
-      const fullHistory = conversation?.messages || [];
-      const truncatedHistory = fullHistory.slice(-MAX_HISTORY_MESSAGES);
+      const truncatedHistory = base.slice(-MAX_HISTORY_MESSAGES);
 
       log.debug('Sending message', {
         transcriptId,
         questionLength: question.length,
-        conversationMessageCount: fullHistory.length,
+        conversationMessageCount: base.length,
         truncatedMessageCount: truncatedHistory.length,
-        wasTruncated: fullHistory.length > MAX_HISTORY_MESSAGES,
+        wasTruncated: base.length > MAX_HISTORY_MESSAGES,
       });
 
-      // Call API with truncated history
+      // Library chat searches with the previous question too, so follow-ups
+      // ("what about Engine 5?") keep their subject
+      let request: Record<string, unknown>;
+      if (corpus) {
+        const previousQuestion = [...base].reverse().find((msg) => msg.role === 'user');
+        const query = previousQuestion ? `${question} ${previousQuestion.content}` : question;
+        sentSegments = corpus.retrieve(query);
+        request = { corpus: corpus.corpus, segments: sentSegments };
+      } else if (segments && segments.length > 0) {
+        sentSegments = segments;
+        request = { transcriptId, segments };
+      } else {
+        request = { transcriptId, transcriptText };
+      }
+
+      // Call API with truncated history, asking for the answer as a stream
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
         },
         body: JSON.stringify({
-          transcriptId,
-          transcriptText,
+          ...request,
+          ...(context && context.length > 0 ? { context } : {}),
           question: question.trim(),
           conversationHistory: truncatedHistory,
         }),
+        signal: abortController.signal,
       });
 
       // Handle error responses
@@ -291,7 +461,9 @@ export function useChat(
         // Provide user-friendly error messages
         if (chatError.type === 'token_limit') {
           throw new Error(
-            'The conversation is too long. Try clearing the conversation history to continue.'
+            context && context.length > 0
+              ? 'The attached context and conversation are too long. Try detaching some context or clearing the conversation history.'
+              : 'The conversation is too long. Try clearing the conversation history to continue.'
           );
         } else if (chatError.type === 'validation') {
           throw new Error('Invalid request. Please try again.');
@@ -304,65 +476,132 @@ export function useChat(
         }
       }
 
-      // Parse success response
-      const { data } = await response.json();
+      // Read the streamed answer, or the whole JSON response
+      let data: ChatResponse | undefined;
+      if (response.headers.get('content-type')?.includes('text/event-stream')) {
+        let streamError: string | undefined;
+        await readSseEvents(response, ({ event, data: eventData }) => {
+          if (event === 'delta') {
+            answerSoFar += (eventData as { text: string }).text;
+            setStreamingAnswer(answerSoFar);
+          } else if (event === 'done') {
+            data = eventData as ChatResponse;
+          } else if (event === 'error') {
+            streamError = (eventData as { message?: string }).message;
+          }
+        });
+        if (streamError) {
+          throw new Error(streamError);
+        }
+      } else {
+        data = (await response.json()).data;
+      }
 
       if (!data?.answer) {
         throw new Error('Received invalid response from server');
       }
 
       // Create assistant message with model info
-      const assistantMessage: ChatMessage = {
+      await saveTurn({
         id: crypto.randomUUID(),
         role: 'assistant',
         content: data.answer,
         timestamp: new Date(),
         model: data.model, // Include model name from API response
-      };
-
-      // Update messages array
-      const updatedMessages = [
-        ...(conversation?.messages || []),
-        userMessage,
-        assistantMessage,
-      ];
-
-      log.debug('Message sent successfully, saving to IndexedDB', {
-        messageCount: updatedMessages.length,
-        hasExistingConversation: !!conversation,
-        model: data.model,
+        ...(data.citations?.length ? { citations: data.citations } : {}),
       });
 
-      // Save to IndexedDB
-      if (conversation) {
-        // Update existing conversation
-        await updateConversation(conversation.id, updatedMessages);
+      // Clear pending turn now that it's saved to DB
+      setPendingTurn(null);
+      log.debug('Conversation saved successfully');
+    } catch (err) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep what had arrived, citing only segments that were sent
+        log.debug('Answer stopped', { answerLength: answerSoFar.length });
+        try {
+          if (answerSoFar.trim()) {
+            const { answer, citations } = sentSegments
+              ? validateChatCitations(answerSoFar, sentSegments)
+              : { answer: answerSoFar, citations: undefined };
+            await saveTurn({
+              id: crypto.randomUUID(),
+              role: 'assistant',
+              content: answer,
+              timestamp: new Date(),
+              stopped: true,
+              ...(citations?.length ? { citations } : {}),
+            });
+          }
+          setPendingTurn(null);
+        } catch (saveErr) {
+          setError(saveErr instanceof Error ? saveErr.message : 'Failed to save conversation');
+        }
       } else {
-        // Create new conversation
-        const newConversation: Conversation = {
-          id: crypto.randomUUID(),
-          transcriptId,
-          messages: updatedMessages,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-        await saveConversation(newConversation);
+        log.error('Error sending message', {
+          message: err instanceof Error ? err.message : String(err),
+        });
+        setError(err instanceof Error ? err.message : 'Failed to send message');
+        // Keep pending message visible on error so user can see what they sent
       }
+    } finally {
+      abortRef.current = null;
+      setStreamingAnswer('');
+      setLoading(false);
+      processingRef.current = false;
+    }
+  }, [transcriptId, transcriptText, segments, corpus, context, conversation]);
 
-      // Clear pending message now that it's saved to DB
-      setPendingUserMessage(null);
-      log.debug('Conversation saved successfully');
+  const sendMessage = useCallback(
+    (question: string) => ask(question, conversation?.messages || []),
+    [ask, conversation]
+  );
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const regenerate = useCallback(async () => {
+    const messages = conversation?.messages || [];
+    const lastQuestionIndex = messages.map((msg) => msg.role).lastIndexOf('user');
+    if (lastQuestionIndex === -1) {
+      log.warn('No question to regenerate');
+      return;
+    }
+    await ask(messages[lastQuestionIndex].content, messages.slice(0, lastQuestionIndex));
+  }, [ask, conversation]);
+
+  const editMessage = useCallback(async (messageId: string, question: string) => {
+    const messages = conversation?.messages || [];
+    const index = messages.findIndex((msg) => msg.id === messageId && msg.role === 'user');
+    if (!conversation || index === -1) {
+      log.warn('No question to edit', { messageId });
+      return;
+    }
+    await ask(question, messages.slice(0, index), { conversationId: conversation.id, messageId });
+  }, [ask, conversation]);
+
+  const selectConversation = useCallback((conversationId: string) => {
+    setSelection({ transcriptId, conversationId });
+    setPendingTurn(null);
+    setError(null);
+  }, [transcriptId]);
+
+  const newConversation = useCallback(() => {
+    setSelection({ transcriptId, conversationId: null });
+    setPendingTurn(null);
+    setError(null);
+  }, [transcriptId]);
+
+  const renameConversation = useCallback(async (conversationId: string, title: string) => {
+    try {
+      await dbRenameConversation(conversationId, title.trim());
     } catch (err) {
-      log.error('Error sending message', {
+      log.error('Error renaming conversation', {
         message: err instanceof Error ? err.message : String(err),
       });
-      setError(err instanceof Error ? err.message : 'Failed to send message');
-      // Keep pending message visible on error so user can see what they sent
-    } finally {
-      setLoading(false);
-      processingRef.current = false;
+      setError(err instanceof Error ? err.message : 'Failed to rename conversation');
     }
-  }, [transcriptId, transcriptText, conversation]);
+  }, []);
 
   /**
    * Clear all messages from the conversation (soft reset)
@@ -379,7 +618,7 @@ export function useChat(
     try {
       log.debug('Clearing conversation', { conversationId: conversation.id });
       await updateConversation(conversation.id, []);
-      setPendingUserMessage(null); // Clear any pending message too
+      setPendingTurn(null); // Clear any pending message too
       setError(null);
     } catch (err) {
       log.error('Error clearing conversation', {
@@ -390,20 +629,24 @@ export function useChat(
   }, [conversation]);
 
   /**
-   * Delete the conversation permanently
+   * Delete a conversation permanently
    *
-   * Removes the conversation from IndexedDB entirely.
-   * A new conversation will be created on the next message.
+   * Removes the conversation from IndexedDB entirely. Deleting the one
+   * shown switches to the most recent remaining conversation.
    */
-  const deleteConversation = useCallback(async () => {
-    if (!conversation) {
+  const deleteConversation = useCallback(async (conversationId?: string) => {
+    const id = conversationId ?? conversation?.id;
+    if (!id) {
       log.warn('No conversation to delete');
       return;
     }
 
     try {
-      log.debug('Deleting conversation', { conversationId: conversation.id });
-      await dbDeleteConversation(conversation.id);
+      log.debug('Deleting conversation', { conversationId: id });
+      await dbDeleteConversation(id);
+      if (id === conversation?.id) {
+        setSelection({ transcriptId, conversationId: undefined });
+      }
       setError(null);
     } catch (err) {
       log.error('Error deleting conversation', {
@@ -411,23 +654,31 @@ export function useChat(
       });
       setError(err instanceof Error ? err.message : 'Failed to delete conversation');
     }
-  }, [conversation]);
+  }, [conversation, transcriptId]);
 
-  // Compute displayed messages: DB messages + pending user message (optimistic UI)
-  // Only add pending message if it's not already in DB (prevents duplicate key error during race condition)
+  // Compute displayed messages: DB messages, or the pending turn until it is saved
+  // (checking the DB for the question prevents duplicate keys during the race)
   const dbMessages = conversation?.messages || [];
-  const pendingNotInDb = pendingUserMessage && !dbMessages.some(m => m.id === pendingUserMessage.id);
+  const pendingNotInDb = pendingTurn && !dbMessages.some(m => m.id === pendingTurn.userMessage.id);
   const displayedMessages = pendingNotInDb
-    ? [...dbMessages, pendingUserMessage]
+    ? [...pendingTurn.base, pendingTurn.userMessage]
     : dbMessages;
 
   return {
     messages: displayedMessages,
     loading,
+    streamingAnswer,
     error,
     dbError,
     conversationId: conversation?.id || null,
+    conversations: conversations || [],
     sendMessage,
+    stop,
+    regenerate,
+    editMessage,
+    selectConversation,
+    newConversation,
+    renameConversation,
     clearConversation,
     deleteConversation,
     hasConversation: !!conversation,
@@ -0,0 +1,194 @@
+/**
+ * Library chat scope
+ *
+ * Loads the transcripts a library chat searches (the whole library over a
+ * period, or one incident's channels) from IndexedDB, indexes their segments
+ * in the browser (lib/corpus-search.ts) and supplies useChat() with the
+ * segments retrieved for each question.
+ *
+ * Transcripts are indexed as they would be sent to the AI: with the
+ * reviewer's speaker names, and redacted when that preference is on.
+ */
+
+import { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { getAllIncidents, getAllTranscripts, getIncident, getTranscript } from '@/lib/db';
+import {
+  buildCorpusIndex,
+  corpusHitsToChatSegments,
+  searchCorpus,
+  type CorpusTranscript,
+} from '@/lib/corpus-search';
+import { applySpeakerMap } from '@/lib/speaker-map';
+import { transcriptForAiRequest } from '@/lib/redaction';
+import { formatDate } from '@/lib/utils/format';
+import { createLogger } from '@/lib/logger';
+import type { ChatCorpusSource } from '@/hooks/use-chat';
+import type { Incident } from '@/types/incident';
+import type { Transcript } from '@/types/transcript';
+
+const log = createLogger('useCorpusChat');
+
+/** How far back a library chat searches */
+export type CorpusPeriod = 'all' | 'last30' | 'quarter' | 'year';
+
+export const CORPUS_PERIOD_LABELS: Record<CorpusPeriod, string> = {
+  all: 'All time',
+  last30: 'Last 30 days',
+  quarter: 'This quarter',
+  year: 'This year',
+};
+
+/** What a library chat searches */
+export type CorpusScope =
+  | { type: 'library'; period: CorpusPeriod }
+  | { type: 'incident'; incidentId: string };
+
+/**
+ * Key the scope's conversation is stored under, in place of a transcript ID.
+ */
+export function corpusConversationKey(scope: CorpusScope): string {
+  return scope.type === 'incident'
+    ? `corpus:incident:${scope.incidentId}`
+    : `corpus:library:${scope.period}`;
+}
+
+/**
+ * Start of a period, or undefined for all time.
+ */
+function periodStart(period: CorpusPeriod, now: Date): Date | undefined {
+  switch (period) {
+    case 'last30':
+      return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+    case 'quarter':
+      return new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1);
+    case 'year':
+      return new Date(now.getFullYear(), 0, 1);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Transcripts to search, labelled with their incident and channel where
+ * they have one, dated by the incident (or the transcript when there isn't
+ * one) and filtered to the period.
+ */
+function toCorpusTranscripts(
+  transcripts: Transcript[],
+  incidents: Incident[],
+  period: CorpusPeriod
+): CorpusTranscript[] {
+  const since = periodStart(period, new Date());
+  const incidentByTranscript = new Map<string, Incident>();
+  for (const incident of incidents) {
+    for (const transcriptId of incident.transcriptIds) {
+      incidentByTranscript.set(transcriptId, incident);
+    }
+  }
+
+  return transcripts.flatMap((stored) => {
+    const incident = incidentByTranscript.get(stored.id);
+    const date = incident?.occurredAt ?? stored.createdAt;
+    if (since && date < since) {
+      return [];
+    }
+
+    const channel = incident?.channels.find((c) => c.transcriptId === stored.id);
+    const name = incident
+      ? `${incident.name}${channel ? ` · ${channel.label}` : ''}`
+      : stored.filename;
+    const transcript = transcriptForAiRequest(applySpeakerMap(stored));
+
+    return [
+      {
+        id: stored.id,
+        label: `${name} (${formatDate(date)})`,
+        segments: transcript.segments ?? [],
+      },
+    ];
+  });
+}
+
+/**
+ * Return type for the useCorpusChat hook
+ */
+export interface UseCorpusChatReturn {
+  /** Context for useChat(); undefined while loading */
+  source: ChatCorpusSource | undefined;
+
+  /** Number of transcripts searched */
+  transcriptCount: number;
+
+  /** What is searched, e.g. "All transcripts, this quarter" */
+  label: string;
+
+  isLoading: boolean;
+}
+
+/**
+ * Hook to index the transcripts in a library chat scope
+ *
+ * @param scope - The library over a period, or one incident
+ * @returns Context for useChat() and a description of the scope
+ */
+export function useCorpusChat(scope: CorpusScope): UseCorpusChatReturn {
+  const incidentId = scope.type === 'incident' ? scope.incidentId : undefined;
+  const period = scope.type === 'library' ? scope.period : 'all';
+
+  const loaded = useLiveQuery(
+    async () => {
+      try {
+        if (incidentId) {
+          const incident = await getIncident(incidentId);
+          if (!incident) return { transcripts: [], incidents: [] };
+          const transcripts = await Promise.all(incident.transcriptIds.map((id) => getTranscript(id)));
+          return {
+            transcripts: transcripts.filter((t): t is Transcript => !!t),
+            incidents: [incident],
+          };
+        }
+
+        const [transcripts, incidents] = await Promise.all([getAllTranscripts(), getAllIncidents()]);
+        return { transcripts, incidents };
+      } catch (error) {
+        log.error('Error loading transcripts', {
+          message: error instanceof Error ? error.message : String(error),
+        });
+        return { transcripts: [], incidents: [] };
+      }
+    },
+    [incidentId]
+  );
+
+  const corpusTranscripts = useMemo(
+    () => (loaded ? toCorpusTranscripts(loaded.transcripts, loaded.incidents, period) : []),
+    [loaded, period]
+  );
+
+  const label = incidentId
+    ? `Incident: ${loaded?.incidents[0]?.name ?? 'unknown'}`
+    : `All transcripts, ${CORPUS_PERIOD_LABELS[period].toLowerCase()}`;
+
+  const source = useMemo<ChatCorpusSource | undefined>(() => {
+    if (!loaded) return undefined;
+
+    const index = buildCorpusIndex(corpusTranscripts);
+    log.debug('Indexed transcripts', {
+      transcripts: corpusTranscripts.length,
+      segments: index.documents.length,
+    });
+
+    return {
+      corpus: { label, transcripts: corpusTranscripts.map((t) => t.label) },
+      retrieve: (query) => corpusHitsToChatSegments(searchCorpus(index, query)),
+    };
+  }, [loaded, corpusTranscripts, label]);
+
+  return {
+    source,
+    transcriptCount: corpusTranscripts.length,
+    label,
+    isLoading: loaded === undefined,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Custom hooks for encryption at rest
+ * Tracks whether the workspace is encrypted and locked, and locks it when idle
+ */
+
+import { useEffect, useSyncExternalStore } from "react";
+import {
+  getEncryptionStatus,
+  loadEncryptionStatus,
+  lockEncryption,
+  subscribeEncryptionStatus,
+  type EncryptionStatus,
+} from "@/lib/db";
+import { getAutoLockMinutesPreference } from "@/lib/storage";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("useEncryption");
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+/**
+ * Hook returning the encryption status, or null while it is being read
+ */
+export function useEncryptionStatus(): EncryptionStatus | null {
+  const status = useSyncExternalStore(
+    subscribeEncryptionStatus,
+    getEncryptionStatus,
+    () => null,
+  );
+
+  useEffect(() => {
+    loadEncryptionStatus().catch((error) => {
+      log.error("Error loading encryption status", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }, []);
+
+  return status;
+}
+
+/**
+ * Hook that locks an unlocked workspace after the auto-lock preference's
+ * minutes without user activity
+ */
+export function useAutoLock(status: EncryptionStatus | null): void {
+  useEffect(() => {
+    if (status !== "unlocked") return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const arm = () => {
+      clearTimeout(timer);
+      // Read on every arm so a changed preference applies right away
+      const minutes = getAutoLockMinutesPreference();
+      if (minutes > 0) {
+        timer = setTimeout(lockEncryption, minutes * 60_000);
+      }
+    };
+
+    arm();
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, arm, { passive: true }),
+    );
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, arm));
+    };
+  }, [status]);
+}
@@ -14,6 +14,7 @@
 import React, { useState, useCallback, useRef } from 'react';
 import { validateFileUpload, type FileUpload } from '@/lib/validations';
 import { getFileProcessingStrategy, processAudioForTranscription } from '@/lib/audio-processing';
+import { shiftWords } from '@/lib/word-timing';
 import type {
   TranscriptionProgress,
   Transcript,
@@ -78,6 +79,8 @@ export interface UploadOptions {
   model?: string;
   /** Enable speaker diarization (default: true) */
   enableSpeakerDetection?: boolean;
+  /** Vocabulary prompt for the transcription model (see buildTranscriptionPrompt) */
+  prompt?: string;
   /** Callback for progress updates */
   onProgress?: (progress: TranscriptionProgress) => void;
 }
@@ -133,6 +136,7 @@ function mergeTranscriptParts(parts: TranscriptApiResponse[]): TranscriptApiResp
         index: nextIndex++,
         start: segment.start + cumulativeDuration,
         end: segment.end + cumulativeDuration,
+        ...(segment.words && { words: shiftWords(segment.words, cumulativeDuration) }),
       });
     }
 
@@ -650,6 +654,10 @@ export function useFileUpload(): UseFileUploadReturn {
             formData.append('enableSpeakerDetection', String(options.enableSpeakerDetection));
           }
 
+          if (options?.prompt) {
+            formData.append('prompt', options.prompt);
+          }
+
           if (isMultiPart) {
             formData.append('partIndex', String(index));
             formData.append('totalParts', String(totalParts));
@@ -0,0 +1,86 @@
+/**
+ * Custom hook for fetching and managing glossary terms
+ * Provides live updates when terms change in IndexedDB
+ */
+
+import { useLiveQuery } from "dexie-react-hooks";
+import { useCallback, useState } from "react";
+import {
+  createGlossaryTerms as dbCreateGlossaryTerms,
+  updateGlossaryTerm as dbUpdateGlossaryTerm,
+  deleteGlossaryTerm as dbDeleteGlossaryTerm,
+  getAllGlossaryTerms,
+} from "@/lib/db";
+import type { GlossaryTermInput } from "@/types/glossary";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("useGlossary");
+
+/**
+ * Hook to fetch all glossary terms with live updates
+ */
+export function useGlossary() {
+  const [isDeleting, setIsDeleting] = useState<string | null>(null);
+
+  const terms = useLiveQuery(
+    async () => {
+      try {
+        return await getAllGlossaryTerms();
+      } catch (error) {
+        log.error("Error fetching glossary", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+    [],
+  );
+
+  const createTerms = useCallback(async (inputs: GlossaryTermInput[]) => {
+    try {
+      return await dbCreateGlossaryTerms(inputs);
+    } catch (error) {
+      log.error("Error creating glossary terms", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }, []);
+
+  const updateTerm = useCallback(
+    async (id: string, input: GlossaryTermInput) => {
+      try {
+        return await dbUpdateGlossaryTerm(id, input);
+      } catch (error) {
+        log.error("Error updating glossary term", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+    [],
+  );
+
+  const deleteTerm = useCallback(async (id: string) => {
+    try {
+      setIsDeleting(id);
+      await dbDeleteGlossaryTerm(id);
+    } catch (error) {
+      log.error("Error deleting glossary term", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      setIsDeleting(null);
+    }
+  }, []);
+
+  return {
+    terms: terms || [],
+    isLoading: terms === undefined,
+    isDeleting,
+    createTerms,
+    updateTerm,
+    deleteTerm,
+  };
+}
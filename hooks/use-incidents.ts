@@ -0,0 +1,184 @@
+/**
+ * Custom hooks for fetching and managing incidents
+ * Provides live updates when incidents or their member records change in IndexedDB
+ */
+
+import { useLiveQuery } from "dexie-react-hooks";
+import { useCallback, useState } from "react";
+import {
+  createIncident as dbCreateIncident,
+  updateIncident as dbUpdateIncident,
+  deleteIncident as dbDeleteIncident,
+  getAllIncidents,
+  getIncident,
+  getIncidentByTranscript,
+  getTranscript,
+  getAnnotationsByTranscript,
+  getSupplementalDocumentsByTranscript,
+  getRtassScorecardsByIncident,
+} from "@/lib/db";
+import type { Incident, IncidentInput } from "@/types/incident";
+import type { Transcript } from "@/types/transcript";
+import type { TranscriptAnnotation } from "@/types/annotation";
+import type { PersistedSupplementalDocument } from "@/types/supplemental";
+import type { RtassScorecard } from "@/types/rtass";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("useIncidents");
+
+/**
+ * Records attached to an incident through its member transcripts.
+ */
+export interface IncidentDetails {
+  incident: Incident;
+  transcripts: Transcript[];
+  annotations: TranscriptAnnotation[];
+  documents: PersistedSupplementalDocument[];
+  scorecards: RtassScorecard[];
+}
+
+/**
+ * Hook to fetch all incidents with live updates
+ */
+export function useIncidents() {
+  const [isDeleting, setIsDeleting] = useState<string | null>(null);
+
+  const incidents = useLiveQuery(
+    async () => {
+      try {
+        return await getAllIncidents();
+      } catch (error) {
+        log.error("Error fetching incidents", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+    [],
+  );
+
+  const createIncident = useCallback(async (input: IncidentInput) => {
+    try {
+      return await dbCreateIncident(input);
+    } catch (error) {
+      log.error("Error creating incident", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }, []);
+
+  const updateIncident = useCallback(
+    async (id: string, input: IncidentInput) => {
+      try {
+        return await dbUpdateIncident(id, input);
+      } catch (error) {
+        log.error("Error updating incident", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+    [],
+  );
+
+  const deleteIncident = useCallback(async (id: string) => {
+    try {
+      setIsDeleting(id);
+      await dbDeleteIncident(id);
+    } catch (error) {
+      log.error("Error deleting incident", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      setIsDeleting(null);
+    }
+  }, []);
+
+  return {
+    incidents: incidents || [],
+    isLoading: incidents === undefined,
+    isDeleting,
+    createIncident,
+    updateIncident,
+    deleteIncident,
+  };
+}
+
+/**
+ * Hook to fetch a single incident together with the transcripts, annotations,
+ * supplemental documents and scorecards of its channels.
+ *
+ * @returns `details` is undefined while loading and null when not found
+ */
+export function useIncidentDetails(id: string | null) {
+  const details = useLiveQuery<IncidentDetails | null | undefined>(
+    async () => {
+      if (!id) return null;
+      try {
+        const incident = await getIncident(id);
+        if (!incident) return null;
+
+        const [transcripts, annotations, documents, scorecards] =
+          await Promise.all([
+            Promise.all(incident.transcriptIds.map((t) => getTranscript(t))),
+            Promise.all(
+              incident.transcriptIds.map((t) => getAnnotationsByTranscript(t)),
+            ),
+            Promise.all(
+              incident.transcriptIds.map((t) =>
+                getSupplementalDocumentsByTranscript(t),
+              ),
+            ),
+            getRtassScorecardsByIncident(incident.id),
+          ]);
+
+        return {
+          incident,
+          transcripts: transcripts.filter((t): t is Transcript => !!t),
+          annotations: annotations.flat(),
+          documents: documents.flat(),
+          scorecards,
+        };
+      } catch (error) {
+        log.error("Error fetching incident", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+    [id],
+  );
+
+  return {
+    details: details ?? undefined,
+    isLoading: details === undefined,
+    notFound: details === null,
+  };
+}
+
+/**
+ * Hook to fetch the incident a transcript belongs to (if any)
+ */
+export function useTranscriptIncident(transcriptId: string | null) {
+  const incident = useLiveQuery(
+    async () => {
+      if (!transcriptId) return null;
+      try {
+        return (await getIncidentByTranscript(transcriptId)) ?? null;
+      } catch (error) {
+        log.error("Error fetching incident for transcript", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      }
+    },
+    [transcriptId],
+  );
+
+  return {
+    incident: incident ?? null,
+    isLoading: incident === undefined,
+  };
+}
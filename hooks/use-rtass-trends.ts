@@ -0,0 +1,58 @@
+/**
+ * Hook for the RTASS trend dashboard
+ * Loads every saved scorecard with its incident context, with live updates
+ */
+
+import { useLiveQuery } from "dexie-react-hooks";
+import {
+  getAllIncidents,
+  getAllRtassScorecards,
+  getTranscriptDepartments,
+  getVisinetDocuments,
+} from "@/lib/db";
+import { createLogger } from "@/lib/logger";
+import {
+  buildTrendRecords,
+  latestScorecards,
+  type RtassTrendRecord,
+} from "@/lib/rtass-trends";
+
+const log = createLogger("useRtassTrends");
+
+/**
+ * Hook to fetch the latest scorecard per transcript and rubric, annotated
+ * with department, battalion and incident time
+ */
+export function useRtassTrendRecords() {
+  const records = useLiveQuery<RtassTrendRecord[]>(
+    async () => {
+      try {
+        const scorecards = latestScorecards(await getAllRtassScorecards());
+        const [incidents, departments, visinetDocuments] = await Promise.all([
+          getAllIncidents(),
+          getTranscriptDepartments(
+            Array.from(new Set(scorecards.map((s) => s.transcriptId))),
+          ),
+          getVisinetDocuments(),
+        ]);
+        return buildTrendRecords({
+          scorecards,
+          incidents,
+          departments,
+          visinetDocuments,
+        });
+      } catch (error) {
+        log.error("Error fetching RTASS trend records", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+    [],
+  );
+
+  return {
+    records: records ?? [],
+    isLoading: records === undefined,
+  };
+}
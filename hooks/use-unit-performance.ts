@@ -0,0 +1,68 @@
+/**
+ * Hook for the unit performance view
+ * Attributes scorecard and analysis outcomes to units, with live updates
+ */
+
+import { useLiveQuery } from "dexie-react-hooks";
+import {
+  getAllAnalyses,
+  getAllIncidents,
+  getAllRtassScorecards,
+  getVisinetDocuments,
+} from "@/lib/db";
+import { createLogger } from "@/lib/logger";
+import {
+  createIncidentContextResolver,
+  latestScorecards,
+} from "@/lib/rtass-trends";
+import {
+  collectUnitActivity,
+  latestFiregroundAnalyses,
+  type UnitActivity,
+} from "@/lib/unit-attribution";
+
+const log = createLogger("useUnitPerformance");
+
+/**
+ * Hook to fetch every outcome attributed to a unit, from the latest
+ * scorecard per transcript and rubric and the latest fireground analysis
+ * per transcript
+ */
+export function useUnitActivity() {
+  const activities = useLiveQuery<UnitActivity[]>(
+    async () => {
+      try {
+        const [allScorecards, allAnalyses, incidents, visinetDocuments] =
+          await Promise.all([
+            getAllRtassScorecards(),
+            getAllAnalyses(),
+            getAllIncidents(),
+            getVisinetDocuments(),
+          ]);
+        const scorecards = latestScorecards(allScorecards);
+        const analyses = latestFiregroundAnalyses(allAnalyses);
+
+        return collectUnitActivity({
+          scorecards,
+          analyses,
+          resolveContext: createIncidentContextResolver({
+            incidents,
+            departments: new Map(),
+            visinetDocuments,
+          }),
+        });
+      } catch (error) {
+        log.error("Error fetching unit activity", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+    [],
+  );
+
+  return {
+    activities: activities ?? [],
+    isLoading: activities === undefined,
+  };
+}
@@ -0,0 +1,149 @@
+import {
+  ANALYSIS_JOB_TTL_MS,
+  deleteAnalysisJob,
+  getAnalysisJob,
+  resetAnalysisJobs,
+  startAnalysisJob,
+  subscribeAnalysisJob,
+  type AnalysisJobReporter,
+} from '@/lib/analysis-jobs';
+import type { Analysis, AnalysisResults } from '@/types/analysis';
+import type { Template } from '@/types/template';
+
+const template = {
+  id: 'tpl',
+  name: 'Incident Review',
+  sections: ['Summary', 'Key Points', 'Action Items'].map((name, i) => ({
+    id: `s${i}`,
+    name,
+    prompt: name,
+    extractEvidence: false,
+    outputFormat: 'paragraph',
+  })),
+  outputs: [],
+} as unknown as Template;
+
+const analysis = {
+  id: 'a1',
+  transcriptId: 't1',
+  templateId: 'tpl',
+  analysisStrategy: 'hybrid',
+  results: { sections: [] },
+  createdAt: new Date('2026-01-20T10:05:00Z'),
+} as unknown as Analysis;
+
+function startControlledJob() {
+  let reporter!: AnalysisJobReporter;
+  let signal!: AbortSignal;
+  let finish!: (value: Analysis) => void;
+  let fail!: (error: Error) => void;
+
+  const job = startAnalysisJob(
+    { transcriptId: 't1', templateId: 'tpl', template, runEvaluation: true },
+    (jobReporter, jobSignal) => {
+      reporter = jobReporter;
+      signal = jobSignal;
+      return new Promise<Analysis>((resolve, reject) => {
+        finish = resolve;
+        fail = reject;
+      });
+    }
+  );
+
+  return { job, reporter, signal, finish, fail };
+}
+
+describe('analysis jobs', () => {
+  afterEach(() => {
+    resetAnalysisJobs();
+  });
+
+  it('checkpoints each phase with partial results and holds the finished analysis', async () => {
+    const { job, reporter, finish } = startControlledJob();
+    const partial: Partial<AnalysisResults> = {
+      sections: [{ name: 'Summary', content: 'Crews arrived at 10:02.', evidence: [] }],
+    };
+
+    reporter.startStrategy('hybrid');
+    reporter.checkpoint(2, 3, partial);
+    partial.sections!.push({ name: 'Key Points', content: 'Changed after the checkpoint', evidence: [] });
+
+    expect(getAnalysisJob(job.id)).toMatchObject({
+      status: 'running',
+      strategy: 'hybrid',
+      progress: 27,
+      currentPhase: { id: 'batch2', name: 'Discussion Batch' },
+      completedPhases: ['batch1'],
+    });
+    expect(getAnalysisJob(job.id)?.partialResults?.sections).toHaveLength(1);
+
+    reporter.startEvaluation({ sections: [] });
+    expect(getAnalysisJob(job.id)?.currentPhase?.id).toBe('evaluation');
+    expect(getAnalysisJob(job.id)?.completedPhases).toEqual(['batch1', 'batch2', 'batch3']);
+
+    finish(analysis);
+    await Promise.resolve();
+    await Promise.resolve();
+
+    const completed = getAnalysisJob(job.id);
+    expect(completed).toMatchObject({
+      status: 'completed',
+      analysis,
+      progress: 85,
+      currentPhase: { id: 'saving' },
+      completedPhases: ['batch1', 'batch2', 'batch3', 'evaluation'],
+    });
+    expect(completed?.partialResults).toBeUndefined();
+    expect(completed!.expiresAt! - completed!.updatedAt).toBe(ANALYSIS_JOB_TTL_MS);
+  });
+
+  it('records failures and drops the result of a discarded job', async () => {
+    const failing = startControlledJob();
+    failing.fail(new Error('Rate limit exceeded'));
+
+    const discarded = startControlledJob();
+    expect(deleteAnalysisJob(discarded.job.id)).toBe(true);
+    discarded.reporter.startStrategy('basic');
+    discarded.finish(analysis);
+
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(getAnalysisJob(failing.job.id)).toMatchObject({
+      status: 'failed',
+      error: 'Rate limit exceeded',
+    });
+    expect(getAnalysisJob(discarded.job.id)).toBeUndefined();
+  });
+
+  it('notifies subscribers of checkpoints and aborts the run when discarded', () => {
+    const { job, reporter, signal } = startControlledJob();
+    const updates: Array<string | undefined> = [];
+    subscribeAnalysisJob(job.id, (update) => updates.push(update?.currentPhase?.id));
+
+    reporter.startStrategy('hybrid');
+    reporter.checkpoint(2, 3, { sections: [] });
+    expect(signal.aborted).toBe(false);
+
+    deleteAnalysisJob(job.id);
+    expect(signal.aborted).toBe(true);
+    expect(updates).toEqual(['batch1', 'batch2', undefined]);
+  });
+
+  it('aborts running jobs past the maximum age and tells subscribers they are gone', () => {
+    vi.useFakeTimers();
+    try {
+      const { job, signal } = startControlledJob();
+      const updates: unknown[] = [];
+      subscribeAnalysisJob(job.id, (update) => updates.push(update));
+
+      vi.advanceTimersByTime(2 * 60 * 60 * 1000 + 1);
+
+      expect(getAnalysisJob(job.id)).toBeUndefined();
+      expect(signal.aborted).toBe(true);
+      expect(updates).toEqual([undefined]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
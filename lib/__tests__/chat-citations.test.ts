@@ -0,0 +1,52 @@
+import {
+  citationMarkersToTimestamps,
+  formatSegmentsForChat,
+  splitCitationMarkers,
+  stripCitationMarkers,
+  validateChatCitations,
+} from '@/lib/chat-citations';
+import type { ChatSegment } from '@/types/chat';
+
+const segments: ChatSegment[] = [
+  { id: 0, start: 2, end: 6, speaker: 'Dispatch', text: 'Engine 5, respond to a structure fire.' },
+  { id: 1, start: 221, end: 226, speaker: 'Engine 5', text: 'Engine 5 on scene, establishing Main Street Command.' },
+  { id: 2, start: 250, end: 254, text: 'Ladder 3 copies.' },
+];
+
+describe('chat citations', () => {
+  it('formats segments with ids and times for the prompt', () => {
+    expect(formatSegmentsForChat(segments.slice(1))).toBe(
+      'S1 [03:41] Engine 5: Engine 5 on scene, establishing Main Street Command.\nS2 [04:10] Ladder 3 copies.'
+    );
+  });
+
+  it('keeps citations of segments that were sent and drops invented ones', () => {
+    const { answer, citations } = validateChatCitations(
+      'Command was established at 03:41 [S1]. Ladder 3 acknowledged [S2, S9]. Mayday called [S40].',
+      segments
+    );
+
+    expect(answer).toBe('Command was established at 03:41 [S1]. Ladder 3 acknowledged [S2]. Mayday called.');
+    expect(citations.map((c) => c.segmentId)).toEqual([1, 2]);
+    expect(citations[0]).toMatchObject({ start: 221, end: 226, speaker: 'Engine 5' });
+  });
+
+  it('splits markers for rendering and turns them into times for copying', () => {
+    const { answer, citations } = validateChatCitations('Dispatched [S0] and arrived [S1-S2].', segments);
+
+    expect(splitCitationMarkers(answer)).toEqual([
+      { type: 'text', text: 'Dispatched ' },
+      { type: 'citation', segmentIds: [0] },
+      { type: 'text', text: ' and arrived ' },
+      { type: 'citation', segmentIds: [1, 2] },
+      { type: 'text', text: '.' },
+    ]);
+    expect(citationMarkersToTimestamps(answer, citations)).toBe('Dispatched [00:02] and arrived [03:41, 04:10].');
+  });
+
+  it('leaves markers out of an answer that is still streaming', () => {
+    expect(stripCitationMarkers('Dispatched [S0] and arrived [S1-S2]. Command at [S')).toBe(
+      'Dispatched and arrived. Command at'
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  annotationsContextSource,
+  formatContextSourcesForChat,
+  scorecardContextSource,
+} from '@/lib/chat-context';
+import type { RtassScorecard } from '@/types/rtass';
+
+const scorecard: RtassScorecard = {
+  id: 'sc1',
+  incidentId: 't1',
+  transcriptId: 't1',
+  rubricTemplateId: 'afd',
+  createdAt: new Date(2026, 2, 4),
+  modelInfo: { provider: 'openai', model: 'test' },
+  overall: { score: 0.62, status: 'needs_improvement' },
+  sections: [
+    {
+      sectionId: 'arrival',
+      title: 'Arrival',
+      weight: 1,
+      score: 0.5,
+      status: 'fail',
+      criteria: [
+        {
+          criterionId: '360',
+          title: '360 completed',
+          verdict: 'missed',
+          confidence: 0.8,
+          rationale: 'No 360 report was given before entry.',
+          evidence: [{ quote: 'Engine 5 going interior', start: 221 }],
+          aiAssessment: { verdict: 'partial', evidence: [], rationale: 'The 360 was partly described.', confidence: 0.6 },
+        },
+      ],
+    },
+  ],
+};
+
+describe('chat context', () => {
+  it('describes scorecard verdicts with rationale, evidence and overrides', () => {
+    const source = scorecardContextSource(scorecard, 'AFD Fireground');
+
+    expect(source.title).toBe('Scorecard: AFD Fireground (Mar 4, 2026)');
+    expect(source.text).toBe(
+      'Overall: 62% (needs improvement)\n\n' +
+        '## Arrival: 50% (fail)\n' +
+        '- 360 completed: missed [trainer override; the model said partial]\n' +
+        '  Rationale: No 360 report was given before entry.\n' +
+        '  Evidence:\n' +
+        '  - [03:41] "Engine 5 going interior"'
+    );
+  });
+
+  it('lists annotations in time order and formats attached material for the prompt', () => {
+    expect(annotationsContextSource([])).toBeUndefined();
+
+    const notes = annotationsContextSource([
+      { id: 'b', transcriptId: 't1', timestamp: 330, text: 'BC walked the C side', createdAt: new Date(), updatedAt: new Date() },
+      { id: 'a', transcriptId: 't1', timestamp: 45, text: 'Crew staged at hydrant', createdAt: new Date(), updatedAt: new Date() },
+    ])!;
+
+    expect(notes.text).toBe('[00:45] Crew staged at hydrant\n[05:30] BC walked the C side');
+    expect(formatContextSourcesForChat([notes])).toContain(
+      '### Trainer annotations (2)\n[00:45] Crew staged at hydrant'
+    );
+    expect(formatContextSourcesForChat([])).toBe('');
+  });
+});
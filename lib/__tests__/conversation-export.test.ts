@@ -0,0 +1,70 @@
+import { pinnedAnswerSection } from '@/lib/chat-citations';
+import { generateConversationMarkdown } from '@/lib/export/conversation-markdown';
+import type { ChatMessage, Conversation } from '@/types/chat';
+
+const question: ChatMessage = {
+  id: 'q1',
+  role: 'user',
+  content: 'When was command established?',
+  timestamp: new Date('2026-03-01T14:00:00Z'),
+};
+
+const answer: ChatMessage = {
+  id: 'a1',
+  role: 'assistant',
+  content: 'Engine 5 established Main Street Command [S1].',
+  timestamp: new Date('2026-03-01T14:00:05Z'),
+  model: 'gpt-test',
+  citations: [
+    {
+      segmentId: 1,
+      start: 221,
+      end: 226,
+      speaker: 'Engine 5',
+      quote: 'Engine 5 on scene, establishing Main Street Command.',
+    },
+  ],
+};
+
+const conversation: Conversation = {
+  id: 'c1',
+  transcriptId: 't1',
+  messages: [question, answer],
+  createdAt: new Date('2026-03-01T14:00:00Z'),
+  updatedAt: new Date('2026-03-01T14:00:05Z'),
+};
+
+describe('conversation export', () => {
+  it('writes citations as the times they cite, with the cited traffic under the answer', () => {
+    const markdown = generateConversationMarkdown(conversation, 'fire-ops.mp3');
+
+    expect(markdown).toContain('# When was command established?');
+    expect(markdown).toContain('- **About:** fire-ops.mp3');
+    expect(markdown).toContain('## Question 1');
+    expect(markdown).toContain('Engine 5 established Main Street Command [03:41].');
+    expect(markdown).toContain('- [03:41] Engine 5: "Engine 5 on scene, establishing Main Street Command."');
+    expect(markdown).not.toContain('[S1]');
+    expect(markdown).not.toContain('Stopped before the answer was complete.');
+  });
+
+  it('notes answers that were stopped', () => {
+    const markdown = generateConversationMarkdown(
+      { ...conversation, messages: [question, { ...answer, citations: undefined, stopped: true }] },
+      'fire-ops.mp3'
+    );
+
+    expect(markdown).toContain('_Stopped before the answer was complete._');
+    expect(markdown).not.toContain('**Cited radio traffic**');
+  });
+
+  it('pins an answer as an analysis section named after its question', () => {
+    expect(pinnedAnswerSection(question.content, answer, 'c1')).toEqual({
+      name: 'Chat: When was command established?',
+      content: 'Engine 5 established Main Street Command [03:41].',
+      evidence: [
+        { text: 'Engine 5 on scene, establishing Main Street Command.', start: 221, end: 226, relevance: 1 },
+      ],
+      pinnedFrom: { conversationId: 'c1', messageId: 'a1' },
+    });
+  });
+});
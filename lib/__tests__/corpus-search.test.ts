@@ -0,0 +1,82 @@
+import {
+  buildCorpusIndex,
+  corpusHitsToChatSegments,
+  searchCorpus,
+  tokenizeForCorpus,
+  type CorpusTranscript,
+} from '@/lib/corpus-search';
+import { formatSegmentsForChat, validateChatCitations } from '@/lib/chat-citations';
+import type { TranscriptSegment } from '@/types/transcript';
+
+function segments(...texts: string[]): TranscriptSegment[] {
+  return texts.map((text, index) => ({ index, start: index * 10, end: index * 10 + 5, text }));
+}
+
+const transcripts: CorpusTranscript[] = [
+  {
+    id: 'warehouse',
+    label: 'Warehouse fire · TAC 2',
+    segments: segments(
+      'Engine 5 on scene, working fire.',
+      'Command to all units, we are going defensive.',
+      'Command, Engine 5 copies defensive.',
+      'All units, PAR check.',
+      'Ladder 3 PAR of four.'
+    ),
+  },
+  {
+    id: 'house',
+    label: 'House fire · TAC 1',
+    segments: segments(
+      'Medic 7 on scene.',
+      'Command to all companies, switching to defensive strategy.',
+      'Ladder 12 copies.',
+      'Water supply established.'
+    ),
+  },
+];
+
+describe('corpus search', () => {
+  it('tokenizes without common words and plurals, keeping unit numbers', () => {
+    expect(tokenizeForCorpus('All units: Engine 5 is on the scene')).toEqual([
+      'all',
+      'unit',
+      'engine',
+      '5',
+      'scene',
+    ]);
+  });
+
+  it('ranks matching segments across transcripts and adds their neighbours', () => {
+    const index = buildCorpusIndex(transcripts);
+    const hits = searchCorpus(index, 'PAR after defensive strategy', { context: 1 });
+
+    // The house fire matches "defensive" and "strategy" in one segment, so it ranks first
+    expect(hits[0].transcriptId).toBe('house');
+    expect(hits.filter((hit) => hit.transcriptId === 'house').map((hit) => hit.segment.index)).toEqual([0, 1, 2]);
+    expect(
+      hits.filter((hit) => hit.transcriptId === 'warehouse' && hit.matched).map((hit) => hit.segment.index)
+    ).toEqual([1, 2, 3, 4]);
+    expect(searchCorpus(index, 'mayday')).toEqual([]);
+  });
+
+  it('numbers retrieved segments for the prompt and cites them with their transcript', () => {
+    const index = buildCorpusIndex(transcripts);
+    const chatSegments = corpusHitsToChatSegments(
+      searchCorpus(index, 'water supply', { context: 0 })
+    );
+
+    expect(formatSegmentsForChat(chatSegments)).toBe(
+      'Transcript: House fire · TAC 1\nS1 [00:30] Water supply established.'
+    );
+
+    const { citations } = validateChatCitations('Water supply was established [S1].', chatSegments);
+    expect(citations[0]).toMatchObject({
+      segmentId: 1,
+      transcriptId: 'house',
+      segmentIndex: 3,
+      source: 'House fire · TAC 1',
+      start: 30,
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  decryptJson,
+  deriveKeyFromPassphrase,
+  encryptJson,
+  EncryptionError,
+  generateDataKey,
+  isProtectedFile,
+  protectFile,
+  randomBytes,
+  unprotectFile,
+  unwrapDataKey,
+  wrapDataKey,
+} from '@/lib/encryption';
+
+describe('encryption', () => {
+  it('round-trips JSON with dates through a wrapped data key', async () => {
+    const salt = randomBytes(16);
+    const dataKey = await generateDataKey();
+    const wrapped = await wrapDataKey(dataKey, await deriveKeyFromPassphrase('station 14 key', salt, 1000));
+
+    const value = { text: 'Mayday, mayday', createdAt: new Date('2026-01-20T10:00:00Z') };
+    const sealed = await encryptJson(dataKey, value);
+
+    const unwrapped = await unwrapDataKey(wrapped, await deriveKeyFromPassphrase('station 14 key', salt, 1000));
+    expect(await decryptJson(unwrapped, sealed)).toEqual(value);
+
+    await expect(
+      unwrapDataKey(wrapped, await deriveKeyFromPassphrase('wrong passphrase', salt, 1000))
+    ).rejects.toMatchObject({ code: 'WRONG_PASSPHRASE' });
+  });
+
+  it('protects a file so only the passphrase opens it', async () => {
+    const bytes = new TextEncoder().encode('PK\u0003\u0004 incident archive');
+    const protectedBytes = await protectFile(bytes, 'share-passphrase');
+
+    expect(isProtectedFile(protectedBytes)).toBe(true);
+    expect(isProtectedFile(bytes)).toBe(false);
+    expect(await unprotectFile(protectedBytes, 'share-passphrase')).toEqual(bytes);
+
+    const error = await unprotectFile(protectedBytes, 'not-it').catch((e) => e);
+    expect(error).toBeInstanceOf(EncryptionError);
+    expect(error.code).toBe('WRONG_PASSPHRASE');
+  });
+
+  it.each([0, 0xffffffff])('rejects a protected file header with %i PBKDF2 iterations', async (iterations) => {
+    const protectedBytes = await protectFile(new TextEncoder().encode('archive'), 'share-passphrase');
+    // Iterations follow the 8-byte magic and the version byte
+    new DataView(protectedBytes.buffer).setUint32(9, iterations);
+
+    await expect(unprotectFile(protectedBytes, 'share-passphrase')).rejects.toMatchObject({
+      code: 'UNSUPPORTED_FORMAT',
+    });
+  });
+});
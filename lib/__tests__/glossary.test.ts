@@ -0,0 +1,81 @@
+import {
+  applyGlossaryCorrections,
+  buildTranscriptionPrompt,
+  TRANSCRIPTION_PROMPT_MAX_LENGTH,
+} from '@/lib/glossary';
+import type { GlossaryTerm } from '@/types/glossary';
+import type { TranscriptSegment } from '@/types/transcript';
+
+function makeTerm(id: string, term: string, variants: string[], department = 'fire'): GlossaryTerm {
+  return {
+    id,
+    term,
+    department,
+    variants,
+    createdAt: new Date(2026, 0, 20),
+    updatedAt: new Date(2026, 0, 20),
+  };
+}
+
+const terms = [
+  makeTerm('g1', '360', ['3 60', 'three sixty']),
+  makeTerm('g2', 'Quint 22', ['Clint 22', 'Quinn twenty two']),
+  makeTerm('g3', 'Quint', ['Clint']),
+  makeTerm('g4', 'Lamar', ['Lemar'], 'all'),
+];
+
+const segments: TranscriptSegment[] = [
+  { index: 0, start: 0, end: 4, text: 'clint 22 on scene at 1200 Lemar, doing a THREE  SIXTY.' },
+  { index: 1, start: 4, end: 6, text: 'Copy, Clint. Clinton Street is blocked.' },
+  { index: 2, start: 7, end: 9, text: 'Engine 14 assuming command.' },
+];
+
+describe('applyGlossaryCorrections', () => {
+  it('replaces whole-word variants, longest first, ignoring case and spacing', () => {
+    const { transcript, corrections } = applyGlossaryCorrections(
+      { text: segments.map((s) => s.text).join(' '), segments },
+      terms,
+    );
+
+    expect(transcript.segments.map((s) => s.text)).toEqual([
+      'Quint 22 on scene at 1200 Lamar, doing a 360.',
+      'Copy, Quint. Clinton Street is blocked.',
+      'Engine 14 assuming command.',
+    ]);
+    expect(transcript.segments[2]).toBe(segments[2]);
+    expect(transcript.text).toBe(transcript.segments.map((s) => s.text).join(' '));
+    expect(corrections).toEqual([
+      { segmentIndex: 0, termId: 'g2', original: 'clint 22', replacement: 'Quint 22' },
+      { segmentIndex: 0, termId: 'g4', original: 'Lemar', replacement: 'Lamar' },
+      { segmentIndex: 0, termId: 'g1', original: 'THREE  SIXTY', replacement: '360' },
+      { segmentIndex: 1, termId: 'g3', original: 'Clint', replacement: 'Quint' },
+    ]);
+  });
+
+  it('returns the transcript unchanged when nothing matches', () => {
+    const transcript = { text: 'Engine 14 assuming command.', segments: [segments[2]] };
+    const result = applyGlossaryCorrections(transcript, terms);
+
+    expect(result.transcript).toBe(transcript);
+    expect(result.corrections).toEqual([]);
+    expect(applyGlossaryCorrections(transcript, []).transcript).toBe(transcript);
+  });
+});
+
+describe('buildTranscriptionPrompt', () => {
+  it('lists unique terms after a department introduction', () => {
+    expect(buildTranscriptionPrompt([...terms, makeTerm('g5', '360', [])], 'fire')).toBe(
+      'Austin Fire Department radio traffic. Terms: 360, Quint 22, Quint, Lamar.',
+    );
+    expect(buildTranscriptionPrompt(terms.slice(0, 1))).toBe('Public safety radio traffic. Terms: 360.');
+    expect(buildTranscriptionPrompt([], 'fire')).toBeUndefined();
+  });
+
+  it('stops at a whole term within the length limit', () => {
+    const many = Array.from({ length: 200 }, (_, i) => makeTerm(`t${i}`, `Medic ${i}`, []));
+    const prompt = buildTranscriptionPrompt(many, 'ems')!;
+
+    expect(prompt.length).toBeLessThanOrEqual(TRANSCRIPTION_PROMPT_MAX_LENGTH);
+    expect(prompt).toMatch(/, Medic \d+\.$/);
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  buildIncidentTimeline,
+  deriveChannelOffset,
+  mergeIncidentSegments,
+} from '@/lib/incident-timeline';
+import type { Transcript } from '@/types/transcript';
+import type { TranscriptAnnotation } from '@/types/annotation';
+
+function makeTranscript(id: string, segments: Array<[number, number, string]>): Transcript {
+  return {
+    id,
+    filename: `${id}.mp3`,
+    text: segments.map((s) => s[2]).join(' '),
+    segments: segments.map(([start, end, text], index) => ({ index, start, end, text })),
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    metadata: { model: 'whisper-1', fileSize: 0, duration: 60 },
+  };
+}
+
+const dispatch = makeTranscript('dispatch', [
+  [0, 4, 'Box alarm assignment'],
+  [10, 12, 'Engine 5 copies'],
+]);
+const tac = makeTranscript('tac', [
+  [5, 8, 'Engine 5 on scene'],
+  [10, 14, 'Command established'],
+]);
+
+describe('buildIncidentTimeline', () => {
+  const incident = {
+    channels: [
+      { transcriptId: 'dispatch', label: 'Dispatch' },
+      { transcriptId: 'tac', label: 'TAC 2' },
+    ],
+  };
+
+  it('interleaves segments from every channel chronologically', () => {
+    const entries = buildIncidentTimeline({ incident, transcripts: [dispatch, tac] });
+
+    expect(entries.map((e) => e.text)).toEqual([
+      'Box alarm assignment',
+      'Engine 5 on scene',
+      'Engine 5 copies',
+      'Command established',
+    ]);
+    expect(entries[1].channelLabel).toBe('TAC 2');
+  });
+
+  it('places annotations after segments at the same time and skips unknown transcripts', () => {
+    const annotations: TranscriptAnnotation[] = [
+      {
+        id: 'a1',
+        transcriptId: 'tac',
+        timestamp: 5,
+        text: 'Helmet cam shows 360 in progress',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        id: 'a2',
+        transcriptId: 'other',
+        timestamp: 1,
+        text: 'Not part of this incident',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    ];
+
+    const entries = buildIncidentTimeline({ incident, transcripts: [dispatch, tac], annotations });
+
+    expect(entries).toHaveLength(5);
+    expect(entries[1].kind).toBe('segment');
+    expect(entries[2]).toMatchObject({ kind: 'annotation', channelLabel: 'TAC 2' });
+  });
+
+  it('shifts each channel by its wall-clock offset', () => {
+    const entries = buildIncidentTimeline({
+      incident: {
+        channels: [
+          { transcriptId: 'dispatch', label: 'Dispatch', offsetSeconds: 0 },
+          { transcriptId: 'tac', label: 'TAC 2', offsetSeconds: 30 },
+        ],
+      },
+      transcripts: [dispatch, tac],
+    });
+
+    expect(entries.map((e) => [e.channelLabel, e.at])).toEqual([
+      ['Dispatch', 0],
+      ['Dispatch', 10],
+      ['TAC 2', 35],
+      ['TAC 2', 40],
+    ]);
+    expect(entries[2].localAt).toBe(5);
+  });
+
+  it('starts the timeline at the earliest channel when offsets are negative', () => {
+    const entries = buildIncidentTimeline({
+      incident: {
+        channels: [
+          { transcriptId: 'dispatch', label: 'Dispatch', offsetSeconds: -20 },
+          { transcriptId: 'tac', label: 'TAC 2', offsetSeconds: 0 },
+        ],
+      },
+      transcripts: [dispatch, tac],
+    });
+
+    expect(entries[0]).toMatchObject({ channelLabel: 'Dispatch', at: 0 });
+    expect(entries.find((e) => e.text === 'Engine 5 on scene')?.at).toBe(25);
+  });
+});
+
+describe('mergeIncidentSegments', () => {
+  it('re-indexes segments and keeps a map back to each channel', () => {
+    const entries = buildIncidentTimeline({
+      incident: {
+        channels: [
+          { transcriptId: 'dispatch', label: 'Dispatch' },
+          { transcriptId: 'tac', label: 'TAC 2', offsetSeconds: 3 },
+        ],
+      },
+      transcripts: [dispatch, tac],
+    });
+
+    const { segments, sources } = mergeIncidentSegments(entries);
+
+    expect(segments.map((s) => s.index)).toEqual([0, 1, 2, 3]);
+    expect(segments[1]).toMatchObject({ start: 8, end: 11, text: 'Engine 5 on scene' });
+    expect(sources[1]).toEqual({
+      transcriptId: 'tac',
+      channelLabel: 'TAC 2',
+      segmentIndex: 0,
+      localStart: 5,
+    });
+  });
+});
+
+describe('deriveChannelOffset', () => {
+  it('places the recording so the CAD event lines up with where it is heard', () => {
+    const pickup = new Date(2026, 0, 21, 6, 55, 9);
+    const arrived = new Date(2026, 0, 21, 7, 0, 9);
+
+    expect(deriveChannelOffset(arrived, pickup, 45)).toBe(255);
+    expect(deriveChannelOffset(pickup, pickup)).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  extractJsonText,
+  getLlmProvider,
+  jsonResponseFormat,
+  resetLlmProvider,
+  toLlmProviderStatus,
+} from '@/lib/llm-providers';
+import { getDeploymentInfo, selectDeploymentByTokens } from '@/lib/token-utils';
+
+describe('llm providers', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetLlmProvider();
+  });
+
+  it('routes every task to the local model unless a task names its own', () => {
+    vi.stubEnv('LOCAL_LLM_BASE_URL', 'http://localhost:11434/v1');
+    vi.stubEnv('LOCAL_LLM_MODEL', 'llama3.1:8b');
+    vi.stubEnv('LLM_CITATIONS_MODEL', 'qwen2.5:3b');
+    vi.stubEnv('LLM_EXTENDED_MODEL', 'qwen2.5:32b');
+    vi.stubEnv(
+      'LLM_MODEL_PROFILES',
+      JSON.stringify({ 'qwen2.5:32b': { contextWindow: 32768 }, 'qwen2.5:3b': { jsonMode: false } })
+    );
+
+    const { provider, routes } = toLlmProviderStatus(getLlmProvider());
+
+    expect(provider).toBe('local');
+    expect(routes.analysis).toEqual({
+      model: { model: 'llama3.1:8b', contextWindow: 16384, jsonMode: true },
+      extended: { model: 'qwen2.5:32b', contextWindow: 32768, jsonMode: true },
+    });
+    expect(routes.citations).toEqual({
+      model: { model: 'qwen2.5:3b', contextWindow: 16384, jsonMode: false },
+    });
+    expect(jsonResponseFormat('qwen2.5:3b')).toEqual({});
+    expect(jsonResponseFormat('llama3.1:8b')).toEqual({ response_format: { type: 'json_object' } });
+
+    // Transcripts that do not fit the task's model go to the extended model
+    expect(selectDeploymentByTokens(4000, routes.analysis)).toBe('llama3.1:8b');
+    expect(getDeploymentInfo(20000, routes.analysis)).toMatchObject({
+      deployment: 'qwen2.5:32b',
+      isExtended: true,
+      tokenLimit: 32768,
+    });
+  });
+
+  it('rejects an incomplete local configuration', () => {
+    vi.stubEnv('LLM_PROVIDER', 'local');
+    vi.stubEnv('LOCAL_LLM_BASE_URL', 'http://localhost:8000/v1');
+    expect(() => getLlmProvider()).toThrow(/LOCAL_LLM_MODEL/);
+  });
+
+  it('extracts JSON from replies without JSON mode', () => {
+    expect(extractJsonText('```json\n{"findings": []}\n```')).toBe('{"findings": []}');
+    expect(extractJsonText('Here is the result: {"score": 3}. Done.')).toBe('{"score": 3}');
+    expect(extractJsonText(' {"a": 1} ')).toBe('{"a": 1}');
+  });
+});
@@ -0,0 +1,81 @@
+import JSZip from 'jszip';
+import { buildIncidentArchive, isZipData, readIncidentArchive } from '@/lib/package/archive';
+import type { Transcript } from '@/types/transcript';
+import type { Analysis } from '@/types/analysis';
+
+const transcript: Transcript = {
+  id: 't1',
+  filename: 'Box Alarm 2401.mp3',
+  text: 'Engine 14 on scene.',
+  segments: [{ index: 0, start: 0, end: 2, text: 'Engine 14 on scene.', speaker: 'A' }],
+  speakerMap: { renames: { A: 'Engine 14' } },
+  audioUrl: 'blob:http://localhost/abc',
+  metadata: { model: 'whisper-1', fileSize: 4, duration: 2 },
+  createdAt: new Date('2026-01-20T10:00:00Z'),
+} as Transcript;
+
+const analysis = {
+  id: 'a1',
+  transcriptId: 't1',
+  templateId: 'tpl',
+  results: { sections: [] },
+  createdAt: new Date('2026-01-20T10:05:00Z'),
+} as unknown as Analysis;
+
+async function build() {
+  return buildIncidentArchive(
+    {
+      transcript,
+      analyses: [analysis],
+      scorecards: [],
+      rubrics: [],
+      annotations: [],
+      supplementalDocuments: [],
+      conversations: [],
+      audio: {
+        blob: new Blob([new Uint8Array([1, 2, 3, 4])], { type: 'audio/mpeg' }),
+        metadata: { filename: 'Box Alarm 2401.mp3', size: 4, type: 'audio/mpeg', duration: 2 },
+      },
+    },
+    '0.0.0-test'
+  );
+}
+
+describe('incident archive', () => {
+  it('round-trips records and audio, restoring dates and unknown fields', async () => {
+    const bytes = await build();
+    expect(isZipData(bytes)).toBe(true);
+
+    const result = await readIncidentArchive(bytes);
+    expect(result.success).toBe(true);
+    const archive = result.data!;
+
+    expect(archive.manifest.formatVersion).toBe('2.0');
+    expect(archive.manifest.files.every((f) => /^[0-9a-f]{64}$/.test(f.sha256))).toBe(true);
+    expect(archive.transcript.createdAt).toEqual(transcript.createdAt);
+    expect(archive.transcript.speakerMap).toEqual(transcript.speakerMap);
+    expect(archive.transcript.audioUrl).toBeUndefined();
+    expect(archive.analyses[0].createdAt).toBeInstanceOf(Date);
+    expect(new Uint8Array(await archive.audio!.blob.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3, 4]));
+  });
+
+  it('rejects a file whose checksum does not match the manifest', async () => {
+    const zip = await JSZip.loadAsync(await build());
+    zip.file('analyses.json', '[]');
+    const tampered = await zip.generateAsync({ type: 'uint8array' });
+
+    const result = await readIncidentArchive(tampered);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Checksum verification failed for analyses.json');
+  });
+
+  it('rejects an unsupported format version', async () => {
+    const zip = await JSZip.loadAsync(await build());
+    const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+    zip.file('manifest.json', JSON.stringify({ ...manifest, formatVersion: '1.0' }));
+
+    const result = await readIncidentArchive(await zip.generateAsync({ type: 'uint8array' }));
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^manifest\.json: formatVersion/);
+  });
+});
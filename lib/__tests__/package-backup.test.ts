@@ -0,0 +1,83 @@
+import {
+  BACKUP_PAGE_SIZE,
+  BACKUP_TABLES,
+  backupMatchKey,
+  buildWorkspaceBackup,
+  readWorkspaceBackup,
+  type BackupRecord,
+  type BackupTableName,
+} from '@/lib/package/backup';
+
+function makeTables(): Partial<Record<BackupTableName, BackupRecord[]>> {
+  return {
+    transcripts: [
+      {
+        id: 't1',
+        filename: 'Box Alarm 2401.mp3',
+        text: 'Engine 14 on scene.',
+        segments: [{ index: 0, start: 0, end: 2, text: 'Engine 14 on scene.' }],
+        metadata: { model: 'whisper-1', fileSize: 4, duration: 2 },
+        createdAt: new Date('2026-01-20T10:00:00Z'),
+      },
+    ],
+    audioFiles: [
+      {
+        transcriptId: 't1',
+        audioBlob: new Blob([new Uint8Array([1, 2, 3, 4])], { type: 'audio/mpeg' }),
+        metadata: { filename: 'Box Alarm 2401.mp3', size: 4, type: 'audio/mpeg', duration: 2 },
+        storedAt: new Date('2026-01-20T10:01:00Z'),
+      },
+    ],
+    glossaryTerms: Array.from({ length: BACKUP_PAGE_SIZE + 10 }, (_, i) => ({
+      id: `g${String(i).padStart(4, '0')}`,
+      term: `Medic ${i}`,
+      variants: [],
+    })),
+  };
+}
+
+async function build(schemaVersion = 13) {
+  const tables = makeTables();
+  return buildWorkspaceBackup(
+    async (table, offset, limit) => (tables[table] ?? []).slice(offset, offset + limit),
+    { schemaVersion, appVersion: '0.0.0-test' }
+  );
+}
+
+describe('workspace backup', () => {
+  it('round-trips every table in pages, restoring dates and blobs', async () => {
+    const result = await readWorkspaceBackup(await build(), 13);
+    expect(result.success).toBe(true);
+    const { manifest, tables } = result.data!;
+
+    expect(manifest.tables.map((t) => t.name)).toEqual(BACKUP_TABLES.map((t) => t.name));
+    expect(manifest.tables.find((t) => t.name === 'glossaryTerms')!.pages).toHaveLength(2);
+    expect(tables.glossaryTerms).toHaveLength(BACKUP_PAGE_SIZE + 10);
+    expect(tables.recordings).toEqual([]);
+
+    expect(tables.transcripts[0].createdAt).toEqual(new Date('2026-01-20T10:00:00Z'));
+    const audio = tables.audioFiles[0].audioBlob as Blob;
+    expect(audio.type).toBe('audio/mpeg');
+    expect(new Uint8Array(await audio.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3, 4]));
+  });
+
+  it('migrates records from an older schema and rejects a newer one', async () => {
+    const old = await readWorkspaceBackup(await build(9), 13);
+    expect(old.data!.tables.transcripts[0].searchTokens).toEqual(
+      expect.arrayContaining(['engine', 'scene'])
+    );
+
+    const newer = await readWorkspaceBackup(await build(14), 13);
+    expect(newer.success).toBe(false);
+    expect(newer.error).toContain('newer version of the app');
+  });
+
+  it('matches recordings by creation time and size rather than their local key', () => {
+    const recording = (id: number) => ({
+      id,
+      metadata: { createdAt: new Date('2026-01-20T10:00:00Z'), size: 2048 },
+    });
+    expect(backupMatchKey('recordings', recording(1))).toBe(backupMatchKey('recordings', recording(7)));
+    expect(backupMatchKey('transcripts', { id: 't1' })).toBe('t1');
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  applyRedactions,
+  detectPiiSpans,
+  findTextSpans,
+  isRedactedAudioCurrent,
+  mergeRedactionSpans,
+  redactionTimeRanges,
+  redactValue,
+  reviewRedactionSpan,
+} from '@/lib/redaction';
+import type { Transcript } from '@/types/transcript';
+
+function makeTranscript(overrides: Partial<Transcript> = {}): Transcript {
+  return {
+    id: 't1',
+    filename: 'medical.mp3',
+    text: '',
+    createdAt: new Date(2026, 0, 20),
+    metadata: { model: 'test', fileSize: 1, duration: 60 },
+    segments: [
+      { index: 0, start: 0, end: 4, text: 'Medic 7, respond to 4512 Shoal Creek Blvd for a fall.' },
+      { index: 1, start: 5, end: 9, text: "Patient's name is Maria Lopez, DOB 03/14/1952." },
+      { index: 2, start: 10, end: 12, text: 'Callback number 512-555-0187.' },
+      { index: 3, start: 13, end: 15, text: 'Medic 7 copies, en route.' },
+    ],
+    ...overrides,
+  };
+}
+
+describe('redaction', () => {
+  it('detects addresses, introduced names, dates of birth and phone numbers', () => {
+    const spans = detectPiiSpans(makeTranscript().segments);
+
+    expect(spans.map((s) => [s.segmentIndex, s.category, s.text])).toEqual([
+      [0, 'address', '4512 Shoal Creek Blvd'],
+      [1, 'name', 'Maria Lopez'],
+      [1, 'dob', '03/14/1952'],
+      [2, 'phone', '512-555-0187'],
+    ]);
+    expect(spans.every((s) => s.status === 'pending')).toBe(true);
+  });
+
+  it('redacts pending and approved spans but keeps rejected ones', () => {
+    const transcript = makeTranscript({ summary: 'Maria Lopez fell at home.' });
+    const [address, name, dob, phone] = detectPiiSpans(transcript.segments);
+    const redactions = [
+      reviewRedactionSpan(address, 'rejected', 'Capt. Reyes'),
+      reviewRedactionSpan(name, 'approved', 'Capt. Reyes'),
+      dob,
+      phone,
+    ];
+
+    const redacted = applyRedactions({ ...transcript, redactions });
+
+    expect(redacted.segments.map((s) => s.text)).toEqual([
+      'Medic 7, respond to 4512 Shoal Creek Blvd for a fall.',
+      "Patient's name is [NAME], DOB [DOB].",
+      'Callback number [PHONE].',
+      'Medic 7 copies, en route.',
+    ]);
+    expect(redacted.text).toContain('[NAME]');
+    expect(redacted.summary).toBe('[NAME] fell at home.');
+    expect(redacted.redactions).toBeUndefined();
+    // Stored segments are never rewritten
+    expect(transcript.segments[1].text).toContain('Maria Lopez');
+  });
+
+  it('finds spans again after the segment is edited', () => {
+    const transcript = makeTranscript();
+    const redactions = findTextSpans(transcript.segments, 'maria lopez', 'name', 'manual');
+    const edited = transcript.segments.map((s) =>
+      s.index === 1 ? { ...s, text: 'Pt is Maria Lopez, 73 years old.' } : s
+    );
+
+    const redacted = applyRedactions({ ...transcript, segments: edited, redactions });
+
+    expect(redacted.segments[1].text).toBe('Pt is [NAME], 73 years old.');
+  });
+
+  it('keeps reviewer decisions when merging new detections and redacts nested records', () => {
+    const segments = makeTranscript().segments;
+    const existing = [reviewRedactionSpan(detectPiiSpans(segments)[1], 'rejected', '')];
+    const merged = mergeRedactionSpans(existing, detectPiiSpans(segments));
+
+    expect(merged).toHaveLength(4);
+    expect(merged.find((s) => s.category === 'name')?.status).toBe('rejected');
+
+    const analysis = {
+      id: 'a1',
+      transcriptId: 'Maria Lopez',
+      results: { summary: 'Crew reached Maria Lopez in 6 minutes.' },
+      createdAt: new Date(2026, 0, 20),
+    };
+    const redacted = redactValue(analysis, findTextSpans(segments, 'Maria Lopez', 'name', 'manual'));
+
+    expect(redacted.results.summary).toBe('Crew reached [NAME] in 6 minutes.');
+    expect(redacted.transcriptId).toBe('Maria Lopez');
+    expect(redacted.createdAt).toBe(analysis.createdAt);
+  });
+
+  it('maps redacted spans onto the recording', () => {
+    const transcript = makeTranscript();
+    const [address, name, dob, phone] = detectPiiSpans(transcript.segments);
+    const redactions = [reviewRedactionSpan(address, 'rejected', ''), name, dob, phone];
+    const withRedactions = { ...transcript, redactions };
+
+    expect(redactionTimeRanges(withRedactions)).toEqual([
+      { start: 5, end: 9 },
+      { start: 10, end: 12 },
+    ]);
+
+    // The padded name and DOB estimates overlap and are merged; the callback
+    // number is in the second half of its segment
+    const [nameAndDob, estimated] = redactionTimeRanges(withRedactions, 'span');
+    expect(nameAndDob.start).toBeGreaterThan(5);
+    expect(nameAndDob.end).toBe(9);
+    expect(estimated.start).toBeGreaterThan(10.5);
+    expect(estimated.end).toBe(12);
+
+    const info = {
+      mode: 'tone' as const,
+      precision: 'segment' as const,
+      ranges: redactionTimeRanges(withRedactions),
+      createdAt: new Date(2026, 0, 20),
+    };
+    expect(isRedactedAudioCurrent(withRedactions, info)).toBe(true);
+    expect(
+      isRedactedAudioCurrent({ ...withRedactions, redactions: [...redactions, address] }, info)
+    ).toBe(false);
+  });
+});
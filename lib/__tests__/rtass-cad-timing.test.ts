@@ -0,0 +1,73 @@
+import { applyCadTiming, resolveCadEvent } from '@/lib/rtass-cad-timing';
+import type { VisinetEvent } from '@/lib/visinet-parser';
+import type { RtassCriterion, RtassScorecardCriterion } from '@/types/rtass';
+
+const events: VisinetEvent[] = [
+  { id: 'phonePickup', label: 'Phone pickup', at: new Date(2026, 0, 21, 6, 55, 9), source: 'timestamp' },
+  { id: 'unit:ENG14:arrived', label: 'ENG14 arrived', at: new Date(2026, 0, 21, 7, 0, 9), source: 'unit', unit: 'ENG14' },
+  { id: 'unit:RES14:arrived', label: 'RES14 arrived', at: new Date(2026, 0, 21, 7, 0, 41), source: 'unit', unit: 'RES14' },
+  { id: 'custom:0', label: 'PRIM - PRIMARY Search Complete', at: new Date(2026, 0, 21, 7, 17, 36), source: 'custom' },
+  { id: 'custom:1', label: 'Fire Under Control', at: new Date(2026, 0, 21, 7, 17, 50), source: 'custom' },
+];
+
+const underControl: RtassCriterion = {
+  id: 'fire-under-control',
+  title: 'Fire under control (< 30 minutes)',
+  description: 'Fire under control within 30 minutes of arrival',
+  required: false,
+  type: 'timing',
+  timing: {
+    startEvent: 'first_unit_arrival',
+    endEvent: 'fire_under_control',
+    targetSeconds: 1800,
+    maxSeconds: 1800,
+  },
+};
+
+const modelResult: RtassScorecardCriterion = {
+  criterionId: 'fire-under-control',
+  title: 'Fire under control (< 30 minutes)',
+  verdict: 'not_observed',
+  confidence: 0.4,
+  rationale: 'No under-control report heard on the radio.',
+  evidence: [{ quote: 'Engine 14 on scene', start: 12 }],
+};
+
+describe('resolveCadEvent', () => {
+  it('falls back to the earliest unit arrival for first_unit_arrival', () => {
+    expect(resolveCadEvent('first_unit_arrival', events)?.label).toBe('ENG14 arrived');
+  });
+
+  it('matches custom time stamps by description', () => {
+    expect(resolveCadEvent('fire_under_control', events)?.id).toBe('custom:1');
+    expect(resolveCadEvent('primary_search_complete', events)?.id).toBe('custom:0');
+    expect(resolveCadEvent('fire_extinguished', events)).toBeNull();
+  });
+});
+
+describe('applyCadTiming', () => {
+  it('replaces the model verdict with the CAD-computed one and keeps radio evidence', () => {
+    const result = applyCadTiming(modelResult, underControl, events);
+
+    expect(result.verdict).toBe('met');
+    expect(result.score).toBe(1);
+    expect(result.timing).toEqual({
+      startEvent: 'first_unit_arrival',
+      endEvent: 'fire_under_control',
+      elapsedSeconds: 1061,
+      source: 'cad',
+    });
+    expect(result.rationale).toContain('ENG14 arrived → Fire Under Control = 1061s');
+    expect(result.cadEvidence?.map((e) => e.label)).toEqual(['ENG14 arrived', 'Fire Under Control']);
+    expect(result.evidence).toEqual(modelResult.evidence);
+  });
+
+  it('leaves the result alone when an event is missing from the CAD report', () => {
+    const extinguished: RtassCriterion = {
+      ...underControl,
+      timing: { ...underControl.timing!, endEvent: 'fire_extinguished' },
+    };
+
+    expect(applyCadTiming(modelResult, extinguished, events)).toBe(modelResult);
+  });
+});
@@ -0,0 +1,145 @@
+import { applyCriterionEdit, computeOverallScore } from '@/lib/rtass-scoring';
+import type { RtassRubricTemplate, RtassScorecard } from '@/types/rtass';
+
+const rubric: RtassRubricTemplate = {
+  id: 'rubric',
+  name: 'Test Rubric',
+  description: 'Rubric used by scoring tests',
+  version: '1',
+  createdAt: new Date(2026, 0, 1),
+  sections: [
+    {
+      id: 'arrival',
+      title: 'Arrival',
+      description: 'Initial radio report',
+      weight: 1,
+      criteria: [
+        { id: 'size-up', title: 'Size-up', description: '', required: true, type: 'boolean' },
+        { id: 'command', title: 'Command', description: '', required: true, type: 'boolean' },
+      ],
+    },
+  ],
+  scoring: {
+    method: 'weighted_average',
+    thresholds: { pass: 0.8, needsImprovement: 0.6 },
+    requiredNotObservedBehavior: 'treat_as_missed',
+  },
+  llm: { concurrency: 1, maxRetries: 0, evidenceQuoteMaxChars: 200 },
+};
+
+const scorecard: RtassScorecard = {
+  id: 'scorecard',
+  incidentId: 'incident',
+  transcriptId: 'transcript',
+  rubricTemplateId: 'rubric',
+  createdAt: new Date(2026, 0, 2),
+  modelInfo: { provider: 'openai', model: 'test' },
+  overall: { score: 0.5, status: 'fail' },
+  sections: [
+    {
+      sectionId: 'arrival',
+      title: 'Arrival',
+      weight: 1,
+      score: 0.5,
+      status: 'fail',
+      criteria: [
+        {
+          criterionId: 'size-up',
+          title: 'Size-up',
+          verdict: 'met',
+          score: 1,
+          confidence: 0.9,
+          rationale: 'Size-up given.',
+          evidence: [{ quote: 'two-story residential', start: 10 }],
+        },
+        {
+          criterionId: 'command',
+          title: 'Command',
+          verdict: 'not_observed',
+          confidence: 0.5,
+          rationale: 'No command statement heard.',
+          evidence: [],
+        },
+      ],
+    },
+  ],
+  warnings: ['Model warning', 'Required criterion not observed: arrival/command'],
+};
+
+describe('applyCriterionEdit', () => {
+  it('rescores the scorecard and records the change with the AI verdict', () => {
+    const evidence = [{ quote: 'Engine 14 will be Main Street command', start: 14 }];
+    const edited = applyCriterionEdit(scorecard, rubric, {
+      sectionId: 'arrival',
+      criterionId: 'command',
+      assessment: { verdict: 'met', evidence },
+      reason: 'Command was established on TAC 2',
+      editedBy: 'Capt. Rivera',
+    });
+
+    const command = edited.sections[0].criteria[1];
+    expect(command).toMatchObject({ verdict: 'met', score: 1, evidence });
+    expect(command.aiAssessment).toEqual({
+      verdict: 'not_observed',
+      score: undefined,
+      evidence: [],
+      rationale: 'No command statement heard.',
+      confidence: 0.5,
+    });
+    expect(edited.sections[0]).toMatchObject({ score: 1, status: 'pass' });
+    expect(edited.overall).toEqual({ score: 1, status: 'pass' });
+    expect(edited.warnings).toEqual(['Model warning']);
+    expect(edited.edits).toHaveLength(1);
+    expect(edited.edits?.[0]).toMatchObject({
+      criterionId: 'command',
+      editedBy: 'Capt. Rivera',
+      before: { verdict: 'not_observed' },
+      after: { verdict: 'met', score: 1 },
+    });
+  });
+
+  it('keeps the original AI assessment across repeated edits', () => {
+    const first = applyCriterionEdit(scorecard, rubric, {
+      sectionId: 'arrival',
+      criterionId: 'size-up',
+      assessment: { verdict: 'partial', score: 0.5, evidence: [] },
+      reason: 'Incomplete size-up',
+      editedBy: 'Capt. Rivera',
+    });
+    const second = applyCriterionEdit(first, rubric, {
+      sectionId: 'arrival',
+      criterionId: 'size-up',
+      assessment: { verdict: 'missed', evidence: [] },
+      reason: 'No size-up on the correct channel',
+      editedBy: 'BC Ortiz',
+    });
+
+    const sizeUp = second.sections[0].criteria[0];
+    expect(sizeUp.aiAssessment?.verdict).toBe('met');
+    expect(second.edits?.map((e) => e.after.verdict)).toEqual(['partial', 'missed']);
+    expect(second.overall.score).toBe(0);
+  });
+
+  it('throws for a criterion that is not on the scorecard', () => {
+    expect(() =>
+      applyCriterionEdit(scorecard, rubric, {
+        sectionId: 'arrival',
+        criterionId: 'missing',
+        assessment: { verdict: 'met', evidence: [] },
+        reason: 'n/a',
+        editedBy: 'n/a',
+      }),
+    ).toThrow('Criterion not found');
+  });
+});
+
+describe('computeOverallScore', () => {
+  it('weights section scores', () => {
+    expect(
+      computeOverallScore([
+        { ...scorecard.sections[0], weight: 3, score: 1 },
+        { ...scorecard.sections[0], weight: 1, score: 0 },
+      ]),
+    ).toBe(0.75);
+  });
+});
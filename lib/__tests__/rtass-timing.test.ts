@@ -0,0 +1,132 @@
+import {
+  applyRadioTiming,
+  gradeElapsedTime,
+  resolveObservedEvent,
+} from '@/lib/rtass-timing';
+import type { RtassCriterion, RtassScorecardCriterion } from '@/types/rtass';
+import type { TranscriptSegment } from '@/types/transcript';
+
+const segments: TranscriptSegment[] = [
+  { index: 0, start: 10, end: 14, text: 'Engine 14 on scene, two-story residential.' },
+  { index: 1, start: 134, end: 140, text: 'Engine 14 arriving, establishing command.' },
+  { index: 2, start: 340, end: 346, text: 'Command, 360 complete, no exposures.' },
+];
+
+const threeSixty: RtassCriterion = {
+  id: '360-complete',
+  title: '360 complete within 3 minutes',
+  description: '360 reported within 3 minutes of arrival',
+  required: false,
+  type: 'timing',
+  timing: {
+    startEvent: 'first_unit_arrival',
+    endEvent: '360_complete',
+    targetSeconds: 180,
+    maxSeconds: 300,
+  },
+};
+
+const modelResult: RtassScorecardCriterion = {
+  criterionId: '360-complete',
+  title: '360 complete within 3 minutes',
+  verdict: 'met',
+  score: 1,
+  confidence: 0.6,
+  rationale: '360 was reported promptly.',
+  evidence: [{ quote: '360 complete', start: 340 }],
+  observedEvents: [
+    { name: 'first_unit_arrival', at: 135 },
+    { name: '360 complete', at: 341 },
+  ],
+};
+
+describe('gradeElapsedTime', () => {
+  it('scores between target and max as partial', () => {
+    const timing = { startEvent: 'a', endEvent: 'b', targetSeconds: 180, maxSeconds: 300 };
+    expect(gradeElapsedTime(150, timing)).toEqual({ verdict: 'met', score: 1 });
+    expect(gradeElapsedTime(240, timing)).toEqual({ verdict: 'partial', score: 0.5 });
+    expect(gradeElapsedTime(301, timing)).toEqual({ verdict: 'missed', score: 0 });
+  });
+});
+
+describe('resolveObservedEvent', () => {
+  it('snaps event times to the start of the transmission they fall in', () => {
+    expect(resolveObservedEvent('first_unit_arrival', modelResult.observedEvents!, segments)).toEqual({
+      name: 'first_unit_arrival',
+      at: 134,
+      segmentIndex: 1,
+    });
+  });
+
+  it('rejects times that do not line up with any transmission', () => {
+    const events = [{ name: 'first_unit_arrival', at: 60 }];
+    expect(resolveObservedEvent('first_unit_arrival', events, segments)).toBeNull();
+  });
+});
+
+describe('applyRadioTiming', () => {
+  it('computes the verdict from the elapsed time instead of trusting the model', () => {
+    const result = applyRadioTiming(modelResult, threeSixty, segments);
+
+    expect(result.verdict).toBe('partial');
+    expect(result.score).toBe(0.78);
+    expect(result.timing).toEqual({
+      startEvent: 'first_unit_arrival',
+      endEvent: '360_complete',
+      elapsedSeconds: 206,
+      source: 'radio',
+    });
+    expect(result.rationale).toBe(
+      'first unit arrival 00:02:14 → 360 complete 00:05:40 = 206s, target 180s, max 300s.',
+    );
+    expect(result.evidence).toEqual(modelResult.evidence);
+  });
+
+  it('marks the criterion not observed when an event cannot be verified', () => {
+    const result = applyRadioTiming(
+      { ...modelResult, observedEvents: [{ name: 'first_unit_arrival', at: 135 }] },
+      threeSixty,
+      segments,
+    );
+
+    expect(result.verdict).toBe('not_observed');
+    expect(result.score).toBeUndefined();
+    expect(result.rationale).toBe('Timing not verifiable: no radio timestamp confirmed for 360 complete.');
+  });
+
+  it('times the end from its first occurrence after the start, skipping a premature mention', () => {
+    const result = applyRadioTiming(
+      {
+        ...modelResult,
+        observedEvents: [{ name: '360 complete', at: 11 }, ...modelResult.observedEvents!],
+      },
+      threeSixty,
+      segments,
+    );
+
+    expect(result.verdict).toBe('partial');
+    expect(result.timing?.elapsedSeconds).toBe(206);
+  });
+
+  it('marks the criterion not observed when the end only precedes the start', () => {
+    const result = applyRadioTiming(
+      {
+        ...modelResult,
+        observedEvents: [
+          { name: 'first_unit_arrival', at: 341 },
+          { name: '360 complete', at: 135 },
+        ],
+      },
+      threeSixty,
+      segments,
+    );
+
+    expect(result.verdict).toBe('not_observed');
+    expect(result.rationale).toBe('Timing not verifiable: 360 complete precedes first unit arrival.');
+  });
+
+  it('leaves non-timing criteria alone', () => {
+    const boolean: RtassCriterion = { ...threeSixty, type: 'boolean', timing: undefined };
+    expect(applyRadioTiming(modelResult, boolean, segments)).toBe(modelResult);
+  });
+});
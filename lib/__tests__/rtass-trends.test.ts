@@ -0,0 +1,124 @@
+import {
+  buildCriterionTrends,
+  buildRubricTrends,
+  buildTrendRecords,
+  filterTrendRecords,
+  latestScorecards,
+  mostMissedCriteria,
+} from '@/lib/rtass-trends';
+import type { Incident } from '@/types/incident';
+import type { RtassScorecard, RtassVerdict } from '@/types/rtass';
+
+function makeScorecard(
+  id: string,
+  transcriptId: string,
+  createdAt: Date,
+  status: RtassScorecard['overall']['status'],
+  verdicts: Record<string, RtassVerdict>,
+): RtassScorecard {
+  return {
+    id,
+    incidentId: transcriptId,
+    transcriptId,
+    rubricTemplateId: 'afd',
+    createdAt,
+    modelInfo: { provider: 'openai', model: 'test' },
+    overall: { score: 0, status },
+    sections: [
+      {
+        sectionId: 'arrival',
+        title: 'Arrival',
+        weight: 1,
+        score: 0,
+        status,
+        criteria: Object.entries(verdicts).map(([criterionId, verdict]) => ({
+          criterionId,
+          title: criterionId,
+          verdict,
+          confidence: 1,
+          rationale: '',
+          evidence: [],
+        })),
+      },
+    ],
+  };
+}
+
+const scorecards = [
+  makeScorecard('a1', 't1', new Date(2026, 0, 5), 'fail', { 'size-up': 'missed', command: 'met' }),
+  makeScorecard('a2', 't1', new Date(2026, 0, 6), 'pass', { 'size-up': 'met', command: 'met' }),
+  makeScorecard('b', 't2', new Date(2026, 1, 3), 'fail', { 'size-up': 'not_observed', command: 'missed' }),
+  makeScorecard('c', 't3', new Date(2026, 1, 9), 'needs_improvement', { 'size-up': 'missed', command: 'not_applicable' }),
+];
+
+const incident: Incident = {
+  id: 'incident',
+  name: 'Structure fire',
+  occurredAt: new Date(2025, 11, 30, 6, 55),
+  department: 'AFD',
+  channels: [{ transcriptId: 't1', label: 'TAC' }],
+  transcriptIds: ['t1'],
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+};
+
+describe('latestScorecards', () => {
+  it('keeps the most recent scorecard per transcript and rubric', () => {
+    expect(latestScorecards(scorecards).map((s) => s.id).sort()).toEqual(['a2', 'b', 'c']);
+  });
+});
+
+describe('buildTrendRecords', () => {
+  it('takes the date and department from the incident, then the transcript', () => {
+    const records = buildTrendRecords({
+      scorecards: latestScorecards(scorecards),
+      incidents: [incident],
+      departments: new Map([['t2', 'ATCEMS']]),
+      visinetDocuments: [],
+    });
+
+    const byId = new Map(records.map((r) => [r.scorecard.id, r]));
+    expect(byId.get('a2')).toMatchObject({ occurredAt: incident.occurredAt, department: 'AFD' });
+    expect(byId.get('b')).toMatchObject({ occurredAt: new Date(2026, 1, 3), department: 'ATCEMS' });
+    expect(byId.get('c')?.department).toBeUndefined();
+  });
+});
+
+describe('trends', () => {
+  const records = latestScorecards(scorecards).map((scorecard) => ({
+    scorecard,
+    occurredAt: new Date(scorecard.createdAt),
+    battalion: scorecard.transcriptId === 't3' ? 'BC04' : 'BC02',
+  }));
+
+  it('counts scorecard statuses per month', () => {
+    const [rubric] = buildRubricTrends(records, new Map([['afd', 'AFD Benchmarks']]));
+
+    expect(rubric.title).toBe('AFD Benchmarks');
+    expect(rubric.counts).toEqual({ pass: 1, needsImprovement: 1, fail: 1, total: 3 });
+    expect(rubric.points.map((p) => [p.period, p.counts.total])).toEqual([
+      ['2026-01', 1],
+      ['2026-02', 2],
+    ]);
+  });
+
+  it('ranks criteria by misses and skips not applicable verdicts', () => {
+    const criteria = buildCriterionTrends(records);
+    const command = criteria.find((c) => c.criterionId === 'command');
+
+    expect(command?.counts.total).toBe(2);
+    expect(mostMissedCriteria(criteria).map((c) => [c.criterionId, c.missed, c.notObserved])).toEqual([
+      ['size-up', 1, 1],
+      ['command', 1, 0],
+    ]);
+  });
+
+  it('filters by battalion and date range', () => {
+    expect(filterTrendRecords(records, { battalion: 'BC04' }).map((r) => r.scorecard.id)).toEqual(['c']);
+    expect(
+      filterTrendRecords(records, { from: new Date(2026, 1, 1), to: new Date(2026, 1, 5) }).map(
+        (r) => r.scorecard.id,
+      ),
+    ).toEqual(['b']);
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  applySpeakerMap,
+  applySpeakerMapToScorecard,
+  createSpeakerMap,
+  listSpeakers,
+  mergeSpeakers,
+  nextSpeakerLabel,
+  renameSpeaker,
+  speakerNameOptions,
+  splitSpeaker,
+  suggestSpeakerNames,
+  unmergeSpeaker,
+} from '@/lib/speaker-map';
+import type { VisinetReport } from '@/lib/visinet-parser';
+import type { RtassScorecard } from '@/types/rtass';
+import type { Transcript } from '@/types/transcript';
+
+function makeTranscript(overrides: Partial<Transcript> = {}): Transcript {
+  return {
+    id: 't1',
+    filename: 'fire.mp3',
+    text: '',
+    createdAt: new Date(2026, 0, 20),
+    metadata: { model: 'test', fileSize: 1, duration: 60 },
+    segments: [
+      { index: 0, start: 0, end: 4, text: 'Dispatch, Engine 14 on scene, two-story residential.', speaker: 'A' },
+      { index: 1, start: 5, end: 7, text: 'Engine 14, copy on scene.', speaker: 'B' },
+      { index: 2, start: 8, end: 12, text: 'Engine 14 to Dispatch, we have smoke showing.', speaker: 'A' },
+      { index: 3, start: 13, end: 15, text: 'Ladder 3 on scene, going to the roof.', speaker: 'speaker_2' },
+      { index: 4, start: 16, end: 18, text: 'Copy.', speaker: 'B' },
+    ],
+    ...overrides,
+  };
+}
+
+describe('speaker map editing', () => {
+  it('applies renames, merges and splits without touching stored segments', () => {
+    let map = createSpeakerMap();
+    map = renameSpeaker(map, 'A', 'Engine 14');
+    map = renameSpeaker(map, 'B', 'Dispatch');
+    map = mergeSpeakers(map, 'speaker_2', 'A');
+    map = splitSpeaker(map, [3], 'Speaker 1');
+    map = renameSpeaker(map, 'Speaker 1', 'Ladder 3');
+
+    const transcript = makeTranscript({ speakerMap: map });
+    const mapped = applySpeakerMap(transcript);
+
+    expect(mapped.segments.map((s) => s.speaker)).toEqual([
+      'Engine 14',
+      'Dispatch',
+      'Engine 14',
+      'Ladder 3',
+      'Dispatch',
+    ]);
+    expect(transcript.segments[0].speaker).toBe('A');
+    expect(listSpeakers(transcript).map((s) => [s.label, s.name, s.segmentCount])).toEqual([
+      ['A', 'Engine 14', 2],
+      ['B', 'Dispatch', 2],
+      ['Speaker 1', 'Ladder 3', 1],
+    ]);
+    expect(listSpeakers(transcript)[0].mergedLabels).toEqual(['speaker_2']);
+  });
+
+  it('follows chained merges and restores a speaker on unmerge', () => {
+    let map = mergeSpeakers(createSpeakerMap(), 'speaker_2', 'B');
+    map = mergeSpeakers(map, 'B', 'A');
+    map = renameSpeaker(map, 'A', 'Engine 14');
+
+    expect(new Set(applySpeakerMap(makeTranscript({ speakerMap: map })).segments.map((s) => s.speaker))).toEqual(
+      new Set(['Engine 14']),
+    );
+
+    map = unmergeSpeaker(map, 'B');
+    const names = applySpeakerMap(makeTranscript({ speakerMap: map })).segments.map((s) => s.speaker);
+    expect(names).toEqual(['Engine 14', 'B', 'Engine 14', 'B', 'B']);
+  });
+
+  it('clears a rename when the name is blank and picks an unused split label', () => {
+    const map = renameSpeaker(renameSpeaker(createSpeakerMap(), 'A', 'Engine 14'), 'A', '  ');
+    expect(map.names).toEqual({});
+
+    const transcript = makeTranscript({
+      segments: [{ index: 0, start: 0, end: 1, text: 'Copy.', speaker: 'Speaker 1' }],
+    });
+    expect(nextSpeakerLabel(transcript)).toBe('Speaker 2');
+  });
+
+  it('renames diarized speakers quoted in scorecard evidence', () => {
+    const scorecard = {
+      sections: [
+        {
+          criteria: [{ evidence: [{ quote: 'on scene', start: 0, speaker: 'A' }, { quote: 'copy', start: 5 }] }],
+        },
+      ],
+    } as unknown as RtassScorecard;
+    const map = renameSpeaker(createSpeakerMap(), 'A', 'Engine 14');
+
+    const [evidence] = applySpeakerMapToScorecard(scorecard, map).sections[0].criteria[0].evidence;
+    expect(evidence.speaker).toBe('Engine 14');
+  });
+});
+
+describe('suggestSpeakerNames', () => {
+  const report = {
+    unitsAssigned: [{ unit: 'E14' }, { unit: 'BC04' }],
+    personnel: [{ unit: 'E14', personnel: ['Capt. R. Diaz', 'FF J. Lee'] }],
+  } as unknown as VisinetReport;
+
+  it('suggests the call sign a speaker transmits under, checked against CAD', () => {
+    const suggestions = suggestSpeakerNames(makeTranscript(), report);
+
+    expect(suggestions).toEqual([
+      { label: 'A', name: 'Engine 14', count: 2, onCad: true, crew: ['Capt. R. Diaz', 'FF J. Lee'] },
+      { label: 'speaker_2', name: 'Ladder 3', count: 1, onCad: false, crew: [] },
+    ]);
+  });
+
+  it('skips speakers that are already named', () => {
+    const transcript = makeTranscript({ speakerMap: renameSpeaker(createSpeakerMap(), 'A', 'Engine 14') });
+    expect(suggestSpeakerNames(transcript).map((s) => s.label)).toEqual(['speaker_2']);
+  });
+
+  it('offers CAD units and crew as names', () => {
+    expect(speakerNameOptions(report)).toEqual([
+      'Dispatch',
+      'Command',
+      'Engine 14',
+      'Battalion 4',
+      'Capt. R. Diaz (Engine 14)',
+      'FF J. Lee (Engine 14)',
+    ]);
+  });
+});
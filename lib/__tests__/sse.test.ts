@@ -0,0 +1,59 @@
+import { createSseResponse, readSseEvents, type SseEvent } from '@/lib/sse';
+
+describe('server-sent events', () => {
+  it('streams events in order and reads them back across chunk boundaries', async () => {
+    const response = createSseResponse(async (send) => {
+      send('section', { index: 1, title: 'Size-up' });
+      send('section', { index: 0, title: 'Arrival\nreport' });
+      send('scorecard', { overall: 0.75 });
+    });
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+
+    // Re-chunk the body into 7-byte pieces
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const chunked = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += 7) {
+          controller.enqueue(bytes.slice(i, i + 7));
+        }
+        controller.close();
+      },
+    });
+
+    const events: SseEvent[] = [];
+    await readSseEvents(new Response(chunked), (event) => events.push(event));
+
+    expect(events).toEqual([
+      { event: 'section', data: { index: 1, title: 'Size-up' } },
+      { event: 'section', data: { index: 0, title: 'Arrival\nreport' } },
+      { event: 'scorecard', data: { overall: 0.75 } },
+    ]);
+  });
+
+  it('ends with an error event when the work fails, and aborts it when the reader gives up', async () => {
+    const failed: SseEvent[] = [];
+    await readSseEvents(
+      createSseResponse(async (send) => {
+        send('section', { index: 0 });
+        throw new Error('Rate limit exceeded');
+      }),
+      (event) => failed.push(event)
+    );
+    expect(failed.map((e) => e.event)).toEqual(['section', 'error']);
+    expect(failed[1].data).toEqual({ message: 'Rate limit exceeded' });
+
+    let runSignal: AbortSignal | undefined;
+    const response = createSseResponse(async (send, signal) => {
+      runSignal = signal;
+      send('section', { index: 0 });
+      await new Promise((resolve) => signal.addEventListener('abort', resolve));
+    });
+
+    await expect(
+      readSseEvents(response, () => {
+        throw new Error('stop');
+      })
+    ).rejects.toThrow('stop');
+    expect(runSignal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  applyTranscriptRevision,
+  isStaleForTranscript,
+  mergeWithNext,
+  splitSegment,
+  updateSegment,
+  validateSegments,
+} from '@/lib/transcript-editing';
+import type { Transcript, TranscriptSegment } from '@/types/transcript';
+
+const segments: TranscriptSegment[] = [
+  { index: 0, start: 0, end: 4, text: 'Engine 41 on scene at 1200 Lamar.', speaker: 'A' },
+  { index: 1, start: 4, end: 6, text: 'Copy Engine 41.', speaker: 'B' },
+  { index: 2, start: 7, end: 9, text: 'Engine 14 assuming command.', speaker: 'A' },
+];
+
+function makeTranscript(overrides: Partial<Transcript> = {}): Transcript {
+  return {
+    id: 't1',
+    filename: 'fire.mp3',
+    text: 'Engine 41 on scene at 1200 Lamar. Copy Engine 41. Engine 14 assuming command.',
+    segments,
+    createdAt: new Date(2026, 0, 20),
+    metadata: { model: 'whisper-1', fileSize: 1, duration: 9 },
+    ...overrides,
+  };
+}
+
+describe('segment editing', () => {
+  it('splits at the next word boundary and interpolates the time', () => {
+    const split = splitSegment(segments, 0, 12);
+
+    expect(split).toHaveLength(4);
+    expect(split[0]).toMatchObject({ index: 0, text: 'Engine 41 on', start: 0, end: 1.45 });
+    expect(split[1]).toMatchObject({ index: 0, text: 'scene at 1200 Lamar.', start: 1.45, end: 4 });
+    expect(splitSegment(segments, 1, 0)).toBe(segments);
+    expect(splitSegment(segments, 1, 'Copy Engine 41.'.length)).toBe(segments);
+  });
+
+  it('merges a segment with the next one', () => {
+    const merged = mergeWithNext(segments, 0);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({
+      text: 'Engine 41 on scene at 1200 Lamar. Copy Engine 41.',
+      start: 0,
+      end: 6,
+      speaker: 'A',
+    });
+    expect(mergeWithNext(segments, 2)).toBe(segments);
+  });
+
+  it('reports timing and empty-text problems', () => {
+    const draft = updateSegment(updateSegment(segments, 1, { end: 3 }), 2, { text: ' ' });
+
+    expect(validateSegments(draft)).toEqual([
+      'Segment 2 must end after it starts.',
+      'Segment 3 has no text.',
+    ]);
+    expect(validateSegments(segments)).toEqual([]);
+  });
+});
+
+describe('applyTranscriptRevision', () => {
+  it('keeps the machine transcript and records each revision', () => {
+    const transcript = makeTranscript();
+    const draft = updateSegment(segments, 0, { text: 'Engine 14 on scene at 1200 Lamar.' });
+
+    const first = applyTranscriptRevision(transcript, {
+      draft,
+      editedBy: ' Lt. Ramos ',
+      note: 'Fixed unit number',
+      editedAt: new Date(2026, 0, 21),
+    });
+
+    expect(first.revision).toBe(1);
+    expect(first.text).toBe('Engine 14 on scene at 1200 Lamar. Copy Engine 41. Engine 14 assuming command.');
+    expect(first.original).toEqual({ text: transcript.text, segments });
+    expect(first.revisions).toEqual([
+      { revision: 1, editedAt: new Date(2026, 0, 21), editedBy: 'Lt. Ramos', note: 'Fixed unit number', segments: first.segments },
+    ]);
+
+    const second = applyTranscriptRevision(first, { draft: mergeWithNext(first.segments, 0), editedBy: 'Lt. Ramos' });
+    expect(second.revision).toBe(2);
+    expect(second.original).toBe(first.original);
+    expect(second.segments.map((s) => s.index)).toEqual([0, 1]);
+    expect(second.revisions?.map((r) => r.revision)).toEqual([1, 2]);
+  });
+
+  it('carries speaker map overrides to the new segment numbers', () => {
+    const transcript = makeTranscript({ speakerMap: { names: {}, segments: { 2: 'Speaker 3' } } });
+
+    const revised = applyTranscriptRevision(transcript, {
+      draft: splitSegment(segments, 0, 12),
+      editedBy: 'Lt. Ramos',
+    });
+    expect(revised.speakerMap?.segments).toEqual({ 3: 'Speaker 3' });
+
+    const respoken = applyTranscriptRevision(transcript, {
+      draft: updateSegment(segments, 2, { speaker: 'C' }),
+      editedBy: 'Lt. Ramos',
+    });
+    expect(respoken.speakerMap?.segments).toEqual({});
+  });
+
+  it('flags analyses generated from an older revision as stale', () => {
+    const revised = makeTranscript({ revision: 2 });
+
+    expect(isStaleForTranscript({}, revised)).toBe(true);
+    expect(isStaleForTranscript({ transcriptRevision: 1 }, revised)).toBe(true);
+    expect(isStaleForTranscript({ transcriptRevision: 2 }, revised)).toBe(false);
+    expect(isStaleForTranscript({}, makeTranscript())).toBe(false);
+  });
+});
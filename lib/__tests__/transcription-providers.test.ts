@@ -0,0 +1,46 @@
+import {
+  getTranscriptionProvider,
+  isLocalTranscription,
+  resetTranscriptionProvider,
+  resolveTranscriptionModel,
+  toTranscriptionProviderStatus,
+} from '@/lib/transcription-providers';
+
+describe('transcription providers', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetTranscriptionProvider();
+  });
+
+  it('uses the local server when its URL is set, with its models and capabilities', () => {
+    vi.stubEnv('LOCAL_TRANSCRIPTION_BASE_URL', 'http://localhost:8080/v1');
+    vi.stubEnv('LOCAL_TRANSCRIPTION_MODEL', 'large-v3');
+    vi.stubEnv('LOCAL_TRANSCRIPTION_MODELS', 'small, large-v3');
+    vi.stubEnv('LOCAL_TRANSCRIPTION_LANGUAGE_DETECTION', 'false');
+
+    const provider = getTranscriptionProvider();
+
+    expect(toTranscriptionProviderStatus(provider)).toEqual({
+      provider: 'local',
+      label: 'Local Whisper server',
+      defaultModel: 'large-v3',
+      models: ['large-v3', 'small'],
+      capabilities: { diarization: false, wordTimestamps: true, languageDetection: false },
+    });
+    expect(resolveTranscriptionModel(provider, 'small')).toBe('small');
+    expect(resolveTranscriptionModel(provider, 'gpt-4o-transcribe-diarize')).toBe('large-v3');
+  });
+
+  it('honours TRANSCRIPTION_PROVIDER and rejects bad local settings', () => {
+    vi.stubEnv('LOCAL_TRANSCRIPTION_BASE_URL', 'http://localhost:8080/v1');
+    vi.stubEnv('TRANSCRIPTION_PROVIDER', 'cloud');
+    expect(isLocalTranscription()).toBe(false);
+
+    vi.stubEnv('TRANSCRIPTION_PROVIDER', 'on-prem');
+    expect(() => isLocalTranscription()).toThrow(/TRANSCRIPTION_PROVIDER/);
+
+    vi.stubEnv('TRANSCRIPTION_PROVIDER', 'local');
+    vi.stubEnv('LOCAL_TRANSCRIPTION_DIARIZATION', 'yes');
+    expect(() => getTranscriptionProvider()).toThrow(/LOCAL_TRANSCRIPTION_DIARIZATION/);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  collectUnitActivity,
+  normalizeUnitLabel,
+  summarizeUnits,
+} from '@/lib/unit-attribution';
+import type { Analysis } from '@/types/analysis';
+import type { RtassScorecard } from '@/types/rtass';
+
+describe('normalizeUnitLabel', () => {
+  it('maps radio and CAD spellings onto one unit name', () => {
+    expect(normalizeUnitLabel('Engine 14')).toBe('Engine 14');
+    expect(normalizeUnitLabel('ENG14')).toBe('Engine 14');
+    expect(normalizeUnitLabel('E-14')).toBe('Engine 14');
+    expect(normalizeUnitLabel('BC04')).toBe('Battalion 4');
+    expect(normalizeUnitLabel('Engine 25 assuming command')).toBe('Engine 25');
+  });
+
+  it('recognizes roles and ignores diarization placeholders', () => {
+    expect(normalizeUnitLabel('Main Street Command')).toBe('Command');
+    expect(normalizeUnitLabel('SPEAKER_01')).toBeNull();
+    expect(normalizeUnitLabel('  ')).toBeNull();
+    expect(normalizeUnitLabel(undefined)).toBeNull();
+  });
+});
+
+describe('collectUnitActivity', () => {
+  const scorecard: RtassScorecard = {
+    id: 'scorecard',
+    incidentId: 'incident',
+    transcriptId: 't1',
+    rubricTemplateId: 'afd',
+    createdAt: new Date(2026, 0, 21),
+    modelInfo: { provider: 'openai', model: 'test' },
+    overall: { score: 0.5, status: 'fail' },
+    sections: [
+      {
+        sectionId: 'arrival',
+        title: 'Arrival',
+        weight: 1,
+        score: 0.5,
+        status: 'fail',
+        criteria: [
+          {
+            criterionId: 'size-up',
+            title: 'Size-up',
+            verdict: 'met',
+            confidence: 1,
+            rationale: '',
+            evidence: [
+              { quote: 'Engine 14 on scene, two-story residential', start: 12, speaker: 'E14' },
+              { quote: 'Copy Engine 14', start: 15, speaker: 'Dispatch' },
+            ],
+          },
+          {
+            criterionId: 'command',
+            title: 'Command',
+            verdict: 'missed',
+            confidence: 1,
+            rationale: '',
+            evidence: [{ quote: 'Engine 14 investigating', start: 20, speaker: 'Engine 14' }],
+          },
+        ],
+      },
+    ],
+  };
+
+  const analysis = {
+    id: 'analysis',
+    transcriptId: 't2',
+    templateId: 'fireground',
+    analysisStrategy: 'basic',
+    createdAt: new Date(2026, 1, 2),
+    results: {
+      sections: [],
+      radioReports: [
+        { id: 'r1', type: 'initial_radio_report', timestamp: 30, from: 'ENG14', missingRequired: ['occupancy'] },
+      ],
+      safetyEvents: [
+        { id: 's1', type: 'par', severity: 'info', timestamp: 600, unitOrRole: 'Battalion 2', details: 'PAR complete' },
+      ],
+    },
+  } as unknown as Analysis;
+
+  it('attributes criteria to evidence speakers and observations to units', () => {
+    const activities = collectUnitActivity({
+      scorecards: [scorecard],
+      analyses: [analysis],
+      resolveContext: (transcriptId) =>
+        transcriptId === 't1' ? { occurredAt: new Date(2026, 0, 20) } : {},
+    });
+
+    const [engine, ...rest] = summarizeUnits(activities);
+    expect(engine).toMatchObject({
+      unit: 'Engine 14',
+      incidents: 2,
+      met: 1,
+      missed: 1,
+      radioReports: 1,
+      incompleteReports: 1,
+    });
+    expect(engine.activities[0]).toMatchObject({ kind: 'radio_report', label: 'Initial radio report' });
+    expect(engine.activities.at(-1)?.occurredAt).toEqual(new Date(2026, 0, 20));
+    expect(rest.map((s) => s.unit).sort()).toEqual(['Battalion 2', 'Dispatch']);
+  });
+});
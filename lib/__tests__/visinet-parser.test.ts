@@ -8,6 +8,7 @@ import {
   parseVisinetReport,
   formatVisinetForAnalysis,
   extractIncidentMetadata,
+  extractVisinetEvents,
 } from "../visinet-parser";
 
 // Sample Visinet text extracted from a real report
@@ -171,3 +172,23 @@ describe("extractIncidentMetadata", () => {
     expect(metadata.fireUnderControlTime).toBe("07:17:50");
   });
 });
+
+describe("extractVisinetEvents", () => {
+  test("collects dispatch, unit and custom time stamps in order", () => {
+    const report = parseVisinetReport(sampleVisinetText);
+    const events = extractVisinetEvents(report);
+
+    expect(events[0]).toMatchObject({ id: "phonePickup", source: "timestamp" });
+
+    const eng14Arrived = events.find((e) => e.id === "unit:ENG14:arrived");
+    expect(eng14Arrived?.label).toBe("ENG14 arrived");
+    expect(eng14Arrived?.at).toEqual(new Date(2026, 0, 21, 7, 0, 9));
+
+    const underControl = events.find((e) => e.label === "Fire Under Control");
+    expect(underControl?.source).toBe("custom");
+    expect(underControl?.at).toEqual(new Date(2026, 0, 21, 7, 17, 50));
+
+    const times = events.map((e) => e.at.getTime());
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+  });
+});
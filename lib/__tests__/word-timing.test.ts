@@ -0,0 +1,84 @@
+import { mapEvidenceToSegments } from '@/lib/scorecard-evidence-utils';
+import { splitSegment, updateSegment } from '@/lib/transcript-editing';
+import {
+  alignWordsToText,
+  assignWordsToSegments,
+  findActiveWordIndex,
+  findQuoteTiming,
+} from '@/lib/word-timing';
+import type { RtassScorecard } from '@/types/rtass';
+import type { TranscriptSegment, TranscriptWord } from '@/types/transcript';
+
+const words: TranscriptWord[] = [
+  { word: 'Engine', start: 0, end: 0.4 },
+  { word: '41', start: 0.4, end: 0.8 },
+  { word: 'on', start: 0.9, end: 1 },
+  { word: 'scene', start: 1, end: 1.4 },
+  { word: 'callback', start: 2, end: 2.5 },
+  { word: '512', start: 2.6, end: 2.9 },
+  { word: '555', start: 2.9, end: 3.2 },
+  { word: '0187', start: 3.2, end: 3.7 },
+];
+
+const segments: TranscriptSegment[] = assignWordsToSegments(
+  [
+    { index: 0, start: 0, end: 1.5, text: 'Engine 41, on scene.' },
+    { index: 1, start: 2, end: 4, text: 'Callback 512-555-0187.' },
+  ],
+  words
+);
+
+describe('word timing', () => {
+  it('assigns words to segments and lines them up with the text', () => {
+    expect(segments[0].words).toHaveLength(4);
+    expect(segments[1].words).toHaveLength(4);
+
+    const tokens = alignWordsToText(segments[1].text, segments[1].words!);
+    expect(tokens.map((t) => t.text).join('')).toBe(segments[1].text);
+    expect(tokens[2]).toMatchObject({ text: '512-555-0187.', firstWord: 1, lastWord: 3, start: 2.6 });
+
+    expect(findActiveWordIndex(segments[0].words, 0.95)).toBe(2);
+    expect(findActiveWordIndex(segments[0].words, -1)).toBe(-1);
+  });
+
+  it('splits word timings with the segment and drops them on text edits', () => {
+    const split = splitSegment(segments, 0, 'Engine 41,'.length);
+
+    expect(split[0]).toMatchObject({ text: 'Engine 41,', end: 0.9 });
+    expect(split[0].words).toHaveLength(2);
+    expect(split[1]).toMatchObject({ text: 'on scene.', start: 0.9 });
+    expect(split[1].words).toHaveLength(2);
+
+    expect(updateSegment(segments, 0, { speaker: 'A' })[0].words).toBe(segments[0].words);
+    expect(updateSegment(segments, 0, { text: 'Engine 14 on scene.' })[0].words).toBeUndefined();
+  });
+
+  it('times evidence quotes, looking in neighbouring segments', () => {
+    expect(findQuoteTiming(segments[0], 'on scene')).toEqual({
+      firstWord: 2,
+      lastWord: 3,
+      start: 0.9,
+      end: 1.4,
+    });
+
+    const scorecard = {
+      sections: [
+        {
+          criteria: [
+            {
+              criterionId: 'c1',
+              title: 'Callback obtained',
+              verdict: 'met',
+              // Timestamp points at the first segment; the quote is in the second
+              evidence: [{ quote: 'callback 512-555-0187', start: 1 }],
+            },
+          ],
+        },
+      ],
+    } as unknown as RtassScorecard;
+
+    const markers = mapEvidenceToSegments(scorecard, segments);
+    expect(markers.get(0)).toBeUndefined();
+    expect(markers.get(1)?.[0].quoteTiming).toMatchObject({ start: 2, end: 3.7 });
+  });
+});
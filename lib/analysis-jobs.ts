@@ -0,0 +1,320 @@
+/**
+ * Analysis Jobs
+ *
+ * In-memory registry of background analysis runs. POST /api/analyze starts a
+ * job and returns its ID straight away; the analysis keeps running after the
+ * response and checkpoints as each phase from getStrategyPhases() starts.
+ * GET /api/analyze/[id] reports progress, partial results and, once done,
+ * the finished analysis, so a client that reloads or loses its connection
+ * can pick the run back up. GET /api/analyze/[id]/events streams the same
+ * updates as they happen (subscribeAnalysisJob()).
+ *
+ * Privacy notes:
+ * - A job never holds the transcript. The transcript is only referenced by
+ *   the running analysis and is released when it settles.
+ * - Finished results are dropped when the client collects them
+ *   (DELETE /api/analyze/[id]) or after ANALYSIS_JOB_TTL_MS. Deleting a
+ *   running job also aborts its in-flight model calls.
+ *
+ * Like lib/rate-limit.ts this is per-instance: a client must poll the
+ * replica that started its job.
+ */
+
+import type { Analysis, AnalysisJob, AnalysisResults } from '@/types/analysis';
+import type { Template } from '@/types/template';
+import type { AnalysisStrategy } from '@/lib/analysis-strategy';
+import { getStrategyPhases, type ProgressPhase } from '@/lib/analysis-progress-metadata';
+
+/** How long a finished job waits to be collected */
+export const ANALYSIS_JOB_TTL_MS = 30 * 60 * 1000; // 30 minutes
+
+/** Jobs older than this are dropped even if their analysis never settled */
+const MAX_JOB_AGE_MS = 2 * 60 * 60 * 1000; // 2 hours
+
+/** Upper bound on jobs held at once; the oldest finished jobs go first */
+const MAX_JOBS = 200;
+
+/**
+ * Records checkpoints for a running job. The methods line up with the
+ * strategyCallback, progressCallback and evaluationCallback options of
+ * executeAnalysis().
+ */
+export interface AnalysisJobReporter {
+  /** A strategy attempt started (the first one, or a fallback) */
+  startStrategy(strategy: AnalysisStrategy): void;
+
+  /** A batch or section started; partialResults holds the completed ones */
+  checkpoint(current: number, total: number, partialResults?: Partial<AnalysisResults>): void;
+
+  /** The self-evaluation pass started */
+  startEvaluation(draftResults: AnalysisResults): void;
+}
+
+/**
+ * Receives a job after each update, or undefined once it has been discarded
+ */
+export type AnalysisJobListener = (job: AnalysisJob | undefined) => void;
+
+interface JobEntry {
+  job: AnalysisJob;
+  template: Template;
+  runEvaluation: boolean;
+  phases: ProgressPhase[];
+  abortController: AbortController;
+  listeners: Set<AnalysisJobListener>;
+}
+
+// Kept on globalThis so /api/analyze and /api/analyze/[id] share one registry
+// even when the bundler loads this module once per route.
+const globalStore = globalThis as typeof globalThis & {
+  __analysisJobs?: Map<string, JobEntry>;
+};
+const jobs = (globalStore.__analysisJobs ??= new Map<string, JobEntry>());
+
+/** Phases that cover the analysis passes (everything but review and saving) */
+function analysisPhasesOf(phases: ProgressPhase[]): ProgressPhase[] {
+  return phases.filter((phase) => phase.id !== 'evaluation' && phase.id !== 'saving');
+}
+
+function notifyListeners(entry: JobEntry, job: AnalysisJob | undefined): void {
+  for (const listener of entry.listeners) {
+    try {
+      listener(job);
+    } catch {
+      // A listener whose client has gone must not stop the analysis
+    }
+  }
+}
+
+/**
+ * Remove a job: a running analysis is aborted and subscribers are told the
+ * job is gone.
+ */
+function discardJob(entry: JobEntry): void {
+  jobs.delete(entry.job.id);
+  entry.abortController.abort();
+  notifyListeners(entry, undefined);
+  entry.listeners.clear();
+}
+
+function enterPhase(entry: JobEntry, phase: ProgressPhase | undefined, progress?: number): void {
+  const now = Date.now();
+  const { job } = entry;
+
+  if (phase && phase.id !== job.currentPhase?.id) {
+    job.phaseStartedAt = now;
+  }
+  if (phase) {
+    job.currentPhase = { id: phase.id, name: phase.name, range: phase.range };
+    job.message = phase.message;
+    job.progress = progress ?? phase.range[0];
+    job.completedPhases = entry.phases
+      .slice(0, entry.phases.indexOf(phase))
+      .map((p) => p.id);
+  }
+  job.updatedAt = now;
+}
+
+/**
+ * Drop finished jobs past their TTL, jobs past the maximum age, and the
+ * oldest finished jobs when over capacity.
+ */
+function pruneJobs(): void {
+  const now = Date.now();
+
+  for (const entry of jobs.values()) {
+    const { job } = entry;
+    if ((job.expiresAt !== undefined && job.expiresAt <= now) || now - job.startedAt > MAX_JOB_AGE_MS) {
+      discardJob(entry);
+    }
+  }
+
+  if (jobs.size > MAX_JOBS) {
+    const finished = Array.from(jobs.values())
+      .filter(({ job }) => job.status !== 'running')
+      .sort((a, b) => a.job.updatedAt - b.job.updatedAt);
+
+    for (const { job } of finished.slice(0, jobs.size - MAX_JOBS)) {
+      jobs.delete(job.id);
+    }
+  }
+}
+
+function createReporter(entry: JobEntry): AnalysisJobReporter {
+  const isLive = () => jobs.get(entry.job.id) === entry && entry.job.status === 'running';
+
+  return {
+    startStrategy(strategy) {
+      if (!isLive()) return;
+      entry.phases = getStrategyPhases(strategy, entry.template, entry.runEvaluation);
+      entry.job.strategy = strategy;
+      entry.job.partialResults = undefined;
+      entry.job.currentPhase = undefined;
+      enterPhase(entry, entry.phases[0]);
+      notifyListeners(entry, entry.job);
+    },
+
+    checkpoint(current, total, partialResults) {
+      if (!isLive() || total <= 0) return;
+      const analysisPhases = analysisPhasesOf(entry.phases);
+      if (analysisPhases.length === 0) return;
+
+      if (partialResults) {
+        entry.job.partialResults = structuredClone(partialResults);
+      }
+
+      // One phase per batch or section maps directly; grouped sections
+      // (advanced with many sections) map by position in the phase range
+      if (analysisPhases.length === total) {
+        enterPhase(entry, analysisPhases[Math.min(current, total) - 1]);
+      } else {
+        const start = analysisPhases[0].range[0];
+        const end = analysisPhases[analysisPhases.length - 1].range[1];
+        const position = start + ((Math.min(current, total) - 1) / total) * (end - start);
+        const phase = [...analysisPhases].reverse().find((p) => p.range[0] <= position);
+        enterPhase(entry, phase, Math.round(position));
+      }
+      notifyListeners(entry, entry.job);
+    },
+
+    startEvaluation(draftResults) {
+      if (!isLive()) return;
+      entry.job.partialResults = structuredClone(draftResults);
+      enterPhase(
+        entry,
+        entry.phases.find((phase) => phase.id === 'evaluation')
+      );
+      notifyListeners(entry, entry.job);
+    },
+  };
+}
+
+/**
+ * Start a background analysis job.
+ *
+ * `run` does the analysis and resolves with the finished Analysis; it is
+ * not awaited. Its rejection message becomes the job's error. `signal`
+ * aborts when the job is discarded; pass it on to the model calls.
+ *
+ * @returns The new job, in status 'running'
+ */
+export function startAnalysisJob(
+  input: {
+    transcriptId: string;
+    templateId: string;
+    template: Template;
+    runEvaluation: boolean;
+  },
+  run: (reporter: AnalysisJobReporter, signal: AbortSignal) => Promise<Analysis>
+): AnalysisJob {
+  pruneJobs();
+
+  const now = Date.now();
+  const entry: JobEntry = {
+    job: {
+      id: crypto.randomUUID(),
+      transcriptId: input.transcriptId,
+      templateId: input.templateId,
+      status: 'running',
+      progress: 0,
+      message: 'Starting analysis...',
+      completedPhases: [],
+      startedAt: now,
+      phaseStartedAt: now,
+      updatedAt: now,
+    },
+    template: input.template,
+    runEvaluation: input.runEvaluation,
+    phases: [],
+    abortController: new AbortController(),
+    listeners: new Set(),
+  };
+  jobs.set(entry.job.id, entry);
+
+  const settle = (update: Partial<AnalysisJob>) => {
+    // Discarded while running: let the result go
+    if (jobs.get(entry.job.id) !== entry) return;
+
+    const finishedAt = Date.now();
+    Object.assign(entry.job, update, {
+      partialResults: undefined,
+      updatedAt: finishedAt,
+      expiresAt: finishedAt + ANALYSIS_JOB_TTL_MS,
+    });
+    notifyListeners(entry, entry.job);
+    entry.listeners.clear();
+  };
+
+  run(createReporter(entry), entry.abortController.signal)
+    .then((analysis) => {
+      // Saving happens in the browser, so the server's part ends where it starts
+      const saving = entry.phases.find((phase) => phase.id === 'saving');
+      enterPhase(entry, saving);
+      settle({
+        status: 'completed',
+        analysis,
+        message: 'Analysis ready',
+        completedPhases: entry.phases.filter((phase) => phase !== saving).map((p) => p.id),
+      });
+    })
+    .catch((error: unknown) => {
+      settle({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
+  return entry.job;
+}
+
+/**
+ * Get a job by ID, or undefined if it never existed, was collected, or expired.
+ */
+export function getAnalysisJob(id: string): AnalysisJob | undefined {
+  pruneJobs();
+  return jobs.get(id)?.job;
+}
+
+/**
+ * Follow a job's updates. The listener is called after every checkpoint
+ * and once more when the job finishes or is discarded; it is not called
+ * for a job that has already finished.
+ *
+ * @returns Unsubscribe function, or undefined if there is no such job
+ */
+export function subscribeAnalysisJob(
+  id: string,
+  listener: AnalysisJobListener
+): (() => void) | undefined {
+  const entry = jobs.get(id);
+  if (!entry) return undefined;
+
+  if (entry.job.status === 'running') {
+    entry.listeners.add(listener);
+  }
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+/**
+ * Discard a job. A running analysis is aborted and whatever it returns is
+ * thrown away.
+ *
+ * @returns Whether the job existed
+ */
+export function deleteAnalysisJob(id: string): boolean {
+  const entry = jobs.get(id);
+  if (!entry) return false;
+
+  discardJob(entry);
+  return true;
+}
+
+/** For testing: drop every job */
+export function resetAnalysisJobs(): void {
+  for (const entry of jobs.values()) {
+    entry.abortController.abort();
+  }
+  jobs.clear();
+}
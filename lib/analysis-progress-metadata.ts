@@ -391,6 +391,28 @@ export function calculatePhaseProgress(
   };
 }
 
+/**
+ * Progress within a checkpointed phase of a server-side analysis job.
+ * Eases from the phase start toward (never past) its end while the phase
+ * runs, paced by the phase's share of the estimated total time.
+ *
+ * @param range - The phase's progress range [start%, end%]
+ * @param phaseElapsedSeconds - Time since the phase started
+ * @param totalEstimatedSeconds - From calculateEstimatedTime()
+ */
+export function estimatePhaseProgress(
+  range: [number, number],
+  phaseElapsedSeconds: number,
+  totalEstimatedSeconds: number
+): number {
+  const [start, end] = range;
+  const phaseSeconds = Math.max(1, (totalEstimatedSeconds * (end - start)) / 100);
+  const fraction = 1 - Math.exp(-Math.max(0, phaseElapsedSeconds) / phaseSeconds);
+
+  // Stop short of the end so the next checkpoint always moves progress forward
+  return Math.floor(start + (end - start) * 0.9 * fraction);
+}
+
 /**
  * Format time remaining for display
  */
@@ -26,6 +26,7 @@ import type {
 } from "@/types";
 import type { TranscriptAnnotation } from "@/types/annotation";
 import type OpenAI from "openai";
+import { extractJsonText, jsonResponseFormat } from "@/lib/llm-providers";
 import {
   formatOutputType,
   postProcessResults,
@@ -47,6 +48,8 @@ import { executeEvaluationPass } from "./evaluator";
 export interface AdvancedAnalysisConfig {
   /** Whether to run self-evaluation pass after analysis */
   runEvaluation?: boolean;
+  /** Called with the draft results as the self-evaluation pass starts */
+  evaluationCallback?: (draftResults: AnalysisResults) => void;
   /**
    * Supplemental source material text.
    * Extracted from uploaded Word docs, PDFs, PowerPoints, or pasted text.
@@ -1262,6 +1265,7 @@ export async function executeAdvancedAnalysis(
     current: number,
     total: number,
     sectionName: string,
+    partialResults?: Partial<AnalysisResults>,
   ) => void,
   config?: AdvancedAnalysisConfig,
 ): Promise<AdvancedAnalysisResult> {
@@ -1382,7 +1386,7 @@ export async function executeAdvancedAnalysis(
             deployment,
             ANALYSIS_CONSTANTS.ADVANCED_TEMPERATURE,
           ),
-          response_format: { type: "json_object" },
+          ...jsonResponseFormat(deployment),
         });
 
         // Validate response before returning
@@ -1452,7 +1456,7 @@ export async function executeAdvancedAnalysis(
     // Parse JSON response
     let parsedResponse: unknown;
     try {
-      parsedResponse = JSON.parse(content);
+      parsedResponse = JSON.parse(extractJsonText(content));
       parsedResponse = normalizeAnalysisJsonKeys(parsedResponse);
     } catch (error) {
       logger.error(
@@ -1527,7 +1531,12 @@ export async function executeAdvancedAnalysis(
 
     // Notify progress
     if (progressCallback) {
-      progressCallback(sectionIndex + 1, totalSections, section.name);
+      progressCallback(
+        sectionIndex + 1,
+        totalSections,
+        section.name,
+        accumulated,
+      );
     }
 
     // Process this section sequentially
@@ -1700,6 +1709,7 @@ export async function executeAdvancedAnalysis(
   // Check if self-evaluation should run
   if (config?.runEvaluation) {
     logger.info("Advanced Analysis", "Running self-evaluation pass");
+    config.evaluationCallback?.(draftResults);
     const { evaluation, finalResults } = await executeEvaluationPass(
       template,
       transcript,
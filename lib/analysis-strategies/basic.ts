@@ -29,6 +29,11 @@ import type {
 } from "@/types";
 import type { TranscriptAnnotation } from "@/types/annotation";
 import type OpenAI from "openai";
+import {
+  extractJsonText,
+  getLlmProvider,
+  jsonResponseFormat,
+} from "@/lib/llm-providers";
 import {
   formatOutputType,
   postProcessResults,
@@ -43,7 +48,6 @@ import {
 } from "./shared";
 import { estimateTokens } from "@/lib/token-utils";
 import { executeEvaluationPass } from "./evaluator";
-import { getCitationsClient, getCitationsDeployment } from "../openai";
 import {
   createMiningEngine,
   isEnrichmentEnabled,
@@ -709,7 +713,7 @@ export async function executeBasicAnalysis(
           deployment,
           ANALYSIS_CONSTANTS.BASIC_TEMPERATURE,
         ),
-        response_format: { type: "json_object" }, // Enforce JSON response
+        ...jsonResponseFormat(deployment),
       });
 
       // Validate response before returning
@@ -771,7 +775,7 @@ export async function executeBasicAnalysis(
   // Parse JSON response
   let parsedResponse: unknown;
   try {
-    parsedResponse = JSON.parse(content);
+    parsedResponse = JSON.parse(extractJsonText(content));
     parsedResponse = normalizeAnalysisJsonKeys(parsedResponse);
   } catch (error) {
     console.error("[Basic Analysis] Failed to parse JSON response:", error);
@@ -822,8 +826,9 @@ export async function executeBasicAnalysis(
   if (shouldRunEnrichment) {
     console.log("[Basic Analysis] Running enrichment pass");
     try {
-      const miniClient = getCitationsClient();
-      const miniDeployment = getCitationsDeployment();
+      const provider = getLlmProvider();
+      const miniClient = provider.getClient("citations");
+      const miniDeployment = provider.routes.citations.model.model;
       const engine = createMiningEngine(miniClient, miniDeployment);
 
       // Register default patterns
@@ -24,6 +24,7 @@ import type {
 import type { AnalysisResults, TranscriptSegment } from '@/types';
 import { DEFAULT_ENRICHMENT_CONFIG } from '@/types/enrichment';
 import { buildChatCompletionParams } from '@/lib/openai-chat-params';
+import { extractJsonText, jsonResponseFormat } from '@/lib/llm-providers';
 
 import { buildCombinedEnrichmentPrompt, buildPatternPrompt } from './prompts';
 import {
@@ -150,7 +151,7 @@ export function createMiningEngine(
               { role: 'user', content: prompt },
             ],
             ...buildChatCompletionParams(deployment, 4000, 0.2, 'medium'),
-            response_format: { type: 'json_object' },
+            ...jsonResponseFormat(deployment),
           });
 
           const finishReason = res.choices[0].finish_reason;
@@ -168,7 +169,7 @@ export function createMiningEngine(
         throw new Error('Empty response from model');
       }
 
-      const parsed = JSON.parse(content) as CombinedEnrichmentResponse;
+      const parsed = JSON.parse(extractJsonText(content)) as CombinedEnrichmentResponse;
       const durationMs = Date.now() - startTime;
 
       // Build partial enrichment result for merging
@@ -281,7 +282,7 @@ export function createMiningEngine(
                 { role: 'user', content: prompt },
               ],
               ...buildChatCompletionParams(deployment, 2500, 0.2, 'medium'),
-              response_format: { type: 'json_object' },
+              ...jsonResponseFormat(deployment),
             });
 
             const finishReason = res.choices[0].finish_reason;
@@ -299,7 +300,7 @@ export function createMiningEngine(
           throw new Error('Empty response from model');
         }
 
-        const parsed = JSON.parse(content);
+        const parsed = JSON.parse(extractJsonText(content));
         const durationMs = Date.now() - startTime;
 
         // Merge pattern-specific results
@@ -500,7 +501,7 @@ export function createMiningEngine(
                 { role: 'user', content: prompt },
               ],
               ...buildChatCompletionParams(deployment, 4000, 0.2, 'medium'),
-              response_format: { type: 'json_object' },
+              ...jsonResponseFormat(deployment),
             });
 
             const finishReason = res.choices[0].finish_reason;
@@ -514,7 +515,7 @@ export function createMiningEngine(
         );
 
         const content = response.choices[0].message.content!;
-        const result = pattern.parseResponse(content);
+        const result = pattern.parseResponse(extractJsonText(content));
         const processingTimeMs = Date.now() - startTime;
 
         return {
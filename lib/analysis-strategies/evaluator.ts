@@ -21,6 +21,7 @@ import type {
   EvaluationResults,
 } from '@/types';
 import type OpenAI from 'openai';
+import { extractJsonText, jsonResponseFormat } from '@/lib/llm-providers';
 import { generateEvaluatorPrompt } from '@/lib/evaluator-prompt';
 import {
   ANALYSIS_CONSTANTS,
@@ -295,7 +296,7 @@ export async function executeEvaluationPass(
           },
         ],
         ...modelParams,
-        response_format: { type: 'json_object' }, // Enforce JSON response
+        ...jsonResponseFormat(deployment),
       });
 
       // Validate response before returning
@@ -348,7 +349,7 @@ export async function executeEvaluationPass(
   // Parse JSON response
   let parsedResponse: unknown;
   try {
-    parsedResponse = JSON.parse(content);
+    parsedResponse = JSON.parse(extractJsonText(content));
     parsedResponse = normalizeAnalysisJsonKeys(parsedResponse);
   } catch (error) {
     logger.error('Evaluation Pass', 'Failed to parse JSON response', {
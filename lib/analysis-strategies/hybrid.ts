@@ -28,6 +28,7 @@ import type {
 } from "@/types";
 import type { TranscriptAnnotation } from "@/types/annotation";
 import type OpenAI from "openai";
+import { extractJsonText, jsonResponseFormat } from "@/lib/llm-providers";
 import {
   formatOutputType,
   postProcessResults,
@@ -146,6 +147,8 @@ interface BatchConfig {
 export interface HybridAnalysisConfig {
   /** Whether to run self-evaluation pass after analysis */
   runEvaluation?: boolean;
+  /** Called with the draft results as the self-evaluation pass starts */
+  evaluationCallback?: (draftResults: AnalysisResults) => void;
   /**
    * Supplemental source material text.
    * Extracted from uploaded Word docs, PDFs, PowerPoints, or pasted text.
@@ -1370,6 +1373,7 @@ export async function executeHybridAnalysis(
     current: number,
     total: number,
     batchName: string,
+    partialResults?: Partial<AnalysisResults>,
   ) => void,
   config?: HybridAnalysisConfig,
 ): Promise<HybridAnalysisResult> {
@@ -1407,7 +1411,7 @@ export async function executeHybridAnalysis(
 
     // Notify progress
     if (progressCallback) {
-      progressCallback(i + 1, batches.length, batch.name);
+      progressCallback(i + 1, batches.length, batch.name, accumulatedResults);
     }
 
     logger.info(
@@ -1470,7 +1474,7 @@ export async function executeHybridAnalysis(
             deployment,
             ANALYSIS_CONSTANTS.HYBRID_TEMPERATURE,
           ),
-          response_format: { type: "json_object" }, // Enforce JSON response
+          ...jsonResponseFormat(deployment),
         });
 
         // Validate response before returning
@@ -1535,7 +1539,7 @@ export async function executeHybridAnalysis(
     // Parse JSON response
     let parsedResponse: unknown;
     try {
-      parsedResponse = JSON.parse(content);
+      parsedResponse = JSON.parse(extractJsonText(content));
       parsedResponse = normalizeAnalysisJsonKeys(parsedResponse);
     } catch (error) {
       logger.error(
@@ -1648,6 +1652,7 @@ export async function executeHybridAnalysis(
   // Check if self-evaluation should run
   if (config?.runEvaluation) {
     logger.info("Hybrid Analysis", "Running self-evaluation pass");
+    config.evaluationCallback?.(draftResults);
     const { evaluation, finalResults } = await executeEvaluationPass(
       template,
       transcript,
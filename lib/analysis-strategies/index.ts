@@ -28,6 +28,7 @@ import {
   getEffectiveMaxStrategy,
 } from "@/lib/analysis-strategy";
 import { estimateTokens } from "@/lib/token-utils";
+import { withAbortSignal } from "@/lib/llm-providers";
 
 // Import all strategy executors
 import {
@@ -68,6 +69,16 @@ export * from "./evaluator";
 // Re-export errors
 export * from "./errors";
 
+/**
+ * Progress callback for batched and sectioned strategies
+ */
+export type AnalysisProgressCallback = (
+  current: number,
+  total: number,
+  message: string,
+  partialResults?: Partial<AnalysisResults>,
+) => void;
+
 /**
  * Configuration for analysis execution
  */
@@ -88,9 +99,21 @@ export interface AnalysisConfig {
 
   /**
    * Optional callback for progress updates.
-   * Called at various stages during analysis.
+   * Called as each batch (hybrid) or section (advanced) starts, with the
+   * results of the ones already completed.
+   */
+  progressCallback?: AnalysisProgressCallback;
+
+  /**
+   * Called as each strategy attempt starts, including fallbacks, so progress
+   * can be tracked against that strategy's phases.
+   */
+  strategyCallback?: (strategy: AnalysisStrategy) => void;
+
+  /**
+   * Called with the draft results as the self-evaluation pass starts.
    */
-  progressCallback?: (current: number, total: number, message: string) => void;
+  evaluationCallback?: (draftResults: AnalysisResults) => void;
 
   /**
    * Whether to enable strategy fallback on failure.
@@ -138,6 +161,12 @@ export interface AnalysisConfig {
    * Overrides the server-side AZURE_OPENAI_REASONING_EFFORT env var.
    */
   reasoningEffort?: "low" | "medium" | "high";
+
+  /**
+   * Cancels the analysis, including in-flight model calls. A cancelled
+   * analysis rejects without trying fallback strategies.
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -485,10 +514,11 @@ async function executeStrategyWithRecovery(
   openaiClient: OpenAI,
   deployment: string,
   runEvaluation: boolean,
-  progressCallback?: (current: number, total: number, message: string) => void,
+  progressCallback?: AnalysisProgressCallback,
   segments?: TranscriptSegment[],
   supplementalMaterial?: string,
   annotations?: TranscriptAnnotation[],
+  evaluationCallback?: (draftResults: AnalysisResults) => void,
 ): Promise<
   BasicAnalysisResult | HybridAnalysisResult | AdvancedAnalysisResult
 > {
@@ -526,6 +556,7 @@ async function executeStrategyWithRecovery(
           progressCallback,
           {
             runEvaluation,
+            evaluationCallback,
             supplementalMaterial,
             annotations,
           } as HybridAnalysisConfig,
@@ -540,6 +571,7 @@ async function executeStrategyWithRecovery(
           progressCallback,
           {
             runEvaluation,
+            evaluationCallback,
             supplementalMaterial,
             annotations,
           } as AdvancedAnalysisConfig,
@@ -622,6 +654,8 @@ export async function executeAnalysis(
     strategy: strategyOption = "auto",
     runEvaluation = true,
     progressCallback,
+    strategyCallback,
+    evaluationCallback,
     enableFallback = true,
     returnPartialResults = true,
     maxFallbackAttempts = 3,
@@ -629,7 +663,9 @@ export async function executeAnalysis(
     supplementalMaterial,
     annotations,
     reasoningEffort,
+    signal,
   } = config;
+  const client = withAbortSignal(openaiClient, signal);
 
   // Set reasoning effort override for this analysis run
   // This affects buildAnalysisChatCompletionParams in all strategies
@@ -741,19 +777,22 @@ export async function executeAnalysis(
   // Try strategies with fallback
   while (attemptCount < maxFallbackAttempts) {
     attemptCount++;
+    signal?.throwIfAborted();
+    strategyCallback?.(currentStrategy);
 
     try {
       const result = await executeStrategyWithRecovery(
         currentStrategy,
         template,
         transcript,
-        openaiClient,
+        client,
         deployment,
         runEvaluation,
         progressCallback,
         segments,
         supplementalMaterial,
         annotations,
+        evaluationCallback,
       );
 
       // Success! Record it and reset circuit breaker
@@ -805,6 +844,11 @@ export async function executeAnalysis(
         warnings: warnings.length > 0 ? warnings : undefined,
       };
     } catch (error) {
+      // Cancelled: not a strategy failure, so no fallback
+      if (signal?.aborted) {
+        throw error;
+      }
+
       // Record the failure
       circuitBreaker.recordFailure(currentStrategy);
 
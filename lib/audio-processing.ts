@@ -4,12 +4,15 @@
  * Client-side audio processing using FFmpeg WebAssembly for:
  * - MP4 to MP3 conversion (size reduction)
  * - Audio splitting at silence points (for large files)
+ * - Radio audio enhancement
+ * - Redaction (silencing or toning over spoken personal details)
  *
  * Note: FFmpeg runs in the main thread but uses WebAssembly for efficient processing
  */
 
 import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import type { AudioRedactionMode, AudioRedactionRange } from '@/types/redaction';
 
 /**
  * Maximum file size for Whisper API (25MB)
@@ -803,6 +806,110 @@ export async function enhanceRadioAudio(
   }
 }
 
+/** Frequency of the tone played over redacted audio, in Hz */
+const REDACTION_TONE_FREQUENCY = 1000;
+
+/**
+ * Silence or tone over stretches of a recording
+ *
+ * Used to remove spoken personal details before a recording is shared.
+ * Unlike enhanceRadioAudio, failures are thrown rather than returning the
+ * original file, which would still contain the details.
+ *
+ * @param file - Audio file to redact
+ * @param ranges - Stretches to remove, in seconds
+ * @param mode - Mute the ranges, or replace them with a tone
+ * @param onProgress - Optional progress callback (0-100)
+ * @returns Redacted MP3 file
+ */
+export async function redactAudio(
+  file: File,
+  ranges: AudioRedactionRange[],
+  mode: AudioRedactionMode,
+  onProgress?: (progress: number) => void
+): Promise<File> {
+  const fileExt = file.name.split('.').pop()?.toLowerCase() || 'mp3';
+  const inputFileName = `input_redact.${fileExt}`;
+  const outputFileName = 'redacted.mp3';
+  let ffmpeg: FFmpeg | null = null;
+  let progressListener: (({ progress }: { progress: number }) => void) | null = null;
+
+  try {
+    onProgress?.(0);
+    ffmpeg = await getFFmpeg();
+
+    progressListener = ({ progress }: { progress: number }) => {
+      onProgress?.(Math.min(95, Math.max(0, Math.round(progress * 100))));
+    };
+    ffmpeg.on('progress', progressListener);
+
+    onProgress?.(5);
+    await ffmpeg.writeFile(inputFileName, await fetchFile(file));
+    onProgress?.(15);
+
+    // True inside any range, e.g. between(t,12.4,14.1)+between(t,30,31.5)
+    const inRange = ranges.length > 0
+      ? ranges.map((r) => `between(t,${r.start.toFixed(3)},${r.end.toFixed(3)})`).join('+')
+      : '0';
+    const mute = `volume=enable='${inRange}':volume=0`;
+
+    // The tone is muted outside the ranges and mixed with the muted voice;
+    // amix halves both inputs, so the level is restored afterwards
+    const filterArgs = mode === 'tone'
+      ? [
+          '-filter_complex',
+          `[0:a]aresample=16000,aformat=channel_layouts=mono,${mute}[voice];` +
+          `sine=frequency=${REDACTION_TONE_FREQUENCY}:sample_rate=16000,volume=0.3,` +
+          `volume=enable='not(${inRange})':volume=0[tone];` +
+          '[voice][tone]amix=inputs=2:duration=first:dropout_transition=0,volume=2[out]',
+          '-map', '[out]',
+        ]
+      : ['-af', mute];
+
+    const args = [
+      '-i', inputFileName,
+      '-vn',
+      ...filterArgs,
+      '-ar', '16000',  // 16kHz for speech
+      '-ac', '1',      // Mono
+      '-b:a', '64k',   // 64kbps
+      '-y',            // Overwrite output
+      outputFileName
+    ];
+
+    console.log(`[AudioRedact] Removing ${ranges.length} range(s) with ${mode}`);
+    const exitCode = await ffmpeg.exec(args);
+    if (exitCode !== 0) {
+      throw new Error(`FFmpeg exited with code ${exitCode}`);
+    }
+
+    onProgress?.(95);
+
+    const data = (await ffmpeg.readFile(outputFileName)) as Uint8Array;
+
+    onProgress?.(100);
+
+    const redactedBlob = new Blob([new Uint8Array(data)], { type: 'audio/mpeg' });
+    const redactedFileName = file.name.replace(/\.[^.]+$/, '_redacted.mp3');
+    return new File([redactedBlob], redactedFileName, { type: 'audio/mpeg' });
+  } catch (error) {
+    console.error('Audio redaction failed:', error);
+    throw new Error(`Failed to redact audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    if (ffmpeg) {
+      try {
+        await ffmpeg.deleteFile(inputFileName).catch(() => {});
+        await ffmpeg.deleteFile(outputFileName).catch(() => {});
+        if (progressListener) {
+          ffmpeg.off('progress', progressListener);
+        }
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+}
+
 /**
  * Terminate FFmpeg and free resources
  * Should be called when FFmpeg is no longer needed (e.g., on app unmount)
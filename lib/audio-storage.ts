@@ -9,9 +9,20 @@ import {
   getDatabase,
   saveTranscript,
   getTranscript,
+  openRecord,
+  sealRecord,
   type AudioFileEntry,
 } from './db';
-import type { AudioMetadata, AudioStorageResult } from '@/types/audio';
+import type {
+  AudioMetadata,
+  AudioStorageResult,
+  RedactedAudioStorageResult,
+} from '@/types/audio';
+import type {
+  AudioRedactionMode,
+  AudioRedactionPrecision,
+  AudioRedactionRange,
+} from '@/types/redaction';
 
 /**
  * Initializes audio files table if not already present
@@ -58,7 +69,7 @@ export async function storeAudioFile(
     };
 
     // Store in database
-    await db.audioFiles!.put(entry);
+    await db.audioFiles!.put(await sealRecord('audioFiles', entry));
 
     // Create ObjectURL for playback
     const audioUrl = URL.createObjectURL(audioBlob);
@@ -102,7 +113,7 @@ export async function getAudioFile(
     }
 
     // Get audio file entry
-    const entry = await db.audioFiles.get(transcriptId);
+    const entry = await openRecord(await db.audioFiles.get(transcriptId));
 
     if (!entry) {
       return null;
@@ -159,6 +170,112 @@ export async function deleteAudioFile(transcriptId: string): Promise<void> {
   }
 }
 
+/**
+ * Makes a copy of a transcript's recording with the given ranges silenced or
+ * toned over, and stores it alongside the original
+ *
+ * @param transcriptId - The transcript ID
+ * @param ranges - Stretches to remove, from redactionTimeRanges()
+ * @param options - Redaction mode and the precision the ranges were computed with
+ * @param onProgress - Optional progress callback (0-100)
+ * @returns ObjectURL for playback and how the copy was made
+ * @throws Error if there is no recording or redaction fails
+ */
+export async function createRedactedAudioFile(
+  transcriptId: string,
+  ranges: AudioRedactionRange[],
+  options: { mode: AudioRedactionMode; precision: AudioRedactionPrecision },
+  onProgress?: (progress: number) => void
+): Promise<RedactedAudioStorageResult> {
+  try {
+    const db = getAudioDatabase();
+
+    const entry = await openRecord(await db.audioFiles!.get(transcriptId));
+    if (!entry) {
+      throw new Error('No recording is stored for this transcript');
+    }
+
+    // Loaded on demand so FFmpeg is not bundled with every audio consumer
+    const { redactAudio } = await import('./audio-processing');
+    const source = new File([entry.audioBlob], entry.metadata.filename, {
+      type: entry.metadata.type,
+    });
+    const blob = await redactAudio(source, ranges, options.mode, onProgress);
+
+    const info = { ...options, ranges, createdAt: new Date() };
+    await db.audioFiles!.put(
+      await sealRecord('audioFiles', { ...entry, redactedAudioBlob: blob, redactedAudio: info })
+    );
+
+    return { audioUrl: URL.createObjectURL(blob), blob, info };
+  } catch (error) {
+    console.error('Failed to create redacted audio file:', error);
+    throw new Error(
+      `Failed to create redacted audio: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Retrieves the redacted copy of a transcript's recording
+ *
+ * @param transcriptId - The transcript ID
+ * @returns AudioURL, Blob and how the copy was made if found, null otherwise
+ * @throws Error if retrieval fails
+ */
+export async function getRedactedAudioFile(
+  transcriptId: string
+): Promise<RedactedAudioStorageResult | null> {
+  try {
+    const db = getAudioDatabase();
+
+    const entry = await openRecord(await db.audioFiles!.get(transcriptId));
+    if (!entry?.redactedAudioBlob || !entry.redactedAudio) {
+      return null;
+    }
+
+    return {
+      audioUrl: URL.createObjectURL(entry.redactedAudioBlob),
+      blob: entry.redactedAudioBlob,
+      info: entry.redactedAudio,
+    };
+  } catch (error) {
+    console.error('Failed to retrieve redacted audio file:', error);
+    throw new Error(
+      `Failed to retrieve redacted audio: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Deletes the redacted copy of a transcript's recording, keeping the original
+ *
+ * @param transcriptId - The transcript ID
+ * @throws Error if deletion fails
+ */
+export async function deleteRedactedAudioFile(transcriptId: string): Promise<void> {
+  try {
+    const db = getAudioDatabase();
+
+    const entry = await openRecord(await db.audioFiles!.get(transcriptId));
+    if (!entry?.redactedAudioBlob) {
+      return;
+    }
+
+    const {
+      redactedAudioBlob: _redactedAudioBlob,
+      redactedAudio: _redactedAudio,
+      ...rest
+    } = entry;
+    await db.audioFiles!.put(await sealRecord('audioFiles', rest));
+  } catch (error) {
+    console.error('Failed to delete redacted audio file:', error);
+    throw new Error(
+      `Failed to delete redacted audio: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
 /**
  * Checks if an audio file exists for a transcript
  *
@@ -303,7 +420,11 @@ export async function getAudioStorageSize(): Promise<number> {
     }
 
     const entries = await database.audioFiles.toArray();
-    return entries.reduce((total, entry) => total + entry.audioBlob.size, 0);
+    // Sealed entries have no plaintext blob; fall back to the recorded size
+    return entries.reduce(
+      (total, entry) => total + (entry.audioBlob?.size ?? entry.metadata.size),
+      0
+    );
   } catch (error) {
     console.error('Failed to calculate audio storage size:', error);
     return 0;
@@ -0,0 +1,189 @@
+/**
+ * Chat Citations
+ *
+ * Chat answers cite the transcript segments they rely on with inline
+ * markers such as "[S12]" or "[S12, S15]", where the number is the segment
+ * index. Like lib/citations.ts, the model may only reference segment ids it
+ * was given: /api/chat drops markers that point anywhere else before the
+ * answer reaches the browser, and returns the cited segments alongside it.
+ *
+ * In library chat the segments come from many transcripts, so ids number
+ * the retrieved segments instead and citations carry the transcript too.
+ */
+
+import type { AnalysisSection } from '@/types/analysis';
+import type { ChatCitation, ChatMessage, ChatSegment } from '@/types/chat';
+import { formatTimestamp } from '@/lib/transcript-utils';
+
+/** Longest quote kept for a cited segment */
+const MAX_QUOTE_CHARS = 200;
+
+/**
+ * A citation marker with the whitespace before it: "[S12]", "[S12, S15]".
+ * Ranges ("[S12-S14]") are read as their endpoints.
+ */
+const CITATION_MARKER = /([ \t]*)\[\s*(S\d+(?:\s*[,;\-–]\s*S\d+)*)\s*\]/g;
+
+/** Part of a chat message: plain text, or a citation marker */
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; segmentIds: number[] };
+
+function parseSegmentIds(list: string): number[] {
+  const ids = list.match(/\d+/g) ?? [];
+  return Array.from(new Set(ids.map(Number)));
+}
+
+function toCitation(segment: ChatSegment): ChatCitation {
+  const text = segment.text.replace(/\s+/g, ' ').trim();
+  return {
+    segmentId: segment.id,
+    start: segment.start,
+    end: segment.end,
+    speaker: segment.speaker,
+    quote: text.length > MAX_QUOTE_CHARS ? `${text.slice(0, MAX_QUOTE_CHARS - 1)}…` : text,
+    ...(segment.transcriptId
+      ? { transcriptId: segment.transcriptId, segmentIndex: segment.segmentIndex, source: segment.source }
+      : {}),
+  };
+}
+
+/**
+ * Transcript lines for the chat prompt, one per segment:
+ * "S12 [03:41] Engine 5: Engine 5 on scene..."
+ *
+ * Segments with a source are headed by it ("Transcript: ...") wherever the
+ * source changes.
+ */
+export function formatSegmentsForChat(segments: ChatSegment[]): string {
+  const lines: string[] = [];
+  let source: string | undefined;
+
+  for (const segment of segments) {
+    if (segment.source && segment.source !== source) {
+      if (lines.length > 0) lines.push('');
+      lines.push(`Transcript: ${segment.source}`);
+    }
+    source = segment.source;
+
+    const speaker = segment.speaker ? `${segment.speaker}: ` : '';
+    lines.push(`S${segment.id} [${formatTimestamp(segment.start)}] ${speaker}${segment.text}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Check an answer's citation markers against the segments it was given.
+ *
+ * Markers citing unknown segments are removed (a marker keeps only its
+ * known ids), and the cited segments are returned in order of first
+ * citation.
+ */
+export function validateChatCitations(
+  answer: string,
+  segments: ChatSegment[]
+): { answer: string; citations: ChatCitation[] } {
+  const segmentsById = new Map(segments.map((segment) => [segment.id, segment]));
+  const citations: ChatCitation[] = [];
+  const cited = new Set<number>();
+
+  const validated = answer.replace(CITATION_MARKER, (_marker, space: string, list: string) => {
+    const ids = parseSegmentIds(list).filter((id) => segmentsById.has(id));
+    if (ids.length === 0) {
+      return '';
+    }
+
+    for (const id of ids) {
+      if (!cited.has(id)) {
+        cited.add(id);
+        citations.push(toCitation(segmentsById.get(id)!));
+      }
+    }
+    return `${space}[${ids.map((id) => `S${id}`).join(', ')}]`;
+  });
+
+  return { answer: validated, citations };
+}
+
+/**
+ * Split message content into text and citation markers for rendering.
+ */
+export function splitCitationMarkers(content: string): ChatContentPart[] {
+  const parts: ChatContentPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(CITATION_MARKER)) {
+    const markerStart = (match.index ?? 0) + match[1].length;
+    if (markerStart > lastIndex) {
+      parts.push({ type: 'text', text: content.slice(lastIndex, markerStart) });
+    }
+    parts.push({ type: 'citation', segmentIds: parseSegmentIds(match[2]) });
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    parts.push({ type: 'text', text: content.slice(lastIndex) });
+  }
+  return parts;
+}
+
+/**
+ * Replace citation markers with the cited times, e.g. "[03:41]" (or
+ * "[TAC 2 03:41]" in library chat), for text copied or exported outside the
+ * app.
+ */
+export function citationMarkersToTimestamps(content: string, citations: ChatCitation[] = []): string {
+  const citationsById = new Map(citations.map((citation) => [citation.segmentId, citation]));
+
+  return content.replace(CITATION_MARKER, (_marker, space: string, list: string) => {
+    const times = parseSegmentIds(list)
+      .map((id) => citationsById.get(id))
+      .filter((citation): citation is ChatCitation => !!citation)
+      .map((citation) =>
+        citation.source
+          ? `${citation.source} ${formatTimestamp(citation.start)}`
+          : formatTimestamp(citation.start)
+      );
+    return times.length > 0 ? `${space}[${times.join(', ')}]` : '';
+  });
+}
+
+/** A citation marker cut off at the end of a partial answer, e.g. " [S1" */
+const PARTIAL_CITATION_MARKER = /[ \t]*\[[\sS\d,;\-–]*$/;
+
+/**
+ * Remove citation markers, for an answer still streaming in: its markers
+ * are only checked, and shown as chips, once it is complete.
+ */
+export function stripCitationMarkers(content: string): string {
+  return content.replace(CITATION_MARKER, '').replace(PARTIAL_CITATION_MARKER, '');
+}
+
+/** Longest question used to name a pinned answer's section */
+const MAX_PINNED_TITLE_CHARS = 60;
+
+/**
+ * A chat answer as a custom analysis section: named after the question,
+ * with the citations as the times in its text and as its evidence.
+ */
+export function pinnedAnswerSection(
+  question: string,
+  answer: ChatMessage,
+  conversationId: string
+): AnalysisSection {
+  const title = question.length > MAX_PINNED_TITLE_CHARS
+    ? `${question.slice(0, MAX_PINNED_TITLE_CHARS - 1).trimEnd()}…`
+    : question;
+
+  return {
+    name: `Chat: ${title}`,
+    content: citationMarkersToTimestamps(answer.content, answer.citations),
+    evidence: (answer.citations ?? []).map((citation) => ({
+      text: citation.quote,
+      start: citation.start,
+      end: citation.end,
+      relevance: 1,
+    })),
+    pinnedFrom: { conversationId, messageId: answer.id },
+  };
+}
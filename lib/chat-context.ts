@@ -0,0 +1,144 @@
+/**
+ * Chat Context Sources
+ *
+ * Turns records about a transcript into reference material that can be
+ * attached to a chat question: the analysis results, an RTASS scorecard
+ * with its verdicts and rationales, the trainer's annotations, and
+ * supplemental documents such as SOPs or the Visinet report. /api/chat adds
+ * the attached material to the prompt after the transcript.
+ */
+
+import type { Analysis } from '@/types/analysis';
+import type { TranscriptAnnotation } from '@/types/annotation';
+import type { ChatContextSource } from '@/types/chat';
+import type { RtassScorecard } from '@/types/rtass';
+import { getCategoryLabel, type PersistedSupplementalDocument } from '@/types/supplemental';
+import { formatTimestamp } from '@/lib/transcript-utils';
+import { formatVisinetForAnalysis } from '@/lib/visinet-parser';
+import { formatDate } from '@/lib/utils/format';
+
+function label(value: string): string {
+  return value.replace(/_/g, ' ');
+}
+
+function percent(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+/**
+ * An analysis: its summary, sections and benchmark observations.
+ */
+export function analysisContextSource(analysis: Analysis, templateName?: string): ChatContextSource {
+  const { results } = analysis;
+  const parts: string[] = [];
+
+  if (results.summary) {
+    parts.push(`Summary: ${results.summary}`);
+  }
+  for (const section of results.sections) {
+    parts.push(`## ${section.name}\n${section.content}`);
+  }
+  if (results.benchmarks?.length) {
+    const lines = results.benchmarks.map((benchmark) => {
+      const time = benchmark.timestamp !== undefined ? ` at ${formatTimestamp(benchmark.timestamp)}` : '';
+      const unit = benchmark.unitOrRole ? ` (${benchmark.unitOrRole})` : '';
+      const notes = benchmark.notes ? `: ${benchmark.notes}` : '';
+      return `- ${benchmark.benchmark}: ${label(benchmark.status)}${time}${unit}${notes}`;
+    });
+    parts.push(`## Benchmarks\n${lines.join('\n')}`);
+  }
+
+  return {
+    id: analysis.id,
+    kind: 'analysis',
+    title: `Analysis: ${templateName ?? 'Analysis'} (${formatDate(analysis.createdAt)})`,
+    text: parts.join('\n\n'),
+  };
+}
+
+/**
+ * An RTASS scorecard: every criterion's verdict, rationale and evidence,
+ * noting where a trainer overrode the model's assessment.
+ */
+export function scorecardContextSource(scorecard: RtassScorecard, rubricName?: string): ChatContextSource {
+  const parts: string[] = [
+    `Overall: ${percent(scorecard.overall.score)} (${label(scorecard.overall.status)})` +
+      (scorecard.overall.notes ? `\n${scorecard.overall.notes}` : ''),
+  ];
+
+  for (const section of scorecard.sections) {
+    const lines = section.criteria.map((criterion) => {
+      const override = criterion.aiAssessment
+        ? ` [trainer override; the model said ${label(criterion.aiAssessment.verdict)}]`
+        : '';
+      const evidence = criterion.evidence
+        .map((item) => `  - [${formatTimestamp(item.start)}] "${item.quote}"`)
+        .join('\n');
+      return `- ${criterion.title}: ${label(criterion.verdict)}${override}\n  Rationale: ${criterion.rationale}` +
+        (evidence ? `\n  Evidence:\n${evidence}` : '');
+    });
+    parts.push(
+      `## ${section.title}: ${percent(section.score)} (${label(section.status)})\n${lines.join('\n')}`
+    );
+  }
+  if (scorecard.humanReview?.notes) {
+    parts.push(`Reviewer notes: ${scorecard.humanReview.notes}`);
+  }
+
+  return {
+    id: scorecard.id,
+    kind: 'scorecard',
+    title: `Scorecard: ${rubricName ?? scorecard.rubricTemplateId} (${formatDate(scorecard.createdAt)})`,
+    text: parts.join('\n\n'),
+  };
+}
+
+/**
+ * The trainer's annotations, in time order, or undefined when there are none.
+ */
+export function annotationsContextSource(
+  annotations: TranscriptAnnotation[]
+): ChatContextSource | undefined {
+  if (annotations.length === 0) {
+    return undefined;
+  }
+
+  const lines = [...annotations]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((annotation) => `[${formatTimestamp(annotation.timestamp)}] ${annotation.text}`);
+
+  return {
+    id: 'annotations',
+    kind: 'annotations',
+    title: `Trainer annotations (${annotations.length})`,
+    text: lines.join('\n'),
+  };
+}
+
+/**
+ * A supplemental document; Visinet reports are sent as their parsed
+ * timeline, like in analysis.
+ */
+export function documentContextSource(document: PersistedSupplementalDocument): ChatContextSource {
+  return {
+    id: document.id,
+    kind: 'document',
+    title: `${getCategoryLabel(document.category ?? 'other')}: ${document.filename}`,
+    text: document.visinetData ? formatVisinetForAnalysis(document.visinetData) : document.text,
+  };
+}
+
+/**
+ * The attached material as a prompt section, or an empty string when there
+ * is none.
+ */
+export function formatContextSourcesForChat(sources: ChatContextSource[]): string {
+  if (sources.length === 0) {
+    return '';
+  }
+
+  const blocks = sources.map((source) => `### ${source.title}\n${source.text}`);
+  return `Reference material attached by the user. It is not part of the transcript: name the material when you use it (e.g. "the scorecard rates..."), and only cite segment ids for what was said on the radio.
+
+${blocks.join('\n\n')}`;
+}
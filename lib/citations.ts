@@ -14,6 +14,7 @@
  */
 
 import type OpenAI from 'openai';
+import { extractJsonText, jsonResponseFormat } from '@/lib/llm-providers';
 import type { Evidence, TranscriptSegment, TemplateSection } from '@/types';
 
 export interface CitationSectionInput {
@@ -485,7 +486,7 @@ export async function generateEvidenceCitationsWithLLM(params: {
           ],
           temperature: 0.1,
           max_completion_tokens: 2500,
-          response_format: { type: 'json_object' },
+          ...jsonResponseFormat(params.deployment),
         });
 
         const finishReason = res.choices[0].finish_reason;
@@ -503,7 +504,7 @@ export async function generateEvidenceCitationsWithLLM(params: {
 
     let parsedChunk: unknown;
     try {
-      parsedChunk = JSON.parse(chunkContent);
+      parsedChunk = JSON.parse(extractJsonText(chunkContent));
     } catch {
       continue;
     }
@@ -586,7 +587,7 @@ export async function generateEvidenceCitationsWithLLM(params: {
           ],
           temperature: 0.1,
           max_completion_tokens: 2000,
-          response_format: { type: 'json_object' },
+          ...jsonResponseFormat(params.deployment),
         });
 
         const finishReason = res.choices[0].finish_reason;
@@ -601,7 +602,7 @@ export async function generateEvidenceCitationsWithLLM(params: {
 
     const content = selectionResponse.choices[0].message.content;
     if (content) {
-      const parsed = JSON.parse(content) as unknown;
+      const parsed = JSON.parse(extractJsonText(content)) as unknown;
       if (isValidSelectionResponse(parsed)) {
         selectionParsed = parsed;
       }
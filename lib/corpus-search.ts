@@ -0,0 +1,214 @@
+/**
+ * Corpus Search
+ *
+ * Keyword retrieval across many transcripts for library and incident chat.
+ * The index is built in the browser from transcripts in IndexedDB and never
+ * leaves it: only the segments retrieved for a question (with their
+ * neighbours, so short radio calls keep their context) are sent to /api/chat.
+ *
+ * Segments are ranked with BM25, each segment scored as its own document.
+ */
+
+import type { TranscriptSegment } from '@/types/transcript';
+import type { ChatSegment } from '@/types/chat';
+import { isSearchStopword } from '@/lib/db/search';
+
+/** BM25 term frequency saturation */
+const BM25_K1 = 1.2;
+
+/** BM25 length normalisation */
+const BM25_B = 0.75;
+
+/** A transcript to search */
+export interface CorpusTranscript {
+  /** Transcript ID */
+  id: string;
+
+  /** How answers name the transcript, e.g. "Structure fire · TAC 2 (Mar 4, 2026)" */
+  label: string;
+
+  /** Segments, in order */
+  segments: TranscriptSegment[];
+}
+
+/** BM25 index over every segment of a set of transcripts */
+export interface CorpusIndex {
+  transcripts: CorpusTranscript[];
+
+  /** Segment documents, as [transcript position, segment position] */
+  documents: Array<[number, number]>;
+
+  /** Token count of each document */
+  lengths: number[];
+
+  averageLength: number;
+
+  /** Term -> [document, term frequency] for each document containing it */
+  postings: Map<string, Array<[number, number]>>;
+}
+
+/** Limits for searchCorpus() */
+export interface CorpusSearchOptions {
+  /** Most matching segments returned, before context is added (default 40) */
+  maxMatches?: number;
+
+  /** Most matching segments from any one transcript (default 8) */
+  maxPerTranscript?: number;
+
+  /** Segments kept either side of each match (default 1) */
+  context?: number;
+}
+
+/** A retrieved segment */
+export interface CorpusSearchHit {
+  transcriptId: string;
+  label: string;
+  segment: TranscriptSegment;
+
+  /** False for a segment included only as context around a match */
+  matched: boolean;
+}
+
+/**
+ * Split text into index terms: lowercased words and numbers without common
+ * words, with plural "s" removed so "engines" finds "engine". Single digits
+ * are kept because unit numbers ("Engine 5") matter on the radio.
+ */
+export function tokenizeForCorpus(text: string): string[] {
+  const terms: string[] = [];
+  for (const match of text.toLowerCase().matchAll(/[a-z0-9]+/g)) {
+    let term = match[0];
+    if (term.length < 2 && !/\d/.test(term)) continue;
+    if (isSearchStopword(term)) continue;
+    if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) {
+      term = term.slice(0, -1);
+    }
+    terms.push(term);
+  }
+  return terms;
+}
+
+/**
+ * Index every segment of the transcripts.
+ */
+export function buildCorpusIndex(transcripts: CorpusTranscript[]): CorpusIndex {
+  const documents: Array<[number, number]> = [];
+  const lengths: number[] = [];
+  const postings = new Map<string, Array<[number, number]>>();
+
+  transcripts.forEach((transcript, transcriptPosition) => {
+    transcript.segments.forEach((segment, segmentPosition) => {
+      const document = documents.length;
+      const terms = tokenizeForCorpus(`${segment.speaker ?? ''} ${segment.text}`);
+      documents.push([transcriptPosition, segmentPosition]);
+      lengths.push(terms.length);
+
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+      for (const [term, frequency] of frequencies) {
+        const list = postings.get(term);
+        if (list) {
+          list.push([document, frequency]);
+        } else {
+          postings.set(term, [[document, frequency]]);
+        }
+      }
+    });
+  });
+
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    transcripts,
+    documents,
+    lengths,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+    postings,
+  };
+}
+
+/**
+ * Find the segments most relevant to a question.
+ *
+ * Hits are grouped by transcript, best-matching transcript first, and
+ * within a transcript are in the order they were said.
+ */
+export function searchCorpus(
+  index: CorpusIndex,
+  query: string,
+  options: CorpusSearchOptions = {}
+): CorpusSearchHit[] {
+  const { maxMatches = 40, maxPerTranscript = 8, context = 1 } = options;
+  const documentCount = index.documents.length;
+  const scores = new Map<number, number>();
+
+  for (const term of new Set(tokenizeForCorpus(query))) {
+    const list = index.postings.get(term);
+    if (!list) continue;
+
+    const idf = Math.log(1 + (documentCount - list.length + 0.5) / (list.length + 0.5));
+    for (const [document, frequency] of list) {
+      const lengthRatio = index.averageLength > 0 ? index.lengths[document] / index.averageLength : 1;
+      const weight =
+        (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+      scores.set(document, (scores.get(document) ?? 0) + idf * weight);
+    }
+  }
+
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0]);
+
+  // Best matches, capped per transcript so one long recording can't crowd out the rest
+  const matchesByTranscript = new Map<number, Set<number>>();
+  let matchCount = 0;
+  for (const [document] of ranked) {
+    if (matchCount >= maxMatches) break;
+    const [transcriptPosition, segmentPosition] = index.documents[document];
+    const matches = matchesByTranscript.get(transcriptPosition) ?? new Set<number>();
+    if (matches.size >= maxPerTranscript) continue;
+    matches.add(segmentPosition);
+    matchesByTranscript.set(transcriptPosition, matches);
+    matchCount++;
+  }
+
+  const hits: CorpusSearchHit[] = [];
+  for (const [transcriptPosition, matches] of matchesByTranscript) {
+    const transcript = index.transcripts[transcriptPosition];
+    const positions = new Set<number>();
+    for (const position of matches) {
+      const first = Math.max(0, position - context);
+      const last = Math.min(transcript.segments.length - 1, position + context);
+      for (let p = first; p <= last; p++) {
+        positions.add(p);
+      }
+    }
+
+    for (const position of Array.from(positions).sort((a, b) => a - b)) {
+      hits.push({
+        transcriptId: transcript.id,
+        label: transcript.label,
+        segment: transcript.segments[position],
+        matched: matches.has(position),
+      });
+    }
+  }
+  return hits;
+}
+
+/**
+ * Retrieved segments as chat segments. Ids are numbered from 1 in the order
+ * given, since segment indexes repeat across transcripts; each keeps its
+ * transcript and segment index so citations can link back to it.
+ */
+export function corpusHitsToChatSegments(hits: CorpusSearchHit[]): ChatSegment[] {
+  return hits.map((hit, position) => ({
+    id: position + 1,
+    start: hit.segment.start,
+    end: hit.segment.end,
+    speaker: hit.segment.speaker,
+    text: hit.segment.text,
+    transcriptId: hit.transcriptId,
+    segmentIndex: hit.segment.index,
+    source: hit.label,
+  }));
+}
@@ -19,12 +19,35 @@ export {
 
 export type { PaginationOptions, PaginatedResult } from "./db/pagination";
 
+export {
+  SEALED_FIELDS,
+  subscribeEncryptionStatus,
+  getEncryptionStatus,
+  loadEncryptionStatus,
+  isEncryptionEnabled,
+  unlockEncryption,
+  lockEncryption,
+  enableEncryption,
+  changeEncryptionPassphrase,
+  disableEncryption,
+  sealRecord,
+  sealRecords,
+  openRecord,
+  openRecords,
+  type SealedTable,
+  type SealedPayload,
+  type EncryptionKeyring,
+  type EncryptionStatus,
+  type EncryptionMigrationProgress,
+} from "./db/encryption";
+
 export {
   findTranscriptByFingerprint,
   countTranscriptVersions,
   saveTranscript,
   getTranscript,
   getAllTranscripts,
+  getTranscriptDepartments,
   getTranscriptsPaginated,
   searchTranscriptsPaginated,
   deleteTranscript,
@@ -34,6 +57,9 @@ export {
   getTranscriptsSorted,
   deleteTranscriptsBulk,
   updateTranscriptSummary,
+  updateTranscriptSpeakerMap,
+  updateTranscriptRedactions,
+  reviseTranscript,
 } from "./db/transcripts";
 
 export {
@@ -46,7 +72,9 @@ export {
 export {
   saveAnalysis,
   getAnalysisByTranscript,
+  getAllAnalyses,
   getAnalysesPaginated,
+  addAnalysisSection,
   deleteAnalysis,
   deleteAnalysesBulk,
 } from "./db/analyses";
@@ -54,6 +82,8 @@ export {
 export {
   saveConversation,
   getConversationByTranscript,
+  getConversationsByTranscript,
+  renameConversation,
   updateConversation,
   deleteConversation,
   getAllConversations,
@@ -62,7 +92,10 @@ export {
 export {
   saveRtassScorecard,
   getRtassScorecardsByTranscript,
+  getRtassScorecardsByIncident,
+  getAllRtassScorecards,
   getRtassScorecard,
+  updateRtassScorecardCriterion,
   deleteRtassScorecard,
 } from "./db/rtass-scorecards";
 
@@ -114,6 +147,7 @@ export {
   saveSupplementalDocumentsBatch,
   getSupplementalDocument,
   getSupplementalDocumentsByTranscript,
+  getVisinetDocuments,
   deleteSupplementalDocument,
   deleteSupplementalDocumentsByTranscript,
   countSupplementalDocumentsByTranscript,
@@ -121,4 +155,21 @@ export {
   getFormattedSupplementalContent,
 } from "./db/supplemental-documents";
 
+export {
+  createIncident,
+  updateIncident,
+  getIncident,
+  getAllIncidents,
+  getIncidentByTranscript,
+  deleteIncident,
+} from "./db/incidents";
+
+export {
+  createGlossaryTerms,
+  updateGlossaryTerm,
+  getAllGlossaryTerms,
+  getGlossaryTermsForDepartment,
+  deleteGlossaryTerm,
+} from "./db/glossary";
+
 export { getDatabase as default } from "./db/core";
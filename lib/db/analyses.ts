@@ -3,8 +3,9 @@
  */
 
 import Dexie from "dexie";
-import type { Analysis } from "@/types/analysis";
+import type { Analysis, AnalysisSection } from "@/types/analysis";
 import { DatabaseError, getDatabase } from "./core";
+import { loadEncryptionStatus, openRecord, openRecords, sealRecord } from "./encryption";
 import type { PaginatedResult, PaginationOptions } from "./pagination";
 
 export async function saveAnalysis(analysis: Analysis): Promise<string> {
@@ -17,9 +18,10 @@ export async function saveAnalysis(analysis: Analysis): Promise<string> {
       createdAt: analysis.createdAt instanceof Date ? analysis.createdAt : new Date(analysis.createdAt),
     };
 
-    await db.analyses.put(analysisToSave);
+    await db.analyses.put(await sealRecord("analyses", analysisToSave));
     return analysis.id;
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     if (error instanceof Error && error.name === "QuotaExceededError") {
       throw new DatabaseError(
         "Storage quota exceeded. Please delete some analyses to free up space.",
@@ -38,8 +40,9 @@ export async function saveAnalysis(analysis: Analysis): Promise<string> {
 export async function getAnalysisByTranscript(transcriptId: string): Promise<Analysis[]> {
   try {
     const db = getDatabase();
-    return await db.analyses.where("transcriptId").equals(transcriptId).toArray();
+    return await openRecords(await db.analyses.where("transcriptId").equals(transcriptId).toArray());
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to retrieve analyses for transcript ID: ${transcriptId}`,
       "GET_FAILED",
@@ -48,6 +51,20 @@ export async function getAnalysisByTranscript(transcriptId: string): Promise<Ana
   }
 }
 
+export async function getAllAnalyses(): Promise<Analysis[]> {
+  try {
+    const db = getDatabase();
+    return await openRecords(await db.analyses.orderBy("createdAt").reverse().toArray());
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      "Failed to retrieve analyses",
+      "GET_ALL_FAILED",
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
 export async function getAnalysesPaginated(
   transcriptId: string,
   options: PaginationOptions = {}
@@ -73,7 +90,7 @@ export async function getAnalysesPaginated(
       query = query.reverse();
     }
 
-    const items = await query.offset(offset).limit(limit).toArray();
+    const items = await openRecords(await query.offset(offset).limit(limit).toArray());
 
     return {
       items,
@@ -83,6 +100,7 @@ export async function getAnalysesPaginated(
       limit,
     };
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to retrieve paginated analyses for transcript ID: ${transcriptId}`,
       "GET_PAGINATED_FAILED",
@@ -91,6 +109,42 @@ export async function getAnalysesPaginated(
   }
 }
 
+/**
+ * Add a custom section to an analysis, such as a pinned chat answer. A
+ * section pinned from the same chat message is replaced.
+ */
+export async function addAnalysisSection(analysisId: string, section: AnalysisSection): Promise<void> {
+  const db = getDatabase();
+
+  try {
+    await loadEncryptionStatus();
+    await db.transaction("rw", db.analyses, async () => {
+      const existing = await openRecord(await db.analyses.get(analysisId));
+      if (!existing) {
+        throw new DatabaseError(`Analysis not found: ${analysisId}`, "NOT_FOUND");
+      }
+
+      const sections = existing.results.sections.filter(
+        (current) =>
+          !section.pinnedFrom || current.pinnedFrom?.messageId !== section.pinnedFrom.messageId
+      );
+      await db.analyses.put(
+        await sealRecord("analyses", {
+          ...existing,
+          results: { ...existing.results, sections: [...sections, section] },
+        })
+      );
+    });
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      `Failed to add section to analysis with ID: ${analysisId}`,
+      "UPDATE_FAILED",
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
 export async function deleteAnalysis(id: string): Promise<void> {
   try {
     const db = getDatabase();
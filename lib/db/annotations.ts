@@ -8,6 +8,7 @@
 
 import { v4 as uuidv4 } from "uuid";
 import { getDatabase, DatabaseError } from "./core";
+import { openRecord, openRecords, sealRecord } from "./encryption";
 import type {
   TranscriptAnnotation,
   CreateAnnotationInput,
@@ -37,9 +38,10 @@ export async function saveAnnotation(
   };
 
   try {
-    await db.annotations.add(annotation);
+    await db.annotations.add(await sealRecord("annotations", annotation));
     return annotation;
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to save annotation: ${error instanceof Error ? error.message : "Unknown error"}`,
       "ANNOTATION_SAVE_FAILED",
@@ -61,8 +63,9 @@ export async function getAnnotation(
   const db = getDatabase();
 
   try {
-    return await db.annotations.get(id);
+    return await openRecord(await db.annotations.get(id));
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to get annotation: ${error instanceof Error ? error.message : "Unknown error"}`,
       "ANNOTATION_GET_FAILED",
@@ -84,11 +87,14 @@ export async function getAnnotationsByTranscript(
   const db = getDatabase();
 
   try {
-    return await db.annotations
-      .where("transcriptId")
-      .equals(transcriptId)
-      .sortBy("timestamp");
+    return await openRecords(
+      await db.annotations
+        .where("transcriptId")
+        .equals(transcriptId)
+        .sortBy("timestamp"),
+    );
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to get annotations for transcript: ${error instanceof Error ? error.message : "Unknown error"}`,
       "ANNOTATIONS_GET_FAILED",
@@ -112,17 +118,22 @@ export async function updateAnnotation(
   const db = getDatabase();
 
   try {
-    const count = await db.annotations.update(id, {
-      text: updates.text,
-      updatedAt: new Date(),
-    });
-
-    if (count === 0) {
+    const existing = await openRecord(await db.annotations.get(id));
+    if (!existing) {
       throw new DatabaseError(
         `Annotation not found: ${id}`,
         "ANNOTATION_NOT_FOUND",
       );
     }
+
+    // The text may be sealed with the rest of the record, so rewrite it whole
+    await db.annotations.put(
+      await sealRecord("annotations", {
+        ...existing,
+        text: updates.text,
+        updatedAt: new Date(),
+      }),
+    );
   } catch (error) {
     if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
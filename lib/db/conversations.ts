@@ -2,8 +2,10 @@
  * Conversation DB Operations (client-side only)
  */
 
+import Dexie from "dexie";
 import type { ChatMessage, Conversation } from "@/types/chat";
 import { DatabaseError, getDatabase } from "./core";
+import { openRecord, openRecords, sealRecord } from "./encryption";
 
 export async function saveConversation(conversation: Conversation): Promise<string> {
   try {
@@ -21,9 +23,10 @@ export async function saveConversation(conversation: Conversation): Promise<stri
       })),
     };
 
-    await db.conversations.put(conversationToSave);
+    await db.conversations.put(await sealRecord("conversations", conversationToSave));
     return conversation.id;
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     if (error instanceof Error && error.name === "QuotaExceededError") {
       throw new DatabaseError(
         "Storage quota exceeded. Please delete some conversations to free up space.",
@@ -39,13 +42,22 @@ export async function saveConversation(conversation: Conversation): Promise<stri
   }
 }
 
+/**
+ * The most recently updated conversation about a transcript.
+ */
 export async function getConversationByTranscript(
   transcriptId: string
 ): Promise<Conversation | undefined> {
   try {
     const db = getDatabase();
-    return await db.conversations.where("transcriptId").equals(transcriptId).first();
+    return await openRecord(
+      await db.conversations
+        .where("[transcriptId+updatedAt]")
+        .between([transcriptId, Dexie.minKey], [transcriptId, Dexie.maxKey])
+        .last()
+    );
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to retrieve conversation for transcript ID: ${transcriptId}`,
       "GET_FAILED",
@@ -54,6 +66,45 @@ export async function getConversationByTranscript(
   }
 }
 
+/**
+ * Every conversation about a transcript, most recently updated first.
+ */
+export async function getConversationsByTranscript(transcriptId: string): Promise<Conversation[]> {
+  try {
+    const db = getDatabase();
+    return await openRecords(
+      await db.conversations
+        .where("[transcriptId+updatedAt]")
+        .between([transcriptId, Dexie.minKey], [transcriptId, Dexie.maxKey])
+        .reverse()
+        .toArray()
+    );
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      `Failed to retrieve conversations for transcript ID: ${transcriptId}`,
+      "GET_FAILED",
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+export async function renameConversation(conversationId: string, title: string): Promise<void> {
+  try {
+    const db = getDatabase();
+    const existing = await openRecord(await db.conversations.get(conversationId));
+    if (!existing) return;
+    await db.conversations.put(await sealRecord("conversations", { ...existing, title }));
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      `Failed to rename conversation with ID: ${conversationId}`,
+      "UPDATE_FAILED",
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
 export async function updateConversation(conversationId: string, messages: ChatMessage[]): Promise<void> {
   try {
     const db = getDatabase();
@@ -64,11 +115,18 @@ export async function updateConversation(conversationId: string, messages: ChatM
       timestamp: msg.timestamp instanceof Date ? msg.timestamp : new Date(msg.timestamp),
     }));
 
-    await db.conversations.update(conversationId, {
-      messages: normalizedMessages,
-      updatedAt: new Date(),
-    });
+    // Messages may be sealed with the rest of the record, so rewrite it whole
+    const existing = await openRecord(await db.conversations.get(conversationId));
+    if (!existing) return;
+    await db.conversations.put(
+      await sealRecord("conversations", {
+        ...existing,
+        messages: normalizedMessages,
+        updatedAt: new Date(),
+      })
+    );
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to update conversation with ID: ${conversationId}`,
       "UPDATE_FAILED",
@@ -93,8 +151,9 @@ export async function deleteConversation(conversationId: string): Promise<void>
 export async function getAllConversations(): Promise<Conversation[]> {
   try {
     const db = getDatabase();
-    return await db.conversations.orderBy("updatedAt").reverse().toArray();
+    return await openRecords(await db.conversations.orderBy("updatedAt").reverse().toArray());
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       "Failed to retrieve conversations",
       "GET_ALL_FAILED",
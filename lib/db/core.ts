@@ -14,7 +14,11 @@ import type { SavedRecording } from "@/types/recording";
 import type { RtassScorecard, RtassRubricTemplate } from "@/types/rtass";
 import type { TranscriptAnnotation } from "@/types/annotation";
 import type { PersistedSupplementalDocument } from "@/types/supplemental";
+import type { Incident } from "@/types/incident";
+import type { GlossaryTerm } from "@/types/glossary";
+import type { RedactedAudioInfo } from "@/types/redaction";
 import { computeTranscriptSearchTokens } from "./search";
+import type { EncryptionKeyring } from "./encryption";
 
 /**
  * Custom error class for database operations.
@@ -38,13 +42,17 @@ export interface AudioFileEntry {
   audioBlob: Blob;
   metadata: AudioMetadata;
   storedAt: Date;
+  /** Copy of the recording with redacted personal details silenced or toned over */
+  redactedAudioBlob?: Blob;
+  redactedAudio?: RedactedAudioInfo;
 }
 
 /**
  * Main Dexie database class for Austin RTASS.
  *
  * Manages tables for transcripts, templates, analyses, audioFiles, conversations,
- * recordings, RTASS scorecards, and rubric templates.
+ * recordings, RTASS scorecards, rubric templates, incidents, glossary terms, and
+ * the encryption keyring.
  */
 export class AustinRTASSDB extends Dexie {
   /** Transcripts table with full-text and date indexing */
@@ -77,6 +85,15 @@ export class AustinRTASSDB extends Dexie {
   /** Supplemental documents table storing persistent docs attached to transcripts */
   supplementalDocuments!: Table<PersistedSupplementalDocument, string>;
 
+  /** Incidents table grouping multiple transcripts (radio channels) of one call */
+  incidents!: Table<Incident, string>;
+
+  /** Glossary terms used to prime transcription and correct misheard jargon */
+  glossaryTerms!: Table<GlossaryTerm, string>;
+
+  /** Keyring table holding the passphrase-wrapped data key (encryption at rest) */
+  keyring!: Table<EncryptionKeyring, string>;
+
   constructor() {
     super("AustinRTASSDB");
 
@@ -242,6 +259,73 @@ export class AustinRTASSDB extends Dexie {
         "id, transcriptId, addedAt, [transcriptId+addedAt]",
     });
 
+    // Version 12 adds incidents and indexes scorecards by incident
+    this.version(12).stores({
+      transcripts:
+        "id, filename, createdAt, metadata.duration, metadata.fileSize, [filename+createdAt], fingerprint.fileHash, *searchTokens",
+      templates: "id, category, isCustom, createdAt, name",
+      analyses:
+        "id, transcriptId, templateId, createdAt, [transcriptId+createdAt]",
+      audioFiles: "transcriptId, storedAt",
+      conversations: "id, transcriptId, updatedAt, [transcriptId+updatedAt]",
+      recordings: "++id, status, transcriptId, metadata.createdAt",
+      // RTASS scorecards: added incidentId index for incident-level queries
+      rtassScorecards:
+        "id, transcriptId, incidentId, rubricTemplateId, createdAt, [transcriptId+createdAt]",
+      rtassRubricTemplates: "id, jurisdiction, createdAt, name",
+      annotations: "id, transcriptId, timestamp, [transcriptId+timestamp]",
+      supplementalDocuments:
+        "id, transcriptId, addedAt, [transcriptId+addedAt]",
+      // Incidents: indexed by id (primary), incidentNumber, dates, and multi-entry transcriptIds
+      incidents:
+        "id, incidentNumber, createdAt, updatedAt, *transcriptIds",
+    });
+
+    // Version 13 adds the department glossary
+    this.version(13).stores({
+      transcripts:
+        "id, filename, createdAt, metadata.duration, metadata.fileSize, [filename+createdAt], fingerprint.fileHash, *searchTokens",
+      templates: "id, category, isCustom, createdAt, name",
+      analyses:
+        "id, transcriptId, templateId, createdAt, [transcriptId+createdAt]",
+      audioFiles: "transcriptId, storedAt",
+      conversations: "id, transcriptId, updatedAt, [transcriptId+updatedAt]",
+      recordings: "++id, status, transcriptId, metadata.createdAt",
+      rtassScorecards:
+        "id, transcriptId, incidentId, rubricTemplateId, createdAt, [transcriptId+createdAt]",
+      rtassRubricTemplates: "id, jurisdiction, createdAt, name",
+      annotations: "id, transcriptId, timestamp, [transcriptId+timestamp]",
+      supplementalDocuments:
+        "id, transcriptId, addedAt, [transcriptId+addedAt]",
+      incidents:
+        "id, incidentNumber, createdAt, updatedAt, *transcriptIds",
+      // Glossary: indexed by department for per-department lookups
+      glossaryTerms: "id, department, term, updatedAt",
+    });
+
+    // Version 14 adds the keyring for optional encryption at rest
+    this.version(14).stores({
+      transcripts:
+        "id, filename, createdAt, metadata.duration, metadata.fileSize, [filename+createdAt], fingerprint.fileHash, *searchTokens",
+      templates: "id, category, isCustom, createdAt, name",
+      analyses:
+        "id, transcriptId, templateId, createdAt, [transcriptId+createdAt]",
+      audioFiles: "transcriptId, storedAt",
+      conversations: "id, transcriptId, updatedAt, [transcriptId+updatedAt]",
+      recordings: "++id, status, transcriptId, metadata.createdAt",
+      rtassScorecards:
+        "id, transcriptId, incidentId, rubricTemplateId, createdAt, [transcriptId+createdAt]",
+      rtassRubricTemplates: "id, jurisdiction, createdAt, name",
+      annotations: "id, transcriptId, timestamp, [transcriptId+timestamp]",
+      supplementalDocuments:
+        "id, transcriptId, addedAt, [transcriptId+addedAt]",
+      incidents:
+        "id, incidentNumber, createdAt, updatedAt, *transcriptIds",
+      glossaryTerms: "id, department, term, updatedAt",
+      // Keyring: a single record holding the wrapped data key
+      keyring: "id",
+    });
+
     // Map tables to classes for better type inference
     this.transcripts = this.table("transcripts");
     this.templates = this.table("templates");
@@ -253,6 +337,9 @@ export class AustinRTASSDB extends Dexie {
     this.rtassRubricTemplates = this.table("rtassRubricTemplates");
     this.annotations = this.table("annotations");
     this.supplementalDocuments = this.table("supplementalDocuments");
+    this.incidents = this.table("incidents");
+    this.glossaryTerms = this.table("glossaryTerms");
+    this.keyring = this.table("keyring");
   }
 }
 
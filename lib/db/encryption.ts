@@ -0,0 +1,432 @@
+/**
+ * Encryption at Rest (IndexedDB)
+ *
+ * When enabled, the sensitive fields of stored records (transcript text,
+ * segments and speaker names, audio, analysis results, notes, documents, chat
+ * messages, incident names and locations) are sealed with a random data key
+ * before they are written and opened again when they are read. The data key
+ * is wrapped with a key derived from the user's passphrase and kept in the
+ * keyring table; unlocking unwraps it into memory and locking forgets it.
+ *
+ * Indexed fields (IDs, dates, filenames) stay readable so queries keep
+ * working. Transcript search tokens are derived from the text, so they are not
+ * stored while encryption is on and search falls back to a scan.
+ *
+ * Sealing and opening call Web Crypto, which is not part of IndexedDB; inside
+ * a Dexie transaction the work is wrapped in Dexie.waitFor() so the
+ * transaction stays open.
+ */
+
+import Dexie from "dexie";
+import {
+  decryptBytes,
+  decryptJson,
+  deriveKeyFromPassphrase,
+  encryptBytes,
+  encryptJson,
+  EncryptionError,
+  generateDataKey,
+  MIN_PASSPHRASE_LENGTH,
+  PBKDF2_ITERATIONS,
+  randomBytes,
+  unwrapDataKey,
+  wrapDataKey,
+  type EncryptedBytes,
+} from "@/lib/encryption";
+import type { Transcript } from "@/types/transcript";
+import { DatabaseError, getDatabase } from "./core";
+import { computeTranscriptSearchTokens } from "./search";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const KEYRING_ID = "workspace";
+
+/** Records sealed or opened per batch when encryption is turned on or off */
+const MIGRATION_BATCH_SIZE = 50;
+
+/**
+ * Fields sealed per table. `dropped` fields are derived from sealed content
+ * and would leak it through an index, so they are not stored while sealed.
+ */
+export const SEALED_FIELDS = {
+  transcripts: {
+    fields: ["text", "segments", "summary", "original", "revisions", "glossaryCorrections", "redactions", "speakerMap"],
+    dropped: ["searchTokens"],
+  },
+  audioFiles: { fields: ["audioBlob", "redactedAudioBlob"] },
+  recordings: { fields: ["blob"] },
+  analyses: { fields: ["results", "draftResults", "evaluation"] },
+  rtassScorecards: { fields: ["sections", "humanReview", "edits"] },
+  annotations: { fields: ["text"] },
+  supplementalDocuments: { fields: ["text", "visinetData"] },
+  conversations: { fields: ["messages", "title"] },
+  incidents: { fields: ["name", "location", "notes"] },
+} as const satisfies Record<string, { fields: readonly string[]; dropped?: readonly string[] }>;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Table whose records have sealed fields
+ */
+export type SealedTable = keyof typeof SEALED_FIELDS;
+
+/**
+ * Encrypted form of a record's sensitive fields, stored as `sealed`
+ */
+export interface SealedPayload {
+  /** Non-binary fields, JSON-encoded */
+  fields: EncryptedBytes;
+  /** Binary fields, encrypted individually */
+  blobs?: Record<string, { iv: Uint8Array; type: string; data: Blob }>;
+}
+
+/**
+ * Keyring record: the data key, wrapped with the passphrase-derived key
+ */
+export interface EncryptionKeyring {
+  id: string;
+  salt: Uint8Array;
+  iterations: number;
+  wrappedKey: EncryptedBytes;
+  createdAt: Date;
+}
+
+/**
+ * Whether encryption is set up, and if so whether the data key is in memory
+ */
+export type EncryptionStatus = "disabled" | "locked" | "unlocked";
+
+/**
+ * Progress reported while existing records are sealed or opened
+ */
+export interface EncryptionMigrationProgress {
+  table: SealedTable;
+  done: number;
+  total: number;
+}
+
+type StoredRecord = Record<string, unknown> & { sealed?: SealedPayload };
+
+// ============================================================================
+// State
+// ============================================================================
+
+let dataKey: CryptoKey | null = null;
+let enabled: boolean | null = null;
+const listeners = new Set<() => void>();
+
+function setState(nextEnabled: boolean, nextKey: CryptoKey | null): void {
+  enabled = nextEnabled;
+  dataKey = nextKey;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribes to encryption status changes (for useSyncExternalStore).
+ */
+export function subscribeEncryptionStatus(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Current encryption status, or null until loadEncryptionStatus() has run.
+ */
+export function getEncryptionStatus(): EncryptionStatus | null {
+  if (enabled === null) return null;
+  if (!enabled) return "disabled";
+  return dataKey ? "unlocked" : "locked";
+}
+
+/**
+ * Reads whether encryption is set up from the keyring table.
+ */
+export async function loadEncryptionStatus(): Promise<EncryptionStatus> {
+  if (enabled === null) {
+    try {
+      const keyring = await getDatabase().keyring.get(KEYRING_ID);
+      setState(Boolean(keyring), dataKey);
+    } catch (error) {
+      throw new DatabaseError(
+        "Failed to read encryption settings",
+        "ENCRYPTION_STATUS_FAILED",
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+  return getEncryptionStatus()!;
+}
+
+/**
+ * Whether stored records are (or are to be) sealed.
+ */
+export async function isEncryptionEnabled(): Promise<boolean> {
+  return (await loadEncryptionStatus()) !== "disabled";
+}
+
+async function getKeyring(): Promise<EncryptionKeyring> {
+  const keyring = await getDatabase().keyring.get(KEYRING_ID);
+  if (!keyring) {
+    throw new DatabaseError("Encryption is not enabled", "ENCRYPTION_NOT_ENABLED");
+  }
+  return keyring;
+}
+
+async function unwrapWithPassphrase(
+  keyring: EncryptionKeyring,
+  passphrase: string,
+  extractable = false,
+): Promise<CryptoKey> {
+  const wrappingKey = await deriveKeyFromPassphrase(passphrase, keyring.salt, keyring.iterations);
+  try {
+    return await unwrapDataKey(keyring.wrappedKey, wrappingKey, extractable);
+  } catch (error) {
+    throw new DatabaseError(
+      "Incorrect passphrase",
+      "WRONG_PASSPHRASE",
+      error instanceof EncryptionError ? error : undefined,
+    );
+  }
+}
+
+async function createKeyring(dataKeyToWrap: CryptoKey, passphrase: string): Promise<EncryptionKeyring> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new DatabaseError(
+      `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+      "PASSPHRASE_TOO_SHORT",
+    );
+  }
+  const salt = randomBytes(16);
+  const wrappingKey = await deriveKeyFromPassphrase(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    id: KEYRING_ID,
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    wrappedKey: await wrapDataKey(dataKeyToWrap, wrappingKey),
+    createdAt: new Date(),
+  };
+}
+
+// ============================================================================
+// Lock / unlock
+// ============================================================================
+
+/**
+ * Unlocks the workspace: unwraps the data key into memory.
+ *
+ * @throws {DatabaseError} WRONG_PASSPHRASE or ENCRYPTION_NOT_ENABLED
+ */
+export async function unlockEncryption(passphrase: string): Promise<void> {
+  const keyring = await getKeyring();
+  setState(true, await unwrapWithPassphrase(keyring, passphrase));
+}
+
+/**
+ * Locks the workspace: forgets the data key. No-op when encryption is off.
+ */
+export function lockEncryption(): void {
+  if (enabled) setState(true, null);
+}
+
+/**
+ * Turns encryption on and seals every existing record.
+ *
+ * @param passphrase - New passphrase (see MIN_PASSPHRASE_LENGTH)
+ * @param onProgress - Called after each batch of records
+ * @throws {DatabaseError} If encryption is already enabled or sealing fails
+ */
+export async function enableEncryption(
+  passphrase: string,
+  onProgress?: (progress: EncryptionMigrationProgress) => void,
+): Promise<void> {
+  if (await isEncryptionEnabled()) {
+    throw new DatabaseError("Encryption is already enabled", "ENCRYPTION_ALREADY_ENABLED");
+  }
+
+  const key = await generateDataKey();
+  const keyring = await createKeyring(key, passphrase);
+  // The in-memory key does not need to be exportable
+  const memoryKey = await unwrapWithPassphrase(keyring, passphrase);
+
+  await getDatabase().keyring.put(keyring);
+  setState(true, memoryKey);
+
+  try {
+    await migrateAllRecords("seal", onProgress);
+  } catch (error) {
+    throw new DatabaseError(
+      "Encryption was enabled but some records could not be encrypted. Run it again from Settings.",
+      "ENCRYPTION_MIGRATION_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Re-wraps the data key with a new passphrase. Records are not re-encrypted.
+ *
+ * @throws {DatabaseError} WRONG_PASSPHRASE if the current passphrase is wrong
+ */
+export async function changeEncryptionPassphrase(current: string, next: string): Promise<void> {
+  const keyring = await getKeyring();
+  const key = await unwrapWithPassphrase(keyring, current, true);
+  await getDatabase().keyring.put(await createKeyring(key, next));
+  setState(true, await unwrapWithPassphrase(await getKeyring(), next));
+}
+
+/**
+ * Opens every sealed record and turns encryption off.
+ *
+ * @throws {DatabaseError} WRONG_PASSPHRASE if the passphrase is wrong
+ */
+export async function disableEncryption(
+  passphrase: string,
+  onProgress?: (progress: EncryptionMigrationProgress) => void,
+): Promise<void> {
+  const keyring = await getKeyring();
+  setState(true, await unwrapWithPassphrase(keyring, passphrase));
+
+  await migrateAllRecords("open", onProgress);
+  await getDatabase().keyring.delete(KEYRING_ID);
+  setState(false, null);
+}
+
+// ============================================================================
+// Sealing
+// ============================================================================
+
+function requireKey(): CryptoKey {
+  if (!dataKey) {
+    throw new DatabaseError("The workspace is locked. Unlock it to continue.", "ENCRYPTION_LOCKED");
+  }
+  return dataKey;
+}
+
+// Web Crypto promises are not IndexedDB requests; keep an enclosing
+// transaction alive while they run
+function withinTransaction<T>(work: Promise<T>): Promise<T> {
+  return Dexie.currentTransaction ? Promise.resolve(Dexie.waitFor(work)) : work;
+}
+
+async function sealWithKey<T>(table: SealedTable, record: T, key: CryptoKey): Promise<T> {
+  const spec: { fields: readonly string[]; dropped?: readonly string[] } = SEALED_FIELDS[table];
+  const stored = { ...(record as StoredRecord) };
+  const hasPlainFields = spec.fields.some((field) => stored[field] !== undefined);
+  if (!hasPlainFields && stored.sealed) return record;
+
+  const plain: Record<string, unknown> = {};
+  const blobs: NonNullable<SealedPayload["blobs"]> = {};
+  for (const field of spec.fields) {
+    const value = stored[field];
+    delete stored[field];
+    if (value instanceof Blob) {
+      const { iv, data } = await encryptBytes(key, await value.arrayBuffer());
+      blobs[field] = { iv, type: value.type, data: new Blob([data]) };
+    } else if (value !== undefined) {
+      plain[field] = value;
+    }
+  }
+  for (const field of spec.dropped ?? []) {
+    delete stored[field];
+  }
+
+  stored.sealed = {
+    fields: await encryptJson(key, plain),
+    ...(Object.keys(blobs).length > 0 && { blobs }),
+  };
+  return stored as T;
+}
+
+async function openWithKey<T>(record: T, key: CryptoKey): Promise<T> {
+  const { sealed, ...rest } = record as StoredRecord;
+  if (!sealed) return record;
+
+  const opened: Record<string, unknown> = {
+    ...rest,
+    ...(await decryptJson<Record<string, unknown>>(key, sealed.fields)),
+  };
+  for (const [field, blob] of Object.entries(sealed.blobs ?? {})) {
+    const bytes = await decryptBytes(key, { iv: blob.iv, data: await blob.data.arrayBuffer() });
+    opened[field] = new Blob([bytes], { type: blob.type });
+  }
+  return opened as T;
+}
+
+/**
+ * Seals a record before it is written. Returns it unchanged when encryption
+ * is off.
+ *
+ * @throws {DatabaseError} ENCRYPTION_LOCKED while the workspace is locked
+ */
+export async function sealRecord<T>(table: SealedTable, record: T): Promise<T> {
+  if (!(await isEncryptionEnabled())) return record;
+  return withinTransaction(sealWithKey(table, record, requireKey()));
+}
+
+/**
+ * Seals several records of one table (see sealRecord).
+ */
+export async function sealRecords<T>(table: SealedTable, records: T[]): Promise<T[]> {
+  if (records.length === 0 || !(await isEncryptionEnabled())) return records;
+  const key = requireKey();
+  return withinTransaction(Promise.all(records.map((r) => sealWithKey(table, r, key))));
+}
+
+/**
+ * Opens a record after it is read. Records stored without encryption are
+ * returned unchanged.
+ *
+ * @throws {DatabaseError} ENCRYPTION_LOCKED while the workspace is locked
+ */
+export async function openRecord<T>(record: T): Promise<T> {
+  if (!record || !(record as StoredRecord).sealed) return record;
+  return withinTransaction(openWithKey(record, requireKey()));
+}
+
+/**
+ * Opens several records (see openRecord).
+ */
+export async function openRecords<T>(records: T[]): Promise<T[]> {
+  if (!records.some((r) => (r as StoredRecord)?.sealed)) return records;
+  const key = requireKey();
+  return withinTransaction(Promise.all(records.map((r) => openWithKey(r, key))));
+}
+
+// ============================================================================
+// Migration
+// ============================================================================
+
+async function migrateAllRecords(
+  direction: "seal" | "open",
+  onProgress?: (progress: EncryptionMigrationProgress) => void,
+): Promise<void> {
+  const db = getDatabase();
+  const key = requireKey();
+
+  for (const table of Object.keys(SEALED_FIELDS) as SealedTable[]) {
+    const dexieTable = db.table<StoredRecord>(table);
+    const keys = await dexieTable.toCollection().primaryKeys();
+
+    for (let i = 0; i < keys.length; i += MIGRATION_BATCH_SIZE) {
+      const batch = (await dexieTable.bulkGet(keys.slice(i, i + MIGRATION_BATCH_SIZE))).filter(
+        (record): record is StoredRecord => record !== undefined,
+      );
+      const migrated = await Promise.all(
+        batch.map(async (record) => {
+          if (direction === "seal") return sealWithKey(table, record, key);
+          const opened = await openWithKey(record, key);
+          // Restore what sealing dropped
+          return table === "transcripts"
+            ? { ...opened, searchTokens: computeTranscriptSearchTokens(opened as unknown as Transcript) }
+            : opened;
+        }),
+      );
+      await dexieTable.bulkPut(migrated);
+      onProgress?.({ table, done: Math.min(i + MIGRATION_BATCH_SIZE, keys.length), total: keys.length });
+    }
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Glossary Database Operations
+ *
+ * CRUD operations for department glossary terms stored in IndexedDB.
+ * Terms prime the transcription model and drive the correction pass in
+ * lib/glossary.ts.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { getDatabase, DatabaseError } from "./core";
+import {
+  GLOSSARY_ALL_DEPARTMENTS,
+  type GlossaryTerm,
+  type GlossaryTermInput,
+} from "@/types/glossary";
+
+/**
+ * Normalize input: trims the term and notes, and drops blank or duplicate
+ * variants and variants that are just the term itself.
+ */
+function normalizeInput(input: GlossaryTermInput): GlossaryTermInput {
+  const term = input.term.trim();
+  const seen = new Set([term.toLowerCase()]);
+  const variants: string[] = [];
+
+  for (const variant of input.variants) {
+    const trimmed = variant.trim();
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+    seen.add(trimmed.toLowerCase());
+    variants.push(trimmed);
+  }
+
+  return {
+    term,
+    department: input.department || GLOSSARY_ALL_DEPARTMENTS,
+    variants,
+    notes: input.notes?.trim() || undefined,
+  };
+}
+
+/**
+ * Add glossary terms.
+ *
+ * @param inputs - Term fields, one per term
+ * @returns The created terms
+ * @throws {DatabaseError} If save fails
+ */
+export async function createGlossaryTerms(
+  inputs: GlossaryTermInput[],
+): Promise<GlossaryTerm[]> {
+  const now = new Date();
+  const terms: GlossaryTerm[] = inputs.map((input) => ({
+    ...normalizeInput(input),
+    id: uuidv4(),
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  try {
+    const db = getDatabase();
+    await db.glossaryTerms.bulkAdd(terms);
+    return terms;
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to save glossary terms: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "GLOSSARY_SAVE_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Update an existing glossary term.
+ *
+ * @param id - The term ID
+ * @param input - Updated term fields
+ * @returns The updated term
+ * @throws {DatabaseError} If the term does not exist or update fails
+ */
+export async function updateGlossaryTerm(
+  id: string,
+  input: GlossaryTermInput,
+): Promise<GlossaryTerm> {
+  try {
+    const db = getDatabase();
+    const existing = await db.glossaryTerms.get(id);
+    if (!existing) {
+      throw new DatabaseError(`Glossary term not found: ${id}`, "NOT_FOUND");
+    }
+
+    const updated: GlossaryTerm = {
+      ...existing,
+      ...normalizeInput(input),
+      updatedAt: new Date(),
+    };
+    await db.glossaryTerms.put(updated);
+    return updated;
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      `Failed to update glossary term: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "GLOSSARY_UPDATE_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Get all glossary terms, sorted by term.
+ *
+ * @throws {DatabaseError} If retrieval fails
+ */
+export async function getAllGlossaryTerms(): Promise<GlossaryTerm[]> {
+  try {
+    const db = getDatabase();
+    return await db.glossaryTerms.orderBy("term").toArray();
+  } catch (error) {
+    throw new DatabaseError(
+      "Failed to retrieve glossary terms",
+      "GET_ALL_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Get the terms that apply to a department: its own terms plus the terms
+ * shared by all departments. Without a department, only the shared terms.
+ *
+ * @throws {DatabaseError} If retrieval fails
+ */
+export async function getGlossaryTermsForDepartment(
+  department?: string,
+): Promise<GlossaryTerm[]> {
+  try {
+    const db = getDatabase();
+    const departments = department
+      ? [GLOSSARY_ALL_DEPARTMENTS, department]
+      : [GLOSSARY_ALL_DEPARTMENTS];
+    return await db.glossaryTerms.where("department").anyOf(departments).toArray();
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to retrieve glossary terms for department: ${department ?? GLOSSARY_ALL_DEPARTMENTS}`,
+      "GET_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Delete a glossary term.
+ *
+ * @throws {DatabaseError} If deletion fails
+ */
+export async function deleteGlossaryTerm(id: string): Promise<void> {
+  try {
+    const db = getDatabase();
+    await db.glossaryTerms.delete(id);
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to delete glossary term with ID: ${id}`,
+      "DELETE_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
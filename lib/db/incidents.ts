@@ -0,0 +1,322 @@
+/**
+ * Incident Database Operations
+ *
+ * CRUD operations for incidents stored in IndexedDB.
+ * An incident groups the transcripts (radio channels) of a single call.
+ * Each transcript belongs to at most one incident; RTASS scorecards for member
+ * transcripts carry the incident ID in `RtassScorecard.incidentId`.
+ *
+ * The name, location and notes are sealed when encryption at rest is on
+ * (see encryption.ts), so incidents are read and written whole.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { getDatabase, DatabaseError, type AustinRTASSDB } from "./core";
+import {
+  loadEncryptionStatus,
+  openRecord,
+  openRecords,
+  sealRecord,
+  sealRecords,
+} from "./encryption";
+import type { Incident, IncidentInput } from "@/types/incident";
+
+/**
+ * Normalize channel list: trims labels and drops duplicate transcripts.
+ */
+function normalizeChannels(
+  channels: IncidentInput["channels"],
+): Incident["channels"] {
+  const seen = new Set<string>();
+  const result: Incident["channels"] = [];
+
+  for (const channel of channels) {
+    if (!channel.transcriptId || seen.has(channel.transcriptId)) continue;
+    seen.add(channel.transcriptId);
+    result.push({
+      ...channel,
+      label: channel.label.trim() || `Channel ${result.length + 1}`,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Point scorecards of the given transcripts at an incident, or back at the
+ * transcript itself when `incidentId` is null (standalone transcript).
+ *
+ * Must be called inside a transaction that includes `rtassScorecards`.
+ */
+async function linkScorecardsToIncident(
+  db: AustinRTASSDB,
+  transcriptIds: string[],
+  incidentId: string | null,
+): Promise<void> {
+  if (transcriptIds.length === 0) return;
+
+  await db.rtassScorecards
+    .where("transcriptId")
+    .anyOf(transcriptIds)
+    .modify((scorecard) => {
+      scorecard.incidentId = incidentId ?? scorecard.transcriptId;
+    });
+}
+
+/**
+ * Remove transcripts from every incident other than `keepIncidentId`.
+ *
+ * Must be called inside a transaction that includes `incidents`.
+ */
+async function detachTranscriptsFromOtherIncidents(
+  db: AustinRTASSDB,
+  transcriptIds: string[],
+  keepIncidentId?: string,
+): Promise<void> {
+  if (transcriptIds.length === 0) return;
+
+  const ids = new Set(transcriptIds);
+  const incidents = await openRecords(
+    await db.incidents
+      .where("transcriptIds")
+      .anyOf(transcriptIds)
+      .filter((incident) => incident.id !== keepIncidentId)
+      .toArray(),
+  );
+  if (incidents.length === 0) return;
+
+  const updated = incidents.map((incident) => {
+    const channels = incident.channels.filter((c) => !ids.has(c.transcriptId));
+    return {
+      ...incident,
+      channels,
+      transcriptIds: channels.map((c) => c.transcriptId),
+      updatedAt: new Date(),
+    };
+  });
+  await db.incidents.bulkPut(await sealRecords("incidents", updated));
+}
+
+/**
+ * Remove deleted transcripts from their incidents.
+ * Used by transcript deletion to cascade; must run inside a transaction that
+ * includes `incidents`.
+ *
+ * @param db - Database instance (inside an open transaction)
+ * @param transcriptIds - IDs of transcripts being deleted
+ */
+export async function removeTranscriptsFromIncidents(
+  db: AustinRTASSDB,
+  transcriptIds: string[],
+): Promise<void> {
+  await detachTranscriptsFromOtherIncidents(db, transcriptIds);
+}
+
+/**
+ * Create a new incident.
+ *
+ * Transcripts already attached to another incident are moved to the new one.
+ *
+ * @param input - Incident fields
+ * @returns The created incident
+ * @throws {DatabaseError} If save fails
+ */
+export async function createIncident(input: IncidentInput): Promise<Incident> {
+  const db = getDatabase();
+  const now = new Date();
+  const channels = normalizeChannels(input.channels);
+
+  const incident: Incident = {
+    ...input,
+    id: uuidv4(),
+    name: input.name.trim(),
+    channels,
+    transcriptIds: channels.map((c) => c.transcriptId),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  try {
+    await loadEncryptionStatus();
+    await db.transaction("rw", [db.incidents, db.rtassScorecards], async () => {
+      await detachTranscriptsFromOtherIncidents(
+        db,
+        incident.transcriptIds,
+        incident.id,
+      );
+      await db.incidents.add(await sealRecord("incidents", incident));
+      await linkScorecardsToIncident(db, incident.transcriptIds, incident.id);
+    });
+    return incident;
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to save incident: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "INCIDENT_SAVE_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Update an existing incident.
+ *
+ * Scorecards of transcripts removed from the incident are unlinked; newly
+ * added transcripts are moved out of any other incident.
+ *
+ * @param id - The incident ID
+ * @param input - Updated incident fields
+ * @returns The updated incident
+ * @throws {DatabaseError} If the incident does not exist or update fails
+ */
+export async function updateIncident(
+  id: string,
+  input: IncidentInput,
+): Promise<Incident> {
+  const db = getDatabase();
+  const channels = normalizeChannels(input.channels);
+
+  try {
+    await loadEncryptionStatus();
+    return await db.transaction(
+      "rw",
+      [db.incidents, db.rtassScorecards],
+      async () => {
+        const existing = await openRecord(await db.incidents.get(id));
+        if (!existing) {
+          throw new DatabaseError(
+            `Incident not found: ${id}`,
+            "INCIDENT_NOT_FOUND",
+          );
+        }
+
+        const updated: Incident = {
+          ...existing,
+          ...input,
+          name: input.name.trim(),
+          channels,
+          transcriptIds: channels.map((c) => c.transcriptId),
+          updatedAt: new Date(),
+        };
+
+        const kept = new Set(updated.transcriptIds);
+        const removed = existing.transcriptIds.filter((t) => !kept.has(t));
+
+        await detachTranscriptsFromOtherIncidents(
+          db,
+          updated.transcriptIds,
+          id,
+        );
+        await db.incidents.put(await sealRecord("incidents", updated));
+        await linkScorecardsToIncident(db, removed, null);
+        await linkScorecardsToIncident(db, updated.transcriptIds, id);
+
+        return updated;
+      },
+    );
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      `Failed to update incident: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "INCIDENT_UPDATE_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Get an incident by its ID.
+ *
+ * @param id - The incident ID
+ * @returns The incident or undefined if not found
+ * @throws {DatabaseError} If retrieval fails
+ */
+export async function getIncident(id: string): Promise<Incident | undefined> {
+  const db = getDatabase();
+
+  try {
+    return await openRecord(await db.incidents.get(id));
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to get incident: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "INCIDENT_GET_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Get all incidents, most recently updated first.
+ *
+ * @returns Array of incidents
+ * @throws {DatabaseError} If retrieval fails
+ */
+export async function getAllIncidents(): Promise<Incident[]> {
+  const db = getDatabase();
+
+  try {
+    return await openRecords(
+      await db.incidents.orderBy("updatedAt").reverse().toArray(),
+    );
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to get incidents: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "INCIDENTS_GET_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Get the incident a transcript belongs to.
+ *
+ * @param transcriptId - The transcript ID
+ * @returns The incident or undefined if the transcript is standalone
+ * @throws {DatabaseError} If retrieval fails
+ */
+export async function getIncidentByTranscript(
+  transcriptId: string,
+): Promise<Incident | undefined> {
+  const db = getDatabase();
+
+  try {
+    return await openRecord(
+      await db.incidents.where("transcriptIds").equals(transcriptId).first(),
+    );
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to get incident for transcript: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "INCIDENT_GET_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Delete an incident.
+ *
+ * Member transcripts (and their analyses, annotations, documents and
+ * scorecards) are kept; their scorecards are unlinked from the incident.
+ *
+ * @param id - The incident ID to delete
+ * @throws {DatabaseError} If deletion fails
+ */
+export async function deleteIncident(id: string): Promise<void> {
+  const db = getDatabase();
+
+  try {
+    await loadEncryptionStatus();
+    await db.transaction("rw", [db.incidents, db.rtassScorecards], async () => {
+      const existing = await openRecord(await db.incidents.get(id));
+      if (!existing) return;
+
+      await linkScorecardsToIncident(db, existing.transcriptIds, null);
+      await db.incidents.delete(id);
+    });
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to delete incident: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "INCIDENT_DELETE_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
@@ -4,6 +4,7 @@
 
 import type { SavedRecording } from "@/types/recording";
 import { DatabaseError, getDatabase } from "./core";
+import { openRecord, openRecords, sealRecord } from "./encryption";
 
 /**
  * Recording status enum.
@@ -31,9 +32,10 @@ export async function saveRecording(recording: Omit<SavedRecording, "id">): Prom
     };
 
     // add() returns the auto-generated id for auto-increment keys
-    const id = await db.recordings.add(recordingToSave);
+    const id = await db.recordings.add(await sealRecord("recordings", recordingToSave));
     return id;
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     if (error instanceof Error && error.name === "QuotaExceededError") {
       throw new DatabaseError(
         "Storage quota exceeded. Please delete some recordings to free up space.",
@@ -52,8 +54,9 @@ export async function saveRecording(recording: Omit<SavedRecording, "id">): Prom
 export async function getRecording(id: number): Promise<SavedRecording | undefined> {
   try {
     const db = getDatabase();
-    return await db.recordings.get(id);
+    return await openRecord(await db.recordings.get(id));
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to retrieve recording with ID: ${id}`,
       "GET_FAILED",
@@ -65,8 +68,9 @@ export async function getRecording(id: number): Promise<SavedRecording | undefin
 export async function getAllRecordings(): Promise<SavedRecording[]> {
   try {
     const db = getDatabase();
-    return await db.recordings.orderBy("metadata.createdAt").reverse().toArray();
+    return await openRecords(await db.recordings.orderBy("metadata.createdAt").reverse().toArray());
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       "Failed to retrieve recordings",
       "GET_ALL_FAILED",
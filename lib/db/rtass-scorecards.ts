@@ -1,12 +1,19 @@
 import Dexie from "dexie";
-import type { RtassScorecard } from "@/types/rtass";
+import { applyCriterionEdit } from "@/lib/rtass-scoring";
+import type {
+  RtassCriterionAssessment,
+  RtassRubricTemplate,
+  RtassScorecard,
+} from "@/types/rtass";
 import { DatabaseError, getDatabase } from "./core";
+import { loadEncryptionStatus, openRecord, openRecords, sealRecord } from "./encryption";
 
 export async function saveRtassScorecard(scorecard: RtassScorecard): Promise<void> {
   try {
     const db = getDatabase();
-    await db.rtassScorecards.put(scorecard);
+    await db.rtassScorecards.put(await sealRecord("rtassScorecards", scorecard));
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       "Failed to save RTASS scorecard",
       "SAVE_FAILED",
@@ -20,12 +27,15 @@ export async function getRtassScorecardsByTranscript(
 ): Promise<RtassScorecard[]> {
   try {
     const db = getDatabase();
-    return await db.rtassScorecards
-      .where("[transcriptId+createdAt]")
-      .between([transcriptId, Dexie.minKey], [transcriptId, Dexie.maxKey])
-      .reverse()
-      .toArray();
+    return await openRecords(
+      await db.rtassScorecards
+        .where("[transcriptId+createdAt]")
+        .between([transcriptId, Dexie.minKey], [transcriptId, Dexie.maxKey])
+        .reverse()
+        .toArray()
+    );
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       "Failed to get RTASS scorecards for transcript",
       "GET_FAILED",
@@ -34,11 +44,47 @@ export async function getRtassScorecardsByTranscript(
   }
 }
 
+export async function getRtassScorecardsByIncident(
+  incidentId: string
+): Promise<RtassScorecard[]> {
+  try {
+    const db = getDatabase();
+    const scorecards = await openRecords(
+      await db.rtassScorecards.where("incidentId").equals(incidentId).toArray()
+    );
+    return scorecards.sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      "Failed to get RTASS scorecards for incident",
+      "GET_FAILED",
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+export async function getAllRtassScorecards(): Promise<RtassScorecard[]> {
+  try {
+    const db = getDatabase();
+    return await openRecords(await db.rtassScorecards.orderBy("createdAt").reverse().toArray());
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      "Failed to get RTASS scorecards",
+      "GET_ALL_FAILED",
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
 export async function getRtassScorecard(id: string): Promise<RtassScorecard | undefined> {
   try {
     const db = getDatabase();
-    return await db.rtassScorecards.get(id);
+    return await openRecord(await db.rtassScorecards.get(id));
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       "Failed to get RTASS scorecard",
       "GET_FAILED",
@@ -47,6 +93,54 @@ export async function getRtassScorecard(id: string): Promise<RtassScorecard | un
   }
 }
 
+/**
+ * Override a criterion result on a saved scorecard.
+ *
+ * Records the change (who, when, before/after, reason) in the scorecard's
+ * edit history, keeps the model's original assessment, and recomputes the
+ * section and overall scores with the rubric's scoring config.
+ *
+ * @param id - Scorecard ID
+ * @param rubric - Rubric the scorecard was produced with
+ * @param edit - The criterion to change, its new assessment and why
+ * @returns The updated scorecard
+ * @throws {DatabaseError} If the scorecard or criterion does not exist or the update fails
+ */
+export async function updateRtassScorecardCriterion(
+  id: string,
+  rubric: RtassRubricTemplate,
+  edit: {
+    sectionId: string;
+    criterionId: string;
+    assessment: RtassCriterionAssessment;
+    reason: string;
+    editedBy: string;
+  }
+): Promise<RtassScorecard> {
+  const db = getDatabase();
+
+  try {
+    await loadEncryptionStatus();
+    return await db.transaction("rw", db.rtassScorecards, async () => {
+      const existing = await openRecord(await db.rtassScorecards.get(id));
+      if (!existing) {
+        throw new DatabaseError(`RTASS scorecard not found: ${id}`, "NOT_FOUND");
+      }
+
+      const updated = applyCriterionEdit(existing, rubric, edit);
+      await db.rtassScorecards.put(await sealRecord("rtassScorecards", updated));
+      return updated;
+    });
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      `Failed to update RTASS scorecard: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "UPDATE_FAILED",
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
 export async function deleteRtassScorecard(id: string): Promise<void> {
   try {
     const db = getDatabase();
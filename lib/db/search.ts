@@ -74,6 +74,13 @@ const STOPWORDS = new Set([
   "yours",
 ]);
 
+/**
+ * Whether a word is too common to be worth indexing
+ */
+export function isSearchStopword(token: string): boolean {
+  return STOPWORDS.has(token);
+}
+
 function extractTokensFromText(text: string, maxTokens: number): string[] {
   const tokens = new Set<string>();
   const tokenRe = /[a-z0-9]{2,64}/gi;
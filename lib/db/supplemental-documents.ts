@@ -7,6 +7,7 @@
  */
 
 import { getDatabase, DatabaseError } from "./core";
+import { openRecord, openRecords, sealRecord, sealRecords } from "./encryption";
 import type {
   SupplementalDocument,
   PersistedSupplementalDocument,
@@ -45,9 +46,12 @@ export async function saveSupplementalDocument(
   const db = getDatabase();
 
   try {
-    await db.supplementalDocuments.put(doc);
+    await db.supplementalDocuments.put(
+      await sealRecord("supplementalDocuments", doc),
+    );
     return doc;
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to save supplemental document: ${error instanceof Error ? error.message : "Unknown error"}`,
       "SUPPLEMENTAL_DOC_SAVE_FAILED",
@@ -69,9 +73,12 @@ export async function saveSupplementalDocumentsBatch(
   const db = getDatabase();
 
   try {
-    await db.supplementalDocuments.bulkPut(docs);
+    await db.supplementalDocuments.bulkPut(
+      await sealRecords("supplementalDocuments", docs),
+    );
     return docs;
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to save supplemental documents batch: ${error instanceof Error ? error.message : "Unknown error"}`,
       "SUPPLEMENTAL_DOCS_BATCH_SAVE_FAILED",
@@ -93,8 +100,9 @@ export async function getSupplementalDocument(
   const db = getDatabase();
 
   try {
-    return await db.supplementalDocuments.get(id);
+    return await openRecord(await db.supplementalDocuments.get(id));
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to get supplemental document: ${error instanceof Error ? error.message : "Unknown error"}`,
       "SUPPLEMENTAL_DOC_GET_FAILED",
@@ -116,11 +124,14 @@ export async function getSupplementalDocumentsByTranscript(
   const db = getDatabase();
 
   try {
-    return await db.supplementalDocuments
-      .where("transcriptId")
-      .equals(transcriptId)
-      .sortBy("addedAt");
+    return await openRecords(
+      await db.supplementalDocuments
+        .where("transcriptId")
+        .equals(transcriptId)
+        .sortBy("addedAt"),
+    );
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to get supplemental documents for transcript: ${error instanceof Error ? error.message : "Unknown error"}`,
       "SUPPLEMENTAL_DOCS_GET_FAILED",
@@ -129,6 +140,29 @@ export async function getSupplementalDocumentsByTranscript(
   }
 }
 
+/**
+ * Get every supplemental document that carries a parsed Visinet CAD report.
+ *
+ * @returns Visinet documents across all transcripts
+ * @throws {DatabaseError} If retrieval fails
+ */
+export async function getVisinetDocuments(): Promise<PersistedSupplementalDocument[]> {
+  const db = getDatabase();
+
+  try {
+    // visinetData may be sealed, so filter after opening
+    const docs = await openRecords(await db.supplementalDocuments.toArray());
+    return docs.filter((doc) => !!doc.visinetData);
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      `Failed to get Visinet documents: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "SUPPLEMENTAL_DOCS_GET_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
 /**
  * Delete a supplemental document by its ID.
  *
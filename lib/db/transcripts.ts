@@ -2,20 +2,34 @@
  * Transcript DB Operations
  */
 
-import type { Transcript } from "@/types/transcript";
+import { applyTranscriptRevision } from "@/lib/transcript-editing";
+import type {
+  Transcript,
+  TranscriptSegment,
+  TranscriptSpeakerMap,
+} from "@/types/transcript";
+import type { RedactionSpan } from "@/types/redaction";
 import { DatabaseError, getDatabase } from "./core";
+import {
+  isEncryptionEnabled,
+  loadEncryptionStatus,
+  openRecord,
+  openRecords,
+  sealRecord,
+  sealRecords,
+} from "./encryption";
 import type { PaginatedResult, PaginationOptions } from "./pagination";
 import { computeTranscriptSearchTokens, tokenizeSearchQuery } from "./search";
+import { removeTranscriptsFromIncidents } from "./incidents";
 
 export async function findTranscriptByFingerprint(
   hash: string,
 ): Promise<Transcript | undefined> {
   try {
     const db = getDatabase();
-    return await db.transcripts
-      .where("fingerprint.fileHash")
-      .equals(hash)
-      .first();
+    return await openRecord(
+      await db.transcripts.where("fingerprint.fileHash").equals(hash).first(),
+    );
   } catch (error) {
     console.error("Failed to lookup transcript fingerprint", error);
     return undefined;
@@ -60,9 +74,10 @@ export async function saveTranscript(transcript: Transcript): Promise<string> {
           : computeTranscriptSearchTokens(transcript),
     };
 
-    await db.transcripts.put(transcriptToSave);
+    await db.transcripts.put(await sealRecord("transcripts", transcriptToSave));
     return transcript.id;
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     if (error instanceof Error && error.name === "QuotaExceededError") {
       throw new DatabaseError(
         "Storage quota exceeded. Please delete some transcripts to free up space.",
@@ -90,8 +105,9 @@ export async function getTranscript(
 ): Promise<Transcript | undefined> {
   try {
     const db = getDatabase();
-    return await db.transcripts.get(id);
+    return await openRecord(await db.transcripts.get(id));
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to retrieve transcript with ID: ${id}`,
       "GET_FAILED",
@@ -109,8 +125,11 @@ export async function getTranscript(
 export async function getAllTranscripts(): Promise<Transcript[]> {
   try {
     const db = getDatabase();
-    return await db.transcripts.orderBy("createdAt").reverse().toArray();
+    return await openRecords(
+      await db.transcripts.orderBy("createdAt").reverse().toArray(),
+    );
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       "Failed to retrieve transcripts",
       "GET_ALL_FAILED",
@@ -119,6 +138,35 @@ export async function getAllTranscripts(): Promise<Transcript[]> {
   }
 }
 
+/**
+ * Retrieves the department of each of the given transcripts.
+ *
+ * @param ids - Transcript IDs
+ * @returns Department by transcript ID (transcripts without one are omitted)
+ * @throws {DatabaseError} If the retrieval operation fails
+ */
+export async function getTranscriptDepartments(
+  ids: string[],
+): Promise<Map<string, string>> {
+  try {
+    const db = getDatabase();
+    const transcripts = await db.transcripts.bulkGet(ids);
+    const departments = new Map<string, string>();
+    for (const transcript of transcripts) {
+      if (transcript?.department) {
+        departments.set(transcript.id, transcript.department);
+      }
+    }
+    return departments;
+  } catch (error) {
+    throw new DatabaseError(
+      "Failed to retrieve transcript departments",
+      "GET_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
 /**
  * Retrieves transcripts with pagination for better performance on large datasets.
  */
@@ -147,7 +195,9 @@ export async function getTranscriptsPaginated(
     }
 
     // Apply pagination
-    const items = await query.offset(offset).limit(limit).toArray();
+    const items = await openRecords(
+      await query.offset(offset).limit(limit).toArray(),
+    );
 
     return {
       items,
@@ -157,6 +207,7 @@ export async function getTranscriptsPaginated(
       limit,
     };
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       "Failed to retrieve paginated transcripts",
       "GET_PAGINATED_FAILED",
@@ -170,6 +221,8 @@ export async function getTranscriptsPaginated(
  *
  * Filters transcripts by filename or text content matching the search term.
  * Uses in-memory filtering (IndexedDB doesn't support LIKE queries).
+ * While encryption at rest is enabled there is no token index, so every
+ * transcript is opened and tokenized instead.
  */
 export async function searchTranscriptsPaginated(
   searchTerm: string,
@@ -193,13 +246,21 @@ export async function searchTranscriptsPaginated(
     const tokens = tokenizeSearchQuery(trimmedSearch);
     let allMatches: Transcript[];
 
-    if (tokens.length === 0) {
+    if (tokens.length > 0 && (await isEncryptionEnabled())) {
+      const all = await openRecords(await db.transcripts.toArray());
+      allMatches = all.filter((t) => {
+        const tokenList = computeTranscriptSearchTokens(t);
+        return tokens.every((token) => tokenList.includes(token));
+      });
+    } else if (tokens.length === 0) {
       // Avoid a full-table scan for short/stopword-only searches.
       // Best-effort fallback: filename prefix match (uses the filename index).
-      allMatches = await db.transcripts
-        .where("filename")
-        .startsWithIgnoreCase(trimmedSearch)
-        .toArray();
+      allMatches = await openRecords(
+        await db.transcripts
+          .where("filename")
+          .startsWithIgnoreCase(trimmedSearch)
+          .toArray(),
+      );
     } else {
       // Use the rarest token as the seed set to minimize candidate expansion.
       const tokenCounts = await Promise.all(
@@ -273,6 +334,7 @@ export async function searchTranscriptsPaginated(
       limit,
     };
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       "Failed to search transcripts",
       "SEARCH_FAILED",
@@ -301,6 +363,7 @@ export async function deleteTranscript(id: string): Promise<void> {
         db.rtassScorecards,
         db.annotations,
         db.supplementalDocuments,
+        db.incidents,
       ],
       async () => {
         const transcript = await db.transcripts.get(id);
@@ -337,6 +400,9 @@ export async function deleteTranscript(id: string): Promise<void> {
           .where("transcriptId")
           .equals(id)
           .delete();
+
+        // Detach the transcript from its incident (if any)
+        await removeTranscriptsFromIncidents(db, [id]);
       },
     );
   } catch (error) {
@@ -377,10 +443,13 @@ export async function saveTranscriptsBulk(
     }));
 
     // bulkPut is much faster than multiple put() calls
-    await db.transcripts.bulkPut(transcriptsToSave);
+    await db.transcripts.bulkPut(
+      await sealRecords("transcripts", transcriptsToSave),
+    );
 
     return transcriptsToSave.length;
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     if (error instanceof Error && error.name === "QuotaExceededError") {
       throw new DatabaseError(
         "Storage quota exceeded. Please delete some transcripts to free up space.",
@@ -423,6 +492,7 @@ export async function deleteOldTranscripts(daysOld: number): Promise<number> {
         db.rtassScorecards,
         db.annotations,
         db.supplementalDocuments,
+        db.incidents,
       ],
       async () => {
         // Delete transcripts
@@ -444,6 +514,7 @@ export async function deleteOldTranscripts(daysOld: number): Promise<number> {
           .anyOf(idsToDelete)
           .delete();
         await db.audioFiles.bulkDelete(idsToDelete);
+        await removeTranscriptsFromIncidents(db, idsToDelete);
       },
     );
 
@@ -479,7 +550,7 @@ export async function getTranscriptsSorted(
 
     // For nested properties, we need to sort in memory
     if (sortBy === "metadata.fileSize") {
-      const all = await db.transcripts.toArray();
+      const all = await openRecords(await db.transcripts.toArray());
       return all.sort((a, b) => {
         const aVal = a.metadata?.fileSize ?? 0;
         const bVal = b.metadata?.fileSize ?? 0;
@@ -492,8 +563,9 @@ export async function getTranscriptsSorted(
     if (order === "desc") {
       query = query.reverse();
     }
-    return await query.toArray();
+    return await openRecords(await query.toArray());
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       "Failed to retrieve sorted transcripts",
       "GET_SORTED_FAILED",
@@ -521,6 +593,7 @@ export async function deleteTranscriptsBulk(ids: string[]): Promise<number> {
         db.rtassScorecards,
         db.annotations,
         db.supplementalDocuments,
+        db.incidents,
       ],
       async () => {
         // Delete transcripts
@@ -536,6 +609,7 @@ export async function deleteTranscriptsBulk(ids: string[]): Promise<number> {
           .anyOf(ids)
           .delete();
         await db.audioFiles.bulkDelete(ids);
+        await removeTranscriptsFromIncidents(db, ids);
       },
     );
 
@@ -555,8 +629,14 @@ export async function updateTranscriptSummary(
 ): Promise<void> {
   try {
     const db = getDatabase();
-    await db.transcripts.update(id, { summary });
+    const existing = await getTranscript(id);
+    if (!existing) return;
+    // The summary may be sealed with the rest of the record, so rewrite it whole
+    await db.transcripts.put(
+      await sealRecord("transcripts", { ...existing, summary }),
+    );
   } catch (error) {
+    if (error instanceof DatabaseError) throw error;
     throw new DatabaseError(
       `Failed to update transcript summary for ID: ${id}`,
       "UPDATE_FAILED",
@@ -564,3 +644,95 @@ export async function updateTranscriptSummary(
     );
   }
 }
+
+/**
+ * Save the transcript's redaction spans.
+ */
+export async function updateTranscriptRedactions(
+  id: string,
+  redactions: RedactionSpan[],
+): Promise<void> {
+  try {
+    const db = getDatabase();
+    const existing = await getTranscript(id);
+    if (!existing) {
+      throw new DatabaseError(`Transcript not found: ${id}`, "NOT_FOUND");
+    }
+    // Spans quote the text they cover, so they are sealed with the record
+    await db.transcripts.put(
+      await sealRecord("transcripts", { ...existing, redactions }),
+    );
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      `Failed to update redactions for transcript ID: ${id}`,
+      "UPDATE_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+export async function updateTranscriptSpeakerMap(
+  id: string,
+  speakerMap: TranscriptSpeakerMap,
+): Promise<void> {
+  const db = getDatabase();
+
+  try {
+    await loadEncryptionStatus();
+    await db.transaction("rw", db.transcripts, async () => {
+      const existing = await openRecord(await db.transcripts.get(id));
+      if (!existing) {
+        throw new DatabaseError(`Transcript not found: ${id}`, "NOT_FOUND");
+      }
+      // Speaker names identify personnel, so they are sealed with the record
+      await db.transcripts.put(
+        await sealRecord("transcripts", { ...existing, speakerMap }),
+      );
+    });
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      `Failed to update speaker map for transcript ID: ${id}`,
+      "UPDATE_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Save corrected segments as the transcript's next revision.
+ *
+ * @see applyTranscriptRevision
+ */
+export async function reviseTranscript(
+  id: string,
+  params: { draft: TranscriptSegment[]; editedBy: string; note?: string },
+): Promise<Transcript> {
+  const db = getDatabase();
+
+  try {
+    await loadEncryptionStatus();
+    return await db.transaction("rw", db.transcripts, async () => {
+      const existing = await openRecord(await db.transcripts.get(id));
+      if (!existing) {
+        throw new DatabaseError(`Transcript not found: ${id}`, "NOT_FOUND");
+      }
+
+      const revised = applyTranscriptRevision(existing, params);
+      const updated = {
+        ...revised,
+        searchTokens: computeTranscriptSearchTokens(revised),
+      };
+      await db.transcripts.put(await sealRecord("transcripts", updated));
+      return updated;
+    });
+  } catch (error) {
+    if (error instanceof DatabaseError) throw error;
+    throw new DatabaseError(
+      `Failed to revise transcript: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "UPDATE_FAILED",
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
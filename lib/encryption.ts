@@ -0,0 +1,302 @@
+/**
+ * Passphrase Encryption
+ *
+ * AES-GCM primitives (Web Crypto) shared by encryption at rest
+ * (lib/db/encryption.ts) and passphrase-protected package files.
+ *
+ * Keys are derived from passphrases with PBKDF2-SHA-256. Nothing here stores
+ * a passphrase or key; callers decide what to persist.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * PBKDF2 iterations for new keys (OWASP recommendation for SHA-256)
+ */
+export const PBKDF2_ITERATIONS = 310_000;
+
+/**
+ * Shortest passphrase accepted when encryption is set up
+ */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Extension appended to passphrase-protected files
+ */
+export const PROTECTED_FILE_EXTENSION = '.enc';
+
+// "RTASSENC" followed by a format version byte
+const PROTECTED_FILE_MAGIC = [0x52, 0x54, 0x41, 0x53, 0x53, 0x45, 0x4e, 0x43];
+const PROTECTED_FILE_VERSION = 1;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const HEADER_LENGTH = PROTECTED_FILE_MAGIC.length + 1 + 4 + SALT_LENGTH + IV_LENGTH;
+// PBKDF2 iterations accepted from a protected file's header; anything else is
+// corrupt or crafted to fail the key derivation or stall it for minutes
+const MIN_PROTECTED_FILE_ITERATIONS = 100_000;
+const MAX_PROTECTED_FILE_ITERATIONS = 2_000_000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Custom error class for encryption operations.
+ */
+export class EncryptionError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: string,
+    public readonly originalError?: Error
+  ) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+/**
+ * AES-GCM ciphertext with the IV it was encrypted under
+ */
+export interface EncryptedBytes {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+/**
+ * Returns cryptographically random bytes.
+ */
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Derives an AES-GCM key from a passphrase.
+ *
+ * @param passphrase - User passphrase
+ * @param salt - Random salt stored alongside whatever the key protects
+ * @param iterations - PBKDF2 iterations
+ */
+export async function deriveKeyFromPassphrase(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+  );
+}
+
+/**
+ * Generates a random data key. It is extractable only so that it can be
+ * wrapped with a passphrase-derived key.
+ */
+export async function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+/**
+ * Encrypts a data key with a passphrase-derived key.
+ */
+export async function wrapDataKey(dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<EncryptedBytes> {
+  const iv = randomBytes(IV_LENGTH);
+  const data = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, {
+    name: 'AES-GCM',
+    iv: iv as BufferSource,
+  });
+  return { iv, data };
+}
+
+/**
+ * Decrypts a wrapped data key.
+ *
+ * @param extractable - Whether the key may be wrapped again (passphrase change)
+ * @throws {EncryptionError} WRONG_PASSPHRASE if the wrapping key does not match
+ */
+export async function unwrapDataKey(
+  wrapped: EncryptedBytes,
+  wrappingKey: CryptoKey,
+  extractable = false
+): Promise<CryptoKey> {
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      wrapped.data,
+      wrappingKey,
+      { name: 'AES-GCM', iv: wrapped.iv as BufferSource },
+      { name: 'AES-GCM', length: 256 },
+      extractable,
+      ['encrypt', 'decrypt']
+    );
+  } catch (error) {
+    throw new EncryptionError(
+      'Incorrect passphrase',
+      'WRONG_PASSPHRASE',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+// ============================================================================
+// Data
+// ============================================================================
+
+/**
+ * Encrypts bytes under a fresh IV.
+ */
+export async function encryptBytes(key: CryptoKey, data: Uint8Array | ArrayBuffer): Promise<EncryptedBytes> {
+  const iv = randomBytes(IV_LENGTH);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as BufferSource },
+    key,
+    data as BufferSource
+  );
+  return { iv, data: ciphertext };
+}
+
+/**
+ * Decrypts bytes encrypted with encryptBytes().
+ *
+ * @throws {EncryptionError} DECRYPT_FAILED if the key is wrong or data was altered
+ */
+export async function decryptBytes(key: CryptoKey, encrypted: EncryptedBytes): Promise<ArrayBuffer> {
+  try {
+    return await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: encrypted.iv as BufferSource },
+      key,
+      encrypted.data
+    );
+  } catch (error) {
+    throw new EncryptionError(
+      'Decryption failed: the key is wrong or the data was modified',
+      'DECRYPT_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+// JSON has no Date, so Dates are tagged and restored on the way back
+function dateReplacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.getTime() } : value;
+}
+
+function dateReviver(_key: string, value: unknown): unknown {
+  if (value !== null && typeof value === 'object' && '$date' in value) {
+    const time = (value as { $date: unknown }).$date;
+    return new Date(typeof time === 'number' ? time : NaN);
+  }
+  return value;
+}
+
+/**
+ * Encrypts a JSON-serializable value; Dates survive the round trip.
+ */
+export async function encryptJson(key: CryptoKey, value: unknown): Promise<EncryptedBytes> {
+  return encryptBytes(key, new TextEncoder().encode(JSON.stringify(value, dateReplacer)));
+}
+
+/**
+ * Decrypts a value encrypted with encryptJson().
+ */
+export async function decryptJson<T>(key: CryptoKey, encrypted: EncryptedBytes): Promise<T> {
+  const bytes = await decryptBytes(key, encrypted);
+  return JSON.parse(new TextDecoder().decode(bytes), dateReviver) as T;
+}
+
+// ============================================================================
+// Protected files
+// ============================================================================
+
+/**
+ * Whether bytes start with the protected file header.
+ */
+export function isProtectedFile(data: Uint8Array): boolean {
+  return (
+    data.length > HEADER_LENGTH &&
+    PROTECTED_FILE_MAGIC.every((byte, i) => data[i] === byte)
+  );
+}
+
+/**
+ * Encrypts a file with a passphrase.
+ *
+ * Layout: magic (8) | version (1) | PBKDF2 iterations (4, big-endian) |
+ * salt (16) | IV (12) | AES-GCM ciphertext
+ *
+ * @param data - File contents
+ * @param passphrase - Passphrase the recipient will need
+ * @returns Protected file contents
+ */
+export async function protectFile(data: Uint8Array, passphrase: string): Promise<Uint8Array> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKeyFromPassphrase(passphrase, salt);
+  const { iv, data: ciphertext } = await encryptBytes(key, data);
+
+  const out = new Uint8Array(HEADER_LENGTH + ciphertext.byteLength);
+  out.set(PROTECTED_FILE_MAGIC, 0);
+  let offset = PROTECTED_FILE_MAGIC.length;
+  out[offset++] = PROTECTED_FILE_VERSION;
+  new DataView(out.buffer).setUint32(offset, PBKDF2_ITERATIONS);
+  offset += 4;
+  out.set(salt, offset);
+  offset += SALT_LENGTH;
+  out.set(iv, offset);
+  offset += IV_LENGTH;
+  out.set(new Uint8Array(ciphertext), offset);
+  return out;
+}
+
+/**
+ * Decrypts a file produced by protectFile().
+ *
+ * @throws {EncryptionError} UNSUPPORTED_FORMAT or WRONG_PASSPHRASE
+ */
+export async function unprotectFile(data: Uint8Array, passphrase: string): Promise<Uint8Array> {
+  if (!isProtectedFile(data)) {
+    throw new EncryptionError('Not a passphrase-protected file', 'UNSUPPORTED_FORMAT');
+  }
+  let offset = PROTECTED_FILE_MAGIC.length;
+  if (data[offset++] !== PROTECTED_FILE_VERSION) {
+    throw new EncryptionError('Unsupported protected file version', 'UNSUPPORTED_FORMAT');
+  }
+  const iterations = new DataView(data.buffer, data.byteOffset).getUint32(offset);
+  if (iterations < MIN_PROTECTED_FILE_ITERATIONS || iterations > MAX_PROTECTED_FILE_ITERATIONS) {
+    throw new EncryptionError('Invalid or corrupt protected file', 'UNSUPPORTED_FORMAT');
+  }
+  offset += 4;
+  const salt = data.slice(offset, offset + SALT_LENGTH);
+  offset += SALT_LENGTH;
+  const iv = data.slice(offset, offset + IV_LENGTH);
+  offset += IV_LENGTH;
+
+  const key = await deriveKeyFromPassphrase(passphrase, salt, iterations);
+  try {
+    return new Uint8Array(await decryptBytes(key, { iv, data: data.slice(offset).buffer }));
+  } catch (error) {
+    throw new EncryptionError(
+      'Incorrect passphrase',
+      'WRONG_PASSPHRASE',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
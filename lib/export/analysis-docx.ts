@@ -32,7 +32,7 @@ import { stripTimestamps } from "@/lib/analysis-utils";
 /**
  * Color scheme for professional styling
  */
-const COLORS = {
+export const COLORS = {
   primary: "0066CC", // Professional blue
   secondary: "333333", // Dark gray
   accent: "666666", // Medium gray
@@ -46,7 +46,7 @@ const COLORS = {
 /**
  * Create a styled heading paragraph
  */
-function createHeading(
+export function createHeading(
   text: string,
   level: (typeof HeadingLevel)[keyof typeof HeadingLevel]
 ): Paragraph {
@@ -60,7 +60,7 @@ function createHeading(
 /**
  * Create a paragraph with custom styling
  */
-function createParagraph(
+export function createParagraph(
   text: string,
   options: {
     bold?: boolean;
@@ -425,6 +425,110 @@ function createSafetyEventsSection(
   return elements;
 }
 
+/**
+ * Create a report document: page margins, a running header, page numbers
+ * in the footer, and bullet numbering
+ */
+export function createReportDocument({
+  title,
+  description,
+  headerText,
+  children,
+}: {
+  title: string;
+  description: string;
+  headerText: string;
+  children: (Paragraph | Table | TableOfContents)[];
+}): Document {
+  return new Document({
+    title,
+    creator: "Austin RTASS",
+    description,
+    sections: [
+      {
+        properties: {
+          page: {
+            margin: {
+              top: 1440, // 1 inch
+              right: 1440,
+              bottom: 1440,
+              left: 1440,
+            },
+          },
+        },
+        headers: {
+          default: new Header({
+            children: [
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: headerText,
+                    color: COLORS.accent,
+                    size: 18,
+                  }),
+                ],
+                alignment: AlignmentType.RIGHT,
+              }),
+            ],
+          }),
+        },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: "Generated with Austin RTASS  |  Page ",
+                    color: COLORS.accent,
+                    size: 18,
+                  }),
+                  new TextRun({
+                    children: [PageNumber.CURRENT],
+                    color: COLORS.accent,
+                    size: 18,
+                  }),
+                  new TextRun({
+                    text: " of ",
+                    color: COLORS.accent,
+                    size: 18,
+                  }),
+                  new TextRun({
+                    children: [PageNumber.TOTAL_PAGES],
+                    color: COLORS.accent,
+                    size: 18,
+                  }),
+                ],
+                alignment: AlignmentType.CENTER,
+              }),
+            ],
+          }),
+        },
+        children,
+      },
+    ],
+    numbering: {
+      config: [
+        {
+          reference: "default-bullet",
+          levels: [
+            {
+              level: 0,
+              format: NumberFormat.BULLET,
+              text: "\u2022",
+              alignment: AlignmentType.LEFT,
+              style: {
+                paragraph: {
+                  indent: { left: 720, hanging: 360 },
+                },
+              },
+            },
+          ],
+        },
+      ],
+    },
+  });
+}
+
 /**
  * Generate the Word document
  */
@@ -535,92 +639,11 @@ export async function generateAnalysisDocx(
   }
 
   // Create the document
-  const doc = new Document({
+  const doc = createReportDocument({
     title: `Analysis - ${transcript.filename}`,
-    creator: "Austin RTASS",
     description: "Transcript Analysis Report",
-    sections: [
-      {
-        properties: {
-          page: {
-            margin: {
-              top: 1440, // 1 inch
-              right: 1440,
-              bottom: 1440,
-              left: 1440,
-            },
-          },
-        },
-        headers: {
-          default: new Header({
-            children: [
-              new Paragraph({
-                children: [
-                  new TextRun({
-                    text: `Analysis Report - ${transcript.filename}`,
-                    color: COLORS.accent,
-                    size: 18,
-                  }),
-                ],
-                alignment: AlignmentType.RIGHT,
-              }),
-            ],
-          }),
-        },
-        footers: {
-          default: new Footer({
-            children: [
-              new Paragraph({
-                children: [
-                  new TextRun({
-                    text: "Generated with Austin RTASS  |  Page ",
-                    color: COLORS.accent,
-                    size: 18,
-                  }),
-                  new TextRun({
-                    children: [PageNumber.CURRENT],
-                    color: COLORS.accent,
-                    size: 18,
-                  }),
-                  new TextRun({
-                    text: " of ",
-                    color: COLORS.accent,
-                    size: 18,
-                  }),
-                  new TextRun({
-                    children: [PageNumber.TOTAL_PAGES],
-                    color: COLORS.accent,
-                    size: 18,
-                  }),
-                ],
-                alignment: AlignmentType.CENTER,
-              }),
-            ],
-          }),
-        },
-        children: [...sections, ...tables],
-      },
-    ],
-    numbering: {
-      config: [
-        {
-          reference: "default-bullet",
-          levels: [
-            {
-              level: 0,
-              format: NumberFormat.BULLET,
-              text: "\u2022",
-              alignment: AlignmentType.LEFT,
-              style: {
-                paragraph: {
-                  indent: { left: 720, hanging: 360 },
-                },
-              },
-            },
-          ],
-        },
-      ],
-    },
+    headerText: `Analysis Report - ${transcript.filename}`,
+    children: [...sections, ...tables],
   });
 
   // Generate the blob
@@ -6,6 +6,7 @@
  */
 
 import type { Analysis, Transcript, Template } from "@/types";
+import { applyRedactions, redactValue } from "@/lib/redaction";
 
 /**
  * Export format options
@@ -32,6 +33,8 @@ export interface ExportOptions {
   includeMetadata?: boolean;
   /** Include table of contents (PDF/DOCX only) */
   includeTOC?: boolean;
+  /** Replace personal details marked for redaction in the transcript with placeholders */
+  redact?: boolean;
 }
 
 /**
@@ -46,6 +49,7 @@ export const DEFAULT_EXPORT_OPTIONS: Required<ExportOptions> = {
   includeSafetyEvents: true,
   includeMetadata: true,
   includeTOC: true,
+  redact: false,
 };
 
 /**
@@ -159,6 +163,11 @@ export async function exportAnalysis(
   const mergedOptions = { ...DEFAULT_EXPORT_OPTIONS, ...options };
   const filename = generateFilename(template.name, transcript.filename, format);
 
+  if (mergedOptions.redact) {
+    analysis = redactValue(analysis, transcript.redactions ?? []);
+    transcript = applyRedactions(transcript);
+  }
+
   switch (format) {
     case "pdf": {
       const { generateAnalysisPdf } = await import("./analysis-pdf-export");
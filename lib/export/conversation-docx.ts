@@ -0,0 +1,127 @@
+/**
+ * Conversation Word Document Export
+ *
+ * Generates a .docx record of a chat conversation with the report layout
+ * of the analysis export (lib/export/analysis-docx.ts).
+ */
+
+import { HeadingLevel, Packer, Paragraph, TextRun, ShadingType, BorderStyle } from "docx";
+import type { Conversation } from "@/types/chat";
+import { getConversationTitle } from "@/types/chat";
+import { formatDate } from "./analysis-exporter";
+import { COLORS, createHeading, createParagraph, createReportDocument } from "./analysis-docx";
+import { conversationExportEntries } from "./conversation-exporter";
+
+/**
+ * Paragraphs for message text, one per line
+ */
+function createTextParagraphs(text: string, options: { shaded?: boolean } = {}): Paragraph[] {
+  return text.split("\n").map(
+    (line) =>
+      new Paragraph({
+        children: [new TextRun({ text: line })],
+        spacing: { after: 80, line: 320 },
+        ...(options.shaded
+          ? {
+              shading: { type: ShadingType.SOLID, color: "F0F7FF" },
+              border: {
+                left: { style: BorderStyle.SINGLE, size: 24, color: COLORS.primary },
+              },
+            }
+          : {}),
+      })
+  );
+}
+
+/**
+ * Generate the Word document
+ *
+ * @param conversation - The conversation to export
+ * @param subject - The transcript filename, or the library chat scope
+ */
+export async function generateConversationDocx(
+  conversation: Conversation,
+  subject: string
+): Promise<Blob> {
+  const title = getConversationTitle(conversation);
+  const children: Paragraph[] = [
+    new Paragraph({
+      children: [new TextRun({ text: "Chat Conversation", bold: true, size: 48, color: COLORS.secondary })],
+      spacing: { after: 100 },
+    }),
+    new Paragraph({
+      children: [new TextRun({ text: title, size: 24, color: COLORS.accent })],
+      spacing: { after: 100 },
+    }),
+    createParagraph(`About: ${subject}`, { color: COLORS.accent, size: 22 }),
+    createParagraph(`Started: ${formatDate(conversation.createdAt)}`, { color: COLORS.accent, size: 22 }),
+    createParagraph(`Exported: ${formatDate(new Date())}`, {
+      color: COLORS.accent,
+      size: 22,
+      spacing: { after: conversation.forkedFrom ? 120 : 400 },
+    }),
+  ];
+  if (conversation.forkedFrom) {
+    children.push(
+      createParagraph("Forked from another conversation by editing a question", {
+        italic: true,
+        color: COLORS.accent,
+        size: 22,
+        spacing: { after: 400 },
+      })
+    );
+  }
+
+  let questionNumber = 0;
+  for (const entry of conversationExportEntries(conversation)) {
+    if (entry.role === "user") {
+      questionNumber += 1;
+      children.push(createHeading(`Question ${questionNumber}`, HeadingLevel.HEADING_2));
+      children.push(createParagraph(formatDate(entry.timestamp), { italic: true, color: COLORS.accent, size: 18 }));
+      children.push(...createTextParagraphs(entry.text, { shaded: true }));
+      continue;
+    }
+
+    children.push(createHeading("Answer", HeadingLevel.HEADING_3));
+    children.push(
+      createParagraph(
+        `${formatDate(entry.timestamp)}${entry.model ? ` · ${entry.model}` : ""}`,
+        { italic: true, color: COLORS.accent, size: 18 }
+      )
+    );
+    children.push(...createTextParagraphs(entry.text));
+    if (entry.stopped) {
+      children.push(
+        createParagraph("Stopped before the answer was complete.", { italic: true, color: COLORS.warning })
+      );
+    }
+
+    if (entry.citations.length > 0) {
+      children.push(
+        createParagraph("Cited radio traffic", { bold: true, spacing: { before: 120, after: 80 } })
+      );
+      for (const citation of entry.citations) {
+        children.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: `[${citation.label}] `, bold: true, color: COLORS.primary }),
+              ...(citation.speaker ? [new TextRun({ text: `${citation.speaker}: `, bold: true })] : []),
+              new TextRun({ text: `"${citation.quote}"`, italics: true }),
+            ],
+            numbering: { reference: "default-bullet", level: 0 },
+            spacing: { after: 60 },
+          })
+        );
+      }
+    }
+  }
+
+  const doc = createReportDocument({
+    title: `Chat - ${title}`,
+    description: "Chat Conversation",
+    headerText: `Chat Conversation - ${subject}`,
+    children,
+  });
+
+  return Packer.toBlob(doc);
+}
@@ -0,0 +1,178 @@
+/**
+ * Conversation Export Orchestrator
+ *
+ * Exports a chat conversation as part of the review record: Markdown for
+ * notes and tickets, Word and PDF for the debrief file. Citation markers
+ * are written as the times they cite, with the cited radio traffic listed
+ * under each answer.
+ */
+
+import type { ChatMessage, Conversation } from "@/types/chat";
+import { getConversationTitle } from "@/types/chat";
+import type { RedactionSpan } from "@/types/redaction";
+import { citationMarkersToTimestamps } from "@/lib/chat-citations";
+import { redactValue } from "@/lib/redaction";
+import { formatTimestamp } from "@/lib/transcript-utils";
+import type { ExportResult } from "./analysis-exporter";
+
+/**
+ * Export format options
+ */
+export type ConversationExportFormat = "markdown" | "docx" | "pdf";
+
+/**
+ * What the exported conversation is about
+ */
+export interface ConversationExportDetails {
+  /** The transcript filename, or the library chat scope */
+  subject: string;
+  /** Base of the filename, e.g. the transcript filename without extension */
+  filename: string;
+  /** Redactions of the transcript, replaced in the messages when given */
+  redactions?: RedactionSpan[];
+}
+
+/**
+ * A cited segment, ready to print under its answer
+ */
+export interface ConversationExportCitation {
+  /** The cited time, with the transcript label in library chat */
+  label: string;
+  speaker?: string;
+  quote: string;
+}
+
+/**
+ * A message, ready to print
+ */
+export interface ConversationExportEntry {
+  role: ChatMessage["role"];
+  timestamp: Date;
+  model?: string;
+  /** Message text with citation markers written as times */
+  text: string;
+  citations: ConversationExportCitation[];
+  stopped: boolean;
+}
+
+/**
+ * The conversation's messages in the form every export format prints
+ */
+export function conversationExportEntries(conversation: Conversation): ConversationExportEntry[] {
+  return conversation.messages.map((message) => ({
+    role: message.role,
+    timestamp: message.timestamp instanceof Date ? message.timestamp : new Date(message.timestamp),
+    model: message.model,
+    text: citationMarkersToTimestamps(message.content, message.citations),
+    citations: (message.citations ?? []).map((citation) => ({
+      label: citation.source
+        ? `${citation.source} ${formatTimestamp(citation.start)}`
+        : formatTimestamp(citation.start),
+      speaker: citation.speaker,
+      quote: citation.quote,
+    })),
+    stopped: !!message.stopped,
+  }));
+}
+
+/**
+ * Slugify a filename part
+ */
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+const EXTENSIONS: Record<ConversationExportFormat, string> = {
+  markdown: "md",
+  docx: "docx",
+  pdf: "pdf",
+};
+
+/**
+ * Export a conversation to the specified format
+ *
+ * @param conversation - The conversation to export
+ * @param details - What it is about, and the redactions to apply
+ * @param format - The export format (markdown, docx, pdf)
+ * @returns Promise resolving to the export result
+ */
+export async function exportConversation(
+  conversation: Conversation,
+  details: ConversationExportDetails,
+  format: ConversationExportFormat
+): Promise<ExportResult> {
+  if (details.redactions?.length) {
+    conversation = redactValue(conversation, details.redactions);
+  }
+
+  const date = new Date().toISOString().split("T")[0];
+  const filename = `chat-${slugify(details.filename)}-${slugify(getConversationTitle(conversation)).slice(0, 40)}-${date}.${EXTENSIONS[format]}`;
+
+  switch (format) {
+    case "markdown": {
+      const { generateConversationMarkdown } = await import("./conversation-markdown");
+      const markdown = generateConversationMarkdown(conversation, details.subject);
+      return {
+        blob: new Blob([markdown], { type: "text/markdown;charset=utf-8" }),
+        filename,
+        mimeType: "text/markdown",
+      };
+    }
+
+    case "docx": {
+      const { generateConversationDocx } = await import("./conversation-docx");
+      return {
+        blob: await generateConversationDocx(conversation, details.subject),
+        filename,
+        mimeType:
+          "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      };
+    }
+
+    case "pdf": {
+      const { exportConversationToPDF } = await import("@/lib/pdf/pdf-exporter");
+      const result = await exportConversationToPDF(conversation, { subject: details.subject });
+      if (!result.success || !result.blob) {
+        throw new Error(result.error || "Failed to generate PDF");
+      }
+      return {
+        blob: result.blob,
+        filename,
+        mimeType: "application/pdf",
+      };
+    }
+
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+/**
+ * Get available conversation export formats with descriptions
+ */
+export function getConversationExportFormats(): Array<{
+  format: ConversationExportFormat;
+  label: string;
+  description: string;
+}> {
+  return [
+    {
+      format: "markdown",
+      label: "Markdown",
+      description: "Notes, tickets and wikis",
+    },
+    {
+      format: "docx",
+      label: "Word Document",
+      description: "Editable debrief record",
+    },
+    {
+      format: "pdf",
+      label: "PDF Document",
+      description: "Printing and archival",
+    },
+  ];
+}
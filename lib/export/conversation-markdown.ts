@@ -0,0 +1,61 @@
+/**
+ * Conversation Markdown Export
+ *
+ * Writes a chat conversation as Markdown: each question and answer with
+ * its time, citations as the times they cite, and the cited radio traffic
+ * listed under each answer.
+ */
+
+import type { Conversation } from "@/types/chat";
+import { getConversationTitle } from "@/types/chat";
+import { formatDate } from "./analysis-exporter";
+import { conversationExportEntries } from "./conversation-exporter";
+
+/**
+ * Generate the Markdown document
+ *
+ * @param conversation - The conversation to export
+ * @param subject - The transcript filename, or the library chat scope
+ */
+export function generateConversationMarkdown(conversation: Conversation, subject: string): string {
+  const lines: string[] = [
+    `# ${getConversationTitle(conversation)}`,
+    "",
+    `- **About:** ${subject}`,
+    `- **Started:** ${formatDate(conversation.createdAt)}`,
+    `- **Exported:** ${formatDate(new Date())}`,
+  ];
+  if (conversation.forkedFrom) {
+    lines.push("- Forked from another conversation by editing a question");
+  }
+
+  let questionNumber = 0;
+  for (const entry of conversationExportEntries(conversation)) {
+    lines.push("");
+    if (entry.role === "user") {
+      questionNumber += 1;
+      lines.push(`## Question ${questionNumber}`, "", `_${formatDate(entry.timestamp)}_`, "", entry.text);
+      continue;
+    }
+
+    lines.push(
+      "### Answer",
+      "",
+      `_${formatDate(entry.timestamp)}${entry.model ? ` · ${entry.model}` : ""}_`,
+      "",
+      entry.text
+    );
+    if (entry.stopped) {
+      lines.push("", "_Stopped before the answer was complete._");
+    }
+    if (entry.citations.length > 0) {
+      lines.push("", "**Cited radio traffic**", "");
+      for (const citation of entry.citations) {
+        const speaker = citation.speaker ? `${citation.speaker}: ` : "";
+        lines.push(`- [${citation.label}] ${speaker}"${citation.quote}"`);
+      }
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
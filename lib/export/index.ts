@@ -62,3 +62,14 @@ export { generateAnalysisText } from './analysis-text';
 export { generateAnalysisDocx } from './analysis-docx';
 export { generateAnalysisJson, getAnalysisJsonSchema } from './analysis-json';
 export { generateAnalysisPdf } from './analysis-pdf-export';
+
+// Re-export chat conversation exporter
+export {
+  exportConversation,
+  conversationExportEntries,
+  getConversationExportFormats,
+  type ConversationExportFormat,
+  type ConversationExportDetails,
+} from './conversation-exporter';
+export { generateConversationMarkdown } from './conversation-markdown';
+export { generateConversationDocx } from './conversation-docx';
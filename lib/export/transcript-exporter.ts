@@ -6,6 +6,7 @@
  */
 
 import { Transcript } from '@/types';
+import { applyRedactions } from '@/lib/redaction';
 import { formatTXT, formatJSON, formatSRT, formatVTT } from './formatters';
 import {
   safeDownload,
@@ -31,6 +32,8 @@ export interface ExportOptions {
   includeTimestamp?: boolean;
   /** Custom filename (overrides original filename) */
   customFilename?: string;
+  /** Replace personal details marked for redaction with placeholders */
+  redact?: boolean;
 }
 
 /**
@@ -53,7 +56,7 @@ export function exportToTXT(
   options: ExportOptions = {}
 ): ExportResult {
   try {
-    const content = formatTXT(transcript);
+    const content = formatTXT(options.redact ? applyRedactions(transcript) : transcript);
     const filename = options.customFilename || transcript.filename;
     const includeTimestamp = options.includeTimestamp ?? true;
 
@@ -93,7 +96,7 @@ export function exportToJSON(
   options: ExportOptions = {}
 ): ExportResult {
   try {
-    const content = formatJSON(transcript);
+    const content = formatJSON(options.redact ? applyRedactions(transcript) : transcript);
     const filename = options.customFilename || transcript.filename;
     const includeTimestamp = options.includeTimestamp ?? true;
 
@@ -130,7 +133,7 @@ export function exportToSRT(
   options: ExportOptions = {}
 ): ExportResult {
   try {
-    const content = formatSRT(transcript);
+    const content = formatSRT(options.redact ? applyRedactions(transcript) : transcript);
     const filename = options.customFilename || transcript.filename;
     const includeTimestamp = options.includeTimestamp ?? true;
 
@@ -167,7 +170,7 @@ export function exportToVTT(
   options: ExportOptions = {}
 ): ExportResult {
   try {
-    const content = formatVTT(transcript);
+    const content = formatVTT(options.redact ? applyRedactions(transcript) : transcript);
     const filename = options.customFilename || transcript.filename;
     const includeTimestamp = options.includeTimestamp ?? true;
 
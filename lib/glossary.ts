@@ -0,0 +1,149 @@
+/**
+ * Glossary
+ *
+ * Department vocabulary for transcription:
+ * - buildTranscriptionPrompt() turns glossary terms into the prompt sent with
+ *   the audio, which nudges the model toward the right spellings.
+ * - applyGlossaryCorrections() is a deterministic pass over the transcribed
+ *   segments that replaces known misheard forms with the correct term and
+ *   records each substitution for review.
+ */
+
+import { getDepartmentName } from "@/lib/departments";
+import type { GlossaryCorrection, GlossaryTerm, GlossaryTermInput } from "@/types/glossary";
+import type { Transcript } from "@/types/transcript";
+
+/**
+ * Maximum prompt length in characters. Whisper only reads the last ~224
+ * tokens of a prompt, so longer glossaries are cut at a whole term.
+ */
+export const TRANSCRIPTION_PROMPT_MAX_LENGTH = 800;
+
+/**
+ * Common Austin fire radio terms and street names, offered when the
+ * glossary is empty.
+ */
+export const STARTER_GLOSSARY: GlossaryTermInput[] = [
+  { term: "360", department: "fire", variants: ["3 60", "three sixty", "3-60"], notes: "Walk-around size-up of the structure" },
+  { term: "PAR", department: "fire", variants: ["P.A.R.", "P A R"], notes: "Personnel accountability report" },
+  { term: "RIC", department: "fire", variants: ["Rick", "R.I.C."], notes: "Rapid intervention crew" },
+  { term: "Quint", department: "fire", variants: ["Clint"], notes: "Engine/ladder combination apparatus" },
+  { term: "Battalion", department: "fire", variants: ["Batallion", "Battalian"] },
+  { term: "Lamar", department: "all", variants: ["Lemar", "La Mar"] },
+  { term: "Guadalupe", department: "all", variants: ["Guadeloupe"] },
+  { term: "Manchaca", department: "all", variants: ["Manshack", "Man shack"] },
+  { term: "Burnet", department: "all", variants: ["Burnett"] },
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Build the transcription prompt for a department.
+ *
+ * @returns A prompt like "Austin Fire Department radio traffic. Terms: 360,
+ *   PAR, RIC.", or undefined when there are no terms
+ */
+export function buildTranscriptionPrompt(
+  terms: Pick<GlossaryTerm, "term">[],
+  department?: string,
+): string | undefined {
+  const unique = [...new Set(terms.map((t) => t.term.trim()).filter(Boolean))];
+  if (unique.length === 0) return undefined;
+
+  const name = department ? getDepartmentName(department) : "Unknown";
+  const intro = name === "Unknown" ? "Public safety radio traffic." : `${name} radio traffic.`;
+
+  let prompt = `${intro} Terms: ${unique[0]}`;
+  for (const term of unique.slice(1)) {
+    if (prompt.length + term.length + 3 > TRANSCRIPTION_PROMPT_MAX_LENGTH) break;
+    prompt += `, ${term}`;
+  }
+  return `${prompt}.`;
+}
+
+interface GlossaryMatcher {
+  pattern: RegExp;
+  byVariant: Map<string, GlossaryTerm>;
+}
+
+/**
+ * One case-insensitive pattern matching every variant as a whole word.
+ * Longer variants come first so "quint twenty two" wins over "quint".
+ */
+function createMatcher(terms: GlossaryTerm[]): GlossaryMatcher | null {
+  const byVariant = new Map<string, GlossaryTerm>();
+  for (const term of terms) {
+    for (const variant of term.variants) {
+      const key = normalizeKey(variant.trim());
+      if (key && !byVariant.has(key)) byVariant.set(key, term);
+    }
+  }
+  if (byVariant.size === 0) return null;
+
+  const alternatives = [...byVariant.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map((key) => key.split(" ").map(escapeRegExp).join("\\s+"));
+
+  return {
+    pattern: new RegExp(`(?<![\\w])(?:${alternatives.join("|")})(?![\\w])`, "gi"),
+    byVariant,
+  };
+}
+
+function correctText(
+  text: string,
+  matcher: GlossaryMatcher,
+  onMatch?: (original: string, term: GlossaryTerm) => void,
+): string {
+  return text.replace(matcher.pattern, (match) => {
+    const term = matcher.byVariant.get(normalizeKey(match));
+    if (!term) return match;
+    onMatch?.(match, term);
+    return term.term;
+  });
+}
+
+/**
+ * Replace misheard variants with their glossary terms in every segment and
+ * in the full text.
+ *
+ * @returns The corrected transcript and the substitutions made, in segment
+ *   order
+ */
+export function applyGlossaryCorrections<T extends Pick<Transcript, "text" | "segments">>(
+  transcript: T,
+  terms: GlossaryTerm[],
+): { transcript: T; corrections: GlossaryCorrection[] } {
+  const matcher = createMatcher(terms);
+  if (!matcher) return { transcript, corrections: [] };
+
+  const corrections: GlossaryCorrection[] = [];
+  const segments = transcript.segments.map((segment) => {
+    const text = correctText(segment.text, matcher, (original, term) => {
+      corrections.push({
+        segmentIndex: segment.index,
+        termId: term.id,
+        original,
+        replacement: term.term,
+      });
+    });
+    return text === segment.text ? segment : { ...segment, text };
+  });
+
+  if (corrections.length === 0) return { transcript, corrections };
+
+  return {
+    transcript: {
+      ...transcript,
+      text: correctText(transcript.text, matcher),
+      segments,
+    },
+    corrections,
+  };
+}
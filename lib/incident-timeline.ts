@@ -0,0 +1,178 @@
+/**
+ * Incident Timeline
+ *
+ * Merges the segments and trainer annotations of every channel (transcript)
+ * in an incident into one chronological list on a shared wall-clock axis.
+ *
+ * Each channel's recording is placed on the axis using its `offsetSeconds`
+ * (seconds after the start of the incident). The merged timeline starts at
+ * the earliest channel, so timeline times are never negative.
+ */
+
+import type {
+  Incident,
+  IncidentChannel,
+  IncidentSegmentSource,
+  IncidentTimelineEntry,
+} from "@/types/incident";
+import type { Transcript, TranscriptSegment } from "@/types/transcript";
+import type { TranscriptAnnotation } from "@/types/annotation";
+
+export interface BuildIncidentTimelineParams {
+  /** Incident whose channels define the label, order and offset of each transcript */
+  incident: Pick<Incident, "channels">;
+
+  /** Member transcripts (missing transcripts are skipped) */
+  transcripts: Transcript[];
+
+  /** Annotations for any of the member transcripts */
+  annotations?: TranscriptAnnotation[];
+}
+
+/**
+ * Get the offset (in seconds) at which the merged timeline starts, relative
+ * to the start of the incident.
+ *
+ * This is the smallest channel offset, so a channel that starts before the
+ * incident reference time still lands at or after 0 on the timeline.
+ *
+ * @param channels - Incident channels
+ * @returns Offset of timeline 0 in seconds (0 when no channel is earlier)
+ */
+export function getTimelineOrigin(channels: IncidentChannel[]): number {
+  return Math.min(0, ...channels.map((c) => c.offsetSeconds ?? 0));
+}
+
+/**
+ * Derive a channel offset from a CAD event heard on the recording.
+ *
+ * @param eventAt - Wall-clock time of the CAD event (e.g. first unit arrived)
+ * @param incidentStart - Wall-clock start of the incident
+ * @param recordingSeconds - Position of the event within the recording
+ * @returns Seconds after the incident start at which the recording begins
+ *
+ * @example
+ * // ENG14 arrived 07:00:09, incident began 06:55:09, heard 45s into TAC audio
+ * deriveChannelOffset(arrived, pickup, 45); // 255
+ */
+export function deriveChannelOffset(
+  eventAt: Date,
+  incidentStart: Date,
+  recordingSeconds = 0,
+): number {
+  const elapsed = (eventAt.getTime() - incidentStart.getTime()) / 1000;
+  return Math.round((elapsed - recordingSeconds) * 10) / 10;
+}
+
+/**
+ * Build the combined incident timeline.
+ *
+ * Entries are ordered by time, then by channel order (as listed on the
+ * incident), then segments before annotations.
+ *
+ * @returns Chronologically ordered timeline entries
+ */
+export function buildIncidentTimeline({
+  incident,
+  transcripts,
+  annotations = [],
+}: BuildIncidentTimelineParams): IncidentTimelineEntry[] {
+  const transcriptById = new Map(transcripts.map((t) => [t.id, t]));
+  const channelOrder = new Map(
+    incident.channels.map((c, idx) => [c.transcriptId, idx]),
+  );
+  const channelById = new Map(
+    incident.channels.map((c) => [c.transcriptId, c]),
+  );
+  const origin = getTimelineOrigin(incident.channels);
+  const shiftFor = (channel: IncidentChannel) =>
+    (channel.offsetSeconds ?? 0) - origin;
+
+  const entries: IncidentTimelineEntry[] = [];
+
+  for (const channel of incident.channels) {
+    const transcript = transcriptById.get(channel.transcriptId);
+    if (!transcript) continue;
+    const shift = shiftFor(channel);
+
+    for (const segment of transcript.segments) {
+      entries.push({
+        id: `${transcript.id}:segment:${segment.index}`,
+        kind: "segment",
+        at: segment.start + shift,
+        end: segment.end + shift,
+        localAt: segment.start,
+        transcriptId: transcript.id,
+        channelLabel: channel.label,
+        text: segment.text,
+        speaker: segment.speaker,
+        segmentIndex: segment.index,
+      });
+    }
+  }
+
+  for (const annotation of annotations) {
+    const channel = channelById.get(annotation.transcriptId);
+    if (!channel || !transcriptById.has(annotation.transcriptId)) {
+      continue;
+    }
+
+    entries.push({
+      id: `${annotation.transcriptId}:annotation:${annotation.id}`,
+      kind: "annotation",
+      at: annotation.timestamp + shiftFor(channel),
+      localAt: annotation.timestamp,
+      transcriptId: annotation.transcriptId,
+      channelLabel: channel.label,
+      text: annotation.text,
+    });
+  }
+
+  return entries.sort((a, b) => {
+    if (a.at !== b.at) return a.at - b.at;
+    const channelDiff =
+      (channelOrder.get(a.transcriptId) ?? 0) -
+      (channelOrder.get(b.transcriptId) ?? 0);
+    if (channelDiff !== 0) return channelDiff;
+    if (a.kind !== b.kind) return a.kind === "segment" ? -1 : 1;
+    return 0;
+  });
+}
+
+/**
+ * Turn the segment entries of a timeline into one merged segment list.
+ *
+ * The merged segments are re-indexed (0..n-1) with timeline start/end times
+ * so they can be rendered by the regular segment list. `sources[i]` maps
+ * merged segment `i` back to its channel and local position for playback.
+ *
+ * @param entries - Entries from buildIncidentTimeline()
+ * @returns Merged segments and their sources (same length and order)
+ */
+export function mergeIncidentSegments(entries: IncidentTimelineEntry[]): {
+  segments: TranscriptSegment[];
+  sources: IncidentSegmentSource[];
+} {
+  const segments: TranscriptSegment[] = [];
+  const sources: IncidentSegmentSource[] = [];
+
+  for (const entry of entries) {
+    if (entry.kind !== "segment" || entry.segmentIndex === undefined) continue;
+
+    segments.push({
+      index: segments.length,
+      start: entry.at,
+      end: entry.end ?? entry.at,
+      text: entry.text,
+      speaker: entry.speaker,
+    });
+    sources.push({
+      transcriptId: entry.transcriptId,
+      channelLabel: entry.channelLabel,
+      segmentIndex: entry.segmentIndex,
+      localStart: entry.localAt,
+    });
+  }
+
+  return { segments, sources };
+}
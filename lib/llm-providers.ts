@@ -0,0 +1,490 @@
+/**
+ * LLM Providers
+ *
+ * Resolves the language model backend behind analysis, chat, RTASS scoring,
+ * citations and summaries, and which model each of those tasks uses:
+ * - Cloud: Azure OpenAI or OpenAI, from the main configuration in lib/openai.ts
+ * - Local: any OpenAI-compatible chat completions server (Ollama, vLLM,
+ *   LM Studio, ...), so an air-gapped station can run the whole app
+ *
+ * LLM_PROVIDER selects the backend ("cloud" or "local"). When it is not set,
+ * the local server is used whenever LOCAL_LLM_BASE_URL is. LLM_<TASK>_MODEL
+ * routes one task to a different model, LLM_EXTENDED_MODEL takes transcripts
+ * too long for a task's model, and LLM_MODEL_PROFILES describes the context
+ * window and JSON mode support of models the registry cannot infer.
+ */
+
+import OpenAI from 'openai';
+import { z } from 'zod';
+import {
+  buildChatCompletionParams,
+  getCitationsClient,
+  getCitationsDeployment,
+  getConfiguration,
+  getGPTAnalysisDeployment,
+  getOpenAIClient,
+  OpenAIConfigError,
+} from './openai';
+import { TOKEN_LIMITS } from './token-utils';
+import { formatValidationError } from './validations/config';
+import type {
+  LlmModelProfile,
+  LlmProviderId,
+  LlmProviderStatus,
+  LlmTask,
+  LlmTaskRoute,
+} from '@/types/llm';
+
+/**
+ * A configured LLM backend, its task routing and its clients.
+ */
+export interface LlmProvider extends LlmProviderStatus {
+  /** Client for a task's chat completions */
+  getClient: (task: LlmTask) => OpenAI;
+}
+
+/**
+ * All tasks, in display order
+ */
+export const LLM_TASKS: readonly LlmTask[] = ['analysis', 'chat', 'scoring', 'citations', 'summary'];
+
+/**
+ * Environment variable that routes each task to its own model
+ */
+const TASK_MODEL_ENV: Record<LlmTask, string> = {
+  analysis: 'LLM_ANALYSIS_MODEL',
+  chat: 'LLM_CHAT_MODEL',
+  scoring: 'LLM_SCORING_MODEL',
+  citations: 'LLM_CITATIONS_MODEL',
+  summary: 'LLM_SUMMARY_MODEL',
+};
+
+/**
+ * Tasks that send whole transcripts and may need the extended model
+ */
+const EXTENDED_CONTEXT_TASKS: ReadonlySet<LlmTask> = new Set<LlmTask>(['analysis', 'chat', 'scoring']);
+
+/**
+ * Context windows of cloud model families, matched in order against the
+ * lowercased model or deployment name. Azure deployment names are
+ * user-defined, so this relies on naming deployments after their model;
+ * anything else gets the GPT-5 window.
+ */
+const CLOUD_MODEL_FAMILIES: Array<{ pattern: RegExp; contextWindow: number }> = [
+  { pattern: /gpt-?4\.?1/, contextWindow: TOKEN_LIMITS.extended },
+  { pattern: /gpt-4o/, contextWindow: 128000 },
+  { pattern: /(^|[^a-z0-9])o[13]([^a-z0-9]|$)/, contextWindow: 200000 },
+];
+
+/**
+ * "true"/"false" environment flag with a default
+ */
+function envFlag(defaultValue: boolean) {
+  return z
+    .enum(['true', 'false'], { message: 'Must be "true" or "false"' })
+    .optional()
+    .transform((value) => (value === undefined ? defaultValue : value === 'true'));
+}
+
+/**
+ * Local model server environment variables
+ */
+const localLlmEnvSchema = z.object({
+  LOCAL_LLM_BASE_URL: z
+    .string()
+    .url('LOCAL_LLM_BASE_URL must be a valid URL, e.g. http://localhost:11434/v1'),
+  LOCAL_LLM_API_KEY: z.string().optional(),
+  LOCAL_LLM_MODEL: z
+    .string({ message: 'LOCAL_LLM_MODEL is required, e.g. llama3.1:8b' })
+    .min(1),
+  LOCAL_LLM_CONTEXT_WINDOW: z.coerce
+    .number()
+    .int()
+    .positive('LOCAL_LLM_CONTEXT_WINDOW must be a positive number of tokens')
+    .default(16384),
+  LOCAL_LLM_JSON_MODE: envFlag(true),
+});
+
+type LocalLlmEnv = z.infer<typeof localLlmEnvSchema>;
+
+/**
+ * LLM_MODEL_PROFILES: per-model overrides keyed by model or deployment name,
+ * e.g. {"qwen2.5:32b": {"contextWindow": 32768, "jsonMode": true}}
+ */
+const modelProfilesSchema = z.record(
+  z.string(),
+  z.object({
+    contextWindow: z.number().int().positive().optional(),
+    jsonMode: z.boolean().optional(),
+  })
+);
+
+type ModelProfileOverrides = z.infer<typeof modelProfilesSchema>;
+
+/**
+ * Cached local server configuration, model overrides and client
+ */
+let localEnvCache: LocalLlmEnv | null = null;
+let profileOverridesCache: ModelProfileOverrides | null = null;
+let localClientInstance: OpenAI | null = null;
+
+/**
+ * Read an environment variable; blank values count as unset
+ */
+function readEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * Whether language model work goes to the local server rather than the cloud.
+ *
+ * @throws {OpenAIConfigError} If LLM_PROVIDER has an unknown value
+ */
+export function isLocalLlm(): boolean {
+  const requested = readEnv('LLM_PROVIDER')?.toLowerCase();
+  if (requested === undefined) {
+    return readEnv('LOCAL_LLM_BASE_URL') !== undefined;
+  }
+  if (requested !== 'local' && requested !== 'cloud') {
+    throw new OpenAIConfigError(`LLM_PROVIDER must be "cloud" or "local" (got "${requested}").`);
+  }
+  return requested === 'local';
+}
+
+/**
+ * Validate the local server variables.
+ *
+ * @throws {OpenAIConfigError} If they are missing or invalid
+ */
+function getLocalLlmEnv(): LocalLlmEnv {
+  if (localEnvCache) {
+    return localEnvCache;
+  }
+
+  const result = localLlmEnvSchema.safeParse({
+    LOCAL_LLM_BASE_URL: readEnv('LOCAL_LLM_BASE_URL'),
+    LOCAL_LLM_API_KEY: readEnv('LOCAL_LLM_API_KEY'),
+    LOCAL_LLM_MODEL: readEnv('LOCAL_LLM_MODEL'),
+    LOCAL_LLM_CONTEXT_WINDOW: readEnv('LOCAL_LLM_CONTEXT_WINDOW'),
+    LOCAL_LLM_JSON_MODE: readEnv('LOCAL_LLM_JSON_MODE')?.toLowerCase(),
+  });
+
+  if (!result.success) {
+    throw new OpenAIConfigError(
+      `Local model server configuration is invalid:\n${formatValidationError(result.error)}`
+    );
+  }
+
+  localEnvCache = result.data;
+  return localEnvCache;
+}
+
+/**
+ * Parse LLM_MODEL_PROFILES.
+ *
+ * @throws {OpenAIConfigError} If it is not a JSON object of profiles
+ */
+function getModelProfileOverrides(): ModelProfileOverrides {
+  if (profileOverridesCache) {
+    return profileOverridesCache;
+  }
+
+  const raw = readEnv('LLM_MODEL_PROFILES');
+  if (!raw) {
+    profileOverridesCache = {};
+    return profileOverridesCache;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new OpenAIConfigError('LLM_MODEL_PROFILES must be valid JSON.');
+  }
+
+  const result = modelProfilesSchema.safeParse(json);
+  if (!result.success) {
+    throw new OpenAIConfigError(
+      `LLM_MODEL_PROFILES is invalid:\n${formatValidationError(result.error)}`
+    );
+  }
+
+  profileOverridesCache = result.data;
+  return profileOverridesCache;
+}
+
+/**
+ * Client for the local server. Ollama, vLLM and LM Studio accept any API key
+ * unless configured otherwise, but the SDK requires one.
+ */
+function getLocalLlmClient(): OpenAI {
+  if (localClientInstance) {
+    return localClientInstance;
+  }
+
+  const env = getLocalLlmEnv();
+  localClientInstance = new OpenAI({
+    baseURL: env.LOCAL_LLM_BASE_URL,
+    apiKey: env.LOCAL_LLM_API_KEY ?? 'local',
+  });
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log('[LLM] Initialized local model client', {
+      baseURL: env.LOCAL_LLM_BASE_URL,
+    });
+  }
+
+  return localClientInstance;
+}
+
+/**
+ * Profile of a model: LLM_MODEL_PROFILES first, then the local server
+ * defaults or the cloud model family.
+ */
+function buildModelProfile(model: string, local: LocalLlmEnv | null): LlmModelProfile {
+  const override = getModelProfileOverrides()[model];
+  const name = model.toLowerCase();
+  const contextWindow = local
+    ? local.LOCAL_LLM_CONTEXT_WINDOW
+    : CLOUD_MODEL_FAMILIES.find((family) => family.pattern.test(name))?.contextWindow ??
+      TOKEN_LIMITS.standard;
+
+  return {
+    model,
+    contextWindow: override?.contextWindow ?? contextWindow,
+    jsonMode: override?.jsonMode ?? (local ? local.LOCAL_LLM_JSON_MODE : true),
+  };
+}
+
+/**
+ * Get the configured LLM backend with each task's route.
+ *
+ * @throws {OpenAIConfigError} If the selected backend is not configured
+ */
+export function getLlmProvider(): LlmProvider {
+  const local = isLocalLlm() ? getLocalLlmEnv() : null;
+
+  let provider: LlmProviderId;
+  let label: string;
+  let defaultModels: Record<LlmTask, string>;
+  let extendedModel = readEnv('LLM_EXTENDED_MODEL');
+  let getClient: (task: LlmTask) => OpenAI;
+
+  if (local) {
+    provider = 'local';
+    label = 'Local model server';
+    defaultModels = {
+      analysis: local.LOCAL_LLM_MODEL,
+      chat: local.LOCAL_LLM_MODEL,
+      scoring: local.LOCAL_LLM_MODEL,
+      citations: local.LOCAL_LLM_MODEL,
+      summary: local.LOCAL_LLM_MODEL,
+    };
+    getClient = getLocalLlmClient;
+  } else {
+    const config = getConfiguration();
+    const analysisModel = getGPTAnalysisDeployment();
+    provider = config.provider;
+    label = config.provider === 'azure' ? 'Azure OpenAI' : 'OpenAI';
+    defaultModels = {
+      analysis: analysisModel,
+      chat: analysisModel,
+      scoring: analysisModel,
+      citations: getCitationsDeployment(),
+      summary: analysisModel,
+    };
+    if (config.provider === 'azure') {
+      extendedModel ??= readEnv('AZURE_OPENAI_EXTENDED_GPT_DEPLOYMENT');
+    }
+    // Citations use their own Azure API version
+    getClient = (task) => (task === 'citations' ? getCitationsClient() : getOpenAIClient());
+  }
+
+  const routes = {} as Record<LlmTask, LlmTaskRoute>;
+  for (const task of LLM_TASKS) {
+    const model = readEnv(TASK_MODEL_ENV[task]) ?? defaultModels[task];
+    const route: LlmTaskRoute = { model: buildModelProfile(model, local) };
+    if (extendedModel && extendedModel !== model && EXTENDED_CONTEXT_TASKS.has(task)) {
+      route.extended = buildModelProfile(extendedModel, local);
+    }
+    routes[task] = route;
+  }
+
+  return { provider, label, routes, getClient };
+}
+
+/**
+ * Route for a task on the configured backend.
+ *
+ * @throws {OpenAIConfigError} If the backend is not configured
+ */
+export function getLlmRoute(task: LlmTask): LlmTaskRoute {
+  return getLlmProvider().routes[task];
+}
+
+/**
+ * Client for a task on the configured backend.
+ *
+ * @throws {OpenAIConfigError} If the backend is not configured
+ */
+export function getLlmClient(task: LlmTask): OpenAI {
+  return getLlmProvider().getClient(task);
+}
+
+/**
+ * A view of `client` whose chat completions are cancelled when `signal`
+ * aborts, including any retry the SDK has pending.
+ *
+ * Only chat.completions.create is wrapped; the rest of the client is
+ * shared. (client.withOptions() would rebuild the client and drop the
+ * Azure endpoint and API version.)
+ */
+export function withAbortSignal(client: OpenAI, signal: AbortSignal | undefined): OpenAI {
+  if (!signal) {
+    return client;
+  }
+
+  const completions = client.chat.completions;
+  const create = completions.create.bind(completions);
+  const createWithSignal = (
+    body: Parameters<typeof create>[0],
+    options?: Parameters<typeof create>[1]
+  ) => create(body, { ...options, signal });
+
+  const chat = Object.create(client.chat, {
+    completions: { value: Object.create(completions, { create: { value: createWithSignal } }) },
+  });
+  return Object.create(client, { chat: { value: chat } }) as OpenAI;
+}
+
+/**
+ * Profile of any model name on the configured backend, e.g. one chosen by
+ * token-based selection or a user override.
+ */
+export function getModelProfile(model: string): LlmModelProfile {
+  return buildModelProfile(model, isLocalLlm() ? getLocalLlmEnv() : null);
+}
+
+/**
+ * `response_format` for a completion that should return a JSON object, or
+ * nothing when the model does not support JSON mode (the prompts ask for
+ * JSON either way; parse the reply with extractJsonText()).
+ */
+export function jsonResponseFormat(
+  model: string
+): { response_format?: { type: 'json_object' } } {
+  return getModelProfile(model).jsonMode ? { response_format: { type: 'json_object' } } : {};
+}
+
+/**
+ * Output token cap for a completion. Cloud reasoning models need room for
+ * reasoning as well as the reply; a local server applies its own limit,
+ * which a fixed cap could exceed on a small context window.
+ */
+export function completionTokenLimit(
+  provider: LlmProviderId,
+  maxTokens: number
+): { max_completion_tokens?: number } {
+  return provider === 'local' ? {} : { max_completion_tokens: maxTokens };
+}
+
+/**
+ * The JSON in a model reply. Models without JSON mode often wrap it in a
+ * Markdown code fence or add a sentence before or after it.
+ */
+export function extractJsonText(content: string): string {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return trimmed;
+  }
+
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(trimmed);
+  if (fenced) {
+    return fenced[1].trim();
+  }
+
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  return start !== -1 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
+
+/**
+ * The provider's status, safe to send to the browser.
+ */
+export function toLlmProviderStatus(provider: LlmProvider): LlmProviderStatus {
+  const { getClient: _getClient, ...status } = provider;
+  return status;
+}
+
+/**
+ * Reset the cached local server configuration, model profiles and client
+ */
+export function resetLlmProvider(): void {
+  localEnvCache = null;
+  profileOverridesCache = null;
+  localClientInstance = null;
+}
+
+/**
+ * Generate a brief summary of transcript text with the summary model
+ *
+ * Creates a concise 1-2 sentence summary capturing the main topic
+ * and key points of the transcript. The summary is optional, so failures,
+ * including a missing LLM configuration, return an empty string.
+ *
+ * @param transcriptText - The full transcript text (will be truncated if too long)
+ * @returns Promise resolving to the generated summary string, or '' on failure
+ *
+ * @example
+ * ```typescript
+ * const summary = await generateTranscriptSummary(transcript.text);
+ * // "Team discussed Q4 marketing budget allocation and approved $50K for social media campaigns."
+ * ```
+ */
+export async function generateTranscriptSummary(transcriptText: string): Promise<string> {
+  // Truncate text to first 4000 chars to keep tokens reasonable
+  const truncatedText = transcriptText.slice(0, 4000);
+
+  try {
+    const provider = getLlmProvider();
+    const deployment = provider.routes.summary.model.model;
+
+    const response = await provider.getClient('summary').chat.completions.create({
+      model: deployment,
+      messages: [
+        {
+          role: 'system',
+          content: `You are a concise summarizer. Generate a 1-2 sentence summary of the transcript that captures:
+- The main topic or purpose of the discussion
+- Key decisions or outcomes (if any)
+
+Keep it brief and informative. Do not start with "This transcript..." or "The meeting...". Write in a direct, professional style.`,
+        },
+        {
+          role: 'user',
+          content: truncatedText,
+        },
+      ],
+      ...buildChatCompletionParams(deployment, 150, 0.3),
+    });
+
+    const summary = response.choices[0]?.message?.content?.trim();
+
+    if (!summary) {
+      console.warn('[LLM] Summary generation returned empty response');
+      return '';
+    }
+
+    console.log('[LLM] Generated transcript summary:', {
+      inputLength: truncatedText.length,
+      summaryLength: summary.length,
+    });
+
+    return summary;
+  } catch (error) {
+    console.error('[LLM] Failed to generate transcript summary:', error);
+    // Return empty string instead of throwing - summary is optional
+    return '';
+  }
+}
@@ -0,0 +1,465 @@
+/**
+ * Incident Archive (Package Format v2)
+ *
+ * Zip container for handing a complete review to another battalion: the
+ * transcript with its audio, analyses, RTASS scorecards and the rubrics they
+ * were scored with, annotations, supplemental documents and chat
+ * conversations.
+ *
+ * Layout:
+ * - manifest.json                 format version, export info, per-file SHA-256
+ * - transcript.json
+ * - analyses.json, scorecards.json, rubrics.json, annotations.json,
+ *   supplemental-documents.json, conversations.json
+ * - audio/<filename>              original recording (optional)
+ *
+ * Version 1.0 JSON packages are still read by the importer (see import.ts).
+ */
+
+import JSZip from 'jszip';
+import { z } from 'zod';
+import type { Transcript } from '@/types/transcript';
+import type { Analysis } from '@/types/analysis';
+import type { RtassRubricTemplate, RtassScorecard } from '@/types/rtass';
+import type { TranscriptAnnotation } from '@/types/annotation';
+import type { PersistedSupplementalDocument } from '@/types/supplemental';
+import type { Conversation } from '@/types/chat';
+import type { AudioMetadata } from '@/types/audio';
+import type { ValidationResult } from './validation';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Current archive format version
+ */
+export const ARCHIVE_FORMAT_VERSION = '2.0';
+
+/**
+ * Maximum allowed archive size (500MB). Archives carry the original audio,
+ * so the 20MB JSON package limit does not apply.
+ */
+export const MAX_ARCHIVE_SIZE = 500 * 1024 * 1024;
+
+/**
+ * MIME type of archive downloads
+ */
+export const ARCHIVE_MIME_TYPE = 'application/zip';
+
+const MANIFEST_PATH = 'manifest.json';
+
+const FILE_PATHS = {
+  transcript: 'transcript.json',
+  analyses: 'analyses.json',
+  scorecards: 'scorecards.json',
+  rubrics: 'rubrics.json',
+  annotations: 'annotations.json',
+  supplementalDocuments: 'supplemental-documents.json',
+  conversations: 'conversations.json',
+} as const;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A rubric carried in the archive. Built-in rubrics ship with every install
+ * and are included for reference only; custom rubrics are restored.
+ */
+export interface ArchivedRubric {
+  builtIn: boolean;
+  rubric: RtassRubricTemplate;
+}
+
+/**
+ * Audio recording carried in the archive
+ */
+export interface ArchivedAudio {
+  blob: Blob;
+  metadata: Omit<AudioMetadata, 'loadedAt'>;
+}
+
+/**
+ * Everything an archive carries, as stored in IndexedDB
+ */
+export interface IncidentArchiveContents {
+  transcript: Transcript;
+  analyses: Analysis[];
+  scorecards: RtassScorecard[];
+  rubrics: ArchivedRubric[];
+  annotations: TranscriptAnnotation[];
+  supplementalDocuments: PersistedSupplementalDocument[];
+  conversations: Conversation[];
+  audio?: ArchivedAudio;
+}
+
+/**
+ * Checksummed file entry in the manifest
+ */
+export interface ArchiveFileEntry {
+  path: string;
+  sha256: string;
+  size: number;
+}
+
+/**
+ * Archive manifest (manifest.json)
+ */
+export interface IncidentArchiveManifest {
+  formatVersion: string;
+  exportedAt: string; // ISO 8601 timestamp
+  appVersion: string;
+  transcript: {
+    id: string;
+    filename: string;
+  };
+  files: ArchiveFileEntry[];
+  audio?: {
+    path: string;
+    metadata: Omit<AudioMetadata, 'loadedAt'>;
+  };
+  /** Whether personal details were replaced with placeholders on export */
+  redacted?: boolean;
+}
+
+/**
+ * A parsed and verified archive
+ */
+export interface IncidentArchive extends IncidentArchiveContents {
+  manifest: IncidentArchiveManifest;
+}
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const fileEntrySchema = z.object({
+  path: z.string().min(1),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/, 'Invalid SHA-256 checksum'),
+  size: z.number().int().nonnegative(),
+});
+
+const audioMetadataSchema = z.looseObject({
+  filename: z.string(),
+  size: z.number().nonnegative(),
+  type: z.string(),
+  duration: z.number().nonnegative(),
+});
+
+const manifestSchema = z.object({
+  formatVersion: z.string().regex(/^2\.\d+$/, 'Unsupported archive format version'),
+  exportedAt: z.string().datetime({ message: 'exportedAt must be a valid ISO 8601 datetime string' }),
+  appVersion: z.string().min(1, 'App version is required'),
+  transcript: z.object({
+    id: z.string().min(1),
+    filename: z.string().min(1),
+  }),
+  files: z.array(fileEntrySchema).min(1),
+  audio: z
+    .object({
+      path: z.string().min(1),
+      metadata: audioMetadataSchema,
+    })
+    .optional(),
+  redacted: z.boolean().optional(),
+});
+
+// Records are checked for the fields the importer relies on. Unlike the v1
+// schemas, unknown fields are kept so nothing stored locally is lost.
+const recordSchema = z.looseObject({ id: z.string().min(1) });
+
+const transcriptSchema = recordSchema.extend({
+  filename: z.string().min(1, 'Filename is required'),
+  text: z.string(),
+  createdAt: z.string().datetime({ message: 'createdAt must be a valid ISO 8601 datetime string' }),
+  segments: z.array(
+    z.looseObject({
+      index: z.number().int().nonnegative(),
+      start: z.number().nonnegative(),
+      end: z.number().nonnegative(),
+      text: z.string(),
+      speaker: z.string().nullish(),
+    })
+  ),
+  metadata: z.looseObject({
+    model: z.string(),
+    fileSize: z.number().nonnegative(),
+    duration: z.number().nonnegative(),
+  }),
+});
+
+const archivedRubricSchema = z.object({
+  builtIn: z.boolean(),
+  rubric: z.looseObject({ id: z.string().min(1), name: z.string().min(1) }),
+});
+
+const contentSchemas = {
+  transcript: transcriptSchema,
+  analyses: z.array(recordSchema.extend({ templateId: z.string().min(1), results: z.looseObject({}) })),
+  scorecards: z.array(recordSchema.extend({ rubricTemplateId: z.string().min(1) })),
+  rubrics: z.array(archivedRubricSchema),
+  annotations: z.array(recordSchema.extend({ timestamp: z.number() })),
+  supplementalDocuments: z.array(recordSchema.extend({ text: z.string() })),
+  conversations: z.array(recordSchema.extend({ messages: z.array(z.looseObject({})) })),
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Computes the hex-encoded SHA-256 of raw bytes.
+ */
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data as BufferSource);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Keeps only characters that are safe in a zip entry name.
+ */
+function safeEntryName(filename: string): string {
+  return filename.replace(/[^a-zA-Z0-9._-]/g, '_').slice(-120) || 'audio';
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null) return undefined;
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Restores Date fields that JSON serialization turned into strings.
+ */
+function reviveContents(contents: Record<string, unknown>): Omit<IncidentArchiveContents, 'audio'> {
+  const transcript = contents.transcript as Transcript;
+  const analyses = contents.analyses as Analysis[];
+  const scorecards = contents.scorecards as RtassScorecard[];
+  const rubrics = contents.rubrics as ArchivedRubric[];
+  const annotations = contents.annotations as TranscriptAnnotation[];
+  const documents = contents.supplementalDocuments as PersistedSupplementalDocument[];
+  const conversations = contents.conversations as Conversation[];
+
+  return {
+    transcript: {
+      ...transcript,
+      createdAt: toDate(transcript.createdAt) ?? new Date(),
+      revisions: transcript.revisions?.map((r) => ({ ...r, editedAt: toDate(r.editedAt) ?? new Date() })),
+    },
+    analyses: analyses.map((a) => ({ ...a, createdAt: toDate(a.createdAt) ?? new Date() })),
+    scorecards: scorecards.map((s) => ({
+      ...s,
+      createdAt: toDate(s.createdAt) ?? new Date(),
+      humanReview: s.humanReview && {
+        ...s.humanReview,
+        reviewedAt: toDate(s.humanReview.reviewedAt),
+      },
+      edits: s.edits?.map((e) => ({ ...e, editedAt: toDate(e.editedAt) ?? new Date() })),
+    })),
+    rubrics: rubrics.map(({ builtIn, rubric }) => ({
+      builtIn,
+      rubric: {
+        ...rubric,
+        createdAt: toDate(rubric.createdAt) ?? new Date(),
+        updatedAt: toDate(rubric.updatedAt),
+      },
+    })),
+    annotations: annotations.map((a) => ({
+      ...a,
+      createdAt: toDate(a.createdAt) ?? new Date(),
+      updatedAt: toDate(a.updatedAt) ?? new Date(),
+    })),
+    supplementalDocuments: documents.map((d) => ({ ...d, addedAt: toDate(d.addedAt) ?? new Date() })),
+    conversations: conversations.map((c) => ({
+      ...c,
+      createdAt: toDate(c.createdAt) ?? new Date(),
+      updatedAt: toDate(c.updatedAt) ?? new Date(),
+      messages: c.messages.map((m) => ({ ...m, timestamp: toDate(m.timestamp) ?? new Date() })),
+    })),
+  };
+}
+
+// ============================================================================
+// Build
+// ============================================================================
+
+/**
+ * Builds an archive from the records of one transcript.
+ *
+ * @param contents - Records to include (audioUrl is dropped from the transcript)
+ * @param appVersion - Application version recorded in the manifest
+ * @param options - `redacted` records that the contents were redacted
+ * @returns The zip file bytes
+ */
+export async function buildIncidentArchive(
+  contents: IncidentArchiveContents,
+  appVersion: string,
+  options: { redacted?: boolean } = {}
+): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const encoder = new TextEncoder();
+  const files: ArchiveFileEntry[] = [];
+
+  const addFile = async (path: string, data: Uint8Array) => {
+    zip.file(path, data);
+    files.push({ path, sha256: await sha256Hex(data), size: data.byteLength });
+  };
+
+  // audioUrl is a browser ObjectURL and meaningless elsewhere
+  const { audioUrl: _audioUrl, ...transcript } = contents.transcript;
+
+  const json: Record<keyof typeof FILE_PATHS, unknown> = {
+    transcript,
+    analyses: contents.analyses,
+    scorecards: contents.scorecards,
+    rubrics: contents.rubrics,
+    annotations: contents.annotations,
+    supplementalDocuments: contents.supplementalDocuments,
+    conversations: contents.conversations,
+  };
+
+  for (const key of Object.keys(FILE_PATHS) as (keyof typeof FILE_PATHS)[]) {
+    await addFile(FILE_PATHS[key], encoder.encode(JSON.stringify(json[key], null, 2)));
+  }
+
+  let audio: IncidentArchiveManifest['audio'];
+  if (contents.audio) {
+    const path = `audio/${safeEntryName(contents.audio.metadata.filename)}`;
+    await addFile(path, new Uint8Array(await contents.audio.blob.arrayBuffer()));
+    audio = { path, metadata: contents.audio.metadata };
+  }
+
+  const manifest: IncidentArchiveManifest = {
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    appVersion,
+    transcript: { id: contents.transcript.id, filename: contents.transcript.filename },
+    files,
+    audio,
+    ...(options.redacted && { redacted: true }),
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  // Audio is already compressed; JSON compresses well
+  return zip.generateAsync({
+    type: 'uint8array',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 },
+  });
+}
+
+// ============================================================================
+// Read
+// ============================================================================
+
+/**
+ * Whether bytes start with the zip local file header signature ("PK\x03\x04").
+ */
+export function isZipData(data: Uint8Array): boolean {
+  return data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+/**
+ * Reads and verifies an archive: manifest structure, every file's SHA-256,
+ * and the structure of each record file.
+ *
+ * @param data - Zip file bytes
+ * @returns ValidationResult with the archive (dates restored) or error
+ */
+export async function readIncidentArchive(
+  data: Uint8Array | ArrayBuffer
+): Promise<ValidationResult<IncidentArchive>> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    return { success: false, error: 'The file is not a valid zip archive.' };
+  }
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) {
+    return { success: false, error: 'Archive is missing manifest.json.' };
+  }
+
+  let manifest: IncidentArchiveManifest;
+  try {
+    const parsed = manifestSchema.safeParse(JSON.parse(await manifestFile.async('string')));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return {
+        success: false,
+        error: `manifest.json: ${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}`,
+        issues: parsed.error.issues,
+      };
+    }
+    manifest = parsed.data as IncidentArchiveManifest;
+  } catch {
+    return { success: false, error: 'manifest.json is not valid JSON.' };
+  }
+
+  // Verify every file listed in the manifest
+  const bytesByPath = new Map<string, Uint8Array>();
+  for (const entry of manifest.files) {
+    const file = zip.file(entry.path);
+    if (!file) {
+      return { success: false, error: `Archive is missing ${entry.path}.` };
+    }
+    const bytes = await file.async('uint8array');
+    if ((await sha256Hex(bytes)) !== entry.sha256) {
+      return {
+        success: false,
+        error: `Checksum verification failed for ${entry.path}. The file may be corrupted or tampered with.`,
+      };
+    }
+    bytesByPath.set(entry.path, bytes);
+  }
+
+  // Parse and validate the record files
+  const decoder = new TextDecoder();
+  const contents: Record<string, unknown> = {};
+  for (const key of Object.keys(FILE_PATHS) as (keyof typeof FILE_PATHS)[]) {
+    const path = FILE_PATHS[key];
+    const bytes = bytesByPath.get(path);
+    if (!bytes) {
+      return { success: false, error: `Archive is missing ${path}.` };
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(decoder.decode(bytes));
+    } catch {
+      return { success: false, error: `${path} is not valid JSON.` };
+    }
+
+    const parsed = contentSchemas[key].safeParse(raw);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return {
+        success: false,
+        error: `${path}: ${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}`,
+        issues: parsed.error.issues,
+      };
+    }
+    contents[key] = parsed.data;
+  }
+
+  let audio: ArchivedAudio | undefined;
+  if (manifest.audio) {
+    const bytes = bytesByPath.get(manifest.audio.path);
+    if (!bytes) {
+      return { success: false, error: `Archive is missing ${manifest.audio.path}.` };
+    }
+    audio = {
+      blob: new Blob([bytes as BlobPart], { type: manifest.audio.metadata.type }),
+      metadata: manifest.audio.metadata,
+    };
+  }
+
+  return {
+    success: true,
+    data: { manifest, ...reviveContents(contents), audio },
+  };
+}
@@ -0,0 +1,437 @@
+/**
+ * Workspace Backup
+ *
+ * Zip container holding every IndexedDB table, so a workspace survives
+ * clearing browser data or moving to another laptop. Tables are written in
+ * pages, so no single JSON document has to hold a whole table.
+ *
+ * Layout:
+ * - manifest.json                 format and schema version, per-file SHA-256
+ * - tables/<table>/<page>.json    records, with Dates and Blobs encoded
+ * - blobs/<table>/<n>             binary values (audio) referenced by records
+ *
+ * Restoring (see import.ts) decodes the whole backup before writing, because
+ * an IndexedDB transaction cannot stay open while the zip is decompressed.
+ */
+
+import JSZip from 'jszip';
+import { z } from 'zod';
+import type { Transcript } from '@/types/transcript';
+import { computeTranscriptSearchTokens } from '@/lib/db/search';
+import { sha256Hex, type ArchiveFileEntry } from './archive';
+import type { ValidationResult } from './validation';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Current backup format version
+ */
+export const BACKUP_FORMAT_VERSION = '1.0';
+
+/**
+ * Records per table page file
+ */
+export const BACKUP_PAGE_SIZE = 250;
+
+/**
+ * MIME type for backup files
+ */
+export const BACKUP_MIME_TYPE = 'application/zip';
+
+const MANIFEST_PATH = 'manifest.json';
+
+/**
+ * Tables included in a backup, in restore order.
+ *
+ * `matchKey` identifies the same record on another device. It defaults to the
+ * primary key; recordings use an auto-increment key that differs between
+ * devices, so they are matched by creation time and size instead.
+ */
+export const BACKUP_TABLES = [
+  { name: 'templates', primaryKey: 'id' },
+  { name: 'rtassRubricTemplates', primaryKey: 'id' },
+  { name: 'glossaryTerms', primaryKey: 'id' },
+  { name: 'transcripts', primaryKey: 'id' },
+  { name: 'audioFiles', primaryKey: 'transcriptId' },
+  { name: 'analyses', primaryKey: 'id' },
+  { name: 'rtassScorecards', primaryKey: 'id' },
+  { name: 'annotations', primaryKey: 'id' },
+  { name: 'supplementalDocuments', primaryKey: 'id' },
+  { name: 'conversations', primaryKey: 'id' },
+  { name: 'incidents', primaryKey: 'id' },
+  {
+    name: 'recordings',
+    primaryKey: 'id',
+    autoIncrement: true,
+    matchKey: (record: BackupRecord) => {
+      const metadata = record.metadata as { createdAt?: unknown; size?: unknown } | undefined;
+      const createdAt = metadata?.createdAt instanceof Date ? metadata.createdAt.getTime() : metadata?.createdAt;
+      return `${String(createdAt)}|${String(metadata?.size)}`;
+    },
+  },
+] as const satisfies readonly BackupTableSpec[];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A stored record, as read from any table
+ */
+export type BackupRecord = Record<string, unknown>;
+
+/**
+ * How a table is backed up and matched on restore
+ */
+export interface BackupTableSpec {
+  name: string;
+  primaryKey: string;
+  autoIncrement?: boolean;
+  matchKey?: (record: BackupRecord) => string;
+}
+
+/**
+ * Name of a table included in backups
+ */
+export type BackupTableName = (typeof BACKUP_TABLES)[number]['name'];
+
+/**
+ * Records of every table
+ */
+export type BackupTables = Record<BackupTableName, BackupRecord[]>;
+
+/**
+ * Reads one page of a table, ordered by primary key
+ */
+export type BackupPageReader = (
+  table: BackupTableName,
+  offset: number,
+  limit: number
+) => Promise<BackupRecord[]>;
+
+/**
+ * Progress reported while a backup is written
+ */
+export interface BackupProgress {
+  table: BackupTableName;
+  /** Records of this table written so far */
+  records: number;
+}
+
+/**
+ * Backup manifest (manifest.json)
+ */
+export interface WorkspaceBackupManifest {
+  kind: 'workspace-backup';
+  formatVersion: string;
+  /** Dexie schema version of the database the backup was taken from */
+  schemaVersion: number;
+  exportedAt: string; // ISO 8601 timestamp
+  appVersion: string;
+  tables: { name: BackupTableName; count: number; pages: string[] }[];
+  files: ArchiveFileEntry[];
+}
+
+/**
+ * A parsed, verified and migrated backup
+ */
+export interface WorkspaceBackup {
+  manifest: WorkspaceBackupManifest;
+  tables: BackupTables;
+}
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const tableNames = BACKUP_TABLES.map((t) => t.name) as [BackupTableName, ...BackupTableName[]];
+
+const manifestSchema = z.object({
+  kind: z.literal('workspace-backup', { message: 'Not a workspace backup' }),
+  formatVersion: z.string().regex(/^1\.\d+$/, 'Unsupported backup format version'),
+  schemaVersion: z.number().int().positive(),
+  exportedAt: z.string().datetime({ message: 'exportedAt must be a valid ISO 8601 datetime string' }),
+  appVersion: z.string().min(1, 'App version is required'),
+  tables: z.array(
+    z.object({
+      name: z.enum(tableNames),
+      count: z.number().int().nonnegative(),
+      pages: z.array(z.string().min(1)),
+    })
+  ),
+  files: z.array(
+    z.object({
+      path: z.string().min(1),
+      sha256: z.string().regex(/^[0-9a-f]{64}$/, 'Invalid SHA-256 checksum'),
+      size: z.number().int().nonnegative(),
+    })
+  ),
+});
+
+const pageSchema = z.array(z.looseObject({}));
+
+// ============================================================================
+// Schema migrations
+// ============================================================================
+
+/**
+ * Record changes made by Dexie upgrade functions (see lib/db/core.ts). Dexie
+ * only upgrades records already in the database, so a backup taken on an
+ * older schema is brought up to date before it is restored.
+ */
+const SCHEMA_MIGRATIONS: { version: number; migrate: (tables: BackupTables) => void }[] = [
+  {
+    // Version 10 indexes transcripts by search token
+    version: 10,
+    migrate: (tables) => {
+      for (const record of tables.transcripts) {
+        if (!Array.isArray(record.searchTokens) || record.searchTokens.length === 0) {
+          record.searchTokens = computeTranscriptSearchTokens(record as unknown as Transcript);
+        }
+      }
+    },
+  },
+];
+
+/**
+ * Applies the migrations between a backup's schema version and the current one.
+ *
+ * @param tables - Decoded records, modified in place
+ * @param fromVersion - Schema version the backup was taken from
+ */
+export function migrateBackupTables(tables: BackupTables, fromVersion: number): void {
+  for (const { version, migrate } of SCHEMA_MIGRATIONS) {
+    if (fromVersion < version) migrate(tables);
+  }
+}
+
+// ============================================================================
+// Value encoding
+// ============================================================================
+
+// JSON has no Date or Blob, so both are replaced with tagged objects
+function encodeValue(value: unknown, addBlob: (blob: Blob) => string): unknown {
+  if (value instanceof Date) return { $date: value.getTime() };
+  if (value instanceof Blob) return { $blob: addBlob(value), type: value.type };
+  if (Array.isArray(value)) return value.map((v) => encodeValue(v, addBlob));
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, encodeValue(v, addBlob)])
+    );
+  }
+  return value;
+}
+
+function decodeValue(value: unknown, getBlob: (path: string, type: string) => Blob): unknown {
+  if (Array.isArray(value)) return value.map((v) => decodeValue(v, getBlob));
+  if (value !== null && typeof value === 'object') {
+    const tagged = value as { $date?: unknown; $blob?: unknown; type?: unknown };
+    if ('$date' in tagged) return new Date(typeof tagged.$date === 'number' ? tagged.$date : NaN);
+    if (typeof tagged.$blob === 'string') {
+      return getBlob(tagged.$blob, typeof tagged.type === 'string' ? tagged.type : '');
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, decodeValue(v, getBlob)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Key used to match a backup record against local records.
+ */
+export function backupMatchKey(table: BackupTableName, record: BackupRecord): string {
+  const spec: BackupTableSpec = BACKUP_TABLES.find((t) => t.name === table)!;
+  return spec.matchKey ? spec.matchKey(record) : String(record[spec.primaryKey]);
+}
+
+// ============================================================================
+// Write
+// ============================================================================
+
+/**
+ * Builds a backup by reading every table page by page.
+ *
+ * @param readPage - Reads one page of a table
+ * @param options - Schema version of the source database and app version
+ * @returns The zip file
+ */
+export async function buildWorkspaceBackup(
+  readPage: BackupPageReader,
+  options: {
+    schemaVersion: number;
+    appVersion: string;
+    onProgress?: (progress: BackupProgress) => void;
+  }
+): Promise<Blob> {
+  const zip = new JSZip();
+  const encoder = new TextEncoder();
+  const files: ArchiveFileEntry[] = [];
+  const tables: WorkspaceBackupManifest['tables'] = [];
+
+  const addFile = async (path: string, data: Uint8Array) => {
+    zip.file(path, data);
+    files.push({ path, sha256: await sha256Hex(data), size: data.byteLength });
+  };
+
+  for (const { name } of BACKUP_TABLES) {
+    const pages: string[] = [];
+    let count = 0;
+    let blobCount = 0;
+
+    for (let offset = 0; ; offset += BACKUP_PAGE_SIZE) {
+      const records = await readPage(name, offset, BACKUP_PAGE_SIZE);
+      if (records.length === 0) break;
+
+      const blobs = new Map<string, Blob>();
+      const encoded = records.map((record) =>
+        encodeValue(record, (blob) => {
+          const path = `blobs/${name}/${++blobCount}`;
+          blobs.set(path, blob);
+          return path;
+        })
+      );
+      for (const [path, blob] of blobs) {
+        await addFile(path, new Uint8Array(await blob.arrayBuffer()));
+      }
+
+      const path = `tables/${name}/${String(pages.length + 1).padStart(4, '0')}.json`;
+      await addFile(path, encoder.encode(JSON.stringify(encoded)));
+      pages.push(path);
+      count += records.length;
+      options.onProgress?.({ table: name, records: count });
+
+      if (records.length < BACKUP_PAGE_SIZE) break;
+    }
+
+    tables.push({ name, count, pages });
+  }
+
+  const manifest: WorkspaceBackupManifest = {
+    kind: 'workspace-backup',
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: options.schemaVersion,
+    exportedAt: new Date().toISOString(),
+    appVersion: options.appVersion,
+    tables,
+    files,
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: BACKUP_MIME_TYPE,
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 },
+    streamFiles: true,
+  });
+}
+
+// ============================================================================
+// Read
+// ============================================================================
+
+/**
+ * Reads, verifies and migrates a backup.
+ *
+ * @param data - Zip file contents
+ * @param currentSchemaVersion - Schema version of this app's database; newer
+ *   backups are rejected
+ * @returns ValidationResult with the decoded backup or error
+ */
+export async function readWorkspaceBackup(
+  data: Blob | ArrayBuffer | Uint8Array,
+  currentSchemaVersion: number
+): Promise<ValidationResult<WorkspaceBackup>> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data instanceof Blob ? await data.arrayBuffer() : data);
+  } catch {
+    return { success: false, error: 'The file is not a valid zip archive.' };
+  }
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) {
+    return { success: false, error: 'Backup is missing manifest.json.' };
+  }
+
+  let manifest: WorkspaceBackupManifest;
+  try {
+    const parsed = manifestSchema.safeParse(JSON.parse(await manifestFile.async('string')));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return {
+        success: false,
+        error: `manifest.json: ${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}`,
+        issues: parsed.error.issues,
+      };
+    }
+    manifest = parsed.data;
+  } catch {
+    return { success: false, error: 'manifest.json is not valid JSON.' };
+  }
+
+  if (manifest.schemaVersion > currentSchemaVersion) {
+    return {
+      success: false,
+      error: `This backup was made by a newer version of the app (database schema v${manifest.schemaVersion}; this version supports up to v${currentSchemaVersion}). Update the app before restoring.`,
+    };
+  }
+
+  const bytesByPath = new Map<string, Uint8Array>();
+  for (const entry of manifest.files) {
+    const file = zip.file(entry.path);
+    if (!file) {
+      return { success: false, error: `Backup is missing ${entry.path}.` };
+    }
+    const bytes = await file.async('uint8array');
+    if ((await sha256Hex(bytes)) !== entry.sha256) {
+      return {
+        success: false,
+        error: `Checksum verification failed for ${entry.path}. The backup may be corrupted.`,
+      };
+    }
+    bytesByPath.set(entry.path, bytes);
+  }
+
+  const getBlob = (path: string, type: string): Blob => {
+    const bytes = bytesByPath.get(path);
+    if (!bytes) throw new Error(`Backup is missing ${path}.`);
+    return new Blob([bytes as BlobPart], { type });
+  };
+
+  const decoder = new TextDecoder();
+  const tables = Object.fromEntries(tableNames.map((name) => [name, []])) as unknown as BackupTables;
+  try {
+    for (const table of manifest.tables) {
+      const spec: BackupTableSpec = BACKUP_TABLES.find((t) => t.name === table.name)!;
+      for (const path of table.pages) {
+        const bytes = bytesByPath.get(path);
+        if (!bytes) {
+          return { success: false, error: `Backup is missing ${path}.` };
+        }
+        const parsed = pageSchema.safeParse(JSON.parse(decoder.decode(bytes)));
+        if (!parsed.success) {
+          return { success: false, error: `${path}: expected an array of records.` };
+        }
+        for (const record of parsed.data) {
+          if (record[spec.primaryKey] === undefined && !spec.autoIncrement) {
+            return { success: false, error: `${path}: record without '${spec.primaryKey}'.` };
+          }
+          tables[table.name].push(decodeValue(record, getBlob) as BackupRecord);
+        }
+      }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Backup contents are not valid JSON.',
+    };
+  }
+
+  migrateBackupTables(tables, manifest.schemaVersion);
+
+  return { success: true, data: { manifest, tables } };
+}
@@ -3,11 +3,20 @@
  *
  * Functions for exporting Meeting Transcriber packages as shareable JSON files.
  * Packages include transcripts, analyses, and integrity checksums for verification.
+ *
+ * Incident archives (format v2, see archive.ts) additionally carry the audio,
+ * scorecards and rubrics, annotations, supplemental documents and
+ * conversations in a zip container. Workspace backups (see backup.ts) cover
+ * the whole local database.
+ *
+ * Either zip can be protected with a passphrase (see protectFile), so that it
+ * is encrypted on disk and in transit as well.
  */
 
 import type { Transcript } from '@/types/transcript';
 import type { Analysis } from '@/types/analysis';
 import type { Template } from '@/types/template';
+import type { RtassRubricTemplate } from '@/types/rtass';
 import {
   computeChecksum,
   createChecksumContent,
@@ -16,11 +25,31 @@ import {
   type ExportableAnalysis,
   type MeetingTranscriberPackage,
 } from './validation';
+import {
+  ARCHIVE_MIME_TYPE,
+  buildIncidentArchive,
+  type ArchivedRubric,
+  type IncidentArchiveContents,
+} from './archive';
+import { buildWorkspaceBackup, type BackupProgress, type BackupRecord } from './backup';
 import {
   createDownloadBlob,
   triggerDownload,
   MIME_TYPES,
 } from '@/lib/export/download-helper';
+import {
+  getAnalysisByTranscript,
+  getAnnotationsByTranscript,
+  getDatabase,
+  getRtassRubricTemplate,
+  getRtassScorecardsByTranscript,
+  getSupplementalDocumentsByTranscript,
+  getTranscript,
+  openRecord,
+  openRecords,
+} from '@/lib/db';
+import { PROTECTED_FILE_EXTENSION, protectFile } from '@/lib/encryption';
+import { applyRedactions, isRedactedAudioCurrent, redactValue } from '@/lib/redaction';
 
 // ============================================================================
 // Constants
@@ -35,7 +64,7 @@ const APP_VERSION = '0.10.1';
 /**
  * Package type identifiers for filename generation.
  */
-export type PackageType = 'transcript' | 'analysis';
+export type PackageType = 'transcript' | 'analysis' | 'incident';
 
 // ============================================================================
 // Helper Functions
@@ -259,6 +288,133 @@ export async function exportMultipleAnalysesPackage(
   };
 }
 
+/**
+ * Loads a rubric used by a scorecard: custom rubrics from IndexedDB, built-in
+ * rubrics from the rubrics API.
+ *
+ * @returns The rubric, or null when it cannot be found
+ */
+async function loadArchivedRubric(rubricId: string): Promise<ArchivedRubric | null> {
+  const custom = await getRtassRubricTemplate(rubricId);
+  if (custom) {
+    return { builtIn: false, rubric: custom };
+  }
+
+  try {
+    const res = await fetch(`/api/rtass/rubrics?id=${encodeURIComponent(rubricId)}`);
+    if (!res.ok) return null;
+    const payload = await res.json();
+    return { builtIn: true, rubric: payload.data as RtassRubricTemplate };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Options for exporting an incident archive
+ */
+export interface IncidentArchiveOptions {
+  /**
+   * Replace the transcript's redacted personal details with placeholders in
+   * every record, and include the redacted copy of the recording instead of
+   * the original (or no audio, when there is no up-to-date copy). Has no
+   * effect when nothing is marked for redaction.
+   */
+  redact?: boolean;
+}
+
+/**
+ * Creates an incident archive (format v2) of a transcript and everything
+ * attached to it. The stored record is archived rather than the one passed
+ * in, so display-only changes such as applied speaker names are not baked in.
+ *
+ * @param transcript - The transcript to export
+ * @param options - Archive options
+ * @returns Promise resolving to the zip file as a Blob
+ *
+ * @example
+ * ```typescript
+ * const archive = await exportIncidentArchive(transcript);
+ * triggerDownload(archive, generatePackageFilename(transcript, 'incident'));
+ * ```
+ */
+export async function exportIncidentArchive(
+  transcript: Transcript,
+  options: IncidentArchiveOptions = {}
+): Promise<Blob> {
+  const db = getDatabase();
+  const [stored, analyses, scorecards, annotations, supplementalDocuments, conversations, audioEntry] =
+    await Promise.all([
+      getTranscript(transcript.id),
+      getAnalysisByTranscript(transcript.id),
+      getRtassScorecardsByTranscript(transcript.id),
+      getAnnotationsByTranscript(transcript.id),
+      getSupplementalDocumentsByTranscript(transcript.id),
+      db.conversations
+        .where('transcriptId')
+        .equals(transcript.id)
+        .toArray()
+        .then(openRecords),
+      db.audioFiles.get(transcript.id).then(openRecord),
+    ]);
+
+  const rubricIds = [...new Set(scorecards.map((s) => s.rubricTemplateId))];
+  const rubrics = (await Promise.all(rubricIds.map(loadArchivedRubric))).filter(
+    (r): r is ArchivedRubric => r !== null
+  );
+
+  const source = stored ?? transcript;
+  const contents: IncidentArchiveContents = {
+    transcript: source,
+    analyses,
+    scorecards,
+    rubrics,
+    annotations,
+    supplementalDocuments,
+    conversations,
+    audio: audioEntry && {
+      blob: audioEntry.audioBlob,
+      metadata: {
+        filename: audioEntry.metadata.filename,
+        size: audioEntry.metadata.size,
+        type: audioEntry.metadata.type,
+        duration: audioEntry.metadata.duration,
+      },
+    },
+  };
+
+  const redactedTranscript = options.redact ? applyRedactions(source) : source;
+  const redacted = redactedTranscript !== source;
+  if (redacted) {
+    const spans = source.redactions ?? [];
+    Object.assign(contents, {
+      transcript: redactedTranscript,
+      analyses: redactValue(analyses, spans),
+      scorecards: redactValue(scorecards, spans),
+      annotations: redactValue(annotations, spans),
+      supplementalDocuments: redactValue(supplementalDocuments, spans),
+      conversations: redactValue(conversations, spans),
+      // The original recording still has the details in it
+      audio:
+        audioEntry?.redactedAudioBlob && isRedactedAudioCurrent(source, audioEntry.redactedAudio)
+          ? {
+              blob: audioEntry.redactedAudioBlob,
+              metadata: {
+                filename: audioEntry.metadata.filename.replace(/\.[^.]+$/, '') + '_redacted.mp3',
+                size: audioEntry.redactedAudioBlob.size,
+                type: audioEntry.redactedAudioBlob.type,
+                duration: audioEntry.metadata.duration,
+              },
+            }
+          : undefined,
+    });
+  }
+
+  const bytes = await buildIncidentArchive(contents, APP_VERSION, { redacted });
+
+  return new Blob([bytes as BlobPart], { type: ARCHIVE_MIME_TYPE });
+}
+
 // ============================================================================
 // Filename Generation
 // ============================================================================
@@ -267,7 +423,7 @@ export async function exportMultipleAnalysesPackage(
  * Generates a safe filename for a package export.
  *
  * @param transcript - The transcript being exported
- * @param packageType - Type of package ('transcript' or 'analysis')
+ * @param packageType - Type of package ('transcript', 'analysis' or 'incident')
  * @returns Sanitized filename with type suffix and date
  *
  * @example
@@ -277,6 +433,9 @@ export async function exportMultipleAnalysesPackage(
  *
  * const filename = generatePackageFilename(transcript, 'analysis');
  * // Returns: "meeting_recording_analysis-export_2024-12-29.json"
+ *
+ * const filename = generatePackageFilename(transcript, 'incident');
+ * // Returns: "meeting_recording_incident-export_2024-12-29.zip"
  * ```
  */
 export function generatePackageFilename(
@@ -285,9 +444,10 @@ export function generatePackageFilename(
 ): string {
   const sanitizedName = sanitizeFilename(transcript.filename);
   const dateStr = formatDateForFilename(new Date());
-  const typeSuffix = packageType === 'transcript' ? 'transcript-export' : 'analysis-export';
+  const typeSuffix = `${packageType}-export`;
+  const extension = packageType === 'incident' ? 'zip' : 'json';
 
-  return `${sanitizedName}_${typeSuffix}_${dateStr}.json`;
+  return `${sanitizedName}_${typeSuffix}_${dateStr}.${extension}`;
 }
 
 // ============================================================================
@@ -369,3 +529,81 @@ export async function exportAndDownloadAnalysis(
   const filename = generatePackageFilename(transcript, 'analysis');
   downloadPackage(pkg, filename);
 }
+
+/**
+ * Encrypts an exported file with a passphrase.
+ *
+ * @param file - The exported file
+ * @param passphrase - Passphrase the recipient will need to open it
+ * @returns The protected file; its filename should end in PROTECTED_FILE_EXTENSION
+ */
+export async function protectExport(file: Blob, passphrase: string): Promise<Blob> {
+  const bytes = await protectFile(new Uint8Array(await file.arrayBuffer()), passphrase);
+  return new Blob([bytes as BlobPart], { type: 'application/octet-stream' });
+}
+
+/**
+ * Convenience function to export and download an incident archive in one step.
+ *
+ * @param transcript - The transcript to export with its attached records
+ * @param passphrase - Optional passphrase to protect the archive with
+ * @param options - Archive options
+ * @returns Promise that resolves when download is triggered
+ */
+export async function exportAndDownloadIncidentArchive(
+  transcript: Transcript,
+  passphrase?: string,
+  options: IncidentArchiveOptions = {}
+): Promise<void> {
+  const archive = await exportIncidentArchive(transcript, options);
+  const filename = generatePackageFilename(transcript, 'incident');
+  if (passphrase) {
+    triggerDownload(await protectExport(archive, passphrase), filename + PROTECTED_FILE_EXTENSION);
+  } else {
+    triggerDownload(archive, filename);
+  }
+}
+
+/**
+ * Creates a backup of every table in the local database.
+ *
+ * Tables are read a page at a time in primary key order.
+ *
+ * @param onProgress - Called after each page is written
+ * @returns Promise resolving to the zip file as a Blob
+ */
+export async function exportWorkspaceBackup(
+  onProgress?: (progress: BackupProgress) => void
+): Promise<Blob> {
+  const db = getDatabase();
+  await db.open();
+
+  return buildWorkspaceBackup(
+    async (table, offset, limit) =>
+      openRecords(await db.table<BackupRecord>(table).offset(offset).limit(limit).toArray()),
+    { schemaVersion: db.verno, appVersion: APP_VERSION, onProgress }
+  );
+}
+
+/**
+ * Convenience function to back up the local database and download the file.
+ *
+ * Records sealed by encryption at rest are written in plaintext, so a
+ * passphrase is recommended whenever encryption is on.
+ *
+ * @param onProgress - Called after each page is written
+ * @param passphrase - Optional passphrase to protect the backup with
+ * @returns Promise that resolves when download is triggered
+ */
+export async function exportAndDownloadWorkspaceBackup(
+  onProgress?: (progress: BackupProgress) => void,
+  passphrase?: string
+): Promise<void> {
+  const backup = await exportWorkspaceBackup(onProgress);
+  const filename = `austin-rtass-backup-${formatDateForFilename(new Date())}.zip`;
+  if (passphrase) {
+    triggerDownload(await protectExport(backup, passphrase), filename + PROTECTED_FILE_EXTENSION);
+  } else {
+    triggerDownload(backup, filename);
+  }
+}
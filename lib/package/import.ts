@@ -3,6 +3,10 @@
  *
  * Functions for importing Meeting Transcriber shareable packages.
  * Handles file parsing, validation, conflict detection, and database operations.
+ *
+ * Both formats are accepted: v1.0 JSON packages (transcript + analyses) and
+ * v2 incident archives (zip, see archive.ts), told apart by the zip signature.
+ * Workspace backups (see backup.ts) are restored separately, in bulk.
  */
 
 import {
@@ -13,20 +17,102 @@ import {
   type ExportableTranscript,
   type ExportableAnalysis,
 } from './validation';
+import {
+  isZipData,
+  readIncidentArchive,
+  MAX_ARCHIVE_SIZE,
+  type IncidentArchive,
+} from './archive';
+import {
+  BACKUP_TABLES,
+  backupMatchKey,
+  readWorkspaceBackup,
+  type BackupRecord,
+  type BackupTableName,
+  type WorkspaceBackup,
+} from './backup';
 import {
   findTranscriptByFingerprint,
   saveTranscript,
   saveAnalysis,
   getTemplate,
   getDatabase,
+  sealRecords,
+  SEALED_FIELDS,
+  type SealedTable,
 } from '@/lib/db';
+import {
+  EncryptionError,
+  isProtectedFile,
+  PROTECTED_FILE_EXTENSION,
+  unprotectFile,
+} from '@/lib/encryption';
 import type { Transcript } from '@/types/transcript';
 import type { Analysis } from '@/types/analysis';
+import type { RtassRubricTemplate } from '@/types/rtass';
 
 // ============================================================================
 // Types
 // ============================================================================
 
+/**
+ * Either package format, as returned by parsePackageFile().
+ */
+export type SharedPackage = MeetingTranscriberPackage | IncidentArchive;
+
+/**
+ * Number of records restored from an incident archive.
+ */
+export interface RestoredRecordCounts {
+  analyses: number;
+  scorecards: number;
+  rubrics: number;
+  annotations: number;
+  supplementalDocuments: number;
+  conversations: number;
+  audio: boolean;
+}
+
+/**
+ * How a workspace backup is restored.
+ *
+ * - merge: add backup records and overwrite local records with the same key;
+ *   local records not in the backup are kept
+ * - replace: clear every table first
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * Effect of a restore on one table
+ */
+export interface RestoreTableSummary {
+  table: BackupTableName;
+  /** Backup records without a local counterpart */
+  added: number;
+  /** Local records replaced by the backup version */
+  overwritten: number;
+  /** Local records deleted (replace mode only) */
+  removed: number;
+}
+
+/**
+ * Effect of a restore on the database, computed for a dry run or reported
+ * after the restore
+ */
+export interface RestorePlan {
+  mode: RestoreMode;
+  tables: RestoreTableSummary[];
+}
+
+/**
+ * Result of restoring a workspace backup.
+ */
+export interface RestoreResult {
+  success: boolean;
+  plan?: RestorePlan;
+  error?: string;
+}
+
 /**
  * Result of parsing a package file.
  */
@@ -37,6 +123,8 @@ export interface ParseResult<T> {
   data?: T;
   /** Error message (only present if success is false) */
   error?: string;
+  /** The file is passphrase-protected and the passphrase was missing or wrong */
+  needsPassphrase?: boolean;
 }
 
 /**
@@ -79,6 +167,8 @@ export interface ImportResult {
   warnings?: string[];
   /** Whether the transcript was renamed due to conflict */
   wasRenamed?: boolean;
+  /** Records restored alongside the transcript (incident archives only) */
+  restored?: RestoredRecordCounts;
 }
 
 /**
@@ -86,7 +176,7 @@ export interface ImportResult {
  */
 export interface ImportPreflightResult {
   /** Result of parsing the package file */
-  parsed: ParseResult<MeetingTranscriberPackage>;
+  parsed: ParseResult<SharedPackage>;
   /** Conflict information if a duplicate exists (null if no conflict) */
   conflict: ConflictInfo | null;
 }
@@ -113,6 +203,13 @@ function generateImportAnalysisId(): string {
   return crypto.randomUUID();
 }
 
+/**
+ * Whether a parsed package is a v2 incident archive.
+ */
+export function isIncidentArchive(pkg: SharedPackage): pkg is IncidentArchive {
+  return 'manifest' in pkg;
+}
+
 /**
  * Generates a timestamp-based suffix for renaming imported transcripts.
  *
@@ -159,13 +256,15 @@ function generateSuggestedNewName(originalFilename: string): string {
 /**
  * Parses and validates a package file.
  *
- * Performs the following steps:
+ * Incident archives (zip) are read and every file's checksum verified (see
+ * readIncidentArchive). For JSON packages, performs the following steps:
  * 1. Validates file type and size
  * 2. Parses JSON content
  * 3. Validates package structure with Zod schema
  * 4. Verifies checksum integrity
  *
  * @param file - The File object to parse
+ * @param passphrase - Passphrase for a protected file (`.enc`)
  * @returns ParseResult with validated package data or error
  *
  * @example
@@ -182,8 +281,31 @@ function generateSuggestedNewName(originalFilename: string): string {
  * ```
  */
 export async function parsePackageFile(
-  file: File
-): Promise<ParseResult<MeetingTranscriberPackage>> {
+  packageFile: File,
+  passphrase?: string
+): Promise<ParseResult<SharedPackage>> {
+  const unprotected = await unprotectPackageFile(packageFile, passphrase);
+  if (!('file' in unprotected)) {
+    return unprotected;
+  }
+  const { file } = unprotected;
+
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  if (isZipData(header)) {
+    if (file.size > MAX_ARCHIVE_SIZE) {
+      const maxSizeMB = MAX_ARCHIVE_SIZE / (1024 * 1024);
+      const actualSizeMB = (file.size / (1024 * 1024)).toFixed(2);
+      return {
+        success: false,
+        error: `Archive size (${actualSizeMB}MB) exceeds maximum allowed size (${maxSizeMB}MB)`,
+      };
+    }
+    const archive = await readIncidentArchive(await file.arrayBuffer());
+    return archive.success
+      ? { success: true, data: archive.data }
+      : { success: false, error: archive.error || 'Invalid incident archive' };
+  }
+
   // Step 1: Validate file type and size, then parse JSON
   const fileValidation = await validatePackageFile(file);
   if (!fileValidation.success) {
@@ -220,6 +342,42 @@ export async function parsePackageFile(
   };
 }
 
+/**
+ * Decrypts a passphrase-protected file (see protectFile); other files are
+ * returned as they are.
+ */
+async function unprotectPackageFile(
+  file: File,
+  passphrase?: string
+): Promise<{ file: File } | ParseResult<never>> {
+  const header = new Uint8Array(await file.slice(0, 64).arrayBuffer());
+  if (!isProtectedFile(header)) {
+    return { file };
+  }
+  if (!passphrase) {
+    return {
+      success: false,
+      needsPassphrase: true,
+      error: 'This file is passphrase-protected. Enter the passphrase to open it.',
+    };
+  }
+
+  try {
+    const bytes = await unprotectFile(new Uint8Array(await file.arrayBuffer()), passphrase);
+    const name = file.name.endsWith(PROTECTED_FILE_EXTENSION)
+      ? file.name.slice(0, -PROTECTED_FILE_EXTENSION.length)
+      : file.name;
+    return { file: new File([bytes as BlobPart], name, { type: 'application/zip' }) };
+  } catch (error) {
+    if (error instanceof EncryptionError) {
+      return error.code === 'WRONG_PASSPHRASE'
+        ? { success: false, needsPassphrase: true, error: 'Incorrect passphrase' }
+        : { success: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
 // ============================================================================
 // Conflict Detection
 // ============================================================================
@@ -248,13 +406,13 @@ export async function parsePackageFile(
  * ```
  */
 export async function checkForConflict(
-  pkg: MeetingTranscriberPackage
+  pkg: SharedPackage
 ): Promise<ConflictInfo | null> {
   const transcript = pkg.transcript;
 
   // Check 1: By fingerprint hash (most reliable)
-  // The exportable transcript may have fingerprint as an optional field
-  const fingerprint = (transcript as ExportableTranscript & { fingerprint?: { fileHash: string } }).fingerprint;
+  // Archives keep the fingerprint; v1 packages may have it as an optional field
+  const fingerprint = (transcript as { fingerprint?: { fileHash: string } }).fingerprint;
   if (fingerprint?.fileHash) {
     const existing = await findTranscriptByFingerprint(fingerprint.fileHash);
     if (existing) {
@@ -338,10 +496,219 @@ function convertToAnalysis(
   };
 }
 
+/**
+ * Determines the filename of an imported transcript: the custom filename if
+ * given, otherwise the original, renamed when it conflicts.
+ */
+async function resolveImportFilename(
+  pkg: SharedPackage,
+  options: ImportOptions
+): Promise<{ filename: string; wasRenamed: boolean }> {
+  if (options.customFilename) {
+    return { filename: options.customFilename, wasRenamed: true };
+  }
+
+  if (options.conflictAction === 'rename') {
+    // Check if we need to rename (there might be a conflict)
+    const conflict = await checkForConflict(pkg);
+    if (conflict) {
+      return { filename: conflict.suggestedNewName, wasRenamed: true };
+    }
+  }
+
+  return { filename: pkg.transcript.filename, wasRenamed: false };
+}
+
+/**
+ * Whether two versions of a rubric score the same way.
+ */
+function isSameRubric(a: RtassRubricTemplate, b: RtassRubricTemplate): boolean {
+  return (
+    a.version === b.version &&
+    JSON.stringify(a.sections) === JSON.stringify(b.sections) &&
+    JSON.stringify(a.scoring) === JSON.stringify(b.scoring)
+  );
+}
+
+/**
+ * Imports a verified incident archive into the database.
+ *
+ * Every record gets a new ID and is linked to the new transcript; scorecards
+ * are restored as standalone (the incident itself is not part of the
+ * archive). Custom rubrics are restored unless the same rubric already
+ * exists; a different local rubric with the same ID is kept and the imported
+ * one saved as a copy. Everything is written in a single transaction.
+ *
+ * @param archive - The verified archive to import
+ * @param options - Import options including conflict action
+ * @returns ImportResult with the new transcript ID and restored counts
+ */
+async function importIncidentArchiveToDatabase(
+  archive: IncidentArchive,
+  options: ImportOptions
+): Promise<ImportResult> {
+  const warnings: string[] = [];
+
+  try {
+    const db = getDatabase();
+    const newTranscriptId = generateImportTranscriptId();
+    const { filename, wasRenamed } = await resolveImportFilename(archive, options);
+
+    const rubricIds = new Map<string, string>();
+    const rubricsToSave: RtassRubricTemplate[] = [];
+    for (const { builtIn, rubric } of archive.rubrics) {
+      if (builtIn) continue;
+
+      const existing = await db.rtassRubricTemplates.get(rubric.id);
+      if (!existing) {
+        rubricsToSave.push(rubric);
+      } else if (!isSameRubric(existing, rubric)) {
+        const copy = {
+          ...rubric,
+          id: crypto.randomUUID(),
+          name: `${rubric.name} (imported)`,
+        };
+        rubricIds.set(rubric.id, copy.id);
+        rubricsToSave.push(copy);
+        warnings.push(
+          `A different version of rubric "${existing.name}" already exists. ` +
+            `The imported rubric was saved as "${copy.name}".`
+        );
+      }
+    }
+
+    const archivedRubricIds = new Set(archive.rubrics.map((r) => r.rubric.id));
+    const missingRubrics = new Set(
+      archive.scorecards
+        .map((s) => s.rubricTemplateId)
+        .filter((id) => !archivedRubricIds.has(id))
+    );
+    for (const id of missingRubrics) {
+      warnings.push(
+        `Scorecards reference rubric '${id}', which was not included in the archive.`
+      );
+    }
+
+    const { audioUrl: _audioUrl, searchTokens: _searchTokens, ...transcript } =
+      archive.transcript;
+
+    // Sealed up front (a no-op unless encryption at rest is on) so the
+    // transaction below only writes
+    const [audio] = await sealRecords(
+      'audioFiles',
+      archive.audio
+        ? [
+            {
+              transcriptId: newTranscriptId,
+              audioBlob: archive.audio.blob,
+              metadata: { ...archive.audio.metadata, loadedAt: new Date() },
+              storedAt: new Date(),
+            },
+          ]
+        : []
+    );
+    const analyses = await sealRecords(
+      'analyses',
+      archive.analyses.map((analysis) => ({
+        ...analysis,
+        id: generateImportAnalysisId(),
+        transcriptId: newTranscriptId,
+      }))
+    );
+    const scorecards = await sealRecords(
+      'rtassScorecards',
+      archive.scorecards.map((scorecard) => ({
+        ...scorecard,
+        id: crypto.randomUUID(),
+        transcriptId: newTranscriptId,
+        incidentId: newTranscriptId,
+        rubricTemplateId:
+          rubricIds.get(scorecard.rubricTemplateId) ?? scorecard.rubricTemplateId,
+      }))
+    );
+    const annotations = await sealRecords(
+      'annotations',
+      archive.annotations.map((annotation) => ({
+        ...annotation,
+        id: crypto.randomUUID(),
+        transcriptId: newTranscriptId,
+      }))
+    );
+    const supplementalDocuments = await sealRecords(
+      'supplementalDocuments',
+      archive.supplementalDocuments.map((doc) => ({
+        ...doc,
+        id: crypto.randomUUID(),
+        transcriptId: newTranscriptId,
+      }))
+    );
+    const conversations = await sealRecords(
+      'conversations',
+      archive.conversations.map((conversation) => ({
+        ...conversation,
+        id: crypto.randomUUID(),
+        transcriptId: newTranscriptId,
+      }))
+    );
+
+    await db.transaction(
+      'rw',
+      [
+        db.transcripts,
+        db.audioFiles,
+        db.analyses,
+        db.rtassScorecards,
+        db.rtassRubricTemplates,
+        db.annotations,
+        db.supplementalDocuments,
+        db.conversations,
+      ],
+      async () => {
+        await saveTranscript({ ...transcript, id: newTranscriptId, filename });
+
+        if (audio) {
+          await db.audioFiles.put(audio);
+        }
+
+        await db.rtassRubricTemplates.bulkPut(rubricsToSave);
+        await db.analyses.bulkPut(analyses);
+        await db.rtassScorecards.bulkPut(scorecards);
+        await db.annotations.bulkPut(annotations);
+        await db.supplementalDocuments.bulkPut(supplementalDocuments);
+        await db.conversations.bulkPut(conversations);
+      }
+    );
+
+    return {
+      success: true,
+      transcriptId: newTranscriptId,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      wasRenamed,
+      restored: {
+        analyses: archive.analyses.length,
+        scorecards: archive.scorecards.length,
+        rubrics: rubricsToSave.length,
+        annotations: archive.annotations.length,
+        supplementalDocuments: archive.supplementalDocuments.length,
+        conversations: archive.conversations.length,
+        audio: Boolean(archive.audio),
+      },
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error during import';
+    return {
+      success: false,
+      error: `Failed to import archive: ${errorMessage}`,
+    };
+  }
+}
+
 /**
  * Imports a validated package into the database.
  *
- * Handles:
+ * Incident archives are restored in full (see
+ * importIncidentArchiveToDatabase). For v1.0 JSON packages, handles:
  * - Conflict resolution (rename or cancel)
  * - Transcript import with new ID
  * - Analysis import (if present) linked to new transcript
@@ -367,7 +734,7 @@ function convertToAnalysis(
  * ```
  */
 export async function importPackageToDatabase(
-  pkg: MeetingTranscriberPackage,
+  pkg: SharedPackage,
   options: ImportOptions
 ): Promise<ImportResult> {
   const warnings: string[] = [];
@@ -380,25 +747,16 @@ export async function importPackageToDatabase(
     };
   }
 
+  if (isIncidentArchive(pkg)) {
+    return importIncidentArchiveToDatabase(pkg, options);
+  }
+
   try {
     // Generate new IDs
     const newTranscriptId = generateImportTranscriptId();
 
     // Determine filename (use custom if provided, otherwise original)
-    let filename = pkg.transcript.filename;
-    let wasRenamed = false;
-
-    if (options.customFilename) {
-      filename = options.customFilename;
-      wasRenamed = true;
-    } else if (options.conflictAction === 'rename') {
-      // Check if we need to rename (there might be a conflict)
-      const conflict = await checkForConflict(pkg);
-      if (conflict) {
-        filename = conflict.suggestedNewName;
-        wasRenamed = true;
-      }
-    }
+    const { filename, wasRenamed } = await resolveImportFilename(pkg, options);
 
     // Convert and save transcript
     const transcript = convertToTranscript(
@@ -583,3 +941,161 @@ export async function importPackageAuto(
     customFilename,
   });
 }
+
+// ============================================================================
+// Workspace Backup Restore
+// ============================================================================
+
+/**
+ * Parses and verifies a workspace backup file.
+ *
+ * Backups from older database schemas are migrated; backups from a newer
+ * schema are rejected.
+ *
+ * @param file - The backup file
+ * @param passphrase - Passphrase for a protected backup (`.enc`)
+ * @returns ParseResult with the decoded backup or error
+ */
+export async function parseWorkspaceBackupFile(
+  file: File,
+  passphrase?: string
+): Promise<ParseResult<WorkspaceBackup>> {
+  try {
+    const unprotected = await unprotectPackageFile(file, passphrase);
+    if (!('file' in unprotected)) {
+      return unprotected;
+    }
+
+    const db = getDatabase();
+    await db.open();
+    const result = await readWorkspaceBackup(unprotected.file, db.verno);
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, error: result.error };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to read backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Maps each local record's match key to its primary key.
+ */
+async function loadLocalKeys(table: BackupTableName): Promise<Map<string, unknown>> {
+  const db = getDatabase();
+  const spec = BACKUP_TABLES.find((t) => t.name === table)!;
+  if (!('matchKey' in spec)) {
+    const keys = await db.table(table).toCollection().primaryKeys();
+    return new Map(keys.map((key) => [String(key), key]));
+  }
+  const records = await db.table<BackupRecord>(table).toArray();
+  return new Map(records.map((record) => [backupMatchKey(table, record), record[spec.primaryKey]]));
+}
+
+/**
+ * Works out what a restore would add, overwrite and remove.
+ */
+function planTable(
+  table: BackupTableName,
+  records: BackupRecord[],
+  localKeys: Map<string, unknown>,
+  mode: RestoreMode
+): RestoreTableSummary {
+  const backupKeys = new Set(records.map((record) => backupMatchKey(table, record)));
+  const overwritten = [...backupKeys].filter((key) => localKeys.has(key)).length;
+  return {
+    table,
+    added: backupKeys.size - overwritten,
+    overwritten,
+    removed: mode === 'replace' ? localKeys.size - overwritten : 0,
+  };
+}
+
+/**
+ * Dry run: summarizes what restoring a backup would change, without writing.
+ *
+ * @param backup - The decoded backup
+ * @param mode - Merge into or replace the local database
+ * @returns Per-table counts of added, overwritten and removed records
+ */
+export async function planWorkspaceRestore(
+  backup: WorkspaceBackup,
+  mode: RestoreMode
+): Promise<RestorePlan> {
+  const tables: RestoreTableSummary[] = [];
+  for (const { name } of BACKUP_TABLES) {
+    tables.push(planTable(name, backup.tables[name], await loadLocalKeys(name), mode));
+  }
+  return { mode, tables };
+}
+
+/**
+ * Restores a workspace backup in a single transaction.
+ *
+ * Records keep their IDs, so links between tables survive. Recordings use a
+ * per-device auto-increment key: in merge mode a recording that matches a
+ * local one takes over its key, and any other is added under a new key.
+ * Backups hold plaintext, so records are sealed first when encryption at rest
+ * is on.
+ *
+ * @param backup - The decoded backup
+ * @param mode - Merge into or replace the local database
+ * @returns RestoreResult with what was changed, or error
+ */
+export async function restoreWorkspaceBackup(
+  backup: WorkspaceBackup,
+  mode: RestoreMode
+): Promise<RestoreResult> {
+  try {
+    const db = getDatabase();
+    const tables: RestoreTableSummary[] = [];
+
+    const toWrite = new Map<BackupTableName, BackupRecord[]>();
+    for (const { name } of BACKUP_TABLES) {
+      toWrite.set(
+        name,
+        name in SEALED_FIELDS
+          ? await sealRecords(name as SealedTable, backup.tables[name])
+          : backup.tables[name]
+      );
+    }
+
+    await db.transaction(
+      'rw',
+      BACKUP_TABLES.map((t) => t.name),
+      async () => {
+        for (const spec of BACKUP_TABLES) {
+          const localKeys = await loadLocalKeys(spec.name);
+          tables.push(planTable(spec.name, backup.tables[spec.name], localKeys, mode));
+          const records = toWrite.get(spec.name)!;
+
+          const table = db.table<BackupRecord>(spec.name);
+          if (mode === 'replace') {
+            await table.clear();
+            await table.bulkPut(records);
+          } else if ('autoIncrement' in spec) {
+            await table.bulkPut(
+              records.map((record) => {
+                const { [spec.primaryKey]: _key, ...rest } = record;
+                const localKey = localKeys.get(backupMatchKey(spec.name, record));
+                return localKey === undefined ? rest : { ...rest, [spec.primaryKey]: localKey };
+              })
+            );
+          } else {
+            await table.bulkPut(records);
+          }
+        }
+      }
+    );
+
+    return { success: true, plan: { mode, tables } };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error during restore';
+    return {
+      success: false,
+      error: `Failed to restore backup: ${errorMessage}`,
+    };
+  }
+}
@@ -3,7 +3,9 @@
  *
  * Provides utilities for exporting and importing Meeting Transcriber packages.
  * These shareable JSON packages allow users to share transcripts and analyses
- * with others or backup their data.
+ * with others or backup their data. Incident archives (format v2) are zip
+ * files that additionally carry audio, scorecards and attachments. Workspace
+ * backups hold every table of the local database.
  */
 
 // Export utilities
@@ -15,7 +17,13 @@ export {
   downloadPackage,
   exportAndDownloadTranscript,
   exportAndDownloadAnalysis,
+  exportIncidentArchive,
+  exportAndDownloadIncidentArchive,
+  exportWorkspaceBackup,
+  exportAndDownloadWorkspaceBackup,
+  protectExport,
   type PackageType,
+  type IncidentArchiveOptions,
 } from './export';
 
 // Validation utilities
@@ -73,6 +81,43 @@ export {
   type ValidatedPackage,
 } from './validation';
 
+// Incident archive utilities
+export {
+  ARCHIVE_FORMAT_VERSION,
+  MAX_ARCHIVE_SIZE,
+  ARCHIVE_MIME_TYPE,
+  buildIncidentArchive,
+  readIncidentArchive,
+  isZipData,
+  sha256Hex,
+  type ArchivedRubric,
+  type ArchivedAudio,
+  type IncidentArchiveContents,
+  type ArchiveFileEntry,
+  type IncidentArchiveManifest,
+  type IncidentArchive,
+} from './archive';
+
+// Workspace backup utilities
+export {
+  BACKUP_FORMAT_VERSION,
+  BACKUP_PAGE_SIZE,
+  BACKUP_MIME_TYPE,
+  BACKUP_TABLES,
+  buildWorkspaceBackup,
+  readWorkspaceBackup,
+  migrateBackupTables,
+  backupMatchKey,
+  type BackupRecord,
+  type BackupTableSpec,
+  type BackupTableName,
+  type BackupTables,
+  type BackupPageReader,
+  type BackupProgress,
+  type WorkspaceBackupManifest,
+  type WorkspaceBackup,
+} from './backup';
+
 // Import utilities
 export {
   // Functions
@@ -82,8 +127,18 @@ export {
   importPackage,
   importPackageAuto,
   generateImportTranscriptId,
+  isIncidentArchive,
+  parseWorkspaceBackupFile,
+  planWorkspaceRestore,
+  restoreWorkspaceBackup,
 
   // Types
+  type SharedPackage,
+  type RestoredRecordCounts,
+  type RestoreMode,
+  type RestoreTableSummary,
+  type RestorePlan,
+  type RestoreResult,
   type ParseResult,
   type ConflictInfo,
   type ImportOptions,
@@ -332,6 +332,7 @@ export const analysisSectionSchema = z.object({
   name: z.string().nullish().transform(v => v ?? 'Unnamed Section'),
   content: z.string().nullish().transform(v => v ?? ''),
   evidence: z.array(evidenceSchema).nullish().transform(v => v ?? []),
+  pinnedFrom: z.object({ conversationId: z.string(), messageId: z.string() }).optional(),
 });
 
 /**
@@ -0,0 +1,242 @@
+/**
+ * Conversation PDF Document Component
+ *
+ * React-PDF component for a chat conversation as part of the review
+ * record: each question and answer, with citations as the times they cite
+ * and the cited radio traffic listed under each answer.
+ */
+
+import React from "react";
+import { Document, Page, Text, View, StyleSheet } from "@react-pdf/renderer";
+import type { Conversation } from "@/types/chat";
+import { getConversationTitle } from "@/types/chat";
+import {
+  conversationExportEntries,
+  type ConversationExportEntry,
+} from "@/lib/export/conversation-exporter";
+
+/**
+ * PDF Stylesheet, matching the transcript PDF
+ */
+const styles = StyleSheet.create({
+  page: {
+    flexDirection: "column",
+    backgroundColor: "#FFFFFF",
+    padding: 50,
+    paddingBottom: 70,
+    fontSize: 11,
+    fontFamily: "Helvetica",
+  },
+
+  header: {
+    marginBottom: 25,
+    borderBottom: "2 solid #1a1a1a",
+    paddingBottom: 15,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: "bold",
+    marginBottom: 8,
+    color: "#1a1a1a",
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    color: "#666666",
+    marginBottom: 4,
+  },
+
+  question: {
+    marginTop: 14,
+    marginBottom: 8,
+    padding: 10,
+    backgroundColor: "#f0f7ff",
+    borderLeft: "3 solid #0066cc",
+  },
+  answer: {
+    marginBottom: 8,
+    paddingLeft: 4,
+  },
+  label: {
+    fontSize: 9,
+    color: "#666666",
+    marginBottom: 4,
+  },
+  messageText: {
+    fontSize: 11,
+    color: "#333333",
+    lineHeight: 1.6,
+  },
+  stopped: {
+    fontSize: 9,
+    color: "#b45309",
+    marginTop: 4,
+  },
+
+  citations: {
+    marginTop: 6,
+    padding: 8,
+    backgroundColor: "#fafafa",
+    borderRadius: 4,
+  },
+  citationsTitle: {
+    fontSize: 9,
+    fontWeight: "bold",
+    color: "#333333",
+    marginBottom: 4,
+  },
+  citation: {
+    flexDirection: "row",
+    marginBottom: 3,
+  },
+  citationTime: {
+    fontSize: 9,
+    color: "#0066cc",
+    marginRight: 6,
+  },
+  citationQuote: {
+    flex: 1,
+    fontSize: 9,
+    color: "#555555",
+  },
+
+  footer: {
+    position: "absolute",
+    bottom: 30,
+    left: 50,
+    right: 50,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    borderTop: "1 solid #e5e5e5",
+    paddingTop: 8,
+    fontSize: 8,
+    color: "#999999",
+  },
+});
+
+/**
+ * Helper function to format date
+ */
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Props for ConversationPDFDocument
+ */
+export interface ConversationPDFDocumentProps {
+  /** The conversation to render */
+  conversation: Conversation;
+  /** The transcript filename, or the library chat scope */
+  subject: string;
+}
+
+/**
+ * An answer with its cited radio traffic
+ */
+const PDFAnswer: React.FC<{ entry: ConversationExportEntry }> = ({ entry }) => (
+  <View style={styles.answer}>
+    <Text style={styles.label}>
+      Answer · {formatDate(entry.timestamp)}
+      {entry.model ? ` · ${entry.model}` : ""}
+    </Text>
+    <Text style={styles.messageText}>{entry.text}</Text>
+    {entry.stopped && (
+      <Text style={styles.stopped}>Stopped before the answer was complete.</Text>
+    )}
+    {entry.citations.length > 0 && (
+      <View style={styles.citations}>
+        <Text style={styles.citationsTitle}>Cited radio traffic</Text>
+        {entry.citations.map((citation, index) => (
+          <View key={index} style={styles.citation} wrap={false}>
+            <Text style={styles.citationTime}>[{citation.label}]</Text>
+            <Text style={styles.citationQuote}>
+              {citation.speaker ? `${citation.speaker}: ` : ""}&quot;{citation.quote}&quot;
+            </Text>
+          </View>
+        ))}
+      </View>
+    )}
+  </View>
+);
+
+/**
+ * ConversationPDFDocument Component
+ *
+ * @example
+ * ```tsx
+ * import { pdf } from '@react-pdf/renderer';
+ * import { ConversationPDFDocument } from './conversation-pdf';
+ *
+ * const blob = await pdf(
+ *   <ConversationPDFDocument conversation={conversation} subject={transcript.filename} />
+ * ).toBlob();
+ * ```
+ */
+export const ConversationPDFDocument: React.FC<ConversationPDFDocumentProps> = ({
+  conversation,
+  subject,
+}) => {
+  const title = getConversationTitle(conversation);
+  const entries = conversationExportEntries(conversation);
+  const questionNumbers = entries.map(
+    (_, index) => entries.slice(0, index + 1).filter((entry) => entry.role === "user").length
+  );
+
+  return (
+    <Document
+      title={`Chat - ${title}`}
+      author="Austin RTASS"
+      subject="Chat Conversation"
+      creator="Austin RTASS"
+    >
+      <Page size="A4" style={styles.page}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Chat Conversation</Text>
+          <Text style={styles.headerSubtitle}>{title}</Text>
+          <Text style={styles.headerSubtitle}>About: {subject}</Text>
+          <Text style={styles.headerSubtitle}>
+            Started {formatDate(conversation.createdAt)} · Exported {formatDate(new Date())}
+          </Text>
+          {conversation.forkedFrom && (
+            <Text style={styles.headerSubtitle}>
+              Forked from another conversation by editing a question
+            </Text>
+          )}
+        </View>
+
+        {entries.map((entry, index) =>
+          entry.role === "assistant" ? (
+            <PDFAnswer key={index} entry={entry} />
+          ) : (
+            <View key={index} style={styles.question} wrap={false}>
+              <Text style={styles.label}>
+                Question {questionNumbers[index]} · {formatDate(entry.timestamp)}
+              </Text>
+              <Text style={styles.messageText}>{entry.text}</Text>
+            </View>
+          )
+        )}
+
+        <View style={styles.footer} fixed>
+          <Text>{subject}</Text>
+          <Text
+            render={({ pageNumber, totalPages }) =>
+              `Page ${pageNumber} of ${totalPages}`
+            }
+          />
+        </View>
+      </Page>
+    </Document>
+  );
+};
+
+/**
+ * Export default for convenience
+ */
+export default ConversationPDFDocument;
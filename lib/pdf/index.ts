@@ -16,11 +16,15 @@ export type { AnalysisPDFDocumentProps } from "./analysis-pdf";
 export { ScorecardPDFDocument } from "./scorecard-pdf";
 export type { ScorecardPDFDocumentProps } from "./scorecard-pdf";
 
+export { ConversationPDFDocument } from "./conversation-pdf";
+export type { ConversationPDFDocumentProps } from "./conversation-pdf";
+
 // Export PDF generation utilities
 export {
   exportTranscriptToPDF,
   exportAnalysisToPDF,
   exportScorecardToPDF,
+  exportConversationToPDF,
   exportAndDownloadTranscript,
   exportAndDownloadAnalysis,
   exportAndDownloadScorecard,
@@ -35,5 +39,6 @@ export type {
   TranscriptPDFOptions,
   AnalysisPDFOptions,
   ScorecardPDFOptions,
+  ConversationPDFOptions,
   PDFExportResult,
 } from "./pdf-exporter";
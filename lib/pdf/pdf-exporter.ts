@@ -10,9 +10,13 @@ import { pdf } from "@react-pdf/renderer";
 import { Transcript, Analysis } from "@/types";
 import type { Template } from "@/types";
 import type { RtassRubricTemplate, RtassScorecard } from "@/types/rtass";
+import type { Conversation } from "@/types/chat";
+import type { RedactionSpan } from "@/types/redaction";
+import { applyRedactions, redactValue } from "@/lib/redaction";
 import { TranscriptPDFDocument } from "./transcript-pdf";
 import { AnalysisPDFDocument } from "./analysis-pdf";
 import { ScorecardPDFDocument } from "./scorecard-pdf";
+import { ConversationPDFDocument } from "./conversation-pdf";
 
 /**
  * Options for transcript PDF export
@@ -22,6 +26,8 @@ export interface TranscriptPDFOptions {
   includeFullText?: boolean;
   /** Whether to show individual segments with timestamps */
   includeSegments?: boolean;
+  /** Replace personal details marked for redaction with placeholders */
+  redact?: boolean;
 }
 
 /**
@@ -32,6 +38,8 @@ export interface AnalysisPDFOptions {
   template?: Template;
   /** Whether to include table of contents */
   includeTableOfContents?: boolean;
+  /** Replace personal details marked for redaction with placeholders */
+  redact?: boolean;
 }
 
 /**
@@ -42,6 +50,8 @@ export interface ScorecardPDFOptions {
   rubric?: RtassRubricTemplate;
   /** Original transcript filename for context */
   transcriptFilename?: string;
+  /** Redactions of the scored transcript, replaced in evidence quotes */
+  redactions?: RedactionSpan[];
   /** Optional incident information */
   incidentInfo?: {
     incidentNumber?: string;
@@ -50,6 +60,14 @@ export interface ScorecardPDFOptions {
   };
 }
 
+/**
+ * Options for chat conversation PDF export
+ */
+export interface ConversationPDFOptions {
+  /** The transcript filename, or the library chat scope */
+  subject: string;
+}
+
 /**
  * Result of a PDF export operation
  */
@@ -175,6 +193,7 @@ async function generatePDF(
     | ReturnType<typeof TranscriptPDFDocument>
     | ReturnType<typeof AnalysisPDFDocument>
     | ReturnType<typeof ScorecardPDFDocument>
+    | ReturnType<typeof ConversationPDFDocument>
 ): Promise<Blob> {
   try {
     const pdfInstance = pdf(document as React.ReactElement);
@@ -254,12 +273,13 @@ export async function exportTranscriptToPDF(
     const {
       includeFullText = true,
       includeSegments = true,
+      redact = false,
     } = options;
 
     // Generate PDF document
     const blob = await generatePDF(
       React.createElement(TranscriptPDFDocument, {
-        transcript,
+        transcript: redact ? applyRedactions(transcript) : transcript,
         includeFullText,
         includeSegments,
       })
@@ -317,13 +337,14 @@ export async function exportAnalysisToPDF(
     const {
       template,
       includeTableOfContents = true,
+      redact = false,
     } = options;
 
     // Generate PDF document
     const blob = await generatePDF(
       React.createElement(AnalysisPDFDocument, {
-        analysis,
-        transcript,
+        analysis: redact ? redactValue(analysis, transcript.redactions ?? []) : analysis,
+        transcript: redact ? applyRedactions(transcript) : transcript,
         template,
         includeTableOfContents,
       })
@@ -363,10 +384,10 @@ export async function exportScorecardToPDF(
       };
     }
 
-    const { rubric, transcriptFilename, incidentInfo } = options;
+    const { rubric, transcriptFilename, incidentInfo, redactions = [] } = options;
 
     const scorecardData: RtassScorecard = {
-      ...scorecard,
+      ...redactValue(scorecard, redactions),
       createdAt:
         scorecard.createdAt instanceof Date
           ? scorecard.createdAt
@@ -436,6 +457,47 @@ export async function exportScorecardToPDF(
   }
 }
 
+/**
+ * Exports a chat conversation to PDF
+ *
+ * @param conversation - The conversation to export (already redacted if needed)
+ * @param options - Export options
+ * @returns Promise resolving to export result
+ */
+export async function exportConversationToPDF(
+  conversation: Conversation,
+  options: ConversationPDFOptions
+): Promise<PDFExportResult> {
+  try {
+    if (!conversation || conversation.messages.length === 0) {
+      return {
+        success: false,
+        error: "The conversation has no messages. Cannot generate PDF.",
+      };
+    }
+
+    const blob = await generatePDF(
+      React.createElement(ConversationPDFDocument, {
+        conversation,
+        subject: options.subject,
+      })
+    );
+
+    return {
+      success: true,
+      blob,
+      size: blob.size,
+    };
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return {
+      success: false,
+      error: message,
+    };
+  }
+}
+
 /**
  * Generates a sanitized filename for PDF export
  *
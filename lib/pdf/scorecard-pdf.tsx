@@ -817,6 +817,13 @@ const CriteriaRow: React.FC<{
 
       {/* Evidence */}
       <View style={styles.evidenceCol}>
+        {criterion.cadEvidence?.map((e) => (
+          <View key={`cad-${e.event}`} style={styles.evidenceItem}>
+            <Text style={styles.evidenceTimestamp}>
+              CAD {new Date(e.at).toLocaleTimeString()} • {e.label}
+            </Text>
+          </View>
+        ))}
         {criterion.evidence && criterion.evidence.length > 0 ? (
           criterion.evidence.slice(0, 2).map((e, idx) => {
             const quote = String(e.quote || '');
@@ -833,7 +840,7 @@ const CriteriaRow: React.FC<{
               </View>
             );
           })
-        ) : (
+        ) : criterion.cadEvidence?.length ? null : (
           <Text style={styles.noEvidence}>No evidence provided</Text>
         )}
         {criterion.evidence && criterion.evidence.length > 2 && (
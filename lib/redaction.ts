@@ -0,0 +1,490 @@
+/**
+ * Redaction
+ *
+ * Finds and removes personal details heard in radio traffic:
+ * - detectPiiSpans() is a deterministic pattern pass over the segments for
+ *   phone numbers, dates of birth, street addresses, introduced names and
+ *   ID numbers. The /api/redactions route adds an optional LLM pass for
+ *   details the patterns miss.
+ * - A reviewer approves or rejects each span; pending spans are redacted
+ *   too, so an unreviewed detection never leaks.
+ *
+ * Like the speaker map, the stored segments are never rewritten. Exports,
+ * shared packages and (when the preference is on) AI requests read the
+ * transcript through applyRedactions() instead.
+ *
+ * redactionTimeRanges() maps the same spans onto the recording, so a copy of
+ * the audio can be silenced or toned over where the details are spoken.
+ */
+
+import { getRedactAiRequestsPreference } from "@/lib/storage";
+import { joinSegmentText } from "@/lib/transcript-editing";
+import { findRangeTiming } from "@/lib/word-timing";
+import type {
+  AudioRedactionPrecision,
+  AudioRedactionRange,
+  RedactedAudioInfo,
+  RedactionCategory,
+  RedactionSource,
+  RedactionSpan,
+  RedactionStatus,
+} from "@/types/redaction";
+import type { Transcript, TranscriptSegment } from "@/types/transcript";
+
+/** Display names of the redaction categories */
+export const REDACTION_CATEGORY_LABELS: Record<RedactionCategory, string> = {
+  name: "Name",
+  address: "Address",
+  dob: "Date of birth",
+  phone: "Phone number",
+  id_number: "ID number",
+  email: "Email",
+};
+
+const REDACTION_TOKENS: Record<RedactionCategory, string> = {
+  name: "[NAME]",
+  address: "[ADDRESS]",
+  dob: "[DOB]",
+  phone: "[PHONE]",
+  id_number: "[ID]",
+  email: "[EMAIL]",
+};
+
+/**
+ * Placeholder that replaces redacted text, e.g. "[NAME]".
+ */
+export function redactionToken(category: RedactionCategory): string {
+  return REDACTION_TOKENS[category];
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+interface PiiPattern {
+  category: RedactionCategory;
+  pattern: RegExp;
+  /** Capture group holding the detail, at the end of the match; the rest is context */
+  group?: number;
+}
+
+const MONTH =
+  "(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)";
+
+const DATE =
+  `(?:\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}` +
+  `|${MONTH}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}` +
+  `|\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH},?\\s+\\d{4})`;
+
+const STREET_SUFFIX =
+  "(?:Street|St|Avenue|Ave|Road|Rd|Drive|Dr|Lane|Ln|Boulevard|Blvd|Court|Ct|Circle|Cir|Cove|Cv|Way|Parkway|Pkwy|Place|Pl|Trail|Trl|Terrace|Highway|Hwy|Loop)";
+
+// Bare dates and bare names are too common in radio traffic (incident times,
+// unit call signs) to flag, so those need an introduction such as "DOB" or
+// "patient's name is".
+const PII_PATTERNS: PiiPattern[] = [
+  { category: "email", pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { category: "id_number", pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  {
+    category: "phone",
+    pattern: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g,
+  },
+  {
+    category: "dob",
+    pattern: new RegExp(
+      `\\b(?:DOB|D\\.O\\.B\\.?|date of birth|birth ?date|born(?: on)?)[\\s:,]+(?:is\\s+|of\\s+)?(${DATE})`,
+      "gi",
+    ),
+    group: 1,
+  },
+  {
+    category: "address",
+    pattern: new RegExp(
+      `\\b\\d{1,6}\\s+(?:[NSEW]\\.?\\s+|(?:North|South|East|West)\\s+)?(?:[A-Z][A-Za-z'-]*\\s+){1,3}${STREET_SUFFIX}\\b\\.?`,
+      "g",
+    ),
+  },
+  {
+    category: "name",
+    pattern:
+      /\b(?:(?:[Pp]atient|[Cc]aller|[Vv]ictim|[Hh]is|[Hh]er|[Tt]heir|[Mm]y)(?:'s)?\s+name\s+is|[Nn]amed|Mr\.?|Mrs\.?|Ms\.?|Miss)\s+([A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+){0,2})/g,
+    group: 1,
+  },
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function createSpan(
+  segmentIndex: number,
+  start: number,
+  text: string,
+  category: RedactionCategory,
+  source: RedactionSource,
+): RedactionSpan {
+  const end = start + text.length;
+  return {
+    id: `${segmentIndex}:${start}-${end}`,
+    segmentIndex,
+    start,
+    end,
+    text,
+    category,
+    source,
+    // A reviewer adding a span by hand has already decided
+    status: source === "manual" ? "approved" : "pending",
+  };
+}
+
+function compareSpans(a: RedactionSpan, b: RedactionSpan): number {
+  return a.segmentIndex - b.segmentIndex || a.start - b.start;
+}
+
+function overlaps(a: RedactionSpan, b: RedactionSpan): boolean {
+  return a.segmentIndex === b.segmentIndex && a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Find personal details in the segments with the built-in patterns.
+ *
+ * @returns Pending spans, in transcript order, without overlaps
+ */
+export function detectPiiSpans(segments: TranscriptSegment[]): RedactionSpan[] {
+  const found: RedactionSpan[] = [];
+
+  for (const segment of segments) {
+    for (const { category, pattern, group } of PII_PATTERNS) {
+      for (const match of segment.text.matchAll(pattern)) {
+        const text = group ? match[group] : match[0];
+        if (!text) continue;
+        const start = (match.index ?? 0) + match[0].lastIndexOf(text);
+        found.push(createSpan(segment.index, start, text, category, "pattern"));
+      }
+    }
+  }
+
+  return mergeRedactionSpans([], found);
+}
+
+/**
+ * Mark every whole-word occurrence of `text` in the segments
+ * (case-insensitive), e.g. a name the reviewer or the LLM pass found.
+ */
+export function findTextSpans(
+  segments: TranscriptSegment[],
+  text: string,
+  category: RedactionCategory,
+  source: RedactionSource,
+): RedactionSpan[] {
+  const needle = text.trim();
+  if (needle.length < 2) return [];
+  const pattern = new RegExp(`(^|[^\\w])(${escapeRegExp(needle)})(?!\\w)`, "gi");
+
+  const spans: RedactionSpan[] = [];
+  for (const segment of segments) {
+    for (const match of segment.text.matchAll(pattern)) {
+      const start = (match.index ?? 0) + match[1].length;
+      spans.push(createSpan(segment.index, start, match[2], category, source));
+    }
+  }
+  return spans;
+}
+
+/**
+ * Add newly detected spans to the existing ones. Detections that overlap an
+ * existing span are dropped so the reviewer's decisions are kept.
+ */
+export function mergeRedactionSpans(
+  existing: RedactionSpan[],
+  detected: RedactionSpan[],
+): RedactionSpan[] {
+  const merged = [...existing];
+  for (const span of [...detected].sort(compareSpans)) {
+    if (!merged.some((other) => overlaps(other, span))) {
+      merged.push(span);
+    }
+  }
+  return merged.sort(compareSpans);
+}
+
+/**
+ * Record a reviewer's decision on a span.
+ */
+export function reviewRedactionSpan(
+  span: RedactionSpan,
+  status: RedactionStatus,
+  reviewedBy: string,
+): RedactionSpan {
+  if (status === "pending") {
+    const { reviewedBy: _reviewedBy, reviewedAt: _reviewedAt, ...rest } = span;
+    return { ...rest, status };
+  }
+  return { ...span, status, reviewedBy: reviewedBy || undefined, reviewedAt: new Date() };
+}
+
+// ============================================================================
+// Redacted view
+// ============================================================================
+
+/** Spans that are redacted: approved and pending */
+function activeSpans(spans: RedactionSpan[] | undefined): RedactionSpan[] {
+  return (spans ?? []).filter((span) => span.status !== "rejected");
+}
+
+/**
+ * Build a function that replaces every whole-word occurrence of the spans'
+ * text with its placeholder, or null when there is nothing to redact.
+ */
+function createRedactor(spans: RedactionSpan[]): ((text: string) => string) | null {
+  const categories = new Map<string, RedactionCategory>();
+  for (const span of activeSpans(spans)) {
+    const key = span.text.trim().toLowerCase();
+    if (key.length >= 2 && !categories.has(key)) {
+      categories.set(key, span.category);
+    }
+  }
+  if (categories.size === 0) return null;
+
+  // Longest first so "John Smith" wins over "John"
+  const alternatives = [...categories.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  const pattern = new RegExp(`(^|[^\\w])(${alternatives})(?!\\w)`, "gi");
+
+  return (text) =>
+    text.replace(
+      pattern,
+      (_match, prefix: string, term: string) =>
+        prefix + redactionToken(categories.get(term.toLowerCase()) ?? "name"),
+    );
+}
+
+/**
+ * Replace every occurrence of the spans' text in free text such as a
+ * summary or an analysis section.
+ */
+export function redactText(text: string, spans: RedactionSpan[]): string {
+  return createRedactor(spans)?.(text) ?? text;
+}
+
+const IDENTIFIER_KEY = /^id$|Id$/;
+
+/**
+ * Redact every string in a record such as an analysis, scorecard or
+ * conversation. Identifier fields, dates and binary data are left alone.
+ */
+export function redactValue<T>(value: T, spans: RedactionSpan[]): T {
+  const redact = createRedactor(spans);
+  if (!redact) return value;
+
+  const walk = (current: unknown): unknown => {
+    if (typeof current === "string") return redact(current);
+    if (Array.isArray(current)) return current.map(walk);
+    if (current !== null && Object.getPrototypeOf(current) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(current as Record<string, unknown>).map(([key, field]) => [
+          key,
+          IDENTIFIER_KEY.test(key) ? field : walk(field),
+        ]),
+      );
+    }
+    return current;
+  };
+  return walk(value) as T;
+}
+
+/**
+ * Where a span is in the segment text now. Falls back to searching for its
+ * text when the segment was edited after detection.
+ */
+function locateSpan(text: string, span: RedactionSpan): [number, number] | null {
+  if (text.slice(span.start, span.end) === span.text) return [span.start, span.end];
+  const start = text.indexOf(span.text);
+  return start === -1 ? null : [start, start + span.text.length];
+}
+
+function replaceRanges(
+  text: string,
+  ranges: Array<{ start: number; end: number; category: RedactionCategory }>,
+): string {
+  let result = "";
+  let cursor = 0;
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    if (range.start < cursor) {
+      // Overlaps the previous range: extend it
+      cursor = Math.max(cursor, range.end);
+      continue;
+    }
+    result += text.slice(cursor, range.start) + redactionToken(range.category);
+    cursor = range.end;
+  }
+  return result + text.slice(cursor);
+}
+
+/**
+ * Return the transcript with approved and pending spans replaced by
+ * placeholders in its segments, text and summary.
+ *
+ * The correction history and the spans themselves quote the original text,
+ * so they are left out, as are the word timings of redacted segments. Transcripts with nothing to redact are returned
+ * unchanged.
+ */
+export function applyRedactions(transcript: Transcript): Transcript {
+  const spans = activeSpans(transcript.redactions);
+  if (spans.length === 0) return transcript;
+
+  const segmentsByIndex = new Map(transcript.segments.map((s) => [s.index, s]));
+  const ranges = new Map<number, Array<{ start: number; end: number; category: RedactionCategory }>>();
+  const unplaced: RedactionSpan[] = [];
+
+  for (const span of spans) {
+    const segment = segmentsByIndex.get(span.segmentIndex);
+    const range = segment && locateSpan(segment.text, span);
+    if (!range) {
+      // The segment was split or renumbered; redact the text wherever it is
+      unplaced.push(span);
+      continue;
+    }
+    const list = ranges.get(span.segmentIndex) ?? [];
+    list.push({ start: range[0], end: range[1], category: span.category });
+    ranges.set(span.segmentIndex, list);
+  }
+
+  const redactUnplaced = createRedactor(unplaced);
+  const segments = transcript.segments.map((segment) => {
+    const segmentRanges = ranges.get(segment.index);
+    let text = segmentRanges ? replaceRanges(segment.text, segmentRanges) : segment.text;
+    if (redactUnplaced) text = redactUnplaced(text);
+    if (text === segment.text) return segment;
+    const { words: _words, ...redacted } = segment;
+    return { ...redacted, text };
+  });
+
+  const {
+    original: _original,
+    revisions: _revisions,
+    redactions: _redactions,
+    ...rest
+  } = transcript;
+
+  return {
+    ...rest,
+    segments,
+    text: segments.length > 0 ? joinSegmentText(segments) : redactText(transcript.text, spans),
+    summary: transcript.summary && redactText(transcript.summary, spans),
+  };
+}
+
+/**
+ * The transcript to send to the analysis, chat and scoring APIs: redacted
+ * when the "redact AI requests" preference is on.
+ */
+export function transcriptForAiRequest(transcript: Transcript): Transcript {
+  return getRedactAiRequestsPreference() ? applyRedactions(transcript) : transcript;
+}
+
+/**
+ * Text about a transcript (an analysis, scorecard or trainer note) to send
+ * to the AI APIs with it: redacted like transcriptForAiRequest().
+ */
+export function textForAiRequest(text: string, transcript: Transcript): string {
+  if (!getRedactAiRequestsPreference()) return text;
+  const spans = activeSpans(transcript.redactions);
+  return spans.length > 0 ? redactText(text, spans) : text;
+}
+
+// ============================================================================
+// Redacted audio
+// ============================================================================
+
+/** Seconds added on each side of an estimated span, to cover timing drift */
+const AUDIO_SPAN_PADDING = 0.4;
+
+/** Seconds added on each side of a span timed from word timestamps */
+const AUDIO_WORD_PADDING = 0.1;
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Stretches of the recording where approved and pending spans are spoken,
+ * in order and without overlaps.
+ *
+ * With "span" precision, spans are timed from the segment's word timestamps
+ * when it has them, and otherwise estimated from their position in the text.
+ * Spans that can no longer be placed in their segment are searched for in
+ * every segment, as in applyRedactions().
+ */
+export function redactionTimeRanges(
+  transcript: Transcript,
+  precision: AudioRedactionPrecision = "segment",
+): AudioRedactionRange[] {
+  const spans = activeSpans(transcript.redactions);
+  if (spans.length === 0) return [];
+
+  const segmentsByIndex = new Map(transcript.segments.map((s) => [s.index, s]));
+  const located: Array<{ segment: TranscriptSegment; start: number; end: number }> = [];
+
+  for (const span of spans) {
+    const segment = segmentsByIndex.get(span.segmentIndex);
+    const range = segment && locateSpan(segment.text, span);
+    if (segment && range) {
+      located.push({ segment, start: range[0], end: range[1] });
+      continue;
+    }
+    for (const found of findTextSpans(transcript.segments, span.text, span.category, span.source)) {
+      const foundSegment = segmentsByIndex.get(found.segmentIndex);
+      if (foundSegment) {
+        located.push({ segment: foundSegment, start: found.start, end: found.end });
+      }
+    }
+  }
+
+  const ranges = located.map(({ segment, start, end }) => {
+    if (precision === "segment" || segment.text.length === 0) {
+      return { start: segment.start, end: segment.end };
+    }
+    const timed = findRangeTiming(segment, start, end);
+    if (timed) {
+      return {
+        start: Math.max(segment.start, timed.start - AUDIO_WORD_PADDING),
+        end: Math.min(segment.end, timed.end + AUDIO_WORD_PADDING),
+      };
+    }
+    const secondsPerChar = (segment.end - segment.start) / segment.text.length;
+    return {
+      start: Math.max(segment.start, segment.start + start * secondsPerChar - AUDIO_SPAN_PADDING),
+      end: Math.min(segment.end, segment.start + end * secondsPerChar + AUDIO_SPAN_PADDING),
+    };
+  });
+
+  const merged: AudioRedactionRange[] = [];
+  for (const range of ranges.sort((a, b) => a.start - b.start)) {
+    const previous = merged[merged.length - 1];
+    if (previous && range.start <= previous.end) {
+      previous.end = Math.max(previous.end, roundTime(range.end));
+    } else if (range.end > range.start) {
+      merged.push({ start: roundTime(range.start), end: roundTime(range.end) });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Whether a stored redacted recording still covers the transcript's
+ * redactions, i.e. nothing was marked, unmarked or edited since it was made.
+ */
+export function isRedactedAudioCurrent(
+  transcript: Transcript,
+  info: RedactedAudioInfo | undefined,
+): boolean {
+  if (!info) return false;
+  const ranges = redactionTimeRanges(transcript, info.precision);
+  return (
+    ranges.length === info.ranges.length &&
+    ranges.every((r, i) => r.start === info.ranges[i].start && r.end === info.ranges[i].end)
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * RTASS CAD Timing
+ *
+ * Uses Visinet CAD time stamps as ground truth for RTASS timing criteria.
+ * Rubric events (e.g. "first_unit_arrival", "fire_under_control") are mapped
+ * onto CAD events (dispatch milestones, unit arrived/enroute times and custom
+ * time stamps); when both ends of a timing criterion resolve, the verdict is
+ * computed from the CAD clock instead of the model's reading of the radio.
+ */
+
+import { describeTimingTarget, gradeElapsedTime } from "@/lib/rtass-timing";
+import type { VisinetEvent } from "@/lib/visinet-parser";
+import type { RtassCriterion, RtassScorecardCriterion } from "@/types/rtass";
+
+/**
+ * Incident-level Visinet time stamps that rubric events map onto directly.
+ */
+const DISPATCH_EVENT_ALIASES: Record<string, VisinetEvent["id"]> = {
+  phone_pickup: "phonePickup",
+  call_received: "phonePickup",
+  call_taking_complete: "callTakingComplete",
+  dispatch: "firstUnitAssigned",
+  first_unit_assigned: "firstUnitAssigned",
+  first_unit_dispatched: "firstUnitAssigned",
+  first_unit_enroute: "firstUnitEnroute",
+  first_unit_responding: "firstUnitEnroute",
+  first_unit_arrival: "firstUnitArrived",
+  first_unit_arrived: "firstUnitArrived",
+  first_unit_on_scene: "firstUnitArrived",
+};
+
+/**
+ * Unit status fields used when the matching incident-level time stamp is
+ * missing (earliest unit wins).
+ */
+const UNIT_STATUS_FALLBACK: Record<string, string> = {
+  firstUnitAssigned: "assigned",
+  firstUnitEnroute: "enroute",
+  firstUnitArrived: "arrived",
+};
+
+/**
+ * Keywords that identify a rubric event in a Visinet custom time stamp
+ * description, for events whose wording differs from the event name.
+ */
+const CUSTOM_EVENT_KEYWORDS: Record<string, string[]> = {
+  fire_knocked_down: ["knocked down", "knockdown"],
+  fire_under_control: ["under control"],
+  fire_extinguished: ["extinguished"],
+  primary_search_complete: ["primary search", "primary all clear"],
+  secondary_search_complete: ["secondary search", "secondary all clear"],
+  water_supply_established: ["water supply"],
+  utilities_shutoff: ["utilities", "utility"],
+  first_water_on_fire: ["water on fire"],
+  command_established: ["command established"],
+};
+
+function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Find the CAD event that represents a rubric event.
+ *
+ * @param eventName - Rubric event name (e.g. "first_unit_arrival")
+ * @param events - Events from extractVisinetEvents()
+ * @returns The earliest matching CAD event, or null if none matches
+ */
+export function resolveCadEvent(
+  eventName: string,
+  events: VisinetEvent[],
+): VisinetEvent | null {
+  const key = normalizeText(eventName).replace(/ /g, "_");
+  const byTime = [...events].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const dispatchId = DISPATCH_EVENT_ALIASES[key];
+  if (dispatchId) {
+    const stamp = byTime.find((e) => e.id === dispatchId);
+    if (stamp) return stamp;
+
+    const status = UNIT_STATUS_FALLBACK[dispatchId];
+    return (
+      byTime.find(
+        (e) => e.source === "unit" && e.id.endsWith(`:${status}`),
+      ) ?? null
+    );
+  }
+
+  const words = key.split("_").filter(Boolean);
+  const keywords = CUSTOM_EVENT_KEYWORDS[key] ?? [];
+
+  return (
+    byTime.find((e) => {
+      if (e.source !== "custom") return false;
+      const description = normalizeText(e.label);
+      return (
+        words.every((w) => description.split(" ").includes(w)) ||
+        keywords.some((k) => description.includes(k))
+      );
+    }) ?? null
+  );
+}
+
+/**
+ * Score a timing criterion from CAD time stamps.
+ *
+ * Leaves the model's result untouched when the criterion is not a timing
+ * criterion or either event cannot be found in the CAD report. Otherwise the
+ * verdict, score and rationale come from the CAD clock, the CAD entries are
+ * recorded as `cadEvidence`, and radio evidence quotes are kept.
+ *
+ * @param result - Criterion result from the model
+ * @param criterion - Rubric criterion definition
+ * @param events - Events from extractVisinetEvents()
+ * @returns Updated criterion result
+ */
+export function applyCadTiming(
+  result: RtassScorecardCriterion,
+  criterion: RtassCriterion | undefined,
+  events: VisinetEvent[],
+): RtassScorecardCriterion {
+  const timing = criterion?.timing;
+  if (!timing || criterion?.type !== "timing" || events.length === 0) {
+    return result;
+  }
+
+  const start = resolveCadEvent(timing.startEvent, events);
+  const end = resolveCadEvent(timing.endEvent, events);
+  if (!start || !end) return result;
+
+  const elapsedSeconds = Math.round(
+    (end.at.getTime() - start.at.getTime()) / 1000,
+  );
+  if (elapsedSeconds < 0) return result;
+
+  const grade = gradeElapsedTime(elapsedSeconds, timing);
+  if (!grade) return result;
+
+  const target = describeTimingTarget(timing);
+  return {
+    ...result,
+    verdict: grade.verdict,
+    score: grade.score,
+    confidence: 1,
+    rationale: `CAD: ${start.label} → ${end.label} = ${elapsedSeconds}s${target ? `, ${target}` : ""}.`,
+    cadEvidence: [
+      { event: timing.startEvent, label: start.label, at: start.at.toISOString() },
+      { event: timing.endEvent, label: end.label, at: end.at.toISOString() },
+    ],
+    timing: {
+      startEvent: timing.startEvent,
+      endEvent: timing.endEvent,
+      elapsedSeconds,
+      source: "cad",
+    },
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * RTASS Scoring
+ *
+ * Turns criterion verdicts into section and overall scores using a rubric's
+ * `scoring` config. Shared by the scoring API routes, the client-side
+ * scorecard runner, and trainer overrides in the scorecard viewer so every
+ * path produces the same numbers.
+ */
+
+import type {
+  RtassCriterionAssessment,
+  RtassRubricTemplate,
+  RtassScorecard,
+  RtassScorecardCriterion,
+  RtassScorecardSection,
+  RtassVerdict,
+} from "@/types/rtass";
+
+export type RtassScoreStatus = RtassScorecard["overall"]["status"];
+
+/** Prefixes of the warnings produced by computeSectionScore() */
+const SCORING_WARNING_PREFIXES = [
+  "Required criterion not observed:",
+  "Criterion not observed:",
+  "No scorable criteria in section:",
+];
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Score contributed by a verdict. Partial verdicts keep the supplied score
+ * (default 0.5); not observed / not applicable verdicts have no score.
+ */
+export function verdictToScore(
+  verdict: RtassVerdict,
+  scoreFromModel?: number,
+): number | undefined {
+  switch (verdict) {
+    case "met":
+      return 1;
+    case "missed":
+      return 0;
+    case "partial":
+      return typeof scoreFromModel === "number" ? clamp01(scoreFromModel) : 0.5;
+    case "not_observed":
+    case "not_applicable":
+      return undefined;
+  }
+}
+
+export function statusFromScore(
+  score: number,
+  rubric: RtassRubricTemplate,
+): RtassScoreStatus {
+  if (score >= rubric.scoring.thresholds.pass) return "pass";
+  if (score >= rubric.scoring.thresholds.needsImprovement) return "needs_improvement";
+  return "fail";
+}
+
+/**
+ * Weighted average of a section's criterion scores.
+ *
+ * Not applicable criteria are skipped. Not observed criteria are skipped
+ * with a warning, or counted as missed when required and the rubric says
+ * `treat_as_missed`.
+ */
+export function computeSectionScore(params: {
+  rubric: RtassRubricTemplate;
+  section: RtassRubricTemplate["sections"][number];
+  criteriaResults: RtassScorecardCriterion[];
+}): { score: number; warnings: string[] } {
+  const { rubric, section, criteriaResults } = params;
+
+  const criterionById = new Map(section.criteria.map((c) => [c.id, c]));
+  const warnings: string[] = [];
+
+  let numerator = 0;
+  let denominator = 0;
+
+  for (const result of criteriaResults) {
+    const criterion = criterionById.get(result.criterionId);
+    if (!criterion) continue;
+
+    const weight = typeof criterion.weight === "number"
+      ? criterion.weight
+      : 1 / Math.max(1, section.criteria.length);
+
+    if (result.verdict === "not_applicable") {
+      continue;
+    }
+
+    if (result.verdict === "not_observed") {
+      if (criterion.required && rubric.scoring.requiredNotObservedBehavior === "treat_as_missed") {
+        numerator += weight * 0;
+        denominator += weight;
+        warnings.push(`Required criterion not observed: ${section.id}/${criterion.id}`);
+      } else {
+        warnings.push(`Criterion not observed: ${section.id}/${criterion.id}`);
+      }
+      continue;
+    }
+
+    const score = typeof result.score === "number" ? result.score : undefined;
+    if (typeof score !== "number") continue;
+
+    numerator += weight * score;
+    denominator += weight;
+  }
+
+  if (denominator === 0) {
+    return { score: 0, warnings: [...warnings, `No scorable criteria in section: ${section.id}`] };
+  }
+
+  return { score: clamp01(numerator / denominator), warnings };
+}
+
+/**
+ * Weighted average of section scores.
+ */
+export function computeOverallScore(sections: RtassScorecardSection[]): number {
+  const numerator = sections.reduce((sum, s) => sum + s.weight * s.score, 0);
+  const denominator = sections.reduce((sum, s) => sum + s.weight, 0);
+  return denominator > 0 ? clamp01(numerator / denominator) : 0;
+}
+
+/**
+ * Recompute every section score, the overall score and the scoring
+ * warnings of a scorecard from its current criterion verdicts.
+ *
+ * Sections missing from the rubric keep their stored score. Warnings not
+ * produced by the scoring step (e.g. model warnings) are kept.
+ */
+export function recomputeScorecard(
+  scorecard: RtassScorecard,
+  rubric: RtassRubricTemplate,
+): RtassScorecard {
+  const rubricSectionById = new Map(rubric.sections.map((s) => [s.id, s]));
+  const warnings = (scorecard.warnings ?? []).filter(
+    (w) => !SCORING_WARNING_PREFIXES.some((prefix) => w.startsWith(prefix)),
+  );
+
+  const sections = scorecard.sections.map((section) => {
+    const rubricSection = rubricSectionById.get(section.sectionId);
+    if (!rubricSection) return section;
+
+    const { score, warnings: sectionWarnings } = computeSectionScore({
+      rubric,
+      section: rubricSection,
+      criteriaResults: section.criteria,
+    });
+    warnings.push(...sectionWarnings);
+
+    return { ...section, score, status: statusFromScore(score, rubric) };
+  });
+
+  const overallScore = computeOverallScore(sections);
+
+  return {
+    ...scorecard,
+    overall: {
+      ...scorecard.overall,
+      score: overallScore,
+      status: statusFromScore(overallScore, rubric),
+    },
+    sections,
+    warnings: warnings.length > 0 ? Array.from(new Set(warnings)) : undefined,
+  };
+}
+
+/**
+ * Apply a trainer override to one criterion and rescore the scorecard.
+ *
+ * The model's original assessment is kept on the criterion the first time it
+ * is overridden, and the change is appended to `scorecard.edits`.
+ *
+ * @throws {Error} If the section or criterion is not on the scorecard
+ */
+export function applyCriterionEdit(
+  scorecard: RtassScorecard,
+  rubric: RtassRubricTemplate,
+  edit: {
+    sectionId: string;
+    criterionId: string;
+    assessment: RtassCriterionAssessment;
+    reason: string;
+    editedBy: string;
+  },
+): RtassScorecard {
+  const section = scorecard.sections.find((s) => s.sectionId === edit.sectionId);
+  const criterion = section?.criteria.find((c) => c.criterionId === edit.criterionId);
+  if (!section || !criterion) {
+    throw new Error(`Criterion not found: ${edit.sectionId}/${edit.criterionId}`);
+  }
+
+  const before: RtassCriterionAssessment = {
+    verdict: criterion.verdict,
+    score: criterion.score,
+    evidence: criterion.evidence,
+  };
+  const after: RtassCriterionAssessment = {
+    verdict: edit.assessment.verdict,
+    score: verdictToScore(edit.assessment.verdict, edit.assessment.score),
+    evidence: edit.assessment.evidence,
+  };
+
+  const updated: RtassScorecardCriterion = {
+    ...criterion,
+    ...after,
+    aiAssessment: criterion.aiAssessment ?? {
+      ...before,
+      rationale: criterion.rationale,
+      confidence: criterion.confidence,
+    },
+  };
+
+  const edited: RtassScorecard = {
+    ...scorecard,
+    sections: scorecard.sections.map((s) =>
+      s.sectionId === edit.sectionId
+        ? {
+            ...s,
+            criteria: s.criteria.map((c) =>
+              c.criterionId === edit.criterionId ? updated : c,
+            ),
+          }
+        : s,
+    ),
+    edits: [
+      ...(scorecard.edits ?? []),
+      {
+        id: crypto.randomUUID(),
+        sectionId: edit.sectionId,
+        criterionId: edit.criterionId,
+        editedBy: edit.editedBy,
+        editedAt: new Date(),
+        before,
+        after,
+        reason: edit.reason,
+      },
+    ],
+  };
+
+  return recomputeScorecard(edited, rubric);
+}
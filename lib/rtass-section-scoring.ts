@@ -0,0 +1,356 @@
+/**
+ * RTASS Section Scoring
+ *
+ * Request schemas, the section prompt and the model call that score one
+ * rubric section against a transcript. Shared by POST /api/rtass/score
+ * (every section, optionally streamed) and POST /api/rtass/score/section
+ * (one section) so both build the same prompt and grade timing the same way.
+ */
+
+import { z } from "zod";
+import type OpenAI from "openai";
+import {
+  completionTokenLimit,
+  extractJsonText,
+  jsonResponseFormat,
+  withAbortSignal,
+  type LlmProvider,
+} from "@/lib/llm-providers";
+import { formatTranscriptWithTimestamps } from "@/lib/analysis-strategies";
+import { applyCadTiming } from "@/lib/rtass-cad-timing";
+import { computeSectionScore, statusFromScore, verdictToScore } from "@/lib/rtass-scoring";
+import { applyRadioTiming } from "@/lib/rtass-timing";
+import type { VisinetEvent } from "@/lib/visinet-parser";
+import type { TranscriptSegment } from "@/types/transcript";
+import type {
+  RtassRubricTemplate,
+  RtassScorecardCriterion,
+  RtassScorecardSection,
+  RtassVerdict,
+} from "@/types/rtass";
+
+const verdictSchema = z.enum([
+  "met",
+  "missed",
+  "partial",
+  "not_observed",
+  "not_applicable",
+]);
+
+const evidenceSchema = z.object({
+  quote: z.string().min(1),
+  start: z.number().nonnegative(),
+  end: z.number().nonnegative().optional(),
+  speaker: z.string().min(1).optional(),
+});
+
+const observedEventSchema = z.object({
+  name: z.string().min(1),
+  at: z.number().nonnegative(),
+});
+
+const sectionResponseSchema = z.object({
+  sectionId: z.string().min(1),
+  criteria: z.array(
+    z.object({
+      criterionId: z.string().min(1),
+      verdict: verdictSchema,
+      score: z.number().min(0).max(1).optional(),
+      confidence: z.number().min(0).max(1),
+      rationale: z.string().min(1),
+      evidence: z.array(evidenceSchema),
+      observedEvents: z.array(observedEventSchema).optional(),
+    })
+  ),
+  sectionNotes: z.string().optional(),
+  warnings: z.array(z.string()).optional(),
+});
+
+export const rtassTranscriptSchema = z.object({
+  text: z.string().min(1),
+  segments: z.array(
+    z.object({
+      index: z.number().optional(),
+      start: z.number(),
+      end: z.number(),
+      text: z.string(),
+      speaker: z.string().optional(),
+    })
+  ),
+});
+
+export const rtassCadEventSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  at: z.coerce.date(),
+  source: z.enum(["timestamp", "unit", "custom"]),
+  unit: z.string().optional(),
+}) satisfies z.ZodType<VisinetEvent>;
+
+export const rtassRubricSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  version: z.string().min(1),
+  jurisdiction: z.string().min(1).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date().optional(),
+  sections: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        title: z.string().min(1),
+        description: z.string().min(1),
+        weight: z.number().min(0).max(1),
+        criteria: z.array(
+          z.object({
+            id: z.string().min(1),
+            title: z.string().min(1),
+            description: z.string().min(1),
+            required: z.boolean(),
+            weight: z.number().min(0).max(1).optional(),
+            type: z.enum(["boolean", "graded", "enum", "timing"]),
+            grading: z
+              .object({
+                minScore: z.number().optional(),
+                maxScore: z.number().optional(),
+              })
+              .optional(),
+            enumOptions: z.array(z.string().min(1)).optional(),
+            timing: z
+              .object({
+                startEvent: z.string().min(1),
+                endEvent: z.string().min(1),
+                targetSeconds: z.number().nonnegative().optional(),
+                maxSeconds: z.number().nonnegative().optional(),
+              })
+              .optional(),
+            evidenceRules: z
+              .object({
+                minEvidence: z.number().int().min(0).max(10),
+                requireVerbatimQuote: z.boolean().optional(),
+              })
+              .optional(),
+            notes: z.string().optional(),
+          })
+        ),
+      })
+    )
+    .min(1),
+  scoring: z.object({
+    method: z.literal("weighted_average"),
+    thresholds: z.object({
+      pass: z.number().min(0).max(1),
+      needsImprovement: z.number().min(0).max(1),
+    }),
+    requiredNotObservedBehavior: z.enum(["treat_as_missed", "exclude_with_warning"]),
+  }),
+  llm: z.object({
+    concurrency: z.number().int().min(1).max(10),
+    maxRetries: z.number().int().min(0).max(5),
+    evidenceQuoteMaxChars: z.number().int().min(40).max(600),
+  }),
+}) satisfies z.ZodType<RtassRubricTemplate>;
+
+/**
+ * Request body fields common to both scoring routes
+ */
+export const rtassScoreRequestSchema = z.object({
+  transcriptId: z.string().min(1),
+  transcript: rtassTranscriptSchema,
+  rubric: rtassRubricSchema,
+  supplementalMaterial: z.string().optional(),
+  cadEvents: z.array(rtassCadEventSchema).optional(),
+});
+
+export type RtassScoreRequest = z.infer<typeof rtassScoreRequestSchema>;
+
+/**
+ * A scored rubric section and the warnings raised while scoring it
+ */
+export interface ScoredRtassSection {
+  section: RtassScorecardSection;
+  warnings: string[];
+}
+
+function buildSectionPrompt(params: {
+  rubric: RtassRubricTemplate;
+  section: RtassRubricTemplate["sections"][number];
+  transcript: string;
+  supplementalMaterial?: string;
+}): string {
+  const { rubric, section, transcript, supplementalMaterial } = params;
+
+  const criteriaJson = section.criteria.map((c) => ({
+    id: c.id,
+    title: c.title,
+    description: c.description,
+    required: c.required,
+    type: c.type,
+    enumOptions: c.enumOptions,
+    timing: c.timing,
+    notes: c.notes,
+  }));
+
+  return `You are an expert fireground radio traffic evaluator for Austin Fire Department (AFD) Training Division.
+
+Your job is to score radio communications against a rubric section.
+
+Hard rules:
+- Do NOT speculate. If a criterion cannot be supported by radio traffic, return verdict "not_observed".
+- If a criterion is conditional and does not apply, return verdict "not_applicable".
+- Provide short verbatim evidence quotes with timestamps whenever possible.
+- The transcript uses [MM:SS] markers at the start of each line. Convert them to total seconds for evidence.start.
+- For "timing" criteria, report observedEvents using the exact timing.startEvent and timing.endEvent names, with "at" set to the total seconds of the transmission where each event is heard. Elapsed time and the verdict are computed from these events.
+- Respond with JSON only.
+
+Rubric: ${rubric.name} (v${rubric.version})
+Section: ${section.title} (${section.id})
+
+Criteria (evaluate each one):
+${JSON.stringify(criteriaJson, null, 2)}
+
+Output JSON schema (respond exactly in this shape):
+\`\`\`json
+{
+  "sectionId": "${section.id}",
+  "criteria": [
+    {
+      "criterionId": "criterion-id",
+      "verdict": "met|missed|partial|not_observed|not_applicable",
+      "score": 0,
+      "confidence": 0.0,
+      "rationale": "1-3 sentences.",
+      "evidence": [
+        { "quote": "short verbatim quote", "start": 123, "end": 130, "speaker": "optional" }
+      ],
+      "observedEvents": [
+        { "name": "optional_event_name", "at": 123 }
+      ]
+    }
+  ],
+  "sectionNotes": "optional",
+  "warnings": ["optional"]
+}
+\`\`\`
+
+${supplementalMaterial ? `Supplemental material (policy excerpts / notes). Use as background only; do not cite it as evidence:\n\n${supplementalMaterial}\n\n` : ""}Transcript:
+
+${transcript}
+`;
+}
+
+function parseSectionResponse(raw: string): z.infer<typeof sectionResponseSchema> {
+  const parsed = JSON.parse(extractJsonText(raw)) as unknown;
+  return sectionResponseSchema.parse(parsed);
+}
+
+/**
+ * Score one rubric section, retrying up to the rubric's `llm.maxRetries`.
+ * Timing criteria are graded in code from the validated radio timestamps,
+ * then from the CAD time stamps when given. Aborting `signal` cancels the
+ * in-flight model call without retrying.
+ */
+export async function scoreRtassSection(params: {
+  request: RtassScoreRequest;
+  section: RtassRubricTemplate["sections"][number];
+  provider: LlmProvider;
+  client: OpenAI;
+  deployment: string;
+  signal?: AbortSignal;
+}): Promise<ScoredRtassSection> {
+  const { request, section, provider, client, deployment, signal } = params;
+  const { transcript, rubric, supplementalMaterial, cadEvents } = request;
+  const segments = transcript.segments as TranscriptSegment[];
+
+  const openaiClient = withAbortSignal(client, signal);
+  const maxRetries = Math.max(0, Math.min(5, rubric.llm.maxRetries));
+  const prompt = buildSectionPrompt({
+    rubric,
+    section,
+    transcript: formatTranscriptWithTimestamps(segments),
+    supplementalMaterial,
+  });
+
+  let response: z.infer<typeof sectionResponseSchema> | undefined;
+  let lastError: Error | undefined;
+  for (let attempt = 0; attempt <= maxRetries && !response; attempt++) {
+    try {
+      const res = await openaiClient.chat.completions.create({
+        model: deployment,
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are an expert fireground radio traffic evaluator for Austin Fire Department (AFD) Training Division. " +
+              "Do not speculate. Always respond with valid JSON only.",
+          },
+          { role: "user", content: prompt },
+        ],
+        ...jsonResponseFormat(deployment),
+        ...completionTokenLimit(provider.provider, 8000),
+      });
+
+      const content = res.choices[0].message.content;
+      if (!content) {
+        throw new Error("Empty response from model");
+      }
+
+      response = parseSectionResponse(content);
+    } catch (error) {
+      // Cancelled: retrying would only be cancelled again
+      if (signal?.aborted) throw error;
+      lastError = error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  if (!response) {
+    throw lastError ?? new Error("Unknown scoring error");
+  }
+
+  const criteriaById = new Map(section.criteria.map((c) => [c.id, c]));
+  const criteriaResults: RtassScorecardCriterion[] = response.criteria.map((c) => {
+    const rubricCriterion = criteriaById.get(c.criterionId);
+    const verdict = c.verdict as RtassVerdict;
+
+    const score = verdictToScore(verdict, c.score);
+
+    const result: RtassScorecardCriterion = {
+      criterionId: c.criterionId,
+      title: rubricCriterion?.title ?? c.criterionId,
+      verdict,
+      score,
+      confidence: c.confidence,
+      rationale: c.rationale,
+      evidence: c.evidence,
+      observedEvents: c.observedEvents,
+    };
+
+    // Timing criteria are graded in code: radio timestamps first,
+    // then CAD time stamps (ground truth) when both events resolve
+    return applyCadTiming(
+      applyRadioTiming(result, rubricCriterion, segments),
+      rubricCriterion,
+      cadEvents ?? [],
+    );
+  });
+
+  const { score, warnings: sectionWarnings } = computeSectionScore({
+    rubric,
+    section,
+    criteriaResults,
+  });
+
+  return {
+    section: {
+      sectionId: section.id,
+      title: section.title,
+      weight: section.weight,
+      score,
+      status: statusFromScore(score, rubric),
+      criteria: criteriaResults,
+    },
+    warnings: [...(response.warnings ?? []), ...sectionWarnings],
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * RTASS Timing Engine
+ *
+ * Scores `type: "timing"` criteria deterministically. The model only reports
+ * when events happened (`observedEvents`); this module validates those times
+ * against the transcript segments, computes the elapsed time and derives the
+ * verdict and score from the criterion's `targetSeconds` / `maxSeconds`, so
+ * two runs that find the same events always agree.
+ */
+
+import type {
+  RtassCriterion,
+  RtassObservedEvent,
+  RtassScorecardCriterion,
+  RtassVerdict,
+} from "@/types/rtass";
+import type { TranscriptSegment } from "@/types/transcript";
+
+/**
+ * How far (in seconds) an observed event may sit from the nearest segment
+ * start and still be accepted.
+ */
+const SEGMENT_SNAP_TOLERANCE_SECONDS = 5;
+
+type TimingConfig = NonNullable<RtassCriterion["timing"]>;
+
+/**
+ * An observed event validated against the transcript.
+ */
+export interface ResolvedTimingEvent {
+  /** Event name as reported by the model */
+  name: string;
+  /** Start of the transmission the event was heard in (seconds) */
+  at: number;
+  /** Position of that transmission in the segment list */
+  segmentIndex: number;
+}
+
+function normalizeEventName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Format seconds as HH:MM:SS for rationales.
+ */
+function formatClock(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  return [hours, minutes, secs]
+    .map((n) => n.toString().padStart(2, "0"))
+    .join(":");
+}
+
+/**
+ * Human-readable form of a rubric event name ("first_unit_arrival" →
+ * "first unit arrival").
+ */
+function describeEvent(name: string): string {
+  return name.replace(/_/g, " ");
+}
+
+/**
+ * Grade an elapsed time against a timing criterion's target and maximum.
+ *
+ * - At or under the target (or the maximum when there is no target): met
+ * - Between target and maximum: partial, scored linearly from 1 down to 0
+ * - Over the maximum (or over the target when there is no maximum): missed
+ *
+ * @returns Verdict and score, or null if the criterion has no thresholds
+ */
+export function gradeElapsedTime(
+  elapsedSeconds: number,
+  timing: TimingConfig,
+): { verdict: RtassVerdict; score: number } | null {
+  const { targetSeconds, maxSeconds } = timing;
+  const limit = targetSeconds ?? maxSeconds;
+  if (limit === undefined) return null;
+
+  if (elapsedSeconds <= limit) return { verdict: "met", score: 1 };
+
+  if (
+    targetSeconds !== undefined &&
+    maxSeconds !== undefined &&
+    maxSeconds > targetSeconds &&
+    elapsedSeconds <= maxSeconds
+  ) {
+    const score = 1 - (elapsedSeconds - targetSeconds) / (maxSeconds - targetSeconds);
+    return { verdict: "partial", score: Math.round(score * 100) / 100 };
+  }
+
+  return { verdict: "missed", score: 0 };
+}
+
+/**
+ * Describe the thresholds of a timing criterion for rationales.
+ */
+export function describeTimingTarget(timing: TimingConfig): string {
+  const parts: string[] = [];
+  if (timing.targetSeconds !== undefined) parts.push(`target ${timing.targetSeconds}s`);
+  if (
+    timing.maxSeconds !== undefined &&
+    timing.maxSeconds !== timing.targetSeconds
+  ) {
+    parts.push(`max ${timing.maxSeconds}s`);
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Find the transmission an event time refers to.
+ *
+ * Accepts times inside a segment, or within a few seconds of a segment
+ * start, and snaps them to that segment's start.
+ *
+ * @returns Index into `segments`, or null if the time matches no transmission
+ */
+function findTransmission(at: number, segments: TranscriptSegment[]): number | null {
+  const containing = segments.findIndex((s) => at >= s.start && at <= s.end);
+  if (containing !== -1) return containing;
+
+  let nearest: number | null = null;
+  let nearestDistance = Infinity;
+  segments.forEach((segment, idx) => {
+    const distance = Math.abs(segment.start - at);
+    if (distance < nearestDistance) {
+      nearest = idx;
+      nearestDistance = distance;
+    }
+  });
+
+  return nearestDistance <= SEGMENT_SNAP_TOLERANCE_SECONDS ? nearest : null;
+}
+
+/**
+ * Resolve a rubric event from the model's observed events.
+ *
+ * Matches names case- and punctuation-insensitively (falling back to names
+ * that contain the rubric event name), discards times that do not line up
+ * with a transmission, and returns the earliest valid occurrence (at or
+ * after `notBefore`, when given).
+ *
+ * @param eventName - Rubric event name (e.g. "first_unit_arrival")
+ * @param observedEvents - Events reported by the model
+ * @param segments - Transcript segments
+ * @param notBefore - Earliest time accepted, e.g. the resolved start event
+ * @returns The validated event, or null if none can be confirmed
+ */
+export function resolveObservedEvent(
+  eventName: string,
+  observedEvents: RtassObservedEvent[],
+  segments: TranscriptSegment[],
+  notBefore = -Infinity,
+): ResolvedTimingEvent | null {
+  const key = normalizeEventName(eventName);
+  const exact = observedEvents.filter((e) => normalizeEventName(e.name) === key);
+  const candidates =
+    exact.length > 0
+      ? exact
+      : observedEvents.filter((e) => normalizeEventName(e.name).includes(key));
+
+  const resolved = candidates
+    .map((event) => {
+      const idx = findTransmission(event.at, segments);
+      return idx === null
+        ? null
+        : { name: event.name, at: segments[idx].start, segmentIndex: idx };
+    })
+    .filter((e): e is ResolvedTimingEvent => e !== null && e.at >= notBefore)
+    .sort((a, b) => a.at - b.at);
+
+  return resolved[0] ?? null;
+}
+
+/**
+ * Score a timing criterion from the radio traffic.
+ *
+ * Replaces the model's verdict, score and rationale with values computed
+ * from the validated start event and the first validated end event at or
+ * after it, so a premature mention of the end event is skipped. When either
+ * event cannot be confirmed against the transcript (or every end precedes
+ * the start), the criterion is marked not_observed rather than trusting the
+ * model. Results the model marked not_applicable, and non-timing criteria,
+ * are returned unchanged.
+ *
+ * @param result - Criterion result from the model
+ * @param criterion - Rubric criterion definition
+ * @param segments - Transcript segments the model was given
+ * @returns Updated criterion result
+ */
+export function applyRadioTiming(
+  result: RtassScorecardCriterion,
+  criterion: RtassCriterion | undefined,
+  segments: TranscriptSegment[],
+): RtassScorecardCriterion {
+  const timing = criterion?.timing;
+  if (!timing || criterion?.type !== "timing") return result;
+  if (result.verdict === "not_applicable") return result;
+
+  const observed = result.observedEvents ?? [];
+  const start = resolveObservedEvent(timing.startEvent, observed, segments);
+  const anyEnd = resolveObservedEvent(timing.endEvent, observed, segments);
+  const end = start && anyEnd
+    ? resolveObservedEvent(timing.endEvent, observed, segments, start.at)
+    : anyEnd;
+
+  if (!start || !end) {
+    const missing = [
+      !start && describeEvent(timing.startEvent),
+      !anyEnd && describeEvent(timing.endEvent),
+    ].filter(Boolean);
+    const reason =
+      missing.length > 0
+        ? `no radio timestamp confirmed for ${missing.join(" and ")}`
+        : `${describeEvent(timing.endEvent)} precedes ${describeEvent(timing.startEvent)}`;
+
+    return {
+      ...result,
+      verdict: "not_observed",
+      score: undefined,
+      rationale: `Timing not verifiable: ${reason}.`,
+      timing: undefined,
+    };
+  }
+
+  const elapsedSeconds = Math.round(end.at - start.at);
+  const grade = gradeElapsedTime(elapsedSeconds, timing);
+  if (!grade) return result;
+
+  const target = describeTimingTarget(timing);
+  return {
+    ...result,
+    verdict: grade.verdict,
+    score: grade.score,
+    rationale:
+      `${describeEvent(timing.startEvent)} ${formatClock(start.at)} → ` +
+      `${describeEvent(timing.endEvent)} ${formatClock(end.at)} = ${elapsedSeconds}s` +
+      `${target ? `, ${target}` : ""}.`,
+    observedEvents: [
+      { name: timing.startEvent, at: start.at },
+      { name: timing.endEvent, at: end.at },
+    ],
+    timing: {
+      startEvent: timing.startEvent,
+      endEvent: timing.endEvent,
+      elapsedSeconds,
+      source: "radio",
+    },
+  };
+}
@@ -0,0 +1,364 @@
+/**
+ * RTASS Trends
+ *
+ * Aggregates saved scorecards across incidents for the training-officer
+ * dashboard: pass / needs-improvement / fail rates per rubric, section and
+ * criterion by month, and the most frequently missed criteria.
+ */
+
+import { format } from "date-fns";
+import { extractVisinetEvents } from "@/lib/visinet-parser";
+import type { Incident } from "@/types/incident";
+import type { RtassScorecard, RtassVerdict } from "@/types/rtass";
+import type { PersistedSupplementalDocument } from "@/types/supplemental";
+
+/**
+ * A scorecard with the incident context used for filtering and bucketing.
+ */
+export interface RtassTrendRecord {
+  scorecard: RtassScorecard;
+  /** When the incident happened (falls back to when it was scored) */
+  occurredAt: Date;
+  department?: string;
+  /** Visinet battalion (e.g. "BC04") */
+  battalion?: string;
+}
+
+export interface RtassTrendFilters {
+  rubricTemplateId?: string | null;
+  department?: string | null;
+  battalion?: string | null;
+  /** Inclusive start of the date range */
+  from?: Date | null;
+  /** Inclusive end of the date range */
+  to?: Date | null;
+}
+
+export interface RtassStatusCounts {
+  pass: number;
+  needsImprovement: number;
+  fail: number;
+  total: number;
+}
+
+export interface RtassTrendPoint {
+  /** Month bucket, "yyyy-MM" */
+  period: string;
+  counts: RtassStatusCounts;
+}
+
+export interface RtassStatusTrend {
+  id: string;
+  title: string;
+  counts: RtassStatusCounts;
+  points: RtassTrendPoint[];
+}
+
+export interface RtassSectionTrend extends RtassStatusTrend {
+  sectionId: string;
+}
+
+export interface RtassCriterionTrend extends RtassStatusTrend {
+  sectionId: string;
+  criterionId: string;
+  /** Scorecards where the criterion was missed */
+  missed: number;
+  /** Scorecards where the criterion was not heard on the radio */
+  notObserved: number;
+  /** (missed + notObserved) / counts.total */
+  missRate: number;
+}
+
+export type RtassTrendStatus = "pass" | "needsImprovement" | "fail";
+
+const SCORECARD_STATUS: Record<RtassScorecard["overall"]["status"], RtassTrendStatus> = {
+  pass: "pass",
+  needs_improvement: "needsImprovement",
+  fail: "fail",
+};
+
+/**
+ * Criterion verdicts as statuses. Not observed counts against the crew
+ * (the benchmark was not heard on the radio); not applicable is excluded.
+ */
+const VERDICT_STATUS: Record<RtassVerdict, RtassTrendStatus | null> = {
+  met: "pass",
+  partial: "needsImprovement",
+  missed: "fail",
+  not_observed: "fail",
+  not_applicable: null,
+};
+
+function emptyCounts(): RtassStatusCounts {
+  return { pass: 0, needsImprovement: 0, fail: 0, total: 0 };
+}
+
+/**
+ * Month bucket for a date ("2026-01").
+ */
+export function trendPeriod(date: Date): string {
+  return format(date, "yyyy-MM");
+}
+
+/**
+ * Share of a status in a set of counts (0 when empty).
+ */
+export function statusRate(counts: RtassStatusCounts, status: RtassTrendStatus): number {
+  return counts.total > 0 ? counts[status] / counts.total : 0;
+}
+
+/**
+ * Keep only the most recent scorecard for each transcript and rubric, so
+ * re-running a rubric does not count an incident twice.
+ */
+export function latestScorecards(scorecards: RtassScorecard[]): RtassScorecard[] {
+  const latest = new Map<string, RtassScorecard>();
+  for (const scorecard of scorecards) {
+    const key = `${scorecard.transcriptId}:${scorecard.rubricTemplateId}`;
+    const existing = latest.get(key);
+    if (
+      !existing ||
+      new Date(scorecard.createdAt).getTime() > new Date(existing.createdAt).getTime()
+    ) {
+      latest.set(key, scorecard);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+/**
+ * Incident context of a transcript.
+ */
+export interface RtassIncidentContext {
+  incident?: Incident;
+  /** When the incident happened, if known */
+  occurredAt?: Date;
+  department?: string;
+  /** Visinet battalion (e.g. "BC04") */
+  battalion?: string;
+}
+
+/**
+ * Create a lookup from transcript ID to incident context.
+ *
+ * Department comes from the incident, falling back to the transcript.
+ * Battalion and, when the incident has no date, the incident time come from
+ * a Visinet report attached to the transcript or another channel of its
+ * incident.
+ *
+ * @param params.incidents - All incidents
+ * @param params.departments - Department by transcript ID
+ * @param params.visinetDocuments - Supplemental documents with Visinet data
+ */
+export function createIncidentContextResolver(params: {
+  incidents: Incident[];
+  departments: Map<string, string>;
+  visinetDocuments: PersistedSupplementalDocument[];
+}): (transcriptId: string) => RtassIncidentContext {
+  const { incidents, departments, visinetDocuments } = params;
+
+  const incidentByTranscript = new Map<string, Incident>();
+  for (const incident of incidents) {
+    for (const transcriptId of incident.transcriptIds) {
+      incidentByTranscript.set(transcriptId, incident);
+    }
+  }
+  const reportByTranscript = new Map(
+    visinetDocuments
+      .filter((doc) => doc.visinetData)
+      .map((doc) => [doc.transcriptId, doc.visinetData!]),
+  );
+
+  return (transcriptId) => {
+    const incident = incidentByTranscript.get(transcriptId);
+    const transcriptIds = incident?.transcriptIds ?? [transcriptId];
+    const report =
+      reportByTranscript.get(transcriptId) ??
+      transcriptIds.map((id) => reportByTranscript.get(id)).find(Boolean);
+
+    const occurredAt =
+      incident?.occurredAt ?? (report ? extractVisinetEvents(report)[0]?.at : undefined);
+
+    return {
+      incident,
+      occurredAt: occurredAt ? new Date(occurredAt) : undefined,
+      department: incident?.department || departments.get(transcriptId),
+      battalion: report?.incidentInfo.battalion || undefined,
+    };
+  };
+}
+
+/**
+ * Attach incident context to scorecards (see createIncidentContextResolver).
+ * Scorecards without an incident time are dated by when they were scored.
+ *
+ * @param params.scorecards - Scorecards to include (see latestScorecards())
+ */
+export function buildTrendRecords(params: {
+  scorecards: RtassScorecard[];
+  incidents: Incident[];
+  departments: Map<string, string>;
+  visinetDocuments: PersistedSupplementalDocument[];
+}): RtassTrendRecord[] {
+  const resolveContext = createIncidentContextResolver(params);
+
+  return params.scorecards.map((scorecard) => {
+    const context = resolveContext(scorecard.transcriptId);
+    return {
+      scorecard,
+      occurredAt: context.occurredAt ?? new Date(scorecard.createdAt),
+      department: context.department,
+      battalion: context.battalion,
+    };
+  });
+}
+
+export function filterTrendRecords(
+  records: RtassTrendRecord[],
+  filters: RtassTrendFilters,
+): RtassTrendRecord[] {
+  const from = filters.from?.getTime();
+  const to = filters.to?.getTime();
+
+  return records.filter((r) => {
+    if (filters.rubricTemplateId && r.scorecard.rubricTemplateId !== filters.rubricTemplateId) {
+      return false;
+    }
+    if (filters.department && r.department !== filters.department) return false;
+    if (filters.battalion && r.battalion !== filters.battalion) return false;
+    const at = r.occurredAt.getTime();
+    if (from !== undefined && at < from) return false;
+    if (to !== undefined && at > to) return false;
+    return true;
+  });
+}
+
+/**
+ * Accumulates statuses per key, overall and per month.
+ */
+class StatusAccumulator {
+  private readonly entries = new Map<
+    string,
+    { title: string; counts: RtassStatusCounts; byPeriod: Map<string, RtassStatusCounts> }
+  >();
+
+  add(key: string, title: string, period: string, status: RtassTrendStatus): void {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { title, counts: emptyCounts(), byPeriod: new Map() };
+      this.entries.set(key, entry);
+    }
+    let periodCounts = entry.byPeriod.get(period);
+    if (!periodCounts) {
+      periodCounts = emptyCounts();
+      entry.byPeriod.set(period, periodCounts);
+    }
+    for (const counts of [entry.counts, periodCounts]) {
+      counts[status] += 1;
+      counts.total += 1;
+    }
+  }
+
+  trends(): RtassStatusTrend[] {
+    return Array.from(this.entries, ([id, entry]) => ({
+      id,
+      title: entry.title,
+      counts: entry.counts,
+      points: Array.from(entry.byPeriod, ([period, counts]) => ({ period, counts })).sort(
+        (a, b) => a.period.localeCompare(b.period),
+      ),
+    }));
+  }
+}
+
+/**
+ * Overall scorecard status by rubric.
+ *
+ * @param rubricNames - Display names by rubric template ID
+ */
+export function buildRubricTrends(
+  records: RtassTrendRecord[],
+  rubricNames: Map<string, string> = new Map(),
+): RtassStatusTrend[] {
+  const acc = new StatusAccumulator();
+  for (const { scorecard, occurredAt } of records) {
+    const id = scorecard.rubricTemplateId;
+    acc.add(
+      id,
+      rubricNames.get(id) ?? id,
+      trendPeriod(occurredAt),
+      SCORECARD_STATUS[scorecard.overall.status],
+    );
+  }
+  return acc.trends();
+}
+
+/**
+ * Section status across scorecards, in first-seen order.
+ */
+export function buildSectionTrends(records: RtassTrendRecord[]): RtassSectionTrend[] {
+  const acc = new StatusAccumulator();
+  for (const { scorecard, occurredAt } of records) {
+    const period = trendPeriod(occurredAt);
+    for (const section of scorecard.sections) {
+      acc.add(section.sectionId, section.title, period, SCORECARD_STATUS[section.status]);
+    }
+  }
+  return acc.trends().map((trend) => ({ ...trend, sectionId: trend.id }));
+}
+
+/**
+ * Criterion verdicts across scorecards, in first-seen order.
+ */
+export function buildCriterionTrends(records: RtassTrendRecord[]): RtassCriterionTrend[] {
+  const acc = new StatusAccumulator();
+  const misses = new Map<string, { sectionId: string; criterionId: string; missed: number; notObserved: number }>();
+
+  for (const { scorecard, occurredAt } of records) {
+    const period = trendPeriod(occurredAt);
+    for (const section of scorecard.sections) {
+      for (const criterion of section.criteria) {
+        const status = VERDICT_STATUS[criterion.verdict];
+        if (!status) continue;
+
+        const key = `${section.sectionId}/${criterion.criterionId}`;
+        acc.add(key, criterion.title, period, status);
+
+        const entry = misses.get(key) ?? {
+          sectionId: section.sectionId,
+          criterionId: criterion.criterionId,
+          missed: 0,
+          notObserved: 0,
+        };
+        if (criterion.verdict === "missed") entry.missed += 1;
+        if (criterion.verdict === "not_observed") entry.notObserved += 1;
+        misses.set(key, entry);
+      }
+    }
+  }
+
+  return acc.trends().map((trend) => {
+    const entry = misses.get(trend.id)!;
+    return {
+      ...trend,
+      ...entry,
+      missRate: (entry.missed + entry.notObserved) / trend.counts.total,
+    };
+  });
+}
+
+/**
+ * Criteria ordered by how often they were missed or not observed.
+ */
+export function mostMissedCriteria(
+  trends: RtassCriterionTrend[],
+  limit = 10,
+): RtassCriterionTrend[] {
+  return trends
+    .filter((t) => t.missed + t.notObserved > 0)
+    .sort(
+      (a, b) =>
+        b.missed + b.notObserved - (a.missed + a.notObserved) || b.missRate - a.missRate,
+    )
+    .slice(0, limit);
+}
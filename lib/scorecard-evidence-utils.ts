@@ -3,8 +3,10 @@
  *
  * Provides functions for mapping RTASS scorecard evidence to transcript segments.
  * Used to link rubric evaluations back to specific moments in the audio transcript.
+ * When segments carry word timestamps, evidence is narrowed to the quoted words.
  */
 
+import { findQuoteTiming, type QuoteTiming } from '@/lib/word-timing';
 import type { RtassScorecard, RtassVerdict } from '@/types/rtass';
 import type { TranscriptSegment } from '@/types/transcript';
 
@@ -33,6 +35,69 @@ export interface EvidenceMarker {
 
   /** End time (in seconds) of the evidence within the transcript */
   segmentEnd: number;
+
+  /** Timing of the quoted words, when the segment has word timestamps */
+  quoteTiming?: QuoteTiming;
+}
+
+/** Segments either side of the evidence timestamp searched for the quote */
+const QUOTE_SEARCH_RADIUS = 2;
+
+/** Lowercased words of a string, for matching quotes against segment text */
+function normalizeQuoteText(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Locate an evidence quote near its timestamp.
+ *
+ * Model-reported evidence timestamps often point at a neighbouring segment, so
+ * the segment at the timestamp and up to two segments either side are searched
+ * for the quote, nearest first. The quote is matched against word timestamps
+ * when the segment has them (giving the time of the quoted words), and against
+ * the segment text otherwise.
+ *
+ * @param quote - Verbatim quote from the evidence
+ * @param timestamp - Evidence start time in seconds
+ * @param segments - Array of transcript segments sorted by start time
+ * @returns The segment containing the quote (the segment at the timestamp when
+ * the quote is not found nearby) and the quote timing, or null when the
+ * timestamp is outside the transcript
+ */
+export function locateEvidenceQuote(
+  quote: string,
+  timestamp: number,
+  segments: TranscriptSegment[]
+): { segmentIndex: number; quoteTiming?: QuoteTiming } | null {
+  const segmentIndex = findSegmentForTimestamp(timestamp, segments);
+  if (segmentIndex === null) {
+    return null;
+  }
+
+  const target = normalizeQuoteText(quote);
+  if (!target) {
+    return { segmentIndex };
+  }
+
+  for (let distance = 0; distance <= QUOTE_SEARCH_RADIUS; distance++) {
+    const candidates = distance === 0
+      ? [segmentIndex]
+      : [segmentIndex + distance, segmentIndex - distance];
+    for (const index of candidates) {
+      const segment = segments[index];
+      if (!segment) continue;
+
+      const quoteTiming = findQuoteTiming(segment, quote);
+      if (quoteTiming) {
+        return { segmentIndex: index, quoteTiming };
+      }
+      if (normalizeQuoteText(segment.text).includes(target)) {
+        return { segmentIndex: index };
+      }
+    }
+  }
+
+  return { segmentIndex };
 }
 
 /**
@@ -116,7 +181,8 @@ export function findSegmentForTimestamp(
  * Map all evidence from a scorecard to their corresponding transcript segments.
  *
  * Iterates through all sections and criteria in the scorecard, extracting
- * evidence and linking it to the transcript segments by timestamp.
+ * evidence and linking it to the transcript segments by timestamp and quote
+ * (see locateEvidenceQuote).
  *
  * @param scorecard - RTASS scorecard containing evaluated criteria with evidence
  * @param segments - Array of transcript segments sorted by start time
@@ -148,13 +214,14 @@ export function mapEvidenceToSegments(
       }
 
       for (const evidence of criterion.evidence) {
-        const segmentIndex = findSegmentForTimestamp(evidence.start, segments);
+        const located = locateEvidenceQuote(evidence.quote, evidence.start, segments);
 
-        if (segmentIndex === null) {
+        if (located === null) {
           // Evidence timestamp doesn't match any segment - skip
           continue;
         }
 
+        const { segmentIndex, quoteTiming } = located;
         const segment = segments[segmentIndex];
         const marker: EvidenceMarker = {
           criterionId: criterion.criterionId,
@@ -164,6 +231,7 @@ export function mapEvidenceToSegments(
           segmentIndex,
           segmentStart: segment.start,
           segmentEnd: segment.end,
+          ...(quoteTiming && { quoteTiming }),
         };
 
         const existing = evidenceMap.get(segmentIndex);
@@ -0,0 +1,362 @@
+/**
+ * Speaker Map
+ *
+ * Applies and edits reviewer corrections to diarized speaker labels. The
+ * transcription service returns generic labels ("A", "speaker_0"); a
+ * per-transcript TranscriptSpeakerMap renames them, merges labels that are
+ * really the same radio, and splits segments off into a new speaker.
+ *
+ * The stored segments are never rewritten. Views, exports, chat and scoring
+ * read the transcript through applySpeakerMap() instead.
+ */
+
+import type { VisinetReport } from "@/lib/visinet-parser";
+import { detectUnitMention, normalizeUnitLabel } from "@/lib/unit-attribution";
+import type {
+  Transcript,
+  TranscriptSegment,
+  TranscriptSpeakerMap,
+} from "@/types/transcript";
+import type { RtassScorecard } from "@/types/rtass";
+
+/**
+ * A speaker as shown in the speaker map editor.
+ */
+export interface SpeakerEntry {
+  /** Diarized label (after merges) */
+  label: string;
+  /** Display name, or the label when not renamed */
+  name: string;
+  /** Segments attributed to this speaker */
+  segmentCount: number;
+  /** Start of the speaker's first segment, in seconds */
+  firstStart: number;
+  /** Labels merged into this speaker */
+  mergedLabels: string[];
+}
+
+/**
+ * A suggested display name for a speaker.
+ */
+export interface SpeakerSuggestion {
+  label: string;
+  name: string;
+  /** Transmissions in which the speaker identified as this unit */
+  count: number;
+  /** Whether the unit is assigned to the incident in CAD */
+  onCad: boolean;
+  /** Crew listed for the unit in CAD */
+  crew: string[];
+}
+
+/** Create an empty speaker map */
+export function createSpeakerMap(): TranscriptSpeakerMap {
+  return { names: {} };
+}
+
+/**
+ * Follow merges to the label a speaker now belongs to.
+ */
+export function canonicalSpeakerLabel(
+  label: string,
+  map: TranscriptSpeakerMap | undefined,
+): string {
+  let current = label;
+  const seen = new Set<string>();
+  while (map?.merges?.[current] && !seen.has(current)) {
+    seen.add(current);
+    current = map.merges[current];
+  }
+  return current;
+}
+
+/**
+ * Diarized label of a segment after splits and merges.
+ */
+export function resolveSegmentLabel(
+  segment: TranscriptSegment,
+  map: TranscriptSpeakerMap | undefined,
+): string | undefined {
+  const label = map?.segments?.[segment.index] ?? segment.speaker;
+  return label ? canonicalSpeakerLabel(label, map) : undefined;
+}
+
+/**
+ * Display name of a segment's speaker.
+ *
+ * @returns The mapped name, the diarized label when unmapped, or undefined
+ *   when the segment has no speaker
+ */
+export function resolveSegmentSpeaker(
+  segment: TranscriptSegment,
+  map: TranscriptSpeakerMap | undefined,
+): string | undefined {
+  const label = resolveSegmentLabel(segment, map);
+  return label ? (map?.names[label] ?? label) : undefined;
+}
+
+/**
+ * Return the transcript with speaker names applied to its segments.
+ *
+ * Transcripts without a speaker map are returned unchanged.
+ */
+export function applySpeakerMap(transcript: Transcript): Transcript {
+  const map = transcript.speakerMap;
+  if (!map) return transcript;
+
+  return {
+    ...transcript,
+    segments: transcript.segments.map((segment) => {
+      const speaker = resolveSegmentSpeaker(segment, map);
+      return speaker === segment.speaker ? segment : { ...segment, speaker };
+    }),
+  };
+}
+
+/**
+ * Apply renames and merges to the speakers quoted in scorecard evidence.
+ *
+ * Scorecards generated before a speaker was renamed keep the diarized label
+ * in their evidence; this shows them with the current names.
+ */
+export function applySpeakerMapToScorecard(
+  scorecard: RtassScorecard,
+  map: TranscriptSpeakerMap | undefined,
+): RtassScorecard {
+  if (!map) return scorecard;
+
+  const rename = (speaker: string | undefined) => {
+    if (!speaker) return speaker;
+    const label = canonicalSpeakerLabel(speaker, map);
+    return map.names[label] ?? label;
+  };
+
+  return {
+    ...scorecard,
+    sections: scorecard.sections.map((section) => ({
+      ...section,
+      criteria: section.criteria.map((criterion) => ({
+        ...criterion,
+        evidence: criterion.evidence.map((e) =>
+          e.speaker ? { ...e, speaker: rename(e.speaker) } : e,
+        ),
+      })),
+    })),
+  };
+}
+
+/**
+ * List the transcript's speakers in order of first appearance.
+ */
+export function listSpeakers(transcript: Transcript): SpeakerEntry[] {
+  const map = transcript.speakerMap;
+  const entries = new Map<string, SpeakerEntry>();
+
+  for (const segment of transcript.segments) {
+    const label = resolveSegmentLabel(segment, map);
+    if (!label) continue;
+
+    const entry = entries.get(label);
+    if (entry) {
+      entry.segmentCount += 1;
+      entry.firstStart = Math.min(entry.firstStart, segment.start);
+    } else {
+      entries.set(label, {
+        label,
+        name: map?.names[label] ?? label,
+        segmentCount: 1,
+        firstStart: segment.start,
+        mergedLabels: [],
+      });
+    }
+  }
+
+  for (const merged of Object.keys(map?.merges ?? {})) {
+    entries.get(canonicalSpeakerLabel(merged, map))?.mergedLabels.push(merged);
+  }
+
+  return Array.from(entries.values()).sort((a, b) => a.firstStart - b.firstStart);
+}
+
+/**
+ * Rename a speaker. A blank name (or the label itself) clears the rename.
+ * The name is kept as typed; see trimSpeakerNames() before saving.
+ */
+export function renameSpeaker(
+  map: TranscriptSpeakerMap,
+  label: string,
+  name: string,
+): TranscriptSpeakerMap {
+  const names = { ...map.names };
+  if (!name.trim() || name.trim() === label) {
+    delete names[label];
+  } else {
+    names[label] = name;
+  }
+  return { ...map, names };
+}
+
+/**
+ * Trim whitespace left over from typing in speaker names.
+ */
+export function trimSpeakerNames(map: TranscriptSpeakerMap): TranscriptSpeakerMap {
+  return {
+    ...map,
+    names: Object.fromEntries(
+      Object.entries(map.names).map(([label, name]) => [label, name.trim()]),
+    ),
+  };
+}
+
+/**
+ * Merge one speaker into another. The merged speaker takes the target's
+ * name; its own rename is dropped.
+ */
+export function mergeSpeakers(
+  map: TranscriptSpeakerMap,
+  from: string,
+  into: string,
+): TranscriptSpeakerMap {
+  const source = canonicalSpeakerLabel(from, map);
+  const target = canonicalSpeakerLabel(into, map);
+  if (source === target) return map;
+
+  const names = { ...map.names };
+  delete names[source];
+  return { ...map, names, merges: { ...map.merges, [source]: target } };
+}
+
+/**
+ * Undo a merge, restoring the label as its own speaker.
+ */
+export function unmergeSpeaker(
+  map: TranscriptSpeakerMap,
+  label: string,
+): TranscriptSpeakerMap {
+  if (!map.merges?.[label]) return map;
+  const merges = { ...map.merges };
+  delete merges[label];
+  return { ...map, merges };
+}
+
+/**
+ * First "Speaker N" label not already used in the transcript or map.
+ */
+export function nextSpeakerLabel(transcript: Transcript): string {
+  const used = new Set<string>([
+    ...transcript.segments.flatMap((s) => (s.speaker ? [s.speaker] : [])),
+    ...Object.values(transcript.speakerMap?.segments ?? {}),
+    ...Object.keys(transcript.speakerMap?.merges ?? {}),
+  ]);
+  let n = 1;
+  while (used.has(`Speaker ${n}`)) n += 1;
+  return `Speaker ${n}`;
+}
+
+/**
+ * Move the selected segments to another speaker label, splitting them off
+ * from the speaker the diarization assigned.
+ *
+ * @param segmentIndices - Segment `index` values to move
+ * @param label - Existing or new speaker label
+ */
+export function splitSpeaker(
+  map: TranscriptSpeakerMap,
+  segmentIndices: number[],
+  label: string,
+): TranscriptSpeakerMap {
+  const segments = { ...map.segments };
+  for (const index of segmentIndices) {
+    segments[index] = label;
+  }
+  return { ...map, segments };
+}
+
+/**
+ * The unit a transmission is from, using radio protocol:
+ * "Dispatch, Engine 14 ..." (addressee, caller), "Engine 14 to Dispatch"
+ * and "Engine 14 on scene ..." all identify Engine 14. "Engine 14, go
+ * ahead" is addressed to Engine 14 and identifies no one.
+ */
+function detectCaller(text: string): string | null {
+  const opening = text.trim().split(/[.?!]/)[0];
+
+  const to = /^(.{2,30}?)\s+to\s+\S/i.exec(opening);
+  if (to) {
+    const caller = detectUnitMention(to[1]);
+    if (caller) return caller;
+  }
+
+  const [first, second] = opening.split(",").map((part) => part.trim());
+  if (second !== undefined) {
+    const addressee = detectUnitMention(first);
+    const caller = detectUnitMention(second.split(/\s+/).slice(0, 3).join(" "));
+    return addressee && caller ? caller : null;
+  }
+
+  const words = first.split(/\s+/);
+  return words.length > 2 ? detectUnitMention(words.slice(0, 2).join(" ")) : null;
+}
+
+/**
+ * Suggest a name for each speaker from the call signs it uses on the radio,
+ * checked against the units and crews assigned in the Visinet CAD report.
+ *
+ * Only speakers that identify themselves are suggested; speakers already
+ * renamed are skipped.
+ */
+export function suggestSpeakerNames(
+  transcript: Transcript,
+  report?: VisinetReport,
+): SpeakerSuggestion[] {
+  const map = transcript.speakerMap;
+  const counts = new Map<string, Map<string, number>>();
+
+  for (const segment of transcript.segments) {
+    const label = resolveSegmentLabel(segment, map);
+    if (!label || map?.names[label]) continue;
+
+    const caller = detectCaller(segment.text);
+    if (!caller) continue;
+
+    const byName = counts.get(label) ?? new Map<string, number>();
+    byName.set(caller, (byName.get(caller) ?? 0) + 1);
+    counts.set(label, byName);
+  }
+
+  const cadUnits = new Set(
+    (report?.unitsAssigned ?? []).map((u) => normalizeUnitLabel(u.unit) ?? u.unit),
+  );
+  const crewByUnit = new Map(
+    (report?.personnel ?? []).map((p) => [normalizeUnitLabel(p.unit) ?? p.unit, p.personnel]),
+  );
+
+  return Array.from(counts, ([label, byName]) => {
+    const [name, count] = Array.from(byName).sort((a, b) => b[1] - a[1])[0];
+    return {
+      label,
+      name,
+      count,
+      onCad: cadUnits.has(name),
+      crew: crewByUnit.get(name) ?? [],
+    };
+  });
+}
+
+/**
+ * Names offered when renaming a speaker: the units and crew members
+ * assigned in CAD, plus dispatch and command.
+ */
+export function speakerNameOptions(report?: VisinetReport): string[] {
+  const options = new Set<string>(["Dispatch", "Command"]);
+  for (const unit of report?.unitsAssigned ?? []) {
+    options.add(normalizeUnitLabel(unit.unit) ?? unit.unit);
+  }
+  for (const crew of report?.personnel ?? []) {
+    const unit = normalizeUnitLabel(crew.unit) ?? crew.unit;
+    for (const person of crew.personnel) {
+      options.add(`${person} (${unit})`);
+    }
+  }
+  return Array.from(options);
+}
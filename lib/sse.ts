@@ -0,0 +1,157 @@
+/**
+ * Server-Sent Events
+ *
+ * Helpers for routes that stream results as they complete
+ * (GET /api/analyze/[id]/events, POST /api/rtass/score) and for the
+ * browser code that reads them. Events are read with fetch() rather than
+ * EventSource so requests can be POSTs and cancelled with an AbortSignal.
+ *
+ * Every event carries JSON data. Routes end a stream with an `error` event
+ * ({ message }) when the work fails after the response has started.
+ */
+
+/** A parsed event from the stream */
+export interface SseEvent {
+  event: string;
+  data: unknown;
+}
+
+/** Sends an event to the client; ignored once the client has gone */
+export type SseSend = (event: string, data: unknown) => void;
+
+/** A comment line is sent this often so proxies keep idle streams open */
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-store, no-transform',
+  Connection: 'keep-alive',
+  // Stop nginx-style proxies from buffering the stream
+  'X-Accel-Buffering': 'no',
+};
+
+/**
+ * Format one event in the text/event-stream wire format.
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  const lines = JSON.stringify(data ?? null).split('\n');
+  return `event: ${event}\n${lines.map((line) => `data: ${line}`).join('\n')}\n\n`;
+}
+
+/**
+ * Stream events from `run` as a text/event-stream response.
+ *
+ * The stream closes when `run` settles; a rejection is sent as an `error`
+ * event. `signal` aborts when the client disconnects or cancels, so pass it
+ * on to model calls (see withAbortSignal() in lib/llm-providers.ts).
+ */
+export function createSseResponse(
+  run: (send: SseSend, signal: AbortSignal) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          closed = true;
+        }
+      };
+      const close = () => {
+        clearInterval(heartbeat);
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+
+      heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      run((event, data) => write(formatSseEvent(event, data)), abortController.signal)
+        .catch((error: unknown) => {
+          if (!abortController.signal.aborted) {
+            write(formatSseEvent('error', {
+              message: error instanceof Error ? error.message : String(error),
+            }));
+          }
+        })
+        .finally(close);
+    },
+    cancel() {
+      closed = true;
+      clearInterval(heartbeat);
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+/**
+ * Read the events of a text/event-stream response, calling `onEvent` for
+ * each one in order. Resolves when the stream ends. If `onEvent` throws,
+ * the stream is cancelled and the error rethrown.
+ *
+ * @throws {SyntaxError} If an event's data is not JSON
+ */
+export async function readSseEvents(
+  response: Response,
+  onEvent: (event: SseEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let dataLines: string[] = [];
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      if (dataLines.length > 0) {
+        onEvent({ event, data: JSON.parse(dataLines.join('\n')) });
+      }
+      event = 'message';
+      dataLines = [];
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+      lines.forEach(processLine);
+
+      if (done) {
+        processLine('');
+        return;
+      }
+    }
+  } catch (error) {
+    // Stop the server's work too when a handler gives up on the stream
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+}
@@ -13,6 +13,11 @@ const STORAGE_KEYS = {
   THEME: 'user_theme_preference',
   ANALYSIS_MODEL: 'analysis_model_preference',
   REASONING_EFFORT: 'analysis_reasoning_effort',
+  REVIEWER_NAME: 'rtass_reviewer_name',
+  AUTO_LOCK_MINUTES: 'encryption_auto_lock_minutes',
+  REDACT_EXPORTS: 'redaction_exports',
+  REDACT_AI_REQUESTS: 'redaction_ai_requests',
+  PENDING_ANALYSIS_JOBS: 'analysis_pending_jobs',
 } as const;
 
 /**
@@ -83,6 +88,131 @@ export function setReasoningEffortPreference(effort: ReasoningEffort): void {
   localStorage.setItem(STORAGE_KEYS.REASONING_EFFORT, effort);
 }
 
+/**
+ * Get the name recorded on scorecard edits and transcript corrections
+ */
+export function getReviewerNamePreference(): string {
+  if (typeof window === 'undefined') return '';
+  return localStorage.getItem(STORAGE_KEYS.REVIEWER_NAME) ?? '';
+}
+
+/**
+ * Set the name recorded on scorecard edits and transcript corrections
+ */
+export function setReviewerNamePreference(name: string): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEYS.REVIEWER_NAME, name);
+}
+
+/**
+ * Idle minutes before an encrypted workspace locks itself (0 = never)
+ */
+export const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60] as const;
+
+/**
+ * Get the auto-lock timeout for encryption at rest
+ */
+export function getAutoLockMinutesPreference(): number {
+  if (typeof window === 'undefined') return 15;
+  const stored = localStorage.getItem(STORAGE_KEYS.AUTO_LOCK_MINUTES);
+  const minutes = stored === null ? NaN : Number(stored);
+  if ((AUTO_LOCK_OPTIONS as readonly number[]).includes(minutes)) return minutes;
+  return 15; // Default
+}
+
+/**
+ * Set the auto-lock timeout for encryption at rest
+ */
+export function setAutoLockMinutesPreference(minutes: number): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEYS.AUTO_LOCK_MINUTES, String(minutes));
+}
+
+/**
+ * Get whether exports and shared packages leave out redacted personal details
+ */
+export function getRedactExportsPreference(): boolean {
+  if (typeof window === 'undefined') return true;
+  return localStorage.getItem(STORAGE_KEYS.REDACT_EXPORTS) !== 'false'; // Default on
+}
+
+/**
+ * Set whether exports and shared packages leave out redacted personal details
+ */
+export function setRedactExportsPreference(enabled: boolean): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEYS.REDACT_EXPORTS, String(enabled));
+}
+
+/**
+ * Get whether transcripts sent for analysis, chat and scoring are redacted
+ */
+export function getRedactAiRequestsPreference(): boolean {
+  if (typeof window === 'undefined') return false;
+  return localStorage.getItem(STORAGE_KEYS.REDACT_AI_REQUESTS) === 'true'; // Default off
+}
+
+/**
+ * Set whether transcripts sent for analysis, chat and scoring are redacted
+ */
+export function setRedactAiRequestsPreference(enabled: boolean): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEYS.REDACT_AI_REQUESTS, String(enabled));
+}
+
+/**
+ * An analysis job running on the server, remembered per transcript so the
+ * analyze page can reconnect to it after a reload. Holds IDs and settings
+ * only, never transcript content.
+ */
+export interface PendingAnalysisJob {
+  jobId: string;
+  transcriptId: string;
+  templateId: string;
+  strategy: 'basic' | 'hybrid' | 'advanced' | 'auto';
+  runEvaluation: boolean;
+}
+
+function readPendingAnalysisJobs(): Record<string, PendingAnalysisJob> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.PENDING_ANALYSIS_JOBS);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, PendingAnalysisJob>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Get the analysis job still running for a transcript, if any
+ */
+export function getPendingAnalysisJob(transcriptId: string): PendingAnalysisJob | null {
+  if (typeof window === 'undefined') return null;
+  const job = readPendingAnalysisJobs()[transcriptId];
+  return job && typeof job.jobId === 'string' ? job : null;
+}
+
+/**
+ * Remember the analysis job running for a transcript
+ */
+export function setPendingAnalysisJob(job: PendingAnalysisJob): void {
+  if (typeof window === 'undefined') return;
+  const jobs = readPendingAnalysisJobs();
+  jobs[job.transcriptId] = job;
+  localStorage.setItem(STORAGE_KEYS.PENDING_ANALYSIS_JOBS, JSON.stringify(jobs));
+}
+
+/**
+ * Forget the analysis job for a transcript once it is collected or cancelled
+ */
+export function clearPendingAnalysisJob(transcriptId: string): void {
+  if (typeof window === 'undefined') return;
+  const jobs = readPendingAnalysisJobs();
+  if (!(transcriptId in jobs)) return;
+  delete jobs[transcriptId];
+  localStorage.setItem(STORAGE_KEYS.PENDING_ANALYSIS_JOBS, JSON.stringify(jobs));
+}
+
 /**
  * Clear all user preferences from localStorage
  * NOTE: This does NOT clear API keys (they are no longer stored client-side)
@@ -102,5 +232,9 @@ export function getAllPreferences() {
     theme: getThemePreference(),
     analysisModel: getAnalysisModelPreference(),
     reasoningEffort: getReasoningEffortPreference(),
+    reviewerName: getReviewerNamePreference(),
+    autoLockMinutes: getAutoLockMinutesPreference(),
+    redactExports: getRedactExportsPreference(),
+    redactAiRequests: getRedactAiRequestsPreference(),
   };
 }
@@ -2,20 +2,18 @@
  * Token Estimation and Deployment Selection Utilities
  *
  * This module provides utilities for estimating token counts and selecting
- * the appropriate Azure OpenAI deployment based on transcript length.
+ * the model for a transcript from a task's route (see lib/llm-providers.ts).
  *
  * Deployment Strategy:
- * - Transcripts < 256k tokens → gpt-5 (standard context)
- * - Transcripts ≥ 256k tokens → gpt-41 (extended context, up to 1M tokens)
+ * - Transcripts that fit the task's model → that model (standard context)
+ * - Larger transcripts → the route's extended model, when one is configured
  */
 
-/**
- * Token threshold for switching to extended context deployment
- */
-export const EXTENDED_CONTEXT_TOKEN_THRESHOLD = 256000; // 256k tokens
+import type { LlmModelProfile, LlmTaskRoute } from '@/types/llm';
 
 /**
- * Maximum token limits for each deployment type
+ * Context windows of the default cloud deployments, used by the provider
+ * registry for models it has no profile for
  */
 export const TOKEN_LIMITS = {
   standard: 256000,   // gpt-5 standard context limit
@@ -51,60 +49,59 @@ export function estimateTokens(text: string): number {
 }
 
 /**
- * Select the appropriate GPT deployment based on estimated token count
+ * Pick the model from a route that fits the estimated tokens
+ */
+function selectModelProfile(estimatedTokens: number, route: LlmTaskRoute): LlmModelProfile {
+  const standard = route.model;
+  if (estimatedTokens < standard.contextWindow) {
+    console.log(
+      `[Token Utils] Using standard deployment '${standard.model}' ` +
+      `for ${estimatedTokens.toLocaleString()} token transcript ` +
+      `(${((estimatedTokens / standard.contextWindow) * 100).toFixed(1)}% of ` +
+      `${standard.contextWindow.toLocaleString()} token limit)`
+    );
+    return standard;
+  }
+
+  if (!route.extended) {
+    console.warn(
+      `[Token Utils] Warning: Transcript has ${estimatedTokens.toLocaleString()} tokens ` +
+      `(>= ${standard.contextWindow.toLocaleString()}), but no extended context model ` +
+      'is configured (LLM_EXTENDED_MODEL or AZURE_OPENAI_EXTENDED_GPT_DEPLOYMENT). ' +
+      'Falling back to standard deployment, which may fail or be truncated.'
+    );
+    return standard;
+  }
+
+  console.log(
+    `[Token Utils] Using extended context deployment '${route.extended.model}' ` +
+    `for ${estimatedTokens.toLocaleString()} token transcript ` +
+    `(${((estimatedTokens / route.extended.contextWindow) * 100).toFixed(1)}% of ` +
+    `${route.extended.contextWindow.toLocaleString()} token limit)`
+  );
+  return route.extended;
+}
+
+/**
+ * Select the deployment for a transcript from a task's route
  *
- * Automatically chooses between:
- * - Standard deployment (gpt-5) for transcripts < 256k tokens
- * - Extended deployment (gpt-41) for transcripts ≥ 256k tokens
+ * Chooses between:
+ * - The route's model, when the transcript fits its context window
+ * - The route's extended model otherwise (falls back to the route's model
+ *   with a warning when there is none)
  *
  * @param estimatedTokens - Estimated token count
+ * @param route - Task route, e.g. from getLlmRoute('analysis')
  * @returns Deployment name to use
  *
  * @example
  * ```typescript
  * const tokens = estimateTokens(transcript.text);
- * const deployment = selectDeploymentByTokens(tokens);
- * // Returns 'gpt-5' or 'gpt-41' based on token count
+ * const deployment = selectDeploymentByTokens(tokens, getLlmRoute('analysis'));
  * ```
  */
-export function selectDeploymentByTokens(estimatedTokens: number): string {
-  if (estimatedTokens >= EXTENDED_CONTEXT_TOKEN_THRESHOLD) {
-    // Use extended context deployment (gpt-41)
-    const extendedDeployment = process.env.AZURE_OPENAI_EXTENDED_GPT_DEPLOYMENT;
-
-    if (!extendedDeployment) {
-      console.warn(
-        `[Token Utils] Warning: Transcript has ${estimatedTokens.toLocaleString()} tokens ` +
-        `(>= ${EXTENDED_CONTEXT_TOKEN_THRESHOLD.toLocaleString()}), but ` +
-        'AZURE_OPENAI_EXTENDED_GPT_DEPLOYMENT is not configured. ' +
-        'Falling back to standard deployment, which may fail or be truncated.'
-      );
-      return (
-        process.env.AZURE_OPENAI_GPT5_DEPLOYMENT ??
-        process.env.AZURE_OPENAI_GPT4_DEPLOYMENT ??
-        'gpt-5'
-      );
-    }
-
-    console.log(
-      `[Token Utils] Using extended context deployment '${extendedDeployment}' ` +
-      `for ${estimatedTokens.toLocaleString()} token transcript ` +
-      `(${((estimatedTokens / TOKEN_LIMITS.extended) * 100).toFixed(1)}% of 1M limit)`
-    );
-    return extendedDeployment;
-  } else {
-    // Use standard deployment (gpt-5)
-    const standardDeployment =
-      process.env.AZURE_OPENAI_GPT5_DEPLOYMENT ??
-      process.env.AZURE_OPENAI_GPT4_DEPLOYMENT ??
-      'gpt-5';
-    console.log(
-      `[Token Utils] Using standard deployment '${standardDeployment}' ` +
-      `for ${estimatedTokens.toLocaleString()} token transcript ` +
-      `(${((estimatedTokens / TOKEN_LIMITS.standard) * 100).toFixed(1)}% of 256k limit)`
-    );
-    return standardDeployment;
-  }
+export function selectDeploymentByTokens(estimatedTokens: number, route: LlmTaskRoute): string {
+  return selectModelProfile(estimatedTokens, route).model;
 }
 
 /**
@@ -134,12 +131,13 @@ export interface DeploymentInfo {
  * token limits, and utilization metrics.
  *
  * @param estimatedTokens - Estimated token count
+ * @param route - Task route, e.g. from getLlmRoute('analysis')
  * @returns Deployment information object
  *
  * @example
  * ```typescript
  * const tokens = estimateTokens(transcript.text);
- * const info = getDeploymentInfo(tokens);
+ * const info = getDeploymentInfo(tokens, getLlmRoute('analysis'));
  *
  * console.log(`Using ${info.deployment}`);
  * console.log(`Utilization: ${info.utilizationPercentage}%`);
@@ -149,10 +147,11 @@ export interface DeploymentInfo {
  * }
  * ```
  */
-export function getDeploymentInfo(estimatedTokens: number): DeploymentInfo {
-  const isExtended = estimatedTokens >= EXTENDED_CONTEXT_TOKEN_THRESHOLD;
-  const deployment = selectDeploymentByTokens(estimatedTokens);
-  const tokenLimit = isExtended ? TOKEN_LIMITS.extended : TOKEN_LIMITS.standard;
+export function getDeploymentInfo(estimatedTokens: number, route: LlmTaskRoute): DeploymentInfo {
+  const profile = selectModelProfile(estimatedTokens, route);
+  const isExtended = profile === route.extended;
+  const deployment = profile.model;
+  const tokenLimit = profile.contextWindow;
   const utilizationPercentage = Math.round((estimatedTokens / tokenLimit) * 100);
   const isHighUtilization = utilizationPercentage > 80;
   const isCriticalUtilization = utilizationPercentage > 90;
@@ -232,34 +231,3 @@ export function formatUtilization(percentage: number): {
     severity,
   };
 }
-
-/**
- * Check if extended context deployment is configured
- *
- * @returns true if AZURE_OPENAI_EXTENDED_GPT_DEPLOYMENT is set
- */
-export function hasExtendedDeployment(): boolean {
-  return !!process.env.AZURE_OPENAI_EXTENDED_GPT_DEPLOYMENT;
-}
-
-/**
- * Get deployment name directly from environment
- *
- * @param type - Deployment type
- * @returns Deployment name or undefined
- */
-export function getDeploymentName(type: 'standard' | 'extended' | 'whisper'): string | undefined {
-  switch (type) {
-    case 'standard':
-      return (
-        process.env.AZURE_OPENAI_GPT5_DEPLOYMENT ??
-        process.env.AZURE_OPENAI_GPT4_DEPLOYMENT
-      );
-    case 'extended':
-      return process.env.AZURE_OPENAI_EXTENDED_GPT_DEPLOYMENT;
-    case 'whisper':
-      return process.env.AZURE_OPENAI_WHISPER_DEPLOYMENT;
-    default:
-      return undefined;
-  }
-}
@@ -0,0 +1,272 @@
+/**
+ * Transcript Editing
+ *
+ * Pure helpers for correcting a transcript's segments: editing text, timing
+ * and speaker, splitting and merging segments, and turning a draft into the
+ * next revision.
+ *
+ * While editing, each draft segment keeps the `index` of the stored segment
+ * it came from (both halves of a split keep it). finalizeRevision() then
+ * renumbers the segments and carries speaker map overrides across.
+ *
+ * Word timings follow splits and merges, and are dropped when a segment's
+ * text is edited.
+ */
+
+import { alignWordsToText } from "@/lib/word-timing";
+import type {
+  Transcript,
+  TranscriptSegment,
+  TranscriptSpeakerMap,
+} from "@/types/transcript";
+
+/** Editable fields of a segment */
+export type SegmentPatch = Partial<Pick<TranscriptSegment, "text" | "start" | "end" | "speaker">>;
+
+/**
+ * Whether an analysis or scorecard was generated from an older revision of
+ * the transcript than the current one.
+ */
+export function isStaleForTranscript(
+  item: { transcriptRevision?: number },
+  transcript: Pick<Transcript, "revision">,
+): boolean {
+  return (item.transcriptRevision ?? 0) < (transcript.revision ?? 0);
+}
+
+/**
+ * Full transcript text from its segments.
+ */
+export function joinSegmentText(segments: TranscriptSegment[]): string {
+  return segments
+    .map((s) => s.text.trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Apply a patch to the segment at `position` (array position).
+ */
+export function updateSegment(
+  segments: TranscriptSegment[],
+  position: number,
+  patch: SegmentPatch,
+): TranscriptSegment[] {
+  return segments.map((segment, i) => {
+    if (i !== position) return segment;
+    if (patch.text !== undefined && patch.text !== segment.text) {
+      const { words: _words, ...rest } = segment;
+      return { ...rest, ...patch };
+    }
+    return { ...segment, ...patch };
+  });
+}
+
+/**
+ * Index of the first timed word at or after a character offset into the
+ * segment text, or -1.
+ */
+function firstWordFrom(segment: TranscriptSegment, offset: number): number {
+  if (!segment.words) return -1;
+  let position = 0;
+  for (const token of alignWordsToText(segment.text, segment.words)) {
+    if (position >= offset && token.firstWord !== undefined) return token.firstWord;
+    position += token.text.length;
+  }
+  return -1;
+}
+
+/**
+ * Split a segment in two at a character offset into its text.
+ *
+ * The offset snaps forward to the next space so words are not cut. The
+ * split time is the start of the first word after the split when the segment
+ * has word timings, and is otherwise interpolated from the share of text
+ * before it.
+ *
+ * @returns The segments unchanged when either half would be empty
+ */
+export function splitSegment(
+  segments: TranscriptSegment[],
+  position: number,
+  offset: number,
+): TranscriptSegment[] {
+  const segment = segments[position];
+  if (!segment || offset <= 0) return segments;
+
+  const space = segment.text.indexOf(" ", offset);
+  const at = segment.text.slice(0, offset).endsWith(" ") ? offset : space;
+  const before = segment.text.slice(0, at).trim();
+  const after = segment.text.slice(at).trim();
+  if (at < 0 || !before || !after) return segments;
+
+  const { words, ...rest } = segment;
+  const wordAt = firstWordFrom(segment, at);
+  if (words && wordAt > 0) {
+    const splitTime = words[wordAt].start;
+    return [
+      ...segments.slice(0, position),
+      { ...rest, text: before, end: splitTime, words: words.slice(0, wordAt) },
+      { ...rest, text: after, start: splitTime, words: words.slice(wordAt) },
+      ...segments.slice(position + 1),
+    ];
+  }
+
+  const duration = segment.end - segment.start;
+  const splitTime =
+    Math.round((segment.start + (duration * at) / segment.text.length) * 100) / 100;
+
+  return [
+    ...segments.slice(0, position),
+    { ...rest, text: before, end: splitTime },
+    { ...rest, text: after, start: splitTime },
+    ...segments.slice(position + 1),
+  ];
+}
+
+/**
+ * Merge a segment with the one after it. The merged segment keeps the first
+ * segment's speaker.
+ */
+export function mergeWithNext(
+  segments: TranscriptSegment[],
+  position: number,
+): TranscriptSegment[] {
+  const segment = segments[position];
+  const next = segments[position + 1];
+  if (!segment || !next) return segments;
+
+  const words = [...(segment.words ?? []), ...(next.words ?? [])];
+  return [
+    ...segments.slice(0, position),
+    {
+      ...segment,
+      text: `${segment.text.trim()} ${next.text.trim()}`.trim(),
+      end: Math.max(segment.end, next.end),
+      ...(words.length > 0 && { words }),
+    },
+    ...segments.slice(position + 2),
+  ];
+}
+
+/**
+ * Problems that prevent saving a draft, one message per problem.
+ */
+export function validateSegments(segments: TranscriptSegment[]): string[] {
+  const problems: string[] = [];
+  segments.forEach((segment, i) => {
+    const label = `Segment ${i + 1}`;
+    if (!segment.text.trim()) problems.push(`${label} has no text.`);
+    if (!Number.isFinite(segment.start) || segment.start < 0) {
+      problems.push(`${label} has an invalid start time.`);
+    }
+    if (!Number.isFinite(segment.end) || segment.end <= segment.start) {
+      problems.push(`${label} must end after it starts.`);
+    }
+    const previous = segments[i - 1];
+    if (previous && segment.start < previous.start) {
+      problems.push(`${label} starts before the segment above it.`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * Whether a draft differs from the stored segments.
+ */
+export function hasSegmentChanges(
+  draft: TranscriptSegment[],
+  stored: TranscriptSegment[],
+): boolean {
+  return (
+    draft.length !== stored.length ||
+    draft.some((segment, i) => {
+      const original = stored[i];
+      return (
+        segment.index !== original.index ||
+        segment.text !== original.text ||
+        segment.start !== original.start ||
+        segment.end !== original.end ||
+        segment.speaker !== original.speaker
+      );
+    })
+  );
+}
+
+/**
+ * Renumber a draft and carry the transcript's speaker map overrides over to
+ * the new segment numbers.
+ *
+ * Overrides are dropped for segments whose speaker was edited directly, so
+ * the edit takes effect.
+ */
+export function finalizeRevision(
+  draft: TranscriptSegment[],
+  transcript: Pick<Transcript, "segments" | "speakerMap">,
+): { segments: TranscriptSegment[]; speakerMap?: TranscriptSpeakerMap } {
+  const storedByIndex = new Map(transcript.segments.map((s) => [s.index, s]));
+  const overrides = transcript.speakerMap?.segments ?? {};
+  const remapped: Record<number, string> = {};
+
+  const segments = draft.map((segment, position) => {
+    const override = overrides[segment.index];
+    const speakerEdited = storedByIndex.get(segment.index)?.speaker !== segment.speaker;
+    if (override !== undefined && !speakerEdited) {
+      remapped[position] = override;
+    }
+    return {
+      ...segment,
+      index: position,
+      text: segment.text.trim(),
+      speaker: segment.speaker?.trim() || undefined,
+    };
+  });
+
+  const speakerMap = transcript.speakerMap
+    ? { ...transcript.speakerMap, segments: remapped }
+    : undefined;
+
+  return { segments, speakerMap };
+}
+
+/**
+ * Save a draft as the transcript's next revision.
+ *
+ * The machine transcript is kept in `original` on the first correction, and
+ * `text` is rebuilt from the segments. Search tokens are recomputed when the
+ * transcript is stored.
+ */
+export function applyTranscriptRevision(
+  transcript: Transcript,
+  params: {
+    draft: TranscriptSegment[];
+    editedBy: string;
+    note?: string;
+    editedAt?: Date;
+  },
+): Transcript {
+  const { segments, speakerMap } = finalizeRevision(params.draft, transcript);
+  const revision = (transcript.revision ?? 0) + 1;
+
+  return {
+    ...transcript,
+    text: joinSegmentText(segments),
+    segments,
+    speakerMap,
+    revision,
+    original: transcript.original ?? {
+      text: transcript.text,
+      segments: transcript.segments,
+    },
+    revisions: [
+      ...(transcript.revisions ?? []),
+      {
+        revision,
+        editedAt: params.editedAt ?? new Date(),
+        editedBy: params.editedBy.trim(),
+        note: params.note?.trim() || undefined,
+        segments,
+      },
+    ],
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * Transcription Providers
+ *
+ * Resolves the speech-to-text backend behind /api/transcribe:
+ * - Cloud: Azure OpenAI or OpenAI, from the main configuration in lib/openai.ts
+ * - Local: any OpenAI-compatible transcription server on the department's
+ *   network (whisper.cpp server, faster-whisper-server, ...), so radio audio
+ *   never leaves it
+ *
+ * TRANSCRIPTION_PROVIDER selects the backend ("cloud" or "local"). When it is
+ * not set, the local server is used whenever LOCAL_TRANSCRIPTION_BASE_URL is.
+ * Each provider reports capability flags that decide which request options the
+ * route sends and which options the upload page offers.
+ */
+
+import OpenAI from 'openai';
+import { z } from 'zod';
+import {
+  getConfiguration,
+  getTranscriptionClient,
+  getWhisperDeployment,
+  OpenAIConfigError,
+} from './openai';
+import { formatValidationError } from './validations/config';
+import type {
+  TranscriptionCapabilities,
+  TranscriptionProviderStatus,
+} from '@/types/transcript';
+
+/**
+ * A configured transcription backend and its client.
+ */
+export interface TranscriptionProvider extends TranscriptionProviderStatus {
+  /** Client for the backend's /audio/transcriptions endpoint */
+  getClient: () => OpenAI;
+}
+
+/**
+ * "true"/"false" environment flag with a default
+ */
+function envFlag(defaultValue: boolean) {
+  return z
+    .enum(['true', 'false'], { message: 'Must be "true" or "false"' })
+    .optional()
+    .transform((value) => (value === undefined ? defaultValue : value === 'true'));
+}
+
+/**
+ * Local transcription server environment variables
+ */
+const localTranscriptionEnvSchema = z.object({
+  LOCAL_TRANSCRIPTION_BASE_URL: z
+    .string()
+    .url('LOCAL_TRANSCRIPTION_BASE_URL must be a valid URL, e.g. http://localhost:8080/v1'),
+  LOCAL_TRANSCRIPTION_API_KEY: z.string().optional(),
+  LOCAL_TRANSCRIPTION_MODEL: z.string().min(1).default('whisper-1'),
+  LOCAL_TRANSCRIPTION_MODELS: z.string().optional(),
+  LOCAL_TRANSCRIPTION_DIARIZATION: envFlag(false),
+  LOCAL_TRANSCRIPTION_WORD_TIMESTAMPS: envFlag(true),
+  LOCAL_TRANSCRIPTION_LANGUAGE_DETECTION: envFlag(true),
+});
+
+type LocalTranscriptionEnv = z.infer<typeof localTranscriptionEnvSchema>;
+
+/**
+ * Cached local server configuration and client
+ */
+let localEnvCache: LocalTranscriptionEnv | null = null;
+let localClientInstance: OpenAI | null = null;
+
+/**
+ * Read an environment variable, treating empty strings as unset
+ */
+function readEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * Whether transcription goes to the local server rather than the cloud.
+ *
+ * @throws {OpenAIConfigError} If TRANSCRIPTION_PROVIDER has an unknown value
+ */
+export function isLocalTranscription(): boolean {
+  const requested = readEnv('TRANSCRIPTION_PROVIDER')?.toLowerCase();
+  if (requested === undefined) {
+    return readEnv('LOCAL_TRANSCRIPTION_BASE_URL') !== undefined;
+  }
+  if (requested !== 'local' && requested !== 'cloud') {
+    throw new OpenAIConfigError(
+      `TRANSCRIPTION_PROVIDER must be "cloud" or "local" (got "${requested}").`
+    );
+  }
+  return requested === 'local';
+}
+
+/**
+ * Validate the local server variables.
+ *
+ * @throws {OpenAIConfigError} If they are missing or invalid
+ */
+function getLocalTranscriptionEnv(): LocalTranscriptionEnv {
+  if (localEnvCache) {
+    return localEnvCache;
+  }
+
+  const result = localTranscriptionEnvSchema.safeParse({
+    LOCAL_TRANSCRIPTION_BASE_URL: readEnv('LOCAL_TRANSCRIPTION_BASE_URL'),
+    LOCAL_TRANSCRIPTION_API_KEY: readEnv('LOCAL_TRANSCRIPTION_API_KEY'),
+    LOCAL_TRANSCRIPTION_MODEL: readEnv('LOCAL_TRANSCRIPTION_MODEL'),
+    LOCAL_TRANSCRIPTION_MODELS: readEnv('LOCAL_TRANSCRIPTION_MODELS'),
+    LOCAL_TRANSCRIPTION_DIARIZATION: readEnv('LOCAL_TRANSCRIPTION_DIARIZATION')?.toLowerCase(),
+    LOCAL_TRANSCRIPTION_WORD_TIMESTAMPS: readEnv('LOCAL_TRANSCRIPTION_WORD_TIMESTAMPS')?.toLowerCase(),
+    LOCAL_TRANSCRIPTION_LANGUAGE_DETECTION: readEnv('LOCAL_TRANSCRIPTION_LANGUAGE_DETECTION')?.toLowerCase(),
+  });
+
+  if (!result.success) {
+    throw new OpenAIConfigError(
+      `Local transcription server configuration is invalid:\n${formatValidationError(result.error)}`
+    );
+  }
+
+  localEnvCache = result.data;
+  return localEnvCache;
+}
+
+/**
+ * Client for the local server. Most local servers ignore the API key, but the
+ * SDK requires one.
+ */
+function getLocalTranscriptionClient(): OpenAI {
+  if (localClientInstance) {
+    return localClientInstance;
+  }
+
+  const env = getLocalTranscriptionEnv();
+  localClientInstance = new OpenAI({
+    baseURL: env.LOCAL_TRANSCRIPTION_BASE_URL,
+    apiKey: env.LOCAL_TRANSCRIPTION_API_KEY ?? 'local',
+  });
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log('[Transcription] Initialized local transcription client', {
+      baseURL: env.LOCAL_TRANSCRIPTION_BASE_URL,
+    });
+  }
+
+  return localClientInstance;
+}
+
+/**
+ * Get the configured transcription backend.
+ *
+ * Cloud capabilities describe the default transcription deployment: word
+ * timestamps are only returned by Whisper models.
+ *
+ * @throws {OpenAIConfigError} If the selected backend is not configured
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (isLocalTranscription()) {
+    const env = getLocalTranscriptionEnv();
+    const extraModels = (env.LOCAL_TRANSCRIPTION_MODELS ?? '')
+      .split(',')
+      .map((model) => model.trim())
+      .filter(Boolean);
+
+    return {
+      provider: 'local',
+      label: 'Local Whisper server',
+      defaultModel: env.LOCAL_TRANSCRIPTION_MODEL,
+      models: Array.from(new Set([env.LOCAL_TRANSCRIPTION_MODEL, ...extraModels])),
+      capabilities: {
+        diarization: env.LOCAL_TRANSCRIPTION_DIARIZATION,
+        wordTimestamps: env.LOCAL_TRANSCRIPTION_WORD_TIMESTAMPS,
+        languageDetection: env.LOCAL_TRANSCRIPTION_LANGUAGE_DETECTION,
+      },
+      getClient: getLocalTranscriptionClient,
+    };
+  }
+
+  const config = getConfiguration();
+  const defaultModel = getWhisperDeployment();
+  const capabilities: TranscriptionCapabilities = {
+    diarization: true,
+    wordTimestamps: defaultModel.toLowerCase().startsWith('whisper'),
+    languageDetection: true,
+  };
+
+  return {
+    provider: config.provider,
+    label: config.provider === 'azure' ? 'Azure OpenAI' : 'OpenAI',
+    defaultModel,
+    models: [],
+    capabilities,
+    getClient: getTranscriptionClient,
+  };
+}
+
+/**
+ * The model to transcribe with. The cloud providers accept any model or
+ * deployment the upload names; the local server only the ones it lists.
+ */
+export function resolveTranscriptionModel(
+  provider: TranscriptionProvider,
+  requested?: string | null
+): string {
+  if (!requested) {
+    return provider.defaultModel;
+  }
+  if (provider.provider === 'local' && !provider.models.includes(requested)) {
+    return provider.defaultModel;
+  }
+  return requested;
+}
+
+/**
+ * The provider's status, safe to send to the browser.
+ */
+export function toTranscriptionProviderStatus(
+  provider: TranscriptionProvider
+): TranscriptionProviderStatus {
+  const { getClient: _getClient, ...status } = provider;
+  return status;
+}
+
+/**
+ * Reset the cached local server configuration and client
+ */
+export function resetTranscriptionProvider(): void {
+  localEnvCache = null;
+  localClientInstance = null;
+}
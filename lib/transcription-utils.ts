@@ -3,6 +3,7 @@
  *
  * This module provides helper functions for audio transcription processing:
  * - Converting OpenAI Whisper API responses to our TranscriptSegment format
+ *   (including word-level timestamps, when returned)
  * - Calculating audio duration from segments
  * - Formatting timestamps (seconds to HH:MM:SS format)
  * - Generating unique transcript IDs
@@ -11,6 +12,7 @@
 
 import { nanoid } from 'nanoid';
 import type { TranscriptSegment, TranscriptMetadata } from '@/types';
+import { assignWordsToSegments } from './word-timing';
 
 /**
  * OpenAI Whisper API response types
@@ -30,12 +32,20 @@ export interface WhisperSegment {
   speaker?: string;
 }
 
+export interface WhisperWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
 export interface WhisperVerboseResponse {
   task?: string;
   language?: string;
   duration?: number;
   text: string;
   segments?: WhisperSegment[];
+  /** Returned when word timestamps are requested (timestamp_granularities) */
+  words?: WhisperWord[];
 }
 
 export interface SegmentSanitizationOptions {
@@ -230,7 +240,8 @@ export function convertWhisperSegment(
  * Convert OpenAI Whisper verbose response to our TranscriptSegment array
  *
  * Handles cases where segments might be missing (creates single segment from full text).
- * Ensures all segments are properly indexed sequentially.
+ * Ensures all segments are properly indexed sequentially. Word timestamps, which
+ * Whisper returns as one list for the whole response, are attached to their segments.
  *
  * @param response - Verbose response from OpenAI Whisper API
  * @returns Array of formatted TranscriptSegments
@@ -253,20 +264,24 @@ export function convertWhisperResponse(
 ): TranscriptSegment[] {
   // If no segments are provided, create a single segment from the full text
   if (!response.segments || response.segments.length === 0) {
-    return [
-      {
-        index: 0,
-        start: 0,
-        end: response.duration || 0,
-        text: response.text.trim(),
-      },
-    ];
+    return assignWordsToSegments(
+      [
+        {
+          index: 0,
+          start: 0,
+          end: response.duration || 0,
+          text: response.text.trim(),
+        },
+      ],
+      response.words ?? []
+    );
   }
 
   // Convert each segment, ensuring sequential indexing
-  return response.segments.map((segment, index) =>
+  const segments = response.segments.map((segment, index) =>
     convertWhisperSegment(segment, index)
   );
+  return assignWordsToSegments(segments, response.words ?? []);
 }
 
 /**
@@ -359,6 +374,7 @@ export function sanitizeSegments(
       end,
       text,
       ...(speaker ? { speaker } : {}),
+      ...(segment.words && segment.words.length > 0 ? { words: segment.words } : {}),
     });
   }
 
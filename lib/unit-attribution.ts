@@ -0,0 +1,308 @@
+/**
+ * Unit Attribution
+ *
+ * Attributes RTASS criterion outcomes (through evidence speakers) and
+ * analysis benchmarks, radio reports and safety events (through
+ * `unitOrRole` / `from`) to fireground units, so company officers can follow
+ * their own crew across incidents.
+ *
+ * Unit labels are normalized so "E14", "ENG14", "Engine 14" and
+ * "Engine 14 assuming command" all count as "Engine 14".
+ */
+
+import type { Analysis } from "@/types/analysis";
+import type { RtassScorecard } from "@/types/rtass";
+import type { RtassIncidentContext } from "@/lib/rtass-trends";
+
+/** Apparatus and command types, with the spellings heard on the radio and in CAD */
+const UNIT_TYPES: Array<{ name: string; aliases: string[] }> = [
+  { name: "Engine", aliases: ["engine", "eng", "e"] },
+  { name: "Ladder", aliases: ["ladder", "lad", "l"] },
+  { name: "Truck", aliases: ["truck", "trk"] },
+  { name: "Quint", aliases: ["quint", "q"] },
+  { name: "Rescue", aliases: ["rescue", "res", "r"] },
+  { name: "Squad", aliases: ["squad", "sq"] },
+  { name: "Battalion", aliases: ["battalion", "batt", "bat", "btn", "bc"] },
+  { name: "Division", aliases: ["division", "div"] },
+  { name: "Medic", aliases: ["medic", "med", "m"] },
+  { name: "Brush", aliases: ["brush", "br"] },
+  { name: "Tanker", aliases: ["tanker", "tnk"] },
+  { name: "Hazmat", aliases: ["hazmat", "hm"] },
+  { name: "Safety", aliases: ["safety", "sfty"] },
+];
+
+const UNIT_PATTERN = new RegExp(
+  `\\b(${UNIT_TYPES.flatMap((t) => t.aliases).join("|")})\\s*-?\\s*0*(\\d{1,3})\\b`,
+  "i",
+);
+
+const UNIT_NAME_BY_ALIAS = new Map(
+  UNIT_TYPES.flatMap((t) => t.aliases.map((alias) => [alias, t.name] as const)),
+);
+
+/** Roles without a unit number */
+const ROLE_PATTERNS: Array<{ role: string; pattern: RegExp }> = [
+  { role: "Command", pattern: /\bcommand\b|\bic\b/i },
+  { role: "Dispatch", pattern: /\bdispatch(er)?\b|\bcomm(unications)? cent(er|re)\b/i },
+  { role: "Safety", pattern: /\bsafety\b|\biso\b/i },
+  { role: "RIC", pattern: /\bri[ct]\b/i },
+];
+
+/** Generic diarization labels that identify no one */
+const PLACEHOLDER_PATTERN = /^(speaker|spk|unknown|unidentified)[\s_-]*\d*$/i;
+
+/**
+ * Normalize a speaker or unit label to a canonical unit name.
+ *
+ * @example
+ * normalizeUnitLabel("ENG14")                      // "Engine 14"
+ * normalizeUnitLabel("BC04")                       // "Battalion 4"
+ * normalizeUnitLabel("Engine 25 assuming command") // "Engine 25"
+ * normalizeUnitLabel("Main Street Command")        // "Command"
+ * normalizeUnitLabel("SPEAKER_01")                 // null
+ *
+ * @returns The unit or role name, or null for empty and placeholder labels
+ */
+export function normalizeUnitLabel(label: string | undefined | null): string | null {
+  const cleaned = label?.replace(/\s+/g, " ").trim();
+  if (!cleaned || PLACEHOLDER_PATTERN.test(cleaned)) return null;
+
+  return detectUnitMention(cleaned) ?? cleaned;
+}
+
+/**
+ * Find the first unit or role mentioned in free text.
+ *
+ * Unlike normalizeUnitLabel(), text that names no known unit type or role
+ * returns null instead of being passed through.
+ *
+ * @example
+ * detectUnitMention("Engine 14 on scene") // "Engine 14"
+ * detectUnitMention("copy, go ahead")     // null
+ */
+export function detectUnitMention(text: string): string | null {
+  const unit = UNIT_PATTERN.exec(text);
+  if (unit) {
+    const name = UNIT_NAME_BY_ALIAS.get(unit[1].toLowerCase());
+    return `${name} ${Number(unit[2])}`;
+  }
+
+  const role = ROLE_PATTERNS.find((r) => r.pattern.test(text));
+  return role ? role.role : null;
+}
+
+export type UnitActivityKind =
+  | "criterion"
+  | "benchmark"
+  | "radio_report"
+  | "safety_event";
+
+/**
+ * One outcome attributed to a unit.
+ */
+export interface UnitActivity {
+  unit: string;
+  kind: UnitActivityKind;
+  transcriptId: string;
+  incidentId?: string;
+  incidentName?: string;
+  occurredAt: Date;
+  /** Criterion title, benchmark, report type or safety event type */
+  label: string;
+  /**
+   * Verdict (criterion), status (benchmark), "complete" / "incomplete"
+   * (radio report) or severity (safety event)
+   */
+  outcome: string;
+  /** Seconds into the recording */
+  timestamp?: number;
+  quote?: string;
+}
+
+/**
+ * A unit's attributed history.
+ */
+export interface UnitSummary {
+  unit: string;
+  /** Distinct incidents (or standalone transcripts) the unit appears in */
+  incidents: number;
+  /** Criteria and benchmarks met */
+  met: number;
+  partial: number;
+  missed: number;
+  notObserved: number;
+  radioReports: number;
+  /** Radio reports missing required fields */
+  incompleteReports: number;
+  safetyEvents: number;
+  lastActive: Date;
+  /** Newest first */
+  activities: UnitActivity[];
+}
+
+function humanize(value: string): string {
+  const text = value.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Keep the most recent analysis of each transcript that has fireground
+ * observations (benchmarks, radio reports or safety events).
+ */
+export function latestFiregroundAnalyses(analyses: Analysis[]): Analysis[] {
+  const latest = new Map<string, Analysis>();
+  for (const analysis of analyses) {
+    const { benchmarks, radioReports, safetyEvents } = analysis.results;
+    if (!benchmarks?.length && !radioReports?.length && !safetyEvents?.length) {
+      continue;
+    }
+    const existing = latest.get(analysis.transcriptId);
+    if (
+      !existing ||
+      new Date(analysis.createdAt).getTime() > new Date(existing.createdAt).getTime()
+    ) {
+      latest.set(analysis.transcriptId, analysis);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+/**
+ * Attribute scorecard and analysis outcomes to units.
+ *
+ * A criterion is attributed to every unit that speaks in its evidence.
+ * Records without an identifiable unit are skipped.
+ *
+ * @param params.scorecards - Scorecards (see latestScorecards())
+ * @param params.analyses - Analyses (see latestFiregroundAnalyses())
+ * @param params.resolveContext - Incident context by transcript ID
+ */
+export function collectUnitActivity(params: {
+  scorecards: RtassScorecard[];
+  analyses: Analysis[];
+  resolveContext: (transcriptId: string) => RtassIncidentContext;
+}): UnitActivity[] {
+  const { scorecards, analyses, resolveContext } = params;
+  const activities: UnitActivity[] = [];
+
+  const base = (transcriptId: string, fallbackDate: Date) => {
+    const context = resolveContext(transcriptId);
+    return {
+      transcriptId,
+      incidentId: context.incident?.id,
+      incidentName: context.incident?.name,
+      occurredAt: context.occurredAt ?? new Date(fallbackDate),
+    };
+  };
+
+  for (const scorecard of scorecards) {
+    const shared = base(scorecard.transcriptId, scorecard.createdAt);
+    for (const section of scorecard.sections) {
+      for (const criterion of section.criteria) {
+        if (criterion.verdict === "not_applicable") continue;
+
+        const units = new Set(
+          criterion.evidence
+            .map((e) => normalizeUnitLabel(e.speaker))
+            .filter((u): u is string => u !== null),
+        );
+        for (const unit of units) {
+          const evidence = criterion.evidence.find(
+            (e) => normalizeUnitLabel(e.speaker) === unit,
+          );
+          activities.push({
+            ...shared,
+            unit,
+            kind: "criterion",
+            label: criterion.title,
+            outcome: criterion.verdict,
+            timestamp: evidence?.start,
+            quote: evidence?.quote,
+          });
+        }
+      }
+    }
+  }
+
+  for (const analysis of analyses) {
+    const shared = base(analysis.transcriptId, analysis.createdAt);
+    const { benchmarks, radioReports, safetyEvents } = analysis.results;
+
+    for (const benchmark of benchmarks ?? []) {
+      const unit = normalizeUnitLabel(benchmark.unitOrRole);
+      if (!unit || benchmark.status === "not_applicable") continue;
+      activities.push({
+        ...shared,
+        unit,
+        kind: "benchmark",
+        label: benchmark.benchmark,
+        outcome: benchmark.status,
+        timestamp: benchmark.timestamp,
+        quote: benchmark.evidenceQuote,
+      });
+    }
+
+    for (const report of radioReports ?? []) {
+      const unit = normalizeUnitLabel(report.from);
+      if (!unit) continue;
+      activities.push({
+        ...shared,
+        unit,
+        kind: "radio_report",
+        label: humanize(report.type),
+        outcome: report.missingRequired?.length ? "incomplete" : "complete",
+        timestamp: report.timestamp,
+        quote: report.evidenceQuote,
+      });
+    }
+
+    for (const event of safetyEvents ?? []) {
+      const unit = normalizeUnitLabel(event.unitOrRole);
+      if (!unit) continue;
+      activities.push({
+        ...shared,
+        unit,
+        kind: "safety_event",
+        label: humanize(event.type),
+        outcome: event.severity,
+        timestamp: event.timestamp,
+        quote: event.evidenceQuote ?? event.details,
+      });
+    }
+  }
+
+  return activities;
+}
+
+/**
+ * Group attributed activity by unit, most active units first.
+ */
+export function summarizeUnits(activities: UnitActivity[]): UnitSummary[] {
+  const byUnit = new Map<string, UnitActivity[]>();
+  for (const activity of activities) {
+    byUnit.set(activity.unit, [...(byUnit.get(activity.unit) ?? []), activity]);
+  }
+
+  return Array.from(byUnit, ([unit, unitActivities]) => {
+    const sorted = [...unitActivities].sort(
+      (a, b) => b.occurredAt.getTime() - a.occurredAt.getTime(),
+    );
+    const assessed = sorted.filter((a) => a.kind === "criterion" || a.kind === "benchmark");
+    const reports = sorted.filter((a) => a.kind === "radio_report");
+    const count = (outcome: string) => assessed.filter((a) => a.outcome === outcome).length;
+
+    return {
+      unit,
+      incidents: new Set(sorted.map((a) => a.incidentId ?? a.transcriptId)).size,
+      met: count("met"),
+      partial: count("partial"),
+      missed: count("missed"),
+      notObserved: count("not_observed"),
+      radioReports: reports.length,
+      incompleteReports: reports.filter((a) => a.outcome === "incomplete").length,
+      safetyEvents: sorted.filter((a) => a.kind === "safety_event").length,
+      lastActive: sorted[0].occurredAt,
+      activities: sorted,
+    };
+  }).sort((a, b) => b.incidents - a.incidents || b.activities.length - a.activities.length);
+}
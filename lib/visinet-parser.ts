@@ -134,6 +134,23 @@ export interface VisinetCustomTimeStamp {
   user?: string;
 }
 
+/**
+ * A wall-clock event from a Visinet report (dispatch milestones, unit
+ * status changes and custom time stamps)
+ */
+export interface VisinetEvent {
+  /** Stable key, e.g. "firstUnitArrived" or "unit:ENG14:arrived" */
+  id: string;
+  /** Display label, e.g. "ENG14 arrived" */
+  label: string;
+  /** Wall-clock time of the event */
+  at: Date;
+  /** Section of the report the event came from */
+  source: "timestamp" | "unit" | "custom";
+  /** Unit designator (unit events only) */
+  unit?: string;
+}
+
 /**
  * Complete parsed Visinet report
  */
@@ -939,3 +956,98 @@ export function extractIncidentMetadata(report: VisinetReport): {
     fireUnderControlTime: fireUnderControl?.time || null,
   };
 }
+
+/** Labels for the incident-level time stamps, in report order */
+const TIMESTAMP_EVENT_LABELS: Array<[keyof VisinetTimeStamps, string]> = [
+  ["phonePickup", "Phone pickup"],
+  ["callTakingComplete", "Call taking complete"],
+  ["firstUnitAssigned", "1st unit assigned"],
+  ["firstUnitEnroute", "1st unit enroute"],
+  ["firstUnitArrived", "1st unit arrived"],
+  ["closed", "Incident closed"],
+];
+
+/** Unit status columns that become events */
+const UNIT_EVENT_FIELDS: Array<
+  [keyof Pick<VisinetUnitResponse, "assigned" | "enroute" | "arrived" | "complete">, string]
+> = [
+  ["assigned", "assigned"],
+  ["enroute", "enroute"],
+  ["arrived", "arrived"],
+  ["complete", "complete"],
+];
+
+/**
+ * Coerce a stored date (Date, or ISO string after JSON serialization)
+ */
+function toValidDate(value: Date | string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Resolve a unit time ("HH:MM:SS", no date) against the incident start.
+ * Times earlier than the incident start are assumed to be after midnight.
+ */
+function resolveUnitTime(time: string, incidentStart: Date): Date | null {
+  const match = time.match(/^(\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) return null;
+
+  const [, hour, minute, second] = match;
+  const date = new Date(incidentStart);
+  date.setHours(parseInt(hour), parseInt(minute), parseInt(second), 0);
+  if (date.getTime() < incidentStart.getTime() - 60 * 60 * 1000) {
+    date.setDate(date.getDate() + 1);
+  }
+  return date;
+}
+
+/**
+ * Extract every wall-clock event from a report, ordered by time.
+ *
+ * Unit times only carry a time of day; they are placed on the date of the
+ * phone pickup (or incident date), rolling over midnight when needed.
+ */
+export function extractVisinetEvents(report: VisinetReport): VisinetEvent[] {
+  const events: VisinetEvent[] = [];
+
+  for (const [key, label] of TIMESTAMP_EVENT_LABELS) {
+    const at = toValidDate(report.timeStamps[key]);
+    if (at) events.push({ id: key, label, at, source: "timestamp" });
+  }
+
+  const incidentStart =
+    toValidDate(report.timeStamps.phonePickup) ??
+    toValidDate(report.header.incidentDate);
+
+  if (incidentStart) {
+    for (const unit of report.unitsAssigned) {
+      for (const [field, verb] of UNIT_EVENT_FIELDS) {
+        const time = unit[field];
+        const at = time ? resolveUnitTime(time, incidentStart) : null;
+        if (!at) continue;
+        events.push({
+          id: `unit:${unit.unit}:${field}`,
+          label: `${unit.unit} ${verb}`,
+          at,
+          source: "unit",
+          unit: unit.unit,
+        });
+      }
+    }
+  }
+
+  report.customTimeStamps.forEach((stamp, idx) => {
+    const at = parseVisinetDateTime(`${stamp.date} ${stamp.time}`);
+    if (!at) return;
+    events.push({
+      id: `custom:${idx}`,
+      label: stamp.description,
+      at,
+      source: "custom",
+    });
+  });
+
+  return events.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
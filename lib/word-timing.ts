@@ -0,0 +1,215 @@
+/**
+ * Word Timing
+ *
+ * Helpers for the word-level timestamps some transcription models return:
+ * - assignWordsToSegments() attaches the response's flat word list to the
+ *   segments they were spoken in.
+ * - alignWordsToText() lines the words up with the segment text, which
+ *   carries punctuation and casing the words may not, so the text can be
+ *   rendered word by word (karaoke highlighting, click to seek).
+ * - findActiveWordIndex() and findQuoteTiming() locate a playback position
+ *   or a quoted phrase among a segment's words.
+ *
+ * Segments without words fall back to segment-level timing everywhere.
+ */
+
+import type { TranscriptSegment, TranscriptWord } from "@/types/transcript";
+
+/**
+ * A run of segment text: a word with the transcribed words it matches, or
+ * the whitespace and punctuation between words.
+ */
+export interface WordToken {
+  text: string;
+  /** Index of the first matching word in `segment.words` */
+  firstWord?: number;
+  /** Index of the last matching word (differs when the text joins words) */
+  lastWord?: number;
+  /** Start time of the first matching word, in seconds */
+  start?: number;
+}
+
+/** Where a quoted phrase was spoken, from a segment's word timings */
+export interface QuoteTiming {
+  /** Index of the first quoted word in `segment.words` */
+  firstWord: number;
+  /** Index of the last quoted word */
+  lastWord: number;
+  /** Start of the first quoted word, in seconds */
+  start: number;
+  /** End of the last quoted word, in seconds */
+  end: number;
+}
+
+/** Lowercase letters and digits only, for comparing text with words */
+function normalizeWord(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Attach word timings to the segments they fall in, by the word's midpoint.
+ * Words between segments go to the nearest earlier segment.
+ */
+export function assignWordsToSegments(
+  segments: TranscriptSegment[],
+  words: TranscriptWord[],
+): TranscriptSegment[] {
+  if (words.length === 0 || segments.length === 0) return segments;
+
+  const bySegment = segments.map<TranscriptWord[]>(() => []);
+  let position = 0;
+  for (const word of [...words].sort((a, b) => a.start - b.start)) {
+    const text = word.word.trim();
+    if (!text || !Number.isFinite(word.start) || !Number.isFinite(word.end)) continue;
+    const midpoint = (word.start + word.end) / 2;
+    while (position < segments.length - 1 && midpoint >= segments[position + 1].start) {
+      position++;
+    }
+    bySegment[position].push({ word: text, start: word.start, end: word.end });
+  }
+
+  return segments.map((segment, i) =>
+    bySegment[i].length > 0 ? { ...segment, words: bySegment[i] } : segment,
+  );
+}
+
+/**
+ * Move word timings by an offset, e.g. when a chunk of a split recording is
+ * placed after the chunks before it.
+ */
+export function shiftWords(
+  words: TranscriptWord[] | undefined,
+  offset: number,
+): TranscriptWord[] | undefined {
+  return words?.map((w) => ({ ...w, start: w.start + offset, end: w.end + offset }));
+}
+
+/**
+ * Split segment text into tokens matched to its words. Concatenating the
+ * tokens' text gives the segment text back.
+ *
+ * Text words are matched in order; a text word may join several transcribed
+ * words (e.g. a phone number). Text that matches nothing, such as a word
+ * added in an edit, is left without timing.
+ */
+export function alignWordsToText(text: string, words: TranscriptWord[]): WordToken[] {
+  const normalizedWords = words.map((w) => normalizeWord(w.word));
+  const tokens: WordToken[] = [];
+  let next = 0;
+
+  for (const part of text.split(/(\s+)/)) {
+    if (!part) continue;
+    const target = normalizeWord(part);
+    if (!target) {
+      tokens.push({ text: part });
+      continue;
+    }
+
+    let matched: [number, number] | null = null;
+    // Look a few words ahead so one mismatch does not unalign the rest
+    for (let first = next; first < Math.min(next + 4, words.length) && !matched; first++) {
+      let joined = "";
+      for (let last = first; last < words.length; last++) {
+        joined += normalizedWords[last];
+        if (joined === target) {
+          matched = [first, last];
+          break;
+        }
+        if (!target.startsWith(joined)) break;
+      }
+    }
+
+    if (matched) {
+      tokens.push({
+        text: part,
+        firstWord: matched[0],
+        lastWord: matched[1],
+        start: words[matched[0]].start,
+      });
+      next = matched[1] + 1;
+    } else {
+      tokens.push({ text: part });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Index of the word being spoken at a playback position, or of the last
+ * word spoken before it; -1 before the first word.
+ */
+export function findActiveWordIndex(words: TranscriptWord[] | undefined, time: number): number {
+  if (!words || words.length === 0 || time < words[0].start) return -1;
+
+  let low = 0;
+  let high = words.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (words[mid].start <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Timing of a quoted phrase within a segment's words.
+ *
+ * @returns The first and last matching words and their times, or null when
+ * the segment has no words or the quote is not in them
+ */
+export function findQuoteTiming(
+  segment: TranscriptSegment,
+  quote: string,
+): QuoteTiming | null {
+  const words = segment.words;
+  const target = quote.split(/\s+/).map(normalizeWord).filter(Boolean);
+  if (!words || words.length === 0 || target.length === 0) return null;
+
+  const normalized = words.map((w) => normalizeWord(w.word));
+  const joinedTarget = target.join("");
+
+  for (let first = 0; first < normalized.length; first++) {
+    if (!normalized[first] || !joinedTarget.startsWith(normalized[first])) continue;
+    let joined = "";
+    for (let last = first; last < normalized.length; last++) {
+      joined += normalized[last];
+      if (joined === joinedTarget) {
+        return { firstWord: first, lastWord: last, start: words[first].start, end: words[last].end };
+      }
+      if (!joinedTarget.startsWith(joined)) break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Timing of a character range of the segment text, from the words that
+ * overlap it.
+ *
+ * @returns Start and end in seconds, or null when no timed word overlaps it
+ */
+export function findRangeTiming(
+  segment: TranscriptSegment,
+  start: number,
+  end: number,
+): { start: number; end: number } | null {
+  const words = segment.words;
+  if (!words || words.length === 0) return null;
+
+  let offset = 0;
+  let rangeStart = Infinity;
+  let rangeEnd = -Infinity;
+  for (const token of alignWordsToText(segment.text, words)) {
+    const tokenStart = offset;
+    offset += token.text.length;
+    if (token.firstWord === undefined || token.lastWord === undefined) continue;
+    if (tokenStart >= end || offset <= start) continue;
+    rangeStart = Math.min(rangeStart, words[token.firstWord].start);
+    rangeEnd = Math.max(rangeEnd, words[token.lastWord].end);
+  }
+  return rangeEnd > rangeStart ? { start: rangeStart, end: rangeEnd } : null;
+}
@@ -38,6 +38,9 @@ export interface AnalysisSection {
 
   /** Array of evidence citations supporting this content */
   evidence: Evidence[];
+
+  /** Set when the section is a chat answer pinned to the analysis */
+  pinnedFrom?: { conversationId: string; messageId: string };
 }
 
 /**
@@ -492,6 +495,9 @@ export interface Analysis {
    */
   enrichmentMetadata?: EnrichmentMetadata;
 
+  /** Transcript revision the analysis was generated from (0 = machine transcript) */
+  transcriptRevision?: number;
+
   /** Timestamp when the analysis was created */
   createdAt: Date;
 }
@@ -540,6 +546,68 @@ export interface AnalysisProgress {
   error?: string;
 }
 
+/**
+ * Lifecycle of a server-side analysis job.
+ */
+export type AnalysisJobStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * A background analysis run, as returned by GET /api/analyze/[id].
+ * Jobs are held in server memory and never include the transcript.
+ */
+export interface AnalysisJob {
+  /** Job identifier returned by POST /api/analyze */
+  id: string;
+
+  /** Transcript being analyzed */
+  transcriptId: string;
+
+  /** Template used for analysis */
+  templateId: string;
+
+  status: AnalysisJobStatus;
+
+  /** Strategy running now; changes if the analysis falls back */
+  strategy?: AnalysisStrategy;
+
+  /** Progress percentage (0-100) at the last checkpoint */
+  progress: number;
+
+  /** Status message for the current phase */
+  message: string;
+
+  /** Phase (from the strategy's progress phases) that is running */
+  currentPhase?: {
+    id: string;
+    name: string;
+    range: [number, number];
+  };
+
+  /** IDs of phases completed so far */
+  completedPhases: string[];
+
+  /** Results of the batches or sections completed so far */
+  partialResults?: Partial<AnalysisResults>;
+
+  /** The finished analysis (status 'completed') */
+  analysis?: Analysis;
+
+  /** Error message (status 'failed') */
+  error?: string;
+
+  /** Epoch milliseconds */
+  startedAt: number;
+
+  /** When the current phase started (epoch milliseconds) */
+  phaseStartedAt: number;
+
+  /** Epoch milliseconds */
+  updatedAt: number;
+
+  /** When a finished job is discarded if not collected (epoch milliseconds) */
+  expiresAt?: number;
+}
+
 /**
  * Configuration options for analysis execution.
  */
@@ -5,6 +5,7 @@
  */
 
 import type { TranscriptSegment } from './transcript';
+import type { RedactedAudioInfo } from './redaction';
 
 /**
  * Audio playback state
@@ -123,6 +124,12 @@ export interface AudioSyncState {
 
   /** Index of active segment */
   activeSegmentIndex: number;
+
+  /**
+   * Index of the word being spoken in the active segment's `words`, or -1
+   * when the segment has no word timestamps
+   */
+  activeWordIndex: number;
 }
 
 /**
@@ -231,6 +238,20 @@ export interface AudioStorageResult {
   metadata: AudioMetadata;
 }
 
+/**
+ * Stored redacted copy of a recording
+ */
+export interface RedactedAudioStorageResult {
+  /** Object URL for playback */
+  audioUrl: string;
+
+  /** The redacted recording, for downloading */
+  blob: Blob;
+
+  /** How the recording was redacted */
+  info: RedactedAudioInfo;
+}
+
 /**
  * Keyboard shortcut for audio player
  */
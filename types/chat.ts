@@ -31,13 +31,121 @@ export interface ChatMessage {
 
   /** Model name that generated this response (assistant messages only) */
   model?: string;
+
+  /**
+   * Transcript segments the answer cites (assistant messages only). The
+   * content marks where each is cited with its id, e.g. "[S12]".
+   */
+  citations?: ChatCitation[];
+
+  /** The user stopped the answer before it finished (assistant messages only) */
+  stopped?: boolean;
+}
+
+/**
+ * A transcript segment cited by a chat answer, checked against the
+ * segments sent with the question.
+ */
+export interface ChatCitation {
+  /**
+   * Id of the cited segment: the segment index, or in library chat the
+   * position of the segment in the retrieved context
+   */
+  segmentId: number;
+
+  /** Segment start time in seconds */
+  start: number;
+
+  /** Segment end time in seconds */
+  end: number;
+
+  /** Speaker of the segment, if known */
+  speaker?: string;
+
+  /** The segment text, shortened for display */
+  quote: string;
+
+  /** Transcript of the cited segment (library chat only) */
+  transcriptId?: string;
+
+  /** Index of the cited segment in its transcript (library chat only) */
+  segmentIndex?: number;
+
+  /** Label of the cited transcript (library chat only) */
+  source?: string;
+}
+
+/**
+ * A transcript segment as sent to the chat API, which the model cites by id.
+ */
+export interface ChatSegment {
+  /** Segment index, the id the model cites (numbered from 1 in library chat) */
+  id: number;
+
+  /** Start time in seconds */
+  start: number;
+
+  /** End time in seconds */
+  end: number;
+
+  /** Speaker, if known */
+  speaker?: string;
+
+  /** Segment text */
+  text: string;
+
+  /** Transcript the segment was retrieved from (library chat only) */
+  transcriptId?: string;
+
+  /** Index of the segment in its transcript (library chat only) */
+  segmentIndex?: number;
+
+  /** Label of the transcript, shown to the model (library chat only) */
+  source?: string;
+}
+
+/**
+ * The transcripts a library chat question was asked across. Only segments
+ * retrieved for the question are sent; the labels of every transcript let
+ * the model tell which ones had nothing relevant.
+ */
+export interface ChatCorpus {
+  /** What was searched, e.g. "All transcripts, this quarter" */
+  label: string;
+
+  /** Label of every transcript searched */
+  transcripts: string[];
+}
+
+/** Kind of record attached to a chat question as extra context */
+export type ChatContextKind = 'analysis' | 'scorecard' | 'annotations' | 'document';
+
+/**
+ * A record about the transcript (an analysis, scorecard, trainer notes or a
+ * supplemental document) sent with a question as reference material, so
+ * answers can draw on it alongside the radio traffic. Built by
+ * lib/chat-context.ts.
+ */
+export interface ChatContextSource {
+  /** ID of the record, or "annotations" for the transcript's notes */
+  id: string;
+
+  kind: ChatContextKind;
+
+  /** Heading for the material, e.g. "Scorecard: Structure fire rubric (Mar 4, 2026)" */
+  title: string;
+
+  /** The material as text for the prompt */
+  text: string;
 }
 
 /**
  * A conversation thread for Q&A about a specific transcript.
  *
  * Stored in browser IndexedDB and linked to a transcript via transcriptId.
- * One conversation per transcript (1:1 relationship).
+ * A transcript can have several conversations. Library chat conversations
+ * use a scope key in its place (see corpusConversationKey() in
+ * hooks/use-corpus-chat.ts).
  */
 export interface Conversation {
   /** Unique identifier for this conversation */
@@ -46,6 +154,15 @@ export interface Conversation {
   /** Foreign key to the transcript this conversation is about */
   transcriptId: string;
 
+  /** Name shown in the conversation list; defaults to the first question */
+  title?: string;
+
+  /**
+   * Where the conversation was forked by editing a question: the
+   * conversation and the message that was edited
+   */
+  forkedFrom?: { conversationId: string; messageId: string };
+
   /** Array of messages in chronological order (oldest first) */
   messages: ChatMessage[];
 
@@ -67,11 +184,23 @@ export interface Conversation {
  * Transcript text is sent with every request to provide context for the LLM.
  */
 export interface ChatRequest {
-  /** ID of the transcript being discussed */
-  transcriptId: string;
+  /** ID of the transcript being discussed (required without a corpus) */
+  transcriptId?: string;
+
+  /** Library chat: the transcripts searched; segments are the retrieved ones */
+  corpus?: ChatCorpus;
 
-  /** Full transcript text (sent with each request for LLM context) */
-  transcriptText: string;
+  /**
+   * Full transcript text (sent with each request for LLM context). Only
+   * needed when segments are not sent.
+   */
+  transcriptText?: string;
+
+  /** Transcript segments; answers cite them by id */
+  segments?: ChatSegment[];
+
+  /** Analyses, scorecards, notes or documents attached as reference material */
+  context?: ChatContextSource[];
 
   /** The user's question */
   question: string;
@@ -89,6 +218,9 @@ export interface ChatResponse {
 
   /** The model/deployment that generated the response */
   model: string;
+
+  /** Segments the answer cites, in order of first citation */
+  citations?: ChatCitation[];
 }
 
 /**
@@ -300,3 +432,26 @@ export function countMessagesByRole(conversation: Conversation): {
     { user: 0, assistant: 0 }
   );
 }
+
+/** Longest default conversation title, taken from the first question */
+const MAX_DEFAULT_TITLE_CHARS = 60;
+
+/**
+ * Name of a conversation: its title, or its first question shortened.
+ *
+ * @param conversation - The conversation
+ * @returns The name to show in the conversation list
+ */
+export function getConversationTitle(conversation: Conversation): string {
+  if (conversation.title) {
+    return conversation.title;
+  }
+
+  const question = conversation.messages.find((msg) => msg.role === 'user')?.content.trim();
+  if (!question) {
+    return 'New conversation';
+  }
+  return question.length > MAX_DEFAULT_TITLE_CHARS
+    ? `${question.slice(0, MAX_DEFAULT_TITLE_CHARS - 1).trimEnd()}…`
+    : question;
+}
@@ -0,0 +1,55 @@
+/**
+ * Glossary Type Definitions
+ *
+ * Department vocabulary used to prime transcription and to correct terms
+ * that speech-to-text routinely mishears ("3 60" → "360", "Clint 22" →
+ * "Quint 22").
+ */
+
+/** Department value for terms that apply to every department */
+export const GLOSSARY_ALL_DEPARTMENTS = "all";
+
+/**
+ * A glossary term and the misheard forms it replaces.
+ */
+export interface GlossaryTerm {
+  /** Unique identifier */
+  id: string;
+
+  /** Correct spelling, as it should appear in transcripts */
+  term: string;
+
+  /** Department ID from lib/departments.ts, or GLOSSARY_ALL_DEPARTMENTS */
+  department: string;
+
+  /** Misheard forms replaced with the term after transcription (case-insensitive) */
+  variants: string[];
+
+  /** Optional meaning or usage note */
+  notes?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Editable fields of a glossary term.
+ */
+export type GlossaryTermInput = Pick<GlossaryTerm, "term" | "department" | "variants" | "notes">;
+
+/**
+ * A substitution made by the glossary correction pass.
+ */
+export interface GlossaryCorrection {
+  /** Index of the corrected segment */
+  segmentIndex: number;
+
+  /** ID of the glossary term that matched */
+  termId: string;
+
+  /** Text as transcribed */
+  original: string;
+
+  /** Text it was replaced with */
+  replacement: string;
+}
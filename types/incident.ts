@@ -0,0 +1,166 @@
+/**
+ * Incident Type Definitions
+ *
+ * An incident groups every radio recording captured for a single call
+ * (e.g. dispatch channel + TAC channel + command channel) so that reviews,
+ * CAD reports, annotations and scorecards can be managed together instead of
+ * by filename.
+ *
+ * Incidents only reference transcripts by ID. Annotations, supplemental
+ * documents and scorecards stay attached to their transcript and are
+ * aggregated at read time.
+ */
+
+/**
+ * A single radio channel (recording) that belongs to an incident.
+ */
+export interface IncidentChannel {
+  /** ID of the transcript for this channel */
+  transcriptId: string;
+
+  /** Display label for the channel (e.g. "Dispatch", "TAC 2", "Command") */
+  label: string;
+
+  /**
+   * Wall-clock offset of the recording in seconds: how long after the start
+   * of the incident (occurredAt, or the first CAD timestamp) the recording
+   * begins. Entered manually or derived from a Visinet CAD event.
+   * Missing offsets are treated as 0.
+   */
+  offsetSeconds?: number;
+}
+
+/**
+ * Persisted incident record.
+ *
+ * @example
+ * ```typescript
+ * const incident: Incident = {
+ *   id: 'inc_abc123',
+ *   name: 'Structure fire - 2000 E 51st St',
+ *   incidentNumber: '2024-0012345',
+ *   channels: [
+ *     { transcriptId: 'tr_dispatch', label: 'Dispatch' },
+ *     { transcriptId: 'tr_tac', label: 'TAC 2' },
+ *   ],
+ *   transcriptIds: ['tr_dispatch', 'tr_tac'],
+ *   createdAt: new Date(),
+ *   updatedAt: new Date(),
+ * };
+ * ```
+ */
+export interface Incident {
+  /** Unique identifier for the incident */
+  id: string;
+
+  /** Human-readable incident name */
+  name: string;
+
+  /** CAD incident number (e.g. from the Visinet report header) */
+  incidentNumber?: string;
+
+  /** Incident address or location description */
+  location?: string;
+
+  /** When the incident occurred (wall-clock date/time) */
+  occurredAt?: Date;
+
+  /** City of Austin department (for organization and filtering) */
+  department?: string;
+
+  /** Free-form notes about the incident */
+  notes?: string;
+
+  /** Radio channels (transcripts) that belong to this incident, in display order */
+  channels: IncidentChannel[];
+
+  /**
+   * Denormalized list of member transcript IDs.
+   * Kept in sync with `channels` and indexed (multi-entry) so the incident
+   * for a transcript can be looked up directly.
+   */
+  transcriptIds: string[];
+
+  /** When the incident record was created */
+  createdAt: Date;
+
+  /** When the incident record was last updated */
+  updatedAt: Date;
+}
+
+/**
+ * Input for creating or editing an incident.
+ * Omits auto-generated and derived fields.
+ */
+export type IncidentInput = Omit<
+  Incident,
+  "id" | "createdAt" | "updatedAt" | "transcriptIds"
+>;
+
+/**
+ * Kinds of entries shown on the combined incident timeline.
+ */
+export type IncidentTimelineEntryKind = "segment" | "annotation";
+
+/**
+ * A single entry on the combined incident timeline.
+ */
+export interface IncidentTimelineEntry {
+  /** Stable key for rendering */
+  id: string;
+
+  /** Entry kind */
+  kind: IncidentTimelineEntryKind;
+
+  /** Seconds from the start of the incident timeline */
+  at: number;
+
+  /** Seconds from the start of the entry's own recording */
+  localAt: number;
+
+  /** End time in seconds (segments only) */
+  end?: number;
+
+  /** Transcript the entry belongs to */
+  transcriptId: string;
+
+  /** Channel label of the transcript */
+  channelLabel: string;
+
+  /** Segment text or annotation note */
+  text: string;
+
+  /** Speaker label (segments only) */
+  speaker?: string;
+
+  /** Segment index within its transcript (segments only) */
+  segmentIndex?: number;
+}
+
+/**
+ * Where a segment of the merged incident timeline came from.
+ */
+export interface IncidentSegmentSource {
+  /** Transcript (channel) the segment belongs to */
+  transcriptId: string;
+
+  /** Channel label of the transcript */
+  channelLabel: string;
+
+  /** Segment index within its transcript */
+  segmentIndex: number;
+
+  /** Segment start within its own recording, in seconds */
+  localStart: number;
+}
+
+/**
+ * Channel badge shown next to segments on a merged multi-channel list.
+ */
+export interface SegmentChannelBadge {
+  /** Channel label (e.g. "TAC 2") */
+  label: string;
+
+  /** Mantine color name for the badge */
+  color: string;
+}
@@ -8,10 +8,16 @@
 // Transcript types
 export type {
   TranscriptSegment,
+  TranscriptWord,
   TranscriptMetadata,
+  TranscriptSpeakerMap,
+  TranscriptRevision,
   Transcript,
   TranscriptionStatus,
   TranscriptionProgress,
+  TranscriptionProviderId,
+  TranscriptionCapabilities,
+  TranscriptionProviderStatus,
   TranscriptInput,
   TranscriptUpdate,
 } from "./transcript";
@@ -59,6 +65,8 @@ export type {
   AnalysisInput,
   AnalysisUpdate,
   AnalysisProgress,
+  AnalysisJobStatus,
+  AnalysisJob,
   AnalysisConfig,
   AnalysisStats,
 } from "./analysis";
@@ -173,18 +181,63 @@ export type {
 
 export { formatAnnotationTimestamp } from "./annotation";
 
+// Incident types
+export type {
+  Incident,
+  IncidentChannel,
+  IncidentInput,
+  IncidentSegmentSource,
+  IncidentTimelineEntry,
+  IncidentTimelineEntryKind,
+  SegmentChannelBadge,
+} from "./incident";
+
+// Glossary types
+export type { GlossaryTerm, GlossaryTermInput, GlossaryCorrection } from "./glossary";
+
+export { GLOSSARY_ALL_DEPARTMENTS } from "./glossary";
+
+// LLM provider types
+export type {
+  LlmProviderId,
+  LlmTask,
+  LlmModelProfile,
+  LlmTaskRoute,
+  LlmProviderStatus,
+} from "./llm";
+
+// Redaction types
+export type {
+  RedactionCategory,
+  RedactionSource,
+  RedactionStatus,
+  RedactionSpan,
+  AudioRedactionMode,
+  AudioRedactionPrecision,
+  AudioRedactionRange,
+  RedactedAudioInfo,
+} from "./redaction";
+
+export { REDACTION_CATEGORIES } from "./redaction";
+
 // RTASS types
 export type {
   RtassCriterionType,
   RtassVerdict,
   RtassEvidence,
   RtassObservedEvent,
+  RtassCadEvidence,
+  RtassTimingSource,
+  RtassTimingResult,
   RtassCriterion,
   RtassRubricSection,
   RtassScoringConfig,
   RtassLlmConfig,
   RtassRubricTemplate,
   RtassScorecardCriterion,
+  RtassCriterionAssessment,
+  RtassAiAssessment,
+  RtassScorecardEdit,
   RtassScorecardSection,
   RtassScorecard,
 } from "./rtass";
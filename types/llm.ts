@@ -0,0 +1,57 @@
+/**
+ * LLM Provider Type Definitions
+ *
+ * Types for the language model registry in lib/llm-providers.ts, which
+ * routes each kind of work (analysis, chat, RTASS scoring, citations,
+ * summaries) to a model on the configured backend.
+ */
+
+/**
+ * Backend that serves chat completions:
+ * - 'azure' / 'openai': the cloud AI configuration
+ * - 'local': an OpenAI-compatible server such as Ollama, vLLM or LM Studio
+ */
+export type LlmProviderId = 'azure' | 'openai' | 'local';
+
+/**
+ * Work the app sends to a language model. Each task can be routed to its
+ * own model.
+ */
+export type LlmTask = 'analysis' | 'chat' | 'scoring' | 'citations' | 'summary';
+
+/**
+ * What a model can take in and return.
+ */
+export interface LlmModelProfile {
+  /** Model name, or deployment name on Azure */
+  model: string;
+
+  /** Context window in tokens */
+  contextWindow: number;
+
+  /** Accepts `response_format: { type: 'json_object' }` */
+  jsonMode: boolean;
+}
+
+/**
+ * The model a task uses, and a larger-context model for inputs that do not
+ * fit it.
+ */
+export interface LlmTaskRoute {
+  model: LlmModelProfile;
+
+  /** Used when the input exceeds `model.contextWindow` */
+  extended?: LlmModelProfile;
+}
+
+/**
+ * The LLM backend as reported by /api/config/status.
+ */
+export interface LlmProviderStatus {
+  provider: LlmProviderId;
+
+  /** Display name, e.g. "Local model server" */
+  label: string;
+
+  routes: Record<LlmTask, LlmTaskRoute>;
+}
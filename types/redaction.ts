@@ -0,0 +1,108 @@
+/**
+ * Redaction Type Definitions
+ *
+ * Personal details heard in radio traffic (patient names, addresses, dates
+ * of birth, callback numbers) marked for removal from exports, shared
+ * packages and, optionally, text sent to the AI services.
+ */
+
+/**
+ * Kind of personal detail a span contains.
+ */
+export type RedactionCategory =
+  | "name"
+  | "address"
+  | "dob"
+  | "phone"
+  | "id_number"
+  | "email";
+
+/** Every redaction category, in display order */
+export const REDACTION_CATEGORIES = [
+  "name",
+  "address",
+  "dob",
+  "phone",
+  "id_number",
+  "email",
+] as const satisfies readonly RedactionCategory[];
+
+/**
+ * How a span was found.
+ */
+export type RedactionSource = "pattern" | "llm" | "manual";
+
+/**
+ * Reviewer decision on a span. Pending spans are redacted like approved
+ * ones, so an unreviewed detection never leaks; rejecting keeps the text.
+ */
+export type RedactionStatus = "pending" | "approved" | "rejected";
+
+/**
+ * A span of a segment's text marked for redaction.
+ */
+export interface RedactionSpan {
+  /** Unique identifier within the transcript */
+  id: string;
+
+  /** Index of the segment the span is in */
+  segmentIndex: number;
+
+  /** Start offset in the segment text */
+  start: number;
+
+  /** End offset in the segment text (exclusive) */
+  end: number;
+
+  /** The marked text, used to find the span again after the segment is edited */
+  text: string;
+
+  category: RedactionCategory;
+
+  source: RedactionSource;
+
+  status: RedactionStatus;
+
+  /** Reviewer who approved or rejected the span */
+  reviewedBy?: string;
+
+  /** When the span was approved or rejected */
+  reviewedAt?: Date;
+}
+
+/**
+ * How redacted stretches of the recording are covered: muted, or replaced
+ * with a tone so listeners can tell something was removed.
+ */
+export type AudioRedactionMode = "silence" | "tone";
+
+/**
+ * How much audio is removed for each span. Segments only have start and end
+ * times, so "span" estimates where the words fall from their position in the
+ * segment text and pads the result; "segment" removes the whole segment.
+ */
+export type AudioRedactionPrecision = "segment" | "span";
+
+/**
+ * A stretch of the recording to silence or tone over, in seconds.
+ */
+export interface AudioRedactionRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * How a stored redacted recording was made, used to tell whether it still
+ * matches the transcript's redactions.
+ */
+export interface RedactedAudioInfo {
+  mode: AudioRedactionMode;
+
+  precision: AudioRedactionPrecision;
+
+  /** Ranges removed from the recording, in order and without overlaps */
+  ranges: AudioRedactionRange[];
+
+  /** When the redacted recording was made */
+  createdAt: Date;
+}
@@ -20,6 +20,26 @@ export interface RtassObservedEvent {
   at: number;
 }
 
+/** A CAD (Visinet) time stamp used as ground truth for a rubric event */
+export interface RtassCadEvidence {
+  /** Rubric event name the CAD entry was mapped to (e.g. "first_unit_arrival") */
+  event: string;
+  /** CAD entry label (e.g. "ENG14 arrived", "Fire Under Control") */
+  label: string;
+  /** Wall-clock time of the CAD entry (ISO 8601) */
+  at: string;
+}
+
+export type RtassTimingSource = 'cad' | 'radio';
+
+/** Deterministically computed elapsed time for a timing criterion */
+export interface RtassTimingResult {
+  startEvent: string;
+  endEvent: string;
+  elapsedSeconds: number;
+  source: RtassTimingSource;
+}
+
 export interface RtassCriterion {
   id: string;
   title: string;
@@ -91,6 +111,33 @@ export interface RtassScorecardCriterion {
   rationale: string;
   evidence: RtassEvidence[];
   observedEvents?: RtassObservedEvent[];
+  cadEvidence?: RtassCadEvidence[];
+  timing?: RtassTimingResult;
+  /** The model's original assessment, kept once a trainer overrides it */
+  aiAssessment?: RtassAiAssessment;
+}
+
+/** The trainer-editable part of a criterion result */
+export type RtassCriterionAssessment = Pick<
+  RtassScorecardCriterion,
+  'verdict' | 'score' | 'evidence'
+>;
+
+/** The model's assessment of a criterion, with its reasoning */
+export type RtassAiAssessment = RtassCriterionAssessment &
+  Pick<RtassScorecardCriterion, 'rationale' | 'confidence'>;
+
+/** One trainer change to a criterion result */
+export interface RtassScorecardEdit {
+  id: string;
+  sectionId: string;
+  criterionId: string;
+  /** Who made the change */
+  editedBy: string;
+  editedAt: Date;
+  before: RtassCriterionAssessment;
+  after: RtassCriterionAssessment;
+  reason: string;
 }
 
 export interface RtassScorecardSection {
@@ -109,7 +156,7 @@ export interface RtassScorecard {
   rubricTemplateId: string;
   createdAt: Date;
   modelInfo: {
-    provider: 'azure-openai' | 'openai';
+    provider: 'azure-openai' | 'openai' | 'local';
     model: string;
     deployment?: string;
   };
@@ -126,5 +173,9 @@ export interface RtassScorecard {
     reviewedAt?: Date;
     notes?: string;
   };
+  /** Trainer overrides, oldest first */
+  edits?: RtassScorecardEdit[];
+  /** Transcript revision the scorecard was generated from (0 = machine transcript) */
+  transcriptRevision?: number;
 }
 
@@ -5,6 +5,9 @@
  * metadata, and transcription progress tracking.
  */
 
+import type { GlossaryCorrection } from './glossary';
+import type { RedactionSpan } from './redaction';
+
 /**
  * Represents a single segment of a transcript with timing information.
  * Segments are typically sentence or phrase-level chunks from the transcription.
@@ -24,6 +27,63 @@ export interface TranscriptSegment {
 
   /** Optional speaker identification (if diarization is available) */
   speaker?: string;
+
+  /**
+   * Word timings, when the transcription service returns them. Dropped when
+   * the segment text is edited, since they would no longer match it.
+   */
+  words?: TranscriptWord[];
+}
+
+/**
+ * A transcribed word with its timing.
+ */
+export interface TranscriptWord {
+  /** The word as transcribed; punctuation may differ from the segment text */
+  word: string;
+
+  /** Start time of the word in seconds */
+  start: number;
+
+  /** End time of the word in seconds */
+  end: number;
+}
+
+/**
+ * Reviewer corrections to diarized speaker labels.
+ *
+ * Segments keep the labels returned by the transcription service ("A",
+ * "speaker_0"); the map is applied on read so edits can always be undone.
+ */
+export interface TranscriptSpeakerMap {
+  /** Display name by diarized speaker label (e.g. "A" → "Engine 14") */
+  names: Record<string, string>;
+
+  /** Speaker labels merged into another label (merged → target) */
+  merges?: Record<string, string>;
+
+  /** Speaker label overrides by segment index, for splitting a speaker */
+  segments?: Record<number, string>;
+}
+
+/**
+ * A reviewer's correction of the transcript text, timing or speakers.
+ */
+export interface TranscriptRevision {
+  /** Revision number, starting at 1 for the first correction */
+  revision: number;
+
+  /** When the correction was saved */
+  editedAt: Date;
+
+  /** Reviewer who made the correction */
+  editedBy: string;
+
+  /** What was corrected (e.g. "Fixed unit number in segment 12") */
+  note?: string;
+
+  /** Segments as of this revision */
+  segments: TranscriptSegment[];
 }
 
 /**
@@ -88,6 +148,24 @@ export interface Transcript {
   /** Optional fingerprint for duplicate detection */
   fingerprint?: TranscriptFingerprint;
 
+  /** Reviewer corrections to diarized speaker labels */
+  speakerMap?: TranscriptSpeakerMap;
+
+  /** Current revision; absent (or 0) for the unedited machine transcript */
+  revision?: number;
+
+  /** The machine transcript, kept once the transcript has been corrected */
+  original?: Pick<Transcript, 'text' | 'segments'>;
+
+  /** Corrections, oldest first */
+  revisions?: TranscriptRevision[];
+
+  /** Substitutions made by the glossary correction pass after transcription */
+  glossaryCorrections?: GlossaryCorrection[];
+
+  /** Personal details marked for redaction from exports and shared packages */
+  redactions?: RedactionSpan[];
+
   /** Index of the part when generated from chunked uploads */
   partIndex?: number;
 
@@ -128,6 +206,45 @@ export interface TranscriptionProgress {
   error?: string;
 }
 
+/**
+ * Speech-to-text backend behind /api/transcribe.
+ * - 'azure' / 'openai': the cloud AI configuration
+ * - 'local': an OpenAI-compatible server on the department's network
+ */
+export type TranscriptionProviderId = 'azure' | 'openai' | 'local';
+
+/**
+ * What the configured transcription backend can return.
+ */
+export interface TranscriptionCapabilities {
+  /** Speaker labels on segments */
+  diarization: boolean;
+
+  /** Word-level timestamps (see TranscriptSegment.words) */
+  wordTimestamps: boolean;
+
+  /** Detects the spoken language when none is given */
+  languageDetection: boolean;
+}
+
+/**
+ * The transcription backend as reported by /api/config/status.
+ */
+export interface TranscriptionProviderStatus {
+  provider: TranscriptionProviderId;
+
+  /** Display name, e.g. "Local Whisper server" */
+  label: string;
+
+  /** Model used when the upload does not pick one the backend offers */
+  defaultModel: string;
+
+  /** Models the upload page offers; empty for the cloud providers' built-in list */
+  models: string[];
+
+  capabilities: TranscriptionCapabilities;
+}
+
 /**
  * Type guard to check if a status is a valid TranscriptionStatus.
  */